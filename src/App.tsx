@@ -22,6 +22,8 @@ const NotFound = lazy(() => import("./pages/NotFound"));
 const History = lazy(() => import("./pages/History"));
 const Analytics = lazy(() => import("./pages/Analytics"));
 const AccountsReceivable = lazy(() => import("./pages/AccountsReceivable"));
+const Reviews = lazy(() => import("./pages/Reviews"));
+const TeamJoin = lazy(() => import("./pages/TeamJoin"));
 
 // Client Portal Pages
 const ClientAuth = lazy(() => import("./pages/ClientAuth"));
@@ -78,6 +80,8 @@ const App = () => (
                     <Route path="/history" element={<History />} />
                     <Route path="/analytics" element={<Analytics />} />
                     <Route path="/accounts-receivable" element={<AccountsReceivable />} />
+                    <Route path="/reviews" element={<Reviews />} />
+                    <Route path="/team/join/:token" element={<TeamJoin />} />
                     
                     {/* Client Portal Routes */}
                     <Route path="/client/auth" element={<ClientAuth />} />
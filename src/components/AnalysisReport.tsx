@@ -7,18 +7,10 @@ import { toast } from 'sonner';
 import { generatePDF } from '@/lib/pdfGenerator';
 import { useCapacitor, ImpactStyle } from '@/hooks/useCapacitor';
 import RugPhoto from '@/components/RugPhoto';
-
-interface ImageAnnotation {
-  label: string;
-  location: string;
-  x: number;
-  y: number;
-}
-
-interface PhotoAnnotations {
-  photoIndex: number;
-  annotations: ImageAnnotation[];
-}
+import { parseStructuredReport, hasRugProfile, RUG_PROFILE_LABELS, RugProfile } from '@/lib/structuredReport';
+import { describeQuote, type ServicePriceQuote } from '@shared/pricing';
+import { alignAnnotations, withPhotoIds, type ImageAnnotation, type PhotoAnnotations } from '@shared/rugPhotos';
+import type { RugPhotoItem } from '@/lib/rugPhotos';
 
 interface ApprovedEstimate {
   services: Array<{
@@ -27,20 +19,23 @@ interface ApprovedEstimate {
     quantity: number;
     unitPrice: number;
     priority: string;
+    pricing?: ServicePriceQuote | null;
   }>;
   total_amount: number;
 }
 
 interface AnalysisReportProps {
   report: string;
+  structuredReport?: unknown;
   rugInfo: {
     clientName: string;
     rugNumber: string;
     rugType: string;
     dimensions: string;
   };
-  photoUrls?: string[];
-  imageAnnotations?: PhotoAnnotations[];
+  photos?: RugPhotoItem[];
+  // As saved on the inspection; markers on deleted photos are dropped
+  imageAnnotations?: unknown;
   onNewInspection: () => void;
   onReviewEstimate?: () => void;
   onReanalyze?: () => void;
@@ -49,12 +44,15 @@ interface AnalysisReportProps {
   approvedEstimate?: ApprovedEstimate | null;
 }
 
+const NO_PHOTOS: RugPhotoItem[] = [];
+
 
 const AnalysisReportComponent: React.FC<AnalysisReportProps> = ({
   report,
+  structuredReport,
   rugInfo,
-  photoUrls = [],
-  imageAnnotations = [],
+  photos = NO_PHOTOS,
+  imageAnnotations,
   onNewInspection,
   onReviewEstimate,
   onReanalyze,
@@ -62,8 +60,14 @@ const AnalysisReportComponent: React.FC<AnalysisReportProps> = ({
   onAnnotationsChange,
   approvedEstimate,
 }) => {
+  const photoIds = useMemo(() => photos.map(photo => photo.id), [photos]);
+  // Saved markers follow their photo by id, wherever it now sits
+  const savedAnnotations = useMemo(
+    () => alignAnnotations(imageAnnotations, photoIds),
+    [imageAnnotations, photoIds]
+  );
   const [editMode, setEditMode] = useState(false);
-  const [localAnnotations, setLocalAnnotations] = useState<PhotoAnnotations[]>(imageAnnotations);
+  const [localAnnotations, setLocalAnnotations] = useState<PhotoAnnotations[]>(savedAnnotations);
   const [editingMarker, setEditingMarker] = useState<{ photoIndex: number; annIndex: number } | null>(null);
   const [editLabel, setEditLabel] = useState('');
   const [draggingMarker, setDraggingMarker] = useState<{ photoIndex: number; annIndex: number } | null>(null);
@@ -74,10 +78,13 @@ const AnalysisReportComponent: React.FC<AnalysisReportProps> = ({
   // Capacitor haptics for native feedback
   const { hapticImpact, isNative } = useCapacitor();
 
+  // Structured AI output (null for inspections analyzed before it existed)
+  const structured = useMemo(() => parseStructuredReport(structuredReport), [structuredReport]);
+
   // Sync local state when props change
   React.useEffect(() => {
-    setLocalAnnotations(imageAnnotations);
-  }, [imageAnnotations]);
+    setLocalAnnotations(savedAnnotations);
+  }, [savedAnnotations]);
 
   const handleImageClick = (e: React.MouseEvent<HTMLDivElement>, photoIndex: number) => {
     if (!editMode) return;
@@ -88,7 +95,7 @@ const AnalysisReportComponent: React.FC<AnalysisReportProps> = ({
 
     const newAnnotation: ImageAnnotation = {
       label: 'New marker - click to edit',
-      location: `Photo ${photoIndex + 1}`,
+      location: photos[photoIndex]?.label || `Photo ${photoIndex + 1}`,
       x: Math.round(x * 10) / 10,
       y: Math.round(y * 10) / 10,
     };
@@ -245,14 +252,14 @@ const AnalysisReportComponent: React.FC<AnalysisReportProps> = ({
 
   const handleSaveAnnotations = () => {
     if (onAnnotationsChange) {
-      onAnnotationsChange(localAnnotations);
+      onAnnotationsChange(withPhotoIds(localAnnotations, photoIds));
       toast.success('Markers saved successfully!');
     }
     setEditMode(false);
   };
 
   const handleCancelEdit = () => {
-    setLocalAnnotations(imageAnnotations);
+    setLocalAnnotations(savedAnnotations);
     setEditMode(false);
     setEditingMarker(null);
     setDraggingMarker(null);
@@ -277,6 +284,7 @@ const AnalysisReportComponent: React.FC<AnalysisReportProps> = ({
         notes: null,
         photo_urls: null,
         analysis_report: report,
+        structured_report: structuredReport ?? null,
         created_at: new Date().toISOString(),
       });
       toast.success('PDF downloaded successfully!');
@@ -286,12 +294,57 @@ const AnalysisReportComponent: React.FC<AnalysisReportProps> = ({
     }
   };
 
+  const renderCostSection = (
+    key: string,
+    title: string,
+    badge: React.ReactNode,
+    items: Array<{ id?: string; name: string; quantity: number; unitPrice: number; pricing?: ServicePriceQuote | null }>,
+    total: number
+  ) => (
+    <div key={key} className="mt-8">
+      <div className="flex items-center gap-2 mb-4">
+        <h3 className="font-display text-xl font-semibold text-foreground border-b border-primary/20 pb-3 tracking-wide flex-1">
+          {title}
+        </h3>
+        {badge}
+      </div>
+      <div className="bg-muted/30 rounded-lg p-5 space-y-2">
+        {items.map((service, idx) => (
+          <div
+            key={service.id || idx}
+            className="flex justify-between items-center text-base leading-relaxed text-foreground/85"
+          >
+            <span className="flex-1">
+              {service.name}
+              {service.pricing && (
+                <span className="block text-xs text-muted-foreground">
+                  {describeQuote(service.pricing)}
+                </span>
+              )}
+            </span>
+            <span className="font-mono text-base">
+              ${(service.quantity * service.unitPrice).toFixed(2)}
+            </span>
+          </div>
+        ))}
+        <div className="border-t border-border pt-3 mt-3 flex justify-between items-center font-semibold text-foreground">
+          <span>Total Estimate</span>
+          <span className="font-mono text-xl text-primary">
+            ${total.toFixed(2)}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+
   // Parse the report into structured sections for elegant display
   // If we have approved estimates, we'll render those costs instead of parsing
   const formatReport = (text: string) => {
     // If we have approved estimate, remove cost-related sections from raw text
     // and we'll render the approved costs separately
     const hasApprovedCosts = approvedEstimate && approvedEstimate.services.length > 0;
+    // Structured services replace the cost lines scraped from the letter text
+    const hasStructuredCosts = !hasApprovedCosts && !!structured;
     // Clean up any remaining markdown artifacts
     const cleanText = text
       .replace(/^#{1,3}\s*/gm, '')
@@ -303,7 +356,7 @@ const AnalysisReportComponent: React.FC<AnalysisReportProps> = ({
     const elements: React.ReactNode[] = [];
     let currentSection: string | null = null;
     let lineItemsBuffer: string[] = [];
-    let skipCostSections = hasApprovedCosts;
+    const skipCostSections = hasApprovedCosts || hasStructuredCosts;
 
     const flushLineItems = () => {
       // If we have approved costs, skip rendering raw AI cost lines
@@ -446,43 +499,31 @@ const AnalysisReportComponent: React.FC<AnalysisReportProps> = ({
 
     // If we have approved estimates, add a verified cost section
     if (hasApprovedCosts && approvedEstimate) {
-      elements.push(
-        <div key="approved-costs" className="mt-8">
-          <div className="flex items-center gap-2 mb-4">
-            <h3 className="font-display text-xl font-semibold text-foreground border-b border-primary/20 pb-3 tracking-wide flex-1">
-              VERIFIED SERVICES & COSTS
-            </h3>
-            <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded-full font-medium">
-              ✓ Staff Verified
-            </span>
-          </div>
-          <div className="bg-muted/30 rounded-lg p-5 space-y-2">
-            {approvedEstimate.services.map((service, idx) => (
-              <div
-                key={service.id || idx}
-                className="flex justify-between items-center text-base leading-relaxed text-foreground/85"
-              >
-                <span className="flex-1">{service.name}</span>
-                <span className="font-mono text-base">
-                  ${(service.quantity * service.unitPrice).toFixed(2)}
-                </span>
-              </div>
-            ))}
-            <div className="border-t border-border pt-3 mt-3 flex justify-between items-center font-semibold text-foreground">
-              <span>Total Estimate</span>
-              <span className="font-mono text-xl text-primary">
-                ${approvedEstimate.total_amount.toFixed(2)}
-              </span>
-            </div>
-          </div>
-        </div>
-      );
+      elements.push(renderCostSection(
+        'approved-costs',
+        'VERIFIED SERVICES & COSTS',
+        <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded-full font-medium">
+          ✓ Staff Verified
+        </span>,
+        approvedEstimate.services,
+        approvedEstimate.total_amount
+      ));
+    } else if (hasStructuredCosts && structured) {
+      elements.push(renderCostSection(
+        'estimated-costs',
+        'ESTIMATED SERVICES & COSTS',
+        <span className="text-xs bg-amber-100 text-amber-700 px-2 py-1 rounded-full font-medium">
+          Pending Staff Review
+        </span>,
+        structured.services,
+        structured.totalEstimate
+      ));
     }
 
     return elements;
   };
 
-  const displayAnnotations = editMode ? localAnnotations : imageAnnotations;
+  const displayAnnotations = editMode ? localAnnotations : savedAnnotations;
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -538,11 +579,21 @@ const AnalysisReportComponent: React.FC<AnalysisReportProps> = ({
               <p className="font-medium">{rugInfo.dimensions}</p>
             </div>
           </div>
+          {structured && hasRugProfile(structured.rugProfile) && (
+            <div className="mt-4 pt-4 border-t border-border grid grid-cols-2 sm:grid-cols-5 gap-4 text-sm">
+              {(Object.keys(RUG_PROFILE_LABELS) as Array<keyof RugProfile>).map((field) => (
+                <div key={field}>
+                  <p className="text-muted-foreground">{RUG_PROFILE_LABELS[field]}</p>
+                  <p className="font-medium">{structured.rugProfile[field] || '—'}</p>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Annotated Photos */}
-      {photoUrls.length > 0 && (
+      {photos.length > 0 && (
         <Card className="shadow-medium">
           <CardHeader className="border-b border-border">
             <div className="flex items-center justify-between">
@@ -599,16 +650,16 @@ const AnalysisReportComponent: React.FC<AnalysisReportProps> = ({
           </CardHeader>
           <CardContent className="pt-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {photoUrls.map((url, photoIndex) => {
+              {photos.map((photo, photoIndex) => {
                 const photoAnnotation = displayAnnotations.find(
                   (a) => a.photoIndex === photoIndex
                 );
                 const annotations = photoAnnotation?.annotations || [];
 
                 return (
-                  <div key={photoIndex} className="space-y-2">
+                  <div key={photo.id || photoIndex} className="space-y-2">
                     <p className="text-sm font-medium text-muted-foreground">
-                      Photo {photoIndex + 1}
+                      {photo.label}
                     </p>
                     <div 
                       ref={el => imageRefs.current[photoIndex] = el}
@@ -616,8 +667,8 @@ const AnalysisReportComponent: React.FC<AnalysisReportProps> = ({
                       onClick={(e) => handleImageClick(e, photoIndex)}
                     >
                       <RugPhoto
-                        filePath={url}
-                        alt={`Rug photo ${photoIndex + 1}`}
+                        filePath={photo.path}
+                        alt={photo.label}
                         className="w-full h-auto object-cover pointer-events-none"
                       />
                       {/* Annotation markers */}
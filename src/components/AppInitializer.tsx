@@ -2,6 +2,7 @@ import { useEffect } from 'react';
 import { useCapacitor, StatusBarStyle } from '@/hooks/useCapacitor';
 import { usePushToken } from '@/hooks/usePushToken';
 import { useAuth } from '@/hooks/useAuth';
+import { useOfflineSync } from '@/hooks/useOfflineQueue';
 
 interface AppInitializerProps {
   children: React.ReactNode;
@@ -11,6 +12,7 @@ interface AppInitializerProps {
  * AppInitializer handles native app setup:
  * - Status bar styling
  * - Push notification registration
+ * - Syncing intake saved offline
  * - Deep link handling (future)
  */
 export function AppInitializer({ children }: AppInitializerProps) {
@@ -18,6 +20,8 @@ export function AppInitializer({ children }: AppInitializerProps) {
   const { registerAndSaveToken } = usePushToken();
   const { user } = useAuth();
 
+  useOfflineSync(user?.id);
+
   // Set up status bar on mount
   useEffect(() => {
     if (!isNative) return;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+import RugPhoto from '@/components/RugPhoto';
+import type { BeforeAfterPair } from '@/lib/rugPhotos';
+
+interface BeforeAfterSliderProps {
+  pairs: BeforeAfterPair[];
+  className?: string;
+}
+
+// One rug's before/after photos, one angle at a time. The after photo sits on top
+// and is revealed from the left by dragging the divider.
+const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({ pairs, className }) => {
+  const [stepId, setStepId] = useState(pairs[0]?.stepId);
+  const [position, setPosition] = useState(50);
+
+  const pair = pairs.find(p => p.stepId === stepId) ?? pairs[0];
+  if (!pair) return null;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="relative aspect-[4/3] overflow-hidden rounded-lg border bg-muted select-none">
+        <RugPhoto
+          filePath={pair.before}
+          alt={`${pair.label} before`}
+          className="absolute inset-0 h-full w-full object-cover"
+          loadingClassName="absolute inset-0 h-full w-full"
+        />
+        <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}>
+          <RugPhoto
+            filePath={pair.after}
+            alt={`${pair.label} after`}
+            className="h-full w-full object-cover"
+            loadingClassName="h-full w-full"
+          />
+        </div>
+
+        <div
+          className="pointer-events-none absolute inset-y-0 w-0.5 bg-white shadow"
+          style={{ left: `${position}%` }}
+        >
+          <div className="absolute top-1/2 left-1/2 h-7 w-7 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-black/40" />
+        </div>
+        <span className="pointer-events-none absolute top-2 left-2 rounded-full bg-black/60 px-2 py-0.5 text-[10px] font-medium text-white">
+          After
+        </span>
+        <span className="pointer-events-none absolute top-2 right-2 rounded-full bg-black/60 px-2 py-0.5 text-[10px] font-medium text-white">
+          Before
+        </span>
+
+        {/* Transparent range input on top: drag anywhere, and keyboard accessible */}
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={position}
+          onChange={e => setPosition(Number(e.target.value))}
+          aria-label={`Compare ${pair.label} before and after`}
+          className="absolute inset-0 h-full w-full cursor-ew-resize opacity-0"
+        />
+      </div>
+
+      {pairs.length > 1 && (
+        <div className="flex flex-wrap gap-1">
+          {pairs.map(p => (
+            <button
+              key={p.stepId}
+              type="button"
+              onClick={() => setStepId(p.stepId)}
+              className={cn(
+                'rounded-full border px-2 py-0.5 text-xs transition-colors',
+                p.stepId === pair.stepId
+                  ? 'border-primary bg-primary text-primary-foreground'
+                  : 'border-border text-muted-foreground hover:bg-muted'
+              )}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BeforeAfterSlider;
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { Receipt, Save, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { useOrganization, useUpdateDepositPercentage } from '@/hooks/useOrganization';
+
+const BillingSettings: React.FC = () => {
+  const { organization } = useOrganization();
+  const updateDeposit = useUpdateDepositPercentage();
+  const [depositPercentage, setDepositPercentage] = useState('');
+
+  useEffect(() => {
+    if (organization) setDepositPercentage(String(organization.deposit_percentage));
+  }, [organization]);
+
+  const handleSave = () => {
+    if (!organization) return;
+    const value = Number(depositPercentage);
+    if (depositPercentage.trim() === '' || isNaN(value) || value < 0 || value > 100) {
+      toast.error('Deposit must be between 0 and 100%');
+      return;
+    }
+    updateDeposit.mutate({ orgId: organization.id, depositPercentage: value });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          Deposits & Billing
+        </CardTitle>
+        <CardDescription>
+          Clients can pay a deposit when they approve an estimate. The balance is invoiced when a job
+          reaches the status marked "Bill balance here" in your pipeline.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="deposit-percentage">Deposit (% of the job total)</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="deposit-percentage"
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              value={depositPercentage}
+              onChange={(e) => setDepositPercentage(e.target.value)}
+            />
+            <span className="text-muted-foreground">%</span>
+          </div>
+          <p className="text-xs text-muted-foreground">Set to 0 to require payment in full.</p>
+        </div>
+        <Button onClick={handleSave} disabled={!organization || updateDeposit.isPending} className="gap-2">
+          {updateDeposit.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BillingSettings;
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { ListChecks, Plus, Save, Trash2, Loader2, Star } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrganization } from '@/hooks/useOrganization';
+import { useChecklistTemplates } from '@/hooks/useJobChecklist';
+import { queryKeys } from '@/lib/queryKeys';
+import { DEFAULT_CHECKLIST_STEPS } from '@/lib/checklist';
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  // One step per line while editing
+  stepsText: string;
+  isDefault: boolean;
+}
+
+const parseSteps = (text: string): string[] =>
+  Array.from(new Set(text.split('\n').map(s => s.trim()).filter(Boolean)));
+
+const ChecklistTemplatesSettings: React.FC = () => {
+  const { businessUserId } = useOrganization();
+  const queryClient = useQueryClient();
+  const { data: templates = [], isLoading } = useChecklistTemplates();
+  const [drafts, setDrafts] = useState<TemplateDraft[]>([]);
+  const [saving, setSaving] = useState<number | null>(null);
+
+  useEffect(() => {
+    setDrafts(
+      templates.map(t => ({
+        id: t.id,
+        name: t.name,
+        stepsText: t.steps.join('\n'),
+        isDefault: t.is_default,
+      }))
+    );
+  }, [templates]);
+
+  const refresh = () => {
+    if (!businessUserId) return;
+    queryClient.invalidateQueries({ queryKey: queryKeys.user.checklistTemplates(businessUserId) });
+  };
+
+  const updateDraft = (index: number, changes: Partial<TemplateDraft>) => {
+    setDrafts(prev => prev.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  };
+
+  const addTemplate = () => {
+    setDrafts(prev => [
+      ...prev,
+      {
+        name: prev.length === 0 ? 'Standard' : 'New checklist',
+        stepsText: DEFAULT_CHECKLIST_STEPS.join('\n'),
+        isDefault: prev.length === 0,
+      },
+    ]);
+  };
+
+  const handleSave = async (index: number) => {
+    if (!businessUserId) return;
+    const draft = drafts[index];
+    const steps = parseSteps(draft.stepsText);
+
+    if (!draft.name.trim()) {
+      toast.error('Please give the checklist a name');
+      return;
+    }
+    if (steps.length === 0) {
+      toast.error('Add at least one step');
+      return;
+    }
+
+    setSaving(index);
+    try {
+      // Only one default per business - clear the old one first
+      if (draft.isDefault) {
+        const { error: clearError } = await supabase
+          .from('checklist_templates')
+          .update({ is_default: false })
+          .eq('user_id', businessUserId)
+          .eq('is_default', true)
+          .neq('id', draft.id || '00000000-0000-0000-0000-000000000000');
+
+        if (clearError) throw clearError;
+      }
+
+      const row = {
+        user_id: businessUserId,
+        name: draft.name.trim(),
+        steps,
+        is_default: draft.isDefault,
+      };
+
+      const { error } = draft.id
+        ? await supabase.from('checklist_templates').update(row).eq('id', draft.id)
+        : await supabase.from('checklist_templates').insert(row);
+
+      if (error) throw error;
+
+      toast.success('Checklist saved');
+      refresh();
+    } catch (error) {
+      console.error('Error saving checklist template:', error);
+      toast.error('Failed to save checklist');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleDelete = async (index: number) => {
+    const draft = drafts[index];
+    if (!draft.id) {
+      setDrafts(prev => prev.filter((_, i) => i !== index));
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('checklist_templates')
+        .delete()
+        .eq('id', draft.id);
+
+      if (error) throw error;
+
+      toast.success('Checklist deleted');
+      refresh();
+    } catch (error) {
+      console.error('Error deleting checklist template:', error);
+      toast.error('Failed to delete checklist');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Job Checklists
+        </CardTitle>
+        <CardDescription>
+          Steps every job moves through. The default checklist is added to new jobs; others can be added from a job's page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            {drafts.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Jobs currently use the built-in steps: {DEFAULT_CHECKLIST_STEPS.join(', ')}.
+              </p>
+            )}
+
+            {drafts.map((draft, index) => (
+              <div key={draft.id || `new-${index}`} className="space-y-3 rounded-lg border border-border p-4">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={draft.name}
+                    onChange={(e) => updateDraft(index, { name: e.target.value })}
+                    placeholder="Checklist name"
+                  />
+                  {draft.isDefault ? (
+                    <Badge variant="secondary" className="gap-1 shrink-0">
+                      <Star className="h-3 w-3" />
+                      Default
+                    </Badge>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="shrink-0"
+                      onClick={() =>
+                        setDrafts(prev => prev.map((d, i) => ({ ...d, isDefault: i === index })))
+                      }
+                    >
+                      Make default
+                    </Button>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Steps (one per line, in order)</Label>
+                  <Textarea
+                    rows={6}
+                    value={draft.stepsText}
+                    onChange={(e) => updateDraft(index, { stepsText: e.target.value })}
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(index)}
+                    className="gap-1 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete
+                  </Button>
+                  <Button size="sm" onClick={() => handleSave(index)} disabled={saving === index} className="gap-1">
+                    {saving === index ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <Button variant="outline" onClick={addTemplate} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add checklist
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ChecklistTemplatesSettings;
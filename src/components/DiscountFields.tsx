@@ -0,0 +1,42 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { DiscountTerms, DiscountType } from '@shared/discounts';
+
+interface DiscountFieldsProps {
+  value: DiscountTerms;
+  onChange: (value: DiscountTerms) => void;
+  labelPlaceholder?: string;
+}
+
+// Percentage-or-amount discount inputs shared by the estimate, job and settings forms
+const DiscountFields: React.FC<DiscountFieldsProps> = ({ value, onChange, labelPlaceholder = 'e.g. Repeat customer' }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <Input
+      className="flex-1 min-w-[160px]"
+      value={value.label}
+      onChange={(e) => onChange({ ...value, label: e.target.value })}
+      placeholder={labelPlaceholder}
+    />
+    <Select value={value.type} onValueChange={(type) => onChange({ ...value, type: type as DiscountType })}>
+      <SelectTrigger className="w-[110px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="percentage">% off</SelectItem>
+        <SelectItem value="fixed">$ off</SelectItem>
+      </SelectContent>
+    </Select>
+    <Input
+      className="w-24"
+      type="number"
+      min={0}
+      max={value.type === 'percentage' ? 100 : undefined}
+      step={value.type === 'percentage' ? 1 : 0.01}
+      value={value.value}
+      onChange={(e) => onChange({ ...value, value: parseFloat(e.target.value) || 0 })}
+    />
+  </div>
+);
+
+export default DiscountFields;
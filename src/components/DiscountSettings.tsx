@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import { Tag, Plus, Save, Trash2, Loader2, Ticket } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import DiscountFields from '@/components/DiscountFields';
+import { useOrganization } from '@/hooks/useOrganization';
+import {
+  useDiscountRules,
+  useSaveDiscountRules,
+  useCouponCodes,
+  useCreateCouponCode,
+  useSetCouponActive,
+  type DiscountRuleDraft,
+} from '@/hooks/useDiscounts';
+import { describeDiscount, isValidDiscount, type DiscountTerms, type DiscountType } from '@shared/discounts';
+
+const EMPTY_COUPON = { code: '', terms: { type: 'percentage' as DiscountType, value: 10, label: '' }, expiresAt: '', maxRedemptions: '' };
+
+const DiscountSettings: React.FC = () => {
+  const { organization } = useOrganization();
+  const { data: rules = [], isLoading } = useDiscountRules();
+  const { data: coupons = [] } = useCouponCodes();
+  const saveRules = useSaveDiscountRules();
+  const createCoupon = useCreateCouponCode();
+  const setCouponActive = useSetCouponActive();
+  const [drafts, setDrafts] = useState<DiscountRuleDraft[]>([]);
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
+  const [coupon, setCoupon] = useState(EMPTY_COUPON);
+
+  useEffect(() => {
+    setDrafts(rules.map(({ id, label, discount_type, value, min_rugs, is_active }) => ({
+      id, label, discount_type, value, min_rugs, is_active,
+    })));
+    setRemovedIds([]);
+  }, [rules]);
+
+  const updateDraft = (index: number, changes: Partial<DiscountRuleDraft>) => {
+    setDrafts(prev => prev.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  };
+
+  const removeDraft = (index: number) => {
+    const draft = drafts[index];
+    if (draft.id) setRemovedIds(prev => [...prev, draft.id as string]);
+    setDrafts(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const toTerms = (draft: DiscountRuleDraft): DiscountTerms => ({
+    type: draft.discount_type as DiscountType,
+    value: Number(draft.value),
+    label: draft.label,
+  });
+
+  const handleSaveRules = () => {
+    if (!organization) return;
+    if (drafts.some(d => !isValidDiscount(toTerms(d)))) {
+      toast.error('Every rule needs a name and an amount');
+      return;
+    }
+    if (drafts.some(d => !Number.isInteger(Number(d.min_rugs)) || Number(d.min_rugs) < 1)) {
+      toast.error('Rules need a rug count of at least 1');
+      return;
+    }
+    saveRules.mutate({
+      organizationId: organization.id,
+      rules: drafts.map(d => ({ ...d, label: d.label.trim() })),
+      removedIds,
+    });
+  };
+
+  const handleCreateCoupon = () => {
+    if (!organization) return;
+    if (!/^[A-Za-z0-9_-]+$/.test(coupon.code.trim())) {
+      toast.error('Codes can use letters, numbers, dashes and underscores');
+      return;
+    }
+    if (coupon.terms.value <= 0 || (coupon.terms.type === 'percentage' && coupon.terms.value > 100)) {
+      toast.error('Enter the coupon\'s discount');
+      return;
+    }
+    createCoupon.mutate(
+      {
+        organization_id: organization.id,
+        code: coupon.code,
+        label: coupon.terms.label.trim() || null,
+        discount_type: coupon.terms.type,
+        value: coupon.terms.value,
+        expires_at: coupon.expiresAt ? new Date(`${coupon.expiresAt}T23:59:59`).toISOString() : null,
+        max_redemptions: coupon.maxRedemptions ? parseInt(coupon.maxRedemptions) : null,
+      },
+      { onSuccess: () => setCoupon(EMPTY_COUPON) }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="h-5 w-5" />
+          Discounts & Coupons
+        </CardTitle>
+        <CardDescription>
+          Automatic discounts apply when a client selects services on enough rugs; only the best one they
+          qualify for applies. Coupon codes are entered by clients in their portal.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            {drafts.map((draft, index) => (
+              <div key={draft.id || `new-${index}`} className="flex flex-wrap items-center gap-2 rounded-lg border border-border p-3">
+                <div className="flex items-center gap-1">
+                  <Input
+                    className="w-16"
+                    type="number"
+                    min={1}
+                    value={draft.min_rugs}
+                    onChange={(e) => updateDraft(index, { min_rugs: parseInt(e.target.value) || 0 })}
+                  />
+                  <span className="text-sm text-muted-foreground">+ rugs</span>
+                </div>
+                <div className="flex-1 min-w-[260px]">
+                  <DiscountFields
+                    value={toTerms(draft)}
+                    onChange={(terms) => updateDraft(index, { label: terms.label, discount_type: terms.type, value: terms.value })}
+                    labelPlaceholder="e.g. Multi-rug discount"
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`rule-active-${index}`}
+                    checked={draft.is_active}
+                    onCheckedChange={(checked) => updateDraft(index, { is_active: checked })}
+                  />
+                  <Label htmlFor={`rule-active-${index}`} className="font-normal">Active</Label>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeDraft(index)}
+                  className="text-destructive hover:text-destructive"
+                  aria-label="Remove rule"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap justify-between gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setDrafts(prev => [
+                  ...prev,
+                  { label: '', discount_type: 'percentage', value: 10, min_rugs: 3, is_active: true },
+                ])}
+                className="gap-2"
+              >
+                <Plus className="h-4 w-4" />
+                Add rule
+              </Button>
+              <Button onClick={handleSaveRules} disabled={!organization || saveRules.isPending} className="gap-2">
+                {saveRules.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Save rules
+              </Button>
+            </div>
+          </>
+        )}
+
+        <Separator />
+
+        <div className="space-y-3">
+          <Label className="flex items-center gap-2">
+            <Ticket className="h-4 w-4" />
+            Coupon codes
+          </Label>
+          {coupons.map((c) => {
+            const expired = !!c.expires_at && new Date(c.expires_at) < new Date();
+            return (
+              <div key={c.id} className="flex items-center justify-between gap-2 rounded-md border border-border px-3 py-2">
+                <div>
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    {c.code}
+                    {expired && <Badge variant="outline" className="text-xs">Expired</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {describeDiscount({ type: c.discount_type as DiscountType, value: Number(c.value), label: c.label || 'Discount' })}
+                    {c.discount_type === 'fixed' && ` ($${Number(c.value).toFixed(2)} off)`}
+                    {' · '}Used {c.times_redeemed}{c.max_redemptions ? ` of ${c.max_redemptions}` : ''} times
+                    {c.expires_at && ` · Expires ${format(new Date(c.expires_at), 'MMM d, yyyy')}`}
+                  </p>
+                </div>
+                <Switch
+                  checked={c.is_active}
+                  onCheckedChange={(checked) => setCouponActive.mutate({ id: c.id, isActive: checked, organizationId: c.organization_id })}
+                  aria-label="Coupon active"
+                />
+              </div>
+            );
+          })}
+          <div className="space-y-2 rounded-lg border border-dashed border-border p-3">
+            <div className="flex flex-wrap gap-2">
+              <Input
+                className="w-40 uppercase"
+                value={coupon.code}
+                onChange={(e) => setCoupon(prev => ({ ...prev, code: e.target.value }))}
+                placeholder="CODE"
+              />
+              <div className="flex-1 min-w-[260px]">
+                <DiscountFields
+                  value={coupon.terms}
+                  onChange={(terms) => setCoupon(prev => ({ ...prev, terms }))}
+                  labelPlaceholder="Shown to clients (optional)"
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Expires</Label>
+                <Input
+                  type="date"
+                  value={coupon.expiresAt}
+                  onChange={(e) => setCoupon(prev => ({ ...prev, expiresAt: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Max uses</Label>
+                <Input
+                  className="w-24"
+                  type="number"
+                  min={1}
+                  value={coupon.maxRedemptions}
+                  onChange={(e) => setCoupon(prev => ({ ...prev, maxRedemptions: e.target.value }))}
+                  placeholder="No limit"
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleCreateCoupon}
+                disabled={!organization || createCoupon.isPending}
+                className="gap-2"
+              >
+                {createCoupon.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                Create coupon
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DiscountSettings;
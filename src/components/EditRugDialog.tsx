@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Hash, Ruler, Loader2 } from 'lucide-react';
+import { Hash, Ruler, Loader2, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -18,6 +18,10 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { toast } from 'sonner';
+import RugPhoto from '@/components/RugPhoto';
+import { useDeleteRugPhoto, useReorderRugPhotos, useUpdateRugPhotoCaption } from '@/hooks/useRugPhotos';
+import { rugPhotoLabel } from '@shared/rugPhotos';
+import { rugPhotoList, type RugPhotoItem, type RugPhotoRow } from '@/lib/rugPhotos';
 
 const RUG_TYPES = [
   'Persian',
@@ -46,18 +50,134 @@ interface Rug {
   length: number | null;
   width: number | null;
   notes: string | null;
+  photo_urls?: string[] | null;
+  rug_photos?: RugPhotoRow[] | null;
 }
 
 interface EditRugDialogProps {
   rug: Rug | null;
+  jobId: string;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSave: (rugId: string, data: { rugNumber: string; rugType: string; length: string; width: string; notes: string }) => Promise<void>;
   isLoading: boolean;
 }
 
+// Captions, order and deletion save straight away, separately from the rug's fields
+const RugPhotosEditor: React.FC<{ jobId: string; rug: Rug }> = ({ jobId, rug }) => {
+  const [photos, setPhotos] = useState<RugPhotoItem[]>(() => rugPhotoList(rug));
+  const updateCaption = useUpdateRugPhotoCaption();
+  const reorderPhotos = useReorderRugPhotos();
+  const deletePhoto = useDeleteRugPhoto();
+
+  React.useEffect(() => {
+    setPhotos(rugPhotoList(rug));
+  }, [rug]);
+
+  const relabel = (list: RugPhotoItem[]) =>
+    list.map((photo, index) => ({ ...photo, label: rugPhotoLabel(photo, index) }));
+
+  if (photos.length === 0) return null;
+
+  // Photos not yet synced from the device have no rows to edit
+  if (photos.some(photo => !photo.id)) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Photos can be edited once this rug has finished uploading.
+      </p>
+    );
+  }
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= photos.length) return;
+    const reordered = [...photos];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setPhotos(relabel(reordered));
+    reorderPhotos.mutate({ jobId, photoIds: reordered.map(photo => photo.id!) });
+  };
+
+  const handleCaptionBlur = (photo: RugPhotoItem, caption: string) => {
+    if ((photo.caption || '') === caption) return;
+    setPhotos(prev => relabel(prev.map(p => (p.id === photo.id ? { ...p, caption: caption || null } : p))));
+    updateCaption.mutate({ jobId, photoId: photo.id!, caption });
+  };
+
+  const handleDelete = (photo: RugPhotoItem) => {
+    if (!confirm(`Delete "${photo.label}"? Markers on this photo will be removed too.`)) return;
+    setPhotos(prev => relabel(prev.filter(p => p.id !== photo.id)));
+    deletePhoto.mutate(
+      { jobId, photoId: photo.id!, path: photo.path },
+      { onError: () => setPhotos(rugPhotoList(rug)) }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Photos ({photos.length})</Label>
+      <div className="max-h-64 space-y-2 overflow-y-auto pr-1">
+        {photos.map((photo, index) => (
+          <div key={photo.id} className="flex items-center gap-2 rounded-lg border border-border p-2">
+            <RugPhoto
+              filePath={photo.path}
+              alt={photo.label}
+              thumbnail
+              className="h-12 w-12 flex-shrink-0 rounded object-cover"
+            />
+            <div className="min-w-0 flex-1 space-y-1">
+              <p className="truncate text-xs font-medium text-foreground">{photo.label}</p>
+              <Input
+                defaultValue={photo.caption || ''}
+                onBlur={e => handleCaptionBlur(photo, e.target.value.trim())}
+                placeholder="Add a caption"
+                maxLength={200}
+                className="h-7 text-xs"
+              />
+            </div>
+            <div className="flex flex-col">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => handleMove(index, -1)}
+                disabled={index === 0}
+                aria-label="Move up"
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => handleMove(index, 1)}
+                disabled={index === photos.length - 1}
+                aria-label="Move down"
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive"
+              onClick={() => handleDelete(photo)}
+              aria-label="Delete photo"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 const EditRugDialog: React.FC<EditRugDialogProps> = ({
   rug,
+  jobId,
   open,
   onOpenChange,
   onSave,
@@ -185,6 +305,8 @@ const EditRugDialog: React.FC<EditRugDialogProps> = ({
             />
           </div>
 
+          <RugPhotosEditor jobId={jobId} rug={rug} />
+
           <div className="flex justify-end gap-2 pt-4">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Mail, Loader2, RotateCw, Paperclip } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { format } from 'date-fns';
+import { useJobEmailEvents, useResendEmail } from '@/hooks/useEmailEvents';
+import { EMAIL_KIND_LABELS, EMAIL_STATUS_CONFIG, type EmailEvent } from '@/lib/emailEvents';
+
+interface EmailHistoryCardProps {
+  jobId: string;
+}
+
+const COLLAPSED_COUNT = 5;
+
+const formatTime = (value: string) => format(new Date(value), 'MMM d, h:mm a');
+
+// What happened to the email after it left, most recent first
+const trackingLine = (email: EmailEvent) =>
+  [
+    email.delivered_at && `Delivered ${formatTime(email.delivered_at)}`,
+    email.opened_at && `Opened ${formatTime(email.opened_at)}`,
+    email.clicked_at && `Clicked ${formatTime(email.clicked_at)}`,
+    email.bounced_at && `Bounced ${formatTime(email.bounced_at)}`,
+  ].filter(Boolean).join(' · ');
+
+const EmailHistoryCard: React.FC<EmailHistoryCardProps> = ({ jobId }) => {
+  const { data: emails = [], isLoading } = useJobEmailEvents(jobId);
+  const resendEmail = useResendEmail();
+  const [expanded, setExpanded] = useState(false);
+
+  const visible = expanded ? emails : emails.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-display text-xl flex items-center gap-2">
+          <Mail className="h-5 w-5 text-primary" />
+          Email history
+        </CardTitle>
+        <CardDescription>Every email sent for this job and whether it reached the recipient.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : emails.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No emails sent yet.</p>
+        ) : (
+          <>
+            {visible.map((email) => {
+              const status = EMAIL_STATUS_CONFIG[email.status] || EMAIL_STATUS_CONFIG.sent;
+              const attachments = Array.isArray(email.attachments) ? email.attachments.length : 0;
+              const tracking = trackingLine(email);
+              const isResending = resendEmail.isPending && resendEmail.variables?.emailEventId === email.id;
+
+              return (
+                <div key={email.id} className="flex items-start justify-between gap-3 rounded-md border border-border px-3 py-2">
+                  <div className="min-w-0 space-y-0.5">
+                    <p className="text-sm font-medium flex flex-wrap items-center gap-2">
+                      {EMAIL_KIND_LABELS[email.template_type] || email.template_type}
+                      <Badge variant="outline" className={status.className}>{status.label}</Badge>
+                      {email.resent_from && <Badge variant="outline" className="text-xs">Resent</Badge>}
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">{email.subject}</p>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      To {email.recipient} · {format(new Date(email.created_at), 'MMM d, yyyy h:mm a')}
+                      {attachments > 0 && (
+                        <>
+                          {' · '}
+                          <Paperclip className="h-3 w-3" />
+                          {attachments}
+                        </>
+                      )}
+                    </p>
+                    {tracking && <p className="text-xs text-muted-foreground">{tracking}</p>}
+                    {email.error && <p className="text-xs text-destructive">{email.error}</p>}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => resendEmail.mutate({ emailEventId: email.id, jobId })}
+                    disabled={resendEmail.isPending}
+                    className="gap-2 shrink-0"
+                  >
+                    {isResending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCw className="h-4 w-4" />}
+                    Resend
+                  </Button>
+                </div>
+              );
+            })}
+            {emails.length > COLLAPSED_COUNT && (
+              <Button variant="ghost" size="sm" onClick={() => setExpanded(prev => !prev)}>
+                {expanded ? 'Show less' : `Show all ${emails.length}`}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EmailHistoryCard;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Loader2, Mail, Paperclip, User, FileText } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
@@ -7,6 +7,19 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useEmailTemplate } from '@/hooks/useEmailTemplates';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  fillTemplate,
+  formatRugCount,
+  renderEmail,
+  reportRugsSection,
+  type EmailSection,
+  type EmailTemplateContent,
+  type EmailTemplateType,
+  type EmailVariables,
+} from '@shared/emailTemplates';
 
 interface RugDetail {
   rugNumber: string;
@@ -17,43 +30,78 @@ interface RugDetail {
 interface EmailPreviewDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSend: (subject: string, message: string) => Promise<void>;
+  templateType?: EmailTemplateType;
+  // Unsaved edits from the settings page; otherwise the business's saved template
+  template?: EmailTemplateContent;
+  // Without it the dialog only previews the email
+  onSend?: (subject: string, message: string) => Promise<void>;
   clientName: string;
   clientEmail: string;
   jobNumber: string;
   rugDetails: RugDetail[];
   businessName?: string;
-  isSending: boolean;
+  businessPhone?: string;
+  businessEmail?: string;
+  // Values for template-specific variables such as portal_link or amount
+  variables?: EmailVariables;
+  // Content shown under the body, e.g. a credit note's refunded lines
+  sections?: EmailSection[];
+  isSending?: boolean;
 }
 
 const EmailPreviewDialog: React.FC<EmailPreviewDialogProps> = ({
   open,
   onOpenChange,
+  templateType = 'report_email',
+  template,
   onSend,
   clientName,
   clientEmail,
   jobNumber,
   rugDetails,
   businessName = 'Rug Inspection Service',
-  isSending,
+  businessPhone = '',
+  businessEmail = '',
+  variables,
+  sections,
+  isSending = false,
 }) => {
-  const defaultSubject = `Rug Inspection Report - Job #${jobNumber}`;
-  const defaultMessage = `Dear ${clientName},
+  const { data: savedTemplate } = useEmailTemplate(templateType);
+  const source = template || savedTemplate;
 
-Thank you for choosing our services. Please find attached the detailed inspection report for Job #${jobNumber}.
+  const templateVariables = useMemo<EmailVariables>(() => ({
+    client_name: clientName,
+    business_name: businessName,
+    business_phone: businessPhone,
+    business_email: businessEmail,
+    job_number: jobNumber,
+    rug_count: formatRugCount(rugDetails.length),
+    ...variables,
+  }), [clientName, businessName, businessPhone, businessEmail, jobNumber, rugDetails.length, variables]);
 
-This report includes a comprehensive analysis of ${rugDetails.length} rug${rugDetails.length > 1 ? 's' : ''} with our professional assessment and recommendations.
-
-If you have any questions about this report, please don't hesitate to contact us.
-
-Best regards,
-${businessName}`;
+  const defaultSubject = source ? fillTemplate(source.subject, templateVariables) : '';
+  const defaultMessage = source ? fillTemplate(source.body, templateVariables) : '';
 
   const [subject, setSubject] = useState(defaultSubject);
   const [message, setMessage] = useState(defaultMessage);
 
+  // Start from the template each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSubject(defaultSubject);
+      setMessage(defaultMessage);
+    }
+  }, [open, defaultSubject, defaultMessage]);
+
+  const rendered = useMemo(() => renderEmail(
+    templateType,
+    { subject, body: message },
+    templateVariables,
+    sections ?? (templateType === 'report_email' ? [reportRugsSection(rugDetails, !!onSend)] : [])
+  ), [templateType, subject, message, templateVariables, sections, rugDetails, onSend]);
+
   const handleSend = async () => {
-    await onSend(subject, message);
+    if (onSend) await onSend(subject, message);
   };
 
   const resetToDefaults = () => {
@@ -61,13 +109,28 @@ ${businessName}`;
     setMessage(defaultMessage);
   };
 
+  const preview = (
+    <div className="space-y-2">
+      <p className="text-sm">
+        <span className="text-muted-foreground">Subject: </span>
+        <span className="font-medium">{rendered.subject}</span>
+      </p>
+      <iframe
+        title="Email preview"
+        srcDoc={rendered.html}
+        sandbox=""
+        className="w-full h-[480px] rounded-lg border bg-white"
+      />
+    </div>
+  );
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 font-display text-xl">
             <Mail className="h-5 w-5 text-primary" />
-            Email Preview
+            {onSend ? 'Email Preview' : `${DEFAULT_EMAIL_TEMPLATES[templateType].label} Preview`}
           </DialogTitle>
         </DialogHeader>
 
@@ -83,77 +146,92 @@ ${businessName}`;
             </div>
           </div>
 
-          {/* Subject */}
-          <div className="space-y-2">
-            <Label htmlFor="subject">Subject</Label>
-            <Input
-              id="subject"
-              value={subject}
-              onChange={(e) => setSubject(e.target.value)}
-              placeholder="Email subject..."
-            />
-          </div>
+          {onSend ? (
+            <Tabs defaultValue="message">
+              <TabsList className="mb-4">
+                <TabsTrigger value="message">Message</TabsTrigger>
+                <TabsTrigger value="preview">Preview</TabsTrigger>
+              </TabsList>
 
-          {/* Message */}
-          <div className="space-y-2">
-            <Label htmlFor="message">Message</Label>
-            <Textarea
-              id="message"
-              value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              placeholder="Email message..."
-              rows={10}
-              className="resize-none font-mono text-sm"
-            />
-            <Button
-              type="button"
-              variant="ghost"
-              size="sm"
-              onClick={resetToDefaults}
-              className="text-xs text-muted-foreground"
-            >
-              Reset to default message
-            </Button>
-          </div>
+              <TabsContent value="message" className="space-y-6">
+                {/* Subject */}
+                <div className="space-y-2">
+                  <Label htmlFor="subject">Subject</Label>
+                  <Input
+                    id="subject"
+                    value={subject}
+                    onChange={(e) => setSubject(e.target.value)}
+                    placeholder="Email subject..."
+                  />
+                </div>
 
-          <Separator />
-
-          {/* Attachment Preview */}
-          <div className="space-y-3">
-            <Label className="flex items-center gap-2">
-              <Paperclip className="h-4 w-4" />
-              Attachment
-            </Label>
-            <div className="flex items-center gap-3 p-3 border rounded-lg bg-muted/30">
-              <div className="h-10 w-10 rounded bg-red-100 flex items-center justify-center">
-                <FileText className="h-5 w-5 text-red-600" />
-              </div>
-              <div className="flex-1">
-                <p className="font-medium text-sm">Inspection_Report_Job_{jobNumber}.pdf</p>
-                <p className="text-xs text-muted-foreground">
-                  Complete inspection report with {rugDetails.length} rug{rugDetails.length > 1 ? 's' : ''}
-                </p>
-              </div>
-              <Badge variant="secondary" className="text-xs">PDF</Badge>
-            </div>
-          </div>
+                {/* Message */}
+                <div className="space-y-2">
+                  <Label htmlFor="message">Message</Label>
+                  <Textarea
+                    id="message"
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    placeholder="Email message..."
+                    rows={10}
+                    className="resize-none font-mono text-sm"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={resetToDefaults}
+                    className="text-xs text-muted-foreground"
+                  >
+                    Reset to default message
+                  </Button>
+                </div>
+
+                <Separator />
 
-          {/* Rug Summary */}
-          <div className="space-y-3">
-            <Label>Rugs Included</Label>
-            <div className="grid gap-2">
-              {rugDetails.map((rug, index) => (
-                <div
-                  key={index}
-                  className="flex items-center justify-between p-2 bg-muted/30 rounded text-sm"
-                >
-                  <span className="font-medium">{rug.rugNumber}</span>
-                  <span className="text-muted-foreground">{rug.rugType}</span>
-                  <span className="text-muted-foreground">{rug.dimensions}</span>
+                {/* Attachment Preview */}
+                <div className="space-y-3">
+                  <Label className="flex items-center gap-2">
+                    <Paperclip className="h-4 w-4" />
+                    Attachment
+                  </Label>
+                  <div className="flex items-center gap-3 p-3 border rounded-lg bg-muted/30">
+                    <div className="h-10 w-10 rounded bg-red-100 flex items-center justify-center">
+                      <FileText className="h-5 w-5 text-red-600" />
+                    </div>
+                    <div className="flex-1">
+                      <p className="font-medium text-sm">Inspection_Report_Job_{jobNumber}.pdf</p>
+                      <p className="text-xs text-muted-foreground">
+                        Complete inspection report with {rugDetails.length} rug{rugDetails.length > 1 ? 's' : ''}
+                      </p>
+                    </div>
+                    <Badge variant="secondary" className="text-xs">PDF</Badge>
+                  </div>
                 </div>
-              ))}
-            </div>
-          </div>
+
+                {/* Rug Summary */}
+                <div className="space-y-3">
+                  <Label>Rugs Included</Label>
+                  <div className="grid gap-2">
+                    {rugDetails.map((rug, index) => (
+                      <div
+                        key={index}
+                        className="flex items-center justify-between p-2 bg-muted/30 rounded text-sm"
+                      >
+                        <span className="font-medium">{rug.rugNumber}</span>
+                        <span className="text-muted-foreground">{rug.rugType}</span>
+                        <span className="text-muted-foreground">{rug.dimensions}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="preview">{preview}</TabsContent>
+            </Tabs>
+          ) : (
+            preview
+          )}
         </div>
 
         <DialogFooter className="gap-2 sm:gap-0">
@@ -162,25 +240,27 @@ ${businessName}`;
             onClick={() => onOpenChange(false)}
             disabled={isSending}
           >
-            Cancel
-          </Button>
-          <Button
-            onClick={handleSend}
-            disabled={isSending || !subject.trim() || !message.trim()}
-            className="gap-2"
-          >
-            {isSending ? (
-              <>
-                <Loader2 className="h-4 w-4 animate-spin" />
-                Sending...
-              </>
-            ) : (
-              <>
-                <Mail className="h-4 w-4" />
-                Send Email
-              </>
-            )}
+            {onSend ? 'Cancel' : 'Close'}
           </Button>
+          {onSend && (
+            <Button
+              onClick={handleSend}
+              disabled={isSending || !subject.trim() || !message.trim()}
+              className="gap-2"
+            >
+              {isSending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                <>
+                  <Mail className="h-4 w-4" />
+                  Send Email
+                </>
+              )}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
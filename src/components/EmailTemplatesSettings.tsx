@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Save, RotateCcw, Info } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Save, RotateCcw, Info, Eye, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -9,7 +10,18 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/hooks/useAuth';
+import { useOrganization } from '@/hooks/useOrganization';
+import { emailPreviewSections, useEmailPreviewJob } from '@/hooks/useEmailTemplates';
+import { queryKeys } from '@/lib/queryKeys';
+import EmailPreviewDialog from '@/components/EmailPreviewDialog';
+import {
+  COMMON_VARIABLES,
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_TYPES,
+  EMAIL_VARIABLE_DESCRIPTIONS,
+  validateTemplate,
+  type EmailTemplateType,
+} from '@shared/emailTemplates';
 
 interface EmailTemplate {
   id?: string;
@@ -18,92 +30,47 @@ interface EmailTemplate {
   body: string;
 }
 
-const DEFAULT_TEMPLATES: Record<string, { subject: string; body: string; description: string }> = {
-  client_invite: {
-    subject: 'Your Rug Inspection Estimate is Ready - {{business_name}}',
-    body: `Dear {{client_name}},
-
-Thank you for choosing {{business_name}} for your rug care needs.
-
-We have completed the inspection of your rugs and prepared a detailed estimate for the recommended services. Please click the link below to review your estimate and approve the services you'd like us to proceed with:
-
-{{portal_link}}
-
-Your Job Number: #{{job_number}}
-
-If you have any questions, please don't hesitate to contact us.
-
-Best regards,
-{{business_name}}
-{{business_phone}}`,
-    description: 'Sent when a client portal link is generated',
-  },
-  payment_confirmation: {
-    subject: '✓ Payment Confirmed - Job #{{job_number}}',
-    body: `Dear {{client_name}},
-
-Thank you for your payment! We've received your payment of {{amount}} and are excited to begin work on your rugs.
-
-Job Number: #{{job_number}}
-Status: In Progress
-
-What happens next:
-- Our team will begin working on your rugs immediately
-- You'll receive updates as we make progress
-- We'll contact you when your rugs are ready
-
-If you have any questions, please don't hesitate to reach out.
-
-Best regards,
-{{business_name}}
-{{business_phone}}`,
-    description: 'Sent to client after successful payment',
-  },
-  report_email: {
-    subject: 'Rug Inspection Report - Job #{{job_number}}',
-    body: `Dear {{client_name}},
-
-Please find attached the detailed inspection report for Job #{{job_number}}.
-
-If you have any questions about the report or would like to discuss the recommended services, please don't hesitate to contact us.
-
-Best regards,
-{{business_name}}
-{{business_phone}}`,
-    description: 'Sent when sharing inspection report via email',
-  },
+// Which emails can use each template-specific variable, for the variables list
+const variableUsage = (name: string) => {
+  if (COMMON_VARIABLES.includes(name)) return '';
+  const labels = EMAIL_TEMPLATE_TYPES
+    .filter(type => DEFAULT_EMAIL_TEMPLATES[type].variables.includes(name))
+    .map(type => DEFAULT_EMAIL_TEMPLATES[type].label.toLowerCase());
+  return ` (${labels.join(', ')} only)`;
 };
 
-const TEMPLATE_VARIABLES = [
-  { name: '{{client_name}}', description: "Client's full name" },
-  { name: '{{business_name}}', description: 'Your business name' },
-  { name: '{{business_phone}}', description: 'Your business phone' },
-  { name: '{{business_email}}', description: 'Your business email' },
-  { name: '{{job_number}}', description: 'Job reference number' },
-  { name: '{{portal_link}}', description: 'Client portal URL (invite only)' },
-  { name: '{{amount}}', description: 'Payment amount (confirmation only)' },
-];
-
 const EmailTemplatesSettings: React.FC = () => {
-  const { user } = useAuth();
+  // Templates belong to the business, so teammates edit the owner's set
+  const { businessUserId } = useOrganization();
+  const queryClient = useQueryClient();
   const [templates, setTemplates] = useState<Record<string, EmailTemplate>>({});
   const [saving, setSaving] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [previewType, setPreviewType] = useState<EmailTemplateType | null>(null);
+  const { data: previewJob, isLoading: previewJobLoading } = useEmailPreviewJob(!!previewType);
 
+  // Previews use a real job's details, so there is nothing to show before the first job
   useEffect(() => {
-    if (user) {
+    if (previewType && !previewJobLoading && !previewJob) {
+      toast.info('Create a job first to preview emails with its details');
+      setPreviewType(null);
+    }
+  }, [previewType, previewJob, previewJobLoading]);
+
+  useEffect(() => {
+    if (businessUserId) {
       fetchTemplates();
     }
-  }, [user]);
+  }, [businessUserId]);
 
   const fetchTemplates = async () => {
-    if (!user) return;
+    if (!businessUserId) return;
 
     try {
       const { data, error } = await supabase
         .from('email_templates')
         .select('*')
-        .eq('user_id', user.id);
+        .eq('user_id', businessUserId);
 
       if (error) throw error;
 
@@ -113,12 +80,12 @@ const EmailTemplatesSettings: React.FC = () => {
       });
 
       // Merge with defaults
-      Object.keys(DEFAULT_TEMPLATES).forEach((type) => {
+      EMAIL_TEMPLATE_TYPES.forEach((type) => {
         if (!templateMap[type]) {
           templateMap[type] = {
             template_type: type,
-            subject: DEFAULT_TEMPLATES[type].subject,
-            body: DEFAULT_TEMPLATES[type].body,
+            subject: DEFAULT_EMAIL_TEMPLATES[type].subject,
+            body: DEFAULT_EMAIL_TEMPLATES[type].body,
           };
         }
       });
@@ -132,18 +99,24 @@ const EmailTemplatesSettings: React.FC = () => {
     }
   };
 
-  const handleSave = async (type: string) => {
-    if (!user) return;
+  const handleSave = async (type: EmailTemplateType) => {
+    if (!businessUserId) return;
 
     const template = templates[type];
     if (!template) return;
 
+    const problems = validateTemplate(type, template);
+    if (problems.length > 0) {
+      toast.error(problems[0]);
+      return;
+    }
+
     setSaving(type);
     try {
       const { error } = await supabase
         .from('email_templates')
         .upsert({
-          user_id: user.id,
+          user_id: businessUserId,
           template_type: type,
           subject: template.subject,
           body: template.body,
@@ -153,6 +126,7 @@ const EmailTemplatesSettings: React.FC = () => {
 
       if (error) throw error;
 
+      queryClient.invalidateQueries({ queryKey: queryKeys.user.emailTemplate(businessUserId, type) });
       toast.success('Template saved successfully');
     } catch (error) {
       console.error('Error saving template:', error);
@@ -162,15 +136,15 @@ const EmailTemplatesSettings: React.FC = () => {
     }
   };
 
-  const handleReset = async (type: string) => {
-    if (!user) return;
+  const handleReset = async (type: EmailTemplateType) => {
+    if (!businessUserId) return;
 
     // Delete from database to use default
     try {
       const { error } = await supabase
         .from('email_templates')
         .delete()
-        .eq('user_id', user.id)
+        .eq('user_id', businessUserId)
         .eq('template_type', type);
 
       if (error) throw error;
@@ -180,11 +154,12 @@ const EmailTemplatesSettings: React.FC = () => {
         ...prev,
         [type]: {
           template_type: type,
-          subject: DEFAULT_TEMPLATES[type].subject,
-          body: DEFAULT_TEMPLATES[type].body,
+          subject: DEFAULT_EMAIL_TEMPLATES[type].subject,
+          body: DEFAULT_EMAIL_TEMPLATES[type].body,
         },
       }));
 
+      queryClient.invalidateQueries({ queryKey: queryKeys.user.emailTemplate(businessUserId, type) });
       toast.success('Template reset to default');
     } catch (error) {
       console.error('Error resetting template:', error);
@@ -223,9 +198,9 @@ const EmailTemplatesSettings: React.FC = () => {
           <AlertDescription>
             <strong>Available variables:</strong>
             <div className="mt-2 grid grid-cols-2 gap-1 text-xs">
-              {TEMPLATE_VARIABLES.map(v => (
-                <div key={v.name}>
-                  <code className="bg-muted px-1 rounded">{v.name}</code> - {v.description}
+              {Object.entries(EMAIL_VARIABLE_DESCRIPTIONS).map(([name, description]) => (
+                <div key={name}>
+                  <code className="bg-muted px-1 rounded">{`{{${name}}}`}</code> - {description}{variableUsage(name)}
                 </div>
               ))}
             </div>
@@ -233,58 +208,96 @@ const EmailTemplatesSettings: React.FC = () => {
         </Alert>
 
         <Tabs defaultValue="client_invite">
-          <TabsList className="mb-4">
-            <TabsTrigger value="client_invite">Portal Invite</TabsTrigger>
-            <TabsTrigger value="payment_confirmation">Payment Confirmation</TabsTrigger>
-            <TabsTrigger value="report_email">Report Email</TabsTrigger>
+          <TabsList className="mb-4 h-auto flex-wrap">
+            {EMAIL_TEMPLATE_TYPES.map(type => (
+              <TabsTrigger key={type} value={type}>{DEFAULT_EMAIL_TEMPLATES[type].label}</TabsTrigger>
+            ))}
           </TabsList>
 
-          {Object.entries(DEFAULT_TEMPLATES).map(([type, defaults]) => (
-            <TabsContent key={type} value={type} className="space-y-4">
-              <p className="text-sm text-muted-foreground">{defaults.description}</p>
+          {EMAIL_TEMPLATE_TYPES.map(type => {
+            const problems = templates[type] ? validateTemplate(type, templates[type]) : [];
+            return (
+              <TabsContent key={type} value={type} className="space-y-4">
+                <p className="text-sm text-muted-foreground">{DEFAULT_EMAIL_TEMPLATES[type].description}</p>
               
-              <div className="space-y-2">
-                <Label htmlFor={`${type}-subject`}>Subject Line</Label>
-                <Input
-                  id={`${type}-subject`}
-                  value={templates[type]?.subject || ''}
-                  onChange={(e) => updateTemplate(type, 'subject', e.target.value)}
-                  placeholder="Email subject..."
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor={`${type}-body`}>Email Body</Label>
-                <Textarea
-                  id={`${type}-body`}
-                  value={templates[type]?.body || ''}
-                  onChange={(e) => updateTemplate(type, 'body', e.target.value)}
-                  placeholder="Email content..."
-                  className="min-h-[250px] font-mono text-sm"
-                />
-              </div>
-
-              <div className="flex gap-2">
-                <Button
-                  onClick={() => handleSave(type)}
-                  disabled={saving === type}
-                  className="gap-2"
-                >
-                  <Save className="h-4 w-4" />
-                  {saving === type ? 'Saving...' : 'Save Template'}
-                </Button>
-                <Button
-                  variant="outline"
-                  onClick={() => handleReset(type)}
-                  className="gap-2"
-                >
-                  <RotateCcw className="h-4 w-4" />
-                  Reset to Default
-                </Button>
-              </div>
-            </TabsContent>
-          ))}
+                <div className="space-y-2">
+                  <Label htmlFor={`${type}-subject`}>Subject Line</Label>
+                  <Input
+                    id={`${type}-subject`}
+                    value={templates[type]?.subject || ''}
+                    onChange={(e) => updateTemplate(type, 'subject', e.target.value)}
+                    placeholder="Email subject..."
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor={`${type}-body`}>Email Body</Label>
+                  <Textarea
+                    id={`${type}-body`}
+                    value={templates[type]?.body || ''}
+                    onChange={(e) => updateTemplate(type, 'body', e.target.value)}
+                    placeholder="Email content..."
+                    className="min-h-[250px] font-mono text-sm"
+                  />
+                </div>
+
+                {problems.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      {problems.map(problem => <div key={problem}>{problem}</div>)}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => handleSave(type)}
+                    disabled={saving === type || problems.length > 0}
+                    className="gap-2"
+                  >
+                    <Save className="h-4 w-4" />
+                    {saving === type ? 'Saving...' : 'Save Template'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => handleReset(type)}
+                    className="gap-2"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    Reset to Default
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    onClick={() => setPreviewType(type)}
+                    className="gap-2"
+                  >
+                    <Eye className="h-4 w-4" />
+                    Preview
+                  </Button>
+                </div>
+              </TabsContent>
+            );
+          })}
         </Tabs>
+
+        {previewType && previewJob && (
+          <EmailPreviewDialog
+            open
+            onOpenChange={(open) => !open && setPreviewType(null)}
+            templateType={previewType}
+            template={templates[previewType]}
+            clientName={previewJob.variables.client_name || ''}
+            clientEmail={previewJob.clientEmail}
+            jobNumber={previewJob.variables.job_number || ''}
+            rugDetails={previewJob.rugs}
+            businessName={previewJob.variables.business_name}
+            businessPhone={previewJob.variables.business_phone}
+            businessEmail={previewJob.variables.business_email}
+            variables={previewJob.variables}
+            sections={previewType === 'report_email' ? undefined : emailPreviewSections(previewType, previewJob)}
+          />
+        )}
       </CardContent>
     </Card>
   );
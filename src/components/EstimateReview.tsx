@@ -1,17 +1,31 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { ArrowLeft, Plus, Trash2, Save, Check, Edit2, DollarSign, Loader2, Lightbulb } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ArrowLeft, Plus, Trash2, Save, Check, Edit2, DollarSign, Loader2, Lightbulb, RefreshCw, Tag } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
+import { useJobTaxSettings } from '@/hooks/useTaxSettings';
 import TeachAIDialog from './TeachAIDialog';
+import DiscountFields from './DiscountFields';
 import { useUnsavedChanges } from '@/hooks/useUnsavedChanges';
 import UnsavedChangesDialog from './UnsavedChangesDialog';
+import { getReportServices } from '@/lib/structuredReport';
+import {
+  describeQuote,
+  priceService,
+  repriceLines,
+  type ServicePriceQuote,
+} from '@shared/pricing';
+import { applyCatalogDefaults, type CatalogService } from '@/lib/serviceCatalog';
+import { computeTax, formatTaxLabel, NO_TAX } from '@shared/tax';
+import { applyDiscounts, isValidDiscount, type DiscountTerms } from '@shared/discounts';
 import {
   Select,
   SelectContent,
@@ -27,26 +41,36 @@ export interface ServiceItem {
   quantity: number;
   unitPrice: number;
   priority: 'high' | 'medium' | 'low';
+  // How unitPrice was derived from the price list; null when entered by hand
+  pricing?: ServicePriceQuote | null;
+  // Client can't deselect this line in the portal
+  mandatory?: boolean;
+  // No sales tax on this line
+  taxExempt?: boolean;
 }
 
 interface EstimateReviewProps {
   report: string;
+  structuredReport?: unknown;
   rugInfo: {
     rugNumber: string;
     rugType: string;
     dimensions: string;
     squareFootage: number | null;
+    length: number | null;
+    width: number | null;
   };
   inspectionId: string;
   jobId: string;
   onBack: () => void;
-  onApprove: (services: ServiceItem[], totalCost: number) => void;
-  availableServices?: { name: string; unitPrice: number }[];
-  upsellServices?: { name: string; unitPrice: number }[];
+  onApprove: (services: ServiceItem[], totalCost: number, discount: DiscountTerms | null) => void;
+  availableServices?: CatalogService[];
+  upsellServices?: CatalogService[];
   existingApprovedEstimate?: {
     id: string;
     services: ServiceItem[];
     total_amount: number;
+    discount?: DiscountTerms | null;
   } | null;
 }
 
@@ -56,19 +80,25 @@ const PRIORITY_COLORS = {
   low: 'bg-green-100 text-green-700 border-green-300',
 };
 
+const NO_SERVICES: CatalogService[] = [];
+
 const EstimateReview: React.FC<EstimateReviewProps> = ({
   report,
+  structuredReport,
   rugInfo,
   inspectionId,
   jobId,
   onBack,
   onApprove,
-  availableServices = [],
-  upsellServices = [],
+  availableServices = NO_SERVICES,
+  upsellServices = NO_SERVICES,
   existingApprovedEstimate,
 }) => {
   const { user } = useAuth();
+  const { data: taxSettings = NO_TAX } = useJobTaxSettings(jobId);
   const [services, setServices] = useState<ServiceItem[]>([]);
+  // Comes off this rug's services before any job-wide discount
+  const [discount, setDiscount] = useState<DiscountTerms | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [showTeachAI, setShowTeachAI] = useState(false);
@@ -82,6 +112,15 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
   const upsellOptions = upsellServices.filter(
     (service) => !services.some((existing) => existing.name === service.name)
   );
+
+  const priceList = useMemo(
+    () => [...availableServices, ...upsellServices],
+    [availableServices, upsellServices]
+  );
+  const dimensions = useMemo(
+    () => ({ length: rugInfo.length, width: rugInfo.width }),
+    [rugInfo.length, rugInfo.width]
+  );
   
   // Track original AI-parsed values for comparison
   const originalServicesRef = useRef<ServiceItem[]>([]);
@@ -92,182 +131,24 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
   // Handle unsaved changes warning
   const { isBlocked, confirmNavigation, cancelNavigation } = useUnsavedChanges(hasModifications);
 
-  // Load existing approved estimate or parse from report
+  // Load existing approved estimate, structured AI services, or parse from report
   useEffect(() => {
     if (existingApprovedEstimate && existingApprovedEstimate.services.length > 0) {
       // Use existing approved services
       setServices(existingApprovedEstimate.services);
+      setDiscount(existingApprovedEstimate.discount ?? null);
       originalServicesRef.current = existingApprovedEstimate.services;
     } else {
-      // Parse from AI report
-      const extractedServices = parseReportForServices(report);
+      // Prefer the structured AI output, fall back to parsing older letter-only reports.
+      // The AI only picks services; amounts, priority and portal requirement come from the catalog.
+      const extractedServices = applyCatalogDefaults(
+        repriceLines(getReportServices(structuredReport, report), priceList, dimensions),
+        priceList
+      );
       setServices(extractedServices);
       originalServicesRef.current = extractedServices;
     }
-  }, [report, existingApprovedEstimate]);
-
-  // Determine priority based on service type
-  const getServicePriority = (serviceName: string): 'high' | 'medium' | 'low' => {
-    const lowerName = serviceName.toLowerCase();
-    
-    // High priority - essential cleaning and structural repairs
-    if (lowerName.includes('cleaning') || 
-        lowerName.includes('wash') ||
-        lowerName.includes('stain removal') ||
-        lowerName.includes('repair') ||
-        lowerName.includes('reweaving') ||
-        lowerName.includes('hole') ||
-        lowerName.includes('tear') ||
-        lowerName.includes('foundation') ||
-        lowerName.includes('dry rot') ||
-        lowerName.includes('soaking')) {
-      return 'high';
-    }
-    
-    // Medium priority - structural maintenance and edge work
-    if (lowerName.includes('binding') ||
-        lowerName.includes('overcast') ||
-        lowerName.includes('fringe') ||
-        lowerName.includes('edge') ||
-        lowerName.includes('selvedge') ||
-        lowerName.includes('blocking') ||
-        lowerName.includes('stretching') ||
-        lowerName.includes('shearing') ||
-        lowerName.includes('zenjireh')) {
-      return 'medium';
-    }
-    
-    // Low priority - protection and optional services
-    if (lowerName.includes('protection') ||
-        lowerName.includes('moth proof') ||
-        lowerName.includes('padding') ||
-        lowerName.includes('fiber protect') ||
-        lowerName.includes('scotchgard') ||
-        lowerName.includes('storage')) {
-      return 'low';
-    }
-    
-    // Default to medium
-    return 'medium';
-  };
-
-  const parseReportForServices = (reportText: string): ServiceItem[] => {
-    const services: ServiceItem[] = [];
-    const lines = reportText.split('\n');
-    
-    let inBreakdownSection = false;
-    
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
-      const trimmedLine = line.trim();
-      
-      // Detect the RUG BREAKDOWN AND SERVICES section or similar headers
-      if (lowerLine.includes('rug breakdown') || 
-          lowerLine.includes('estimate of services') ||
-          lowerLine.includes('services and costs') ||
-          lowerLine.includes('itemized list')) {
-        inBreakdownSection = true;
-        continue;
-      }
-      
-      // Stop parsing at certain sections
-      if (lowerLine.includes('total estimate') || 
-          lowerLine.includes('total investment') ||
-          lowerLine.includes('next steps') ||
-          lowerLine.includes('sincerely') ||
-          lowerLine.includes('additional protection')) {
-        inBreakdownSection = false;
-        continue;
-      }
-      
-      // Skip rug headers (e.g., "Rug #1: Persian (8x10)")
-      if (lowerLine.startsWith('rug #') || lowerLine.startsWith('rug:')) {
-        continue;
-      }
-      
-      // Skip subtotal lines
-      if (lowerLine.includes('subtotal')) {
-        continue;
-      }
-      
-      // Parse service lines with format "Service Name: $amount" or "- Service Name: $amount"
-      if (inBreakdownSection && trimmedLine.length > 0) {
-        // Match pattern: "Service Name: $123.45" or "- Service Name: $123.45"
-        const serviceMatch = trimmedLine.match(/^[-*]?\s*(.+?):\s*\$([0-9,]+(?:\.[0-9]{2})?)/);
-        
-        if (serviceMatch) {
-          const serviceName = serviceMatch[1].trim();
-          const price = parseFloat(serviceMatch[2].replace(',', ''));
-          
-          // Skip if service name is too short or looks like a header
-          if (serviceName.length < 3) continue;
-          
-          // Check if this service already exists
-          const existingIndex = services.findIndex(
-            s => s.name.toLowerCase() === serviceName.toLowerCase()
-          );
-          
-          if (existingIndex >= 0) {
-            // Update price if found and add to quantity
-            services[existingIndex].quantity += 1;
-            if (price > 0 && services[existingIndex].unitPrice === 0) {
-              services[existingIndex].unitPrice = price;
-            }
-          } else {
-            services.push({
-              id: crypto.randomUUID(),
-              name: serviceName,
-              quantity: 1,
-              unitPrice: price,
-              priority: getServicePriority(serviceName),
-            });
-          }
-        }
-      }
-    }
-    
-    // If no services were found in structured format, try alternative parsing
-    if (services.length === 0) {
-      // Look for any line with a dollar amount and service-like name
-      for (const line of lines) {
-        const trimmedLine = line.trim();
-        const priceMatch = trimmedLine.match(/^(.+?):\s*\$([0-9,]+(?:\.[0-9]{2})?)/);
-        
-        if (priceMatch) {
-          const serviceName = priceMatch[1].trim()
-            .replace(/^[-*]\s*/, '')
-            .replace(/\*\*/g, '');
-          const price = parseFloat(priceMatch[2].replace(',', ''));
-          
-          // Skip common non-service lines
-          const lowerName = serviceName.toLowerCase();
-          if (lowerName.includes('subtotal') || 
-              lowerName.includes('total') ||
-              lowerName.includes('rug #') ||
-              serviceName.length < 3) {
-            continue;
-          }
-          
-          // Check if already exists
-          const existingIndex = services.findIndex(
-            s => s.name.toLowerCase() === serviceName.toLowerCase()
-          );
-          
-          if (existingIndex < 0) {
-            services.push({
-              id: crypto.randomUUID(),
-              name: serviceName,
-              quantity: 1,
-              unitPrice: price,
-              priority: getServicePriority(serviceName),
-            });
-          }
-        }
-      }
-    }
-    
-    return services;
-  };
+  }, [report, structuredReport, existingApprovedEstimate, priceList, dimensions]);
 
   const handleUpdateService = (id: string, updates: Partial<ServiceItem>) => {
     const originalService = originalServicesRef.current.find(s => s.id === id);
@@ -276,6 +157,8 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
       prev.map(s => {
         if (s.id !== id) return s;
         const updated = { ...s, ...updates };
+        // A hand-entered price no longer follows the price list
+        if (updates.unitPrice !== undefined) updated.pricing = null;
         
         // Check for significant changes that warrant teaching the AI
         if (originalService) {
@@ -311,35 +194,65 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
       quantity: 1,
       unitPrice: 0,
       priority: 'medium',
+      mandatory: false,
+      taxExempt: false,
     };
     setServices(prev => [...prev, newService]);
     setEditingId(newService.id);
     setHasModifications(true);
   };
 
-  const handleAddUpsell = (service: { name: string; unitPrice: number }) => {
+  const handleAddUpsell = (service: CatalogService) => {
+    const pricing = priceService(service, dimensions);
     const newService: ServiceItem = {
       id: crypto.randomUUID(),
       name: service.name,
       description: 'Optional add-on',
       quantity: 1,
-      unitPrice: service.unitPrice,
+      unitPrice: pricing.unitPrice,
       priority: 'low',
+      pricing,
+      mandatory: false,
+      taxExempt: service.taxExempt,
     };
     setServices((prev) => [...prev, newService]);
     setHasModifications(true);
   };
 
+  const handleRepriceAll = () => {
+    const repriced = repriceLines(services, priceList, dimensions);
+    const unmatched = repriced.filter(s => !s.pricing).length;
+    setServices(repriced);
+    setHasModifications(true);
+    if (unmatched > 0) {
+      toast.info(`${unmatched} service${unmatched === 1 ? '' : 's'} not on your price list kept their current price`);
+    } else {
+      toast.success('Prices recalculated from your price list');
+    }
+  };
+
   const handleRemoveService = (id: string) => {
     setServices(prev => prev.filter(s => s.id !== id));
     if (editingId === id) setEditingId(null);
     setHasModifications(true);
   };
 
+  // Stored as the estimate total; tax is added at checkout for the client's exemption status
   const calculateTotal = () => {
     return services.reduce((sum, s) => sum + (s.quantity * s.unitPrice), 0);
   };
 
+  const handleDiscountChange = (next: DiscountTerms | null) => {
+    setDiscount(next);
+    setHasModifications(true);
+  };
+
+  const rugDiscount = applyDiscounts(
+    services.map(s => ({ amount: s.quantity * s.unitPrice, taxExempt: s.taxExempt, rugNumber: rugInfo.rugNumber })),
+    discount && isValidDiscount(discount) ? [{ ...discount, source: 'manual', rugNumber: rugInfo.rugNumber }] : []
+  );
+  const tax = computeTax(rugDiscount.netLines, taxSettings);
+
   const handleApprove = async () => {
     if (services.length === 0) {
       toast.error('Please add at least one service');
@@ -351,6 +264,11 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
       return;
     }
 
+    if (discount && !isValidDiscount(discount)) {
+      toast.error('Give the discount a name and an amount, or remove it');
+      return;
+    }
+
     setIsSaving(true);
     const total = calculateTotal();
     
@@ -371,6 +289,7 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
           .update({
             services: services as any,
             total_amount: total,
+            discount: discount as unknown as Json,
             approved_by_staff_at: new Date().toISOString(),
             approved_by_staff_user_id: user.id,
           })
@@ -386,6 +305,7 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
             job_id: jobId,
             services: services as any,
             total_amount: total,
+            discount: discount as unknown as Json,
             approved_by_staff_at: new Date().toISOString(),
             approved_by_staff_user_id: user.id,
           });
@@ -405,7 +325,7 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
       setHasModifications(false);
       
       toast.success('Estimate approved and saved!');
-      onApprove(services, total);
+      onApprove(services, total, discount);
     } catch (error) {
       console.error('Failed to save approved estimate:', error);
       toast.error('Failed to save estimate. Please try again.');
@@ -469,10 +389,18 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle>Services</CardTitle>
-            <Button variant="outline" size="sm" onClick={handleAddService} className="gap-1">
-              <Plus className="h-4 w-4" />
-              Add Service
-            </Button>
+            <div className="flex items-center gap-2">
+              {priceList.length > 0 && services.length > 0 && (
+                <Button variant="ghost" size="sm" onClick={handleRepriceAll} className="gap-1">
+                  <RefreshCw className="h-4 w-4" />
+                  Reprice
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={handleAddService} className="gap-1">
+                <Plus className="h-4 w-4" />
+                Add Service
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -494,7 +422,7 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
                     <div>
                       <p className="text-sm font-medium">{service.name}</p>
                       <p className="text-xs text-muted-foreground">
-                        ${service.unitPrice.toFixed(2)}
+                        ${priceService(service, dimensions).unitPrice.toFixed(2)} · {describeQuote(priceService(service, dimensions))}
                       </p>
                     </div>
                     <Button size="sm" variant="outline" onClick={() => handleAddUpsell(service)}>
@@ -563,6 +491,28 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
                             </SelectContent>
                           </Select>
                         </div>
+                        <div className="flex items-center gap-2 self-end pb-2">
+                          <Switch
+                            id={`mandatory-${service.id}`}
+                            checked={!!service.mandatory}
+                            onCheckedChange={(checked) => handleUpdateService(service.id, { mandatory: checked })}
+                          />
+                          <Label htmlFor={`mandatory-${service.id}`} className="font-normal">
+                            Required in client portal
+                          </Label>
+                        </div>
+                        {taxSettings.rates.length > 0 && (
+                          <div className="flex items-center gap-2 self-end pb-2">
+                            <Switch
+                              id={`tax-exempt-${service.id}`}
+                              checked={!!service.taxExempt}
+                              onCheckedChange={(checked) => handleUpdateService(service.id, { taxExempt: checked })}
+                            />
+                            <Label htmlFor={`tax-exempt-${service.id}`} className="font-normal">
+                              Tax exempt
+                            </Label>
+                          </div>
+                        )}
                         <div className="flex items-end">
                           <Button 
                             size="sm" 
@@ -584,6 +534,12 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
                             {service.priority}
                           </Badge>
                           <span className="font-medium">{service.name}</span>
+                          {service.mandatory && (
+                            <Badge variant="secondary" className="text-xs">Required</Badge>
+                          )}
+                          {service.taxExempt && taxSettings.rates.length > 0 && (
+                            <Badge variant="outline" className="text-xs">No tax</Badge>
+                          )}
                         </div>
                         <div className="flex items-center gap-4">
                           <div className="text-right">
@@ -593,6 +549,13 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
                             <p className="font-semibold">
                               ${(service.quantity * service.unitPrice).toFixed(2)}
                             </p>
+                            {service.pricing ? (
+                              <p className="text-xs text-muted-foreground">
+                                {describeQuote(service.pricing)}
+                              </p>
+                            ) : priceList.length > 0 && (
+                              <p className="text-xs text-amber-600">Manual price</p>
+                            )}
                           </div>
                           <div className="flex items-center gap-1">
                             <Button
@@ -624,9 +587,59 @@ const EstimateReview: React.FC<EstimateReviewProps> = ({
           {services.length > 0 && (
             <>
               <Separator className="my-4" />
+              {discount ? (
+                <div className="flex items-center gap-2 mb-3">
+                  <Tag className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <div className="flex-1">
+                    <DiscountFields value={discount} onChange={handleDiscountChange} />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDiscountChange(null)}
+                    className="text-destructive hover:text-destructive"
+                    aria-label="Remove discount"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1 mb-2"
+                  onClick={() => handleDiscountChange({ type: 'percentage', value: 10, label: '' })}
+                >
+                  <Tag className="h-4 w-4" />
+                  Add rug discount
+                </Button>
+              )}
+              {(tax.lines.length > 0 || rugDiscount.total > 0) && (
+                <div className="space-y-1 text-sm mb-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Subtotal</span>
+                    <span>${calculateTotal().toFixed(2)}</span>
+                  </div>
+                  {rugDiscount.discounts.map(line => (
+                    <div key={line.description} className="flex items-center justify-between">
+                      <span className="text-muted-foreground">{line.description}</span>
+                      <span>-${line.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                  {tax.lines.map(line => (
+                    <div key={line.name} className="flex items-center justify-between">
+                      <span className="text-muted-foreground">{formatTaxLabel(line)}</span>
+                      <span>${line.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {taxSettings.clientExempt && taxSettings.rates.length > 0 && (
+                <p className="text-xs text-muted-foreground mb-2">This client is tax exempt.</p>
+              )}
               <div className="flex items-center justify-between text-lg font-semibold">
                 <span>Total Estimate</span>
-                <span className="text-primary">${calculateTotal().toFixed(2)}</span>
+                <span className="text-primary">${(calculateTotal() - rugDiscount.total + tax.total).toFixed(2)}</span>
               </div>
             </>
           )}
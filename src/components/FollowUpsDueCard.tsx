@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarClock, Check, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { endOfDay, format, isBefore, startOfDay } from 'date-fns';
+import { useCompleteFollowUp } from '@/hooks/useFollowUps';
+import type { Job } from '@/hooks/useJobs';
+
+interface FollowUpsDueCardProps {
+  jobs: Job[];
+}
+
+// Jobs whose next_follow_up_at falls today or earlier, oldest first
+const FollowUpsDueCard: React.FC<FollowUpsDueCardProps> = ({ jobs }) => {
+  const navigate = useNavigate();
+  const completeFollowUp = useCompleteFollowUp();
+
+  const due = useMemo(() => {
+    const endOfToday = endOfDay(new Date());
+    return jobs
+      .filter(job => job.next_follow_up_at && new Date(job.next_follow_up_at) <= endOfToday)
+      .sort((a, b) => Date.parse(a.next_follow_up_at!) - Date.parse(b.next_follow_up_at!));
+  }, [jobs]);
+
+  if (due.length === 0) return null;
+
+  const startOfToday = startOfDay(new Date());
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="pb-4">
+        <CardTitle className="font-display text-lg flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          Follow-ups due today
+          <span className="ml-2 text-sm font-normal text-muted-foreground">({due.length})</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {due.map(job => {
+          const followUpAt = new Date(job.next_follow_up_at!);
+          const isCompleting = completeFollowUp.isPending && completeFollowUp.variables === job.id;
+          return (
+            <div
+              key={job.id}
+              className="flex items-center justify-between gap-3 rounded-md border border-border px-3 py-2 cursor-pointer hover:bg-muted/50"
+              onClick={() => navigate(`/jobs/${job.id}`)}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium flex flex-wrap items-center gap-2">
+                  {job.client_name}
+                  <span className="font-mono text-xs text-muted-foreground">#{job.job_number}</span>
+                  {isBefore(followUpAt, startOfToday) && (
+                    <Badge variant="outline" className="text-xs text-destructive border-destructive/50">
+                      Since {format(followUpAt, 'MMM d')}
+                    </Badge>
+                  )}
+                </p>
+                {job.follow_up_notes && (
+                  <p className="text-xs text-muted-foreground truncate">{job.follow_up_notes}</p>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2 shrink-0"
+                disabled={isCompleting}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  completeFollowUp.mutate(job.id);
+                }}
+              >
+                {isCompleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                Done
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FollowUpsDueCard;
@@ -10,7 +10,7 @@ import {
   CommandList,
 } from '@/components/ui/command';
 import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/hooks/useAuth';
+import { useOrganization } from '@/hooks/useOrganization';
 
 interface SearchResult {
   id: string;
@@ -26,7 +26,7 @@ const GlobalSearch: React.FC = () => {
   const [results, setResults] = useState<SearchResult[]>([]);
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { businessUserId } = useOrganization();
 
   // Keyboard shortcut handler
   useEffect(() => {
@@ -43,7 +43,7 @@ const GlobalSearch: React.FC = () => {
 
   // Search function
   const performSearch = useCallback(async (searchQuery: string) => {
-    if (!searchQuery || searchQuery.length < 2 || !user) {
+    if (!searchQuery || searchQuery.length < 2 || !businessUserId) {
       setResults([]);
       return;
     }
@@ -57,7 +57,7 @@ const GlobalSearch: React.FC = () => {
       const { data: jobs } = await supabase
         .from('jobs')
         .select('id, job_number, client_name, status')
-        .eq('user_id', user.id)
+        .eq('user_id', businessUserId)
         .or(`job_number.ilike.${searchTerm},client_name.ilike.${searchTerm}`)
         .limit(5);
 
@@ -73,11 +73,11 @@ const GlobalSearch: React.FC = () => {
         });
       }
 
-      // Search inspections (rugs)
+      // Search inspections (rugs) - any teammate may have recorded them, so match on the job's business
       const { data: inspections } = await supabase
         .from('inspections')
-        .select('id, rug_number, rug_type, job_id')
-        .eq('user_id', user.id)
+        .select('id, rug_number, rug_type, job_id, jobs!inner(user_id)')
+        .eq('jobs.user_id', businessUserId)
         .or(`rug_number.ilike.${searchTerm},rug_type.ilike.${searchTerm}`)
         .limit(5);
 
@@ -99,7 +99,7 @@ const GlobalSearch: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [businessUserId]);
 
   // Debounced search
   useEffect(() => {
@@ -1,7 +1,12 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { Camera, X, Check, ChevronLeft, ChevronRight, AlertCircle, Plus, SkipForward } from 'lucide-react';
+import { Camera, X, Check, ChevronLeft, ChevronRight, AlertCircle, AlertTriangle, Loader2, Plus, SkipForward } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { PHOTO_QUALITY_ISSUES, type PhotoQuality } from '@shared/photoQuality';
+import { assessPhotoQuality } from '@/lib/photoQuality';
+import { ISSUE_STEP_ID, RUG_PHOTO_STEPS } from '@shared/rugPhotos';
+import type { CapturedPhotoMeta } from '@/lib/rugPhotos';
 
 // Import reference images
 import guideOverallFront from '@/assets/photo-guide-overall-front.png';
@@ -10,80 +15,123 @@ import guideFringe from '@/assets/photo-guide-fringe.png';
 import guideEdge from '@/assets/photo-guide-edge.png';
 import guideIssue from '@/assets/photo-guide-issue.png';
 
-// Photo step definitions with guidance
-const PHOTO_STEPS = [
-  {
-    id: 'overall-front',
-    title: 'Overall Front',
+// Camera guidance for each of RUG_PHOTO_STEPS. checkCoverage steps should show the
+// whole rug, so they're also checked for the rug filling the frame.
+const STEP_GUIDANCE: Record<string, {
+  instruction: string;
+  tip: string;
+  icon: string;
+  guideImage: string;
+  checkCoverage: boolean;
+}> = {
+  'overall-front': {
     instruction: 'Capture the entire rug from directly above, showing the full front/top surface',
     tip: 'Stand back far enough to fit the whole rug in frame',
-    required: true,
     icon: '📷',
     guideImage: guideOverallFront,
+    checkCoverage: true,
   },
-  {
-    id: 'overall-back',
-    title: 'Overall Back',
+  'overall-back': {
     instruction: 'Flip the rug and capture the entire back surface',
     tip: 'This helps identify construction type and hidden damage',
-    required: true,
     icon: '🔄',
     guideImage: guideOverallBack,
+    checkCoverage: true,
   },
-  {
-    id: 'fringe-end-a',
-    title: 'Fringe - End A',
+  'fringe-end-a': {
     instruction: 'Close-up of the fringe on one end of the rug',
     tip: 'Show the full width of the fringe clearly',
-    required: true,
     icon: '〰️',
     guideImage: guideFringe,
+    checkCoverage: false,
   },
-  {
-    id: 'fringe-end-b',
-    title: 'Fringe - End B',
+  'fringe-end-b': {
     instruction: 'Close-up of the fringe on the opposite end',
     tip: 'Capture any differences in condition from End A',
-    required: true,
     icon: '〰️',
     guideImage: guideFringe,
+    checkCoverage: false,
   },
-  {
-    id: 'edge-side-a',
-    title: 'Edge/Binding - Side A',
+  'edge-side-a': {
     instruction: 'Close-up of one side edge/binding of the rug',
     tip: 'Show the binding or selvedge condition',
-    required: true,
     icon: '📏',
     guideImage: guideEdge,
+    checkCoverage: false,
   },
-  {
-    id: 'edge-side-b',
-    title: 'Edge/Binding - Side B',
+  'edge-side-b': {
     instruction: 'Close-up of the opposite side edge/binding',
     tip: 'Note any wear, loose threads, or damage',
-    required: true,
     icon: '📏',
     guideImage: guideEdge,
+    checkCoverage: false,
   },
-] as const;
+};
+
+// Photo step definitions with guidance; the ids are saved with each photo
+const PHOTO_STEPS = RUG_PHOTO_STEPS.map(step => ({
+  id: step.id,
+  title: step.label,
+  required: true,
+  ...STEP_GUIDANCE[step.id],
+}));
 
 interface PhotoData {
   file: File;
   stepId: string;
   label: string;
+  caption: string;
+  capturedAt: string;
+  // null when the photo couldn't be checked
+  quality: PhotoQuality | null;
 }
 
 interface GuidedPhotoCaptureProps {
   photos: File[];
   onPhotosChange: (photos: File[]) => void;
+  // Step, caption and quality of each photo, in the same order as onPhotosChange's photos
+  onPhotoMetaChange?: (meta: CapturedPhotoMeta[]) => void;
   onRequiredComplete?: (complete: boolean) => void;
   maxPhotos?: number;
 }
 
+const hasIssues = (photo: PhotoData | undefined) => !!photo?.quality && photo.quality.issues.length > 0;
+
+const QualityWarning: React.FC<{ quality: PhotoQuality; onRetake: () => void; onAccept?: () => void }> = ({
+  quality,
+  onRetake,
+  onAccept,
+}) => (
+  <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 space-y-2 dark:border-amber-800 dark:bg-amber-950/40">
+    <p className="text-sm font-medium text-amber-900 dark:text-amber-200 flex items-center gap-1.5">
+      <AlertTriangle className="h-4 w-4" />
+      This photo may not be good enough for an accurate estimate (quality {quality.score}/100)
+    </p>
+    <ul className="text-xs text-amber-900/90 dark:text-amber-200/90 space-y-0.5">
+      {quality.issues.map(issue => (
+        <li key={issue}>
+          <span className="font-medium">{PHOTO_QUALITY_ISSUES[issue].label}:</span> {PHOTO_QUALITY_ISSUES[issue].hint}
+        </li>
+      ))}
+    </ul>
+    <div className="flex gap-2">
+      <Button type="button" size="sm" onClick={onRetake} className="gap-1">
+        <Camera className="h-3 w-3" />
+        Retake
+      </Button>
+      {onAccept && (
+        <Button type="button" size="sm" variant="outline" onClick={onAccept}>
+          Use anyway
+        </Button>
+      )}
+    </div>
+  </div>
+);
+
 const GuidedPhotoCapture: React.FC<GuidedPhotoCaptureProps> = ({
   photos,
   onPhotosChange,
+  onPhotoMetaChange,
   onRequiredComplete,
   maxPhotos = 50, // Allow many optional photos
 }) => {
@@ -91,6 +139,7 @@ const GuidedPhotoCapture: React.FC<GuidedPhotoCaptureProps> = ({
   const [currentStep, setCurrentStep] = useState(0);
   const [photoData, setPhotoData] = useState<PhotoData[]>([]);
   const [captureMode, setCaptureMode] = useState<'guided' | 'additional'>('guided');
+  const [checkingPhoto, setCheckingPhoto] = useState(false);
 
   const totalRequiredSteps = PHOTO_STEPS.length;
   const completedRequiredSteps = photoData.filter(p => 
@@ -105,11 +154,39 @@ const GuidedPhotoCapture: React.FC<GuidedPhotoCaptureProps> = ({
     onRequiredComplete?.(allRequiredComplete);
   }, [allRequiredComplete, onRequiredComplete]);
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const checkQuality = async (file: File, checkCoverage: boolean) => {
+    setCheckingPhoto(true);
+    try {
+      return await assessPhotoQuality(file, { checkCoverage });
+    } catch (error) {
+      // A photo the browser can't decode is still accepted, just unchecked
+      console.warn('Photo quality check failed:', error);
+      return null;
+    } finally {
+      setCheckingPhoto(false);
+    }
+  };
+
+  const advanceFrom = (step: number, data: PhotoData[]) => {
+    const nextUncapturedStep = findNextUncapturedStep(step, data);
+    if (nextUncapturedStep !== null) {
+      setTimeout(() => setCurrentStep(nextUncapturedStep), 300);
+    } else {
+      // All required done, switch to additional mode
+      setTimeout(() => setCaptureMode('additional'), 300);
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     if (files.length === 0) return;
 
     const file = files[0];
+
+    // Reset input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
     
     if (captureMode === 'guided') {
       const step = PHOTO_STEPS[currentStep];
@@ -117,6 +194,9 @@ const GuidedPhotoCapture: React.FC<GuidedPhotoCaptureProps> = ({
         file,
         stepId: step.id,
         label: step.title,
+        caption: '',
+        capturedAt: new Date().toISOString(),
+        quality: await checkQuality(file, step.checkCoverage),
       };
 
       // Replace or add photo for current step
@@ -133,14 +213,9 @@ const GuidedPhotoCapture: React.FC<GuidedPhotoCaptureProps> = ({
       setPhotoData(updatedPhotoData);
       syncPhotos(updatedPhotoData);
 
-      // Auto-advance to next uncaptured step or additional mode
-      const nextUncapturedStep = findNextUncapturedStep(currentStep, updatedPhotoData);
-      if (nextUncapturedStep !== null) {
-        setTimeout(() => setCurrentStep(nextUncapturedStep), 300);
-      } else {
-        // All required done, switch to additional mode
-        setTimeout(() => setCaptureMode('additional'), 300);
-      }
+      // Auto-advance to next uncaptured step or additional mode, unless the photo
+      // needs a second look first
+      if (!hasIssues(newPhotoData)) advanceFrom(currentStep, updatedPhotoData);
     } else {
       // Additional photo mode - allow unlimited
       const additionalCount = photoData.filter(p => p.stepId.startsWith('additional-')).length;
@@ -150,17 +225,15 @@ const GuidedPhotoCapture: React.FC<GuidedPhotoCaptureProps> = ({
         file,
         stepId: `additional-${Date.now()}`,
         label: `Issue Close-up ${additionalCount + 1}`,
+        caption: '',
+        capturedAt: new Date().toISOString(),
+        quality: await checkQuality(file, false),
       };
 
       const updatedPhotoData = [...photoData, newPhotoData];
       setPhotoData(updatedPhotoData);
       syncPhotos(updatedPhotoData);
     }
-
-    // Reset input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
   };
 
   const findNextUncapturedStep = (fromStep: number, data: PhotoData[]): number | null => {
@@ -181,20 +254,30 @@ const GuidedPhotoCapture: React.FC<GuidedPhotoCaptureProps> = ({
 
   const syncPhotos = (data: PhotoData[]) => {
     // Maintain order: required photos first (in step order), then additional photos
-    const orderedPhotos: File[] = [];
+    const ordered: PhotoData[] = [];
     
     // Add required photos in order
     PHOTO_STEPS.forEach(step => {
       const photo = data.find(p => p.stepId === step.id);
-      if (photo) orderedPhotos.push(photo.file);
+      if (photo) ordered.push(photo);
     });
     
     // Add additional photos
-    data
-      .filter(p => p.stepId.startsWith('additional-'))
-      .forEach(p => orderedPhotos.push(p.file));
+    ordered.push(...data.filter(p => p.stepId.startsWith('additional-')));
+
+    onPhotosChange(ordered.map(p => p.file));
+    onPhotoMetaChange?.(ordered.map(p => ({
+      stepId: p.stepId.startsWith('additional-') ? ISSUE_STEP_ID : p.stepId,
+      caption: p.caption.trim() || null,
+      capturedAt: p.capturedAt,
+      quality: p.quality,
+    })));
+  };
 
-    onPhotosChange(orderedPhotos);
+  const setCaption = (stepId: string, caption: string) => {
+    const updatedPhotoData = photoData.map(p => (p.stepId === stepId ? { ...p, caption } : p));
+    setPhotoData(updatedPhotoData);
+    syncPhotos(updatedPhotoData);
   };
 
   const removePhoto = (stepId: string) => {
@@ -358,10 +441,22 @@ const GuidedPhotoCapture: React.FC<GuidedPhotoCaptureProps> = ({
                       <X className="h-3 w-3" />
                     </button>
                   </div>
-                  <div className="absolute bottom-2 left-2 rounded-full bg-primary px-2 py-0.5 text-xs text-primary-foreground flex items-center gap-1">
-                    <Check className="h-3 w-3" />
-                    Captured
-                  </div>
+                  {hasIssues(getPhotoForStep(PHOTO_STEPS[currentStep].id)) ? (
+                    <div className="absolute bottom-2 left-2 rounded-full bg-amber-500 px-2 py-0.5 text-xs text-white flex items-center gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      Check quality
+                    </div>
+                  ) : (
+                    <div className="absolute bottom-2 left-2 rounded-full bg-primary px-2 py-0.5 text-xs text-primary-foreground flex items-center gap-1">
+                      <Check className="h-3 w-3" />
+                      Captured
+                    </div>
+                  )}
+                </div>
+              ) : checkingPhoto ? (
+                <div className="w-full aspect-video rounded-lg border-2 border-dashed border-border flex flex-col items-center justify-center gap-3">
+                  <Loader2 className="h-8 w-8 text-primary animate-spin" />
+                  <span className="text-sm text-muted-foreground">Checking photo quality...</span>
                 </div>
               ) : (
                 <button
@@ -377,6 +472,14 @@ const GuidedPhotoCapture: React.FC<GuidedPhotoCaptureProps> = ({
                   </span>
                 </button>
               )}
+
+              {hasIssues(getPhotoForStep(PHOTO_STEPS[currentStep].id)) && (
+                <QualityWarning
+                  quality={getPhotoForStep(PHOTO_STEPS[currentStep].id)!.quality!}
+                  onRetake={openCamera}
+                  onAccept={() => advanceFrom(currentStep, photoData)}
+                />
+              )}
             </div>
           </div>
 
@@ -450,35 +553,54 @@ const GuidedPhotoCapture: React.FC<GuidedPhotoCaptureProps> = ({
 
               <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
                 {additionalPhotos.map((photo, index) => (
-                  <div
-                    key={photo.stepId}
-                    className="relative aspect-square rounded-lg overflow-hidden bg-muted"
-                  >
-                    <img
-                      src={URL.createObjectURL(photo.file)}
-                      alt={photo.label}
-                      className="w-full h-full object-cover"
-                    />
-                    <button
-                      type="button"
-                      onClick={() => removePhoto(photo.stepId)}
-                      className="absolute top-2 right-2 rounded-full bg-destructive p-1.5 text-destructive-foreground hover:bg-destructive/90 transition-colors"
-                    >
-                      <X className="h-3 w-3" />
-                    </button>
-                    <div className="absolute bottom-2 left-2 rounded-full bg-foreground/70 px-2 py-0.5 text-xs text-background">
-                      Issue {index + 1}
+                  <div key={photo.stepId} className="space-y-1">
+                    <div className="relative aspect-square rounded-lg overflow-hidden bg-muted">
+                      <img
+                        src={URL.createObjectURL(photo.file)}
+                        alt={photo.label}
+                        className="w-full h-full object-cover"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removePhoto(photo.stepId)}
+                        className="absolute top-2 right-2 rounded-full bg-destructive p-1.5 text-destructive-foreground hover:bg-destructive/90 transition-colors"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                      <div className="absolute bottom-2 left-2 rounded-full bg-foreground/70 px-2 py-0.5 text-xs text-background">
+                        Issue {index + 1}
+                      </div>
+                      {hasIssues(photo) && (
+                        <div
+                          className="absolute top-2 left-2 rounded-full bg-amber-500 p-1 text-white"
+                          title={photo.quality!.issues.map(issue => PHOTO_QUALITY_ISSUES[issue].label).join(', ')}
+                        >
+                          <AlertTriangle className="h-3 w-3" />
+                        </div>
+                      )}
                     </div>
+                    <Input
+                      value={photo.caption}
+                      onChange={e => setCaption(photo.stepId, e.target.value)}
+                      placeholder="What does this show?"
+                      maxLength={200}
+                      className="h-8 text-xs"
+                    />
                   </div>
                 ))}
 
                 <button
                   type="button"
                   onClick={openCamera}
+                  disabled={checkingPhoto}
                   className="aspect-square rounded-lg border-2 border-dashed border-border flex flex-col items-center justify-center gap-2 cursor-pointer hover:border-primary/50 hover:bg-muted/30 transition-all"
                 >
-                  <Plus className="h-6 w-6 text-muted-foreground" />
-                  <span className="text-xs text-muted-foreground">Add Issue</span>
+                  {checkingPhoto ? (
+                    <Loader2 className="h-6 w-6 text-muted-foreground animate-spin" />
+                  ) : (
+                    <Plus className="h-6 w-6 text-muted-foreground" />
+                  )}
+                  <span className="text-xs text-muted-foreground">{checkingPhoto ? 'Checking...' : 'Add Issue'}</span>
                 </button>
               </div>
             </div>
@@ -530,7 +652,7 @@ const GuidedPhotoCapture: React.FC<GuidedPhotoCaptureProps> = ({
                   className={cn(
                     "aspect-square rounded-lg overflow-hidden cursor-pointer transition-all",
                     photo 
-                      ? "ring-2 ring-primary ring-offset-1" 
+                      ? hasIssues(photo) ? "ring-2 ring-amber-500 ring-offset-1" : "ring-2 ring-primary ring-offset-1"
                       : "border-2 border-dashed border-destructive/30 bg-destructive/5"
                   )}
                   title={step.title}
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Tag, Save, Loader2, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import DiscountFields from '@/components/DiscountFields';
+import { useJobDiscountSettings, useUpdateJobDiscount } from '@/hooks/useDiscounts';
+import { describeDiscount, isValidDiscount, type DiscountTerms } from '@shared/discounts';
+
+interface JobDiscountCardProps {
+  jobId: string;
+  discount: DiscountTerms | null;
+  // Services already paid for keep the discounts they were paid with
+  locked: boolean;
+}
+
+const JobDiscountCard: React.FC<JobDiscountCardProps> = ({ jobId, discount, locked }) => {
+  const { data: settings } = useJobDiscountSettings(jobId);
+  const updateDiscount = useUpdateJobDiscount();
+  const [draft, setDraft] = useState<DiscountTerms | null>(discount);
+
+  useEffect(() => {
+    setDraft(discount);
+  }, [discount]);
+
+  const handleSave = () => {
+    if (draft && !isValidDiscount(draft)) {
+      toast.error('Give the discount a name and an amount');
+      return;
+    }
+    updateDiscount.mutate({ jobId, discount: draft });
+  };
+
+  const rules = settings?.rules || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="h-5 w-5" />
+          Job Discount
+        </CardTitle>
+        <CardDescription>
+          Comes off the client's whole selection at checkout, after any rug discounts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {locked ? (
+          <p className="text-sm text-muted-foreground">
+            {discount ? describeDiscount(discount) : 'No job discount'} - the client has already paid for their services.
+          </p>
+        ) : draft ? (
+          <div className="flex items-center gap-2">
+            <div className="flex-1">
+              <DiscountFields value={draft} onChange={setDraft} />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setDraft(null)}
+              className="text-destructive hover:text-destructive"
+              aria-label="Remove discount"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => setDraft({ type: 'percentage', value: 10, label: '' })}>
+            Add job discount
+          </Button>
+        )}
+
+        {rules.length > 0 && (
+          <div className="text-xs text-muted-foreground space-y-1">
+            <p className="font-medium">Automatic discounts (the best one the client qualifies for applies):</p>
+            {rules.map(rule => (
+              <p key={`${rule.minRugs}-${rule.label}`}>
+                {rule.minRugs}+ rugs: {describeDiscount(rule)}
+                {rule.type === 'fixed' && ` ($${Number(rule.value).toFixed(2)} off)`}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {!locked && draft !== discount && (
+          <Button onClick={handleSave} disabled={updateDiscount.isPending} className="gap-2">
+            {updateDiscount.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save discount
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JobDiscountCard;
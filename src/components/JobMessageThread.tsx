@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  useJobMessages,
+  useSendJobMessage,
+  useMarkJobMessagesRead,
+  type MessageSenderRole,
+} from '@/hooks/useJobMessages';
+
+interface JobMessageThreadProps {
+  jobId: string;
+  viewerRole: MessageSenderRole;
+  title?: string;
+  description?: string;
+  className?: string;
+}
+
+const JobMessageThread: React.FC<JobMessageThreadProps> = ({
+  jobId,
+  viewerRole,
+  title = 'Messages',
+  description,
+  className,
+}) => {
+  const { data: messages = [], isLoading } = useJobMessages(jobId);
+  const sendMessage = useSendJobMessage(viewerRole);
+  const { mutate: markRead } = useMarkJobMessagesRead();
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const unreadFromOtherSide = messages.filter(
+    m => m.sender_role !== viewerRole && !m.read_at
+  ).length;
+
+  // Viewing the thread counts as reading it
+  useEffect(() => {
+    if (unreadFromOtherSide > 0) {
+      markRead(jobId);
+    }
+  }, [jobId, unreadFromOtherSide, markRead]);
+
+  useEffect(() => {
+    // Keep the newest message in view without scrolling the page
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages.length]);
+
+  const handleSend = () => {
+    if (!draft.trim()) return;
+    sendMessage.mutate(
+      { jobId, body: draft },
+      { onSuccess: () => setDraft('') }
+    );
+  };
+
+  const otherSideLabel = viewerRole === 'staff' ? 'Client' : 'Staff';
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5 text-primary" />
+          {title}
+          {unreadFromOtherSide > 0 && (
+            <Badge variant="secondary">{unreadFromOtherSide} new</Badge>
+          )}
+        </CardTitle>
+        {description && <CardDescription>{description}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No messages yet.</p>
+        ) : (
+          <div ref={listRef} className="max-h-[320px] overflow-y-auto pr-1">
+            <div className="space-y-3">
+              {messages.map((message) => {
+                const isOwn = message.sender_role === viewerRole;
+                return (
+                  <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                    <div
+                      className={`max-w-[80%] rounded-lg px-3 py-2 ${
+                        isOwn ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground'
+                      }`}
+                    >
+                      <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>
+                      <p className={`text-[10px] mt-1 ${isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+                        {isOwn ? 'You' : otherSideLabel} ·{' '}
+                        {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+                        {isOwn && message.read_at && ' · Seen'}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <Textarea
+          placeholder="Type your message..."
+          value={draft}
+          maxLength={4000}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+        />
+        <Button
+          onClick={handleSend}
+          disabled={!draft.trim() || sendMessage.isPending}
+          className="w-full gap-2"
+        >
+          {sendMessage.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          Send message
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JobMessageThread;
@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UserCheck, ListChecks, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  useJobChecklist,
+  useChecklistTemplates,
+  useApplyChecklistSteps,
+  useToggleChecklistItem,
+  useAssignJob,
+  getStaffDisplayName,
+} from '@/hooks/useJobChecklist';
+import { DEFAULT_CHECKLIST_STEPS } from '@/lib/checklist';
+import type { JobDetail } from '@/hooks/useJobDetail';
+
+interface JobOperationsCardProps {
+  job: JobDetail;
+}
+
+// Shape of the checklist that used to live in localStorage, imported once per browser
+interface LegacyOpsState {
+  assignedTo?: string;
+  checklist?: Record<string, boolean>;
+}
+
+const JobOperationsCard: React.FC<JobOperationsCardProps> = ({ job }) => {
+  const { user } = useAuth();
+  const { data: items = [], isLoading: itemsLoading } = useJobChecklist(job.id);
+  const { data: templates = [], isLoading: templatesLoading } = useChecklistTemplates();
+  const { mutate: applyChecklistSteps, isPending: applyingSteps } = useApplyChecklistSteps();
+  const toggleItem = useToggleChecklistItem();
+  const { mutate: assignJob, isPending: assigning } = useAssignJob();
+  const [assigneeDraft, setAssigneeDraft] = useState(job.assigned_to_name || '');
+  const seededJobId = useRef<string | null>(null);
+
+  useEffect(() => {
+    setAssigneeDraft(job.assigned_to_name || '');
+  }, [job.assigned_to_name]);
+
+  // First visit to a job without a checklist: import anything this browser stored
+  // before checklists moved to the database, otherwise start from the default template.
+  useEffect(() => {
+    if (itemsLoading || templatesLoading || items.length > 0) return;
+    if (seededJobId.current === job.id) return;
+    seededJobId.current = job.id;
+
+    const storageKey = `job-${job.id}-ops`;
+    let legacy: LegacyOpsState | null = null;
+    try {
+      const stored = window.localStorage.getItem(storageKey);
+      legacy = stored ? (JSON.parse(stored) as LegacyOpsState) : null;
+    } catch {
+      // ignore invalid storage
+    }
+
+    const defaultTemplate = templates.find(t => t.is_default);
+    const steps = legacy?.checklist
+      ? Object.keys(legacy.checklist)
+      : defaultTemplate?.steps.length
+        ? defaultTemplate.steps
+        : DEFAULT_CHECKLIST_STEPS;
+    const completedSteps = legacy?.checklist
+      ? Object.entries(legacy.checklist).filter(([, done]) => done).map(([label]) => label)
+      : [];
+
+    applyChecklistSteps(
+      { jobId: job.id, steps, completedSteps },
+      { onSuccess: () => window.localStorage.removeItem(storageKey) }
+    );
+
+    if (legacy?.assignedTo && !job.assigned_to_name) {
+      assignJob({ jobId: job.id, assignedTo: null, assignedToName: legacy.assignedTo });
+    }
+  }, [itemsLoading, templatesLoading, items.length, templates, job.id, job.assigned_to_name, applyChecklistSteps, assignJob]);
+
+  const handleApplyTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+    // Existing steps keep their place and ticks; the template's new steps go after them
+    const existing = items.map(i => i.label);
+    const newSteps = template.steps.filter(step => !existing.includes(step));
+    if (newSteps.length === 0) return;
+    applyChecklistSteps({ jobId: job.id, steps: [...existing, ...newSteps] });
+  };
+
+  // A typed name clears the linked account; "Me" links the current user
+  const saveAssignee = (name: string, assignedTo: string | null = null) => {
+    if (assignedTo ? assignedTo === job.assigned_to : name.trim() === (job.assigned_to_name || '')) return;
+    assignJob({ jobId: job.id, assignedTo, assignedToName: name });
+  };
+
+  const completedCount = items.filter(i => i.completed_at).length;
+  const isAssignedToMe = !!user && job.assigned_to === user.id;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="font-display text-xl flex items-center gap-2">
+          <ListChecks className="h-5 w-5 text-primary" />
+          Operations checklist
+          {items.length > 0 && (
+            <Badge variant="secondary">{completedCount}/{items.length}</Badge>
+          )}
+        </CardTitle>
+        {templates.length > 0 && (
+          <Select value="" onValueChange={handleApplyTemplate}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Add template steps" />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map(template => (
+                <SelectItem key={template.id} value={template.id}>
+                  {template.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-3">
+          {itemsLoading || (items.length === 0 && applyingSteps) ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : (
+            items.map((item) => (
+              <label key={item.id} className="flex items-start gap-3 text-sm">
+                <Checkbox
+                  className="mt-0.5"
+                  checked={!!item.completed_at}
+                  onCheckedChange={(checked) => toggleItem.mutate({ item, completed: checked === true })}
+                />
+                <span>
+                  <span className={item.completed_at ? 'text-foreground' : 'text-muted-foreground'}>
+                    {item.label}
+                  </span>
+                  {item.completed_at && (
+                    <span className="block text-xs text-muted-foreground">
+                      {item.completed_by_name || 'Staff'} ·{' '}
+                      {formatDistanceToNow(new Date(item.completed_at), { addSuffix: true })}
+                    </span>
+                  )}
+                </span>
+              </label>
+            ))
+          )}
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-muted-foreground">Assigned staff</p>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Assign to team member"
+              value={assigneeDraft}
+              onChange={(event) => setAssigneeDraft(event.target.value)}
+              onBlur={() => saveAssignee(assigneeDraft)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') saveAssignee(assigneeDraft);
+              }}
+            />
+            {!isAssignedToMe && user && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1 shrink-0"
+                onClick={() => saveAssignee(getStaffDisplayName(user), user.id)}
+                disabled={assigning}
+              >
+                <UserCheck className="h-4 w-4" />
+                Me
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {job.assigned_at
+              ? `Assigned ${formatDistanceToNow(new Date(job.assigned_at), { addSuffix: true })}`
+              : 'Use this field to coordinate ownership and accountability.'}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JobOperationsCard;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { CheckCircle, Circle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { COMPLETED_STATUS, getStatusColor, getStatusDefinition, type JobStatusDefinition } from '@/lib/jobStatus';
+
+interface JobStatusBadgeProps {
+  status: string;
+  pipeline: JobStatusDefinition[];
+}
+
+const JobStatusBadge: React.FC<JobStatusBadgeProps> = ({ status, pipeline }) => {
+  const definition = getStatusDefinition(pipeline, status);
+  const Icon = status === COMPLETED_STATUS ? CheckCircle : Circle;
+
+  return (
+    <Badge variant="outline" className={`gap-1 ${getStatusColor(definition.color).badge}`}>
+      <Icon className="h-3 w-3" />
+      {definition.label}
+    </Badge>
+  );
+};
+
+export default JobStatusBadge;
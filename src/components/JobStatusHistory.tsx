@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { format } from 'date-fns';
+import { useJobStatusHistory } from '@/hooks/useJobStatuses';
+import { getStatusColor, getStatusDefinition, type JobStatusDefinition } from '@/lib/jobStatus';
+
+interface JobStatusHistoryProps {
+  jobId: string;
+  pipeline: JobStatusDefinition[];
+}
+
+const COLLAPSED_COUNT = 5;
+
+const JobStatusHistory: React.FC<JobStatusHistoryProps> = ({ jobId, pipeline }) => {
+  const { data: history = [], isLoading } = useJobStatusHistory(jobId);
+  const [expanded, setExpanded] = useState(false);
+
+  const visible = expanded ? history : history.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-display text-xl flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Status history
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>
+        ) : (
+          <>
+            {visible.map((entry) => {
+              const to = getStatusDefinition(pipeline, entry.to_status);
+              return (
+                <div key={entry.id} className="flex items-start gap-3">
+                  <div className={`mt-1.5 h-2.5 w-2.5 rounded-full ${getStatusColor(to.color).dot}`} />
+                  <div>
+                    <p className="text-sm font-medium">
+                      {entry.from_status
+                        ? `${getStatusDefinition(pipeline, entry.from_status).label} → ${to.label}`
+                        : to.label}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')} ·{' '}
+                      {entry.changed_by ? entry.changed_by_name || 'Staff' : 'System'}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+            {history.length > COLLAPSED_COUNT && (
+              <Button variant="ghost" size="sm" onClick={() => setExpanded(prev => !prev)}>
+                {expanded ? 'Show less' : `Show all ${history.length}`}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JobStatusHistory;
@@ -0,0 +1,265 @@
+import React, { useEffect, useState } from 'react';
+import { Workflow, Plus, Save, Trash2, Loader2, ArrowUp, ArrowDown, Flag, CreditCard, Receipt } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { useOrganization } from '@/hooks/useOrganization';
+import { useJobStatuses, useSaveJobStatuses, type JobStatusDraft } from '@/hooks/useJobStatuses';
+import { COMPLETED_STATUS, STATUS_COLORS, toStatusKey } from '@/lib/jobStatus';
+
+const JobStatusSettings: React.FC = () => {
+  const { organization } = useOrganization();
+  const { data: statuses = [], isLoading } = useJobStatuses();
+  const saveStatuses = useSaveJobStatuses();
+  const [drafts, setDrafts] = useState<JobStatusDraft[]>([]);
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setDrafts(
+      statuses.map(({ organization_id: _org, created_at: _created, updated_at: _updated, ...status }) => status)
+    );
+    setRemovedIds([]);
+  }, [statuses]);
+
+  const updateDraft = (index: number, changes: Partial<JobStatusDraft>) => {
+    setDrafts(prev => prev.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  };
+
+  // Initial, payment and billing statuses are one-per-pipeline
+  const setExclusiveFlag = (index: number, flag: 'is_initial' | 'advance_on_payment' | 'issues_balance_invoice') => {
+    setDrafts(prev => prev.map((d, i) => ({ ...d, [flag]: i === index ? !d[flag] || flag === 'is_initial' : false })));
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= drafts.length) return;
+    setDrafts(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const toggleTransition = (index: number, key: string) => {
+    const current = drafts[index].next_statuses;
+    updateDraft(index, {
+      next_statuses: current.includes(key) ? current.filter(k => k !== key) : [...current, key],
+    });
+  };
+
+  const addStatus = () => {
+    // New steps go before the final status and can be reached from the one before them
+    const completedIndex = drafts.findIndex(d => d.key === COMPLETED_STATUS);
+    const insertAt = completedIndex === -1 ? drafts.length : completedIndex;
+    setDrafts(prev => [
+      ...prev.slice(0, insertAt),
+      {
+        key: '',
+        label: '',
+        client_label: null,
+        color: 'blue',
+        sort_order: insertAt,
+        next_statuses: completedIndex === -1 ? [] : [COMPLETED_STATUS],
+        is_initial: false,
+        advance_on_payment: false,
+        issues_balance_invoice: false,
+      },
+      ...prev.slice(insertAt),
+    ]);
+  };
+
+  const removeStatus = (index: number) => {
+    const draft = drafts[index];
+    if (draft.id) setRemovedIds(prev => [...prev, draft.id as string]);
+    setDrafts(prev =>
+      prev
+        .filter((_, i) => i !== index)
+        .map(d => ({ ...d, next_statuses: d.next_statuses.filter(k => k !== draft.key) }))
+    );
+  };
+
+  const handleSave = () => {
+    if (!organization) return;
+
+    // New statuses get their key from the label; existing keys never change
+    const prepared = drafts.map(d => ({ ...d, label: d.label.trim(), key: d.key || toStatusKey(d.label) }));
+
+    if (prepared.some(d => !d.label || !d.key)) {
+      toast.error('Every status needs a name');
+      return;
+    }
+    if (new Set(prepared.map(d => d.key)).size !== prepared.length) {
+      toast.error('Status names must be unique');
+      return;
+    }
+    if (!prepared.some(d => d.is_initial)) {
+      toast.error('Choose which status new jobs start in');
+      return;
+    }
+
+    saveStatuses.mutate({ organizationId: organization.id, statuses: prepared, removedIds });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Workflow className="h-5 w-5" />
+          Job Status Pipeline
+        </CardTitle>
+        <CardDescription>
+          The steps a job moves through, in order, and where it may go from each. Steps with a client label appear on the client portal timeline.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            {drafts.map((draft, index) => {
+              const isCompleted = draft.key === COMPLETED_STATUS;
+              const draftKey = draft.key || toStatusKey(draft.label);
+
+              return (
+                <div key={draft.id || `new-${index}`} className="space-y-3 rounded-lg border border-border p-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <div className="flex flex-col">
+                      <Button variant="ghost" size="icon" className="h-5 w-5" onClick={() => move(index, -1)} disabled={index === 0}>
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5"
+                        onClick={() => move(index, 1)}
+                        disabled={index === drafts.length - 1}
+                      >
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <Input
+                      className="flex-1 min-w-[160px]"
+                      value={draft.label}
+                      onChange={(e) => updateDraft(index, { label: e.target.value })}
+                      placeholder="Status name"
+                    />
+                    <Select value={draft.color} onValueChange={(color) => updateDraft(index, { color })}>
+                      <SelectTrigger className="w-[120px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(STATUS_COLORS).map(([value, config]) => (
+                          <SelectItem key={value} value={value}>
+                            <div className="flex items-center gap-2">
+                              <span className={`h-2 w-2 rounded-full ${config.dot}`} />
+                              {config.label}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {!isCompleted && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeStatus(index)}
+                        className="text-destructive hover:text-destructive"
+                        aria-label="Remove status"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="grid gap-3 md:grid-cols-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Client label</Label>
+                      <Input
+                        value={draft.client_label || ''}
+                        onChange={(e) => updateDraft(index, { client_label: e.target.value || null })}
+                        placeholder="Hidden from client"
+                      />
+                    </div>
+                    <div className="flex flex-wrap items-end gap-2">
+                      <Button
+                        variant={draft.is_initial ? 'secondary' : 'outline'}
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => setExclusiveFlag(index, 'is_initial')}
+                      >
+                        <Flag className="h-3 w-3" />
+                        {draft.is_initial ? 'New jobs start here' : 'Start here'}
+                      </Button>
+                      <Button
+                        variant={draft.advance_on_payment ? 'secondary' : 'outline'}
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => setExclusiveFlag(index, 'advance_on_payment')}
+                      >
+                        <CreditCard className="h-3 w-3" />
+                        {draft.advance_on_payment ? 'Moves here when paid' : 'Move here when paid'}
+                      </Button>
+                      <Button
+                        variant={draft.issues_balance_invoice ? 'secondary' : 'outline'}
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => setExclusiveFlag(index, 'issues_balance_invoice')}
+                      >
+                        <Receipt className="h-3 w-3" />
+                        {draft.issues_balance_invoice ? 'Bills the balance here' : 'Bill balance here'}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {!isCompleted && (
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Can move to</Label>
+                      <div className="flex flex-wrap gap-1">
+                        {drafts
+                          .filter((other, i) => i !== index && (other.key || toStatusKey(other.label)))
+                          .map((other) => {
+                            const otherKey = other.key || toStatusKey(other.label);
+                            const allowed = draft.next_statuses.includes(otherKey);
+                            return (
+                              <Badge
+                                key={otherKey}
+                                variant={allowed ? 'default' : 'outline'}
+                                className="cursor-pointer select-none"
+                                onClick={() => toggleTransition(index, otherKey)}
+                              >
+                                {other.label || otherKey}
+                              </Badge>
+                            );
+                          })}
+                        {!draftKey && (
+                          <span className="text-xs text-muted-foreground">Name this status first</span>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="flex flex-wrap justify-between gap-2">
+              <Button variant="outline" onClick={addStatus} className="gap-2">
+                <Plus className="h-4 w-4" />
+                Add status
+              </Button>
+              <Button onClick={handleSave} disabled={saveStatuses.isPending} className="gap-2">
+                {saveStatuses.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Save pipeline
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JobStatusSettings;
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Menu, History, BarChart3, DollarSign, Shield, X, Home, Settings, LogOut } from 'lucide-react';
+import { Menu, History, BarChart3, DollarSign, Shield, X, Home, Settings, LogOut, Star } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { Separator } from '@/components/ui/separator';
@@ -78,6 +78,15 @@ const MobileNav = ({ isAdmin = false, onSignOut }: MobileNavProps) => {
             Accounts Receivable
           </Button>
           
+          <Button
+            variant="ghost"
+            className="w-full justify-start gap-3"
+            onClick={() => handleNavigate('/reviews')}
+          >
+            <Star className="h-4 w-4" />
+            Reviews
+          </Button>
+          
           {isAdmin && (
             <Button
               variant="ghost"
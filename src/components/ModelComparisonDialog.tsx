@@ -6,10 +6,12 @@ import { Badge } from '@/components/ui/badge';
 import { Loader2, Zap, Crown, Clock, DollarSign, CheckCircle2, XCircle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { analysisPhotos, type RugPhotoRow } from '@/lib/rugPhotos';
 
 interface ModelResult {
   model: string;
   report: string;
+  structuredReport: unknown;
   imageAnnotations: any[];
   processingTimeMs: number;
   status: 'pending' | 'running' | 'complete' | 'error';
@@ -27,10 +29,11 @@ interface ModelComparisonDialogProps {
     width?: number | null;
     notes?: string | null;
     photo_urls?: string[] | null;
+    rug_photos?: RugPhotoRow[] | null;
   };
   clientName: string;
   userId?: string;
-  onSelectModel?: (model: string, report: string, annotations: any[]) => void;
+  onSelectModel?: (model: string, report: string, annotations: any[], structuredReport: unknown) => void;
 }
 
 const MODELS = [
@@ -59,8 +62,8 @@ export const ModelComparisonDialog: React.FC<ModelComparisonDialogProps> = ({
   onSelectModel
 }) => {
   const [results, setResults] = useState<ModelResult[]>([
-    { model: 'google/gemini-2.5-pro', report: '', imageAnnotations: [], processingTimeMs: 0, status: 'pending' },
-    { model: 'google/gemini-2.5-flash', report: '', imageAnnotations: [], processingTimeMs: 0, status: 'pending' }
+    { model: 'google/gemini-2.5-pro', report: '', structuredReport: null, imageAnnotations: [], processingTimeMs: 0, status: 'pending' },
+    { model: 'google/gemini-2.5-flash', report: '', structuredReport: null, imageAnnotations: [], processingTimeMs: 0, status: 'pending' }
   ]);
   const [isRunning, setIsRunning] = useState(false);
   const [hasRun, setHasRun] = useState(false);
@@ -70,13 +73,13 @@ export const ModelComparisonDialog: React.FC<ModelComparisonDialogProps> = ({
     setHasRun(true);
     
     // Reset results
-    setResults(prev => prev.map(r => ({ ...r, status: 'running' as const, report: '', processingTimeMs: 0, error: undefined })));
+    setResults(prev => prev.map(r => ({ ...r, status: 'running' as const, report: '', structuredReport: null, processingTimeMs: 0, error: undefined })));
 
     const runModel = async (modelId: string, index: number) => {
       try {
         const { data, error } = await supabase.functions.invoke('analyze-rug', {
           body: {
-            photos: rug.photo_urls || [],
+            photos: analysisPhotos(rug),
             rugInfo: {
               clientName,
               rugNumber: rug.rug_number,
@@ -97,6 +100,7 @@ export const ModelComparisonDialog: React.FC<ModelComparisonDialogProps> = ({
           i === index ? {
             ...r,
             report: data.report,
+            structuredReport: data.structuredReport ?? null,
             imageAnnotations: data.imageAnnotations || [],
             processingTimeMs: data.processingTimeMs,
             status: 'complete' as const
@@ -124,7 +128,7 @@ export const ModelComparisonDialog: React.FC<ModelComparisonDialogProps> = ({
 
   const handleSelectModel = (result: ModelResult) => {
     if (result.status !== 'complete' || !onSelectModel) return;
-    onSelectModel(result.model, result.report, result.imageAnnotations);
+    onSelectModel(result.model, result.report, result.imageAnnotations, result.structuredReport);
     toast.success(`Using ${result.model.includes('flash') ? 'Flash' : 'Pro'} analysis`);
     onOpenChange(false);
   };
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Bell, Check, Trash2, X, DollarSign, Mail, User } from 'lucide-react';
+import { Bell, Check, Trash2, X, DollarSign, Mail, User, Calendar, MessageSquare, Star, CalendarClock, PackageCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -11,6 +11,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useUnreadMessageCount } from '@/hooks/useJobMessages';
 import { formatDistanceToNow } from 'date-fns';
 
 interface Notification {
@@ -31,6 +32,17 @@ const getNotificationIcon = (type: string) => {
       return <Check className="h-4 w-4 text-blue-500" />;
     case 'client_portal_accessed':
       return <User className="h-4 w-4 text-purple-500" />;
+    case 'schedule_requested':
+      return <Calendar className="h-4 w-4 text-amber-500" />;
+    case 'client_message':
+    case 'staff_message':
+      return <MessageSquare className="h-4 w-4 text-primary" />;
+    case 'review_received':
+      return <Star className="h-4 w-4 text-amber-400" />;
+    case 'job_ready':
+      return <PackageCheck className="h-4 w-4 text-green-500" />;
+    case 'follow_up_reminder':
+      return <CalendarClock className="h-4 w-4 text-orange-500" />;
     default:
       return <Mail className="h-4 w-4 text-muted-foreground" />;
   }
@@ -41,6 +53,7 @@ const NotificationBell: React.FC = () => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [open, setOpen] = useState(false);
+  const { data: unreadMessages = 0 } = useUnreadMessageCount();
 
   useEffect(() => {
     if (!user) return;
@@ -189,6 +202,15 @@ const NotificationBell: React.FC = () => {
           )}
         </div>
 
+        {unreadMessages > 0 && (
+          <div className="flex items-center gap-2 px-4 py-2 border-b bg-primary/5 text-sm">
+            <MessageSquare className="h-4 w-4 text-primary" />
+            <span>
+              {unreadMessages} unread {unreadMessages === 1 ? 'message' : 'messages'}
+            </span>
+          </div>
+        )}
+
         <ScrollArea className="h-[300px]">
           {notifications.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-[200px] text-muted-foreground">
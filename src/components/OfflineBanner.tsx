@@ -3,6 +3,7 @@ import { WifiOff, Wifi, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { useOfflineStatus } from '@/hooks/useOfflineStatus';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
 
 interface OfflineBannerProps {
   className?: string;
@@ -10,6 +11,7 @@ interface OfflineBannerProps {
 
 const OfflineBanner: React.FC<OfflineBannerProps> = ({ className }) => {
   const { isOffline, wasOffline, checkConnection } = useOfflineStatus();
+  const pendingCount = useOfflineQueue().length;
   const [isChecking, setIsChecking] = React.useState(false);
 
   const handleRetry = async () => {
@@ -54,7 +56,9 @@ const OfflineBanner: React.FC<OfflineBannerProps> = ({ className }) => {
       <WifiOff className="h-4 w-4 flex-shrink-0" />
       <span className="font-medium">You're offline</span>
       <span className="hidden sm:inline opacity-90">
-        — Some features may not be available
+        {pendingCount > 0
+          ? `— ${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} saved on this device`
+          : '— Some features may not be available'}
       </span>
       <Button
         size="sm"
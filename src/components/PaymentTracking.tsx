@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { 
   CreditCard, Clock, CheckCircle, AlertCircle, 
-  Download, FileText, ExternalLink, Receipt, Loader2
+  Download, FileText, ExternalLink, Receipt, Loader2, Undo2, Send
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -16,28 +16,23 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { format } from 'date-fns';
-import { toast } from 'sonner';
-import { supabase } from '@/integrations/supabase/client';
-
-interface SelectedService {
-  id: string;
-  name: string;
-  quantity: number;
-  unitPrice: number;
-}
-
-interface RugDetail {
-  rugNumber: string;
-  rugType: string;
-  dimensions: string;
-  services: SelectedService[];
-  total: number;
-}
+import RefundPaymentDialog from '@/components/RefundPaymentDialog';
+import {
+  INVOICE_KIND_LABELS,
+  INVOICE_STATUS_LABELS,
+  invoiceBalance,
+  isSettledInvoice,
+  useDownloadInvoice,
+  useIssueBalanceInvoice,
+  useJobInvoices,
+} from '@/hooks/useInvoices';
 
 interface Payment {
   id: string;
   status: string;
   amount: number;
+  amount_refunded?: number;
+  invoice_id?: string | null;
   currency: string;
   created_at: string;
   paid_at: string | null;
@@ -46,21 +41,13 @@ interface Payment {
   metadata: any;
 }
 
-interface BusinessBranding {
-  business_name?: string | null;
-  business_address?: string | null;
-  business_phone?: string | null;
-  business_email?: string | null;
-  logo_url?: string | null;
-}
-
 interface PaymentTrackingProps {
   payments: Payment[];
-  jobNumber: string;
-  clientName: string;
-  branding?: BusinessBranding | null;
-  rugs?: RugDetail[];
-  onGenerateInvoice?: (paymentId: string) => void;
+  // Shows the refund action (owners and managers)
+  jobId?: string;
+  canRefund?: boolean;
+  // Shows the issue-balance action (owners, managers and front desk)
+  canInvoice?: boolean;
 }
 
 const STATUS_CONFIG = {
@@ -84,95 +71,41 @@ const STATUS_CONFIG = {
     icon: CreditCard, 
     className: 'bg-gray-100 text-gray-800 border-gray-200' 
   },
+  partially_refunded: {
+    label: 'Partially Refunded',
+    icon: CreditCard,
+    className: 'bg-gray-100 text-gray-800 border-gray-200'
+  },
+  expired: {
+    label: 'Expired',
+    icon: Clock,
+    className: 'bg-gray-100 text-gray-500 border-gray-200'
+  },
 };
 
 const PaymentTracking: React.FC<PaymentTrackingProps> = ({ 
   payments, 
-  jobNumber, 
-  clientName,
-  branding,
-  rugs,
-  onGenerateInvoice 
+  jobId,
+  canRefund = false,
+  canInvoice = false,
 }) => {
-  const [generatingInvoice, setGeneratingInvoice] = useState<string | null>(null);
+  const [refundingPayment, setRefundingPayment] = useState<Payment | null>(null);
+  const { data: invoices = [] } = useJobInvoices(jobId);
+  const issueBalanceInvoice = useIssueBalanceInvoice();
+  const downloadInvoice = useDownloadInvoice();
 
   const totalPaid = payments
-    .filter(p => p.status === 'completed')
-    .reduce((sum, p) => sum + p.amount, 0);
+    .filter(p => p.status === 'completed' || p.status === 'partially_refunded')
+    .reduce((sum, p) => sum + p.amount - (p.amount_refunded || 0), 0);
   
-  const totalPending = payments
-    .filter(p => p.status === 'pending')
-    .reduce((sum, p) => sum + p.amount, 0);
-
-  const handleGenerateInvoice = async (payment: Payment) => {
-    if (onGenerateInvoice) {
-      setGeneratingInvoice(payment.id);
-      try {
-        await onGenerateInvoice(payment.id);
-      } finally {
-        setGeneratingInvoice(null);
-      }
-      return;
-    }
-
-    // Call the generate-invoice-pdf edge function directly
-    if (!payment.paid_at) {
-      toast.error('Invoice can only be generated for completed payments');
-      return;
-    }
-
-    setGeneratingInvoice(payment.id);
-    try {
-      // Build rug details for the invoice
-      const rugDetails: RugDetail[] = rugs?.map(rug => ({
-        rugNumber: rug.rugNumber,
-        rugType: rug.rugType,
-        dimensions: rug.dimensions,
-        services: (rug.services || []).map((s: any) => ({
-          id: s.id || s.name,
-          name: s.name,
-          quantity: s.quantity || 1,
-          unitPrice: s.unitPrice || s.price || 0,
-        })),
-        total: rug.total,
-      })) || [];
-
-      const { data, error } = await supabase.functions.invoke('generate-invoice-pdf', {
-        body: {
-          jobNumber,
-          clientName,
-          clientEmail: '', // We don't need this for download
-          amount: Math.round(payment.amount * 100), // Convert to cents
-          rugs: rugDetails,
-          businessName: branding?.business_name || undefined,
-          businessEmail: branding?.business_email || undefined,
-          businessPhone: branding?.business_phone || undefined,
-          businessAddress: branding?.business_address || undefined,
-          paidAt: payment.paid_at,
-        },
-      });
+  const totalOutstanding = invoices
+    .filter(i => i.status === 'sent')
+    .reduce((sum, i) => sum + invoiceBalance(i), 0);
 
-      if (error) throw error;
-
-      if (data?.pdfBase64) {
-        // Download the PDF
-        const link = document.createElement('a');
-        link.href = `data:application/pdf;base64,${data.pdfBase64}`;
-        link.download = `Invoice-${data.invoiceNumber || jobNumber}.pdf`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        toast.success('Invoice downloaded successfully');
-      } else {
-        throw new Error('No PDF data received');
-      }
-    } catch (error) {
-      console.error('Error generating invoice:', error);
-      toast.error('Failed to generate invoice');
-    } finally {
-      setGeneratingInvoice(null);
-    }
-  };
+  // A paid deposit leaves a balance that is normally billed when the job is ready
+  const canIssueBalance = canInvoice && !!jobId &&
+    invoices.some(i => i.kind === 'deposit' && isSettledInvoice(i)) &&
+    !invoices.some(i => i.kind === 'balance');
 
   const getStatusConfig = (status: string) => {
     return STATUS_CONFIG[status as keyof typeof STATUS_CONFIG] || STATUS_CONFIG.pending;
@@ -226,11 +159,60 @@ const PaymentTracking: React.FC<PaymentTrackingProps> = ({
               <span className="text-sm font-medium text-yellow-800 dark:text-yellow-300">Outstanding</span>
             </div>
             <div className="text-2xl font-bold text-yellow-700 dark:text-yellow-400">
-              ${totalPending.toFixed(2)}
+              ${totalOutstanding.toFixed(2)}
             </div>
           </div>
         </div>
 
+        {invoices.length > 0 && (
+          <div className="space-y-2">
+            {invoices.map(invoice => (
+              <div key={invoice.id} className="flex items-center justify-between rounded-lg border px-3 py-2 text-sm">
+                <div>
+                  <span className="font-medium">
+                    {invoice.invoice_number || INVOICE_STATUS_LABELS.draft}
+                  </span>
+                  <span className="text-muted-foreground ml-2">
+                    {INVOICE_KIND_LABELS[invoice.kind] || invoice.kind}
+                    {invoice.status !== 'draft' && ` · ${format(new Date(invoice.issued_at), 'MMM d')}`}
+                    {invoice.status === 'sent' && invoice.due_at && ` · due ${format(new Date(invoice.due_at), 'MMM d')}`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">${Number(invoice.amount_due).toFixed(2)}</span>
+                  <Badge variant="outline" className={isSettledInvoice(invoice) ? STATUS_CONFIG.completed.className : STATUS_CONFIG.pending.className}>
+                    {invoice.status === 'sent' ? `$${invoiceBalance(invoice).toFixed(2)} due` : INVOICE_STATUS_LABELS[invoice.status]}
+                  </Badge>
+                  {invoice.status !== 'draft' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => downloadInvoice.mutate(invoice.id)}
+                      disabled={downloadInvoice.isPending}
+                      aria-label="Download invoice"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+            {canIssueBalance && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full gap-2"
+                onClick={() => issueBalanceInvoice.mutate(jobId!)}
+                disabled={issueBalanceInvoice.isPending}
+              >
+                {issueBalanceInvoice.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                Issue balance invoice now
+              </Button>
+            )}
+          </div>
+        )}
+
         <Separator />
 
         {/* Payment Records Table */}
@@ -266,6 +248,11 @@ const PaymentTracking: React.FC<PaymentTrackingProps> = ({
                       <span className="text-muted-foreground text-xs ml-1">
                         {payment.currency?.toUpperCase() || 'USD'}
                       </span>
+                      {(payment.amount_refunded || 0) > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          −${Number(payment.amount_refunded).toFixed(2)} refunded
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell>
                       <Badge variant="outline" className={config.className}>
@@ -280,14 +267,14 @@ const PaymentTracking: React.FC<PaymentTrackingProps> = ({
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-1">
-                        {payment.status === 'completed' && (
+                        {payment.invoice_id && payment.status !== 'pending' && payment.status !== 'expired' && (
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => handleGenerateInvoice(payment)}
-                            disabled={generatingInvoice === payment.id}
+                            onClick={() => downloadInvoice.mutate(payment.invoice_id!)}
+                            disabled={downloadInvoice.isPending && downloadInvoice.variables === payment.invoice_id}
                           >
-                            {generatingInvoice === payment.id ? (
+                            {downloadInvoice.isPending && downloadInvoice.variables === payment.invoice_id ? (
                               <Loader2 className="h-4 w-4 animate-spin" />
                             ) : (
                               <FileText className="h-4 w-4" />
@@ -295,6 +282,17 @@ const PaymentTracking: React.FC<PaymentTrackingProps> = ({
                             <span className="ml-1 hidden sm:inline">Invoice</span>
                           </Button>
                         )}
+                        {canRefund && jobId && payment.stripe_payment_intent_id &&
+                          (payment.status === 'completed' || payment.status === 'partially_refunded') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setRefundingPayment(payment)}
+                          >
+                            <Undo2 className="h-4 w-4" />
+                            <span className="ml-1 hidden sm:inline">Refund</span>
+                          </Button>
+                        )}
                         {payment.stripe_payment_intent_id && (
                           <Button
                             variant="ghost"
@@ -319,6 +317,15 @@ const PaymentTracking: React.FC<PaymentTrackingProps> = ({
           </Table>
         </div>
       </CardContent>
+
+      {refundingPayment && jobId && (
+        <RefundPaymentDialog
+          open={!!refundingPayment}
+          onOpenChange={(open) => !open && setRefundingPayment(null)}
+          jobId={jobId}
+          payment={refundingPayment}
+        />
+      )}
     </Card>
   );
 };
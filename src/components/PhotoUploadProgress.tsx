@@ -1,7 +1,10 @@
 import React from 'react';
 import { Progress } from '@/components/ui/progress';
-import { Upload, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Upload, CheckCircle2, CloudOff, Loader2, AlertCircle, RotateCcw, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { OutboxEntry } from '@/lib/offlineSync';
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
 
 interface UploadProgress {
   total: number;
@@ -12,16 +15,109 @@ interface UploadProgress {
 }
 
 interface PhotoUploadProgressProps {
-  progress: UploadProgress | null;
-  isUploading: boolean;
+  progress?: UploadProgress | null;
+  isUploading?: boolean;
+  // Offline outbox entries, each shown with its own sync status
+  items?: OutboxEntry[];
+  onRetry?: (id: string) => void;
+  onDiscard?: (id: string) => void;
   className?: string;
 }
 
+const itemStatus = (item: OutboxEntry, isOnline: boolean) => {
+  const uploaded = Object.keys(item.uploadedPaths).length;
+  if (item.status === 'syncing') {
+    return {
+      icon: <Loader2 className="h-4 w-4 text-primary animate-spin" />,
+      text: item.photoIds.length > 0 && uploaded < item.photoIds.length
+        ? `Uploading photos ${uploaded}/${item.photoIds.length}`
+        : 'Syncing...',
+    };
+  }
+  if (item.status === 'failed') {
+    return {
+      icon: <AlertCircle className="h-4 w-4 text-destructive" />,
+      text: `Failed: ${item.lastError || 'unknown error'}`,
+    };
+  }
+  if (!isOnline) {
+    return {
+      icon: <CloudOff className="h-4 w-4 text-muted-foreground" />,
+      text: 'Saved on this device, waiting for a connection',
+    };
+  }
+  return {
+    icon: <Upload className="h-4 w-4 text-muted-foreground animate-pulse" />,
+    text: item.lastError ? `Retrying: ${item.lastError}` : 'Queued',
+  };
+};
+
+const OutboxItems: React.FC<Required<Pick<PhotoUploadProgressProps, 'items'>> & PhotoUploadProgressProps> = ({
+  items,
+  onRetry,
+  onDiscard,
+  className,
+}) => {
+  const { isOnline } = useOfflineStatus();
+
+  return (
+    <div className={cn("space-y-2 p-4 rounded-lg bg-muted/50 border", className)}>
+      <p className="text-sm font-medium">
+        {items.length} {items.length === 1 ? 'change' : 'changes'} waiting to sync
+      </p>
+      <ul className="space-y-1.5">
+        {items.map(item => {
+          const status = itemStatus(item, isOnline);
+          return (
+            <li key={item.id} className="flex items-center gap-2 text-sm">
+              {status.icon}
+              <span className="font-medium">{item.label}</span>
+              {item.photoIds.length > 0 && (
+                <span className="text-muted-foreground">
+                  ({item.photoIds.length} {item.photoIds.length === 1 ? 'photo' : 'photos'})
+                </span>
+              )}
+              <span className={cn(
+                "text-xs truncate",
+                item.status === 'failed' ? "text-destructive" : "text-muted-foreground"
+              )}>
+                {status.text}
+              </span>
+              {item.status !== 'syncing' && (
+                <div className="ml-auto flex gap-1 shrink-0">
+                  {onRetry && item.attempts > 0 && (
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onRetry(item.id)} title="Retry now">
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                  {onDiscard && item.status === 'failed' && (
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onDiscard(item.id)} title="Discard">
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
 const PhotoUploadProgress: React.FC<PhotoUploadProgressProps> = ({
   progress,
   isUploading,
+  items,
+  onRetry,
+  onDiscard,
   className,
 }) => {
+  if (items) {
+    if (items.length === 0) return null;
+    return <OutboxItems items={items} onRetry={onRetry} onDiscard={onDiscard} className={className} />;
+  }
+
   if (!isUploading && !progress) return null;
 
   const isComplete = progress?.percentage === 100;
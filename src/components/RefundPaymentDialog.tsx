@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, Undo2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { usePaymentRefunds, useRefundPayment, type RefundLineItem } from '@/hooks/usePaymentRefunds';
+
+interface CheckoutService {
+  id: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  taxExempt?: boolean;
+}
+
+export interface RefundablePayment {
+  id: string;
+  amount: number;
+  amount_refunded?: number;
+  metadata: unknown;
+}
+
+interface RefundPaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string;
+  payment: RefundablePayment;
+}
+
+const lineKey = (rugNumber: string, serviceId: string) => `${rugNumber}::${serviceId}`;
+
+const RefundPaymentDialog: React.FC<RefundPaymentDialogProps> = ({ open, onOpenChange, jobId, payment }) => {
+  const { data: jobRefunds = [] } = usePaymentRefunds(open ? jobId : undefined);
+  const refundPayment = useRefundPayment();
+  const [mode, setMode] = useState<'full' | 'lines'>('full');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setMode('full');
+      setSelected(new Set());
+      setReason('');
+    }
+  }, [open]);
+
+  const refunds = jobRefunds.filter(r => r.payment_id === payment.id && r.status !== 'failed');
+  const alreadyRefunded = Math.max(
+    refunds.reduce((sum, r) => sum + Number(r.amount), 0),
+    Number(payment.amount_refunded || 0)
+  );
+  const refundable = Math.max(0, Math.round((Number(payment.amount) - alreadyRefunded) * 100) / 100);
+
+  const refundedKeys = new Set(
+    refunds.flatMap(r => ((r.line_items as unknown as RefundLineItem[]) || []).map(l => lineKey(l.rugNumber, l.serviceId)))
+  );
+
+  // Same maths as the refund-payment function: each line refunds with its tax, and a
+  // deposit refunds its share of each line
+  const lines = useMemo(() => {
+    const metadata = payment.metadata as {
+      selectedServices?: { rugNumber: string; services: CheckoutService[] }[];
+      taxRate?: number;
+    } | null;
+    const rugs = metadata?.selectedServices || [];
+    const taxRate = Number(metadata?.taxRate ?? 0);
+    const lineCharge = (service: CheckoutService) =>
+      service.quantity * service.unitPrice * (service.taxExempt ? 1 : 1 + taxRate / 100);
+    const flat = rugs.flatMap(rug => rug.services.map(service => ({ rugNumber: rug.rugNumber, service })));
+    const total = flat.reduce((sum, l) => sum + lineCharge(l.service), 0);
+    const paidShare = total > 0 ? Math.min(1, Number(payment.amount) / total) : 1;
+
+    return flat.map(({ rugNumber, service }) => ({
+      key: lineKey(rugNumber, service.id),
+      rugNumber,
+      serviceId: service.id,
+      name: service.name,
+      amount: Math.round(lineCharge(service) * paidShare * 100) / 100,
+    }));
+  }, [payment]);
+
+  const selectedTotal = Math.min(
+    refundable,
+    lines.filter(l => selected.has(l.key)).reduce((sum, l) => sum + l.amount, 0)
+  );
+  const refundAmount = mode === 'full' ? refundable : selectedTotal;
+
+  const toggleLine = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleRefund = () => {
+    refundPayment.mutate(
+      {
+        paymentId: payment.id,
+        jobId,
+        reason: reason.trim() || undefined,
+        lineItems: mode === 'lines'
+          ? lines.filter(l => selected.has(l.key)).map(l => ({ rugNumber: l.rugNumber, serviceId: l.serviceId }))
+          : undefined,
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Refund payment</DialogTitle>
+          <DialogDescription>
+            ${refundable.toFixed(2)} of ${Number(payment.amount).toFixed(2)} can still be refunded. The client is emailed a credit note.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as 'full' | 'lines')}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="full" id="refund-full" />
+              <Label htmlFor="refund-full">Full remaining amount</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="lines" id="refund-lines" disabled={lines.length === 0} />
+              <Label htmlFor="refund-lines">Selected services</Label>
+            </div>
+          </RadioGroup>
+
+          {mode === 'lines' && (
+            <div className="max-h-64 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+              {lines.map(line => {
+                const refunded = refundedKeys.has(line.key);
+                return (
+                  <label
+                    key={line.key}
+                    className={`flex items-center gap-3 p-3 text-sm ${refunded ? 'opacity-50' : 'cursor-pointer'}`}
+                  >
+                    <Checkbox
+                      checked={refunded || selected.has(line.key)}
+                      disabled={refunded}
+                      onCheckedChange={() => toggleLine(line.key)}
+                    />
+                    <div className="flex-1">
+                      <p className="font-medium">{line.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {line.rugNumber}{refunded && ' · already refunded'}
+                      </p>
+                    </div>
+                    <span className="font-medium">${line.amount.toFixed(2)}</span>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Reason (shown on the credit note)</Label>
+            <Textarea
+              id="refund-reason"
+              placeholder="e.g. Rug could not be repaired"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg bg-muted/50 p-3">
+            <span className="text-sm text-muted-foreground">Refund amount</span>
+            <span className="text-lg font-bold">${refundAmount.toFixed(2)}</span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleRefund}
+            disabled={refundAmount <= 0 || refundPayment.isPending}
+            className="gap-2"
+          >
+            {refundPayment.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+            Refund ${refundAmount.toFixed(2)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundPaymentDialog;
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { BellRing, Save, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { useOrganization } from '@/hooks/useOrganization';
+import { useReminderCadences, useSaveReminderCadences } from '@/hooks/useFollowUps';
+import { REMINDER_KINDS, type ReminderCadence } from '@shared/followUps';
+
+const DAY_FIELDS: { key: 'firstAfterDays' | 'repeatEveryDays' | 'maxReminders'; label: string; max: number }[] = [
+  { key: 'firstAfterDays', label: 'First after (days)', max: 60 },
+  { key: 'repeatEveryDays', label: 'Then every (days)', max: 60 },
+  { key: 'maxReminders', label: 'Up to (reminders)', max: 10 },
+];
+
+const ReminderSettings: React.FC = () => {
+  const { organization } = useOrganization();
+  const { data: cadences = [], isLoading } = useReminderCadences();
+  const saveCadences = useSaveReminderCadences();
+  const [drafts, setDrafts] = useState<ReminderCadence[]>([]);
+
+  useEffect(() => {
+    setDrafts(cadences);
+  }, [cadences]);
+
+  const updateDraft = (index: number, changes: Partial<ReminderCadence>) => {
+    setDrafts(prev => prev.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  };
+
+  const handleSave = () => {
+    if (!organization) return;
+    const invalid = drafts.some(d =>
+      DAY_FIELDS.some(({ key, max }) => !Number.isInteger(d[key]) || d[key] < 1 || d[key] > max)
+    );
+    if (invalid) {
+      toast.error('Reminder days and counts must be whole numbers of at least 1');
+      return;
+    }
+    saveCadences.mutate({ organizationId: organization.id, cadences: drafts });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Follow-up Reminders
+        </CardTitle>
+        <CardDescription>
+          Automatically email clients who haven't responded, using your reminder email templates. You're
+          notified each time, and the job shows on your Dashboard when it's time to follow up yourself.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          drafts.map((draft, index) => (
+            <div key={draft.kind} className="space-y-3 rounded-lg border border-border p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium">{REMINDER_KINDS[draft.kind].label}</p>
+                  <p className="text-xs text-muted-foreground">{REMINDER_KINDS[draft.kind].description}</p>
+                </div>
+                <Switch
+                  checked={draft.isActive}
+                  onCheckedChange={(checked) => updateDraft(index, { isActive: checked })}
+                  aria-label={`${REMINDER_KINDS[draft.kind].label} reminders`}
+                />
+              </div>
+              {draft.isActive && (
+                <div className="flex flex-wrap gap-3">
+                  {DAY_FIELDS.map(({ key, label, max }) => (
+                    <div key={key} className="space-y-1">
+                      <Label htmlFor={`${draft.kind}-${key}`} className="text-xs text-muted-foreground">{label}</Label>
+                      <Input
+                        id={`${draft.kind}-${key}`}
+                        className="w-24"
+                        type="number"
+                        min={1}
+                        max={max}
+                        value={draft[key]}
+                        onChange={(e) => updateDraft(index, { [key]: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+        <Button onClick={handleSave} disabled={!organization || isLoading || saveCadences.isPending} className="gap-2">
+          {saveCadences.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReminderSettings;
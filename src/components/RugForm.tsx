@@ -15,6 +15,7 @@ import { toast } from 'sonner';
 import GuidedPhotoCapture from './GuidedPhotoCapture';
 import { useUnsavedChanges } from '@/hooks/useUnsavedChanges';
 import UnsavedChangesDialog from './UnsavedChangesDialog';
+import type { CapturedPhotoMeta } from '@/lib/rugPhotos';
 
 const RUG_TYPES = [
   'Persian',
@@ -45,13 +46,14 @@ interface RugFormData {
 }
 
 interface RugFormProps {
-  onSubmit: (data: RugFormData, photos: File[]) => Promise<void>;
+  onSubmit: (data: RugFormData, photos: File[], photoMeta: CapturedPhotoMeta[]) => Promise<void>;
   isLoading: boolean;
   rugIndex: number;
 }
 
 const RugForm: React.FC<RugFormProps> = ({ onSubmit, isLoading, rugIndex }) => {
   const [photos, setPhotos] = useState<File[]>([]);
+  const [photoMeta, setPhotoMeta] = useState<CapturedPhotoMeta[]>([]);
   const [requiredPhotosComplete, setRequiredPhotosComplete] = useState(false);
   const [formData, setFormData] = useState<RugFormData>({
     rugNumber: `RUG-${String(rugIndex + 1).padStart(3, '0')}`,
@@ -95,7 +97,7 @@ const RugForm: React.FC<RugFormProps> = ({ onSubmit, isLoading, rugIndex }) => {
       return;
     }
 
-    await onSubmit(formData, photos);
+    await onSubmit(formData, photos, photoMeta);
   };
 
   return (
@@ -186,6 +188,7 @@ const RugForm: React.FC<RugFormProps> = ({ onSubmit, isLoading, rugIndex }) => {
         <GuidedPhotoCapture 
           photos={photos} 
           onPhotosChange={setPhotos} 
+          onPhotoMetaChange={setPhotoMeta}
           onRequiredComplete={handleRequiredComplete}
           maxPhotos={50} 
         />
@@ -2,6 +2,7 @@ import React from 'react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ImageOff } from 'lucide-react';
 import { useSignedUrl } from '@/hooks/useSignedUrl';
+import { thumbnailPath } from '@/lib/imagePipeline';
 
 interface RugPhotoProps {
   /** Storage file path (e.g., "userId/timestamp-random-filename.jpg") or legacy signed URL */
@@ -10,6 +11,8 @@ interface RugPhotoProps {
   className?: string;
   /** Fallback to show while loading */
   loadingClassName?: string;
+  /** Load the small thumbnail stored next to the photo, for lists and grids */
+  thumbnail?: boolean;
 }
 
 /**
@@ -41,24 +44,36 @@ const extractFilePath = (input: string): string => {
  * 3. Automatically refreshing the URL before it expires
  * 
  * For backward compatibility, it also handles legacy signed URLs by
- * extracting the file path from them.
+ * extracting the file path from them. Photos uploaded before thumbnails
+ * existed fall back to the full image.
  */
 const RugPhoto: React.FC<RugPhotoProps> = ({
   filePath,
   alt = 'Rug photo',
   className = 'w-full h-auto object-cover',
   loadingClassName = 'w-full h-32',
+  thumbnail = false,
 }) => {
   // Extract file path if a full URL was passed (backward compatibility)
   const cleanPath = filePath ? extractFilePath(filePath) : null;
-  
-  const { signedUrl, loading, error } = useSignedUrl(cleanPath, {
+  const [thumbnailMissing, setThumbnailMissing] = React.useState(false);
+  const showThumbnail = thumbnail && !thumbnailMissing && !!cleanPath;
+
+  const { signedUrl, loading, error } = useSignedUrl(showThumbnail ? thumbnailPath(cleanPath) : cleanPath, {
     bucket: 'rug-photos',
     expiresIn: 3600, // 1 hour, auto-refreshes before expiry
   });
 
+  React.useEffect(() => {
+    setThumbnailMissing(false);
+  }, [cleanPath]);
+
+  React.useEffect(() => {
+    if (error && showThumbnail) setThumbnailMissing(true);
+  }, [error, showThumbnail]);
+
   // Loading state
-  if (loading && !signedUrl) {
+  if ((loading && !signedUrl) || (error && showThumbnail)) {
     return (
       <Skeleton className={loadingClassName} />
     );
@@ -82,6 +97,7 @@ const RugPhoto: React.FC<RugPhotoProps> = ({
       alt={alt}
       className={className}
       loading="lazy"
+      onError={showThumbnail ? () => setThumbnailMissing(true) : undefined}
     />
   );
 };
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Calendar, Check, CalendarClock, X, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { formatDistanceToNow } from 'date-fns';
+import { useScheduleRequests, useRespondToScheduleRequest } from '@/hooks/useScheduleRequests';
+import {
+  SCHEDULE_REQUEST_TYPE_LABELS,
+  SCHEDULE_STATUS_CONFIG,
+  formatScheduleSlot,
+  type ScheduleRequest,
+} from '@/lib/scheduleRequests';
+
+interface ScheduleRequestsCardProps {
+  jobId: string;
+}
+
+const ScheduleRequestsCard: React.FC<ScheduleRequestsCardProps> = ({ jobId }) => {
+  const { data: requests = [], isLoading } = useScheduleRequests(jobId);
+  const respond = useRespondToScheduleRequest();
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+  const [proposal, setProposal] = useState({ date: '', time: '', notes: '' });
+
+  if (isLoading || requests.length === 0) return null;
+
+  const pendingCount = requests.filter(r => r.status === 'requested').length;
+
+  const startReschedule = (request: ScheduleRequest) => {
+    setReschedulingId(request.id);
+    setProposal({
+      date: request.requested_date,
+      time: request.requested_time?.slice(0, 5) || '',
+      notes: '',
+    });
+  };
+
+  const handleConfirm = (request: ScheduleRequest) => {
+    respond.mutate({
+      requestId: request.id,
+      jobId,
+      status: 'confirmed',
+      scheduledDate: request.requested_date,
+      scheduledTime: request.requested_time,
+    });
+  };
+
+  const handleDecline = (request: ScheduleRequest) => {
+    respond.mutate({ requestId: request.id, jobId, status: 'declined' });
+  };
+
+  const handleSendProposal = (request: ScheduleRequest) => {
+    if (!proposal.date) return;
+    respond.mutate(
+      {
+        requestId: request.id,
+        jobId,
+        status: 'rescheduled',
+        scheduledDate: proposal.date,
+        scheduledTime: proposal.time,
+        staffNotes: proposal.notes,
+      },
+      { onSuccess: () => setReschedulingId(null) }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calendar className="h-5 w-5 text-primary" />
+          Pickup & Delivery
+          {pendingCount > 0 && (
+            <Badge variant="secondary">{pendingCount} pending</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>Requests submitted by the client through the portal</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {requests.map((request, index) => {
+          const statusConfig = SCHEDULE_STATUS_CONFIG[request.status];
+          const isPending = request.status === 'requested';
+
+          return (
+            <div key={request.id} className="space-y-3">
+              {index > 0 && <Separator />}
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <p className="font-medium">
+                    {SCHEDULE_REQUEST_TYPE_LABELS[request.request_type]} ·{' '}
+                    {formatScheduleSlot(request.requested_date, request.requested_time)}
+                  </p>
+                  {request.scheduled_date && request.status !== 'confirmed' && (
+                    <p className="text-sm text-muted-foreground">
+                      Proposed: {formatScheduleSlot(request.scheduled_date, request.scheduled_time)}
+                    </p>
+                  )}
+                  {request.client_notes && (
+                    <p className="text-sm text-muted-foreground">“{request.client_notes}”</p>
+                  )}
+                  {request.staff_notes && (
+                    <p className="text-sm text-muted-foreground">Note to client: {request.staff_notes}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Requested {formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+                <Badge variant="outline" className={statusConfig.className}>
+                  {statusConfig.label}
+                </Badge>
+              </div>
+
+              {isPending && reschedulingId !== request.id && (
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" onClick={() => handleConfirm(request)} disabled={respond.isPending} className="gap-1">
+                    <Check className="h-4 w-4" />
+                    Confirm
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => startReschedule(request)} disabled={respond.isPending} className="gap-1">
+                    <CalendarClock className="h-4 w-4" />
+                    Propose another time
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDecline(request)}
+                    disabled={respond.isPending}
+                    className="gap-1 text-destructive hover:text-destructive"
+                  >
+                    <X className="h-4 w-4" />
+                    Decline
+                  </Button>
+                </div>
+              )}
+
+              {reschedulingId === request.id && (
+                <div className="grid gap-2 md:grid-cols-2 rounded-lg border border-border p-3">
+                  <Input
+                    type="date"
+                    value={proposal.date}
+                    onChange={(e) => setProposal(prev => ({ ...prev, date: e.target.value }))}
+                  />
+                  <Input
+                    type="time"
+                    value={proposal.time}
+                    onChange={(e) => setProposal(prev => ({ ...prev, time: e.target.value }))}
+                  />
+                  <Textarea
+                    className="md:col-span-2"
+                    placeholder="Optional note for the client..."
+                    value={proposal.notes}
+                    onChange={(e) => setProposal(prev => ({ ...prev, notes: e.target.value }))}
+                  />
+                  <div className="md:col-span-2 flex justify-end gap-2">
+                    <Button size="sm" variant="ghost" onClick={() => setReschedulingId(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleSendProposal(request)}
+                      disabled={!proposal.date || respond.isPending}
+                      className="gap-1"
+                    >
+                      {respond.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                      Send new time
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScheduleRequestsCard;
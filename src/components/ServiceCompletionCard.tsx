@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { CheckCircle, Circle, Clock, Package, Loader2 } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { CheckCircle, Circle, Clock, Package, Loader2, Camera } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -9,6 +9,10 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import RugPhoto from '@/components/RugPhoto';
+import { useSaveAfterServicePhoto } from '@/hooks/useRugPhotos';
+import { RUG_PHOTO_STEPS } from '@shared/rugPhotos';
+import { afterServicePhotos, type RugPhotoRow } from '@/lib/rugPhotos';
 
 interface ServiceItem {
   id: string;
@@ -31,9 +35,12 @@ interface RugWorkOrder {
   estimateId: string;
   services: ServiceItem[];
   total: number;
+  // Intake and after-service photos
+  photos?: RugPhotoRow[];
 }
 
 interface ServiceCompletionCardProps {
+  jobId: string;
   rugs: RugWorkOrder[];
   completions: ServiceCompletion[];
   clientApprovedAt: string | null;
@@ -47,7 +54,91 @@ const PRIORITY_COLORS = {
   low: 'bg-green-100 text-green-800 border-green-200',
 };
 
+// The guided capture angles again, after the work, for the client's before/after
+const AfterServicePhotos: React.FC<{ jobId: string; rug: RugWorkOrder }> = ({ jobId, rug }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [stepId, setStepId] = useState<string | null>(null);
+  const savePhoto = useSaveAfterServicePhoto();
+  const captured = afterServicePhotos(rug.photos);
+
+  const openCamera = (id: string) => {
+    setStepId(id);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !stepId) return;
+
+    savePhoto.mutate({
+      jobId,
+      inspectionId: rug.rugId,
+      stepId,
+      file,
+      existing: captured.get(stepId) ?? null,
+    });
+  };
+
+  return (
+    <div className="space-y-2 pt-1">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium flex items-center gap-1">
+          <Camera className="h-3 w-3" />
+          After-service photos
+        </span>
+        <span className="text-muted-foreground">
+          {RUG_PHOTO_STEPS.filter(step => captured.has(step.id)).length}/{RUG_PHOTO_STEPS.length}
+        </span>
+      </div>
+      <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+        {RUG_PHOTO_STEPS.map(step => {
+          const photo = captured.get(step.id);
+          const uploading = savePhoto.isPending && savePhoto.variables?.inspectionId === rug.rugId
+            && savePhoto.variables?.stepId === step.id;
+
+          return (
+            <button
+              key={step.id}
+              type="button"
+              onClick={() => openCamera(step.id)}
+              disabled={savePhoto.isPending}
+              title={photo ? `Retake ${step.label}` : `Capture ${step.label}`}
+              className="space-y-1 text-left"
+            >
+              <div className="aspect-square rounded-md overflow-hidden border border-dashed border-border bg-muted/40 flex items-center justify-center">
+                {uploading ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                ) : photo ? (
+                  <RugPhoto
+                    filePath={photo.storage_path}
+                    alt={`${step.label} after service`}
+                    className="h-full w-full object-cover"
+                    thumbnail
+                  />
+                ) : (
+                  <Camera className="h-4 w-4 text-muted-foreground" />
+                )}
+              </div>
+              <p className="text-[10px] leading-tight text-muted-foreground line-clamp-2">{step.label}</p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
 const ServiceCompletionCard: React.FC<ServiceCompletionCardProps> = ({
+  jobId,
   rugs,
   completions,
   clientApprovedAt,
@@ -225,6 +316,10 @@ const ServiceCompletionCard: React.FC<ServiceCompletionCardProps> = ({
                   );
                 })}
               </div>
+
+              {rug.services.some(s => isServiceCompleted(s.id)) && (
+                <AfterServicePhotos jobId={jobId} rug={rug} />
+              )}
             </div>
           ))}
         </div>
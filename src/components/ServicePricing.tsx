@@ -3,99 +3,173 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "sonner";
-import { DollarSign, Loader2, Save } from "lucide-react";
+import { Archive, ArchiveRestore, ArrowDown, ArrowUp, DollarSign, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { PRICING_UNIT_LABELS, type PricingUnit } from "@shared/pricing";
+import { CATALOG_COLUMNS, DEFAULT_CATALOG, toCatalogService, type CatalogService } from "@/lib/serviceCatalog";
+import type { ServicePriority } from "@/lib/structuredReport";
 
-interface ServicePrice {
+// Catalog rows being edited; id is missing until the service is first saved
+type DraftService = Omit<CatalogService, "id" | "sortOrder"> & {
   id?: string;
-  service_name: string;
-  unit_price: number;
-}
+  key: string;
+};
 
-const DEFAULT_SERVICES = [
-  "Standard wash",
-  "Special fiber/antique wash",
-  "Limewash (moth wash)",
-  "Overnight soaking",
-  "Blocking",
-  "Sheering",
-  "Overcasting",
-  "Zenjireh",
-  "Persian Binding",
-  "Hand Fringe",
-  "Machine Fringe",
-  "Leather binding",
-  "Cotton Binding",
-  "Glue binding",
-  "Padding",
-];
+const PRIORITY_LABELS: Record<ServicePriority, string> = {
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+};
+
+const newDraft = (overrides: Partial<DraftService> = {}): DraftService => ({
+  key: crypto.randomUUID(),
+  name: "",
+  unitPrice: 0,
+  unit: "sq_ft",
+  minimumCharge: null,
+  description: null,
+  priority: "medium",
+  mandatory: false,
+  isAdditional: false,
+  taxExempt: false,
+  archivedAt: null,
+  ...overrides,
+});
 
 interface ServicePricingProps {
   userId: string;
 }
 
 const ServicePricing = ({ userId }: ServicePricingProps) => {
-  const [prices, setPrices] = useState<Record<string, number>>({});
+  const [services, setServices] = useState<DraftService[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
   useEffect(() => {
-    fetchPrices();
+    fetchServices();
   }, [userId]);
 
-  const fetchPrices = async () => {
+  const fetchServices = async () => {
     try {
       const { data, error } = await supabase
         .from("service_prices")
-        .select("*")
-        .eq("user_id", userId);
+        .select(CATALOG_COLUMNS)
+        .eq("user_id", userId)
+        .order("sort_order")
+        .order("service_name");
 
       if (error) throw error;
 
-      const priceMap: Record<string, number> = {};
-      DEFAULT_SERVICES.forEach((service) => {
-        priceMap[service] = 0;
-      });
-
-      data?.forEach((item: ServicePrice) => {
-        priceMap[item.service_name] = item.unit_price;
-      });
-
-      setPrices(priceMap);
+      if (data && data.length > 0) {
+        setServices(data.map((row) => {
+          const { sortOrder: _sortOrder, ...service } = toCatalogService(row);
+          return { ...service, key: service.id };
+        }));
+      } else {
+        // Nothing saved yet - start from the standard list
+        setServices(DEFAULT_CATALOG.map((service) => newDraft(service)));
+      }
     } catch (error) {
-      console.error("Error fetching service prices:", error);
-      toast.error("Failed to load service prices");
+      console.error("Error fetching service catalog:", error);
+      toast.error("Failed to load services");
     } finally {
       setLoading(false);
     }
   };
 
-  const handlePriceChange = (serviceName: string, value: string) => {
-    const numericValue = parseFloat(value) || 0;
-    setPrices((prev) => ({ ...prev, [serviceName]: numericValue }));
+  const updateService = (key: string, updates: Partial<DraftService>) => {
+    setServices((prev) => prev.map((s) => (s.key === key ? { ...s, ...updates } : s)));
+  };
+
+  const handleAddService = () => {
+    setServices((prev) => [...prev, newDraft()]);
+  };
+
+  // Unsaved services can be dropped; saved ones are archived so past estimates keep their history
+  const handleRemove = (service: DraftService) => {
+    if (service.id) {
+      updateService(service.key, { archivedAt: new Date().toISOString() });
+    } else {
+      setServices((prev) => prev.filter((s) => s.key !== service.key));
+    }
+  };
+
+  // Swap with the nearest active service above or below
+  const handleMove = (key: string, direction: -1 | 1) => {
+    setServices((prev) => {
+      const index = prev.findIndex((s) => s.key === key);
+      let target = index + direction;
+      while (target >= 0 && target < prev.length && prev[target].archivedAt) {
+        target += direction;
+      }
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
   };
 
   const handleSave = async () => {
+    const names = services.map((s) => s.name.trim());
+    if (names.some((name) => !name)) {
+      toast.error("Every service needs a name");
+      return;
+    }
+    const lowerNames = names.map((name) => name.toLowerCase());
+    if (new Set(lowerNames).size !== lowerNames.length) {
+      toast.error("Service names must be unique");
+      return;
+    }
+
     setSaving(true);
     try {
-      // Upsert all prices
-      const upsertData = Object.entries(prices).map(([service_name, unit_price]) => ({
+      const rows = services.map((service, index) => ({
         user_id: userId,
-        service_name,
-        unit_price,
+        service_name: service.name.trim(),
+        unit_price: service.unitPrice,
+        pricing_unit: service.unit,
+        minimum_charge: service.minimumCharge,
+        description: service.description?.trim() || null,
+        default_priority: service.priority,
+        is_mandatory: service.mandatory,
+        is_additional: service.isAdditional,
+        tax_exempt: service.taxExempt,
+        sort_order: index,
+        archived_at: service.archivedAt,
+        id: service.id,
       }));
 
-      const { error } = await supabase
-        .from("service_prices")
-        .upsert(upsertData, { onConflict: "user_id,service_name" });
+      const existing = rows.filter((row) => row.id);
+      const created = rows.filter((row) => !row.id).map(({ id: _id, ...row }) => row);
 
-      if (error) throw error;
+      if (existing.length > 0) {
+        const { error } = await supabase.from("service_prices").upsert(existing);
+        if (error) throw error;
+      }
+
+      if (created.length > 0) {
+        const { error } = await supabase.from("service_prices").insert(created);
+        if (error) throw error;
+      }
 
-      toast.success("Service prices saved successfully");
+      toast.success("Services saved successfully");
+      await fetchServices();
     } catch (error) {
-      console.error("Error saving service prices:", error);
-      toast.error("Failed to save service prices");
+      console.error("Error saving service catalog:", error);
+      toast.error("Failed to save services");
     } finally {
       setSaving(false);
     }
@@ -111,42 +185,226 @@ const ServicePricing = ({ userId }: ServicePricingProps) => {
     );
   }
 
-  return (
-    <Card>
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <DollarSign className="h-5 w-5" />
-          Service Pricing
-        </CardTitle>
-        <CardDescription>
-          Set your unit prices for each service type
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-4">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {DEFAULT_SERVICES.map((service) => (
-            <div key={service} className="space-y-1">
-              <Label htmlFor={service} className="text-sm">
-                {service}
-              </Label>
+  const activeServices = services.filter((s) => !s.archivedAt);
+  const archivedServices = services.filter((s) => s.archivedAt);
+
+  const renderService = (service: DraftService, position: number) => (
+    <div key={service.key} className="rounded-lg border border-border p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        {!service.archivedAt && (
+          <div className="flex flex-col">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              disabled={position === 0}
+              onClick={() => handleMove(service.key, -1)}
+              aria-label={`Move ${service.name || "service"} up`}
+            >
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              disabled={position === activeServices.length - 1}
+              onClick={() => handleMove(service.key, 1)}
+              aria-label={`Move ${service.name || "service"} down`}
+            >
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+        <Input
+          value={service.name}
+          onChange={(e) => updateService(service.key, { name: e.target.value })}
+          placeholder="Service name"
+          className="font-medium"
+          aria-label="Service name"
+        />
+        {service.archivedAt ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => updateService(service.key, { archivedAt: null })}
+            className="gap-1 shrink-0"
+          >
+            <ArchiveRestore className="h-4 w-4" />
+            Restore
+          </Button>
+        ) : (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => handleRemove(service)}
+            className="shrink-0 text-muted-foreground"
+            aria-label={service.id ? "Archive service" : "Remove service"}
+          >
+            {service.id ? <Archive className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+          </Button>
+        )}
+      </div>
+
+      {!service.archivedAt && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Price</Label>
               <div className="relative">
                 <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
                   $
                 </span>
                 <Input
-                  id={service}
                   type="number"
                   min="0"
                   step="0.01"
-                  value={prices[service] || ""}
-                  onChange={(e) => handlePriceChange(service, e.target.value)}
+                  value={service.unitPrice || ""}
+                  onChange={(e) => updateService(service.key, { unitPrice: parseFloat(e.target.value) || 0 })}
                   placeholder="0.00"
                   className="pl-7"
                 />
               </div>
             </div>
-          ))}
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Charged</Label>
+              <Select
+                value={service.unit}
+                onValueChange={(value: PricingUnit) => updateService(service.key, { unit: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PRICING_UNIT_LABELS) as PricingUnit[]).map((unit) => (
+                    <SelectItem key={unit} value={unit}>
+                      {PRICING_UNIT_LABELS[unit]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Minimum</Label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+                  $
+                </span>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={service.minimumCharge ?? ""}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    updateService(service.key, { minimumCharge: value > 0 ? value : null });
+                  }}
+                  placeholder="None"
+                  className="pl-7"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Default priority</Label>
+              <Select
+                value={service.priority}
+                onValueChange={(value: ServicePriority) => updateService(service.key, { priority: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PRIORITY_LABELS) as ServicePriority[]).map((priority) => (
+                    <SelectItem key={priority} value={priority}>
+                      {PRIORITY_LABELS[priority]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Textarea
+            value={service.description ?? ""}
+            onChange={(e) => updateService(service.key, { description: e.target.value })}
+            placeholder="Description used in estimate letters (what the service does and why it helps)"
+            rows={2}
+            className="text-sm"
+          />
+
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`mandatory-${service.key}`}
+                checked={service.mandatory}
+                onCheckedChange={(checked) => updateService(service.key, { mandatory: checked })}
+              />
+              <Label htmlFor={`mandatory-${service.key}`} className="text-sm font-normal">
+                Required in client portal
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`additional-${service.key}`}
+                checked={service.isAdditional}
+                onCheckedChange={(checked) => updateService(service.key, { isAdditional: checked })}
+              />
+              <Label htmlFor={`additional-${service.key}`} className="text-sm font-normal">
+                Suggest as add-on
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`tax-exempt-${service.key}`}
+                checked={service.taxExempt}
+                onCheckedChange={(checked) => updateService(service.key, { taxExempt: checked })}
+              />
+              <Label htmlFor={`tax-exempt-${service.key}`} className="text-sm font-normal">
+                Tax exempt
+              </Label>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          Services & Pricing
+        </CardTitle>
+        <CardDescription>
+          Manage the services you offer and how each is charged. Estimates are calculated from these prices and the rug's size.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          {activeServices.map((service, index) => renderService(service, index))}
         </div>
+
+        <Button variant="outline" onClick={handleAddService} className="w-full gap-2">
+          <Plus className="h-4 w-4" />
+          Add Service
+        </Button>
+
+        {archivedServices.length > 0 && (
+          <div className="space-y-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowArchived((prev) => !prev)}
+              className="gap-2 text-muted-foreground"
+            >
+              <Archive className="h-4 w-4" />
+              {showArchived ? "Hide" : "Show"} archived
+              <Badge variant="secondary">{archivedServices.length}</Badge>
+            </Button>
+            {showArchived && archivedServices.map((service, index) => renderService(service, index))}
+          </div>
+        )}
+
         <div className="flex justify-end pt-4">
           <Button onClick={handleSave} disabled={saving}>
             {saving ? (
@@ -154,7 +412,7 @@ const ServicePricing = ({ userId }: ServicePricingProps) => {
             ) : (
               <Save className="mr-2 h-4 w-4" />
             )}
-            Save Prices
+            Save Services
           </Button>
         </div>
       </CardContent>
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StarRatingProps {
+  value: number;
+  // Omit to render read-only stars
+  onChange?: (value: number) => void;
+  size?: 'sm' | 'lg';
+  className?: string;
+}
+
+const StarRating: React.FC<StarRatingProps> = ({ value, onChange, size = 'sm', className }) => {
+  const iconClass = size === 'lg' ? 'h-8 w-8' : 'h-4 w-4';
+
+  return (
+    <div className={cn('flex items-center gap-1', className)}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const filled = star <= value;
+        const icon = (
+          <Star
+            className={cn(
+              iconClass,
+              filled ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground/40'
+            )}
+          />
+        );
+
+        if (!onChange) return <span key={star}>{icon}</span>;
+
+        return (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            className="rounded-sm transition-transform hover:scale-110 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            aria-label={`${star} star${star === 1 ? '' : 's'}`}
+          >
+            {icon}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StarRating;
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { Landmark, Plus, Save, Trash2, Loader2, UserX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { useOrganization } from '@/hooks/useOrganization';
+import {
+  useTaxRates,
+  useSaveTaxRates,
+  useTaxExemptClients,
+  useAddTaxExemptClient,
+  useRemoveTaxExemptClient,
+  type TaxRateDraft,
+} from '@/hooks/useTaxSettings';
+
+const TaxSettings: React.FC = () => {
+  const { organization } = useOrganization();
+  const { data: rates = [], isLoading } = useTaxRates();
+  const { data: exemptClients = [] } = useTaxExemptClients();
+  const saveRates = useSaveTaxRates();
+  const addExemptClient = useAddTaxExemptClient();
+  const removeExemptClient = useRemoveTaxExemptClient();
+  const [drafts, setDrafts] = useState<(Omit<TaxRateDraft, 'rate'> & { rate: string })[]>([]);
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
+  const [clientEmail, setClientEmail] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setDrafts(rates.map(({ id, name, rate, is_active }) => ({ id, name, rate: String(rate), is_active })));
+    setRemovedIds([]);
+  }, [rates]);
+
+  const updateDraft = (index: number, changes: Partial<(typeof drafts)[number]>) => {
+    setDrafts(prev => prev.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  };
+
+  const removeDraft = (index: number) => {
+    const draft = drafts[index];
+    if (draft.id) setRemovedIds(prev => [...prev, draft.id as string]);
+    setDrafts(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    if (!organization) return;
+
+    const prepared = drafts.map(d => ({ ...d, name: d.name.trim(), rate: Number(d.rate) }));
+    if (prepared.some(d => !d.name)) {
+      toast.error('Every tax rate needs a name');
+      return;
+    }
+    if (prepared.some((d, i) => drafts[i].rate.trim() === '' || isNaN(d.rate) || d.rate < 0 || d.rate > 100)) {
+      toast.error('Tax rates must be between 0 and 100%');
+      return;
+    }
+
+    saveRates.mutate({ organizationId: organization.id, rates: prepared, removedIds });
+  };
+
+  const handleAddClient = () => {
+    if (!organization) return;
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(clientEmail.trim())) {
+      toast.error('Enter the client\'s email address');
+      return;
+    }
+    addExemptClient.mutate(
+      { organizationId: organization.id, clientEmail, reason },
+      {
+        onSuccess: () => {
+          setClientEmail('');
+          setReason('');
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="h-5 w-5" />
+          Sales Tax
+        </CardTitle>
+        <CardDescription>
+          Active rates are added to estimates, checkout and invoices. Each rate applies to the taxable
+          services and appears as its own line. Mark services exempt on your price list.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            {drafts.length === 0 && (
+              <p className="text-sm text-muted-foreground">No tax is charged. Add a rate if your services are taxable.</p>
+            )}
+            {drafts.map((draft, index) => (
+              <div key={draft.id || `new-${index}`} className="flex flex-wrap items-center gap-2">
+                <Input
+                  className="flex-1 min-w-[160px]"
+                  value={draft.name}
+                  onChange={(e) => updateDraft(index, { name: e.target.value })}
+                  placeholder="e.g. State sales tax"
+                />
+                <div className="flex items-center gap-1">
+                  <Input
+                    className="w-24"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.001}
+                    value={draft.rate}
+                    onChange={(e) => updateDraft(index, { rate: e.target.value })}
+                  />
+                  <span className="text-muted-foreground">%</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`tax-active-${index}`}
+                    checked={draft.is_active}
+                    onCheckedChange={(checked) => updateDraft(index, { is_active: checked })}
+                  />
+                  <Label htmlFor={`tax-active-${index}`} className="font-normal">Active</Label>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeDraft(index)}
+                  className="text-destructive hover:text-destructive"
+                  aria-label="Remove tax rate"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap justify-between gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setDrafts(prev => [...prev, { name: '', rate: '', is_active: true }])}
+                className="gap-2"
+              >
+                <Plus className="h-4 w-4" />
+                Add rate
+              </Button>
+              <Button onClick={handleSave} disabled={!organization || saveRates.isPending} className="gap-2">
+                {saveRates.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Save rates
+              </Button>
+            </div>
+          </>
+        )}
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div>
+            <Label className="flex items-center gap-2">
+              <UserX className="h-4 w-4" />
+              Tax exempt clients
+            </Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Jobs for these clients (matched by email) are never taxed.
+            </p>
+          </div>
+          {exemptClients.map((client) => (
+            <div key={client.id} className="flex items-center justify-between rounded-md border border-border px-3 py-2">
+              <div>
+                <p className="text-sm font-medium">{client.client_email}</p>
+                {client.reason && <p className="text-xs text-muted-foreground">{client.reason}</p>}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeExemptClient.mutate({ id: client.id, organizationId: client.organization_id })}
+                className="text-destructive hover:text-destructive"
+                aria-label="Remove exemption"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2">
+            <Input
+              className="flex-1 min-w-[200px]"
+              type="email"
+              value={clientEmail}
+              onChange={(e) => setClientEmail(e.target.value)}
+              placeholder="client@example.com"
+            />
+            <Input
+              className="flex-1 min-w-[160px]"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Certificate # or reason (optional)"
+            />
+            <Button
+              variant="outline"
+              onClick={handleAddClient}
+              disabled={!organization || addExemptClient.isPending}
+              className="gap-2"
+            >
+              {addExemptClient.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaxSettings;
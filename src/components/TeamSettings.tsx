@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Users, UserPlus, Trash2, Loader2, Copy, X, LogOut } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  useOrganization,
+  useOrganizationMembers,
+  useOrganizationInvitations,
+  useInviteTeamMember,
+  useRevokeInvitation,
+  useUpdateMemberRole,
+  useRemoveMember,
+} from '@/hooks/useOrganization';
+import {
+  INVITABLE_ROLES,
+  ORG_ROLE_DESCRIPTIONS,
+  ORG_ROLE_LABELS,
+  type OrganizationMember,
+  type OrgRole,
+} from '@/lib/organization';
+
+const TeamSettings: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { organization, permissions, isLoading: orgLoading } = useOrganization();
+  const { data: members = [], isLoading: membersLoading } = useOrganizationMembers(organization?.id);
+  const { data: invitations = [] } = useOrganizationInvitations(organization?.id, permissions.canManageTeam);
+  const inviteMember = useInviteTeamMember();
+  const revokeInvitation = useRevokeInvitation();
+  const updateRole = useUpdateMemberRole();
+  const removeMember = useRemoveMember();
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrgRole>('inspector');
+
+  const handleInvite = () => {
+    if (!organization) return;
+    const email = inviteEmail.trim();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      toast.error('Please enter a valid email address');
+      return;
+    }
+    if (members.some(m => m.email?.toLowerCase() === email.toLowerCase())) {
+      toast.error('That person is already on your team');
+      return;
+    }
+
+    inviteMember.mutate(
+      { organizationId: organization.id, email, role: inviteRole },
+      { onSuccess: () => setInviteEmail('') }
+    );
+  };
+
+  const copyJoinLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/team/join/${token}`);
+      toast.success('Invitation link copied');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  const handleLeave = (member: OrganizationMember) => {
+    // Reloading the organization gives the user a fresh personal one
+    removeMember.mutate(member, {
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.organization.all });
+        queryClient.invalidateQueries({ queryKey: queryKeys.jobs.all });
+      },
+    });
+  };
+
+  if (orgLoading || !organization) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Team
+        </CardTitle>
+        <CardDescription>
+          Everyone on {organization.name} shares its jobs, prices and templates. Roles decide what each person can change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {membersLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <div className="space-y-3">
+            {members.map((member) => {
+              const isSelf = member.user_id === user?.id;
+              const isOwner = member.role === 'owner';
+              const canEdit = permissions.canManageTeam && !isOwner && !isSelf;
+
+              return (
+                <div key={member.id} className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {member.full_name || member.email || 'Team member'}
+                      {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                    </p>
+                    {member.full_name && member.email && (
+                      <p className="text-sm text-muted-foreground truncate">{member.email}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {canEdit ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => updateRole.mutate({ member, role: role as OrgRole })}
+                      >
+                        <SelectTrigger className="w-[140px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {INVITABLE_ROLES.map(role => (
+                            <SelectItem key={role} value={role}>
+                              {ORG_ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant={isOwner ? 'default' : 'secondary'}>{ORG_ROLE_LABELS[member.role]}</Badge>
+                    )}
+                    {(canEdit || (isSelf && !isOwner)) && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive hover:text-destructive"
+                            aria-label={isSelf ? 'Leave team' : 'Remove member'}
+                          >
+                            {isSelf ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>{isSelf ? `Leave ${organization.name}?` : 'Remove team member?'}</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {isSelf
+                                ? 'You will lose access to this business\'s jobs straight away.'
+                                : `${member.full_name || member.email || 'This member'} will lose access straight away. Jobs they worked on stay with the business.`}
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => (isSelf ? handleLeave(member) : removeMember.mutate(member))}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              {isSelf ? 'Leave team' : 'Remove'}
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {permissions.canManageTeam && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <Label htmlFor="inviteEmail">Invite a team member</Label>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Input
+                  id="inviteEmail"
+                  type="email"
+                  placeholder="name@example.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleInvite();
+                  }}
+                />
+                <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as OrgRole)}>
+                  <SelectTrigger className="sm:w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INVITABLE_ROLES.map(role => (
+                      <SelectItem key={role} value={role}>
+                        {ORG_ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleInvite} disabled={!inviteEmail.trim() || inviteMember.isPending} className="gap-2">
+                  {inviteMember.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+                  Invite
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">{ORG_ROLE_DESCRIPTIONS[inviteRole]}</p>
+            </div>
+
+            {invitations.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Pending invitations</p>
+                {invitations.map((invitation) => {
+                  const expired = new Date(invitation.expires_at) < new Date();
+                  return (
+                    <div key={invitation.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-border p-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{invitation.email}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {ORG_ROLE_LABELS[invitation.role]} ·{' '}
+                          {expired
+                            ? 'Expired'
+                            : `Sent ${formatDistanceToNow(new Date(invitation.created_at), { addSuffix: true })}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {!expired && (
+                          <Button variant="ghost" size="sm" onClick={() => copyJoinLink(invitation.token)} className="gap-1">
+                            <Copy className="h-4 w-4" />
+                            Copy link
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeInvitation.mutate(invitation)}
+                          disabled={revokeInvitation.isPending}
+                          className="gap-1 text-destructive hover:text-destructive"
+                        >
+                          <X className="h-4 w-4" />
+                          Revoke
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TeamSettings;
@@ -63,7 +63,7 @@ const PlatformRevenueChart = () => {
       const { data: payments, error } = await supabase
         .from('payments')
         .select('id, amount, platform_fee, created_at, status')
-        .eq('status', 'completed')
+        .in('status', ['completed', 'partially_refunded'])
         .gte('created_at', start.toISOString())
         .lte('created_at', end.toISOString())
         .order('created_at', { ascending: true });
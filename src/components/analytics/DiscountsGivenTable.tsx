@@ -0,0 +1,57 @@
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DISCOUNT_SOURCE_LABELS, type DiscountSource } from "@shared/discounts";
+
+export interface DiscountsGivenRow {
+  description: string;
+  source: DiscountSource;
+  amount: number;
+  invoices: number;
+}
+
+interface DiscountsGivenTableProps {
+  data: DiscountsGivenRow[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(value);
+
+export const DiscountsGivenTable = ({ data }: DiscountsGivenTableProps) => {
+  if (!data.length) {
+    return (
+      <div className="py-8 flex items-center justify-center text-muted-foreground">
+        No discounts given during this period
+      </div>
+    );
+  }
+
+  const total = data.reduce((sum, row) => sum + row.amount, 0);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Discount</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead className="text-right">Invoices</TableHead>
+          <TableHead className="text-right">Given</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {data.map((row) => (
+          <TableRow key={`${row.source}-${row.description}`}>
+            <TableCell className="font-medium">{row.description}</TableCell>
+            <TableCell>{DISCOUNT_SOURCE_LABELS[row.source]}</TableCell>
+            <TableCell className="text-right">{row.invoices}</TableCell>
+            <TableCell className="text-right">{formatCurrency(row.amount)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell colSpan={3}>Total</TableCell>
+          <TableCell className="text-right">{formatCurrency(total)}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+};
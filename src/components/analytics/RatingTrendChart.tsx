@@ -0,0 +1,62 @@
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartConfig,
+} from "@/components/ui/chart";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+
+interface RatingTrendChartProps {
+  data: { date: string; average: number; count: number }[];
+}
+
+const chartConfig: ChartConfig = {
+  average: {
+    label: "Average rating",
+    color: "hsl(var(--primary))",
+  },
+};
+
+export const RatingTrendChart = ({ data }: RatingTrendChartProps) => {
+  if (!data.length) {
+    return (
+      <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+        No reviews yet
+      </div>
+    );
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="h-[300px] w-full">
+      <LineChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+        <XAxis
+          dataKey="date"
+          tick={{ fontSize: 12 }}
+          tickLine={false}
+          axisLine={false}
+          className="text-muted-foreground"
+        />
+        <YAxis
+          domain={[1, 5]}
+          ticks={[1, 2, 3, 4, 5]}
+          tick={{ fontSize: 12 }}
+          tickLine={false}
+          axisLine={false}
+          className="text-muted-foreground"
+        />
+        <ChartTooltip
+          content={<ChartTooltipContent />}
+          formatter={(value: number) => [value.toFixed(2), "Average rating"]}
+        />
+        <Line
+          type="monotone"
+          dataKey="average"
+          stroke="hsl(var(--primary))"
+          strokeWidth={2}
+          dot={{ r: 4 }}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+};
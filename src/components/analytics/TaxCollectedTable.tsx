@@ -0,0 +1,56 @@
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+export interface TaxCollectedRow {
+  name: string;
+  rate: number;
+  amount: number;
+  invoices: number;
+}
+
+interface TaxCollectedTableProps {
+  data: TaxCollectedRow[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(value);
+
+export const TaxCollectedTable = ({ data }: TaxCollectedTableProps) => {
+  if (!data.length) {
+    return (
+      <div className="py-8 flex items-center justify-center text-muted-foreground">
+        No tax collected during this period
+      </div>
+    );
+  }
+
+  const total = data.reduce((sum, row) => sum + row.amount, 0);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Tax</TableHead>
+          <TableHead className="text-right">Rate</TableHead>
+          <TableHead className="text-right">Invoices</TableHead>
+          <TableHead className="text-right">Collected</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {data.map((row) => (
+          <TableRow key={`${row.name}-${row.rate}`}>
+            <TableCell className="font-medium">{row.name}</TableCell>
+            <TableCell className="text-right">{row.rate}%</TableCell>
+            <TableCell className="text-right">{row.invoices}</TableCell>
+            <TableCell className="text-right">{formatCurrency(row.amount)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell colSpan={3}>Total</TableCell>
+          <TableCell className="text-right">{formatCurrency(total)}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+};
@@ -0,0 +1,180 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { useOrganization } from '@/hooks/useOrganization';
+import { toast } from 'sonner';
+import { NO_DISCOUNTS, type DiscountTerms, type JobDiscountSettings } from '@shared/discounts';
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+
+export type DiscountRuleRow = Tables<'discount_rules'>;
+export type CouponCode = Tables<'coupon_codes'>;
+
+export type DiscountRuleDraft = Pick<DiscountRuleRow, 'label' | 'discount_type' | 'value' | 'min_rugs' | 'is_active'> & {
+  id?: string;
+};
+
+export const useDiscountRules = () => {
+  const { organization } = useOrganization();
+  const orgId = organization?.id;
+
+  return useQuery({
+    queryKey: queryKeys.organization.discountRules(orgId || ''),
+    queryFn: async (): Promise<DiscountRuleRow[]> => {
+      const { data, error } = await supabase
+        .from('discount_rules')
+        .select('*')
+        .eq('organization_id', orgId!)
+        .order('min_rugs');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!orgId,
+  });
+};
+
+interface SaveDiscountRules {
+  organizationId: string;
+  rules: DiscountRuleDraft[];
+  removedIds: string[];
+}
+
+export const useSaveDiscountRules = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ organizationId, rules, removedIds }: SaveDiscountRules) => {
+      if (removedIds.length > 0) {
+        const { error } = await supabase.from('discount_rules').delete().in('id', removedIds);
+        if (error) throw error;
+      }
+
+      const rows = rules.map(rule => ({ ...rule, organization_id: organizationId }));
+      const existing = rows.filter(r => r.id);
+      const created = rows.filter(r => !r.id).map(({ id: _id, ...row }) => row);
+
+      if (existing.length > 0) {
+        const { error } = await supabase.from('discount_rules').upsert(existing);
+        if (error) throw error;
+      }
+      if (created.length > 0) {
+        const { error } = await supabase.from('discount_rules').insert(created);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success('Discount rules saved');
+    },
+    onError: (error) => {
+      console.error('Failed to save discount rules:', error);
+      toast.error('Failed to save discount rules');
+    },
+    onSettled: (_data, _error, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization.discountRules(organizationId) });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.jobs.all, 'discountSettings'] });
+    },
+  });
+};
+
+export const useCouponCodes = () => {
+  const { organization } = useOrganization();
+  const orgId = organization?.id;
+
+  return useQuery({
+    queryKey: queryKeys.organization.couponCodes(orgId || ''),
+    queryFn: async (): Promise<CouponCode[]> => {
+      const { data, error } = await supabase
+        .from('coupon_codes')
+        .select('*')
+        .eq('organization_id', orgId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!orgId,
+  });
+};
+
+export const useCreateCouponCode = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (coupon: TablesInsert<'coupon_codes'>) => {
+      const { error } = await supabase.from('coupon_codes').insert({ ...coupon, code: coupon.code.trim().toUpperCase() });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('That code already exists');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success('Coupon created');
+    },
+    onError: (error) => {
+      console.error('Failed to create coupon:', error);
+      toast.error(error.message || 'Failed to create coupon');
+    },
+    onSettled: (_data, _error, { organization_id }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization.couponCodes(organization_id) });
+    },
+  });
+};
+
+// Coupons are switched off rather than deleted so paid invoices keep their link
+export const useSetCouponActive = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean; organizationId: string }) => {
+      const { error } = await supabase.from('coupon_codes').update({ is_active: isActive }).eq('id', id);
+      if (error) throw error;
+    },
+    onError: (error) => {
+      console.error('Failed to update coupon:', error);
+      toast.error('Failed to update coupon');
+    },
+    onSettled: (_data, _error, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization.couponCodes(organizationId) });
+    },
+  });
+};
+
+// Job-wide discounts for a job, without a coupon; works for staff and the job's client
+export const useJobDiscountSettings = (jobId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.jobs.discountSettings(jobId || ''),
+    queryFn: async (): Promise<JobDiscountSettings> => {
+      const { data, error } = await supabase.rpc('job_discount_settings', { _job_id: jobId! });
+      if (error) throw error;
+      return (data as unknown as JobDiscountSettings | null) ?? NO_DISCOUNTS;
+    },
+    enabled: !!jobId,
+  });
+};
+
+export const useUpdateJobDiscount = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ jobId, discount }: { jobId: string; discount: DiscountTerms | null }) => {
+      const { error } = await supabase
+        .from('jobs')
+        .update({ discount: discount as unknown as Json })
+        .eq('id', jobId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { discount }) => {
+      toast.success(discount ? 'Job discount saved' : 'Job discount removed');
+    },
+    onError: (error) => {
+      console.error('Failed to update job discount:', error);
+      toast.error('Failed to save job discount');
+    },
+    onSettled: (_data, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.discountSettings(jobId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.detail(jobId) });
+    },
+  });
+};
@@ -0,0 +1,52 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { toast } from 'sonner';
+import type { EmailEvent } from '@/lib/emailEvents';
+
+export const useJobEmailEvents = (jobId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.jobs.emailEvents(jobId || ''),
+    queryFn: async (): Promise<EmailEvent[]> => {
+      const { data, error } = await supabase
+        .from('email_events')
+        .select('*')
+        .eq('job_id', jobId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!jobId,
+  });
+};
+
+export const useResendEmail = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ emailEventId }: { emailEventId: string; jobId: string }) => {
+      const { data, error } = await supabase.functions.invoke('resend-email', {
+        body: { emailEventId },
+      });
+
+      if (error) {
+        // Non-2xx responses carry the function's own explanation in the body
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error || 'Failed to resend email');
+      }
+
+      return data as { emailEventId: string | null; messageId: string | null };
+    },
+    onSuccess: () => {
+      toast.success('Email sent again');
+    },
+    onError: (error) => {
+      console.error('Failed to resend email:', error);
+      toast.error(error.message || 'Failed to resend email');
+    },
+    onSettled: (_data, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.emailEvents(jobId) });
+    },
+  });
+};
@@ -0,0 +1,132 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { useOrganization } from '@/hooks/useOrganization';
+import {
+  creditNoteSection,
+  defaultEmailTemplate,
+  detailsSection,
+  formatRugCount,
+  messageSection,
+  validateTemplate,
+  type EmailSection,
+  type EmailTemplateContent,
+  type EmailTemplateType,
+  type EmailVariables,
+  type ReportRugSummary,
+} from '@shared/emailTemplates';
+
+// The business's saved template, falling back to the default the same way the edge
+// functions do
+export const useEmailTemplate = (type: EmailTemplateType) => {
+  const { businessUserId } = useOrganization();
+
+  return useQuery({
+    queryKey: queryKeys.user.emailTemplate(businessUserId || '', type),
+    queryFn: async (): Promise<EmailTemplateContent> => {
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('subject, body')
+        .eq('user_id', businessUserId!)
+        .eq('template_type', type)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data || validateTemplate(type, data).length > 0) return defaultEmailTemplate(type);
+      return data;
+    },
+    enabled: !!businessUserId,
+  });
+};
+
+export interface EmailPreviewJob {
+  variables: EmailVariables;
+  clientEmail: string;
+  rugs: ReportRugSummary[];
+  // The job's agreed total in dollars
+  total: number;
+}
+
+// What the edge functions add under the body of each email, filled from the preview
+// job so settings previews show the whole email. The report's rug table depends on
+// whether a PDF is attached, so EmailPreviewDialog builds that one itself.
+export const emailPreviewSections = (type: EmailTemplateType, job: EmailPreviewJob): EmailSection[] => {
+  switch (type) {
+    case 'credit_note':
+      return [creditNoteSection(
+        [{ description: `Refund of payment for Job #${job.variables.job_number}`, amount: job.total }],
+        job.total,
+      )];
+    case 'new_message':
+      return [messageSection('Hi, could you let me know when my rugs will be ready for pickup?')];
+    case 'payout_created':
+      return [detailsSection([['Status', 'Pending'], ['Payment Method', 'Bank transfer']])];
+    case 'payout_completed':
+      return [detailsSection([['Status', 'Completed'], ['Payment Method', 'Bank transfer']])];
+    default:
+      return [];
+  }
+};
+
+// The most recent job's real details, so template previews in settings read like a
+// real email rather than placeholder text
+export const useEmailPreviewJob = (enabled: boolean) => {
+  const { businessUserId } = useOrganization();
+
+  return useQuery({
+    queryKey: queryKeys.user.emailPreviewJob(businessUserId || ''),
+    queryFn: async (): Promise<EmailPreviewJob | null> => {
+      const [{ data: job, error: jobError }, { data: profile }] = await Promise.all([
+        supabase
+          .from('jobs')
+          .select('id, job_number, client_name, client_email, agreed_total')
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        supabase
+          .from('profiles')
+          .select('business_name, business_phone, business_email')
+          .eq('user_id', businessUserId!)
+          .maybeSingle(),
+      ]);
+
+      if (jobError) throw jobError;
+      if (!job) return null;
+
+      const { data: rugs } = await supabase
+        .from('inspections')
+        .select('rug_number, rug_type, length, width')
+        .eq('job_id', job.id)
+        .order('rug_number');
+
+      const rugSummaries = (rugs || []).map(rug => ({
+        rugNumber: rug.rug_number,
+        rugType: rug.rug_type,
+        dimensions: rug.length && rug.width ? `${rug.length}' × ${rug.width}'` : '—',
+      }));
+
+      return {
+        clientEmail: job.client_email || '',
+        rugs: rugSummaries,
+        total: Number(job.agreed_total || 0),
+        variables: {
+          client_name: job.client_name,
+          business_name: profile?.business_name || 'Your Business',
+          business_phone: profile?.business_phone || '',
+          business_email: profile?.business_email || '',
+          job_number: job.job_number,
+          portal_link: `${window.location.origin}/client/preview`,
+          amount: `$${Number(job.agreed_total || 0).toFixed(2)}`,
+          rug_count: formatRugCount(rugSummaries.length),
+          credit_note_number: 'CN-00001',
+          inviter_name: profile?.business_name || 'Your Business',
+          team_role: 'Inspector',
+          invite_email: 'teammate@example.com',
+          join_link: `${window.location.origin}/team/join/preview`,
+          message_link: `${window.location.origin}/jobs/${job.id}`,
+        },
+      };
+    },
+    enabled: enabled && !!businessUserId,
+  });
+};
@@ -0,0 +1,98 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { useOrganization } from '@/hooks/useOrganization';
+import { toast } from 'sonner';
+import {
+  DEFAULT_REMINDER_CADENCES,
+  REMINDER_KIND_ORDER,
+  type ReminderCadence,
+  type ReminderKind,
+} from '@shared/followUps';
+
+// Every kind of reminder, using the defaults for any the business hasn't saved
+export const useReminderCadences = () => {
+  const { organization } = useOrganization();
+  const orgId = organization?.id;
+
+  return useQuery({
+    queryKey: queryKeys.organization.reminderCadences(orgId || ''),
+    queryFn: async (): Promise<ReminderCadence[]> => {
+      const { data, error } = await supabase
+        .from('reminder_cadences')
+        .select('kind, is_active, first_after_days, repeat_every_days, max_reminders')
+        .eq('organization_id', orgId!);
+
+      if (error) throw error;
+
+      return REMINDER_KIND_ORDER.map((kind) => {
+        const row = data?.find(r => r.kind === kind);
+        return row
+          ? {
+              kind: row.kind as ReminderKind,
+              isActive: row.is_active,
+              firstAfterDays: row.first_after_days,
+              repeatEveryDays: row.repeat_every_days,
+              maxReminders: row.max_reminders,
+            }
+          : DEFAULT_REMINDER_CADENCES[kind];
+      });
+    },
+    enabled: !!orgId,
+  });
+};
+
+export const useSaveReminderCadences = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ organizationId, cadences }: { organizationId: string; cadences: ReminderCadence[] }) => {
+      const { error } = await supabase.from('reminder_cadences').upsert(
+        cadences.map(c => ({
+          organization_id: organizationId,
+          kind: c.kind,
+          is_active: c.isActive,
+          first_after_days: c.firstAfterDays,
+          repeat_every_days: c.repeatEveryDays,
+          max_reminders: c.maxReminders,
+        })),
+        { onConflict: 'organization_id,kind' }
+      );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Reminder settings saved');
+    },
+    onError: (error) => {
+      console.error('Failed to save reminder settings:', error);
+      toast.error('Failed to save reminder settings');
+    },
+    onSettled: (_data, _error, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization.reminderCadences(organizationId) });
+    },
+  });
+};
+
+// Staff have followed up; the next automatic reminder sets a new date
+export const useCompleteFollowUp = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (jobId: string) => {
+      const { error } = await supabase
+        .from('jobs')
+        .update({ next_follow_up_at: null, follow_up_notes: null })
+        .eq('id', jobId);
+
+      if (error) throw error;
+    },
+    onError: (error) => {
+      console.error('Failed to complete follow-up:', error);
+      toast.error('Failed to mark follow-up done');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.list() });
+    },
+  });
+};
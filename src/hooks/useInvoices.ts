@@ -0,0 +1,100 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { toast } from 'sonner';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Invoice = Tables<'invoices'>;
+
+export const INVOICE_KIND_LABELS: Record<string, string> = {
+  full: 'Payment in full',
+  deposit: 'Deposit',
+  balance: 'Balance',
+};
+
+export const INVOICE_STATUS_LABELS: Record<string, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  paid: 'Paid',
+  partially_refunded: 'Partially refunded',
+  refunded: 'Refunded',
+  void: 'Void',
+};
+
+// Paid, including invoices whose payments were later refunded
+export const isSettledInvoice = (invoice: Pick<Invoice, 'status'>) =>
+  ['paid', 'partially_refunded', 'refunded'].includes(invoice.status);
+
+export const invoiceBalance = (invoice: Pick<Invoice, 'amount_due' | 'amount_paid'>) =>
+  Math.max(0, Math.round((Number(invoice.amount_due) - Number(invoice.amount_paid)) * 100) / 100);
+
+export const useJobInvoices = (jobId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.payments.invoices(jobId || ''),
+    queryFn: async (): Promise<Invoice[]> => {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('job_id', jobId!)
+        .neq('status', 'void')
+        .order('issued_at');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!jobId,
+  });
+};
+
+// Bills the remaining balance now rather than waiting for the job to reach its billing step
+export const useIssueBalanceInvoice = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (jobId: string) => {
+      const { data, error } = await supabase.rpc('issue_balance_invoice', { _job_id: jobId });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (invoiceId) => {
+      if (invoiceId) {
+        toast.success('Balance invoice issued - the client can pay it from their portal');
+      } else {
+        toast.info('Nothing left to bill on this job');
+      }
+    },
+    onError: (error) => {
+      console.error('Failed to issue balance invoice:', error);
+      toast.error('Failed to issue balance invoice');
+    },
+    onSettled: (_data, _error, jobId) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.payments.invoices(jobId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.detail(jobId) });
+    },
+  });
+};
+
+// Renders a stored invoice server-side and saves it as a PDF
+export const useDownloadInvoice = () => {
+  return useMutation({
+    mutationFn: async (invoiceId: string) => {
+      const { data, error } = await supabase.functions.invoke('generate-invoice-pdf', {
+        body: { invoiceId },
+      });
+
+      if (error) throw error;
+      if (!data?.pdfBase64) throw new Error('No PDF data received');
+
+      const link = document.createElement('a');
+      link.href = `data:application/pdf;base64,${data.pdfBase64}`;
+      link.download = `Invoice-${data.invoiceNumber}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    },
+    onError: (error) => {
+      console.error('Error downloading invoice:', error);
+      toast.error('Failed to download invoice');
+    },
+  });
+};
@@ -0,0 +1,210 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { useOrganization } from '@/hooks/useOrganization';
+import { toast } from 'sonner';
+import type { ChecklistTemplate, JobChecklistItem } from '@/lib/checklist';
+
+// Name recorded next to ticks and assignments so teammates can see who did what
+export const getStaffDisplayName = (user: User | null): string =>
+  user?.user_metadata?.full_name || user?.email || 'Staff';
+
+export const useChecklistTemplates = () => {
+  const { businessUserId } = useOrganization();
+
+  return useQuery({
+    queryKey: queryKeys.user.checklistTemplates(businessUserId || ''),
+    queryFn: async (): Promise<ChecklistTemplate[]> => {
+      const { data, error } = await supabase
+        .from('checklist_templates')
+        .select('*')
+        .eq('user_id', businessUserId!)
+        .order('is_default', { ascending: false })
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!businessUserId,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useJobChecklist = (jobId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    const channel = supabase
+      .channel(`job-checklist-${jobId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'job_checklist_items',
+          filter: `job_id=eq.${jobId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: queryKeys.jobs.checklist(jobId) });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [jobId, queryClient]);
+
+  return useQuery({
+    queryKey: queryKeys.jobs.checklist(jobId || ''),
+    queryFn: async (): Promise<JobChecklistItem[]> => {
+      const { data, error } = await supabase
+        .from('job_checklist_items')
+        .select('*')
+        .eq('job_id', jobId!)
+        .order('sort_order');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!jobId,
+  });
+};
+
+interface ApplyChecklistSteps {
+  jobId: string;
+  steps: string[];
+  // Steps already ticked, e.g. when importing an old browser-stored checklist
+  completedSteps?: string[];
+}
+
+// Adds any steps the job doesn't have yet; existing items (and their ticks) are left alone
+export const useApplyChecklistSteps = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ jobId, steps, completedSteps = [] }: ApplyChecklistSteps) => {
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('job_checklist_items')
+        .upsert(
+          steps.map((label, index) => {
+            const completed = completedSteps.includes(label);
+            return {
+              job_id: jobId,
+              label,
+              sort_order: index,
+              completed_at: completed ? now : null,
+              completed_by: completed ? user?.id ?? null : null,
+              completed_by_name: completed ? getStaffDisplayName(user) : null,
+            };
+          }),
+          { onConflict: 'job_id,label', ignoreDuplicates: true }
+        );
+
+      if (error) throw error;
+    },
+    onError: (error) => {
+      console.error('Failed to apply checklist:', error);
+      toast.error('Failed to apply checklist');
+    },
+    onSettled: (_data, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.checklist(jobId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.list() });
+    },
+  });
+};
+
+export const useToggleChecklistItem = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ item, completed }: { item: JobChecklistItem; completed: boolean }) => {
+      const { error } = await supabase
+        .from('job_checklist_items')
+        .update({
+          completed_at: completed ? new Date().toISOString() : null,
+          completed_by: completed ? user?.id ?? null : null,
+          completed_by_name: completed ? getStaffDisplayName(user) : null,
+        })
+        .eq('id', item.id);
+
+      if (error) throw error;
+    },
+    onMutate: async ({ item, completed }) => {
+      const key = queryKeys.jobs.checklist(item.job_id);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<JobChecklistItem[]>(key);
+
+      queryClient.setQueryData<JobChecklistItem[]>(key, (old) =>
+        old?.map(i =>
+          i.id === item.id
+            ? {
+                ...i,
+                completed_at: completed ? new Date().toISOString() : null,
+                completed_by: completed ? user?.id ?? null : null,
+                completed_by_name: completed ? getStaffDisplayName(user) : null,
+              }
+            : i
+        )
+      );
+
+      return { previous };
+    },
+    onError: (error, { item }, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.jobs.checklist(item.job_id), context.previous);
+      }
+      console.error('Failed to update checklist:', error);
+      toast.error('Failed to update checklist');
+    },
+    onSettled: (_data, _error, { item }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.checklist(item.job_id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.list() });
+    },
+  });
+};
+
+interface AssignJob {
+  jobId: string;
+  assignedTo: string | null;
+  assignedToName: string | null;
+}
+
+export const useAssignJob = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ jobId, assignedTo, assignedToName }: AssignJob) => {
+      const name = assignedToName?.trim() || null;
+      const { error } = await supabase
+        .from('jobs')
+        .update({
+          assigned_to: name ? assignedTo : null,
+          assigned_to_name: name,
+          assigned_at: name ? new Date().toISOString() : null,
+        })
+        .eq('id', jobId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { assignedToName }) => {
+      toast.success(assignedToName?.trim() ? `Assigned to ${assignedToName.trim()}` : 'Job unassigned');
+    },
+    onError: (error) => {
+      console.error('Failed to assign job:', error);
+      toast.error('Failed to assign job');
+    },
+    onSettled: (_data, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.detail(jobId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.list() });
+    },
+  });
+};
@@ -1,6 +1,10 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { queryKeys } from '@/lib/queryKeys';
+import { CATALOG_COLUMNS, toCatalogService, type CatalogService } from '@/lib/serviceCatalog';
+import type { DiscountTerms } from '@shared/discounts';
+import { loadOutbox, pendingJobInsert, type OutboxEntry } from '@/lib/offlineSync';
+import type { RugPhotoRow } from '@/lib/rugPhotos';
 
 export interface JobDetail {
   id: string;
@@ -13,6 +17,10 @@ export interface JobDetail {
   created_at: string;
   client_approved_at?: string | null;
   payment_status?: string;
+  assigned_to?: string | null;
+  assigned_to_name?: string | null;
+  assigned_at?: string | null;
+  discount?: DiscountTerms | null;
 }
 
 export interface Rug {
@@ -23,7 +31,9 @@ export interface Rug {
   width: number | null;
   notes: string | null;
   photo_urls: string[] | null;
+  rug_photos?: RugPhotoRow[];
   analysis_report: string | null;
+  structured_report?: unknown;
   image_annotations: unknown;
   created_at: string;
   estimate_approved?: boolean;
@@ -34,12 +44,15 @@ export interface ApprovedEstimate {
   inspection_id: string;
   services: any[];
   total_amount: number;
+  discount?: DiscountTerms | null;
 }
 
 export interface Payment {
   id: string;
   status: string;
   amount: number;
+  amount_refunded?: number;
+  invoice_id?: string | null;
   currency: string;
   created_at: string;
   paid_at: string | null;
@@ -59,15 +72,9 @@ export interface ClientPortalStatus {
   serviceSelectionsAt: string | null;
 }
 
-export interface ServicePrice {
-  name: string;
-  unitPrice: number;
-}
+export type ServicePrice = CatalogService;
 
-export interface UpsellService {
-  name: string;
-  unitPrice: number;
-}
+export type UpsellService = CatalogService;
 
 export interface BusinessBranding {
   business_name: string | null;
@@ -77,6 +84,26 @@ export interface BusinessBranding {
   logo_path: string | null;
 }
 
+// A job created offline that hasn't reached the server yet. Its rugs show in the
+// outbox list until they sync, so it has none of its own.
+const offlineJobDetail = (entry: OutboxEntry) => ({
+  job: {
+    ...entry.values,
+    id: entry.rowId,
+    status: 'active',
+    created_at: new Date(entry.createdAt).toISOString(),
+  } as unknown as JobDetail,
+  rugs: [] as Rug[],
+  branding: null as BusinessBranding | null,
+  servicePrices: [] as ServicePrice[],
+  upsellServices: [] as UpsellService[],
+  approvedEstimates: [] as ApprovedEstimate[],
+  payments: [] as Payment[],
+  clientPortalLink: null as string | null,
+  clientPortalStatus: null as ClientPortalStatus | null,
+  serviceCompletions: [] as { service_id: string; completed_at: string }[],
+});
+
 // Fetch all job detail data in parallel
 export const useJobDetail = (jobId: string | undefined, userId: string | undefined) => {
   return useQuery({
@@ -84,6 +111,9 @@ export const useJobDetail = (jobId: string | undefined, userId: string | undefin
     queryFn: async () => {
       if (!jobId || !userId) throw new Error('Missing jobId or userId');
 
+      const pendingJob = pendingJobInsert(jobId);
+      if (pendingJob) return offlineJobDetail(pendingJob);
+
       // Parallel fetch all data
       const [
         jobResult,
@@ -104,7 +134,7 @@ export const useJobDetail = (jobId: string | undefined, userId: string | undefin
         // Rugs
         supabase
           .from('inspections')
-          .select('*')
+          .select('*, rug_photos(*)')
           .eq('job_id', jobId)
           .order('created_at', { ascending: true }),
         
@@ -115,16 +145,18 @@ export const useJobDetail = (jobId: string | undefined, userId: string | undefin
           .eq('user_id', userId)
           .maybeSingle(),
         
-        // Service prices
+        // Service catalog (active services only)
         supabase
           .from('service_prices')
-          .select('service_name, unit_price, is_additional')
-          .eq('user_id', userId),
+          .select(CATALOG_COLUMNS)
+          .eq('user_id', userId)
+          .is('archived_at', null)
+          .order('sort_order'),
         
         // Approved estimates
         supabase
           .from('approved_estimates')
-          .select('id, inspection_id, services, total_amount')
+          .select('id, inspection_id, services, total_amount, discount')
           .eq('job_id', jobId),
         
         // Payments
@@ -151,22 +183,25 @@ export const useJobDetail = (jobId: string | undefined, userId: string | undefin
       ]);
 
       // Check for errors
+      if (jobResult.error || !jobResult.data) {
+        // The outbox may not have been read from the device yet after a reload
+        await loadOutbox();
+        const savedOffline = pendingJobInsert(jobId);
+        if (savedOffline) return offlineJobDetail(savedOffline);
+      }
       if (jobResult.error) throw jobResult.error;
       if (!jobResult.data) throw new Error('Job not found');
 
-      // Process service prices
-      const servicePrices: ServicePrice[] = (pricesResult.data || [])
-        .filter(p => !p.is_additional)
-        .map(p => ({ name: p.service_name, unitPrice: p.unit_price }));
-
-      const upsellServices: UpsellService[] = (pricesResult.data || [])
-        .filter(p => p.is_additional)
-        .map(p => ({ name: p.service_name, unitPrice: p.unit_price }));
+      // Process service catalog
+      const catalog = (pricesResult.data || []).map(toCatalogService);
+      const servicePrices: ServicePrice[] = catalog.filter(s => !s.isAdditional);
+      const upsellServices: UpsellService[] = catalog.filter(s => s.isAdditional);
 
       // Process approved estimates
       const approvedEstimates: ApprovedEstimate[] = (estimatesResult.data || []).map(ae => ({
         ...ae,
-        services: Array.isArray(ae.services) ? ae.services : []
+        services: Array.isArray(ae.services) ? ae.services : [],
+        discount: ae.discount as unknown as DiscountTerms | null,
       }));
 
       // Process client portal status
@@ -207,7 +242,7 @@ export const useJobDetail = (jobId: string | undefined, userId: string | undefin
       }
 
       return {
-        job: jobResult.data as JobDetail,
+        job: jobResult.data as unknown as JobDetail,
         rugs: (rugsResult.data || []) as Rug[],
         branding: brandingResult.data as BusinessBranding | null,
         servicePrices,
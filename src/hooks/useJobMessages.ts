@@ -0,0 +1,166 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type JobMessage = Tables<'job_messages'>;
+export type MessageSenderRole = JobMessage['sender_role'];
+
+export const useJobMessages = (jobId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  // New messages from either side land in the thread without a refresh
+  useEffect(() => {
+    if (!jobId) return;
+
+    const channel = supabase
+      .channel(`job-messages-${jobId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'job_messages',
+          filter: `job_id=eq.${jobId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: queryKeys.messages.byJob(jobId) });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [jobId, queryClient]);
+
+  return useQuery({
+    queryKey: queryKeys.messages.byJob(jobId || ''),
+    queryFn: async (): Promise<JobMessage[]> => {
+      const { data, error } = await supabase
+        .from('job_messages')
+        .select('*')
+        .eq('job_id', jobId!)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!jobId,
+  });
+};
+
+// Messages from the other side of any thread the user can see (RLS scopes this to
+// the staff member's jobs or the client's portal jobs)
+export const useUnreadMessageCount = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`unread-messages-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'job_messages',
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: queryKeys.messages.unread(user.id) });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+
+  return useQuery({
+    queryKey: queryKeys.messages.unread(user?.id || ''),
+    queryFn: async (): Promise<number> => {
+      const { count, error } = await supabase
+        .from('job_messages')
+        .select('id', { count: 'exact', head: true })
+        .is('read_at', null)
+        .neq('sender_id', user!.id);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+    enabled: !!user,
+  });
+};
+
+interface SendJobMessage {
+  jobId: string;
+  body: string;
+}
+
+export const useSendJobMessage = (senderRole: MessageSenderRole) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ jobId, body }: SendJobMessage) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('job_messages')
+        .insert({
+          job_id: jobId,
+          sender_id: user.id,
+          sender_role: senderRole,
+          body: body.trim(),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (senderRole === 'client') {
+        // Email fallback for staff - the message is already saved, so don't fail the send
+        const baseUrl = import.meta.env.VITE_APP_URL || window.location.origin;
+        const { error: notifyError } = await supabase.functions.invoke('notify-new-message', {
+          body: { messageId: data.id, jobUrl: `${baseUrl}/jobs/${jobId}` },
+        });
+        if (notifyError) {
+          console.error('Failed to send message email:', notifyError);
+        }
+      }
+
+      return data;
+    },
+    onError: (error) => {
+      console.error('Failed to send message:', error);
+      toast.error('Failed to send message. Please try again.');
+    },
+    onSettled: (_data, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.messages.byJob(jobId) });
+    },
+  });
+};
+
+export const useMarkJobMessagesRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (jobId: string) => {
+      const { error } = await supabase.rpc('mark_job_messages_read', { _job_id: jobId });
+      if (error) throw error;
+    },
+    onSuccess: (_data, jobId) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.messages.byJob(jobId) });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.messages.all, 'unread'] });
+    },
+    onError: (error) => {
+      console.error('Failed to mark messages as read:', error);
+    },
+  });
+};
@@ -0,0 +1,156 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { useOrganization } from '@/hooks/useOrganization';
+import { toast } from 'sonner';
+import type { JobStatusDefinition, JobStatusHistoryEntry } from '@/lib/jobStatus';
+
+// The business's status pipeline, in order
+export const useJobStatuses = () => {
+  const { organization } = useOrganization();
+  const orgId = organization?.id;
+
+  return useQuery({
+    queryKey: queryKeys.organization.jobStatuses(orgId || ''),
+    queryFn: async (): Promise<JobStatusDefinition[]> => {
+      const { data, error } = await supabase
+        .from('job_statuses')
+        .select('*')
+        .eq('organization_id', orgId!)
+        .order('sort_order');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!orgId,
+    staleTime: 10 * 60 * 1000,
+  });
+};
+
+export const useJobStatusHistory = (jobId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    const channel = supabase
+      .channel(`job-status-history-${jobId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'job_status_history',
+          filter: `job_id=eq.${jobId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: queryKeys.jobs.statusHistory(jobId) });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [jobId, queryClient]);
+
+  return useQuery({
+    queryKey: queryKeys.jobs.statusHistory(jobId || ''),
+    queryFn: async (): Promise<JobStatusHistoryEntry[]> => {
+      const { data, error } = await supabase
+        .from('job_status_history')
+        .select('*')
+        .eq('job_id', jobId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!jobId,
+  });
+};
+
+export type JobStatusDraft = Omit<JobStatusDefinition, 'id' | 'organization_id' | 'created_at' | 'updated_at'> & {
+  id?: string;
+};
+
+interface SaveJobStatuses {
+  organizationId: string;
+  statuses: JobStatusDraft[];
+  removedIds: string[];
+}
+
+export const useSaveJobStatuses = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ organizationId, statuses, removedIds }: SaveJobStatuses) => {
+      if (removedIds.length > 0) {
+        const { data: removed, error: removedError } = await supabase
+          .from('job_statuses')
+          .select('key, label')
+          .in('id', removedIds);
+
+        if (removedError) throw removedError;
+
+        // A status still holding jobs can't go - the jobs would fall out of the pipeline
+        const { count, error: countError } = await supabase
+          .from('jobs')
+          .select('id', { count: 'exact', head: true })
+          .eq('organization_id', organizationId)
+          .in('status', (removed || []).map(s => s.key));
+
+        if (countError) throw countError;
+        if ((count ?? 0) > 0) {
+          throw new Error(
+            `Move ${count} job${count === 1 ? '' : 's'} off ${(removed || []).map(s => s.label).join(', ')} before removing it`
+          );
+        }
+      }
+
+      // Deleted first so a re-added status can reuse its key
+      if (removedIds.length > 0) {
+        const { error } = await supabase.from('job_statuses').delete().in('id', removedIds);
+        if (error) throw error;
+      }
+
+      // Only one initial, one payment and one billing status may exist at a time, so
+      // clear the flags before writing the new set
+      const { error: clearError } = await supabase
+        .from('job_statuses')
+        .update({ is_initial: false, advance_on_payment: false, issues_balance_invoice: false })
+        .eq('organization_id', organizationId);
+
+      if (clearError) throw clearError;
+
+      const rows = statuses.map((status, index) => ({
+        ...status,
+        organization_id: organizationId,
+        sort_order: index,
+      }));
+
+      const existing = rows.filter(r => r.id);
+      const created = rows.filter(r => !r.id).map(({ id: _id, ...row }) => row);
+
+      if (existing.length > 0) {
+        const { error } = await supabase.from('job_statuses').upsert(existing);
+        if (error) throw error;
+      }
+      if (created.length > 0) {
+        const { error } = await supabase.from('job_statuses').insert(created);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success('Status pipeline saved');
+    },
+    onError: (error) => {
+      console.error('Failed to save status pipeline:', error);
+      toast.error(error.message || 'Failed to save status pipeline');
+    },
+    onSettled: (_data, _error, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization.jobStatuses(organizationId) });
+    },
+  });
+};
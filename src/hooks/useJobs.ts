@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { queryKeys } from '@/lib/queryKeys';
 import { toast } from 'sonner';
+import { getChecklistProgress, type ChecklistProgress } from '@/lib/checklist';
 
 export interface Job {
   id: string;
@@ -13,7 +14,12 @@ export interface Job {
   status: string;
   created_at: string;
   payment_status: string | null;
+  assigned_to: string | null;
+  assigned_to_name: string | null;
+  next_follow_up_at: string | null;
+  follow_up_notes: string | null;
   rug_count: number;
+  checklist: ChecklistProgress;
 }
 
 interface JobsResponse {
@@ -26,7 +32,12 @@ interface JobsResponse {
   status: string;
   created_at: string;
   payment_status: string | null;
+  assigned_to: string | null;
+  assigned_to_name: string | null;
+  next_follow_up_at: string | null;
+  follow_up_notes: string | null;
   inspections: { count: number }[];
+  job_checklist_items: { label: string; sort_order: number; completed_at: string | null }[];
 }
 
 export const useJobs = () => {
@@ -46,7 +57,12 @@ export const useJobs = () => {
           status,
           created_at,
           payment_status,
-          inspections:inspections(count)
+          assigned_to,
+          assigned_to_name,
+          next_follow_up_at,
+          follow_up_notes,
+          inspections:inspections(count),
+          job_checklist_items(label, sort_order, completed_at)
         `)
         .order('created_at', { ascending: false });
 
@@ -56,7 +72,9 @@ export const useJobs = () => {
       return (data as unknown as JobsResponse[] || []).map(job => ({
         ...job,
         rug_count: job.inspections?.[0]?.count || 0,
+        checklist: getChecklistProgress(job.job_checklist_items || [], job.created_at),
         inspections: undefined, // Remove the nested object
+        job_checklist_items: undefined,
       })) as Job[];
     },
     staleTime: 30000, // 30 seconds
@@ -109,7 +127,8 @@ export const useUpdateJobStatus = () => {
       if (context?.previousJobDetail && context?.jobId) {
         queryClient.setQueryData(queryKeys.jobs.detail(context.jobId), context.previousJobDetail);
       }
-      toast.error('Failed to update status');
+      // The database rejects moves the status pipeline doesn't allow; say which
+      toast.error(err.message || 'Failed to update status');
     },
     onSuccess: () => {
       toast.success('Status updated');
@@ -118,6 +137,7 @@ export const useUpdateJobStatus = () => {
       // Refetch to ensure server state
       queryClient.invalidateQueries({ queryKey: queryKeys.jobs.list() });
       queryClient.invalidateQueries({ queryKey: queryKeys.jobs.detail(variables.jobId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.statusHistory(variables.jobId) });
     },
   });
 };
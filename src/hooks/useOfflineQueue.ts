@@ -0,0 +1,68 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  getOutboxSnapshot,
+  onEntrySynced,
+  startOutbox,
+  stopOutbox,
+  subscribeOutbox,
+  syncOutbox,
+  type OutboxEntry,
+} from '@/lib/offlineSync';
+
+const SYNC_INTERVAL_MS = 30000;
+
+// Outbox entries, optionally only those for one job
+export const useOfflineQueue = (jobId?: string): OutboxEntry[] => {
+  const entries = useSyncExternalStore(subscribeOutbox, getOutboxSnapshot);
+  return useMemo(
+    () => (jobId ? entries.filter(entry => entry.jobId === jobId) : entries),
+    [entries, jobId]
+  );
+};
+
+// Keeps the signed-in user's outbox draining: on start, when the connection returns
+// and every 30 seconds for entries waiting out a retry delay. Entries left at
+// sign-out stay on the device until the same user signs in again.
+export const useOfflineSync = (userId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    startOutbox(userId).catch(error => console.error('Failed to start offline sync:', error));
+
+    const sync = () => { syncOutbox(); };
+    window.addEventListener('online', sync);
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+
+    const unsubscribe = onEntrySynced(({ entry, conflicts, rowDeleted }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.detail(entry.jobId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.list() });
+
+      if (rowDeleted) {
+        toast.warning(`${entry.label} was deleted on another device, so your offline changes were dropped`);
+      } else if (conflicts.length > 0) {
+        toast.warning(
+          `${entry.label} was also edited on another device. Kept their ${conflicts.join(', ').replace(/_/g, ' ')}.`
+        );
+      }
+    });
+
+    return () => {
+      window.removeEventListener('online', sync);
+      clearInterval(interval);
+      unsubscribe();
+
+      const unsynced = stopOutbox();
+      if (unsynced > 0) {
+        toast.warning(
+          `${unsynced} offline change${unsynced === 1 ? '' : 's'} not synced yet. ` +
+          'They will sync when you sign in on this device again.'
+        );
+      }
+    };
+  }, [userId, queryClient]);
+};
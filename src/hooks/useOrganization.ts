@@ -0,0 +1,247 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import {
+  getOrgPermissions,
+  ORG_ROLE_LABELS,
+  type Organization,
+  type OrganizationInvitation,
+  type OrganizationMember,
+  type OrgRole,
+} from '@/lib/organization';
+
+interface CurrentOrganization {
+  organization: Organization;
+  role: OrgRole;
+  // The business account that owns jobs, prices, templates and branding
+  ownerId: string;
+}
+
+// Loads (and on first use creates) the organization the signed-in staff member works for
+export const useOrganization = () => {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: queryKeys.organization.current(user?.id || ''),
+    queryFn: async (): Promise<CurrentOrganization> => {
+      const { data: memberships, error: ensureError } = await supabase.rpc('ensure_organization');
+      if (ensureError) throw ensureError;
+
+      const membership = memberships?.[0];
+      if (!membership) throw new Error('No organization for this account');
+
+      const [{ data: organization, error: orgError }, { data: owner, error: ownerError }] = await Promise.all([
+        supabase.from('organizations').select('*').eq('id', membership.organization_id).single(),
+        supabase.rpc('org_owner_id', { _org_id: membership.organization_id }),
+      ]);
+
+      if (orgError) throw orgError;
+      if (ownerError) throw ownerError;
+
+      return { organization, role: membership.role, ownerId: owner || user!.id };
+    },
+    enabled: !!user,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const role = query.data?.role ?? null;
+
+  return {
+    ...query,
+    organization: query.data?.organization ?? null,
+    role,
+    // Until the organization loads, the signed-in user is treated as their own business
+    businessUserId: query.data?.ownerId ?? user?.id ?? null,
+    permissions: getOrgPermissions(role),
+  };
+};
+
+export const useOrganizationMembers = (orgId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.organization.members(orgId || ''),
+    queryFn: async (): Promise<OrganizationMember[]> => {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('*')
+        .eq('organization_id', orgId!)
+        .order('created_at');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!orgId,
+  });
+};
+
+export const useOrganizationInvitations = (orgId: string | undefined, enabled = true) => {
+  return useQuery({
+    queryKey: queryKeys.organization.invitations(orgId || ''),
+    queryFn: async (): Promise<OrganizationInvitation[]> => {
+      const { data, error } = await supabase
+        .from('organization_invitations')
+        .select('*')
+        .eq('organization_id', orgId!)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!orgId && enabled,
+  });
+};
+
+interface InviteTeamMember {
+  organizationId: string;
+  email: string;
+  role: OrgRole;
+}
+
+export const useInviteTeamMember = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ organizationId, email, role }: InviteTeamMember) => {
+      const { data: invitation, error } = await supabase
+        .from('organization_invitations')
+        .insert({
+          organization_id: organizationId,
+          email: email.trim().toLowerCase(),
+          role,
+          invited_by: user!.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const { error: emailError } = await supabase.functions.invoke('invite-team-member', {
+        body: { invitationId: invitation.id },
+      });
+
+      // The invitation stands even if the email fails - the link can be resent
+      if (emailError) {
+        console.error('Failed to send team invitation email:', emailError);
+        toast.warning('Invitation created, but the email could not be sent');
+      }
+
+      return invitation;
+    },
+    onSuccess: (_invitation, { email, role }) => {
+      toast.success(`Invited ${email.trim()} as ${ORG_ROLE_LABELS[role].toLowerCase()}`);
+    },
+    onError: (error) => {
+      console.error('Failed to invite team member:', error);
+      toast.error('Failed to send invitation');
+    },
+    onSettled: (_data, _error, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization.invitations(organizationId) });
+    },
+  });
+};
+
+export const useRevokeInvitation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invitation: OrganizationInvitation) => {
+      const { error } = await supabase
+        .from('organization_invitations')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', invitation.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Invitation revoked');
+    },
+    onError: (error) => {
+      console.error('Failed to revoke invitation:', error);
+      toast.error('Failed to revoke invitation');
+    },
+    onSettled: (_data, _error, invitation) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization.invitations(invitation.organization_id) });
+    },
+  });
+};
+
+export const useUpdateMemberRole = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ member, role }: { member: OrganizationMember; role: OrgRole }) => {
+      const { error } = await supabase
+        .from('organization_members')
+        .update({ role })
+        .eq('id', member.id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { member, role }) => {
+      toast.success(`${member.full_name || member.email || 'Member'} is now ${ORG_ROLE_LABELS[role].toLowerCase()}`);
+    },
+    onError: (error) => {
+      console.error('Failed to update member role:', error);
+      toast.error('Failed to update role');
+    },
+    onSettled: (_data, _error, { member }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization.members(member.organization_id) });
+    },
+  });
+};
+
+// Removing a member takes away their access immediately. Their jobs stay with the business.
+export const useRemoveMember = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (member: OrganizationMember) => {
+      const { error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, member) => {
+      toast.success(`${member.full_name || member.email || 'Member'} removed from the team`);
+    },
+    onError: (error) => {
+      console.error('Failed to remove member:', error);
+      toast.error('Failed to remove member');
+    },
+    onSettled: (_data, _error, member) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization.members(member.organization_id) });
+    },
+  });
+};
+
+// Share of the job total clients pay up front; 0 turns deposits off
+export const useUpdateDepositPercentage = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orgId, depositPercentage }: { orgId: string; depositPercentage: number }) => {
+      const { error } = await supabase
+        .from('organizations')
+        .update({ deposit_percentage: depositPercentage })
+        .eq('id', orgId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Deposit settings saved');
+    },
+    onError: (error) => {
+      console.error('Failed to update deposit percentage:', error);
+      toast.error('Failed to save deposit settings');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization.all });
+    },
+  });
+};
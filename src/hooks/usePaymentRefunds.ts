@@ -0,0 +1,73 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { toast } from 'sonner';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type PaymentRefund = Tables<'payment_refunds'>;
+
+// An estimate line as stored on a refund (amount is what was actually refunded)
+export interface RefundLineItem {
+  rugNumber: string;
+  serviceId: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export const usePaymentRefunds = (jobId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.payments.refunds(jobId || ''),
+    queryFn: async (): Promise<PaymentRefund[]> => {
+      const { data, error } = await supabase
+        .from('payment_refunds')
+        .select('*')
+        .eq('job_id', jobId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!jobId,
+  });
+};
+
+interface RefundPayment {
+  paymentId: string;
+  jobId: string;
+  // Omit to refund whatever hasn't been refunded yet
+  lineItems?: { rugNumber: string; serviceId: string }[];
+  reason?: string;
+}
+
+export const useRefundPayment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ paymentId, lineItems, reason }: RefundPayment) => {
+      const { data, error } = await supabase.functions.invoke('refund-payment', {
+        body: { paymentId, lineItems, reason },
+      });
+
+      if (error) {
+        // Non-2xx responses carry the function's own explanation in the body
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error || 'Failed to refund payment');
+      }
+
+      return data as { refundId: string; amount: number; paymentStatus: string };
+    },
+    onSuccess: (data) => {
+      toast.success(`Refunded $${data.amount.toFixed(2)} - the client has been emailed a credit note`);
+    },
+    onError: (error) => {
+      console.error('Failed to refund payment:', error);
+      toast.error(error.message || 'Failed to refund payment');
+    },
+    onSettled: (_data, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.detail(jobId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.payments.all });
+    },
+  });
+};
@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { photoPathStem, RUG_PHOTO_BUCKET, uploadRugPhoto } from '@/lib/photoStorage';
+import type { ImagePipelineOptions } from '@/lib/imagePipeline';
 
 interface UploadProgress {
   total: number;
@@ -13,6 +14,8 @@ interface UsePhotoUploadOptions {
   batchSize?: number;
   bucket?: string;
   expirySeconds?: number;
+  // Resize and re-encode settings; see DEFAULT_IMAGE_OPTIONS
+  image?: Partial<ImagePipelineOptions>;
 }
 
 interface UsePhotoUploadReturn {
@@ -24,7 +27,7 @@ interface UsePhotoUploadReturn {
 }
 
 const DEFAULT_BATCH_SIZE = 4;
-const DEFAULT_BUCKET = 'rug-photos';
+const DEFAULT_BUCKET = RUG_PHOTO_BUCKET;
 const DEFAULT_EXPIRY = 604800; // 7 days
 
 export const usePhotoUpload = (options: UsePhotoUploadOptions = {}): UsePhotoUploadReturn => {
@@ -32,6 +35,7 @@ export const usePhotoUpload = (options: UsePhotoUploadOptions = {}): UsePhotoUpl
     batchSize = DEFAULT_BATCH_SIZE,
     bucket = DEFAULT_BUCKET,
     expirySeconds = DEFAULT_EXPIRY,
+    image,
   } = options;
 
   const [progress, setProgress] = useState<UploadProgress | null>(null);
@@ -45,23 +49,18 @@ export const usePhotoUpload = (options: UsePhotoUploadOptions = {}): UsePhotoUpl
   }, []);
 
   const uploadSinglePhoto = async (photo: File, userId: string): Promise<string> => {
-    const fileName = `${userId}/${Date.now()}-${Math.random().toString(36).substring(7)}-${photo.name}`;
-
-    const { data, error: uploadError } = await supabase.storage
-      .from(bucket)
-      .upload(fileName, photo, {
-        cacheControl: '3600',
-        upsert: false,
-      });
-
-    if (uploadError) {
+    // Uploading the same photos again after a failure reuses their paths
+    const pathStem = photoPathStem(photo, userId);
+
+    try {
+      // Return the storage path instead of a signed URL
+      // Signed URLs will be generated on-demand when displaying images
+      return (await uploadRugPhoto(photo, pathStem, { bucket, image, upsert: true })).path;
+    } catch (uploadError) {
       console.error('Upload error:', uploadError);
-      throw new Error(`Failed to upload ${photo.name}`);
+      const reason = uploadError instanceof Error ? uploadError.message : 'Unknown error';
+      throw new Error(`Failed to upload ${photo.name}: ${reason}`);
     }
-
-    // Return the storage path instead of a signed URL
-    // Signed URLs will be generated on-demand when displaying images
-    return data.path;
   };
 
   const uploadPhotos = useCallback(
@@ -113,7 +112,7 @@ export const usePhotoUpload = (options: UsePhotoUploadOptions = {}): UsePhotoUpl
         setIsUploading(false);
       }
     },
-    [batchSize, bucket, expirySeconds]
+    [batchSize, bucket, expirySeconds, image]
   );
 
   return {
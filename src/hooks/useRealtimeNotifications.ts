@@ -107,11 +107,29 @@ export const useRealtimeNotifications = () => {
       )
       .subscribe();
 
+    // Subscribe to client schedule requests (RLS limits these to the user's jobs)
+    const scheduleChannel = supabase
+      .channel('schedule-requests-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'schedule_requests',
+        },
+        () => {
+          // The toast comes from the notifications row created alongside the request
+          queryClient.invalidateQueries({ queryKey: queryKeys.scheduleRequests.all });
+        }
+      )
+      .subscribe();
+
     // Cleanup subscriptions
     return () => {
       supabase.removeChannel(jobsChannel);
       supabase.removeChannel(paymentsChannel);
       supabase.removeChannel(notificationsChannel);
+      supabase.removeChannel(scheduleChannel);
     };
   }, [user, queryClient]);
 };
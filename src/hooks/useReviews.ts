@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import type { JobReview } from '@/lib/reviews';
+
+export interface ReviewWithJob extends JobReview {
+  jobs: { job_number: string; client_name: string } | null;
+}
+
+// Reviews across the staff member's jobs (RLS scopes the rows), newest first
+export const useReviews = () => {
+  return useQuery({
+    queryKey: queryKeys.reviews.list(),
+    queryFn: async (): Promise<ReviewWithJob[]> => {
+      const { data, error } = await supabase
+        .from('job_reviews')
+        .select('*, jobs(job_number, client_name)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as ReviewWithJob[];
+    },
+    staleTime: 60000,
+  });
+};
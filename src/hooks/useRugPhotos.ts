@@ -0,0 +1,147 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { thumbnailPath } from '@/lib/imagePipeline';
+import { photoPathStem, RUG_PHOTO_BUCKET, uploadRugPhoto } from '@/lib/photoStorage';
+import { RUG_PHOTO_STEPS } from '@shared/rugPhotos';
+import type { RugPhotoRow } from '@/lib/rugPhotos';
+import { toast } from 'sonner';
+
+// Each change to a rug's intake photos rewrites the inspection's photo_urls (by
+// trigger), and markers find their photo by id, so nothing else needs updating here.
+
+export const useUpdateRugPhotoCaption = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ photoId, caption }: { jobId: string; photoId: string; caption: string }) => {
+      const { error } = await supabase
+        .from('rug_photos')
+        .update({ caption: caption.trim() || null })
+        .eq('id', photoId);
+
+      if (error) throw error;
+    },
+    onError: (error) => {
+      console.error('Failed to save caption:', error);
+      toast.error('Failed to save caption');
+    },
+    onSettled: (_data, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.detail(jobId) });
+    },
+  });
+};
+
+// photoIds is the rug's full photo list in its new order
+export const useReorderRugPhotos = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ photoIds }: { jobId: string; photoIds: string[] }) => {
+      const results = await Promise.all(
+        photoIds.map((id, index) =>
+          supabase.from('rug_photos').update({ sort_order: index }).eq('id', id)
+        )
+      );
+
+      const failed = results.find(result => result.error);
+      if (failed?.error) throw failed.error;
+    },
+    onError: (error) => {
+      console.error('Failed to reorder photos:', error);
+      toast.error('Failed to reorder photos');
+    },
+    onSettled: (_data, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.detail(jobId) });
+    },
+  });
+};
+
+export const useDeleteRugPhoto = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ photoId, path }: { jobId: string; photoId: string; path: string }) => {
+      const { error } = await supabase.from('rug_photos').delete().eq('id', photoId);
+      if (error) throw error;
+
+      // The row is what the app reads, so a file left behind is only wasted space;
+      // storage only lets the uploader remove it
+      const { error: storageError } = await supabase.storage
+        .from(RUG_PHOTO_BUCKET)
+        .remove([path, thumbnailPath(path)]);
+      if (storageError) console.warn('Could not remove photo file:', storageError);
+    },
+    onError: (error) => {
+      console.error('Failed to delete photo:', error);
+      toast.error('Failed to delete photo');
+    },
+    onSettled: (_data, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.detail(jobId) });
+    },
+  });
+};
+
+interface SaveAfterServicePhoto {
+  jobId: string;
+  inspectionId: string;
+  stepId: string;
+  file: File;
+  // The photo this retakes, if the step already has one
+  existing?: RugPhotoRow | null;
+}
+
+// Uploads a post-service photo for one of the guided steps, replacing any earlier
+// one for that step
+export const useSaveAfterServicePhoto = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ jobId, inspectionId, stepId, file, existing }: SaveAfterServicePhoto) => {
+      if (!user) throw new Error('Sign in again to upload photos');
+
+      const uploaded = await uploadRugPhoto(file, photoPathStem(file, user.id, 'after'), { upsert: true });
+      const fields = {
+        storage_path: uploaded.path,
+        width: uploaded.width,
+        height: uploaded.height,
+        captured_at: new Date().toISOString(),
+      };
+
+      if (existing) {
+        const { error } = await supabase.from('rug_photos').update(fields).eq('id', existing.id);
+        if (error) throw error;
+        // Saving the same file again after a failure keeps its path
+        if (existing.storage_path === uploaded.path) return;
+
+        const { error: storageError } = await supabase.storage
+          .from(RUG_PHOTO_BUCKET)
+          .remove([existing.storage_path, thumbnailPath(existing.storage_path)]);
+        if (storageError) console.warn('Could not remove replaced photo:', storageError);
+        return;
+      }
+
+      const { error } = await supabase.from('rug_photos').insert({
+        ...fields,
+        inspection_id: inspectionId,
+        job_id: jobId,
+        step_id: stepId,
+        phase: 'after_service',
+        sort_order: RUG_PHOTO_STEPS.findIndex(step => step.id === stepId),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('After-service photo saved');
+    },
+    onError: (error) => {
+      console.error('Failed to save after-service photo:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save photo');
+    },
+    onSettled: (_data, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.detail(jobId) });
+    },
+  });
+};
@@ -0,0 +1,72 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import type { ScheduleRequest, ScheduleRequestStatus } from '@/lib/scheduleRequests';
+
+export const useScheduleRequests = (jobId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.scheduleRequests.byJob(jobId || ''),
+    queryFn: async (): Promise<ScheduleRequest[]> => {
+      const { data, error } = await supabase
+        .from('schedule_requests')
+        .select('*')
+        .eq('job_id', jobId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!jobId,
+    staleTime: 30000,
+  });
+};
+
+interface RespondToScheduleRequest {
+  requestId: string;
+  jobId: string;
+  status: Exclude<ScheduleRequestStatus, 'requested'>;
+  scheduledDate?: string | null;
+  scheduledTime?: string | null;
+  staffNotes?: string | null;
+}
+
+export const useRespondToScheduleRequest = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ requestId, status, scheduledDate, scheduledTime, staffNotes }: RespondToScheduleRequest) => {
+      const { error } = await supabase
+        .from('schedule_requests')
+        .update({
+          status,
+          // A declined request has no slot
+          scheduled_date: status === 'declined' ? null : scheduledDate,
+          scheduled_time: status === 'declined' ? null : scheduledTime || null,
+          staff_notes: staffNotes?.trim() || null,
+          responded_at: new Date().toISOString(),
+          responded_by: user?.id ?? null,
+        })
+        .eq('id', requestId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { status }) => {
+      const messages: Record<RespondToScheduleRequest['status'], string> = {
+        confirmed: 'Schedule confirmed',
+        rescheduled: 'New time sent to client',
+        declined: 'Request declined',
+      };
+      toast.success(messages[status]);
+    },
+    onError: (error) => {
+      console.error('Failed to update schedule request:', error);
+      toast.error('Failed to update schedule request');
+    },
+    onSettled: (_data, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.scheduleRequests.byJob(jobId) });
+    },
+  });
+};
@@ -0,0 +1,160 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { useOrganization } from '@/hooks/useOrganization';
+import { toast } from 'sonner';
+import { NO_TAX, type JobTaxSettings } from '@shared/tax';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type TaxRateRow = Tables<'tax_rates'>;
+export type TaxExemptClient = Tables<'tax_exempt_clients'>;
+
+export type TaxRateDraft = Pick<TaxRateRow, 'name' | 'rate' | 'is_active'> & { id?: string };
+
+export const useTaxRates = () => {
+  const { organization } = useOrganization();
+  const orgId = organization?.id;
+
+  return useQuery({
+    queryKey: queryKeys.organization.taxRates(orgId || ''),
+    queryFn: async (): Promise<TaxRateRow[]> => {
+      const { data, error } = await supabase
+        .from('tax_rates')
+        .select('*')
+        .eq('organization_id', orgId!)
+        .order('sort_order');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!orgId,
+  });
+};
+
+interface SaveTaxRates {
+  organizationId: string;
+  rates: TaxRateDraft[];
+  removedIds: string[];
+}
+
+export const useSaveTaxRates = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ organizationId, rates, removedIds }: SaveTaxRates) => {
+      if (removedIds.length > 0) {
+        const { error } = await supabase.from('tax_rates').delete().in('id', removedIds);
+        if (error) throw error;
+      }
+
+      const rows = rates.map((rate, index) => ({
+        ...rate,
+        organization_id: organizationId,
+        sort_order: index,
+      }));
+
+      const existing = rows.filter(r => r.id);
+      const created = rows.filter(r => !r.id).map(({ id: _id, ...row }) => row);
+
+      if (existing.length > 0) {
+        const { error } = await supabase.from('tax_rates').upsert(existing);
+        if (error) throw error;
+      }
+      if (created.length > 0) {
+        const { error } = await supabase.from('tax_rates').insert(created);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success('Tax rates saved');
+    },
+    onError: (error) => {
+      console.error('Failed to save tax rates:', error);
+      toast.error('Failed to save tax rates');
+    },
+    onSettled: (_data, _error, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization.taxRates(organizationId) });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.jobs.all, 'taxSettings'] });
+    },
+  });
+};
+
+export const useTaxExemptClients = () => {
+  const { organization } = useOrganization();
+  const orgId = organization?.id;
+
+  return useQuery({
+    queryKey: queryKeys.organization.taxExemptClients(orgId || ''),
+    queryFn: async (): Promise<TaxExemptClient[]> => {
+      const { data, error } = await supabase
+        .from('tax_exempt_clients')
+        .select('*')
+        .eq('organization_id', orgId!)
+        .order('client_email');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!orgId,
+  });
+};
+
+export const useAddTaxExemptClient = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ organizationId, clientEmail, reason }: { organizationId: string; clientEmail: string; reason?: string }) => {
+      const { error } = await supabase
+        .from('tax_exempt_clients')
+        .insert({ organization_id: organizationId, client_email: clientEmail.trim(), reason: reason?.trim() || null });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('That client is already exempt');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success('Client marked tax exempt');
+    },
+    onError: (error) => {
+      console.error('Failed to add tax exempt client:', error);
+      toast.error(error.message || 'Failed to add tax exempt client');
+    },
+    onSettled: (_data, _error, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization.taxExemptClients(organizationId) });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.jobs.all, 'taxSettings'] });
+    },
+  });
+};
+
+export const useRemoveTaxExemptClient = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; organizationId: string }) => {
+      const { error } = await supabase.from('tax_exempt_clients').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onError: (error) => {
+      console.error('Failed to remove tax exempt client:', error);
+      toast.error('Failed to remove tax exempt client');
+    },
+    onSettled: (_data, _error, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization.taxExemptClients(organizationId) });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.jobs.all, 'taxSettings'] });
+    },
+  });
+};
+
+// The rates a job is taxed at; works for the job's staff and its client
+export const useJobTaxSettings = (jobId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.jobs.taxSettings(jobId || ''),
+    queryFn: async (): Promise<JobTaxSettings> => {
+      const { data, error } = await supabase.rpc('job_tax_settings', { _job_id: jobId! });
+      if (error) throw error;
+      return (data as unknown as JobTaxSettings | null) ?? NO_TAX;
+    },
+    enabled: !!jobId,
+  });
+};
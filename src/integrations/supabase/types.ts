@@ -118,6 +118,7 @@ export type Database = {
           approved_by_staff_at: string | null
           approved_by_staff_user_id: string | null
           created_at: string | null
+          discount: Json | null
           id: string
           inspection_id: string
           job_id: string
@@ -129,6 +130,7 @@ export type Database = {
           approved_by_staff_at?: string | null
           approved_by_staff_user_id?: string | null
           created_at?: string | null
+          discount?: Json | null
           id?: string
           inspection_id: string
           job_id: string
@@ -140,6 +142,7 @@ export type Database = {
           approved_by_staff_at?: string | null
           approved_by_staff_user_id?: string | null
           created_at?: string | null
+          discount?: Json | null
           id?: string
           inspection_id?: string
           job_id?: string
@@ -171,6 +174,39 @@ export type Database = {
           },
         ]
       }
+      checklist_templates: {
+        Row: {
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+          organization_id: string | null
+          steps: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          organization_id?: string | null
+          steps?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          organization_id?: string | null
+          steps?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       client_accounts: {
         Row: {
           created_at: string | null
@@ -303,11 +339,200 @@ export type Database = {
           },
         ]
       }
+      coupon_codes: {
+        Row: {
+          code: string
+          created_at: string
+          discount_type: string
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          label: string | null
+          max_redemptions: number | null
+          organization_id: string
+          times_redeemed: number
+          updated_at: string
+          value: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          discount_type: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          label?: string | null
+          max_redemptions?: number | null
+          organization_id: string
+          times_redeemed?: number
+          updated_at?: string
+          value: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          discount_type?: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          label?: string | null
+          max_redemptions?: number | null
+          organization_id?: string
+          times_redeemed?: number
+          updated_at?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coupon_codes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      discount_rules: {
+        Row: {
+          created_at: string
+          discount_type: string
+          id: string
+          is_active: boolean
+          label: string
+          min_rugs: number
+          organization_id: string
+          updated_at: string
+          value: number
+        }
+        Insert: {
+          created_at?: string
+          discount_type: string
+          id?: string
+          is_active?: boolean
+          label: string
+          min_rugs: number
+          organization_id: string
+          updated_at?: string
+          value: number
+        }
+        Update: {
+          created_at?: string
+          discount_type?: string
+          id?: string
+          is_active?: boolean
+          label?: string
+          min_rugs?: number
+          organization_id?: string
+          updated_at?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discount_rules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_events: {
+        Row: {
+          attachments: Json
+          bounced_at: string | null
+          clicked_at: string | null
+          created_at: string
+          delivered_at: string | null
+          error: string | null
+          from_address: string
+          html: string
+          id: string
+          job_id: string | null
+          opened_at: string | null
+          organization_id: string | null
+          recipient: string
+          resend_message_id: string | null
+          resent_from: string | null
+          status: string
+          subject: string
+          template_type: string
+          text: string | null
+          updated_at: string
+        }
+        Insert: {
+          attachments?: Json
+          bounced_at?: string | null
+          clicked_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          from_address: string
+          html: string
+          id?: string
+          job_id?: string | null
+          opened_at?: string | null
+          organization_id?: string | null
+          recipient: string
+          resend_message_id?: string | null
+          resent_from?: string | null
+          status?: string
+          subject: string
+          template_type: string
+          text?: string | null
+          updated_at?: string
+        }
+        Update: {
+          attachments?: Json
+          bounced_at?: string | null
+          clicked_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          from_address?: string
+          html?: string
+          id?: string
+          job_id?: string | null
+          opened_at?: string | null
+          organization_id?: string | null
+          recipient?: string
+          resend_message_id?: string | null
+          resent_from?: string | null
+          status?: string
+          subject?: string
+          template_type?: string
+          text?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_events_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_events_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_events_resent_from_fkey"
+            columns: ["resent_from"]
+            isOneToOne: false
+            referencedRelation: "email_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       email_templates: {
         Row: {
           body: string
           created_at: string
           id: string
+          organization_id: string | null
           subject: string
           template_type: string
           updated_at: string
@@ -317,6 +542,7 @@ export type Database = {
           body: string
           created_at?: string
           id?: string
+          organization_id?: string | null
           subject: string
           template_type: string
           updated_at?: string
@@ -326,6 +552,7 @@ export type Database = {
           body?: string
           created_at?: string
           id?: string
+          organization_id?: string | null
           subject?: string
           template_type?: string
           updated_at?: string
@@ -349,6 +576,7 @@ export type Database = {
           photo_urls: string[] | null
           rug_number: string
           rug_type: string
+          structured_report: Json | null
           user_id: string | null
           width: number | null
         }
@@ -367,6 +595,7 @@ export type Database = {
           photo_urls?: string[] | null
           rug_number: string
           rug_type: string
+          structured_report?: Json | null
           user_id?: string | null
           width?: number | null
         }
@@ -385,6 +614,7 @@ export type Database = {
           photo_urls?: string[] | null
           rug_number?: string
           rug_type?: string
+          structured_report?: Json | null
           user_id?: string | null
           width?: number | null
         }
@@ -398,106 +628,637 @@ export type Database = {
           },
         ]
       }
+      invoices: {
+        Row: {
+          amount_due: number
+          amount_paid: number
+          coupon_id: string | null
+          created_at: string
+          discount_total: number
+          due_at: string | null
+          id: string
+          invoice_number: string | null
+          issued_at: string
+          job_id: string
+          kind: string
+          line_items: Json
+          organization_id: string | null
+          paid_at: string | null
+          sent_at: string | null
+          status: string
+          subtotal: number
+          tax_lines: Json
+          tax_total: number
+          updated_at: string
+        }
+        Insert: {
+          amount_due: number
+          amount_paid?: number
+          coupon_id?: string | null
+          created_at?: string
+          discount_total?: number
+          due_at?: string | null
+          id?: string
+          invoice_number?: string | null
+          issued_at?: string
+          job_id: string
+          kind: string
+          line_items?: Json
+          organization_id?: string | null
+          paid_at?: string | null
+          sent_at?: string | null
+          status?: string
+          subtotal?: number
+          tax_lines?: Json
+          tax_total?: number
+          updated_at?: string
+        }
+        Update: {
+          amount_due?: number
+          amount_paid?: number
+          coupon_id?: string | null
+          created_at?: string
+          discount_total?: number
+          due_at?: string | null
+          id?: string
+          invoice_number?: string | null
+          issued_at?: string
+          job_id?: string
+          kind?: string
+          line_items?: Json
+          organization_id?: string | null
+          paid_at?: string | null
+          sent_at?: string | null
+          status?: string
+          subtotal?: number
+          tax_lines?: Json
+          tax_total?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupon_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_checklist_items: {
+        Row: {
+          completed_at: string | null
+          completed_by: string | null
+          completed_by_name: string | null
+          created_at: string
+          id: string
+          job_id: string
+          label: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          completed_at?: string | null
+          completed_by?: string | null
+          completed_by_name?: string | null
+          created_at?: string
+          id?: string
+          job_id: string
+          label: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          completed_at?: string | null
+          completed_by?: string | null
+          completed_by_name?: string | null
+          created_at?: string
+          id?: string
+          job_id?: string
+          label?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_checklist_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_messages: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          job_id: string
+          read_at: string | null
+          sender_id: string
+          sender_role: Database["public"]["Enums"]["message_sender_role"]
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          job_id: string
+          read_at?: string | null
+          sender_id: string
+          sender_role: Database["public"]["Enums"]["message_sender_role"]
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          job_id?: string
+          read_at?: string | null
+          sender_id?: string
+          sender_role?: Database["public"]["Enums"]["message_sender_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_messages_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_reviews: {
+        Row: {
+          allow_public: boolean
+          comment: string | null
+          created_at: string
+          id: string
+          job_id: string
+          rating: number
+          reviewer_id: string
+          updated_at: string
+        }
+        Insert: {
+          allow_public?: boolean
+          comment?: string | null
+          created_at?: string
+          id?: string
+          job_id: string
+          rating: number
+          reviewer_id: string
+          updated_at?: string
+        }
+        Update: {
+          allow_public?: boolean
+          comment?: string | null
+          created_at?: string
+          id?: string
+          job_id?: string
+          rating?: number
+          reviewer_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_reviews_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_status_history: {
+        Row: {
+          changed_by: string | null
+          changed_by_name: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          job_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          changed_by_name?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          job_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          changed_by_name?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          job_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_status_history_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_statuses: {
+        Row: {
+          advance_on_payment: boolean
+          client_label: string | null
+          color: string
+          created_at: string
+          id: string
+          is_initial: boolean
+          issues_balance_invoice: boolean
+          key: string
+          label: string
+          next_statuses: string[]
+          organization_id: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          advance_on_payment?: boolean
+          client_label?: string | null
+          color?: string
+          created_at?: string
+          id?: string
+          is_initial?: boolean
+          issues_balance_invoice?: boolean
+          key: string
+          label: string
+          next_statuses?: string[]
+          organization_id: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          advance_on_payment?: boolean
+          client_label?: string | null
+          color?: string
+          created_at?: string
+          id?: string
+          is_initial?: boolean
+          issues_balance_invoice?: boolean
+          key?: string
+          label?: string
+          next_statuses?: string[]
+          organization_id?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_statuses_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       jobs: {
         Row: {
+          agreed_line_items: Json | null
+          agreed_tax_lines: Json | null
+          agreed_total: number | null
           all_estimates_approved: boolean | null
+          assigned_at: string | null
+          assigned_to: string | null
+          assigned_to_name: string | null
+          auto_follow_up_at: string | null
           client_approved_at: string | null
           client_email: string | null
           client_name: string
           client_phone: string | null
           client_portal_enabled: boolean | null
           created_at: string
+          created_by: string | null
+          discount: Json | null
           follow_up_notes: string | null
           id: string
-          job_number: string
-          last_activity_at: string | null
-          next_follow_up_at: string | null
-          notes: string | null
-          payment_status: string | null
-          status: string
+          job_number: string
+          last_activity_at: string | null
+          next_follow_up_at: string | null
+          notes: string | null
+          organization_id: string | null
+          payment_status: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          agreed_line_items?: Json | null
+          agreed_tax_lines?: Json | null
+          agreed_total?: number | null
+          all_estimates_approved?: boolean | null
+          assigned_at?: string | null
+          assigned_to?: string | null
+          assigned_to_name?: string | null
+          auto_follow_up_at?: string | null
+          client_approved_at?: string | null
+          client_email?: string | null
+          client_name: string
+          client_phone?: string | null
+          client_portal_enabled?: boolean | null
+          created_at?: string
+          created_by?: string | null
+          discount?: Json | null
+          follow_up_notes?: string | null
+          id?: string
+          job_number: string
+          last_activity_at?: string | null
+          next_follow_up_at?: string | null
+          notes?: string | null
+          organization_id?: string | null
+          payment_status?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          agreed_line_items?: Json | null
+          agreed_tax_lines?: Json | null
+          agreed_total?: number | null
+          all_estimates_approved?: boolean | null
+          assigned_at?: string | null
+          assigned_to?: string | null
+          assigned_to_name?: string | null
+          auto_follow_up_at?: string | null
+          client_approved_at?: string | null
+          client_email?: string | null
+          client_name?: string
+          client_phone?: string | null
+          client_portal_enabled?: boolean | null
+          created_at?: string
+          created_by?: string | null
+          discount?: Json | null
+          follow_up_notes?: string | null
+          id?: string
+          job_number?: string
+          last_activity_at?: string | null
+          next_follow_up_at?: string | null
+          notes?: string | null
+          organization_id?: string | null
+          payment_status?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          id: string
+          message: string
+          metadata: Json | null
+          read: boolean
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message: string
+          metadata?: Json | null
+          read?: boolean
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string
+          metadata?: Json | null
+          read?: boolean
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      organization_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string
+          organization_id: string
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["org_role"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by: string
+          organization_id: string
+          revoked_at?: string | null
+          role: Database["public"]["Enums"]["org_role"]
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          organization_id?: string
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["org_role"]
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["org_role"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          credit_note_counter: number
+          deposit_percentage: number
+          id: string
+          invoice_counter: number
+          invoice_prefix: string
+          name: string
           updated_at: string
-          user_id: string
         }
         Insert: {
-          all_estimates_approved?: boolean | null
-          client_approved_at?: string | null
-          client_email?: string | null
-          client_name: string
-          client_phone?: string | null
-          client_portal_enabled?: boolean | null
           created_at?: string
-          follow_up_notes?: string | null
+          credit_note_counter?: number
+          deposit_percentage?: number
           id?: string
-          job_number: string
-          last_activity_at?: string | null
-          next_follow_up_at?: string | null
-          notes?: string | null
-          payment_status?: string | null
-          status?: string
+          invoice_counter?: number
+          invoice_prefix?: string
+          name: string
           updated_at?: string
-          user_id: string
         }
         Update: {
-          all_estimates_approved?: boolean | null
-          client_approved_at?: string | null
-          client_email?: string | null
-          client_name?: string
-          client_phone?: string | null
-          client_portal_enabled?: boolean | null
           created_at?: string
-          follow_up_notes?: string | null
+          credit_note_counter?: number
+          deposit_percentage?: number
           id?: string
-          job_number?: string
-          last_activity_at?: string | null
-          next_follow_up_at?: string | null
-          notes?: string | null
-          payment_status?: string | null
-          status?: string
+          invoice_counter?: number
+          invoice_prefix?: string
+          name?: string
           updated_at?: string
-          user_id?: string
         }
         Relationships: []
       }
-      notifications: {
+      payment_refunds: {
         Row: {
+          amount: number
           created_at: string
+          created_by: string | null
+          credit_note_number: string | null
+          credit_note_sent_at: string | null
           id: string
-          message: string
-          metadata: Json | null
-          read: boolean
-          title: string
-          type: string
-          user_id: string
+          job_id: string
+          line_items: Json
+          organization_id: string | null
+          payment_id: string
+          platform_fee_reversed: number
+          reason: string | null
+          status: string
+          stripe_refund_id: string | null
+          updated_at: string
         }
         Insert: {
+          amount: number
           created_at?: string
+          created_by?: string | null
+          credit_note_number?: string | null
+          credit_note_sent_at?: string | null
           id?: string
-          message: string
-          metadata?: Json | null
-          read?: boolean
-          title: string
-          type: string
-          user_id: string
+          job_id: string
+          line_items?: Json
+          organization_id?: string | null
+          payment_id: string
+          platform_fee_reversed?: number
+          reason?: string | null
+          status?: string
+          stripe_refund_id?: string | null
+          updated_at?: string
         }
         Update: {
+          amount?: number
           created_at?: string
+          created_by?: string | null
+          credit_note_number?: string | null
+          credit_note_sent_at?: string | null
           id?: string
-          message?: string
-          metadata?: Json | null
-          read?: boolean
-          title?: string
-          type?: string
-          user_id?: string
+          job_id?: string
+          line_items?: Json
+          organization_id?: string | null
+          payment_id?: string
+          platform_fee_reversed?: number
+          reason?: string | null
+          status?: string
+          stripe_refund_id?: string | null
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "payment_refunds_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       payments: {
         Row: {
           amount: number
+          amount_refunded: number
           client_id: string | null
           created_at: string | null
           currency: string | null
+          failure_reason: string | null
           id: string
+          invoice_id: string | null
           job_id: string
           metadata: Json | null
           paid_at: string | null
@@ -509,10 +1270,13 @@ export type Database = {
         }
         Insert: {
           amount: number
+          amount_refunded?: number
           client_id?: string | null
           created_at?: string | null
           currency?: string | null
+          failure_reason?: string | null
           id?: string
+          invoice_id?: string | null
           job_id: string
           metadata?: Json | null
           paid_at?: string | null
@@ -524,10 +1288,13 @@ export type Database = {
         }
         Update: {
           amount?: number
+          amount_refunded?: number
           client_id?: string | null
           created_at?: string | null
           currency?: string | null
+          failure_reason?: string | null
           id?: string
+          invoice_id?: string | null
           job_id?: string
           metadata?: Json | null
           paid_at?: string | null
@@ -545,6 +1312,13 @@ export type Database = {
             referencedRelation: "client_accounts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "payments_job_id_fkey"
             columns: ["job_id"]
@@ -734,6 +1508,178 @@ export type Database = {
         }
         Relationships: []
       }
+      reminder_cadences: {
+        Row: {
+          created_at: string
+          first_after_days: number
+          id: string
+          is_active: boolean
+          kind: string
+          max_reminders: number
+          organization_id: string
+          repeat_every_days: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          first_after_days: number
+          id?: string
+          is_active?: boolean
+          kind: string
+          max_reminders: number
+          organization_id: string
+          repeat_every_days: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          first_after_days?: number
+          id?: string
+          is_active?: boolean
+          kind?: string
+          max_reminders?: number
+          organization_id?: string
+          repeat_every_days?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminder_cadences_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rug_photos: {
+        Row: {
+          caption: string | null
+          captured_at: string | null
+          created_at: string
+          height: number | null
+          id: string
+          inspection_id: string
+          job_id: string
+          phase: string
+          quality: Json | null
+          quality_score: number | null
+          sort_order: number
+          step_id: string | null
+          storage_path: string
+          width: number | null
+        }
+        Insert: {
+          caption?: string | null
+          captured_at?: string | null
+          created_at?: string
+          height?: number | null
+          id?: string
+          inspection_id: string
+          job_id: string
+          phase?: string
+          quality?: Json | null
+          quality_score?: number | null
+          sort_order?: number
+          step_id?: string | null
+          storage_path: string
+          width?: number | null
+        }
+        Update: {
+          caption?: string | null
+          captured_at?: string | null
+          created_at?: string
+          height?: number | null
+          id?: string
+          inspection_id?: string
+          job_id?: string
+          phase?: string
+          quality?: Json | null
+          quality_score?: number | null
+          sort_order?: number
+          step_id?: string | null
+          storage_path?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rug_photos_inspection_id_fkey"
+            columns: ["inspection_id"]
+            isOneToOne: false
+            referencedRelation: "inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rug_photos_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_requests: {
+        Row: {
+          client_notes: string | null
+          created_at: string
+          id: string
+          job_id: string
+          request_type: Database["public"]["Enums"]["schedule_request_type"]
+          requested_by: string
+          requested_date: string
+          requested_time: string | null
+          responded_at: string | null
+          responded_by: string | null
+          scheduled_date: string | null
+          scheduled_time: string | null
+          staff_notes: string | null
+          status: Database["public"]["Enums"]["schedule_request_status"]
+          updated_at: string
+        }
+        Insert: {
+          client_notes?: string | null
+          created_at?: string
+          id?: string
+          job_id: string
+          request_type?: Database["public"]["Enums"]["schedule_request_type"]
+          requested_by: string
+          requested_date: string
+          requested_time?: string | null
+          responded_at?: string | null
+          responded_by?: string | null
+          scheduled_date?: string | null
+          scheduled_time?: string | null
+          staff_notes?: string | null
+          status?: Database["public"]["Enums"]["schedule_request_status"]
+          updated_at?: string
+        }
+        Update: {
+          client_notes?: string | null
+          created_at?: string
+          id?: string
+          job_id?: string
+          request_type?: Database["public"]["Enums"]["schedule_request_type"]
+          requested_by?: string
+          requested_date?: string
+          requested_time?: string | null
+          responded_at?: string | null
+          responded_by?: string | null
+          scheduled_date?: string | null
+          scheduled_time?: string | null
+          staff_notes?: string | null
+          status?: Database["public"]["Enums"]["schedule_request_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_requests_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       service_completions: {
         Row: {
           approved_estimate_id: string
@@ -774,34 +1720,155 @@ export type Database = {
       }
       service_prices: {
         Row: {
+          archived_at: string | null
           created_at: string
+          default_priority: Database["public"]["Enums"]["service_priority"]
+          description: string | null
           id: string
           is_additional: boolean
+          is_mandatory: boolean
+          minimum_charge: number | null
+          organization_id: string | null
+          pricing_unit: Database["public"]["Enums"]["pricing_unit"]
           service_name: string
+          sort_order: number
+          tax_exempt: boolean
           unit_price: number
           updated_at: string
           user_id: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
+          default_priority?: Database["public"]["Enums"]["service_priority"]
+          description?: string | null
           id?: string
           is_additional?: boolean
+          is_mandatory?: boolean
+          minimum_charge?: number | null
+          organization_id?: string | null
+          pricing_unit?: Database["public"]["Enums"]["pricing_unit"]
           service_name: string
+          sort_order?: number
+          tax_exempt?: boolean
           unit_price?: number
           updated_at?: string
           user_id: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
+          default_priority?: Database["public"]["Enums"]["service_priority"]
+          description?: string | null
           id?: string
           is_additional?: boolean
+          is_mandatory?: boolean
+          minimum_charge?: number | null
+          organization_id?: string | null
+          pricing_unit?: Database["public"]["Enums"]["pricing_unit"]
           service_name?: string
+          sort_order?: number
+          tax_exempt?: boolean
           unit_price?: number
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      stripe_webhook_events: {
+        Row: {
+          id: string
+          livemode: boolean
+          received_at: string
+          type: string
+        }
+        Insert: {
+          id: string
+          livemode?: boolean
+          received_at?: string
+          type: string
+        }
+        Update: {
+          id?: string
+          livemode?: boolean
+          received_at?: string
+          type?: string
+        }
+        Relationships: []
+      }
+      tax_exempt_clients: {
+        Row: {
+          client_email: string
+          created_at: string
+          id: string
+          organization_id: string
+          reason: string | null
+        }
+        Insert: {
+          client_email: string
+          created_at?: string
+          id?: string
+          organization_id: string
+          reason?: string | null
+        }
+        Update: {
+          client_email?: string
+          created_at?: string
+          id?: string
+          organization_id?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_exempt_clients_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_rates: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          organization_id: string
+          rate: number
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          organization_id: string
+          rate: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          organization_id?: string
+          rate?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_rates_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -838,6 +1905,7 @@ export type Database = {
           photo_urls: string[] | null
           rug_number: string | null
           rug_type: string | null
+          structured_report: Json | null
           width: number | null
         }
         Insert: {
@@ -852,6 +1920,7 @@ export type Database = {
           photo_urls?: string[] | null
           rug_number?: string | null
           rug_type?: string | null
+          structured_report?: Json | null
           width?: number | null
         }
         Update: {
@@ -866,6 +1935,7 @@ export type Database = {
           photo_urls?: string[] | null
           rug_number?: string | null
           rug_type?: string | null
+          structured_report?: Json | null
           width?: number | null
         }
         Relationships: [
@@ -880,10 +1950,43 @@ export type Database = {
       }
     }
     Functions: {
+      accept_organization_invitation: {
+        Args: { _token: string }
+        Returns: string
+      }
+      advance_job_on_payment: {
+        Args: { _job_id: string }
+        Returns: string
+      }
       client_has_job_access: {
         Args: { check_job_id: string }
         Returns: boolean
       }
+      current_org_id: {
+        Args: never
+        Returns: string
+      }
+      ensure_organization: {
+        Args: never
+        Returns: {
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+        }[]
+      }
+      has_job_role: {
+        Args: {
+          _job_id: string
+          _roles: Database["public"]["Enums"]["org_role"][]
+        }
+        Returns: boolean
+      }
+      has_org_role: {
+        Args: {
+          _org_id: string
+          _roles: Database["public"]["Enums"]["org_role"][]
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -891,6 +1994,45 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_org_member: {
+        Args: { _org_id: string }
+        Returns: boolean
+      }
+      issue_balance_invoice: {
+        Args: { _job_id: string }
+        Returns: string
+      }
+      job_discount_settings: {
+        Args: { _coupon_code?: string; _job_id: string }
+        Returns: Json
+      }
+      job_tax_settings: {
+        Args: { _job_id: string }
+        Returns: Json
+      }
+      mark_job_messages_read: {
+        Args: { _job_id: string }
+        Returns: number
+      }
+      org_owner_id: {
+        Args: { _org_id: string }
+        Returns: string
+      }
+      record_payment_refund: {
+        Args: {
+          _amount: number
+          _created_by: string
+          _line_items: Json
+          _payment_id: string
+          _platform_fee_reversed: number
+          _reason: string
+        }
+        Returns: Database["public"]["Tables"]["payment_refunds"]["Row"]
+      }
+      seed_job_statuses: {
+        Args: { _org_id: string }
+        Returns: undefined
+      }
       update_client_access_tracking: {
         Args: {
           _access_token: string
@@ -915,6 +2057,12 @@ export type Database = {
     }
     Enums: {
       app_role: "staff" | "client" | "admin"
+      message_sender_role: "client" | "staff"
+      org_role: "owner" | "manager" | "inspector" | "front_desk"
+      pricing_unit: "sq_ft" | "linear_ft" | "each" | "flat"
+      schedule_request_status: "requested" | "confirmed" | "rescheduled" | "declined"
+      schedule_request_type: "pickup" | "delivery"
+      service_priority: "high" | "medium" | "low"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1043,6 +2191,17 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["staff", "client", "admin"],
+      pricing_unit: ["sq_ft", "linear_ft", "each", "flat"],
+      service_priority: ["high", "medium", "low"],
+      schedule_request_status: [
+        "requested",
+        "confirmed",
+        "rescheduled",
+        "declined",
+      ],
+      schedule_request_type: ["pickup", "delivery"],
+      message_sender_role: ["client", "staff"],
+      org_role: ["owner", "manager", "inspector", "front_desk"],
     },
   },
 } as const
@@ -0,0 +1,52 @@
+import { differenceInCalendarDays } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ChecklistTemplate = Tables<'checklist_templates'>;
+export type JobChecklistItem = Tables<'job_checklist_items'>;
+
+// Used when a business hasn't set up a default template of its own
+export const DEFAULT_CHECKLIST_STEPS = [
+  'Photos captured',
+  'Estimate sent',
+  'Client approved',
+  'Cleaning started',
+  'Cleaning completed',
+  'Delivery scheduled',
+];
+
+// A job that hasn't ticked its next step in this many days counts as stuck
+export const STUCK_AFTER_DAYS = 3;
+
+export interface ChecklistProgress {
+  completed: number;
+  total: number;
+  // First unticked step in order, or null when everything is done
+  currentStep: string | null;
+  // When the job arrived at the current step (last tick, or job creation)
+  currentStepSince: string | null;
+}
+
+export const getChecklistProgress = (
+  items: Pick<JobChecklistItem, 'label' | 'sort_order' | 'completed_at'>[],
+  jobCreatedAt: string
+): ChecklistProgress => {
+  const ordered = [...items].sort((a, b) => a.sort_order - b.sort_order);
+  const completedItems = ordered.filter(item => item.completed_at);
+  const next = ordered.find(item => !item.completed_at) || null;
+
+  const lastTick = completedItems
+    .map(item => item.completed_at as string)
+    .sort()
+    .pop();
+
+  return {
+    completed: completedItems.length,
+    total: ordered.length,
+    currentStep: next?.label ?? null,
+    currentStepSince: next ? lastTick || jobCreatedAt : null,
+  };
+};
+
+export const isStuck = (progress: ChecklistProgress, now = new Date()): boolean =>
+  !!progress.currentStepSince &&
+  differenceInCalendarDays(now, new Date(progress.currentStepSince)) >= STUCK_AFTER_DAYS;
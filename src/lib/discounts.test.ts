@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyDiscounts,
+  isValidDiscount,
+  jobDiscounts,
+  NO_DISCOUNTS,
+  type DiscountInput,
+  type JobDiscountSettings,
+} from '@shared/discounts';
+
+const lines = [
+  { amount: 300, rugNumber: 'R1' },
+  { amount: 100, rugNumber: 'R1', taxExempt: true },
+  { amount: 200, rugNumber: 'R2' },
+];
+
+const sumNet = (netLines: { amount: number }[]) =>
+  Math.round(netLines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100;
+
+describe('jobDiscounts', () => {
+  const settings: JobDiscountSettings = {
+    ...NO_DISCOUNTS,
+    jobDiscount: { type: 'fixed', value: 20, label: 'Loyal client' },
+    rules: [
+      { type: 'percentage', value: 5, label: '3+ rugs', minRugs: 3 },
+      { type: 'percentage', value: 10, label: '5+ rugs', minRugs: 5 },
+    ],
+    coupon: { id: 'coupon-1', code: 'SPRING', type: 'percentage', value: 15, label: '' },
+  };
+
+  it('applies only the richest rule the job qualifies for', () => {
+    expect(jobDiscounts(settings, 6).map(d => d.label)).toEqual(['Loyal client', '5+ rugs', 'Coupon SPRING']);
+    expect(jobDiscounts(settings, 3).map(d => d.label)).toEqual(['Loyal client', '3+ rugs', 'Coupon SPRING']);
+  });
+
+  it('applies no rule below the smallest tier', () => {
+    expect(jobDiscounts(settings, 2).map(d => d.source)).toEqual(['manual', 'coupon']);
+  });
+
+  it('has nothing to apply without settings', () => {
+    expect(jobDiscounts(NO_DISCOUNTS, 10)).toEqual([]);
+  });
+});
+
+describe('applyDiscounts', () => {
+  it('takes rug discounts off that rug before job discounts', () => {
+    const inputs: DiscountInput[] = [
+      { type: 'percentage', value: 10, label: 'Summer', source: 'manual' },
+      { type: 'fixed', value: 50, label: 'Stain guarantee', source: 'manual', rugNumber: 'R2' },
+    ];
+
+    const result = applyDiscounts(lines, inputs);
+
+    expect(result.discounts).toEqual([
+      { description: 'R2: Stain guarantee', source: 'manual', rugNumber: 'R2', amount: 50 },
+      { description: 'Summer (10%)', source: 'manual', amount: 55 },
+    ]);
+    expect(result.total).toBe(105);
+    expect(sumNet(result.netLines)).toBe(495);
+  });
+
+  it('shares a job discount across lines in proportion to their amounts', () => {
+    const result = applyDiscounts(lines, [{ type: 'fixed', value: 60, label: 'Promo', source: 'coupon' }]);
+
+    expect(result.netLines.map(line => line.amount)).toEqual([270, 90, 180]);
+    expect(result.netLines[1].taxExempt).toBe(true);
+  });
+
+  it('never discounts more than is left', () => {
+    const result = applyDiscounts(lines, [
+      { type: 'fixed', value: 500, label: 'Goodwill', source: 'manual' },
+      { type: 'fixed', value: 500, label: 'Coupon', source: 'coupon' },
+    ]);
+
+    expect(result.discounts.map(d => d.amount)).toEqual([500, 100]);
+    expect(result.total).toBe(600);
+    expect(sumNet(result.netLines)).toBe(0);
+  });
+
+  it('skips a rug discount for a rug that was not selected', () => {
+    const result = applyDiscounts(lines, [
+      { type: 'percentage', value: 20, label: 'Rug 3', source: 'manual', rugNumber: 'R3' },
+    ]);
+
+    expect(result).toMatchObject({ discounts: [], total: 0 });
+  });
+});
+
+describe('isValidDiscount', () => {
+  it('needs a label, a positive value and a percentage of at most 100', () => {
+    expect(isValidDiscount({ type: 'percentage', value: 100, label: 'Free' })).toBe(true);
+    expect(isValidDiscount({ type: 'percentage', value: 101, label: 'Too much' })).toBe(false);
+    expect(isValidDiscount({ type: 'fixed', value: 0, label: 'Nothing' })).toBe(false);
+    expect(isValidDiscount({ type: 'fixed', value: 25, label: ' ' })).toBe(false);
+  });
+});
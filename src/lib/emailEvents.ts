@@ -0,0 +1,22 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { DEFAULT_EMAIL_TEMPLATES } from '@shared/emailTemplates';
+
+export type EmailEvent = Tables<'email_events'>;
+
+// template_type is an email_templates type or the kind of system email
+export const EMAIL_KIND_LABELS: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(DEFAULT_EMAIL_TEMPLATES).map(([type, t]) => [type, t.label])),
+  // Payout emails sent before they had their own templates
+  payout: 'Payout Notice',
+};
+
+export const EMAIL_STATUS_CONFIG: Record<string, { label: string; className: string }> = {
+  sent: { label: 'Sent', className: 'bg-muted text-muted-foreground border-border' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800 border-red-200' },
+  delivery_delayed: { label: 'Delayed', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  delivered: { label: 'Delivered', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  opened: { label: 'Opened', className: 'bg-green-100 text-green-800 border-green-200' },
+  clicked: { label: 'Clicked', className: 'bg-green-100 text-green-800 border-green-200' },
+  bounced: { label: 'Bounced', className: 'bg-red-100 text-red-800 border-red-200' },
+  complained: { label: 'Marked as spam', className: 'bg-red-100 text-red-800 border-red-200' },
+};
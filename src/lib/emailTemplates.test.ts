@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  creditNoteSection,
+  defaultEmailTemplate,
+  EMAIL_TEMPLATE_TYPES,
+  fillTemplate,
+  renderEmail,
+  validateTemplate,
+} from '@shared/emailTemplates';
+
+describe('validateTemplate', () => {
+  it('accepts every default template', () => {
+    for (const type of EMAIL_TEMPLATE_TYPES) {
+      expect(validateTemplate(type, defaultEmailTemplate(type))).toEqual([]);
+    }
+  });
+
+  it('rejects an empty subject or body', () => {
+    expect(validateTemplate('report_email', { subject: ' ', body: '' })).toEqual([
+      "The subject can't be empty",
+      "The body can't be empty",
+    ]);
+  });
+
+  it('rejects variables the email does not have', () => {
+    expect(validateTemplate('report_email', { subject: 'Report {{portal_link}}', body: 'Hi {{client_nmae}}' })).toEqual([
+      "{{portal_link}} in the subject isn't available in this email",
+      "{{client_nmae}} in the body isn't available in this email",
+    ]);
+  });
+
+  it('rejects unmatched braces', () => {
+    expect(validateTemplate('report_email', { subject: 'Report', body: 'Hi {{client_name}' })).toEqual([
+      'The body has a variable with unmatched braces',
+    ]);
+  });
+
+  it('requires the link an invite exists to send', () => {
+    expect(validateTemplate('client_invite', { subject: 'Your estimate', body: 'Dear {{client_name}}' })).toEqual([
+      'The body must include {{portal_link}}',
+    ]);
+  });
+
+  it('allows spaces inside the braces', () => {
+    expect(validateTemplate('client_invite', { subject: 'Hi', body: 'Open {{ portal_link }}' })).toEqual([]);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('fills known variables and blanks missing ones', () => {
+    expect(fillTemplate('Dear {{client_name}}, job #{{ job_number }}{{amount}}', { client_name: 'Jordan', job_number: '1042' }))
+      .toBe('Dear Jordan, job #1042');
+  });
+});
+
+describe('renderEmail', () => {
+  const variables = {
+    client_name: 'Jordan <Client>',
+    business_name: 'Rug Shop',
+    job_number: '1042',
+    portal_link: 'https://example.com/client/abc',
+  };
+
+  it('escapes variable values in the HTML and keeps them as is in the text', () => {
+    const email = renderEmail('client_invite', defaultEmailTemplate('client_invite'), variables);
+
+    expect(email.subject).toBe('Your Rug Inspection Estimate is Ready - Rug Shop');
+    expect(email.html).toContain('Dear Jordan &lt;Client&gt;,');
+    expect(email.text).toContain('Dear Jordan <Client>,');
+  });
+
+  it('turns a link on its own line into a button', () => {
+    const email = renderEmail('client_invite', defaultEmailTemplate('client_invite'), variables);
+
+    expect(email.html).toContain('href="https://example.com/client/abc"');
+    expect(email.html).toContain('>View Your Estimate</a>');
+  });
+
+  it('adds sections after the body in both parts', () => {
+    const email = renderEmail('credit_note', defaultEmailTemplate('credit_note'), variables, [
+      creditNoteSection([{ description: 'R1 – Standard Wash', amount: 120 }], 120, 'Stain came back'),
+    ]);
+
+    expect(email.html).toContain('R1 – Standard Wash');
+    expect(email.text).toMatch(/- R1 – Standard Wash: \$120\.00\nTotal refunded: \$120\.00\n\nReason: Stain came back$/);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_REMINDER_CADENCES,
+  followUpAfter,
+  isReminderNote,
+  nextReminderAt,
+  pendingReminder,
+  reminderNote,
+  type FollowUpState,
+  type ReminderCadence,
+} from '@shared/followUps';
+
+const INVITED = '2026-03-01T10:00:00.000Z';
+
+const state = (fields: Partial<FollowUpState>): FollowUpState => ({
+  inviteSentAt: INVITED,
+  portalOpenedAt: null,
+  approvedAt: null,
+  balanceSentAt: null,
+  ...fields,
+});
+
+const active = (cadence: ReminderCadence): ReminderCadence => ({ ...cadence, isActive: true });
+
+describe('pendingReminder', () => {
+  it('waits on an unopened invite', () => {
+    expect(pendingReminder(state({}))).toEqual({ kind: 'invite_reminder', since: INVITED });
+  });
+
+  it('waits on the estimate once the portal is opened, from when the invite went out', () => {
+    expect(pendingReminder(state({ portalOpenedAt: '2026-03-02T09:00:00.000Z' })))
+      .toEqual({ kind: 'estimate_reminder', since: INVITED });
+  });
+
+  it('waits on an unpaid balance from when the invoice went out', () => {
+    expect(pendingReminder(state({
+      portalOpenedAt: '2026-03-02T09:00:00.000Z',
+      approvedAt: '2026-03-03T09:00:00.000Z',
+      balanceSentAt: '2026-03-20T12:00:00.000Z',
+    }))).toEqual({ kind: 'balance_reminder', since: '2026-03-20T12:00:00.000Z' });
+  });
+
+  it('has nothing to remind about once the estimate is approved', () => {
+    expect(pendingReminder(state({ portalOpenedAt: '2026-03-02T09:00:00.000Z', approvedAt: '2026-03-03T09:00:00.000Z' })))
+      .toBeNull();
+  });
+
+  it('has nothing to remind about without a valid invite', () => {
+    expect(pendingReminder(state({ inviteSentAt: null }))).toBeNull();
+  });
+});
+
+describe('nextReminderAt', () => {
+  const estimate = active(DEFAULT_REMINDER_CADENCES.estimate_reminder);
+
+  it('sends the first reminder the set number of days after the clock started', () => {
+    expect(nextReminderAt(estimate, INVITED, [])?.toISOString()).toBe('2026-03-06T10:00:00.000Z');
+  });
+
+  it('repeats after the last reminder sent', () => {
+    expect(nextReminderAt(estimate, INVITED, ['2026-03-06T11:00:00.000Z'])?.toISOString())
+      .toBe('2026-03-11T11:00:00.000Z');
+  });
+
+  it('stops once the cadence has run out', () => {
+    expect(nextReminderAt(estimate, INVITED, ['2026-03-06T11:00:00.000Z', '2026-03-11T11:00:00.000Z'])).toBeNull();
+  });
+
+  it('sends nothing while the cadence is switched off', () => {
+    expect(nextReminderAt(DEFAULT_REMINDER_CADENCES.balance_reminder, INVITED, [])).toBeNull();
+  });
+});
+
+describe('followUpAfter', () => {
+  it('has staff check in one repeat after the reminder', () => {
+    expect(followUpAfter(DEFAULT_REMINDER_CADENCES.balance_reminder, '2026-03-20T12:00:00.000Z').toISOString())
+      .toBe('2026-03-27T12:00:00.000Z');
+  });
+});
+
+describe('reminderNote', () => {
+  it('counts reminders and asks staff to step in after the last', () => {
+    expect(reminderNote('invite_reminder', 1, 2)).toBe('Unopened portal invite: reminder 1 of 2 sent');
+    expect(reminderNote('balance_reminder', 3, 3)).toBe('Unpaid balance: no reply after 3 reminders, contact the client');
+  });
+
+  it('tells its own notes from those staff wrote', () => {
+    expect(isReminderNote(reminderNote('estimate_reminder', 1, 2))).toBe(true);
+    expect(isReminderNote('Call about the fringe repair')).toBe(false);
+    expect(isReminderNote(null)).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+// Shrinks rug photos in the browser before they're uploaded. Phone cameras produce
+// 5-12 MB files, far more than an inspection or the analysis needs.
+//
+// Decoding honours the EXIF orientation, so the pixels are drawn upright, and
+// re-encoding through a canvas writes no metadata at all: orientation, GPS and the
+// camera's other tags are all dropped.
+
+export type ImageFormat = 'image/webp' | 'image/jpeg';
+
+export interface ImagePipelineOptions {
+  // Longest side of the uploaded photo, in pixels
+  maxEdge: number;
+  format: ImageFormat;
+  // 0-1, as for canvas.toBlob
+  quality: number;
+  thumbnailEdge: number;
+  thumbnailQuality: number;
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImagePipelineOptions = {
+  maxEdge: 2048,
+  format: 'image/webp',
+  quality: 0.82,
+  thumbnailEdge: 320,
+  thumbnailQuality: 0.7,
+};
+
+export interface ProcessedImage {
+  image: Blob;
+  thumbnail: Blob;
+  // File extension matching the encoded format, e.g. "webp"
+  extension: string;
+  width: number;
+  height: number;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+};
+
+// The thumbnail sits next to its photo: "user/123-rug.webp" -> "user/123-rug.thumb.webp".
+// Photos uploaded before thumbnails existed have none.
+export const thumbnailPath = (path: string) => path.replace(/(\.[^./]+)?$/, '.thumb$1');
+
+// Scales to fit within maxEdge, never up
+const fitWithin = (width: number, height: number, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const toBlob = (canvas: HTMLCanvasElement, format: ImageFormat, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, format, quality));
+
+const encode = async (
+  bitmap: ImageBitmap,
+  maxEdge: number,
+  format: ImageFormat,
+  quality: number
+): Promise<Blob> => {
+  const size = fitWithin(bitmap.width, bitmap.height, maxEdge);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, size.width, size.height);
+
+  const blob = await toBlob(canvas, format, quality);
+  if (!blob) throw new Error('Could not encode the photo');
+  return blob;
+};
+
+export const processImage = async (
+  file: Blob,
+  options: Partial<ImagePipelineOptions> = {}
+): Promise<ProcessedImage> => {
+  const settings = { ...DEFAULT_IMAGE_OPTIONS, ...options };
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    let format = settings.format;
+    let image = await encode(bitmap, settings.maxEdge, format, settings.quality);
+    // Browsers without a WebP encoder quietly hand back a PNG instead
+    if (image.type !== format) {
+      format = 'image/jpeg';
+      image = await encode(bitmap, settings.maxEdge, format, settings.quality);
+    }
+
+    const thumbnail = await encode(bitmap, settings.thumbnailEdge, format, settings.thumbnailQuality);
+    const size = fitWithin(bitmap.width, bitmap.height, settings.maxEdge);
+
+    return { image, thumbnail, extension: EXTENSIONS[format], ...size };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,82 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type JobStatusDefinition = Tables<'job_statuses'>;
+export type JobStatusHistoryEntry = Tables<'job_status_history'>;
+
+// Reserved final status - reviews, the client portal and notifications key off it
+export const COMPLETED_STATUS = 'completed';
+
+export const STATUS_COLORS: Record<string, { label: string; badge: string; dot: string }> = {
+  gray: { label: 'Gray', badge: 'border-gray-400 text-gray-600', dot: 'bg-gray-400' },
+  blue: { label: 'Blue', badge: 'border-blue-500 text-blue-600', dot: 'bg-blue-500' },
+  purple: { label: 'Purple', badge: 'border-purple-500 text-purple-600', dot: 'bg-purple-500' },
+  amber: { label: 'Amber', badge: 'border-amber-500 text-amber-600', dot: 'bg-amber-500' },
+  cyan: { label: 'Cyan', badge: 'border-cyan-500 text-cyan-600', dot: 'bg-cyan-500' },
+  orange: { label: 'Orange', badge: 'border-orange-500 text-orange-600', dot: 'bg-orange-500' },
+  indigo: { label: 'Indigo', badge: 'border-indigo-500 text-indigo-600', dot: 'bg-indigo-500' },
+  green: { label: 'Green', badge: 'border-green-500 text-green-600', dot: 'bg-green-500' },
+  emerald: { label: 'Emerald', badge: 'border-emerald-600 text-emerald-700', dot: 'bg-emerald-600' },
+  red: { label: 'Red', badge: 'border-red-500 text-red-600', dot: 'bg-red-500' },
+};
+
+export const getStatusColor = (color: string | null | undefined) => STATUS_COLORS[color || ''] || STATUS_COLORS.gray;
+
+// "in_wash" -> "In wash", for statuses a pipeline no longer (or never did) define
+export const humanizeStatus = (key: string): string => {
+  const words = key.replace(/[-_]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Slug used as the stored key for a new status label
+export const toStatusKey = (label: string): string =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+export const getStatusDefinition = (
+  pipeline: JobStatusDefinition[],
+  key: string
+): Pick<JobStatusDefinition, 'key' | 'label' | 'color'> =>
+  pipeline.find(s => s.key === key) || { key, label: humanizeStatus(key), color: 'gray' };
+
+// Statuses a job may move to next. Jobs on a status outside the pipeline can go anywhere.
+export const getNextStatuses = (pipeline: JobStatusDefinition[], currentKey: string): JobStatusDefinition[] => {
+  const current = pipeline.find(s => s.key === currentKey);
+  if (!current) return pipeline.filter(s => s.key !== currentKey);
+  return pipeline.filter(s => current.next_statuses.includes(s.key));
+};
+
+export interface TimelineStep {
+  key: string;
+  label: string;
+  // When the job last arrived at this step, if it did
+  date: string | null;
+  done: boolean;
+  current: boolean;
+}
+
+// Client-facing progress: the pipeline's client-visible steps, dated from the status history.
+// Steps the job skipped past still count as done.
+export const buildClientTimeline = (
+  pipeline: JobStatusDefinition[],
+  history: Pick<JobStatusHistoryEntry, 'to_status' | 'created_at'>[],
+  currentKey: string
+): TimelineStep[] => {
+  const currentOrder = pipeline.find(s => s.key === currentKey)?.sort_order ?? -1;
+  const arrivals = new Map<string, string>();
+  for (const entry of history) {
+    const previous = arrivals.get(entry.to_status);
+    if (!previous || previous < entry.created_at) {
+      arrivals.set(entry.to_status, entry.created_at);
+    }
+  }
+
+  return [...pipeline]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .filter(s => s.client_label)
+    .map(s => ({
+      key: s.key,
+      label: s.client_label as string,
+      date: arrivals.get(s.key) || null,
+      done: s.sort_order <= currentOrder || arrivals.has(s.key),
+      current: s.key === currentKey,
+    }));
+};
@@ -0,0 +1,56 @@
+// Minimal promise wrapper around IndexedDB for offline intake. Holds the outbox of
+// rows waiting to reach the server and the photos captured for them.
+
+const DB_NAME = 'rugboost-offline';
+const DB_VERSION = 1;
+
+export type OfflineStoreName = 'outbox' | 'photos';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('outbox')) db.createObjectStore('outbox', { keyPath: 'id' });
+        if (!db.objectStoreNames.contains('photos')) db.createObjectStore('photos', { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Resolves once the transaction has committed, so a write survives the tab closing
+const run = async <T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getAll = <T>(storeName: OfflineStoreName) =>
+  run<T[]>(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const get = <T>(storeName: OfflineStoreName, key: string) =>
+  run<T | undefined>(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+
+export const put = <T>(storeName: OfflineStoreName, value: T) =>
+  run(storeName, 'readwrite', store => store.put(value));
+
+export const remove = (storeName: OfflineStoreName, key: string) =>
+  run(storeName, 'readwrite', store => store.delete(key));
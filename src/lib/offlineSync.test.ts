@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { fakeSupabase, type FakeSupabase } from '@/test/fakeSupabase';
+import type { SyncResult } from '@/lib/offlineSync';
+
+// The server the outbox talks to. Tables listed in failures answer their next
+// requests with those errors instead.
+const server = vi.hoisted(() => ({
+  fake: null as FakeSupabase | null,
+  calls: [] as string[],
+  failures: {} as Record<string, string[]>,
+}));
+
+vi.mock('@/integrations/supabase/client', () => {
+  const failedQuery = (message: string) => {
+    const query = {
+      select: () => query,
+      insert: () => query,
+      upsert: () => query,
+      update: () => query,
+      eq: () => query,
+      maybeSingle: () => query,
+      then: <T>(resolve: (value: { data: null; error: { message: string } }) => T) =>
+        Promise.resolve({ data: null, error: { message } }).then(resolve),
+    };
+    return query;
+  };
+
+  return {
+    supabase: {
+      from: (table: string) => {
+        server.calls.push(table);
+        const failure = server.failures[table]?.shift();
+        return failure ? failedQuery(failure) : server.fake!.client.from(table);
+      },
+    },
+  };
+});
+
+vi.mock('@/lib/photoStorage', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/photoStorage')>()),
+  uploadRugPhoto: async (_photo: Blob, path: string) => {
+    server.calls.push('upload');
+    return { path, width: 2048, height: 1536 };
+  },
+}));
+
+const USER_ID = 'user-1';
+
+let outbox: typeof import('@/lib/offlineSync');
+let now: number;
+
+const photo = () => new File(['jpeg'], 'front.jpg', { type: 'image/jpeg' });
+
+beforeEach(async () => {
+  // A fresh device: an empty database and no outbox loaded
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  outbox = await import('@/lib/offlineSync');
+
+  server.fake = fakeSupabase();
+  server.calls = [];
+  server.failures = {};
+
+  now = Date.parse('2026-04-10T09:00:00Z');
+  vi.spyOn(Date, 'now').mockImplementation(() => now);
+
+  await outbox.startOutbox(USER_ID);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const synced = () => {
+  const results: SyncResult[] = [];
+  outbox.onEntrySynced(result => results.push(result));
+  return results;
+};
+
+describe('syncOutbox', () => {
+  it('applies fields nobody else touched and keeps those another device changed', async () => {
+    server.fake = fakeSupabase({
+      jobs: [{ id: 'job-1', client_name: 'Jordan', notes: 'Gate code 4411' }],
+    });
+    const results = synced();
+
+    await outbox.queueUpdate(
+      'jobs',
+      'job-1',
+      'job-1',
+      'Job 1042',
+      { client_name: 'Jordan Client', notes: 'Leave at the side door' },
+      { client_name: 'Jordan', notes: null }
+    );
+    await outbox.syncOutbox();
+
+    expect(server.fake.tables.jobs[0]).toMatchObject({ client_name: 'Jordan Client', notes: 'Gate code 4411' });
+    expect(results.map(r => [r.entry.label, r.conflicts, r.rowDeleted])).toEqual([['Job 1042', ['notes'], false]]);
+    expect(outbox.getOutboxSnapshot()).toEqual([]);
+  });
+
+  it('drops changes to a row deleted on another device', async () => {
+    const results = synced();
+
+    await outbox.queueUpdate('jobs', 'job-1', 'job-1', 'Job 1042', { notes: 'Fragile' }, { notes: null });
+    await outbox.syncOutbox();
+
+    expect(results.map(r => r.rowDeleted)).toEqual([true]);
+    expect(server.fake!.tables.jobs).toEqual([]);
+  });
+
+  it('pushes a job before its rugs, and a rug before its photo rows', async () => {
+    await outbox.queueJobInsert('job-1', 'Job 1042', { user_id: USER_ID, job_number: '1042' });
+    now += 1000;
+    await outbox.queueRugInsert('job-1', 'Rug R-1', { user_id: USER_ID, job_id: 'job-1', rug_number: 'R-1' }, [photo()]);
+
+    // The job is turned down the first time, so its rug has to wait
+    server.failures.jobs = ['permission denied'];
+    await outbox.syncOutbox();
+
+    expect(server.calls).toEqual(['jobs']);
+    expect(outbox.getOutboxSnapshot().map(e => e.label)).toEqual(['Job 1042', 'Rug R-1']);
+
+    now += 60_000;
+    server.calls = [];
+    await outbox.syncOutbox();
+
+    expect(server.calls).toEqual(['jobs', 'upload', 'inspections', 'rug_photos']);
+    const [rug] = server.fake!.tables.inspections;
+    expect(server.fake!.tables.rug_photos).toEqual([
+      expect.objectContaining({ inspection_id: rug.id, job_id: 'job-1', width: 2048, sort_order: 0 }),
+    ]);
+    expect(outbox.getOutboxSnapshot()).toEqual([]);
+  });
+
+  it('backs off after each rejection and marks the entry failed after three', async () => {
+    await outbox.queueJobInsert('job-1', 'Job 1042', { user_id: USER_ID, job_number: '1042' });
+    server.failures.jobs = ['permission denied', 'permission denied', 'permission denied'];
+
+    await outbox.syncOutbox();
+    const [first] = outbox.getOutboxSnapshot();
+    expect(first).toMatchObject({ status: 'pending', attempts: 1, lastError: 'permission denied', nextAttemptAt: now + 10_000 });
+
+    // Not due yet
+    await outbox.syncOutbox();
+    expect(server.calls).toEqual(['jobs']);
+
+    now += 10_000;
+    await outbox.syncOutbox();
+    expect(outbox.getOutboxSnapshot()[0]).toMatchObject({ status: 'pending', attempts: 2, nextAttemptAt: now + 20_000 });
+
+    now += 20_000;
+    await outbox.syncOutbox();
+    expect(outbox.getOutboxSnapshot()[0]).toMatchObject({ status: 'failed', attempts: 3, nextAttemptAt: now + 40_000 });
+
+    // Still retried once its delay is up
+    now += 40_000;
+    await outbox.syncOutbox();
+    expect(outbox.getOutboxSnapshot()).toEqual([]);
+    expect(server.fake!.tables.jobs).toHaveLength(1);
+  });
+
+  it('stops at a dropped connection without counting it against the entry', async () => {
+    await outbox.queueJobInsert('job-1', 'Job 1042', { user_id: USER_ID, job_number: '1042' });
+    now += 1000;
+    await outbox.queueJobInsert('job-2', 'Job 1043', { user_id: USER_ID, job_number: '1043' });
+    server.failures.jobs = ['Failed to fetch'];
+
+    await outbox.syncOutbox();
+
+    expect(server.calls).toEqual(['jobs']);
+    expect(outbox.getOutboxSnapshot().map(e => [e.label, e.status, e.attempts, e.nextAttemptAt]))
+      .toEqual([['Job 1042', 'pending', 0, 0], ['Job 1043', 'pending', 0, 0]]);
+  });
+});
+
+describe('startOutbox', () => {
+  it("only loads and pushes the signed-in user's entries", async () => {
+    await outbox.queueJobInsert('job-1', 'Job 1042', { user_id: USER_ID, job_number: '1042' });
+    expect(outbox.stopOutbox()).toBe(1);
+
+    await outbox.startOutbox('user-2');
+    expect(outbox.getOutboxSnapshot()).toEqual([]);
+    expect(server.calls).toEqual([]);
+    outbox.stopOutbox();
+
+    await outbox.startOutbox(USER_ID);
+    expect(server.calls).toEqual(['jobs']);
+    expect(server.fake!.tables.jobs).toEqual([expect.objectContaining({ id: 'job-1', job_number: '1042' })]);
+  });
+});
@@ -0,0 +1,365 @@
+// Durable outbox for offline intake. Jobs, rugs and their photos are written to
+// IndexedDB first and pushed to Supabase whenever there is a connection, so nothing
+// an inspector captures is lost to a dropped signal or a closed tab.
+//
+// Inserts carry a client-generated id, so a retry after a lost response is harmless.
+// Updates remember what each field was when it was edited; on sync, fields nobody
+// else touched are applied and fields another device changed in the meantime keep
+// that device's value and are reported back as conflicts.
+//
+// Entries belong to the user who queued them. Only the signed-in user's entries are
+// loaded and pushed; on sign-out the rest stay on the device and sync the next time
+// that user signs in here.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import * as offlineStore from '@/lib/offlineStore';
+import { photoStem, uploadRugPhoto } from '@/lib/photoStorage';
+import type { CapturedPhotoMeta } from '@/lib/rugPhotos';
+
+export type OutboxTable = 'jobs' | 'inspections';
+
+// 'failed' entries are still retried, with a growing delay
+export type OutboxStatus = 'pending' | 'syncing' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  userId: string;
+  kind: 'insert' | 'update';
+  table: OutboxTable;
+  rowId: string;
+  jobId: string;
+  // Shown in the sync status list, e.g. "Rug R-3"
+  label: string;
+  // The row to insert, or the changed fields
+  values: Record<string, unknown>;
+  // Updates: the changed fields as they were before the edit
+  base?: Record<string, unknown>;
+  photoIds: string[];
+  // Photos already in storage, by photo id
+  uploadedPaths: Record<string, string>;
+  // Stored size of each uploaded photo, by photo id
+  uploadedSizes?: Record<string, { width: number | null; height: number | null }>;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: number;
+  createdAt: number;
+}
+
+interface StoredPhoto {
+  id: string;
+  userId: string;
+  entryId: string;
+  name: string;
+  blob: Blob;
+  // Step, caption and quality from capture; saved to the photo's rug_photos row
+  meta?: CapturedPhotoMeta | null;
+}
+
+export interface SyncResult {
+  entry: OutboxEntry;
+  // Fields kept at another device's value
+  conflicts: string[];
+  // The row was deleted elsewhere, so the change was dropped
+  rowDeleted: boolean;
+}
+
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+const FAILED_AFTER_ATTEMPTS = 3;
+
+let currentUserId: string | null = null;
+let entries: OutboxEntry[] = [];
+const listeners = new Set<() => void>();
+const syncListeners = new Set<(result: SyncResult) => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// For useSyncExternalStore
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const getOutboxSnapshot = () => entries;
+
+export const onEntrySynced = (listener: (result: SyncResult) => void) => {
+  syncListeners.add(listener);
+  return () => syncListeners.delete(listener);
+};
+
+const byAge = (a: OutboxEntry, b: OutboxEntry) => a.createdAt - b.createdAt;
+
+export const loadOutbox = async () => {
+  const userId = currentUserId;
+  const stored = userId ? await offlineStore.getAll<OutboxEntry>('outbox') : [];
+  if (userId !== currentUserId) return;
+  entries = stored.filter(e => e.userId === userId).sort(byAge);
+  notify();
+};
+
+const saveEntry = async (entry: OutboxEntry) => {
+  await offlineStore.put('outbox', entry);
+  // A sync still finishing after sign-out mustn't bring that user's entries back
+  if (entry.userId !== currentUserId) return;
+  entries = [...entries.filter(e => e.id !== entry.id), entry].sort(byAge);
+  notify();
+};
+
+const removeEntry = async (entry: OutboxEntry) => {
+  await Promise.all(entry.photoIds.map(id => offlineStore.remove('photos', id)));
+  await offlineStore.remove('outbox', entry.id);
+  entries = entries.filter(e => e.id !== entry.id);
+  notify();
+};
+
+const signedInUser = () => {
+  if (!currentUserId) throw new Error('Sign in to save changes on this device');
+  return currentUserId;
+};
+
+const newEntry = (fields: Pick<OutboxEntry, 'kind' | 'table' | 'rowId' | 'jobId' | 'label' | 'values'> & Partial<OutboxEntry>): OutboxEntry => ({
+  id: crypto.randomUUID(),
+  userId: signedInUser(),
+  photoIds: [],
+  uploadedPaths: {},
+  status: 'pending',
+  attempts: 0,
+  lastError: null,
+  nextAttemptAt: 0,
+  createdAt: Date.now(),
+  ...fields,
+});
+
+export const queueJobInsert = async (jobId: string, label: string, values: Record<string, unknown>) => {
+  await saveEntry(newEntry({ kind: 'insert', table: 'jobs', rowId: jobId, jobId, label, values }));
+};
+
+export const queueRugInsert = async (
+  jobId: string,
+  label: string,
+  values: Record<string, unknown>,
+  photos: File[],
+  photoMeta: (CapturedPhotoMeta | null)[] = []
+) => {
+  const entry = newEntry({ kind: 'insert', table: 'inspections', rowId: crypto.randomUUID(), jobId, label, values });
+  for (const [index, photo] of photos.entries()) {
+    const stored: StoredPhoto = {
+      id: crypto.randomUUID(),
+      userId: entry.userId,
+      entryId: entry.id,
+      name: photo.name,
+      blob: photo,
+      meta: photoMeta[index] ?? null,
+    };
+    await offlineStore.put('photos', stored);
+    entry.photoIds.push(stored.id);
+  }
+  await saveEntry(entry);
+};
+
+// Folds into a queued insert or update of the same row when there is one
+export const queueUpdate = async (
+  table: OutboxTable,
+  rowId: string,
+  jobId: string,
+  label: string,
+  changes: Record<string, unknown>,
+  base: Record<string, unknown>
+) => {
+  const queued = entries.find(e => e.table === table && e.rowId === rowId && e.status !== 'syncing');
+  if (queued?.kind === 'insert') {
+    await saveEntry({ ...queued, label, values: { ...queued.values, ...changes } });
+  } else if (queued) {
+    // The first edit's base is what the server had, so it wins over later ones
+    await saveEntry({ ...queued, label, values: { ...queued.values, ...changes }, base: { ...base, ...queued.base } });
+  } else {
+    await saveEntry(newEntry({ kind: 'update', table, rowId, jobId, label, values: changes, base }));
+  }
+};
+
+export const pendingJobInsert = (jobId: string) =>
+  entries.find(e => e.kind === 'insert' && e.table === 'jobs' && e.rowId === jobId);
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : (error as { message?: string })?.message || String(error);
+
+// The request never reached the server, as opposed to the server rejecting it
+export const isNetworkError = (error: unknown) =>
+  !navigator.onLine || /failed to fetch|network|load failed/i.test(errorMessage(error));
+
+// Values round-trip through JSON in the database, so compare them that way
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Entries are stored untyped; their table decides the row's shape
+const fromTable = (table: OutboxTable) => supabase.from(table as 'inspections');
+
+const uploadPhotos = async (entry: OutboxEntry) => {
+  const userId = entry.values.user_id as string;
+  for (const photoId of entry.photoIds) {
+    if (entry.uploadedPaths[photoId]) continue;
+
+    const photo = await offlineStore.get<StoredPhoto>('photos', photoId);
+    if (!photo) throw new Error('A photo for this rug is missing from the device');
+
+    // A fixed path makes a retried upload overwrite its own half-finished attempt
+    const uploaded = await uploadRugPhoto(photo.blob, `${userId}/${photoId}-${photoStem(photo.name)}`, { upsert: true });
+
+    entry.uploadedPaths = { ...entry.uploadedPaths, [photoId]: uploaded.path };
+    entry.uploadedSizes = { ...entry.uploadedSizes, [photoId]: { width: uploaded.width, height: uploaded.height } };
+    await saveEntry(entry);
+  }
+};
+
+// One rug_photos row per photo, keyed by the photo's outbox id so a retry updates
+// rather than duplicates. A trigger fills the inspection's photo_urls from these.
+const savePhotoRows = async (entry: OutboxEntry) => {
+  if (entry.photoIds.length === 0) return;
+
+  const rows = await Promise.all(entry.photoIds.map(async (photoId, index) => {
+    const meta = (await offlineStore.get<StoredPhoto>('photos', photoId))?.meta;
+    const size = entry.uploadedSizes?.[photoId];
+    return {
+      id: photoId,
+      inspection_id: entry.rowId,
+      job_id: entry.jobId,
+      storage_path: entry.uploadedPaths[photoId],
+      step_id: meta?.stepId ?? null,
+      caption: meta?.caption ?? null,
+      captured_at: meta?.capturedAt ?? null,
+      width: size?.width ?? null,
+      height: size?.height ?? null,
+      quality_score: meta?.quality?.score ?? null,
+      quality: (meta?.quality ?? null) as unknown as Json,
+      sort_order: index,
+    };
+  }));
+
+  const { error } = await supabase.from('rug_photos').upsert(rows);
+  if (error) throw error;
+};
+
+const applyInsert = async (entry: OutboxEntry) => {
+  const values: Record<string, unknown> = { ...entry.values, id: entry.rowId };
+  if (entry.table === 'inspections') await uploadPhotos(entry);
+
+  const { error } = await fromTable(entry.table).insert(values as never);
+  // Already there: an earlier attempt got through but its response was lost
+  if (error && error.code !== '23505') throw error;
+
+  if (entry.table === 'inspections') await savePhotoRows(entry);
+};
+
+const applyUpdate = async (entry: OutboxEntry): Promise<Omit<SyncResult, 'entry'>> => {
+  const columns = Object.keys(entry.values);
+  const { data: current, error } = await fromTable(entry.table)
+    .select(columns.join(','))
+    .eq('id', entry.rowId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!current) return { conflicts: [], rowDeleted: true };
+
+  const row = current as unknown as Record<string, unknown>;
+  const changes: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+  for (const column of columns) {
+    if (sameValue(row[column], entry.base?.[column])) {
+      changes[column] = entry.values[column];
+    } else if (!sameValue(row[column], entry.values[column])) {
+      conflicts.push(column);
+    }
+  }
+
+  if (Object.keys(changes).length > 0) {
+    const { error: updateError } = await fromTable(entry.table).update(changes as never).eq('id', entry.rowId);
+    if (updateError) throw updateError;
+  }
+
+  return { conflicts, rowDeleted: false };
+};
+
+let draining: Promise<void> | null = null;
+
+const drain = async () => {
+  const synced = new Set<string>();
+  for (const entry of [...entries]) {
+    if (!navigator.onLine || entry.userId !== currentUserId) return;
+    if (entry.nextAttemptAt > Date.now()) continue;
+
+    // Rugs and edits wait for the row they belong to
+    const waitsOn = entries.find(e =>
+      e.kind === 'insert' && !synced.has(e.id) && e.id !== entry.id &&
+      ((e.table === 'jobs' && e.rowId === entry.jobId) || (e.table === entry.table && e.rowId === entry.rowId))
+    );
+    if (waitsOn) continue;
+
+    const active: OutboxEntry = { ...entry, status: 'syncing' };
+    await saveEntry(active);
+    try {
+      const outcome = active.kind === 'insert'
+        ? (await applyInsert(active), { conflicts: [], rowDeleted: false })
+        : await applyUpdate(active);
+
+      synced.add(active.id);
+      await removeEntry(active);
+      syncListeners.forEach(listener => listener({ entry: active, ...outcome }));
+    } catch (error) {
+      const latest = entries.find(e => e.id === active.id) || active;
+      if (isNetworkError(error)) {
+        // Not the entry's fault; try again as soon as the connection is back
+        await saveEntry({ ...latest, status: 'pending', lastError: null });
+        return;
+      }
+      const attempts = latest.attempts + 1;
+      console.error(`Offline sync failed for ${entry.label}:`, error);
+      await saveEntry({
+        ...latest,
+        attempts,
+        status: attempts >= FAILED_AFTER_ATTEMPTS ? 'failed' : 'pending',
+        lastError: errorMessage(error),
+        nextAttemptAt: Date.now() + Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS),
+      });
+    }
+  }
+};
+
+// Pushes whatever is due; concurrent calls share one pass
+export const syncOutbox = () => {
+  if (!draining) draining = drain().finally(() => { draining = null; });
+  return draining;
+};
+
+export const retryEntry = async (id: string) => {
+  const entry = entries.find(e => e.id === id);
+  if (!entry) return;
+  await saveEntry({ ...entry, status: 'pending', nextAttemptAt: 0 });
+  await syncOutbox();
+};
+
+export const discardEntry = async (id: string) => {
+  const entry = entries.find(e => e.id === id);
+  if (entry && entry.status !== 'syncing') await removeEntry(entry);
+};
+
+// Loads and pushes the signed-in user's entries. A tab closed mid-sync leaves
+// entries marked as syncing.
+export const startOutbox = async (userId: string) => {
+  currentUserId = userId;
+  await loadOutbox();
+  for (const entry of entries.filter(e => e.status === 'syncing')) {
+    await saveEntry({ ...entry, status: 'pending' });
+  }
+  await syncOutbox();
+};
+
+// On sign-out: unloads the user's entries, which stay on the device for their next
+// sign-in, and returns how many there were
+export const stopOutbox = () => {
+  const unsynced = entries.length;
+  currentUserId = null;
+  entries = [];
+  notify();
+  return unsynced;
+};
@@ -0,0 +1,39 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Organization = Tables<'organizations'>;
+export type OrganizationMember = Tables<'organization_members'>;
+export type OrganizationInvitation = Tables<'organization_invitations'>;
+export type OrgRole = OrganizationMember['role'];
+
+export const ORG_ROLE_LABELS: Record<OrgRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  inspector: 'Inspector',
+  front_desk: 'Front desk',
+};
+
+export const ORG_ROLE_DESCRIPTIONS: Record<OrgRole, string> = {
+  owner: 'Full access, including billing and payouts',
+  manager: 'Runs the team, prices and templates',
+  inspector: 'Inspects rugs and builds estimates',
+  front_desk: 'Handles intake, scheduling, payments and client messages',
+};
+
+// Roles that can be handed out through an invitation - there is only ever one owner
+export const INVITABLE_ROLES: OrgRole[] = ['manager', 'inspector', 'front_desk'];
+
+// Mirrors the role checks in the organization RLS policies so the UI only offers
+// what the database will accept
+export const getOrgPermissions = (role: OrgRole | null) => ({
+  canManageTeam: role === 'owner' || role === 'manager',
+  canManageSettings: role === 'owner' || role === 'manager',
+  // Branding and payout details live on the owner's profile
+  canManageBusinessProfile: role === 'owner',
+  canInspect: role === 'owner' || role === 'manager' || role === 'inspector',
+  canViewPayments: role === 'owner' || role === 'manager' || role === 'front_desk',
+  // Checked again by the refund-payment edge function
+  canRefundPayments: role === 'owner' || role === 'manager',
+  canDeleteJobs: role === 'owner' || role === 'manager',
+});
+
+export type OrgPermissions = ReturnType<typeof getOrgPermissions>;
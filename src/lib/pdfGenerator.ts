@@ -1,18 +1,12 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { format } from 'date-fns';
+import { parseStructuredReport, hasRugProfile, RUG_PROFILE_LABELS, RugProfile } from '@/lib/structuredReport';
+import { describeQuote, priceService, type PricingUnit } from '@shared/pricing';
+import { alignAnnotations, type PhotoAnnotations } from '@shared/rugPhotos';
+import { beforeAfterPairs, rugPhotoList, type RugPhotoItem, type RugPhotoRow } from '@/lib/rugPhotos';
 
-export interface ImageAnnotation {
-  label: string;
-  location: string;
-  x: number;
-  y: number;
-}
-
-export interface PhotoAnnotations {
-  photoIndex: number;
-  annotations: ImageAnnotation[];
-}
+export type { ImageAnnotation, PhotoAnnotations } from '@shared/rugPhotos';
 
 export interface Inspection {
   id: string;
@@ -25,9 +19,12 @@ export interface Inspection {
   width: number | null;
   notes: string | null;
   photo_urls: string[] | null;
+  // Labels the photos and keeps markers on the right one; photo_urls alone is read as untagged
+  rug_photos?: RugPhotoRow[] | null;
   analysis_report: string | null;
   created_at: string;
   image_annotations?: PhotoAnnotations[] | unknown | null;
+  structured_report?: unknown;
 }
 
 interface Job {
@@ -51,7 +48,9 @@ export interface BusinessBranding {
 export interface UpsellService {
   name: string;
   unitPrice: number;
-  description?: string;
+  unit: PricingUnit;
+  minimumCharge?: number | null;
+  description?: string | null;
 }
 
 // ========================
@@ -275,6 +274,18 @@ const extractAllServiceDescriptions = (rugs: Inspection[]): ServiceDescription[]
   const serviceMap = new Map<string, ServiceDescription>();
   
   for (const rug of rugs) {
+    // Structured services carry their own descriptions
+    const structured = parseStructuredReport(rug.structured_report);
+    if (structured) {
+      for (const service of structured.services) {
+        const key = service.name.toLowerCase();
+        if (service.description && !serviceMap.has(key)) {
+          serviceMap.set(key, { name: service.name, description: service.description });
+        }
+      }
+      continue;
+    }
+
     if (!rug.analysis_report) continue;
     
     const report = rug.analysis_report;
@@ -317,6 +328,8 @@ const extractAllServiceDescriptions = (rugs: Inspection[]): ServiceDescription[]
 interface CostLine {
   service: string;
   cost: number;
+  // e.g. "96 sq ft × $4.00" when priced from the price list
+  detail?: string;
 }
 
 interface RugCostBreakdown {
@@ -329,6 +342,27 @@ interface RugCostBreakdown {
 }
 
 const extractRugCosts = (rug: Inspection): RugCostBreakdown | null => {
+  const dimensions = rug.length && rug.width 
+    ? `${rug.length}' × ${rug.width}'`
+    : '';
+
+  const structured = parseStructuredReport(rug.structured_report);
+  if (structured) {
+    const structuredItems = structured.services.map(service => ({
+      service: service.name,
+      cost: service.quantity * service.unitPrice,
+      detail: service.pricing ? describeQuote(service.pricing) : undefined,
+    }));
+    return {
+      rugNumber: rug.rug_number,
+      rugType: rug.rug_type,
+      dimensions,
+      items: structuredItems,
+      subtotal: structuredItems.reduce((sum, item) => sum + item.cost, 0),
+    };
+  }
+
+  // Legacy reports: scrape cost lines from the letter text
   if (!rug.analysis_report) return null;
   
   const lines = rug.analysis_report.split('\n');
@@ -367,10 +401,6 @@ const extractRugCosts = (rug: Inspection): RugCostBreakdown | null => {
     subtotal = items.reduce((sum, item) => sum + item.cost, 0);
   }
   
-  const dimensions = rug.length && rug.width 
-    ? `${rug.length}' × ${rug.width}'`
-    : '';
-  
   return {
     rugNumber: rug.rug_number,
     rugType: rug.rug_type,
@@ -381,22 +411,13 @@ const extractRugCosts = (rug: Inspection): RugCostBreakdown | null => {
   };
 };
 
-// Photo labels
-const PHOTO_LABELS = [
-  'Overall Front',
-  'Overall Back', 
-  'Detail - Fringe',
-  'Detail - Edge',
-  'Issue Area'
-];
-
 // ========================
 // PHOTO SECTION
 // ========================
 
 const addPhotosToPDF = async (
   doc: jsPDF,
-  photoUrls: string[],
+  photos: RugPhotoItem[],
   startY: number,
   margin: number,
   pageWidth: number,
@@ -408,7 +429,7 @@ const addPhotosToPDF = async (
 ): Promise<number> => {
   let yPos = startY;
   
-  const annotations: PhotoAnnotations[] = Array.isArray(imageAnnotations) ? imageAnnotations : [];
+  const annotations = alignAnnotations(imageAnnotations, photos.map(photo => photo.id));
   
   if (!skipHeader) {
     doc.setFontSize(12);
@@ -422,7 +443,7 @@ const addPhotosToPDF = async (
   const photoHeight = photoWidth * 0.75;
   const spacing = 10;
   
-  for (let i = 0; i < photoUrls.length; i += 2) {
+  for (let i = 0; i < photos.length; i += 2) {
     const maxLegendHeight = 25;
     const rowHeight = photoHeight + maxLegendHeight + 8;
     
@@ -432,9 +453,9 @@ const addPhotosToPDF = async (
       yPos = 30;
     }
     
-    for (let j = 0; j < 2 && (i + j) < photoUrls.length; j++) {
+    for (let j = 0; j < 2 && (i + j) < photos.length; j++) {
       const photoIndex = i + j;
-      const url = photoUrls[photoIndex];
+      const url = photos[photoIndex].path;
       const xPos = margin + j * (photoWidth + spacing);
       
       const photoAnnotation = annotations.find(a => a.photoIndex === photoIndex);
@@ -443,7 +464,7 @@ const addPhotosToPDF = async (
       try {
         const base64 = await loadImageAsBase64(url, forEmail);
         if (base64) {
-          const photoLabel = PHOTO_LABELS[photoIndex] || `Photo ${photoIndex + 1}`;
+          const photoLabel = photos[photoIndex].label;
           doc.setFontSize(8);
           doc.setFont(FONT.family, FONT.bold);
           doc.setTextColor(...COLORS.textMuted);
@@ -529,6 +550,82 @@ const addPhotosToPDF = async (
   return yPos;
 };
 
+// Each guided angle photographed again after service, side by side with its intake
+// photo. Adds nothing when no rug has after-service photos yet.
+const addBeforeAfterToPDF = async (
+  doc: jsPDF,
+  rugs: Inspection[],
+  margin: number,
+  pageWidth: number,
+  pageHeight: number,
+  forEmail: boolean = false
+) => {
+  const rugPairs = rugs
+    .map(rug => ({ rug, pairs: beforeAfterPairs(rug.rug_photos) }))
+    .filter(({ pairs }) => pairs.length > 0);
+  if (rugPairs.length === 0) return;
+
+  const contentWidth = pageWidth - margin * 2;
+  const photoWidth = (contentWidth - 10) / 2;
+  const photoHeight = photoWidth * 0.75;
+  const rowHeight = photoHeight + 16;
+
+  doc.addPage();
+  drawElegantBorder(doc, pageWidth, pageHeight);
+  let yPos = drawSectionHeader(doc, 'BEFORE & AFTER', margin, 30, contentWidth) + 8;
+
+  for (const { rug, pairs } of rugPairs) {
+    if (yPos + rowHeight + 20 > pageHeight - 30) {
+      doc.addPage();
+      drawElegantBorder(doc, pageWidth, pageHeight);
+      yPos = 30;
+    }
+
+    yPos = drawRugEntryHeader(doc, `Rug #${rug.rug_number}: ${rug.rug_type}`, margin, yPos, contentWidth) + 4;
+
+    for (const pair of pairs) {
+      if (yPos + rowHeight > pageHeight - 30) {
+        doc.addPage();
+        drawElegantBorder(doc, pageWidth, pageHeight);
+        yPos = 30;
+      }
+
+      doc.setFontSize(9);
+      doc.setFont(FONT.family, FONT.bold);
+      doc.setTextColor(...COLORS.navy);
+      doc.text(pair.label, margin, yPos);
+
+      const photoY = yPos + 6;
+      const sides = [
+        { title: 'BEFORE', path: pair.before },
+        { title: 'AFTER', path: pair.after },
+      ];
+      for (const [index, side] of sides.entries()) {
+        const xPos = margin + index * (photoWidth + 10);
+        doc.setFontSize(7);
+        doc.setFont(FONT.family, FONT.bold);
+        doc.setTextColor(...COLORS.textMuted);
+        doc.text(side.title, xPos, photoY - 1);
+
+        try {
+          const base64 = await loadImageAsBase64(side.path, forEmail);
+          if (!base64) continue;
+          doc.addImage(base64, 'JPEG', xPos, photoY, photoWidth, photoHeight);
+          doc.setDrawColor(...(index === 0 ? COLORS.border : COLORS.teal));
+          doc.setLineWidth(0.5);
+          doc.rect(xPos, photoY, photoWidth, photoHeight, 'S');
+        } catch (error) {
+          console.error('Error adding before/after image to PDF:', error);
+        }
+      }
+
+      yPos = photoY + photoHeight + 10;
+    }
+
+    yPos += 6;
+  }
+};
+
 // ========================
 // MAIN PDF GENERATION - LUXURY MEGERIAN FORMAT
 // ========================
@@ -766,6 +863,14 @@ export const generateJobPDF = async (
       doc.setTextColor(...COLORS.gold);
       doc.text(`$${item.cost.toFixed(2)}`, pageWidth - margin, yPos, { align: 'right' });
       yPos += 5;
+
+      if (item.detail) {
+        doc.setFontSize(8);
+        doc.setFont(FONT.family, FONT.normal);
+        doc.setTextColor(...COLORS.textMuted);
+        doc.text(item.detail, margin + 11, yPos - 1);
+        yPos += 4;
+      }
     }
     
     // Subtotal with gold accent line
@@ -833,8 +938,20 @@ export const generateJobPDF = async (
     }
     return sum;
   }, 0);
-  
-  if (totalSqFt > 0 && upsellServices && upsellServices.length > 0) {
+
+  // Price each rug from the price list, same as the estimate itself. Flat and per-item
+  // services don't need a size; measured ones skip rugs that have none.
+  const pricedUpsells = (upsellServices || [])
+    .map(service => ({
+      service,
+      price: rugs.reduce((sum, rug) => {
+        const quote = priceService(service, rug);
+        return sum + (quote.measure > 0 ? quote.unitPrice : 0);
+      }, 0),
+    }))
+    .filter(({ price }) => price > 0);
+  
+  if (pricedUpsells.length > 0) {
     if (yPos > pageHeight - 100) {
       doc.addPage();
       drawElegantBorder(doc, pageWidth, pageHeight);
@@ -847,7 +964,8 @@ export const generateJobPDF = async (
     doc.setFontSize(9);
     doc.setFont(FONT.family, FONT.italic);
     doc.setTextColor(...COLORS.text);
-    const introText = `To maximize the longevity and preserve the beauty of your investment, we strongly recommend the following preventative treatments for your ${totalSqFt.toFixed(0)} square feet of fine rugs:`;
+    const rugsText = totalSqFt > 0 ? `${totalSqFt.toFixed(0)} square feet of fine rugs` : 'fine rugs';
+    const introText = `To maximize the longevity and preserve the beauty of your investment, we strongly recommend the following preventative treatments for your ${rugsText}:`;
     const introLines = doc.splitTextToSize(introText, contentWidth);
     introLines.forEach((line: string) => {
       doc.text(line, margin, yPos);
@@ -855,16 +973,13 @@ export const generateJobPDF = async (
     });
     yPos += 6;
     
-    for (const service of upsellServices) {
+    for (const { service, price: servicePrice } of pricedUpsells) {
       if (yPos > pageHeight - 50) {
         doc.addPage();
         drawElegantBorder(doc, pageWidth, pageHeight);
         yPos = 30;
       }
       
-      // Calculate price based on total square footage
-      const servicePrice = service.unitPrice * totalSqFt;
-      
       // Service name in teal
       doc.setFontSize(10);
       doc.setFont(FONT.family, FONT.bold);
@@ -1012,7 +1127,7 @@ We invite you to proceed with all recommended services, or we would be pleased t
       
       yPos = await addPhotosToPDF(
         doc,
-        rug.photo_urls,
+        rugPhotoList(rug),
         yPos,
         margin,
         pageWidth,
@@ -1026,6 +1141,10 @@ We invite you to proceed with all recommended services, or we would be pleased t
       yPos += 10;
     }
   }
+
+  // ============ BEFORE & AFTER ============
+
+  await addBeforeAfterToPDF(doc, rugs, margin, pageWidth, pageHeight);
   
   // Add elegant borders to all pages
   const totalPages = doc.getNumberOfPages();
@@ -1232,6 +1351,14 @@ export const generateJobPDFBase64 = async (
       doc.setTextColor(...COLORS.gold);
       doc.text(`$${item.cost.toFixed(2)}`, pageWidth - margin, yPos, { align: 'right' });
       yPos += 5;
+
+      if (item.detail) {
+        doc.setFontSize(8);
+        doc.setFont(FONT.family, FONT.normal);
+        doc.setTextColor(...COLORS.textMuted);
+        doc.text(item.detail, margin + 11, yPos - 1);
+        yPos += 4;
+      }
     }
     
     yPos += 2;
@@ -1320,13 +1447,15 @@ export const generateJobPDFBase64 = async (
       yPos += 4;
       
       yPos = await addPhotosToPDF(
-        doc, rug.photo_urls, yPos, margin, pageWidth, pageHeight,
+        doc, rugPhotoList(rug), yPos, margin, pageWidth, pageHeight,
         branding, rug.image_annotations, true, true
       );
       
       yPos += 10;
     }
   }
+
+  await addBeforeAfterToPDF(doc, rugs, margin, pageWidth, pageHeight, true);
   
   // Page numbers
   const totalPages = doc.getNumberOfPages();
@@ -1394,6 +1523,24 @@ export const generatePDF = async (
     yPos += 10;
   }
   
+  // Rug identification from the structured analysis
+  const structured = parseStructuredReport(rug.structured_report);
+  if (structured && hasRugProfile(structured.rugProfile)) {
+    doc.setFontSize(9);
+    for (const field of Object.keys(RUG_PROFILE_LABELS) as Array<keyof RugProfile>) {
+      const value = structured.rugProfile[field];
+      if (!value) continue;
+      doc.setFont(FONT.family, FONT.bold);
+      doc.setTextColor(...COLORS.navy);
+      doc.text(`${RUG_PROFILE_LABELS[field]}:`, margin, yPos);
+      doc.setFont(FONT.family, FONT.normal);
+      doc.setTextColor(...COLORS.text);
+      doc.text(value, margin + 30, yPos);
+      yPos += 5;
+    }
+    yPos += 5;
+  }
+  
   // Report content
   if (rug.analysis_report) {
     doc.setFontSize(9);
@@ -1420,7 +1567,7 @@ export const generatePDF = async (
     yPos = drawSectionHeader(doc, 'INSPECTION PHOTOS', margin, yPos, contentWidth);
     yPos += 8;
     
-    await addPhotosToPDF(doc, rug.photo_urls, yPos, margin, pageWidth, pageHeight, branding, rug.image_annotations, false, true);
+    await addPhotosToPDF(doc, rugPhotoList(rug), yPos, margin, pageWidth, pageHeight, branding, rug.image_annotations, false, true);
   }
   
   // Page numbers
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  gradePhotoQuality,
+  photoQualityIssues,
+  photoQualityNote,
+  photoQualityScore,
+  type PhotoQualityMetrics,
+} from '@shared/photoQuality';
+
+// A sharp, evenly lit photo from a modern phone with the rug filling the frame
+const good: PhotoQualityMetrics = {
+  sharpness: 240,
+  brightness: 130,
+  shadowClipping: 0.02,
+  highlightClipping: 0.01,
+  width: 3024,
+  height: 4032,
+  coverage: 0.8,
+};
+
+describe('photoQualityIssues', () => {
+  it('finds nothing wrong with a good photo', () => {
+    expect(photoQualityIssues(good)).toEqual([]);
+  });
+
+  it('flags blur, darkness, low resolution and a rug that does not fill the frame', () => {
+    expect(photoQualityIssues({
+      ...good,
+      sharpness: 20,
+      brightness: 40,
+      width: 640,
+      height: 480,
+      coverage: 0.3,
+    })).toEqual(['blurry', 'underexposed', 'low_resolution', 'rug_not_filling_frame']);
+  });
+
+  it('counts clipped highlights as overexposed', () => {
+    expect(photoQualityIssues({ ...good, highlightClipping: 0.4 })).toEqual(['overexposed']);
+  });
+
+  it('treats a photo too small to measure as blurry', () => {
+    expect(photoQualityIssues({ ...good, sharpness: 0 })).toContain('blurry');
+  });
+
+  it('ignores coverage for close-up steps', () => {
+    expect(photoQualityIssues({ ...good, coverage: null })).toEqual([]);
+  });
+});
+
+describe('photoQualityScore', () => {
+  it('scores a photo with no issues at least 70', () => {
+    expect(photoQualityScore({ ...good, sharpness: 61, brightness: 60 })).toBeGreaterThanOrEqual(70);
+  });
+
+  it('scores a photo with any issue below 70', () => {
+    expect(photoQualityScore({ ...good, sharpness: 59 })).toBeLessThan(70);
+  });
+
+  it('always gives a whole number', () => {
+    const { score } = gradePhotoQuality({ ...good, sharpness: 123.4 });
+    expect(Number.isInteger(score)).toBe(true);
+  });
+});
+
+describe('photoQualityNote', () => {
+  it('says nothing when every photo is fine or was never checked', () => {
+    expect(photoQualityNote([gradePhotoQuality(good), null, undefined])).toBe('');
+  });
+
+  it('names the weak photos by position', () => {
+    const note = photoQualityNote([null, { score: 42, issues: ['blurry', 'underexposed'] }]);
+
+    expect(note).toContain('- Photo 2: blurry, too dark (quality 42/100)');
+    expect(note).not.toContain('Photo 1');
+  });
+});
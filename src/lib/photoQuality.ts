@@ -0,0 +1,111 @@
+// On-device measurement for captured photos. The grading rules are in
+// '@shared/photoQuality', which analyze-rug reads scores with.
+import { gradePhotoQuality, type PhotoQuality } from '@shared/photoQuality';
+
+// Measurements run on a small copy; blur and exposure read the same at this size
+const SAMPLE_EDGE = 512;
+const COVERAGE_GRID = 8;
+// Luminance spread above which a grid cell counts as rug pile rather than floor or wall
+const TEXTURE_STD_DEV = 14;
+
+const luminance = (data: Uint8ClampedArray, width: number, height: number) => {
+  const grey = new Float32Array(width * height);
+  for (let i = 0; i < grey.length; i++) {
+    grey[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return grey;
+};
+
+// Variance of the 4-neighbour Laplacian: edges are strong in a sharp photo and
+// smeared flat in a blurry one
+const laplacianVariance = (grey: Float32Array, width: number, height: number) => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = grey[i - width] + grey[i + width] + grey[i - 1] + grey[i + 1] - 4 * grey[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  // Under 3 pixels across there is no interior to measure; score it as having no
+  // detail rather than passing NaN on to the grading
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+// Rug pile and pattern are textured; the floor or wall around a rug mostly isn't.
+// The share of textured cells is a rough stand-in for how much of the frame the rug fills.
+const texturedShare = (grey: Float32Array, width: number, height: number) => {
+  const cellWidth = Math.floor(width / COVERAGE_GRID);
+  const cellHeight = Math.floor(height / COVERAGE_GRID);
+  let textured = 0;
+
+  for (let cy = 0; cy < COVERAGE_GRID; cy++) {
+    for (let cx = 0; cx < COVERAGE_GRID; cx++) {
+      let sum = 0;
+      let sumSquares = 0;
+      for (let y = cy * cellHeight; y < (cy + 1) * cellHeight; y++) {
+        for (let x = cx * cellWidth; x < (cx + 1) * cellWidth; x++) {
+          const value = grey[y * width + x];
+          sum += value;
+          sumSquares += value * value;
+        }
+      }
+      const count = cellWidth * cellHeight;
+      const mean = sum / count;
+      if (Math.sqrt(Math.max(0, sumSquares / count - mean * mean)) > TEXTURE_STD_DEV) textured++;
+    }
+  }
+
+  return textured / (COVERAGE_GRID * COVERAGE_GRID);
+};
+
+// Grades a captured photo on the device. checkCoverage is for steps that should
+// show the whole rug; close-ups of fringe or binding naturally include the floor.
+export const assessPhotoQuality = async (
+  file: Blob,
+  { checkCoverage = false }: { checkCoverage?: boolean } = {}
+): Promise<PhotoQuality> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const scale = Math.min(1, SAMPLE_EDGE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas is not available');
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const grey = luminance(context.getImageData(0, 0, width, height).data, width, height);
+
+    let total = 0;
+    let shadows = 0;
+    let highlights = 0;
+    for (const value of grey) {
+      total += value;
+      if (value < 16) shadows++;
+      if (value > 245) highlights++;
+    }
+
+    return gradePhotoQuality({
+      sharpness: Math.round(laplacianVariance(grey, width, height)),
+      brightness: Math.round(total / grey.length),
+      shadowClipping: shadows / grey.length,
+      highlightClipping: highlights / grey.length,
+      width: bitmap.width,
+      height: bitmap.height,
+      coverage: checkCoverage ? texturedShare(grey, width, height) : null,
+    });
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,183 @@
+// Uploads rug photos to storage: each photo goes through the image pipeline and is
+// stored with its thumbnail. Anything over RESUMABLE_THRESHOLD is sent with the TUS
+// resumable protocol in chunks, so a dropped connection costs one chunk rather than
+// the whole file, and a retry picks up where the last attempt stopped, provided it
+// uploads to the same path (photoPathStem keeps one per photo).
+
+import { supabase } from '@/integrations/supabase/client';
+import { processImage, thumbnailPath, type ImagePipelineOptions } from '@/lib/imagePipeline';
+
+export const RUG_PHOTO_BUCKET = 'rug-photos';
+
+// Supabase's resumable endpoint only accepts 6 MB chunks
+const TUS_CHUNK_SIZE = 6 * 1024 * 1024;
+// Processed photos are mostly 0.5-2 MB, well under a chunk. Above this they still go
+// resumable: the server keeps what arrived before a drop, and the retry sends the rest.
+export const RESUMABLE_THRESHOLD = 1024 * 1024;
+
+const CHUNK_RETRIES = 3;
+const UPLOAD_URL_KEY_PREFIX = 'rug-photo-upload:';
+
+interface UploadOptions {
+  upsert?: boolean;
+  // Files larger than this many bytes upload resumably; defaults to RESUMABLE_THRESHOLD
+  resumableThreshold?: number;
+  onProgress?: (uploaded: number, total: number) => void;
+}
+
+const accessToken = async () => {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session) throw new Error('Sign in again to upload photos');
+  return data.session.access_token;
+};
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+    .join(',');
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Where an upload of this exact file got to, kept across reloads
+const uploadUrlKey = (bucket: string, path: string, size: number) =>
+  `${UPLOAD_URL_KEY_PREFIX}${bucket}/${path}:${size}`;
+
+const resumableUpload = async (bucket: string, path: string, file: Blob, options: UploadOptions) => {
+  const endpoint = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+  const headers = {
+    authorization: `Bearer ${await accessToken()}`,
+    apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    'tus-resumable': '1.0.0',
+  };
+  const key = uploadUrlKey(bucket, path, file.size);
+
+  let uploadUrl = localStorage.getItem(key);
+  let offset = 0;
+
+  if (uploadUrl) {
+    const head = await fetch(uploadUrl, { method: 'HEAD', headers });
+    if (head.ok) {
+      offset = Number(head.headers.get('upload-offset') || 0);
+    } else {
+      // Expired or already finished; start again
+      localStorage.removeItem(key);
+      uploadUrl = null;
+    }
+  }
+
+  if (!uploadUrl) {
+    const create = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'upload-length': String(file.size),
+        'upload-metadata': encodeMetadata({
+          bucketName: bucket,
+          objectName: path,
+          contentType: file.type || 'application/octet-stream',
+          cacheControl: '3600',
+        }),
+        ...(options.upsert ? { 'x-upsert': 'true' } : {}),
+      },
+    });
+    const location = create.headers.get('location');
+    if (!create.ok || !location) {
+      throw new Error(`Could not start the upload (${create.status}): ${await create.text()}`);
+    }
+    uploadUrl = new URL(location, endpoint).toString();
+    localStorage.setItem(key, uploadUrl);
+  }
+
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + TUS_CHUNK_SIZE);
+    let response: Response | null = null;
+
+    for (let attempt = 0; attempt < CHUNK_RETRIES && !response?.ok; attempt++) {
+      if (attempt > 0) await wait(1000 * 2 ** attempt);
+      try {
+        response = await fetch(uploadUrl, {
+          method: 'PATCH',
+          headers: {
+            ...headers,
+            'upload-offset': String(offset),
+            'content-type': 'application/offset+octet-stream',
+          },
+          body: chunk,
+        });
+      } catch (error) {
+        if (attempt === CHUNK_RETRIES - 1) throw error;
+      }
+    }
+
+    if (!response?.ok) throw new Error(`Upload stopped at ${offset} of ${file.size} bytes (${response?.status})`);
+
+    offset = Number(response.headers.get('upload-offset') || offset + chunk.size);
+    options.onProgress?.(offset, file.size);
+  }
+
+  localStorage.removeItem(key);
+};
+
+export const uploadFile = async (bucket: string, path: string, file: Blob, options: UploadOptions = {}) => {
+  if (file.size > (options.resumableThreshold ?? RESUMABLE_THRESHOLD)) {
+    await resumableUpload(bucket, path, file, options);
+    return;
+  }
+
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, file, { cacheControl: '3600', upsert: options.upsert ?? false });
+  if (error) throw error;
+  options.onProgress?.(file.size, file.size);
+};
+
+export interface UploadedPhoto {
+  path: string;
+  // Of the stored image
+  width: number;
+  height: number;
+}
+
+// Processes and uploads one photo with its thumbnail. pathStem is the storage path
+// without an extension, which follows the encoded format. A photo the browser
+// can't decode (HEIC in most browsers) is refused rather than uploaded as it is,
+// which would keep its location data and leave it without a thumbnail.
+export const uploadRugPhoto = async (
+  photo: Blob,
+  pathStem: string,
+  options: UploadOptions & { bucket?: string; image?: Partial<ImagePipelineOptions> } = {}
+): Promise<UploadedPhoto> => {
+  const bucket = options.bucket ?? RUG_PHOTO_BUCKET;
+  let processed: Awaited<ReturnType<typeof processImage>>;
+  try {
+    processed = await processImage(photo, options.image);
+  } catch (error) {
+    console.warn('Could not process photo:', error);
+    throw new Error(
+      `Unsupported photo format${photo.type ? ` (${photo.type})` : ''}. Save it as JPEG or PNG and try again.`
+    );
+  }
+
+  const path = `${pathStem}.${processed.extension}`;
+  await uploadFile(bucket, path, processed.image, options);
+  await uploadFile(bucket, thumbnailPath(path), processed.thumbnail, { upsert: options.upsert });
+  return { path, width: processed.width, height: processed.height };
+};
+
+// "IMG_0042.HEIC" -> "IMG_0042", safe for a storage key
+export const photoStem = (name: string) =>
+  name.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '_') || 'photo';
+
+const pathStems = new WeakMap<Blob, string>();
+
+// The storage path stem for a photo, e.g. "<userId>/<uuid>-IMG_0042", made once per
+// file so a retried upload resumes or overwrites its own earlier attempt. Upload
+// with upsert, since the earlier attempt may have finished.
+export const photoPathStem = (photo: File, folder: string, label?: string) => {
+  let stem = pathStems.get(photo);
+  if (!stem) {
+    stem = `${folder}/${crypto.randomUUID()}-${label ? `${label}-` : ''}${photoStem(photo.name)}`;
+    pathStems.set(photo, stem);
+  }
+  return stem;
+};
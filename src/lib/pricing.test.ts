@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeQuote,
+  findPriceEntry,
+  formatPriceBreakdown,
+  letterWithPrices,
+  PRICE_BREAKDOWN_PLACEHOLDER,
+  priceService,
+  repriceLines,
+  totalLines,
+  type PriceListEntry,
+} from '@shared/pricing';
+
+const RUG = { length: 8, width: 12 };
+
+const priceList: PriceListEntry[] = [
+  { name: 'Standard Wash', unitPrice: 4, unit: 'sq_ft', minimumCharge: 150 },
+  { name: 'Fringe Repair', unitPrice: 6.5, unit: 'linear_ft' },
+  { name: 'Moth Treatment', unitPrice: 85, unit: 'flat' },
+  { name: 'Padding', unitPrice: 0, unit: 'each' },
+];
+
+describe('priceService', () => {
+  it('prices by area', () => {
+    expect(priceService(priceList[0], RUG)).toEqual({
+      unitPrice: 384,
+      rate: 4,
+      unit: 'sq_ft',
+      measure: 96,
+      minimumApplied: false,
+    });
+  });
+
+  it('prices by perimeter', () => {
+    expect(priceService(priceList[1], RUG)).toMatchObject({ unitPrice: 260, measure: 40 });
+  });
+
+  it('raises a small rug to the minimum charge', () => {
+    expect(priceService(priceList[0], { length: 3, width: 5 })).toMatchObject({
+      unitPrice: 150,
+      measure: 15,
+      minimumApplied: true,
+    });
+  });
+
+  it('prices a flat service without dimensions', () => {
+    expect(priceService(priceList[2], { length: null, width: null })).toMatchObject({ unitPrice: 85, measure: 1 });
+  });
+
+  it('rounds to the cent', () => {
+    expect(priceService({ name: 'Wash', unitPrice: 3.33, unit: 'sq_ft' }, { length: 5.5, width: 7.25 }).unitPrice)
+      .toBe(132.8);
+  });
+});
+
+describe('findPriceEntry', () => {
+  it('matches names loosely and prefers the longest match', () => {
+    const list = [...priceList, { name: 'Wash', unitPrice: 2, unit: 'sq_ft' as const }];
+    expect(findPriceEntry(list, 'standard wash & dry')?.name).toBe('Standard Wash');
+  });
+
+  it('skips services with no price set', () => {
+    expect(findPriceEntry(priceList, 'Padding')).toBeUndefined();
+  });
+});
+
+describe('repriceLines', () => {
+  it('replaces the price of every line on the price list', () => {
+    const lines = repriceLines(
+      [
+        { name: 'Standard Wash', quantity: 1, unitPrice: 999 },
+        { name: 'Moth Treatment', quantity: 2, unitPrice: 10 },
+      ],
+      priceList,
+      RUG,
+    );
+
+    expect(lines.map(line => line.unitPrice)).toEqual([384, 85]);
+    expect(totalLines(lines)).toBe(554);
+  });
+
+  it('keeps the price of lines it cannot price and flags them', () => {
+    const [unknown, unmeasured] = repriceLines(
+      [
+        { name: 'Hand Restoration', quantity: 1, unitPrice: 400 },
+        { name: 'Fringe Repair', quantity: 1, unitPrice: 120 },
+      ],
+      priceList,
+      { length: null, width: null },
+    );
+
+    expect(unknown).toMatchObject({ unitPrice: 400, pricing: null });
+    expect(unmeasured).toMatchObject({ unitPrice: 120, pricing: null });
+  });
+
+  it('charges the minimum for a rug with no dimensions', () => {
+    const [line] = repriceLines([{ name: 'Standard Wash', quantity: 1, unitPrice: 0 }], priceList, { length: 0, width: 0 });
+
+    expect(line.unitPrice).toBe(150);
+  });
+});
+
+describe('describeQuote', () => {
+  it('explains measured and minimum quotes', () => {
+    expect(describeQuote(priceService(priceList[0], RUG))).toBe('96 sq ft × $4.00');
+    expect(describeQuote(priceService(priceList[0], { length: 3, width: 5 })))
+      .toBe('15 sq ft × $4.00 (minimum $150.00 applied)');
+    expect(describeQuote(priceService(priceList[2], RUG))).toBe('$85.00 flat fee');
+  });
+});
+
+describe('letterWithPrices', () => {
+  const breakdown = formatPriceBreakdown("Rug #1: Persian (8' x 12')", [
+    { name: 'Standard Wash', quantity: 1, unitPrice: 384 },
+    { name: 'Moth Treatment', quantity: 2, unitPrice: 850 },
+  ]);
+
+  it('lists each line with a subtotal and total', () => {
+    expect(breakdown).toBe([
+      'RUG BREAKDOWN AND SERVICES',
+      "Rug #1: Persian (8' x 12')",
+      'Standard Wash: $384.00',
+      'Moth Treatment (x2): $1,700.00',
+      'Subtotal: $2,084.00',
+      '',
+      'TOTAL ESTIMATE: $2,084.00',
+    ].join('\n'));
+  });
+
+  it('fills the placeholder with the repriced breakdown', () => {
+    const letter = ['Dear Jordan,', 'We recommend a wash.', PRICE_BREAKDOWN_PLACEHOLDER, 'Sincerely,', 'Rug Shop'].join('\n');
+
+    expect(letterWithPrices(letter, breakdown)).toBe(
+      ['Dear Jordan,', 'We recommend a wash.', breakdown, 'Sincerely,', 'Rug Shop'].join('\n')
+    );
+  });
+
+  it("replaces the model's own figures when it wrote them anyway", () => {
+    const letter = [
+      'Dear Jordan,',
+      'Standard Wash: $300.00',
+      'Total: $300.00',
+      'Sincerely,',
+      'Rug Shop',
+    ].join('\n');
+
+    const result = letterWithPrices(letter, breakdown);
+
+    expect(result).not.toContain('$300.00');
+    expect(result).toBe(['Dear Jordan,', breakdown, '', 'Sincerely,', 'Rug Shop'].join('\n'));
+  });
+});
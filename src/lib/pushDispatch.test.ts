@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { createStubPushProvider, dispatchNotification } from '@shared/pushDispatch';
+import { fakeSupabase } from '@/test/fakeSupabase';
+
+const STAFF_ID = 'staff-1';
+
+const seed = (fields: { preferences?: Record<string, boolean> | null; type?: string } = {}) => ({
+  notifications: [
+    {
+      id: 'notification-1',
+      user_id: STAFF_ID,
+      type: fields.type ?? 'payment_received',
+      title: 'Payment received - Job #1042',
+      message: 'Jordan Client paid $485.00',
+      metadata: { jobId: 'job-1', amount: 485 },
+    },
+  ],
+  profiles: [{ user_id: STAFF_ID, notification_preferences: fields.preferences ?? null }],
+  push_tokens: [
+    { id: 'token-1', user_id: STAFF_ID, token: 'iphone', platform: 'ios' },
+    { id: 'token-2', user_id: STAFF_ID, token: 'pixel', platform: 'android' },
+    { id: 'token-3', user_id: STAFF_ID, token: 'old-laptop', platform: 'web' },
+    { id: 'token-4', user_id: 'someone-else', token: 'their-phone', platform: 'ios' },
+  ],
+});
+
+describe('dispatchNotification', () => {
+  it("sends to every one of the recipient's devices", async () => {
+    const { client } = fakeSupabase(seed());
+    const provider = createStubPushProvider();
+
+    const result = await dispatchNotification(client, provider, 'notification-1');
+
+    expect(result).toEqual({ sent: 3, failed: 0, pruned: 0 });
+    expect(provider.sent.map(s => [s.token, s.platform])).toEqual([
+      ['iphone', 'ios'],
+      ['pixel', 'android'],
+      ['old-laptop', 'web'],
+    ]);
+    expect(provider.sent[0].message).toEqual({
+      title: 'Payment received - Job #1042',
+      body: 'Jordan Client paid $485.00',
+      data: { notificationId: 'notification-1', type: 'payment_received', jobId: 'job-1' },
+    });
+  });
+
+  it('deletes tokens the provider says are gone and keeps the rest', async () => {
+    const { client, tables } = fakeSupabase(seed());
+
+    const result = await dispatchNotification(client, createStubPushProvider(['old-laptop']), 'notification-1');
+
+    expect(result).toEqual({ sent: 2, failed: 1, pruned: 1 });
+    expect(tables.push_tokens.map(t => t.id)).toEqual(['token-1', 'token-2', 'token-4']);
+  });
+
+  it('keeps tokens whose send failed for some other reason', async () => {
+    const { client, tables } = fakeSupabase(seed());
+    const provider = {
+      send: async () => ({ ok: false as const, invalidToken: false, error: 'Service unavailable' }),
+    };
+
+    const result = await dispatchNotification(client, provider, 'notification-1');
+
+    expect(result).toEqual({ sent: 0, failed: 3, pruned: 0 });
+    expect(tables.push_tokens).toHaveLength(4);
+  });
+
+  it('sends nothing when push or job updates are turned off', async () => {
+    for (const preferences of [{ pushNotifications: false }, { pushNotifications: true, jobUpdates: false }]) {
+      const { client } = fakeSupabase(seed({ preferences }));
+      const provider = createStubPushProvider();
+
+      const result = await dispatchNotification(client, provider, 'notification-1');
+
+      expect(result).toEqual({ sent: 0, failed: 0, pruned: 0, skipped: 'turned off in preferences' });
+      expect(provider.sent).toEqual([]);
+    }
+  });
+
+  it('treats preferences saved before push existed as on', async () => {
+    const { client } = fakeSupabase(seed({ preferences: { emailNotifications: true } }));
+
+    expect((await dispatchNotification(client, createStubPushProvider(), 'notification-1')).sent).toBe(3);
+  });
+
+  it("skips kinds of notification that aren't pushed", async () => {
+    const { client } = fakeSupabase(seed({ type: 'follow_up_reminder' }));
+    const provider = createStubPushProvider();
+
+    const result = await dispatchNotification(client, provider, 'notification-1');
+
+    expect(result.skipped).toBe("follow_up_reminder isn't pushed");
+    expect(provider.sent).toEqual([]);
+  });
+});
@@ -8,6 +8,11 @@ export const queryKeys = {
     list: () => [...queryKeys.jobs.all, 'list'] as const,
     detail: (id: string) => [...queryKeys.jobs.all, 'detail', id] as const,
     rugs: (jobId: string) => [...queryKeys.jobs.all, 'rugs', jobId] as const,
+    checklist: (jobId: string) => [...queryKeys.jobs.all, 'checklist', jobId] as const,
+    statusHistory: (jobId: string) => [...queryKeys.jobs.all, 'statusHistory', jobId] as const,
+    taxSettings: (jobId: string) => [...queryKeys.jobs.all, 'taxSettings', jobId] as const,
+    discountSettings: (jobId: string) => [...queryKeys.jobs.all, 'discountSettings', jobId] as const,
+    emailEvents: (jobId: string) => [...queryKeys.jobs.all, 'emailEvents', jobId] as const,
   },
   
   // User/Profile data
@@ -16,6 +21,23 @@ export const queryKeys = {
     profile: (userId: string) => [...queryKeys.user.all, 'profile', userId] as const,
     branding: (userId: string) => [...queryKeys.user.all, 'branding', userId] as const,
     servicePrices: (userId: string) => [...queryKeys.user.all, 'prices', userId] as const,
+    checklistTemplates: (userId: string) => [...queryKeys.user.all, 'checklistTemplates', userId] as const,
+    emailTemplate: (userId: string, type: string) => [...queryKeys.user.all, 'emailTemplate', userId, type] as const,
+    emailPreviewJob: (userId: string) => [...queryKeys.user.all, 'emailPreviewJob', userId] as const,
+  },
+  
+  // Team the signed-in staff member belongs to
+  organization: {
+    all: ['organization'] as const,
+    current: (userId: string) => [...queryKeys.organization.all, 'current', userId] as const,
+    members: (orgId: string) => [...queryKeys.organization.all, 'members', orgId] as const,
+    invitations: (orgId: string) => [...queryKeys.organization.all, 'invitations', orgId] as const,
+    jobStatuses: (orgId: string) => [...queryKeys.organization.all, 'jobStatuses', orgId] as const,
+    taxRates: (orgId: string) => [...queryKeys.organization.all, 'taxRates', orgId] as const,
+    taxExemptClients: (orgId: string) => [...queryKeys.organization.all, 'taxExemptClients', orgId] as const,
+    discountRules: (orgId: string) => [...queryKeys.organization.all, 'discountRules', orgId] as const,
+    couponCodes: (orgId: string) => [...queryKeys.organization.all, 'couponCodes', orgId] as const,
+    reminderCadences: (orgId: string) => [...queryKeys.organization.all, 'reminderCadences', orgId] as const,
   },
   
   // Job-related data
@@ -27,6 +49,9 @@ export const queryKeys = {
   payments: {
     all: ['payments'] as const,
     byJob: (jobId: string) => [...queryKeys.payments.all, 'job', jobId] as const,
+    refunds: (jobId: string) => [...queryKeys.payments.all, 'refunds', jobId] as const,
+    invoices: (jobId: string) => [...queryKeys.payments.all, 'invoices', jobId] as const,
+    openInvoices: (userId: string) => [...queryKeys.payments.all, 'openInvoices', userId] as const,
   },
   
   completions: {
@@ -34,11 +59,28 @@ export const queryKeys = {
     byJob: (jobId: string) => [...queryKeys.completions.all, 'job', jobId] as const,
   },
   
+  scheduleRequests: {
+    all: ['scheduleRequests'] as const,
+    byJob: (jobId: string) => [...queryKeys.scheduleRequests.all, 'job', jobId] as const,
+  },
+  
+  messages: {
+    all: ['messages'] as const,
+    byJob: (jobId: string) => [...queryKeys.messages.all, 'job', jobId] as const,
+    unread: (userId: string) => [...queryKeys.messages.all, 'unread', userId] as const,
+  },
+  
   clientPortal: {
     all: ['clientPortal'] as const,
     byJob: (jobId: string) => [...queryKeys.clientPortal.all, 'job', jobId] as const,
   },
   
+  reviews: {
+    all: ['reviews'] as const,
+    list: () => [...queryKeys.reviews.all, 'list'] as const,
+    byJob: (jobId: string) => [...queryKeys.reviews.all, 'job', jobId] as const,
+  },
+  
   // Analytics
   analytics: {
     all: ['analytics'] as const,
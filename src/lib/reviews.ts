@@ -0,0 +1,46 @@
+import { format, startOfMonth } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type JobReview = Tables<'job_reviews'>;
+
+export interface NpsBreakdown {
+  score: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+  total: number;
+}
+
+// NPS on a five-star scale: 5 stars promote, 4 is neutral, 1-3 detract.
+// Score is % promoters minus % detractors, so it runs from -100 to 100.
+export const calculateNps = (ratings: number[]): NpsBreakdown => {
+  const promoters = ratings.filter(r => r >= 5).length;
+  const passives = ratings.filter(r => r === 4).length;
+  const detractors = ratings.filter(r => r <= 3).length;
+  const total = ratings.length;
+
+  const score = total > 0 ? Math.round(((promoters - detractors) / total) * 100) : 0;
+  return { score, promoters, passives, detractors, total };
+};
+
+export const averageRating = (ratings: number[]): number =>
+  ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : 0;
+
+// Average rating per calendar month, oldest first, for months that have reviews
+export const averageRatingByMonth = (
+  reviews: Pick<JobReview, 'rating' | 'created_at'>[]
+): { date: string; average: number; count: number }[] => {
+  const buckets = new Map<number, number[]>();
+  reviews.forEach(review => {
+    const month = startOfMonth(new Date(review.created_at)).getTime();
+    buckets.set(month, [...(buckets.get(month) || []), review.rating]);
+  });
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([month, ratings]) => ({
+      date: format(new Date(month), 'MMM yyyy'),
+      average: Number(averageRating(ratings).toFixed(2)),
+      count: ratings.length,
+    }));
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { beforeAfterPairs, rugPhotoList, type RugPhotoRow } from '@/lib/rugPhotos';
+import { alignAnnotations, withPhotoIds } from '@shared/rugPhotos';
+
+const photo = (id: string, fields: Partial<RugPhotoRow>): RugPhotoRow => ({
+  id,
+  inspection_id: 'inspection-1',
+  job_id: 'job-1',
+  phase: 'intake',
+  step_id: null,
+  caption: null,
+  storage_path: `job-1/${id}.jpg`,
+  sort_order: 0,
+  quality: null,
+  quality_score: null,
+  captured_at: null,
+  width: null,
+  height: null,
+  created_at: '2026-03-01T10:00:00Z',
+  ...fields,
+});
+
+describe('beforeAfterPairs', () => {
+  it('pairs each step that has both photos, in step order', () => {
+    const pairs = beforeAfterPairs([
+      photo('back-after', { phase: 'after_service', step_id: 'overall-back' }),
+      photo('front', { step_id: 'overall-front' }),
+      photo('back', { step_id: 'overall-back', sort_order: 1 }),
+      photo('front-after', { phase: 'after_service', step_id: 'overall-front' }),
+      photo('fringe', { step_id: 'fringe-end-a', sort_order: 2 }),
+    ]);
+
+    expect(pairs).toEqual([
+      { stepId: 'overall-front', label: 'Overall Front', before: 'job-1/front.jpg', after: 'job-1/front-after.jpg' },
+      { stepId: 'overall-back', label: 'Overall Back', before: 'job-1/back.jpg', after: 'job-1/back-after.jpg' },
+    ]);
+  });
+
+  it('leaves out close-ups, which have no step to retake', () => {
+    expect(beforeAfterPairs([
+      photo('stain', { step_id: 'issue' }),
+      photo('stain-after', { phase: 'after_service', step_id: 'issue' }),
+    ])).toEqual([]);
+  });
+
+  it('has nothing to pair before any photos are loaded', () => {
+    expect(beforeAfterPairs(null)).toEqual([]);
+  });
+});
+
+describe('rugPhotoList', () => {
+  it('lists intake photos by sort order and labels them by step', () => {
+    const list = rugPhotoList({
+      rug_photos: [
+        photo('stain', { step_id: 'issue', caption: 'wine stain', sort_order: 1 }),
+        photo('front', { step_id: 'overall-front' }),
+        photo('front-after', { phase: 'after_service', step_id: 'overall-front' }),
+      ],
+    });
+
+    expect(list.map(p => [p.id, p.label])).toEqual([
+      ['front', 'Overall Front'],
+      ['stain', 'Issue Close-up: wine stain'],
+    ]);
+  });
+
+  it('falls back to photo_urls for rugs without rows', () => {
+    expect(rugPhotoList({ photo_urls: ['a.jpg'] })).toEqual([
+      { id: null, path: 'a.jpg', stepId: null, caption: null, label: 'Photo 1', qualityScore: null, quality: null },
+    ]);
+  });
+});
+
+describe('alignAnnotations', () => {
+  it('moves markers with their photo and drops those of deleted photos', () => {
+    const saved = withPhotoIds(
+      [
+        { photoIndex: 0, annotations: [{ label: 'Stain', location: 'corner', x: 10, y: 20 }] },
+        { photoIndex: 1, annotations: [{ label: 'Tear', location: 'edge', x: 50, y: 50 }] },
+      ],
+      ['front', 'back'],
+    );
+
+    expect(alignAnnotations(saved, ['back']).map(entry => [entry.photoId, entry.photoIndex])).toEqual([['back', 0]]);
+  });
+
+  it('keeps annotations saved before photos had ids where they were', () => {
+    const legacy = [{ photoIndex: 2, annotations: [] }];
+
+    expect(alignAnnotations(legacy, ['a', 'b', 'c'])).toEqual(legacy);
+    expect(alignAnnotations('not an array', ['a'])).toEqual([]);
+  });
+});
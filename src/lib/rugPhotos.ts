@@ -0,0 +1,93 @@
+// App-side helpers for rug photo rows. The steps and annotation alignment they build
+// on are in '@shared/rugPhotos', which analyze-rug uses too.
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { PhotoQuality } from '@shared/photoQuality';
+import { RUG_PHOTO_STEPS, rugPhotoLabel, type RugPhotoPhase, type TaggedPhoto } from '@shared/rugPhotos';
+
+export type RugPhotoRow = Tables<'rug_photos'>;
+
+export interface RugPhotoItem extends TaggedPhoto {
+  path: string;
+  label: string;
+  qualityScore: number | null;
+  quality: Json | null;
+}
+
+// What capture knows about a photo before it's uploaded
+export interface CapturedPhotoMeta {
+  stepId: string | null;
+  caption: string | null;
+  capturedAt: string | null;
+  // null when the photo couldn't be checked
+  quality: PhotoQuality | null;
+}
+
+const inPhase = (rows: RugPhotoRow[] | null | undefined, phase: RugPhotoPhase) =>
+  (rows || []).filter(row => (row.phase ?? 'intake') === phase);
+
+// A rug's intake photos in display order. Rugs loaded without their rug_photos rows
+// (or saved offline and not yet synced) fall back to photo_urls, with no ids.
+export const rugPhotoList = (rug: {
+  photo_urls?: string[] | null;
+  rug_photos?: RugPhotoRow[] | null;
+}): RugPhotoItem[] => {
+  const rows = inPhase(rug.rug_photos, 'intake');
+  if (rows.length > 0) {
+    return [...rows]
+      .sort((a, b) => a.sort_order - b.sort_order || a.created_at.localeCompare(b.created_at))
+      .map((row, index) => ({
+        id: row.id,
+        path: row.storage_path,
+        stepId: row.step_id,
+        caption: row.caption,
+        label: rugPhotoLabel({ stepId: row.step_id, caption: row.caption }, index),
+        qualityScore: row.quality_score,
+        quality: row.quality,
+      }));
+  }
+
+  return (rug.photo_urls || []).map((path, index) => ({
+    id: null,
+    path,
+    stepId: null,
+    caption: null,
+    label: rugPhotoLabel({ stepId: null, caption: null }, index),
+    qualityScore: null,
+    quality: null,
+  }));
+};
+
+// The photo details analyze-rug reads: what each photo shows and how good it is
+export const analysisPhotos = (rug: Parameters<typeof rugPhotoList>[0]) =>
+  rugPhotoList(rug).map(photo => ({
+    id: photo.id,
+    path: photo.path,
+    stepId: photo.stepId,
+    caption: photo.caption,
+    quality: photo.quality,
+  }));
+
+// The after-service photo for each guided step, by step id
+export const afterServicePhotos = (rows: RugPhotoRow[] | null | undefined) =>
+  new Map(inPhase(rows, 'after_service').map(row => [row.step_id, row]));
+
+export interface BeforeAfterPair {
+  stepId: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+// Every guided step with both an intake and an after-service photo, in step order
+export const beforeAfterPairs = (rows: RugPhotoRow[] | null | undefined): BeforeAfterPair[] => {
+  const after = afterServicePhotos(rows);
+  const intake = inPhase(rows, 'intake');
+
+  return RUG_PHOTO_STEPS.flatMap(step => {
+    const before = intake.find(row => row.step_id === step.id);
+    const afterRow = after.get(step.id);
+    return before && afterRow
+      ? [{ stepId: step.id, label: step.label, before: before.storage_path, after: afterRow.storage_path }]
+      : [];
+  });
+};
@@ -0,0 +1,32 @@
+import { format, parseISO } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ScheduleRequest = Tables<'schedule_requests'>;
+export type ScheduleRequestStatus = ScheduleRequest['status'];
+export type ScheduleRequestType = ScheduleRequest['request_type'];
+
+export const SCHEDULE_REQUEST_TYPE_LABELS: Record<ScheduleRequestType, string> = {
+  pickup: 'Pickup',
+  delivery: 'Delivery',
+};
+
+export const SCHEDULE_STATUS_CONFIG: Record<ScheduleRequestStatus, { label: string; className: string }> = {
+  requested: { label: 'Awaiting confirmation', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  confirmed: { label: 'Confirmed', className: 'bg-green-100 text-green-800 border-green-200' },
+  rescheduled: { label: 'New time proposed', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  declined: { label: 'Declined', className: 'bg-red-100 text-red-800 border-red-200' },
+};
+
+// "Mar 4, 2026 at 2:30 PM" - date is a DATE column, time a TIME column (HH:MM:SS)
+export const formatScheduleSlot = (date: string | null, time: string | null): string => {
+  if (!date) return '—';
+  const day = format(parseISO(date), 'MMM d, yyyy');
+  if (!time) return day;
+  return `${day} at ${format(parseISO(`${date}T${time}`), 'h:mm a')}`;
+};
+
+// The slot the client should plan around: staff's slot once responded, otherwise what was asked for
+export const getEffectiveSlot = (request: ScheduleRequest) =>
+  request.scheduled_date
+    ? { date: request.scheduled_date, time: request.scheduled_time }
+    : { date: request.requested_date, time: request.requested_time };
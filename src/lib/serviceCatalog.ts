@@ -0,0 +1,95 @@
+/**
+ * A business's service catalog, stored in service_prices.
+ * Each entry carries its price plus the defaults applied when the service
+ * shows up on an estimate: priority, description, whether the client
+ * portal treats it as required and whether it is taxed.
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+import { matchServiceName, type PriceListEntry } from '@shared/pricing';
+import type { ServicePriority } from '@/lib/structuredReport';
+
+export interface CatalogService extends PriceListEntry {
+  id: string;
+  description: string | null;
+  priority: ServicePriority;
+  mandatory: boolean;
+  isAdditional: boolean;
+  taxExempt: boolean;
+  sortOrder: number;
+  archivedAt: string | null;
+}
+
+export const CATALOG_COLUMNS =
+  'id, service_name, unit_price, pricing_unit, minimum_charge, description, default_priority, is_mandatory, is_additional, tax_exempt, sort_order, archived_at';
+
+type CatalogRow = Pick<
+  Tables<'service_prices'>,
+  | 'id'
+  | 'service_name'
+  | 'unit_price'
+  | 'pricing_unit'
+  | 'minimum_charge'
+  | 'description'
+  | 'default_priority'
+  | 'is_mandatory'
+  | 'is_additional'
+  | 'tax_exempt'
+  | 'sort_order'
+  | 'archived_at'
+>;
+
+export function toCatalogService(row: CatalogRow): CatalogService {
+  return {
+    id: row.id,
+    name: row.service_name,
+    unitPrice: row.unit_price,
+    unit: row.pricing_unit,
+    minimumCharge: row.minimum_charge,
+    description: row.description,
+    priority: row.default_priority,
+    mandatory: row.is_mandatory,
+    isAdditional: row.is_additional,
+    taxExempt: row.tax_exempt,
+    sortOrder: row.sort_order,
+    archivedAt: row.archived_at,
+  };
+}
+
+/**
+ * Apply catalog defaults to estimate lines. Lines that match a catalog
+ * service take its priority, portal requirement and tax exemption; anything
+ * else keeps its priority, is optional for the client and is taxed.
+ */
+export function applyCatalogDefaults<
+  T extends { name: string; priority: ServicePriority; mandatory?: boolean; taxExempt?: boolean },
+>(
+  lines: T[],
+  catalog: CatalogService[]
+): T[] {
+  return lines.map((line) => {
+    const service = matchServiceName(catalog, line.name);
+    return service
+      ? { ...line, priority: service.priority, mandatory: service.mandatory, taxExempt: service.taxExempt }
+      : { ...line, mandatory: line.mandatory ?? false, taxExempt: line.taxExempt ?? false };
+  });
+}
+
+// Starter catalog for businesses that haven't saved any services yet
+export const DEFAULT_CATALOG: Pick<CatalogService, 'name' | 'unit' | 'priority' | 'mandatory'>[] = [
+  { name: 'Standard wash', unit: 'sq_ft', priority: 'high', mandatory: true },
+  { name: 'Special fiber/antique wash', unit: 'sq_ft', priority: 'high', mandatory: true },
+  { name: 'Limewash (moth wash)', unit: 'sq_ft', priority: 'high', mandatory: true },
+  { name: 'Overnight soaking', unit: 'sq_ft', priority: 'high', mandatory: false },
+  { name: 'Blocking', unit: 'sq_ft', priority: 'medium', mandatory: false },
+  { name: 'Sheering', unit: 'sq_ft', priority: 'medium', mandatory: false },
+  { name: 'Overcasting', unit: 'linear_ft', priority: 'medium', mandatory: false },
+  { name: 'Zenjireh', unit: 'linear_ft', priority: 'medium', mandatory: false },
+  { name: 'Persian Binding', unit: 'linear_ft', priority: 'medium', mandatory: false },
+  { name: 'Hand Fringe', unit: 'linear_ft', priority: 'medium', mandatory: false },
+  { name: 'Machine Fringe', unit: 'linear_ft', priority: 'medium', mandatory: false },
+  { name: 'Leather binding', unit: 'linear_ft', priority: 'medium', mandatory: false },
+  { name: 'Cotton Binding', unit: 'linear_ft', priority: 'medium', mandatory: false },
+  { name: 'Glue binding', unit: 'linear_ft', priority: 'medium', mandatory: false },
+  { name: 'Padding', unit: 'sq_ft', priority: 'low', mandatory: false },
+];
@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import { processStripeEvent, type StripeEventLike } from '@shared/stripeEvents';
+import { fakeSupabase } from '@/test/fakeSupabase';
+import sessionCompleted from '../../supabase/functions/stripe-webhook/fixtures/checkout.session.completed.json';
+import sessionExpired from '../../supabase/functions/stripe-webhook/fixtures/checkout.session.expired.json';
+import asyncSucceeded from '../../supabase/functions/stripe-webhook/fixtures/checkout.session.async_payment_succeeded.json';
+import asyncFailed from '../../supabase/functions/stripe-webhook/fixtures/checkout.session.async_payment_failed.json';
+import paymentFailed from '../../supabase/functions/stripe-webhook/fixtures/payment_intent.payment_failed.json';
+import chargeRefunded from '../../supabase/functions/stripe-webhook/fixtures/charge.refunded.json';
+
+const JOB_ID = '00000000-0000-4000-8000-000000000001';
+const PAYMENT_INTENT_ID = 'pi_3QfXjzLmN8pQrStU1AbCdEfG';
+
+// A job whose client has checked out for the full amount
+const seed = (payment: Record<string, unknown>) => ({
+  jobs: [
+    {
+      id: JOB_ID,
+      job_number: 'J-1042',
+      client_name: 'Jordan Client',
+      client_email: 'client@example.com',
+      user_id: 'owner-1',
+      agreed_total: 485,
+      client_approved_at: null,
+      payment_status: 'pending',
+    },
+  ],
+  payments: [
+    {
+      id: 'payment-1',
+      job_id: JOB_ID,
+      invoice_id: 'invoice-1',
+      amount: 485,
+      amount_refunded: 0,
+      stripe_checkout_session_id: sessionCompleted.data.object.id,
+      stripe_payment_intent_id: null,
+      status: 'pending',
+      ...payment,
+    },
+  ],
+  // The checkout's draft invoice, holding a use of its coupon
+  invoices: [{ id: 'invoice-1', job_id: JOB_ID, kind: 'full', status: 'draft', coupon_id: 'coupon-1' }],
+  platform_settings: [{ setting_key: 'platform_fee_percentage', setting_value: '10' }],
+  profiles: [
+    { user_id: 'owner-1', business_email: 'shop@example.com', business_name: 'Rug Shop', business_phone: null },
+  ],
+});
+
+const payment = (tables: Record<string, Record<string, unknown>[]>) => tables.payments[0];
+const job = (tables: Record<string, Record<string, unknown>[]>) => tables.jobs[0];
+
+describe('processStripeEvent', () => {
+  it('marks a completed checkout paid and runs the payment side effects', async () => {
+    const db = fakeSupabase(seed({}));
+
+    const result = await processStripeEvent(db.client, sessionCompleted);
+
+    expect(result).toEqual({ duplicate: false, outcome: 'job J-1042 marked paid' });
+    expect(payment(db.tables)).toMatchObject({
+      status: 'completed',
+      stripe_payment_intent_id: PAYMENT_INTENT_ID,
+      platform_fee: 48.5,
+    });
+    expect(job(db.tables).payment_status).toBe('paid');
+    expect(db.rpcCalls.map(call => call.name)).toEqual(['advance_job_on_payment']);
+    expect(db.invocations.map(call => call.name)).toEqual([
+      'notify-payment-received',
+      'generate-invoice-pdf',
+      'send-client-confirmation',
+    ]);
+  });
+
+  it('ignores a duplicate delivery of the same event', async () => {
+    const db = fakeSupabase(seed({}));
+
+    await processStripeEvent(db.client, sessionCompleted);
+    const again = await processStripeEvent(db.client, sessionCompleted);
+
+    expect(again).toEqual({ duplicate: true });
+    expect(db.tables.stripe_webhook_events).toHaveLength(1);
+    expect(db.invocations.filter(call => call.name === 'send-client-confirmation')).toHaveLength(1);
+  });
+
+  it('does not repeat side effects when the payment was already recorded', async () => {
+    const db = fakeSupabase(seed({ status: 'completed', stripe_payment_intent_id: PAYMENT_INTENT_ID }));
+
+    const result = await processStripeEvent(db.client, sessionCompleted);
+
+    expect(result).toEqual({ duplicate: false, outcome: 'job J-1042 already paid' });
+    expect(db.invocations).toHaveLength(0);
+  });
+
+  it('leaves a completed session that is not paid yet pending', async () => {
+    const db = fakeSupabase(seed({ stripe_checkout_session_id: asyncSucceeded.data.object.id }));
+    const unpaid: StripeEventLike = structuredClone(asyncFailed);
+    unpaid.type = 'checkout.session.completed';
+
+    const result = await processStripeEvent(db.client, unpaid);
+
+    expect(result).toMatchObject({ outcome: expect.stringContaining('not paid yet') });
+    expect(payment(db.tables).status).toBe('pending');
+  });
+
+  it('marks a delayed payment paid when it succeeds', async () => {
+    const db = fakeSupabase(seed({ stripe_checkout_session_id: asyncSucceeded.data.object.id }));
+
+    await processStripeEvent(db.client, asyncSucceeded);
+
+    expect(payment(db.tables).status).toBe('completed');
+    expect(job(db.tables).payment_status).toBe('paid');
+  });
+
+  it('marks a delayed payment failed when it fails', async () => {
+    const db = fakeSupabase(seed({ stripe_checkout_session_id: asyncFailed.data.object.id }));
+
+    await processStripeEvent(db.client, asyncFailed);
+
+    expect(payment(db.tables)).toMatchObject({
+      status: 'failed',
+      failure_reason: 'The bank payment did not go through',
+    });
+    expect(db.invocations).toHaveLength(0);
+    expect(db.tables.invoices[0].status).toBe('void');
+  });
+
+  it('marks an abandoned checkout expired and voids its draft invoice', async () => {
+    const db = fakeSupabase(seed({ stripe_checkout_session_id: sessionExpired.data.object.id }));
+
+    const result = await processStripeEvent(db.client, sessionExpired);
+
+    expect(result).toMatchObject({ outcome: `session ${sessionExpired.data.object.id} expired` });
+    expect(payment(db.tables).status).toBe('expired');
+    expect(db.tables.invoices[0].status).toBe('void');
+  });
+
+  it('leaves an invoice that already went out alone when its checkout expires', async () => {
+    const db = fakeSupabase(seed({ stripe_checkout_session_id: sessionExpired.data.object.id }));
+    db.tables.invoices[0].status = 'sent';
+
+    await processStripeEvent(db.client, sessionExpired);
+
+    expect(db.tables.invoices[0].status).toBe('sent');
+  });
+
+  it('records a declined card against the job from the payment intent metadata', async () => {
+    const db = fakeSupabase(seed({}));
+
+    await processStripeEvent(db.client, paymentFailed);
+
+    expect(payment(db.tables)).toMatchObject({
+      status: 'failed',
+      stripe_payment_intent_id: PAYMENT_INTENT_ID,
+      failure_reason: 'Your card has insufficient funds.',
+    });
+  });
+
+  it('records a partial refund made in the Stripe dashboard', async () => {
+    const db = fakeSupabase(seed({ status: 'completed', stripe_payment_intent_id: PAYMENT_INTENT_ID, platform_fee: 48.5 }));
+
+    await processStripeEvent(db.client, chargeRefunded);
+
+    expect(payment(db.tables)).toMatchObject({
+      status: 'partially_refunded',
+      amount_refunded: 120,
+      platform_fee: 36.5,
+    });
+    expect(db.tables.payment_refunds).toEqual([
+      expect.objectContaining({
+        payment_id: 'payment-1',
+        amount: 120,
+        platform_fee_reversed: 12,
+        reason: 'Refunded in Stripe',
+        status: 'succeeded',
+      }),
+    ]);
+  });
+
+  it('does not record a refund staff already made again', async () => {
+    const db = fakeSupabase({
+      ...seed({ status: 'completed', stripe_payment_intent_id: PAYMENT_INTENT_ID }),
+      payment_refunds: [{ id: 'refund-1', payment_id: 'payment-1', job_id: JOB_ID, amount: 120, status: 'succeeded' }],
+    });
+
+    await processStripeEvent(db.client, chargeRefunded);
+
+    expect(db.tables.payment_refunds).toHaveLength(1);
+    expect(payment(db.tables).amount_refunded).toBe(120);
+  });
+
+  it('leaves the job partially refunded when only its deposit is refunded', async () => {
+    const db = fakeSupabase(seed({ status: 'completed', stripe_payment_intent_id: PAYMENT_INTENT_ID, amount: 242.5 }));
+    db.tables.payments.push({
+      id: 'payment-2',
+      job_id: JOB_ID,
+      amount: 242.5,
+      amount_refunded: 0,
+      stripe_payment_intent_id: 'pi_balance',
+      status: 'completed',
+    });
+    const depositRefunded: StripeEventLike = structuredClone(chargeRefunded);
+    Object.assign(depositRefunded.data.object, { amount: 24250, amount_refunded: 24250 });
+
+    await processStripeEvent(db.client, depositRefunded);
+
+    expect(payment(db.tables).status).toBe('refunded');
+    expect(job(db.tables).payment_status).toBe('partially_refunded');
+  });
+
+  it('marks the job refunded once every payment is refunded', async () => {
+    const db = fakeSupabase(seed({ status: 'completed', stripe_payment_intent_id: PAYMENT_INTENT_ID }));
+    const fullyRefunded: StripeEventLike = structuredClone(chargeRefunded);
+    Object.assign(fullyRefunded.data.object, { amount_refunded: 48500 });
+
+    await processStripeEvent(db.client, fullyRefunded);
+
+    expect(payment(db.tables).status).toBe('refunded');
+    expect(job(db.tables).payment_status).toBe('refunded');
+  });
+});
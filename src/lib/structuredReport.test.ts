@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { getReportServices, parseLegacyReportServices, parseStructuredReport } from '@/lib/structuredReport';
+
+describe('parseStructuredReport', () => {
+  it('reads services and fills in what is missing', () => {
+    const report = parseStructuredReport({
+      rugProfile: { origin: ' Persian ', fiber: '' },
+      services: [
+        { name: 'Standard Wash', quantity: '2', unitPrice: 150, priority: 'high', mandatory: true },
+        { name: 'Fringe Repair', unitPrice: -5, priority: 'urgent' },
+        { name: '  ', unitPrice: 20 },
+      ],
+    });
+
+    expect(report?.rugProfile).toEqual({ origin: 'Persian', construction: null, fiber: null, age: null, condition: null });
+    expect(report?.services).toEqual([
+      { name: 'Standard Wash', description: null, quantity: 2, unitPrice: 150, priority: 'high', pricing: null, mandatory: true },
+      { name: 'Fringe Repair', description: null, quantity: 1, unitPrice: 0, priority: 'medium', pricing: null, mandatory: false },
+    ]);
+    expect(report?.totalEstimate).toBe(300);
+  });
+
+  it('keeps pricing only when its unit is known', () => {
+    const report = parseStructuredReport({
+      services: [
+        { name: 'Wash', unitPrice: 384, pricing: { unit: 'sq_ft', rate: 4, measure: 96, unitPrice: 384 } },
+        { name: 'Dusting', unitPrice: 50, pricing: { unit: 'per_rug', rate: 50 } },
+      ],
+    });
+
+    expect(report?.services.map(s => s.pricing)).toEqual([
+      { unit: 'sq_ft', rate: 4, measure: 96, unitPrice: 384, minimumApplied: false },
+      null,
+    ]);
+  });
+
+  it('returns null for anything without usable services', () => {
+    expect(parseStructuredReport(null)).toBeNull();
+    expect(parseStructuredReport([])).toBeNull();
+    expect(parseStructuredReport({ services: [] })).toBeNull();
+  });
+});
+
+describe('parseLegacyReportServices', () => {
+  it('reads the breakdown section of an old letter', () => {
+    const letter = [
+      'Dear Jordan,',
+      'RUG BREAKDOWN AND SERVICES',
+      'Rug #1: Persian (8x10)',
+      '- Standard Wash: $384.00',
+      '- Fringe Repair: $1,260.00',
+      'Subtotal: $1,644.00',
+      'Rug #2: Kilim (5x7)',
+      '- Standard Wash: $150.00',
+      'TOTAL ESTIMATE: $1,794.00',
+      'Sincerely,',
+    ].join('\n');
+
+    expect(parseLegacyReportServices(letter).map(({ name, quantity, unitPrice }) => ({ name, quantity, unitPrice })))
+      .toEqual([
+        { name: 'Standard Wash', quantity: 2, unitPrice: 384 },
+        { name: 'Fringe Repair', quantity: 1, unitPrice: 1260 },
+      ]);
+  });
+
+  it('falls back to any priced line when there is no breakdown section', () => {
+    const services = parseLegacyReportServices('- **Moth Treatment**: $85\nTotal: $85');
+
+    expect(services.map(s => [s.name, s.unitPrice])).toEqual([['Moth Treatment', 85]]);
+  });
+});
+
+describe('getReportServices', () => {
+  it('prefers the structured report over the letter', () => {
+    const services = getReportServices({ services: [{ name: 'Wash', unitPrice: 100 }] }, '- Dusting: $50');
+
+    expect(services.map(s => s.name)).toEqual(['Wash']);
+  });
+
+  it('has nothing to offer without either', () => {
+    expect(getReportServices(null, null)).toEqual([]);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Structured output of the analyze-rug edge function.
+ * Stored in inspections.structured_report alongside the free-text letter.
+ * Inspections analyzed before this existed only have analysis_report text,
+ * so every reader falls back to parsing the letter when this is missing.
+ */
+
+import type { PricingUnit, ServicePriceQuote } from '@shared/pricing';
+
+export type ServicePriority = 'high' | 'medium' | 'low';
+
+export interface RugProfile {
+  origin: string | null;
+  construction: string | null;
+  fiber: string | null;
+  age: string | null;
+  condition: string | null;
+}
+
+export interface StructuredServiceItem {
+  name: string;
+  description: string | null;
+  quantity: number;
+  unitPrice: number;
+  priority: ServicePriority;
+  // Present when the line was priced from the business's price list
+  pricing: ServicePriceQuote | null;
+  // Required in the client portal, per the business's service catalog
+  mandatory: boolean;
+}
+
+export interface StructuredReport {
+  rugProfile: RugProfile;
+  services: StructuredServiceItem[];
+  totalEstimate: number;
+}
+
+// Minimal shape shared by EstimateReview and the PDF cost breakdown
+export interface ParsedServiceLine {
+  id: string;
+  name: string;
+  description?: string;
+  quantity: number;
+  unitPrice: number;
+  priority: ServicePriority;
+  pricing?: ServicePriceQuote | null;
+  mandatory?: boolean;
+}
+
+export const RUG_PROFILE_LABELS: Record<keyof RugProfile, string> = {
+  origin: 'Origin',
+  construction: 'Construction',
+  fiber: 'Fiber',
+  age: 'Estimated Age',
+  condition: 'Condition',
+};
+
+const PRIORITIES: ServicePriority[] = ['high', 'medium', 'low'];
+const PRICING_UNITS: PricingUnit[] = ['sq_ft', 'linear_ft', 'each', 'flat'];
+
+const asText = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+const asNumber = (value: unknown, fallback: number): number => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) && num >= 0 ? num : fallback;
+};
+
+const asQuote = (value: unknown): ServicePriceQuote | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (!PRICING_UNITS.includes(raw.unit as PricingUnit)) return null;
+  return {
+    unitPrice: asNumber(raw.unitPrice, 0),
+    rate: asNumber(raw.rate, 0),
+    unit: raw.unit as PricingUnit,
+    measure: asNumber(raw.measure, 0),
+    minimumApplied: raw.minimumApplied === true,
+  };
+};
+
+/**
+ * Read a structured report from an untyped jsonb value.
+ * Returns null when the value is missing or has no usable services.
+ */
+export function parseStructuredReport(value: unknown): StructuredReport | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+
+  const profileRaw = (raw.rugProfile && typeof raw.rugProfile === 'object' ? raw.rugProfile : {}) as Record<string, unknown>;
+  const rugProfile: RugProfile = {
+    origin: asText(profileRaw.origin),
+    construction: asText(profileRaw.construction),
+    fiber: asText(profileRaw.fiber),
+    age: asText(profileRaw.age),
+    condition: asText(profileRaw.condition),
+  };
+
+  const services: StructuredServiceItem[] = [];
+  if (Array.isArray(raw.services)) {
+    for (const item of raw.services) {
+      if (!item || typeof item !== 'object') continue;
+      const entry = item as Record<string, unknown>;
+      const name = asText(entry.name);
+      if (!name) continue;
+      const priority = PRIORITIES.includes(entry.priority as ServicePriority)
+        ? (entry.priority as ServicePriority)
+        : 'medium';
+      services.push({
+        name,
+        description: asText(entry.description),
+        quantity: Math.max(1, asNumber(entry.quantity, 1)),
+        unitPrice: asNumber(entry.unitPrice, 0),
+        priority,
+        pricing: asQuote(entry.pricing),
+        mandatory: entry.mandatory === true,
+      });
+    }
+  }
+
+  if (services.length === 0) return null;
+
+  const computedTotal = services.reduce((sum, s) => sum + s.quantity * s.unitPrice, 0);
+
+  return {
+    rugProfile,
+    services,
+    totalEstimate: asNumber(raw.totalEstimate, computedTotal),
+  };
+}
+
+export function hasRugProfile(profile: RugProfile | null | undefined): boolean {
+  return !!profile && Object.values(profile).some(Boolean);
+}
+
+/**
+ * Legacy fallback: pull services and prices out of the letter text.
+ * Only used for inspections analyzed before structured_report existed.
+ */
+export function parseLegacyReportServices(reportText: string): ParsedServiceLine[] {
+  const services: ParsedServiceLine[] = [];
+  const lines = reportText.split('\n');
+
+  let inBreakdownSection = false;
+
+  for (const line of lines) {
+    const lowerLine = line.toLowerCase();
+    const trimmedLine = line.trim();
+
+    // Detect the RUG BREAKDOWN AND SERVICES section or similar headers
+    if (lowerLine.includes('rug breakdown') ||
+        lowerLine.includes('estimate of services') ||
+        lowerLine.includes('services and costs') ||
+        lowerLine.includes('itemized list')) {
+      inBreakdownSection = true;
+      continue;
+    }
+
+    // Stop parsing at certain sections
+    if (lowerLine.includes('total estimate') ||
+        lowerLine.includes('total investment') ||
+        lowerLine.includes('next steps') ||
+        lowerLine.includes('sincerely') ||
+        lowerLine.includes('additional protection')) {
+      inBreakdownSection = false;
+      continue;
+    }
+
+    // Skip rug headers (e.g., "Rug #1: Persian (8x10)")
+    if (lowerLine.startsWith('rug #') || lowerLine.startsWith('rug:')) {
+      continue;
+    }
+
+    // Skip subtotal lines
+    if (lowerLine.includes('subtotal')) {
+      continue;
+    }
+
+    // Parse service lines with format "Service Name: $amount" or "- Service Name: $amount"
+    if (inBreakdownSection && trimmedLine.length > 0) {
+      // Match pattern: "Service Name: $123.45" or "- Service Name: $123.45"
+      const serviceMatch = trimmedLine.match(/^[-*]?\s*(.+?):\s*\$([0-9,]+(?:\.[0-9]{2})?)/);
+
+      if (serviceMatch) {
+        const serviceName = serviceMatch[1].trim();
+        const price = parseFloat(serviceMatch[2].replace(',', ''));
+
+        // Skip if service name is too short or looks like a header
+        if (serviceName.length < 3) continue;
+
+        // Check if this service already exists
+        const existingIndex = services.findIndex(
+          s => s.name.toLowerCase() === serviceName.toLowerCase()
+        );
+
+        if (existingIndex >= 0) {
+          // Update price if found and add to quantity
+          services[existingIndex].quantity += 1;
+          if (price > 0 && services[existingIndex].unitPrice === 0) {
+            services[existingIndex].unitPrice = price;
+          }
+        } else {
+          services.push({
+            id: crypto.randomUUID(),
+            name: serviceName,
+            quantity: 1,
+            unitPrice: price,
+            priority: 'medium',
+          });
+        }
+      }
+    }
+  }
+
+  // If no services were found in structured format, try alternative parsing
+  if (services.length === 0) {
+    // Look for any line with a dollar amount and service-like name
+    for (const line of lines) {
+      const trimmedLine = line.trim();
+      const priceMatch = trimmedLine.match(/^(.+?):\s*\$([0-9,]+(?:\.[0-9]{2})?)/);
+
+      if (priceMatch) {
+        const serviceName = priceMatch[1].trim()
+          .replace(/^[-*]\s*/, '')
+          .replace(/\*\*/g, '');
+        const price = parseFloat(priceMatch[2].replace(',', ''));
+
+        // Skip common non-service lines
+        const lowerName = serviceName.toLowerCase();
+        if (lowerName.includes('subtotal') ||
+            lowerName.includes('total') ||
+            lowerName.includes('rug #') ||
+            serviceName.length < 3) {
+          continue;
+        }
+
+        // Check if already exists
+        const existingIndex = services.findIndex(
+          s => s.name.toLowerCase() === serviceName.toLowerCase()
+        );
+
+        if (existingIndex < 0) {
+          services.push({
+            id: crypto.randomUUID(),
+            name: serviceName,
+            quantity: 1,
+            unitPrice: price,
+            priority: 'medium',
+          });
+        }
+      }
+    }
+  }
+
+  return services;
+}
+
+/**
+ * Service lines for a rug: structured items when available, otherwise
+ * whatever can be recovered from the legacy letter text. Legacy lines
+ * default to medium priority until catalog defaults are applied.
+ */
+export function getReportServices(structuredReport: unknown, reportText: string | null): ParsedServiceLine[] {
+  const structured = parseStructuredReport(structuredReport);
+  if (structured) {
+    return structured.services.map((service) => ({
+      id: crypto.randomUUID(),
+      name: service.name,
+      description: service.description || undefined,
+      quantity: service.quantity,
+      unitPrice: service.unitPrice,
+      priority: service.priority,
+      pricing: service.pricing,
+      mandatory: service.mandatory,
+    }));
+  }
+  return reportText ? parseLegacyReportServices(reportText) : [];
+}
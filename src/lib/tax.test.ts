@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { combinedRate, computeTax, formatTaxLabel, NO_TAX, type JobTaxSettings } from '@shared/tax';
+
+const settings: JobTaxSettings = {
+  rates: [
+    { name: 'State', rate: 6.25 },
+    { name: 'City', rate: 2 },
+  ],
+  clientExempt: false,
+};
+
+describe('computeTax', () => {
+  it('applies every rate to the taxable lines and rounds each on its own', () => {
+    const result = computeTax([{ amount: 100.1 }, { amount: 33.33 }], settings);
+
+    expect(result).toEqual({
+      taxableAmount: 133.43,
+      lines: [
+        { name: 'State', rate: 6.25, amount: 8.34 },
+        { name: 'City', rate: 2, amount: 2.67 },
+      ],
+      total: 11.01,
+    });
+  });
+
+  it('leaves exempt services out of the taxable amount', () => {
+    const result = computeTax([{ amount: 200 }, { amount: 50, taxExempt: true }], settings);
+
+    expect(result.taxableAmount).toBe(200);
+    expect(result.total).toBe(16.5);
+  });
+
+  it('charges an exempt client nothing', () => {
+    const result = computeTax([{ amount: 200 }], { ...settings, clientExempt: true });
+
+    expect(result).toEqual({ taxableAmount: 0, lines: [], total: 0 });
+  });
+
+  it('produces no lines when the business charges no tax', () => {
+    expect(computeTax([{ amount: 200 }], NO_TAX)).toEqual({ taxableAmount: 200, lines: [], total: 0 });
+  });
+});
+
+describe('combinedRate', () => {
+  it('adds the rates up unless the client is exempt', () => {
+    expect(combinedRate(settings)).toBe(8.25);
+    expect(combinedRate({ ...settings, clientExempt: true })).toBe(0);
+  });
+});
+
+describe('formatTaxLabel', () => {
+  it('shows the rate next to the name', () => {
+    expect(formatTaxLabel({ name: 'State', rate: 6.25 })).toBe('State (6.25%)');
+  });
+});
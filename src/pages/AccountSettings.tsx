@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useOrganization } from "@/hooks/useOrganization";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,8 +14,15 @@ import { toast } from "sonner";
 import { ArrowLeft, Upload, Building2, Save, Loader2, Lock, Bell, Eye, EyeOff, Mail, AlertTriangle } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import ServicePricing from "@/components/ServicePricing";
+import BillingSettings from "@/components/BillingSettings";
+import DiscountSettings from "@/components/DiscountSettings";
+import ChecklistTemplatesSettings from "@/components/ChecklistTemplatesSettings";
 import EmailTemplatesSettings from "@/components/EmailTemplatesSettings";
+import JobStatusSettings from "@/components/JobStatusSettings";
 import PaymentInfoSettings from "@/components/PaymentInfoSettings";
+import ReminderSettings from "@/components/ReminderSettings";
+import TaxSettings from "@/components/TaxSettings";
+import TeamSettings from "@/components/TeamSettings";
 import { useSignedUrl } from "@/hooks/useSignedUrl";
 import DeleteAccountDialog from "@/components/DeleteAccountDialog";
 import { useUnsavedChanges } from "@/hooks/useUnsavedChanges";
@@ -34,11 +42,13 @@ interface Profile {
     emailReports: boolean;
     jobUpdates: boolean;
     marketingEmails: boolean;
+    pushNotifications?: boolean;
   } | null;
 }
 
 const AccountSettings = () => {
   const { user, loading: authLoading } = useAuth();
+  const { businessUserId, permissions } = useOrganization();
   const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -77,6 +87,7 @@ const AccountSettings = () => {
     emailReports: true,
     jobUpdates: true,
     marketingEmails: false,
+    pushNotifications: true,
   });
   const [savingNotifications, setSavingNotifications] = useState(false);
 
@@ -133,6 +144,7 @@ const AccountSettings = () => {
               emailReports: prefs.emailReports ?? true,
               jobUpdates: prefs.jobUpdates ?? true,
               marketingEmails: prefs.marketingEmails ?? false,
+              pushNotifications: prefs.pushNotifications ?? true,
             });
           }
         }
@@ -509,6 +521,21 @@ const AccountSettings = () => {
                 />
               </div>
               <Separator />
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="pushNotifications">Push Notifications</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Get job updates, payments and client messages on your phone
+                  </p>
+                </div>
+                <Switch
+                  id="pushNotifications"
+                  checked={notifications.pushNotifications}
+                  disabled={savingNotifications || !notifications.jobUpdates}
+                  onCheckedChange={(checked) => handleNotificationChange('pushNotifications', checked)}
+                />
+              </div>
+              <Separator />
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
                   <Label htmlFor="marketingEmails">Marketing Emails</Label>
@@ -526,126 +553,149 @@ const AccountSettings = () => {
             </CardContent>
           </Card>
 
+          {/* Team */}
+          <TeamSettings />
+
           {/* Service Pricing */}
-          {user && <ServicePricing userId={user.id} />}
+          {businessUserId && permissions.canManageSettings && <ServicePricing userId={businessUserId} />}
+
+          {/* Sales Tax */}
+          {permissions.canManageSettings && <TaxSettings />}
+
+          {/* Discounts & Coupons */}
+          {permissions.canManageSettings && <DiscountSettings />}
+
+          {/* Job Checklists */}
+          {permissions.canManageSettings && <ChecklistTemplatesSettings />}
+
+          {/* Job Status Pipeline */}
+          {permissions.canManageSettings && <JobStatusSettings />}
+
+          {/* Deposits & Billing */}
+          {permissions.canManageBusinessProfile && <BillingSettings />}
 
           {/* Payment Information */}
-          <PaymentInfoSettings />
+          {permissions.canManageBusinessProfile && <PaymentInfoSettings />}
 
           {/* Business Branding */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Building2 className="h-5 w-5" />
-                Business Branding
-              </CardTitle>
-              <CardDescription>
-                Your business logo and information will appear on generated reports
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              {/* Logo Upload */}
-              <div className="space-y-4">
-                <Label>Business Logo</Label>
-                <div className="flex items-center gap-4">
-                  <Avatar className="h-20 w-20 rounded-lg">
-                    <AvatarImage src={logoSignedUrl || profile?.logo_url || undefined} className="object-contain" />
-                    <AvatarFallback className="rounded-lg bg-muted">
-                      <Building2 className="h-8 w-8 text-muted-foreground" />
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="space-y-2">
-                    <input
-                      type="file"
-                      ref={fileInputRef}
-                      onChange={handleLogoUpload}
-                      accept="image/*"
-                      className="hidden"
-                    />
-                    <Button
-                      variant="outline"
-                      onClick={() => fileInputRef.current?.click()}
-                      disabled={uploading}
-                    >
-                      {uploading ? (
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      ) : (
-                        <Upload className="mr-2 h-4 w-4" />
-                      )}
-                      Upload Logo
-                    </Button>
-                    {(profile?.logo_url || profile?.logo_path) && (
+          {permissions.canManageBusinessProfile && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Building2 className="h-5 w-5" />
+                  Business Branding
+                </CardTitle>
+                <CardDescription>
+                  Your business logo and information will appear on generated reports
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {/* Logo Upload */}
+                <div className="space-y-4">
+                  <Label>Business Logo</Label>
+                  <div className="flex items-center gap-4">
+                    <Avatar className="h-20 w-20 rounded-lg">
+                      <AvatarImage src={logoSignedUrl || profile?.logo_url || undefined} className="object-contain" />
+                      <AvatarFallback className="rounded-lg bg-muted">
+                        <Building2 className="h-8 w-8 text-muted-foreground" />
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="space-y-2">
+                      <input
+                        type="file"
+                        ref={fileInputRef}
+                        onChange={handleLogoUpload}
+                        accept="image/*"
+                        className="hidden"
+                      />
                       <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={removeLogo}
-                        className="text-destructive hover:text-destructive"
+                        variant="outline"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={uploading}
                       >
-                        Remove
+                        {uploading ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Upload className="mr-2 h-4 w-4" />
+                        )}
+                        Upload Logo
                       </Button>
-                    )}
-                    <p className="text-xs text-muted-foreground">
-                      Recommended: Square image, max 2MB
-                    </p>
+                      {(profile?.logo_url || profile?.logo_path) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={removeLogo}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          Remove
+                        </Button>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Recommended: Square image, max 2MB
+                      </p>
+                    </div>
                   </div>
                 </div>
-              </div>
-
-              {/* Business Details */}
-              <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="business_name">Business Name</Label>
-                  <Input
-                    id="business_name"
-                    name="business_name"
-                    value={formData.business_name}
-                    onChange={handleInputChange}
-                    placeholder="Enter your business name"
-                  />
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="business_address">Business Address</Label>
-                  <Textarea
-                    id="business_address"
-                    name="business_address"
-                    value={formData.business_address}
-                    onChange={handleInputChange}
-                    placeholder="Enter your business address"
-                    rows={3}
-                  />
-                </div>
-
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Business Details */}
+                <div className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="business_phone">Business Phone</Label>
+                    <Label htmlFor="business_name">Business Name</Label>
                     <Input
-                      id="business_phone"
-                      name="business_phone"
-                      value={formData.business_phone}
+                      id="business_name"
+                      name="business_name"
+                      value={formData.business_name}
                       onChange={handleInputChange}
-                      placeholder="Enter phone number"
+                      placeholder="Enter your business name"
                     />
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="business_email">Business Email</Label>
-                    <Input
-                      id="business_email"
-                      name="business_email"
-                      type="email"
-                      value={formData.business_email}
+                    <Label htmlFor="business_address">Business Address</Label>
+                    <Textarea
+                      id="business_address"
+                      name="business_address"
+                      value={formData.business_address}
                       onChange={handleInputChange}
-                      placeholder="Enter business email"
+                      placeholder="Enter your business address"
+                      rows={3}
                     />
                   </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="business_phone">Business Phone</Label>
+                      <Input
+                        id="business_phone"
+                        name="business_phone"
+                        value={formData.business_phone}
+                        onChange={handleInputChange}
+                        placeholder="Enter phone number"
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="business_email">Business Email</Label>
+                      <Input
+                        id="business_email"
+                        name="business_email"
+                        type="email"
+                        value={formData.business_email}
+                        onChange={handleInputChange}
+                        placeholder="Enter business email"
+                      />
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Email Templates */}
-          <EmailTemplatesSettings />
+          {permissions.canManageSettings && <EmailTemplatesSettings />}
+
+          {/* Follow-up Reminders */}
+          {permissions.canManageSettings && <ReminderSettings />}
 
           {/* Danger Zone */}
           <Card className="border-destructive/50">
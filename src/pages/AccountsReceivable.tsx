@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { 
   ArrowLeft, DollarSign, CheckCircle, Clock, AlertCircle,
-  TrendingUp, Filter, Search, ExternalLink, FileText
+  TrendingUp, Filter, Search, ExternalLink, FileText, Undo2
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -28,6 +28,9 @@ import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useOrganization } from '@/hooks/useOrganization';
+import { invoiceBalance, type Invoice } from '@/hooks/useInvoices';
+import RefundPaymentDialog from '@/components/RefundPaymentDialog';
 import rugboostLogo from '@/assets/rugboost-logo.svg';
 
 interface Payment {
@@ -35,10 +38,12 @@ interface Payment {
   job_id: string;
   status: string;
   amount: number;
+  amount_refunded: number;
   currency: string;
   created_at: string;
   paid_at: string | null;
   stripe_payment_intent_id: string | null;
+  metadata: unknown;
   job?: {
     job_number: string;
     client_name: string;
@@ -62,12 +67,25 @@ const STATUS_CONFIG = {
     icon: AlertCircle, 
     className: 'bg-red-100 text-red-800 border-red-200' 
   },
+  partially_refunded: {
+    label: 'Partially Refunded',
+    icon: Undo2,
+    className: 'bg-gray-100 text-gray-800 border-gray-200'
+  },
+  refunded: {
+    label: 'Refunded',
+    icon: Undo2,
+    className: 'bg-gray-100 text-gray-800 border-gray-200'
+  },
 };
 
 const AccountsReceivable = () => {
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
+  const { permissions } = useOrganization();
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [openInvoices, setOpenInvoices] = useState<Invoice[]>([]);
+  const [refundingPayment, setRefundingPayment] = useState<Payment | null>(null);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
@@ -95,6 +113,15 @@ const AccountsReceivable = () => {
 
       if (paymentsError) throw paymentsError;
 
+      // What clients still owe is whatever open invoices haven't been paid
+      const { data: invoicesData, error: invoicesError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('status', 'sent');
+
+      if (invoicesError) throw invoicesError;
+      setOpenInvoices(invoicesData || []);
+
       // Fetch related jobs
       const jobIds = [...new Set((paymentsData || []).map(p => p.job_id))];
       
@@ -136,33 +163,32 @@ const AccountsReceivable = () => {
   });
 
   // Calculate totals
+  // Net of refunds - a fully refunded payment collected nothing
   const totalCollected = payments
-    .filter(p => p.status === 'completed')
-    .reduce((sum, p) => sum + p.amount, 0);
+    .filter(p => p.status === 'completed' || p.status === 'partially_refunded')
+    .reduce((sum, p) => sum + p.amount - (p.amount_refunded || 0), 0);
   
-  const totalOutstanding = payments
-    .filter(p => p.status === 'pending')
-    .reduce((sum, p) => sum + p.amount, 0);
+  const totalOutstanding = openInvoices.reduce((sum, invoice) => sum + invoiceBalance(invoice), 0);
 
   const collectionRate = payments.length > 0 
     ? Math.round((payments.filter(p => p.status === 'completed').length / payments.length) * 100) 
     : 0;
 
-  const agingBuckets = payments
-    .filter(p => p.status === 'pending')
-    .reduce(
-      (acc, payment) => {
-        const ageDays = Math.floor(
-          (Date.now() - new Date(payment.created_at).getTime()) / (1000 * 60 * 60 * 24)
-        );
-        if (ageDays <= 30) acc['0-30'] += payment.amount;
-        else if (ageDays <= 60) acc['31-60'] += payment.amount;
-        else if (ageDays <= 90) acc['61-90'] += payment.amount;
-        else acc['90+'] += payment.amount;
-        return acc;
-      },
-      { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 }
-    );
+  // Aged from when each invoice was issued
+  const agingBuckets = openInvoices.reduce(
+    (acc, invoice) => {
+      const balance = invoiceBalance(invoice);
+      const ageDays = Math.floor(
+        (Date.now() - new Date(invoice.issued_at).getTime()) / (1000 * 60 * 60 * 24)
+      );
+      if (ageDays <= 30) acc['0-30'] += balance;
+      else if (ageDays <= 60) acc['31-60'] += balance;
+      else if (ageDays <= 90) acc['61-90'] += balance;
+      else acc['90+'] += balance;
+      return acc;
+    },
+    { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 }
+  );
 
   if (authLoading || loading) {
     return (
@@ -223,7 +249,7 @@ const AccountsReceivable = () => {
                 ${totalOutstanding.toFixed(2)}
               </div>
               <p className="text-xs text-yellow-600 dark:text-yellow-500">
-                {payments.filter(p => p.status === 'pending').length} payments pending
+                {openInvoices.filter(i => invoiceBalance(i) > 0).length} open invoices
               </p>
             </CardContent>
           </Card>
@@ -292,6 +318,8 @@ const AccountsReceivable = () => {
                     <SelectItem value="completed">Paid</SelectItem>
                     <SelectItem value="pending">Pending</SelectItem>
                     <SelectItem value="failed">Failed</SelectItem>
+                    <SelectItem value="partially_refunded">Partially Refunded</SelectItem>
+                    <SelectItem value="refunded">Refunded</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -348,6 +376,11 @@ const AccountsReceivable = () => {
                             <span className="font-semibold text-lg">
                               ${payment.amount.toFixed(2)}
                             </span>
+                            {payment.amount_refunded > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                −${Number(payment.amount_refunded).toFixed(2)} refunded
+                              </div>
+                            )}
                           </TableCell>
                           <TableCell>
                             <Badge variant="outline" className={config.className}>
@@ -377,6 +410,17 @@ const AccountsReceivable = () => {
                               >
                                 View Job
                               </Button>
+                              {permissions.canRefundPayments && payment.stripe_payment_intent_id &&
+                                (payment.status === 'completed' || payment.status === 'partially_refunded') && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setRefundingPayment(payment)}
+                                >
+                                  <Undo2 className="h-4 w-4 mr-1" />
+                                  Refund
+                                </Button>
+                              )}
                               {payment.stripe_payment_intent_id && (
                                 <Button
                                   variant="ghost"
@@ -404,6 +448,20 @@ const AccountsReceivable = () => {
           </CardContent>
         </Card>
       </main>
+
+      {refundingPayment && (
+        <RefundPaymentDialog
+          open={!!refundingPayment}
+          onOpenChange={(open) => {
+            if (!open) {
+              setRefundingPayment(null);
+              fetchPayments();
+            }
+          }}
+          jobId={refundingPayment.job_id}
+          payment={refundingPayment}
+        />
+      )}
     </div>
   );
 };
@@ -7,7 +7,7 @@ import { queryKeys } from "@/lib/queryKeys";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ArrowLeft, TrendingUp, Users, DollarSign, Briefcase, BarChart3, Target } from "lucide-react";
+import { ArrowLeft, TrendingUp, Users, DollarSign, Briefcase, BarChart3, Target, ThumbsUp, Landmark, Tag } from "lucide-react";
 import { format, subDays, subMonths, endOfMonth, eachDayOfInterval, eachWeekOfInterval, eachMonthOfInterval } from "date-fns";
 import rugboostLogo from "@/assets/rugboost-logo.svg";
 
@@ -16,7 +16,12 @@ import { ConversionFunnelChart } from "@/components/analytics/ConversionFunnelCh
 import { RevenueChart } from "@/components/analytics/RevenueChart";
 import { ServicePopularityChart } from "@/components/analytics/ServicePopularityChart";
 import { MetricCard } from "@/components/analytics/MetricCard";
+import { TaxCollectedTable, type TaxCollectedRow } from "@/components/analytics/TaxCollectedTable";
+import { DiscountsGivenTable, type DiscountsGivenRow } from "@/components/analytics/DiscountsGivenTable";
 import { AnalyticsSkeleton } from "@/components/skeletons/AnalyticsSkeleton";
+import { calculateNps, type NpsBreakdown } from "@/lib/reviews";
+import type { TaxLine } from "@shared/tax";
+import type { DiscountSource } from "@shared/discounts";
 
 interface AnalyticsData {
   totalJobs: number;
@@ -29,6 +34,17 @@ interface AnalyticsData {
   servicePopularity: { name: string; count: number; revenue: number }[];
   recentJobsGrowth: number;
   recentRevenueGrowth: number;
+  nps: NpsBreakdown;
+  taxCollected: TaxCollectedRow[];
+  discountsGiven: DiscountsGivenRow[];
+}
+
+// The parts of an invoice's stored line items the discount report reads
+interface InvoiceLineItem {
+  kind: string;
+  description: string;
+  amount: number;
+  discountSource?: DiscountSource;
 }
 
 type DateRange = "7d" | "30d" | "90d" | "12m";
@@ -120,7 +136,7 @@ const Analytics = () => {
       const endStr = end.toISOString();
 
       // Parallel fetch all data
-      const [jobsResult, clientAccessResult, paymentsResult, estimatesResult, prevJobsResult, prevPaymentsResult] = await Promise.all([
+      const [jobsResult, clientAccessResult, paymentsResult, estimatesResult, reviewsResult, prevJobsResult, prevPaymentsResult, taxInvoicesResult, discountInvoicesResult] = await Promise.all([
         supabase
           .from("jobs")
           .select("id, created_at, status, payment_status, client_portal_enabled")
@@ -147,6 +163,12 @@ const Analytics = () => {
           .gte("created_at", startStr)
           .lte("created_at", endStr),
         
+        supabase
+          .from("job_reviews")
+          .select("rating")
+          .gte("created_at", startStr)
+          .lte("created_at", endStr),
+        
         // Previous period for comparison
         (() => {
           const daysDiff = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
@@ -170,14 +192,35 @@ const Analytics = () => {
             .gte("paid_at", prevStart.toISOString())
             .lt("paid_at", startStr);
         })(),
+
+        // Tax is reported when the invoice carrying it is paid
+        supabase
+          .from("invoices")
+          .select("id, tax_lines, paid_at")
+          .in("status", ["paid", "partially_refunded", "refunded"])
+          .gt("tax_total", 0)
+          .gte("paid_at", startStr)
+          .lte("paid_at", endStr),
+
+        // Discounts likewise, so they match the revenue they came off
+        supabase
+          .from("invoices")
+          .select("id, line_items, paid_at")
+          .in("status", ["paid", "partially_refunded", "refunded"])
+          .gt("discount_total", 0)
+          .gte("paid_at", startStr)
+          .lte("paid_at", endStr),
       ]);
 
       const jobs = jobsResult.data || [];
       const clientAccess = clientAccessResult.data || [];
       const payments = paymentsResult.data || [];
       const estimates = estimatesResult.data || [];
+      const reviews = reviewsResult.data || [];
       const prevJobs = prevJobsResult.data || [];
       const prevPayments = prevPaymentsResult.data || [];
+      const taxInvoices = taxInvoicesResult.data || [];
+      const discountInvoices = discountInvoicesResult.data || [];
 
       // Calculate metrics
       const totalJobs = jobs.length;
@@ -224,6 +267,39 @@ const Analytics = () => {
         .sort((a, b) => b.count - a.count)
         .slice(0, 10);
 
+      // Tax collected, one row per rate
+      const taxMap = new Map<string, TaxCollectedRow>();
+      taxInvoices.forEach(invoice => {
+        ((invoice.tax_lines as unknown as TaxLine[]) || []).forEach(line => {
+          const key = `${line.name}::${line.rate}`;
+          const existing = taxMap.get(key) || { name: line.name, rate: Number(line.rate), amount: 0, invoices: 0 };
+          taxMap.set(key, {
+            ...existing,
+            amount: Math.round((existing.amount + Number(line.amount)) * 100) / 100,
+            invoices: existing.invoices + 1,
+          });
+        });
+      });
+      const taxCollected = Array.from(taxMap.values()).sort((a, b) => b.amount - a.amount);
+
+      // Discounts given, one row per discount
+      const discountMap = new Map<string, DiscountsGivenRow>();
+      discountInvoices.forEach(invoice => {
+        ((invoice.line_items as unknown as InvoiceLineItem[]) || [])
+          .filter(line => line.kind === "discount")
+          .forEach(line => {
+            const source = line.discountSource || "manual";
+            const key = `${source}::${line.description}`;
+            const existing = discountMap.get(key) || { description: line.description, source, amount: 0, invoices: 0 };
+            discountMap.set(key, {
+              ...existing,
+              amount: Math.round((existing.amount - Number(line.amount)) * 100) / 100,
+              invoices: existing.invoices + 1,
+            });
+          });
+      });
+      const discountsGiven = Array.from(discountMap.values()).sort((a, b) => b.amount - a.amount);
+
       // Growth calculations
       const prevJobsCount = prevJobs.length;
       const prevRevenueTotal = prevPayments.reduce((sum, p) => sum + Number(p.amount), 0);
@@ -242,6 +318,9 @@ const Analytics = () => {
         servicePopularity,
         recentJobsGrowth,
         recentRevenueGrowth,
+        nps: calculateNps(reviews.map(r => r.rating)),
+        taxCollected,
+        discountsGiven,
       };
     },
     enabled: !!user,
@@ -321,7 +400,7 @@ const Analytics = () => {
         ) : (
           <>
             {/* Metric Cards */}
-            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4 mb-8">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5 mb-8">
               <MetricCard
                 title="Total Jobs"
                 value={data?.totalJobs || 0}
@@ -351,6 +430,16 @@ const Analytics = () => {
                 isPercentage
                 description="Invited to paid"
               />
+              <MetricCard
+                title="Client NPS"
+                value={data?.nps.score || 0}
+                icon={ThumbsUp}
+                description={
+                  data?.nps.total
+                    ? `From ${data.nps.total} review${data.nps.total === 1 ? "" : "s"}`
+                    : "No reviews this period"
+                }
+              />
             </div>
 
             {largestDrop && (
@@ -431,6 +520,32 @@ const Analytics = () => {
                 </CardContent>
               </Card>
             </div>
+
+            <Card className="shadow-card mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Landmark className="h-5 w-5 text-primary" />
+                  Sales Tax Collected
+                </CardTitle>
+                <CardDescription>Tax on invoices paid during the selected period, by rate</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TaxCollectedTable data={data?.taxCollected || []} />
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Tag className="h-5 w-5 text-primary" />
+                  Discounts Given
+                </CardTitle>
+                <CardDescription>Discounts on invoices paid during the selected period</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DiscountsGivenTable data={data?.discountsGiven || []} />
+              </CardContent>
+            </Card>
           </>
         )}
       </main>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, forwardRef } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { Mail, Lock, User, Loader2, ArrowLeft, CheckCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -33,7 +33,12 @@ const nameSchema = z.string().min(2, 'Name must be at least 2 characters');
 
 const Auth = forwardRef<HTMLDivElement>((_, ref) => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { user, loading, signIn, signUp } = useAuth();
+  // Pages like team invitations send people here and expect them back afterwards.
+  // Only same-site paths are honoured.
+  const requestedRedirect = searchParams.get('redirect');
+  const redirectTo = requestedRedirect?.startsWith('/') && !requestedRedirect.startsWith('//') ? requestedRedirect : '/';
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   // Login form state
@@ -76,9 +81,9 @@ const Auth = forwardRef<HTMLDivElement>((_, ref) => {
 
   useEffect(() => {
     if (user && !loading) {
-      navigate('/');
+      navigate(redirectTo);
     }
-  }, [user, loading, navigate]);
+  }, [user, loading, navigate, redirectTo]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -122,7 +127,7 @@ const Auth = forwardRef<HTMLDivElement>((_, ref) => {
       // Clear attempts on successful login
       clearAttempts(loginEmail);
       toast.success('Welcome back!');
-      navigate('/');
+      navigate(redirectTo);
     }
   };
 
@@ -152,7 +157,7 @@ const Auth = forwardRef<HTMLDivElement>((_, ref) => {
       }
     } else {
       toast.success('Account created successfully!');
-      navigate('/');
+      navigate(redirectTo);
     }
   };
 
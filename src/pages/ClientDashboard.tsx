@@ -39,7 +39,15 @@ const getStatusConfig = (status: string, paymentStatus: string | null) => {
     }
     return { label: 'In Progress', icon: Play, color: 'text-blue-600 bg-blue-50 border-blue-200' };
   }
-  
+
+  if (paymentStatus === 'balance_due') {
+    return { label: 'Balance Due', icon: AlertCircle, color: 'text-amber-600 bg-amber-50 border-amber-200' };
+  }
+
+  if (paymentStatus === 'deposit_paid') {
+    return { label: 'In Progress', icon: Play, color: 'text-blue-600 bg-blue-50 border-blue-200' };
+  }
+
   if (status === 'pending-approval') {
     return { label: 'Awaiting Your Approval', icon: AlertCircle, color: 'text-amber-600 bg-amber-50 border-amber-200' };
   }
@@ -387,6 +387,7 @@ const ClientHistory = () => {
                                               alt={rug.rug_number}
                                               className="w-12 h-12 object-cover rounded-md border"
                                               loadingClassName="w-12 h-12"
+                                              thumbnail
                                             />
                                           ) : (
                                             <div className="w-12 h-12 rounded-md border bg-muted flex items-center justify-center">
@@ -3,7 +3,7 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { 
   Loader2, CheckCircle, Image, FileText, DollarSign, 
   ChevronDown, ChevronUp, Check, X, CreditCard, LogOut, History, Lock,
-  Calendar, Bell, MessageSquare, Download, Star
+  Calendar, Bell, Download, Star, Tag
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -15,6 +15,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Collapsible,
   CollapsibleContent,
@@ -24,16 +25,45 @@ import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { usePushToken } from '@/hooks/usePushToken';
+import {
+  INVOICE_KIND_LABELS,
+  INVOICE_STATUS_LABELS,
+  invoiceBalance,
+  isSettledInvoice,
+  useDownloadInvoice,
+} from '@/hooks/useInvoices';
 import rugboostLogo from '@/assets/rugboost-logo.svg';
 import RugPhoto from '@/components/RugPhoto';
+import JobMessageThread from '@/components/JobMessageThread';
+import NotificationBell from '@/components/NotificationBell';
+import StarRating from '@/components/StarRating';
+import BeforeAfterSlider from '@/components/BeforeAfterSlider';
+import type { JobReview } from '@/lib/reviews';
+import {
+  buildClientTimeline,
+  type JobStatusDefinition,
+  type JobStatusHistoryEntry,
+} from '@/lib/jobStatus';
+import {
+  SCHEDULE_REQUEST_TYPE_LABELS,
+  SCHEDULE_STATUS_CONFIG,
+  formatScheduleSlot,
+  getEffectiveSlot,
+  type ScheduleRequest,
+  type ScheduleRequestType,
+} from '@/lib/scheduleRequests';
+import { computeTax, formatTaxLabel, NO_TAX, type JobTaxSettings } from '@shared/tax';
+import {
+  applyDiscounts,
+  jobDiscounts,
+  NO_DISCOUNTS,
+  type DiscountTerms,
+  type JobDiscountSettings,
+} from '@shared/discounts';
+import { beforeAfterPairs, type RugPhotoRow } from '@/lib/rugPhotos';
 
-// Helper to check if a service is a mandatory cleaning service
-const isCleaningService = (serviceName: string): boolean => {
-  const lowerName = serviceName.toLowerCase();
-  return lowerName.includes('cleaning') || 
-         lowerName.includes('wash') || 
-         lowerName.includes('clean');
-};
+// Required services are flagged by the business's service catalog when the estimate is approved
+const isMandatoryService = (service: ServiceItem): boolean => service.mandatory === true;
 
 interface ServiceItem {
   id: string;
@@ -41,6 +71,8 @@ interface ServiceItem {
   quantity: number;
   unitPrice: number;
   priority: 'high' | 'medium' | 'low';
+  mandatory?: boolean;
+  taxExempt?: boolean;
 }
 
 interface RugData {
@@ -50,10 +82,13 @@ interface RugData {
   length: number | null;
   width: number | null;
   photo_urls: string[] | null;
+  // Intake and after-service photos
+  photos: RugPhotoRow[];
   analysis_report: string | null;
   estimate_id: string;
   services: ServiceItem[];
   total: number;
+  discount: DiscountTerms | null;
 }
 
 interface JobData {
@@ -63,6 +98,7 @@ interface JobData {
   status: string;
   created_at?: string | null;
   client_approved_at?: string | null;
+  organization_id?: string | null;
 }
 
 interface BusinessBranding {
@@ -80,30 +116,60 @@ interface Payment {
   paid_at: string | null;
 }
 
+interface Invoice {
+  id: string;
+  invoice_number: string | null;
+  kind: string;
+  amount_due: number;
+  amount_paid: number;
+  status: string;
+  due_at: string | null;
+}
+
 const ClientPortal = () => {
   const { accessToken } = useParams<{ accessToken: string }>();
   const navigate = useNavigate();
   const { user, loading: authLoading, signOut } = useAuth();
   const { registerAndSaveToken, removePushToken, pushToken } = usePushToken();
+  const downloadInvoice = useDownloadInvoice();
 
   const [loading, setLoading] = useState(true);
   const [job, setJob] = useState<JobData | null>(null);
   const [rugs, setRugs] = useState<RugData[]>([]);
   const [branding, setBranding] = useState<BusinessBranding | null>(null);
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [depositPercentage, setDepositPercentage] = useState(50);
+  const [taxSettings, setTaxSettings] = useState<JobTaxSettings>(NO_TAX);
+  const [discountSettings, setDiscountSettings] = useState<JobDiscountSettings>(NO_DISCOUNTS);
+  const [couponInput, setCouponInput] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<string | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
   const [selectedServices, setSelectedServices] = useState<Map<string, Set<string>>>(new Map());
   const [expandedRugs, setExpandedRugs] = useState<Set<string>>(new Set());
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [hasAccess, setHasAccess] = useState(false);
   const [clientJobAccessId, setClientJobAccessId] = useState<string | null>(null);
-  const [scheduleRequest, setScheduleRequest] = useState({
+  const [scheduleRequest, setScheduleRequest] = useState<{
+    type: ScheduleRequestType;
+    date: string;
+    time: string;
+    notes: string;
+  }>({
+    type: 'pickup',
     date: '',
     time: '',
     notes: '',
   });
-  const [question, setQuestion] = useState('');
+  const [scheduleRequests, setScheduleRequests] = useState<ScheduleRequest[]>([]);
+  const [isSubmittingSchedule, setIsSubmittingSchedule] = useState(false);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
-  const [reviewSubmitted, setReviewSubmitted] = useState(false);
+  const [review, setReview] = useState<JobReview | null>(null);
+  const [reviewDraft, setReviewDraft] = useState({ rating: 0, comment: '', allowPublic: false });
+  const [isSubmittingReview, setIsSubmittingReview] = useState(false);
+  const [statusPipeline, setStatusPipeline] = useState<JobStatusDefinition[]>([]);
+  const [statusHistory, setStatusHistory] = useState<JobStatusHistoryEntry[]>([]);
 
   useEffect(() => {
     if (!authLoading) {
@@ -124,23 +190,119 @@ const ClientPortal = () => {
 
   useEffect(() => {
     if (!job?.id) return;
-    const scheduleKey = `client-portal-${job.id}-schedule`;
     const notificationsKey = `client-portal-${job.id}-notifications`;
-    const reviewKey = `client-portal-${job.id}-review`;
-
-    const storedSchedule = window.localStorage.getItem(scheduleKey);
-    if (storedSchedule) {
-      try {
-        setScheduleRequest(JSON.parse(storedSchedule));
-      } catch {
-        // ignore invalid storage
-      }
-    }
 
     setNotificationsEnabled(window.localStorage.getItem(notificationsKey) === 'true');
-    setReviewSubmitted(window.localStorage.getItem(reviewKey) === 'true');
   }, [job?.id]);
 
+  // Keep schedule requests in sync so staff confirmations show up without a refresh
+  useEffect(() => {
+    if (!job?.id || !hasAccess) return;
+
+    fetchScheduleRequests(job.id);
+
+    const channel = supabase
+      .channel(`portal-schedule-${job.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'schedule_requests',
+          filter: `job_id=eq.${job.id}`,
+        },
+        () => fetchScheduleRequests(job.id)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [job?.id, hasAccess]);
+
+  useEffect(() => {
+    if (!job?.id || !hasAccess || !user) return;
+    fetchReview(job.id, user.id);
+  }, [job?.id, hasAccess, user]);
+
+  // The timeline follows the business's status pipeline and moves as staff update the job
+  useEffect(() => {
+    if (!job?.id || !hasAccess) return;
+
+    fetchStatusTimeline(job.id, job.organization_id);
+
+    const channel = supabase
+      .channel(`portal-status-${job.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'job_status_history',
+          filter: `job_id=eq.${job.id}`,
+        },
+        (payload) => {
+          const entry = payload.new as JobStatusHistoryEntry;
+          setStatusHistory(prev => [...prev, entry]);
+          setJob(prev => (prev ? { ...prev, status: entry.to_status } : prev));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [job?.id, job?.organization_id, hasAccess]);
+
+  const fetchStatusTimeline = async (jobId: string, organizationId: string | null | undefined) => {
+    const [{ data: historyData, error: historyError }, { data: pipelineData, error: pipelineError }] = await Promise.all([
+      supabase
+        .from('job_status_history')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('created_at'),
+      organizationId
+        ? supabase.from('job_statuses').select('*').eq('organization_id', organizationId).order('sort_order')
+        : Promise.resolve({ data: [] as JobStatusDefinition[], error: null }),
+    ]);
+
+    if (historyError || pipelineError) {
+      console.error('Error loading job timeline:', historyError || pipelineError);
+      return;
+    }
+    setStatusHistory(historyData || []);
+    setStatusPipeline(pipelineData || []);
+  };
+
+  const fetchReview = async (jobId: string, userId: string) => {
+    const { data, error } = await supabase
+      .from('job_reviews')
+      .select('*')
+      .eq('job_id', jobId)
+      .eq('reviewer_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading review:', error);
+      return;
+    }
+    setReview(data);
+  };
+
+  const fetchScheduleRequests = async (jobId: string) => {
+    const { data, error } = await supabase
+      .from('schedule_requests')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading schedule requests:', error);
+      return;
+    }
+    setScheduleRequests(data || []);
+  };
+
   const fetchBrandingForPasswordSetup = async () => {
     try {
       // Use secure RPC function to validate token and get staff user
@@ -256,7 +418,7 @@ const ClientPortal = () => {
 
       const { data: jobDetails } = await supabase
         .from('jobs')
-        .select('created_at, client_approved_at, status')
+        .select('created_at, client_approved_at, status, organization_id')
         .eq('id', accessData.job_id)
         .maybeSingle();
 
@@ -268,11 +430,43 @@ const ClientPortal = () => {
 
       setPayments((paymentsData || []) as Payment[]);
 
+      const { data: invoicesData } = await supabase
+        .from('invoices')
+        .select('id, invoice_number, kind, amount_due, amount_paid, status, due_at')
+        .eq('job_id', accessData.job_id)
+        .neq('status', 'void')
+        .order('issued_at', { ascending: true });
+
+      setInvoices(invoicesData || []);
+
+      const { data: taxData } = await supabase.rpc('job_tax_settings', { _job_id: accessData.job_id });
+      if (taxData) {
+        setTaxSettings(taxData as unknown as JobTaxSettings);
+      }
+
+      const { data: discountData } = await supabase.rpc('job_discount_settings', { _job_id: accessData.job_id });
+      if (discountData) {
+        setDiscountSettings(discountData as unknown as JobDiscountSettings);
+      }
+
+      if (jobDetails?.organization_id) {
+        const { data: organizationData } = await supabase
+          .from('organizations')
+          .select('deposit_percentage')
+          .eq('id', jobDetails.organization_id)
+          .maybeSingle();
+
+        if (organizationData) {
+          setDepositPercentage(Number(organizationData.deposit_percentage));
+        }
+      }
+
       const jobData = accessData.jobs as unknown as JobData;
       setJob({
         ...jobData,
         created_at: jobDetails?.created_at || null,
         client_approved_at: jobDetails?.client_approved_at || null,
+        organization_id: jobDetails?.organization_id || null,
       });
 
       // Fetch branding
@@ -302,16 +496,24 @@ const ClientPortal = () => {
 
       if (rugsError) throw rugsError;
 
+      // Photo rows carry the capture angle, which pairs before with after
+      const { data: photosData, error: photosError } = await supabase
+        .from('rug_photos')
+        .select('*')
+        .eq('job_id', jobData.id);
+
+      if (photosError) throw photosError;
+
       // Fetch approved estimates separately (RLS uses job_id directly)
       const { data: estimatesData, error: estimatesError } = await supabase
         .from('approved_estimates')
-        .select('id, inspection_id, services, total_amount')
+        .select('id, inspection_id, services, total_amount, discount')
         .eq('job_id', jobData.id);
 
       if (estimatesError) throw estimatesError;
 
       // Create a map of inspection_id -> estimate for quick lookup
-      const estimateMap = new Map<string, { id: string; services: unknown; total_amount: number }>();
+      const estimateMap = new Map<string, { id: string; services: unknown; total_amount: number; discount: unknown }>();
       (estimatesData || []).forEach(est => {
         estimateMap.set(est.inspection_id, est);
       });
@@ -327,10 +529,12 @@ const ClientPortal = () => {
             length: r.length,
             width: r.width,
             photo_urls: r.photo_urls,
+            photos: (photosData || []).filter(p => p.inspection_id === r.id),
             analysis_report: r.analysis_report,
             estimate_id: estimate.id,
             services: Array.isArray(estimate.services) ? estimate.services as ServiceItem[] : [],
             total: estimate.total_amount,
+            discount: (estimate.discount as DiscountTerms | null) ?? null,
           };
         });
 
@@ -359,9 +563,9 @@ const ClientPortal = () => {
     const rug = rugs.find(r => r.id === rugId);
     const service = rug?.services.find(s => s.id === serviceId);
     
-    // Prevent toggling off cleaning services (mandatory)
-    if (service && isCleaningService(service.name)) {
-      return; // Don't allow toggling cleaning services
+    // Prevent toggling off mandatory services
+    if (service && isMandatoryService(service)) {
+      return;
     }
 
     setSelectedServices(prev => {
@@ -388,9 +592,9 @@ const ClientPortal = () => {
       if (selectAll) {
         newMap.set(rugId, new Set(rug.services.map(s => s.id)));
       } else {
-        // When clearing all, keep mandatory cleaning services selected
+        // When clearing all, keep mandatory services selected
         const mandatoryServiceIds = rug.services
-          .filter(s => isCleaningService(s.name))
+          .filter(isMandatoryService)
           .map(s => s.id);
         newMap.set(rugId, new Set(mandatoryServiceIds));
       }
@@ -398,6 +602,58 @@ const ClientPortal = () => {
     });
   };
 
+  // Same calculation create-checkout-session charges: rug discounts, then the job's
+  // discounts, then tax on what's left
+  const calculateSelectedDiscounts = () => {
+    const selectedRugs = rugs
+      .map(rug => {
+        const selectedIds = selectedServices.get(rug.id) || new Set();
+        return { rug, services: rug.services.filter(service => selectedIds.has(service.id)) };
+      })
+      .filter(({ services }) => services.length > 0);
+
+    const lines = selectedRugs.flatMap(({ rug, services }) =>
+      services.map(service => ({
+        amount: service.quantity * service.unitPrice,
+        rugNumber: rug.rug_number,
+        taxExempt: service.taxExempt,
+      }))
+    );
+    const rugDiscounts = selectedRugs
+      .filter(({ rug }) => rug.discount)
+      .map(({ rug }) => ({ ...rug.discount!, source: 'manual' as const, rugNumber: rug.rug_number }));
+
+    return applyDiscounts(lines, [...rugDiscounts, ...jobDiscounts(discountSettings, selectedRugs.length)]);
+  };
+
+  const handleApplyCoupon = async (code: string | null) => {
+    if (!job?.id) return;
+
+    setIsApplyingCoupon(true);
+    setCouponError(null);
+    try {
+      const { data, error } = await supabase.rpc('job_discount_settings', {
+        _job_id: job.id,
+        _coupon_code: code,
+      });
+      if (error) throw error;
+
+      const settings = (data as unknown as JobDiscountSettings | null) ?? NO_DISCOUNTS;
+      if (settings.couponError) {
+        setCouponError(settings.couponError);
+        return;
+      }
+      setDiscountSettings(settings);
+      setAppliedCoupon(code);
+      setCouponInput('');
+    } catch (error) {
+      console.error('Error applying coupon:', error);
+      toast.error('Failed to apply coupon. Please try again.');
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
   const calculateSelectedTotal = () => {
     let total = 0;
     rugs.forEach(rug => {
@@ -419,9 +675,10 @@ const ClientPortal = () => {
     return count;
   };
 
-  const handleProceedToPayment = async (paymentOption?: { label: string; multiplier?: number }) => {
+  // The amount is worked out server-side from the services and the business's deposit terms
+  const handleProceedToPayment = async (paymentType: 'full' | 'deposit' | 'balance') => {
     const selectedCount = getSelectedServicesCount();
-    if (selectedCount === 0) {
+    if (paymentType !== 'balance' && selectedCount === 0) {
       toast.error('Please select at least one service');
       return;
     }
@@ -439,7 +696,8 @@ const ClientPortal = () => {
       rugs.forEach(rug => {
         const selectedIds = selectedServices.get(rug.id) || new Set();
         const rugSelectedServices = rug.services.filter(s => selectedIds.has(s.id));
-        if (rugSelectedServices.length > 0) {
+        // A balance invoice covers services the client already chose
+        if (rugSelectedServices.length > 0 && paymentType !== 'balance') {
           servicesForCheckout.push({
             rugNumber: rug.rug_number,
             rugId: rug.id,
@@ -449,10 +707,6 @@ const ClientPortal = () => {
         }
       });
 
-      const total = calculateSelectedTotal();
-      const multiplier = paymentOption?.multiplier ?? 1;
-      const totalAmount = Number((total * multiplier).toFixed(2));
-
       // Save client service selections to database before checkout
       for (const rugSelection of servicesForCheckout) {
         const selectionTotal = rugSelection.services.reduce(
@@ -495,11 +749,11 @@ const ClientPortal = () => {
           jobId: job?.id,
           clientJobAccessId,
           selectedServices: servicesForCheckout,
-          totalAmount,
+          paymentType,
+          couponCode: paymentType === 'balance' ? null : appliedCoupon,
           customerEmail: user?.email,
           successUrl: `${window.location.origin}/client/payment-success?session_id={CHECKOUT_SESSION_ID}`,
           cancelUrl: window.location.href,
-          paymentLabel: paymentOption?.label || 'Full payment',
         },
       });
 
@@ -520,21 +774,36 @@ const ClientPortal = () => {
     }
   };
 
-  const handleScheduleSubmit = (event: React.FormEvent) => {
+  const handleScheduleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
-    if (!job?.id) return;
-    const scheduleKey = `client-portal-${job.id}-schedule`;
-    window.localStorage.setItem(scheduleKey, JSON.stringify(scheduleRequest));
-    toast.success('Schedule request submitted. We’ll confirm shortly.');
-  };
-
-  const handleQuestionSubmit = () => {
-    if (!question.trim()) {
-      toast.error('Please enter your question.');
+    if (!job?.id || !user) return;
+    if (!scheduleRequest.date) {
+      toast.error('Please choose a date.');
       return;
     }
-    toast.success('Question sent. We’ll follow up soon.');
-    setQuestion('');
+
+    setIsSubmittingSchedule(true);
+    try {
+      const { error } = await supabase.from('schedule_requests').insert({
+        job_id: job.id,
+        requested_by: user.id,
+        request_type: scheduleRequest.type,
+        requested_date: scheduleRequest.date,
+        requested_time: scheduleRequest.time || null,
+        client_notes: scheduleRequest.notes.trim() || null,
+      });
+
+      if (error) throw error;
+
+      toast.success('Schedule request submitted. We’ll confirm shortly.');
+      setScheduleRequest((prev) => ({ ...prev, date: '', time: '', notes: '' }));
+      await fetchScheduleRequests(job.id);
+    } catch (error) {
+      console.error('Error submitting schedule request:', error);
+      toast.error('Failed to submit schedule request. Please try again.');
+    } finally {
+      setIsSubmittingSchedule(false);
+    }
   };
 
   const handleNotificationsToggle = async (enabled: boolean) => {
@@ -557,11 +826,37 @@ const ClientPortal = () => {
     }
   };
 
-  const handleReviewSubmit = () => {
-    if (!job?.id) return;
-    const reviewKey = `client-portal-${job.id}-review`;
-    window.localStorage.setItem(reviewKey, 'true');
-    setReviewSubmitted(true);
+  const handleReviewSubmit = async () => {
+    if (!job?.id || !user) return;
+    if (reviewDraft.rating < 1) {
+      toast.error('Please choose a star rating.');
+      return;
+    }
+
+    setIsSubmittingReview(true);
+    try {
+      const { data, error } = await supabase
+        .from('job_reviews')
+        .insert({
+          job_id: job.id,
+          reviewer_id: user.id,
+          rating: reviewDraft.rating,
+          comment: reviewDraft.comment.trim() || null,
+          allow_public: reviewDraft.allowPublic,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setReview(data);
+      toast.success('Thank you for your feedback!');
+    } catch (error) {
+      console.error('Error submitting review:', error);
+      toast.error('Failed to submit review. Please try again.');
+    } finally {
+      setIsSubmittingReview(false);
+    }
   };
 
   const handleDownloadReport = (rug: RugData) => {
@@ -577,36 +872,11 @@ const ClientPortal = () => {
     window.URL.revokeObjectURL(url);
   };
 
-  const timelineSteps = [
-    {
-      label: 'Job created',
-      date: job?.created_at,
-      done: !!job?.created_at,
-    },
-    {
-      label: 'Estimate approved',
-      date: job?.client_approved_at || null,
-      done: !!job?.client_approved_at,
-    },
-    {
-      label: 'Payment received',
-      date: payments.find((payment) => payment.status === 'completed')?.paid_at || null,
-      done: payments.some((payment) => payment.status === 'completed'),
-    },
-    {
-      label: 'Cleaning completed',
-      date: job?.status === 'completed' ? new Date().toISOString() : null,
-      done: job?.status === 'completed',
-    },
-  ];
-
-  const beforeAfterPairs = rugs
-    .filter((rug) => (rug.photo_urls || []).length >= 2)
-    .map((rug) => ({
-      rugNumber: rug.rug_number,
-      before: rug.photo_urls?.[0] || '',
-      after: rug.photo_urls?.[rug.photo_urls.length - 1] || '',
-    }));
+  const timelineSteps = job ? buildClientTimeline(statusPipeline, statusHistory, job.status) : [];
+
+  const beforeAfterRugs = rugs
+    .map((rug) => ({ rugNumber: rug.rug_number, pairs: beforeAfterPairs(rug.photos) }))
+    .filter((rug) => rug.pairs.length > 0);
 
   const handleSignOut = async () => {
     await signOut();
@@ -724,9 +994,17 @@ const ClientPortal = () => {
     );
   }
 
-  const totalSelected = calculateSelectedTotal();
+  const subtotalSelected = calculateSelectedTotal();
+  const selectedDiscounts = calculateSelectedDiscounts();
+  const selectedTax = computeTax(selectedDiscounts.netLines, taxSettings);
+  const totalSelected = subtotalSelected - selectedDiscounts.total + selectedTax.total;
   const selectedCount = getSelectedServicesCount();
   const totalServices = rugs.reduce((sum, r) => sum + r.services.length, 0);
+  // Once a deposit or full payment has gone through, the services are settled and
+  // anything left is billed on a balance invoice
+  const servicesPaid = invoices.some(i => i.kind !== 'balance' && Number(i.amount_paid) > 0);
+  const balanceInvoice = invoices.find(i => i.kind === 'balance' && i.status === 'sent');
+  const balanceDue = balanceInvoice ? invoiceBalance(balanceInvoice) : 0;
 
   return (
     <div className="min-h-screen bg-background">
@@ -755,6 +1033,7 @@ const ClientPortal = () => {
             <span className="text-sm text-muted-foreground hidden sm:block">
               {user?.email}
             </span>
+            <NotificationBell />
             <Button variant="ghost" size="sm" onClick={handleSignOut}>
               <LogOut className="h-4 w-4" />
             </Button>
@@ -793,12 +1072,16 @@ const ClientPortal = () => {
             </CardHeader>
             <CardContent className="space-y-3">
               {timelineSteps.map((step) => (
-                <div key={step.label} className="flex items-start gap-3">
-                  <div className={`mt-1 h-2.5 w-2.5 rounded-full ${step.done ? 'bg-primary' : 'bg-muted'}`} />
+                <div key={step.key} className="flex items-start gap-3">
+                  <div
+                    className={`mt-1 h-2.5 w-2.5 rounded-full ${step.done ? 'bg-primary' : 'bg-muted'} ${
+                      step.current ? 'ring-2 ring-primary/30' : ''
+                    }`}
+                  />
                   <div>
-                    <p className="text-sm font-medium">{step.label}</p>
+                    <p className={`text-sm ${step.current ? 'font-semibold' : 'font-medium'}`}>{step.label}</p>
                     <p className="text-xs text-muted-foreground">
-                      {step.date ? new Date(step.date).toLocaleString() : 'Pending'}
+                      {step.date ? new Date(step.date).toLocaleString() : step.done ? 'Done' : 'Pending'}
                     </p>
                   </div>
                 </div>
@@ -837,8 +1120,53 @@ const ClientPortal = () => {
             </CardTitle>
             <CardDescription>Request a time window that works for you.</CardDescription>
           </CardHeader>
-          <CardContent>
-            <form className="grid gap-3 md:grid-cols-3" onSubmit={handleScheduleSubmit}>
+          <CardContent className="space-y-4">
+            {scheduleRequests.length > 0 && (
+              <div className="space-y-2">
+                {scheduleRequests.map((request) => {
+                  const statusConfig = SCHEDULE_STATUS_CONFIG[request.status];
+                  const slot = getEffectiveSlot(request);
+                  return (
+                    <div
+                      key={request.id}
+                      className="flex items-start justify-between gap-4 rounded-lg border border-border p-3"
+                    >
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium">
+                          {SCHEDULE_REQUEST_TYPE_LABELS[request.request_type]}
+                          {request.status !== 'declined' && ` · ${formatScheduleSlot(slot.date, slot.time)}`}
+                        </p>
+                        {request.status === 'rescheduled' && (
+                          <p className="text-xs text-muted-foreground">
+                            You asked for {formatScheduleSlot(request.requested_date, request.requested_time)}
+                          </p>
+                        )}
+                        {request.staff_notes && (
+                          <p className="text-xs text-muted-foreground">{request.staff_notes}</p>
+                        )}
+                      </div>
+                      <Badge variant="outline" className={statusConfig.className}>
+                        {statusConfig.label}
+                      </Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <form className="grid gap-3 md:grid-cols-4" onSubmit={handleScheduleSubmit}>
+              <Select
+                value={scheduleRequest.type}
+                onValueChange={(value) => setScheduleRequest((prev) => ({ ...prev, type: value as ScheduleRequestType }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SCHEDULE_REQUEST_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Input
                 type="date"
                 value={scheduleRequest.date}
@@ -849,11 +1177,12 @@ const ClientPortal = () => {
                 value={scheduleRequest.time}
                 onChange={(event) => setScheduleRequest((prev) => ({ ...prev, time: event.target.value }))}
               />
-              <Button type="submit" className="w-full">
+              <Button type="submit" className="w-full" disabled={isSubmittingSchedule || !scheduleRequest.date}>
+                {isSubmittingSchedule && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                 Submit request
               </Button>
               <Textarea
-                className="md:col-span-3"
+                className="md:col-span-4"
                 placeholder="Add any pickup or delivery notes..."
                 value={scheduleRequest.notes}
                 onChange={(event) => setScheduleRequest((prev) => ({ ...prev, notes: event.target.value }))}
@@ -869,7 +1198,7 @@ const ClientPortal = () => {
             {rugs.map((rug) => {
               const rugSelectedServices = selectedServices.get(rug.id) || new Set();
               const allSelected = rugSelectedServices.size === rug.services.length;
-              const mandatoryServiceIds = rug.services.filter(s => isCleaningService(s.name)).map(s => s.id);
+              const mandatoryServiceIds = rug.services.filter(isMandatoryService).map(s => s.id);
               const onlyMandatorySelected = rugSelectedServices.size === mandatoryServiceIds.length && 
                 mandatoryServiceIds.every(id => rugSelectedServices.has(id));
               const isExpanded = expandedRugs.has(rug.id);
@@ -968,7 +1297,7 @@ const ClientPortal = () => {
                             {rug.services.map((service) => {
                               const isSelected = rugSelectedServices.has(service.id);
                               const serviceTotal = service.quantity * service.unitPrice;
-                              const isMandatory = isCleaningService(service.name);
+                              const isMandatory = isMandatoryService(service);
 
                               return (
                                 <div
@@ -1034,6 +1363,7 @@ const ClientPortal = () => {
                                     alt={`${rug.rug_number} photo ${idx + 1}`}
                                     className="w-full h-32 object-cover rounded-lg border"
                                     loadingClassName="w-full h-32"
+                                    thumbnail
                                   />
                                 ))}
                               </div>
@@ -1117,41 +1447,134 @@ const ClientPortal = () => {
 
                 <Separator />
 
+                {!servicesPaid && (
+                  <div className="space-y-2">
+                    {appliedCoupon ? (
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="flex items-center gap-2">
+                          <Tag className="h-4 w-4 text-primary" />
+                          Coupon {appliedCoupon} applied
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleApplyCoupon(null)}
+                          disabled={isApplyingCoupon}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Input
+                          value={couponInput}
+                          onChange={(e) => {
+                            setCouponInput(e.target.value);
+                            setCouponError(null);
+                          }}
+                          placeholder="Coupon code"
+                          className="uppercase"
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={() => handleApplyCoupon(couponInput.trim())}
+                          disabled={isApplyingCoupon || !couponInput.trim()}
+                        >
+                          {isApplyingCoupon ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply'}
+                        </Button>
+                      </div>
+                    )}
+                    {couponError && <p className="text-xs text-destructive">{couponError}</p>}
+                  </div>
+                )}
+
+                {(selectedTax.lines.length > 0 || selectedDiscounts.discounts.length > 0) && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Subtotal</span>
+                      <span>${subtotalSelected.toFixed(2)}</span>
+                    </div>
+                    {selectedDiscounts.discounts.map(discount => (
+                      <div key={`${discount.source}-${discount.rugNumber || 'job'}`} className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          {discount.rugNumber ? `${discount.rugNumber}: ` : ''}{discount.description}
+                        </span>
+                        <span className="text-primary">-${discount.amount.toFixed(2)}</span>
+                      </div>
+                    ))}
+                    {selectedTax.lines.map(line => (
+                      <div key={line.name} className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">{formatTaxLabel(line)}</span>
+                        <span>${line.amount.toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <div className="flex justify-between text-lg font-bold">
                   <span>Total</span>
                   <span className="text-primary">${totalSelected.toFixed(2)}</span>
                 </div>
 
-                <div className="space-y-2">
-                  <Button
-                    className="w-full gap-2"
-                    size="lg"
-                    onClick={() => handleProceedToPayment({ label: 'Full payment', multiplier: 1 })}
-                    disabled={isProcessingPayment || selectedCount === 0}
-                  >
-                    {isProcessingPayment ? (
-                      <>
-                        <Loader2 className="h-4 w-4 animate-spin" />
-                        Processing...
-                      </>
+                {servicesPaid ? (
+                  <div className="space-y-2">
+                    {balanceInvoice ? (
+                      <Button
+                        className="w-full gap-2"
+                        size="lg"
+                        onClick={() => handleProceedToPayment('balance')}
+                        disabled={isProcessingPayment}
+                      >
+                        {isProcessingPayment ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <CreditCard className="h-4 w-4" />
+                        )}
+                        Pay balance ${balanceDue.toFixed(2)}
+                      </Button>
                     ) : (
-                      <>
+                      <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                        <CheckCircle className="h-4 w-4 text-primary" />
+                        {invoices.some(i => i.kind === 'deposit')
+                          ? 'Deposit received. The balance is billed when your rugs are ready.'
+                          : 'Paid in full. Thank you!'}
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Button
+                      className="w-full gap-2"
+                      size="lg"
+                      onClick={() => handleProceedToPayment('full')}
+                      disabled={isProcessingPayment || selectedCount === 0}
+                    >
+                      {isProcessingPayment ? (
+                        <>
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Processing...
+                        </>
+                      ) : (
+                        <>
+                          <CreditCard className="h-4 w-4" />
+                          Pay in full
+                        </>
+                      )}
+                    </Button>
+                    {depositPercentage > 0 && depositPercentage < 100 && (
+                      <Button
+                        className="w-full gap-2"
+                        size="lg"
+                        variant="outline"
+                        onClick={() => handleProceedToPayment('deposit')}
+                        disabled={isProcessingPayment || selectedCount === 0}
+                      >
                         <CreditCard className="h-4 w-4" />
-                        Pay in full
-                      </>
+                        Pay {depositPercentage}% deposit (${(totalSelected * depositPercentage / 100).toFixed(2)})
+                      </Button>
                     )}
-                  </Button>
-                  <Button
-                    className="w-full gap-2"
-                    size="lg"
-                    variant="outline"
-                    onClick={() => handleProceedToPayment({ label: 'Deposit', multiplier: 0.5 })}
-                    disabled={isProcessingPayment || selectedCount === 0}
-                  >
-                    <CreditCard className="h-4 w-4" />
-                    Pay 50% deposit
-                  </Button>
-                </div>
+                  </div>
+                )}
 
                 <p className="text-xs text-center text-muted-foreground">
                   Secure payment powered by Stripe
@@ -1159,33 +1582,20 @@ const ClientPortal = () => {
               </CardContent>
             </Card>
 
-            {beforeAfterPairs.length > 0 && (
+            {beforeAfterRugs.length > 0 && (
               <Card className="mt-4">
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Image className="h-5 w-5 text-primary" />
                     Before & after
                   </CardTitle>
-                  <CardDescription>See the transformation for your rug.</CardDescription>
+                  <CardDescription>Drag across each photo to see the transformation.</CardDescription>
                 </CardHeader>
-                <CardContent className="space-y-3">
-                  {beforeAfterPairs.slice(0, 1).map((pair) => (
-                    <div key={pair.rugNumber} className="space-y-2">
-                      <p className="text-sm font-medium">{pair.rugNumber}</p>
-                      <div className="grid grid-cols-2 gap-2">
-                        <RugPhoto
-                          filePath={pair.before}
-                          alt={`${pair.rugNumber} before`}
-                          className="w-full h-28 object-cover rounded-lg border"
-                          loadingClassName="w-full h-28"
-                        />
-                        <RugPhoto
-                          filePath={pair.after}
-                          alt={`${pair.rugNumber} after`}
-                          className="w-full h-28 object-cover rounded-lg border"
-                          loadingClassName="w-full h-28"
-                        />
-                      </div>
+                <CardContent className="space-y-4">
+                  {beforeAfterRugs.map((rug) => (
+                    <div key={rug.rugNumber} className="space-y-2">
+                      <p className="text-sm font-medium">{rug.rugNumber}</p>
+                      <BeforeAfterSlider pairs={rug.pairs} />
                     </div>
                   ))}
                 </CardContent>
@@ -1201,6 +1611,32 @@ const ClientPortal = () => {
                 <CardDescription>Access payment records for your job.</CardDescription>
               </CardHeader>
               <CardContent className="space-y-2 text-sm">
+                {invoices.map((invoice) => (
+                  <div key={invoice.id} className="flex items-center justify-between rounded-md bg-muted/50 px-3 py-2">
+                    <div>
+                      <p className="font-medium">
+                        {INVOICE_KIND_LABELS[invoice.kind] || invoice.kind} • ${Number(invoice.amount_due).toFixed(2)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {invoice.invoice_number} · {isSettledInvoice(invoice)
+                          ? INVOICE_STATUS_LABELS[invoice.status]
+                          : `$${invoiceBalance(invoice).toFixed(2)} due${
+                              invoice.due_at && invoice.kind === 'balance'
+                                ? ` by ${new Date(invoice.due_at).toLocaleDateString()}`
+                                : ''
+                            }`}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => downloadInvoice.mutate(invoice.id)}
+                      disabled={downloadInvoice.isPending}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
                 {payments.length === 0 ? (
                   <p className="text-muted-foreground">No payments yet.</p>
                 ) : (
@@ -1223,25 +1659,13 @@ const ClientPortal = () => {
               </CardContent>
             </Card>
 
-            <Card className="mt-4">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <MessageSquare className="h-5 w-5 text-primary" />
-                  Ask a question
-                </CardTitle>
-                <CardDescription>Need help or changes? Send us a message.</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                <Textarea
-                  placeholder="Type your question here..."
-                  value={question}
-                  onChange={(event) => setQuestion(event.target.value)}
-                />
-                <Button onClick={handleQuestionSubmit} className="w-full">
-                  Send question
-                </Button>
-              </CardContent>
-            </Card>
+            <JobMessageThread
+              className="mt-4"
+              jobId={job.id}
+              viewerRole="client"
+              title="Ask a question"
+              description="Need help or changes? Send us a message."
+            />
 
             {job.status === 'completed' && (
               <Card className="mt-4">
@@ -1250,26 +1674,63 @@ const ClientPortal = () => {
                     <Star className="h-5 w-5 text-primary" />
                     Share your experience
                   </CardTitle>
-                  <CardDescription>Help others by leaving a review.</CardDescription>
+                  <CardDescription>
+                    {review ? 'Thanks for reviewing!' : 'How did we do? Your rug care is complete.'}
+                  </CardDescription>
                 </CardHeader>
-                <CardContent className="space-y-2">
-                  <p className="text-sm text-muted-foreground">
-                    Your feedback helps us improve and helps neighbors find trusted service.
-                  </p>
-                  <Button
-                    variant="outline"
-                    onClick={() => {
-                      handleReviewSubmit();
-                      window.open(
-                        `https://www.google.com/search?q=${encodeURIComponent(branding?.business_name || 'Rug cleaning')}+reviews`,
-                        '_blank'
-                      );
-                    }}
-                    className="w-full"
-                    disabled={reviewSubmitted}
-                  >
-                    {reviewSubmitted ? 'Thanks for reviewing!' : 'Leave a review'}
-                  </Button>
+                <CardContent className="space-y-3">
+                  {review ? (
+                    <>
+                      <StarRating value={review.rating} />
+                      {review.comment && (
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{review.comment}</p>
+                      )}
+                      {review.allow_public && (
+                        <Button
+                          variant="outline"
+                          onClick={() =>
+                            window.open(
+                              `https://www.google.com/search?q=${encodeURIComponent(branding?.business_name || 'Rug cleaning')}+reviews`,
+                              '_blank'
+                            )
+                          }
+                          className="w-full"
+                        >
+                          Also share on Google
+                        </Button>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      <StarRating
+                        size="lg"
+                        value={reviewDraft.rating}
+                        onChange={(rating) => setReviewDraft((prev) => ({ ...prev, rating }))}
+                      />
+                      <Textarea
+                        placeholder="Tell us about your experience (optional)"
+                        value={reviewDraft.comment}
+                        maxLength={2000}
+                        onChange={(event) => setReviewDraft((prev) => ({ ...prev, comment: event.target.value }))}
+                      />
+                      <label className="flex items-start gap-2 text-sm text-muted-foreground cursor-pointer">
+                        <Checkbox
+                          checked={reviewDraft.allowPublic}
+                          onCheckedChange={(checked) => setReviewDraft((prev) => ({ ...prev, allowPublic: checked === true }))}
+                          className="mt-0.5"
+                        />
+                        {branding?.business_name || 'The business'} may share my review publicly
+                      </label>
+                      <Button
+                        onClick={handleReviewSubmit}
+                        className="w-full"
+                        disabled={isSubmittingReview || reviewDraft.rating < 1}
+                      >
+                        {isSubmittingReview && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Submit review
+                      </Button>
+                    </>
+                  )}
                 </CardContent>
               </Card>
             )}
@@ -1,6 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Search, Calendar, Briefcase, Eye, Plus, LogOut, ChevronRight, PlayCircle, Clock, CheckCircle, Settings, History, BarChart3, DollarSign, Shield } from 'lucide-react';
+import { Search, Calendar, Briefcase, Eye, Plus, LogOut, ChevronRight, Settings, History, BarChart3, DollarSign, Shield, Star, UserCheck, ListChecks } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -10,40 +10,38 @@ import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/hooks/useAuth';
 import { useAdminAuth } from '@/hooks/useAdminAuth';
 import { useJobs, Job } from '@/hooks/useJobs';
-import { format } from 'date-fns';
+import { useRealtimeNotifications } from '@/hooks/useRealtimeNotifications';
+import { useJobStatuses } from '@/hooks/useJobStatuses';
+import { format, formatDistanceToNowStrict } from 'date-fns';
+import { isStuck } from '@/lib/checklist';
 import rugboostLogo from '@/assets/rugboost-logo.svg';
 import NotificationBell from '@/components/NotificationBell';
+import JobStatusBadge from '@/components/JobStatusBadge';
 import { DashboardSkeleton, DashboardJobTableSkeleton } from '@/components/skeletons/DashboardSkeleton';
 import MobileNav from '@/components/MobileNav';
-
-const getStatusBadge = (status: string) => {
-  switch (status) {
-    case 'completed':
-      return <Badge variant="outline" className="gap-1 border-green-500 text-green-600">
-          <CheckCircle className="h-3 w-3" />
-          Completed
-        </Badge>;
-    case 'in-progress':
-      return <Badge variant="outline" className="gap-1 border-yellow-500 text-yellow-600">
-          <Clock className="h-3 w-3" />
-          In Progress
-        </Badge>;
-    default:
-      return <Badge variant="outline" className="gap-1 border-blue-500 text-blue-600">
-          <PlayCircle className="h-3 w-3" />
-          Active
-        </Badge>;
-  }
-};
+import FollowUpsDueCard from '@/components/FollowUpsDueCard';
 
 const Dashboard = () => {
   const navigate = useNavigate();
   const { user, loading: authLoading, signOut } = useAuth();
   const { isAdmin } = useAdminAuth();
   const { data: jobs = [], isLoading, isError } = useJobs();
+  const { data: statusPipeline = [] } = useJobStatuses();
+  useRealtimeNotifications();
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [dateFilter, setDateFilter] = useState('all');
+  const [assigneeFilter, setAssigneeFilter] = useState('all');
+  // 'all', 'stuck' (any step), or a step label the job is stuck on
+  const [stuckFilter, setStuckFilter] = useState('all');
+
+  const stuckSteps = useMemo(
+    () =>
+      Array.from(
+        new Set(jobs.filter(job => isStuck(job.checklist)).map(job => job.checklist.currentStep as string))
+      ).sort(),
+    [jobs]
+  );
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -78,7 +76,19 @@ const Dashboard = () => {
         matchesDate = jobDate >= monthAgo;
       }
     }
-    return matchesSearch && matchesStatus && matchesDate;
+
+    // Assignee filter
+    const matchesAssignee =
+      assigneeFilter === 'all' ||
+      (assigneeFilter === 'me' && !!user && job.assigned_to === user.id) ||
+      (assigneeFilter === 'unassigned' && !job.assigned_to_name);
+
+    // Checklist filter
+    const matchesStuck =
+      stuckFilter === 'all' ||
+      (isStuck(job.checklist) && (stuckFilter === 'stuck' || job.checklist.currentStep === stuckFilter));
+
+    return matchesSearch && matchesStatus && matchesDate && matchesAssignee && matchesStuck;
   });
 
   if (authLoading) {
@@ -114,6 +124,10 @@ const Dashboard = () => {
               <DollarSign className="h-4 w-4" />
               A/R
             </Button>
+            <Button onClick={() => navigate('/reviews')} variant="outline" size="sm" className="gap-2 hidden sm:flex">
+              <Star className="h-4 w-4" />
+              Reviews
+            </Button>
             {isAdmin && (
               <Button onClick={() => navigate('/admin')} variant="outline" size="sm" className="gap-2 hidden sm:flex">
                 <Shield className="h-4 w-4" />
@@ -136,6 +150,8 @@ const Dashboard = () => {
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
         <div className="space-y-6">
+          {!isLoading && <FollowUpsDueCard jobs={jobs} />}
+
           {/* Filters */}
           <Card className="shadow-card">
             <CardHeader className="pb-4">
@@ -145,7 +161,7 @@ const Dashboard = () => {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-5 gap-4">
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                   <Input placeholder="Search by client or job number..." value={searchQuery} onChange={e => setSearchQuery(e.target.value)} className="pl-10" />
@@ -156,9 +172,11 @@ const Dashboard = () => {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Status</SelectItem>
-                    <SelectItem value="active">Active</SelectItem>
-                    <SelectItem value="in-progress">In Progress</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
+                    {statusPipeline.map(status => (
+                      <SelectItem key={status.key} value={status.key}>
+                        {status.label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <Select value={dateFilter} onValueChange={setDateFilter}>
@@ -173,6 +191,30 @@ const Dashboard = () => {
                     <SelectItem value="month">This Month</SelectItem>
                   </SelectContent>
                 </Select>
+                <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+                  <SelectTrigger>
+                    <UserCheck className="mr-2 h-4 w-4" />
+                    <SelectValue placeholder="Assignee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Anyone</SelectItem>
+                    <SelectItem value="me">Assigned to me</SelectItem>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={stuckFilter} onValueChange={setStuckFilter}>
+                  <SelectTrigger>
+                    <ListChecks className="mr-2 h-4 w-4" />
+                    <SelectValue placeholder="Checklist" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any progress</SelectItem>
+                    <SelectItem value="stuck">Stuck on any step</SelectItem>
+                    {stuckSteps.map(step => (
+                      <SelectItem key={step} value={step}>Stuck on: {step}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
             </CardContent>
           </Card>
@@ -229,6 +271,7 @@ const Dashboard = () => {
                           <TableHead>Client</TableHead>
                           <TableHead>Rugs</TableHead>
                           <TableHead>Status</TableHead>
+                          <TableHead>Next step</TableHead>
                           <TableHead className="text-right">Actions</TableHead>
                         </TableRow>
                       </TableHeader>
@@ -239,12 +282,33 @@ const Dashboard = () => {
                               {format(new Date(job.created_at), 'MMM d, yyyy')}
                             </TableCell>
                             <TableCell className="font-mono">{job.job_number}</TableCell>
-                            <TableCell>{job.client_name}</TableCell>
+                            <TableCell>
+                              {job.client_name}
+                              {job.assigned_to_name && (
+                                <p className="text-xs text-muted-foreground">{job.assigned_to_name}</p>
+                              )}
+                            </TableCell>
                             <TableCell>
                               <Badge variant="secondary">{job.rug_count} rugs</Badge>
                             </TableCell>
                             <TableCell>
-                              {getStatusBadge(job.status)}
+                              <JobStatusBadge status={job.status} pipeline={statusPipeline} />
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {job.checklist.total === 0 ? (
+                                <span className="text-muted-foreground">—</span>
+                              ) : job.checklist.currentStep ? (
+                                <div className="flex flex-wrap items-center gap-2">
+                                  <span>{job.checklist.currentStep}</span>
+                                  {isStuck(job.checklist) && (
+                                    <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
+                                      {formatDistanceToNowStrict(new Date(job.checklist.currentStepSince as string))}
+                                    </Badge>
+                                  )}
+                                </div>
+                              ) : (
+                                <span className="text-muted-foreground">All done</span>
+                              )}
                             </TableCell>
                             <TableCell className="text-right">
                               <Button variant="ghost" size="sm" className="gap-1">
@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { 
   ArrowLeft, Plus, Loader2, Eye, Download, Trash2, 
-  Edit2, FileText, CheckCircle, Clock, PlayCircle, Sparkles, FolderOpen, Mail, FlaskConical,
+  Edit2, FileText, CheckCircle, Clock, Sparkles, FolderOpen, Mail, FlaskConical,
   Link, Copy, ExternalLink
 } from 'lucide-react';
 import rugboostLogo from '@/assets/rugboost-logo.svg';
@@ -10,14 +11,15 @@ import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useJobDetail, useInvalidateJobDetail } from '@/hooks/useJobDetail';
-import { usePhotoUpload } from '@/hooks/usePhotoUpload';
+import { useOrganization } from '@/hooks/useOrganization';
+import { useJobStatuses } from '@/hooks/useJobStatuses';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
 import { useUpdateJobStatus } from '@/hooks/useJobs';
+import { useRealtimeNotifications } from '@/hooks/useRealtimeNotifications';
 import type { Json } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Checkbox } from '@/components/ui/checkbox';
-import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -34,8 +36,19 @@ import { ModelComparisonDialog } from '@/components/ModelComparisonDialog';
 import ClientPortalStatus from '@/components/ClientPortalStatus';
 import ServiceCompletionCard from '@/components/ServiceCompletionCard';
 import PaymentTracking from '@/components/PaymentTracking';
+import ScheduleRequestsCard from '@/components/ScheduleRequestsCard';
+import JobMessageThread from '@/components/JobMessageThread';
+import JobOperationsCard from '@/components/JobOperationsCard';
+import JobDiscountCard from '@/components/JobDiscountCard';
+import JobStatusBadge from '@/components/JobStatusBadge';
+import JobStatusHistory from '@/components/JobStatusHistory';
+import EmailHistoryCard from '@/components/EmailHistoryCard';
 import PhotoUploadProgress from '@/components/PhotoUploadProgress';
 import { JobDetailSkeleton } from '@/components/skeletons/JobDetailSkeleton';
+import { getNextStatuses, getStatusColor, getStatusDefinition } from '@/lib/jobStatus';
+import { queryKeys } from '@/lib/queryKeys';
+import { analysisPhotos, rugPhotoList, type CapturedPhotoMeta, type RugPhotoRow } from '@/lib/rugPhotos';
+import { discardEntry, pendingJobInsert, queueRugInsert, queueUpdate, retryEntry, syncOutbox } from '@/lib/offlineSync';
 
 interface ClientPortalStatusData {
   accessToken: string;
@@ -69,7 +82,9 @@ interface Rug {
   width: number | null;
   notes: string | null;
   photo_urls: string[] | null;
+  rug_photos?: RugPhotoRow[];
   analysis_report: string | null;
+  structured_report?: unknown;
   image_annotations: unknown;
   created_at: string;
   estimate_approved?: boolean;
@@ -94,21 +109,21 @@ interface Payment {
   metadata: any;
 }
 
-const STATUS_OPTIONS = [
-  { value: 'active', label: 'Active', icon: PlayCircle, color: 'bg-blue-500' },
-  { value: 'in-progress', label: 'In Progress', icon: Clock, color: 'bg-yellow-500' },
-  { value: 'completed', label: 'Completed', icon: CheckCircle, color: 'bg-green-500' },
-];
-
 const JobDetail = () => {
   const { jobId } = useParams<{ jobId: string }>();
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
+  const { businessUserId, permissions } = useOrganization();
+  const { data: statusPipeline = [] } = useJobStatuses();
   const invalidateJobDetail = useInvalidateJobDetail();
   const updateJobStatus = useUpdateJobStatus();
+  const queryClient = useQueryClient();
+  const offlineEntries = useOfflineQueue(jobId);
+  useRealtimeNotifications();
   
-  // Use React Query for all data fetching (parallel fetches)
-  const { data: jobData, isLoading: loading, refetch } = useJobDetail(jobId, user?.id);
+  // Use React Query for all data fetching (parallel fetches). Branding and prices
+  // belong to the business account, which may not be the signed-in teammate.
+  const { data: jobData, isLoading: loading, refetch } = useJobDetail(jobId, businessUserId ?? undefined);
 
   // Local state for UI interactions
   const [isAddingRug, setIsAddingRug] = useState(false);
@@ -134,15 +149,6 @@ const JobDetail = () => {
   const [showCompareDialog, setShowCompareDialog] = useState(false);
   const [generatingPortalLink, setGeneratingPortalLink] = useState(false);
   const [resendingInvite, setResendingInvite] = useState(false);
-  const [assignedTo, setAssignedTo] = useState('');
-  const [checklist, setChecklist] = useState<Record<string, boolean>>({
-    'Photos captured': false,
-    'Estimate sent': false,
-    'Client approved': false,
-    'Cleaning started': false,
-    'Cleaning completed': false,
-    'Delivery scheduled': false,
-  });
   
   // Mutable state derived from query data
   const [localApprovedEstimates, setLocalApprovedEstimates] = useState<ApprovedEstimate[]>([]);
@@ -156,27 +162,6 @@ const JobDetail = () => {
     }
   }, [jobData]);
 
-  useEffect(() => {
-    if (!jobId) return;
-    const storageKey = `job-${jobId}-ops`;
-    const stored = window.localStorage.getItem(storageKey);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored) as { assignedTo?: string; checklist?: Record<string, boolean> };
-        if (parsed.assignedTo) setAssignedTo(parsed.assignedTo);
-        if (parsed.checklist) setChecklist(parsed.checklist);
-      } catch {
-        // ignore invalid storage
-      }
-    }
-  }, [jobId]);
-
-  useEffect(() => {
-    if (!jobId) return;
-    const storageKey = `job-${jobId}-ops`;
-    window.localStorage.setItem(storageKey, JSON.stringify({ assignedTo, checklist }));
-  }, [assignedTo, checklist, jobId]);
-
   // Derived data from React Query (with fallbacks for local state)
   const job = jobData?.job || null;
   const rugs = localRugs.length > 0 ? localRugs : (jobData?.rugs || []);
@@ -211,10 +196,6 @@ const JobDetail = () => {
     fetchJobDetails();
   }, [fetchJobDetails]);
 
-  const toggleChecklistItem = (label: string) => {
-    setChecklist((prev) => ({ ...prev, [label]: !prev[label] }));
-  };
-
   // All data fetching is now handled by useJobDetail hook with parallel fetches
   // Old manual fetch functions have been removed
 
@@ -353,13 +334,9 @@ const JobDetail = () => {
     }
   };
 
-  // Parallel photo upload hook with progress tracking
-  const { 
-    uploadPhotos, 
-    progress: uploadProgress, 
-    isUploading: isUploadingPhotos,
-    reset: resetUploadProgress 
-  } = usePhotoUpload({ batchSize: 4 });
+  // Edits made without a connection, or to a job that hasn't reached the server
+  // yet, go through the offline outbox instead
+  const shouldQueue = () => !navigator.onLine || (!!job && !!pendingJobInsert(job.id));
 
   const handleStatusChange = (newStatus: string) => {
     if (!job) return;
@@ -377,17 +354,35 @@ const JobDetail = () => {
   }) => {
     if (!job) return;
 
+    const changes = {
+      job_number: formData.jobNumber,
+      client_name: formData.clientName,
+      client_email: formData.clientEmail || null,
+      client_phone: formData.clientPhone || null,
+      notes: formData.notes || null,
+    };
+
     setSavingJob(true);
     try {
+      if (shouldQueue()) {
+        await queueUpdate('jobs', job.id, job.id, `Job ${changes.job_number}`, changes, {
+          job_number: job.job_number,
+          client_name: job.client_name,
+          client_email: job.client_email,
+          client_phone: job.client_phone,
+          notes: job.notes,
+        });
+        queryClient.setQueryData<typeof jobData>(queryKeys.jobs.detail(job.id), old =>
+          old && { ...old, job: { ...old.job, ...changes } }
+        );
+        toast.success('Job saved on this device. It will sync when you\'re back online.');
+        setIsEditingJob(false);
+        return;
+      }
+
       const { error } = await supabase
         .from('jobs')
-        .update({
-          job_number: formData.jobNumber,
-          client_name: formData.clientName,
-          client_email: formData.clientEmail || null,
-          client_phone: formData.clientPhone || null,
-          notes: formData.notes || null,
-        })
+        .update(changes)
         .eq('id', job.id);
 
       if (error) throw error;
@@ -407,17 +402,34 @@ const JobDetail = () => {
     rugId: string,
     formData: { rugNumber: string; rugType: string; length: string; width: string; notes: string }
   ) => {
+    const changes = {
+      rug_number: formData.rugNumber,
+      rug_type: formData.rugType,
+      length: formData.length ? parseFloat(formData.length) : null,
+      width: formData.width ? parseFloat(formData.width) : null,
+      notes: formData.notes || null,
+    };
+
     setSavingRug(true);
     try {
+      const rug = rugs.find(r => r.id === rugId);
+      if (job && rug && !navigator.onLine) {
+        await queueUpdate('inspections', rugId, job.id, `Rug ${changes.rug_number}`, changes, {
+          rug_number: rug.rug_number,
+          rug_type: rug.rug_type,
+          length: rug.length,
+          width: rug.width,
+          notes: rug.notes,
+        });
+        setLocalRugs(rugs.map(r => (r.id === rugId ? { ...r, ...changes } : r)));
+        toast.success('Rug saved on this device. It will sync when you\'re back online.');
+        setEditingRug(null);
+        return;
+      }
+
       const { error } = await supabase
         .from('inspections')
-        .update({
-          rug_number: formData.rugNumber,
-          rug_type: formData.rugType,
-          length: formData.length ? parseFloat(formData.length) : null,
-          width: formData.width ? parseFloat(formData.width) : null,
-          notes: formData.notes || null,
-        })
+        .update(changes)
         .eq('id', rugId);
 
       if (error) throw error;
@@ -435,18 +447,17 @@ const JobDetail = () => {
 
   const handleAddRug = async (
     formData: { rugNumber: string; length: string; width: string; rugType: string; notes: string },
-    photos: File[]
+    photos: File[],
+    photoMeta: CapturedPhotoMeta[]
   ) => {
     if (!user || !job) return;
 
     setAddingRug(true);
-    resetUploadProgress();
     
     try {
-      const photoUrls = await uploadPhotos(photos, user.id);
-
-      // Just save the rug without AI analysis
-      const { error: insertError } = await supabase.from('inspections').insert({
+      // Saved on the device first; the outbox uploads the photos and inserts the
+      // rug, now or whenever the connection comes back
+      await queueRugInsert(job.id, `Rug ${formData.rugNumber}`, {
         user_id: user.id,
         job_id: job.id,
         client_name: job.client_name,
@@ -455,21 +466,17 @@ const JobDetail = () => {
         length: formData.length ? parseFloat(formData.length) : null,
         width: formData.width ? parseFloat(formData.width) : null,
         notes: formData.notes || null,
-        photo_urls: photoUrls,
         analysis_report: null // No analysis yet
-      });
-
-      if (insertError) throw insertError;
+      }, photos, photoMeta);
 
-      toast.success('Rug added to job!');
+      toast.success(navigator.onLine ? 'Rug added to job!' : 'Rug saved on this device. It will upload when you\'re back online.');
       setIsAddingRug(false);
-      fetchJobDetails();
+      syncOutbox();
     } catch (error) {
       console.error('Add rug failed:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to add rug');
     } finally {
       setAddingRug(false);
-      resetUploadProgress();
     }
   };
 
@@ -487,7 +494,7 @@ const JobDetail = () => {
       
       const { data, error } = await supabase.functions.invoke('analyze-rug', {
         body: {
-          photos: rug.photo_urls || [],
+          photos: analysisPhotos(rug),
           rugInfo: {
             clientName: job.client_name,
             rugNumber: rug.rug_number,
@@ -515,6 +522,7 @@ const JobDetail = () => {
         .from('inspections')
         .update({ 
           analysis_report: data.report,
+          structured_report: data.structuredReport ?? null,
           image_annotations: annotations
         })
         .eq('id', rug.id);
@@ -547,14 +555,14 @@ const JobDetail = () => {
       // Clear existing analysis first
       await supabase
         .from('inspections')
-        .update({ analysis_report: null })
+        .update({ analysis_report: null, structured_report: null })
         .eq('id', rug.id);
 
       setAnalysisStage('analyzing');
 
       const { data, error } = await supabase.functions.invoke('analyze-rug', {
         body: {
-          photos: rug.photo_urls || [],
+          photos: analysisPhotos(rug),
           rugInfo: {
             clientName: job.client_name,
             rugNumber: rug.rug_number,
@@ -581,6 +589,7 @@ const JobDetail = () => {
         .from('inspections')
         .update({ 
           analysis_report: data.report,
+          structured_report: data.structuredReport ?? null,
           image_annotations: annotations
         })
         .eq('id', rug.id);
@@ -591,6 +600,7 @@ const JobDetail = () => {
       setSelectedRug(prev => prev ? { 
         ...prev, 
         analysis_report: data.report,
+        structured_report: data.structuredReport ?? null,
         image_annotations: annotations
       } : null);
 
@@ -634,7 +644,7 @@ const JobDetail = () => {
         
         const { data, error } = await supabase.functions.invoke('analyze-rug', {
           body: {
-            photos: rug.photo_urls || [],
+            photos: analysisPhotos(rug),
             rugInfo: {
               clientName: job.client_name,
               rugNumber: rug.rug_number,
@@ -654,7 +664,10 @@ const JobDetail = () => {
 
         await supabase
           .from('inspections')
-          .update({ analysis_report: data.report })
+          .update({
+            analysis_report: data.report,
+            structured_report: data.structuredReport ?? null,
+          })
           .eq('id', rug.id);
 
         successCount++;
@@ -774,6 +787,7 @@ const JobDetail = () => {
       const { data, error } = await supabase.functions.invoke('send-report-email', {
         body: {
           to: job.client_email,
+          jobId: job.id,
           clientName: job.client_name,
           jobNumber: job.job_number,
           rugDetails,
@@ -817,25 +831,6 @@ const JobDetail = () => {
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    const statusConfig = STATUS_OPTIONS.find(s => s.value === status) || STATUS_OPTIONS[0];
-    const Icon = statusConfig.icon;
-    
-    return (
-      <Badge 
-        variant="outline" 
-        className={`gap-1 ${
-          status === 'completed' ? 'border-green-500 text-green-600' :
-          status === 'in-progress' ? 'border-yellow-500 text-yellow-600' :
-          'border-blue-500 text-blue-600'
-        }`}
-      >
-        <Icon className="h-3 w-3" />
-        {statusConfig.label}
-      </Badge>
-    );
-  };
-
   if (authLoading || loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -875,11 +870,14 @@ const JobDetail = () => {
           <div className="mx-auto max-w-3xl">
             <EstimateReview
               report={selectedRug.analysis_report || ''}
+              structuredReport={selectedRug.structured_report}
               rugInfo={{
                 rugNumber: selectedRug.rug_number,
                 rugType: selectedRug.rug_type,
                 dimensions: `${selectedRug.length || '–'}' × ${selectedRug.width || '–'}'`,
                 squareFootage,
+                length: selectedRug.length,
+                width: selectedRug.width,
               }}
               inspectionId={selectedRug.id}
               jobId={jobId || ''}
@@ -890,14 +888,14 @@ const JobDetail = () => {
                 setShowEstimateReview(false);
                 setShowReport(true);
               }}
-              onApprove={(services, totalCost) => {
+              onApprove={(services, totalCost, discount) => {
                 // Update local state with new approved estimate
                 setLocalApprovedEstimates(prev => {
                   const existing = prev.find(ae => ae.inspection_id === selectedRug.id);
                   if (existing) {
                     return prev.map(ae => 
                       ae.inspection_id === selectedRug.id 
-                        ? { ...ae, services, total_amount: totalCost }
+                        ? { ...ae, services, total_amount: totalCost, discount }
                         : ae
                     );
                   } else {
@@ -905,7 +903,8 @@ const JobDetail = () => {
                       id: crypto.randomUUID(),
                       inspection_id: selectedRug.id,
                       services,
-                      total_amount: totalCost
+                      total_amount: totalCost,
+                      discount,
                     }];
                   }
                 });
@@ -945,13 +944,14 @@ const JobDetail = () => {
           <div className="mx-auto max-w-3xl">
             <AnalysisReport
               report={selectedRug.analysis_report || ''}
+              structuredReport={selectedRug.structured_report}
               rugInfo={{
                 clientName: job.client_name,
                 rugNumber: selectedRug.rug_number,
                 rugType: selectedRug.rug_type,
                 dimensions: `${selectedRug.length || '–'}' × ${selectedRug.width || '–'}'`,
               }}
-              photoUrls={selectedRug.photo_urls || []}
+              photos={rugPhotoList(selectedRug)}
               imageAnnotations={
                 imageAnnotations.length > 0 
                   ? imageAnnotations 
@@ -1028,18 +1028,19 @@ const JobDetail = () => {
                 <CardTitle className="font-display text-2xl">
                   Job {job.job_number}
                 </CardTitle>
-                {getStatusBadge(job.status)}
+                <JobStatusBadge status={job.status} pipeline={statusPipeline} />
               </div>
               <div className="flex items-center gap-2">
                 <Select value={job.status} onValueChange={handleStatusChange}>
-                  <SelectTrigger className="w-[160px]">
+                  <SelectTrigger className="w-[180px]">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {STATUS_OPTIONS.map((option) => (
-                      <SelectItem key={option.value} value={option.value}>
+                    {/* Only the moves the pipeline allows from here */}
+                    {[getStatusDefinition(statusPipeline, job.status), ...getNextStatuses(statusPipeline, job.status)].map((option) => (
+                      <SelectItem key={option.key} value={option.key}>
                         <div className="flex items-center gap-2">
-                          <option.icon className="h-4 w-4" />
+                          <span className={`h-2 w-2 rounded-full ${getStatusColor(option.color).dot}`} />
                           {option.label}
                         </div>
                       </SelectItem>
@@ -1102,34 +1103,9 @@ const JobDetail = () => {
           </CardContent>
         </Card>
 
-        <Card>
-          <CardHeader>
-            <CardTitle className="font-display text-xl">Operations checklist</CardTitle>
-          </CardHeader>
-          <CardContent className="grid gap-4 md:grid-cols-2">
-            <div className="space-y-3">
-              {Object.keys(checklist).map((item) => (
-                <label key={item} className="flex items-center gap-3 text-sm">
-                  <Checkbox checked={checklist[item]} onCheckedChange={() => toggleChecklistItem(item)} />
-                  <span className={checklist[item] ? 'text-foreground' : 'text-muted-foreground'}>
-                    {item}
-                  </span>
-                </label>
-              ))}
-            </div>
-            <div className="space-y-2">
-              <p className="text-sm font-medium text-muted-foreground">Assigned staff</p>
-              <Input
-                placeholder="Assign to team member"
-                value={assignedTo}
-                onChange={(event) => setAssignedTo(event.target.value)}
-              />
-              <p className="text-xs text-muted-foreground">
-                Use this field to coordinate ownership and accountability.
-              </p>
-            </div>
-          </CardContent>
-        </Card>
+        <JobOperationsCard job={job} />
+
+        <JobStatusHistory jobId={job.id} pipeline={statusPipeline} />
 
         {/* Client Portal Status Section */}
         {clientPortalLink && clientPortalStatus && (
@@ -1147,11 +1123,27 @@ const JobDetail = () => {
           />
         )}
 
+        <EmailHistoryCard jobId={job.id} />
+
+        {/* Pickup / delivery requests from the client portal */}
+        {jobId && <ScheduleRequestsCard jobId={jobId} />}
+
+        {/* Client conversation */}
+        {jobId && (
+          <JobMessageThread
+            jobId={jobId}
+            viewerRole="staff"
+            title="Client Messages"
+            description="Messages with the client through the portal"
+          />
+        )}
+
         {/* Work Order & Payment Tracking - Show when there are approved estimates */}
         {approvedEstimates.length > 0 && (
           <div className="grid lg:grid-cols-2 gap-6">
             {/* Service Completion Card */}
             <ServiceCompletionCard
+              jobId={job.id}
               rugs={approvedEstimates.map(ae => {
                 const rug = rugs.find(r => r.id === ae.inspection_id);
                 return {
@@ -1164,34 +1156,33 @@ const JobDetail = () => {
                   estimateId: ae.id,
                   services: ae.services,
                   total: ae.total_amount,
+                  photos: rug?.rug_photos,
                 };
               })}
               completions={serviceCompletions}
               clientApprovedAt={job.client_approved_at || null}
-              isPaid={payments.some(p => p.status === 'completed')}
+              isPaid={payments.some(p => p.status === 'completed' || p.status === 'partially_refunded')}
               onCompletionChange={fetchServiceCompletions}
             />
 
             {/* Payment Tracking */}
             <PaymentTracking
               payments={payments}
-              jobNumber={job.job_number}
-              clientName={job.client_name}
-              branding={branding}
-              rugs={approvedEstimates.map(ae => {
-                const rug = rugs.find(r => r.id === ae.inspection_id);
-                return {
-                  rugNumber: rug?.rug_number || 'Unknown',
-                  rugType: rug?.rug_type || 'Unknown',
-                  dimensions: rug?.length && rug?.width ? `${rug.length}' × ${rug.width}'` : 'N/A',
-                  services: ae.services,
-                  total: ae.total_amount,
-                };
-              })}
+              jobId={job.id}
+              canRefund={permissions.canRefundPayments}
+              canInvoice={permissions.canViewPayments}
             />
           </div>
         )}
 
+        {approvedEstimates.length > 0 && permissions.canViewPayments && (
+          <JobDiscountCard
+            jobId={job.id}
+            discount={job.discount ?? null}
+            locked={payments.some(p => p.status === 'completed' || p.status === 'partially_refunded')}
+          />
+        )}
+
         {/* Rugs Section */}
         <Card>
           <CardHeader>
@@ -1311,16 +1302,10 @@ const JobDetail = () => {
                     <DialogHeader>
                       <DialogTitle className="font-display text-xl">Add Rug to Job</DialogTitle>
                     </DialogHeader>
-                    {isUploadingPhotos && (
-                      <PhotoUploadProgress 
-                        progress={uploadProgress} 
-                        isUploading={isUploadingPhotos} 
-                      />
-                    )}
                     <RugForm
                       onSubmit={handleAddRug}
                       isLoading={addingRug}
-                      rugIndex={rugs.length}
+                      rugIndex={rugs.length + offlineEntries.filter(e => e.kind === 'insert' && e.table === 'inspections').length}
                     />
                   </DialogContent>
                 </Dialog>
@@ -1328,8 +1313,14 @@ const JobDetail = () => {
             </div>
           </CardHeader>
           <CardContent>
+            <PhotoUploadProgress
+              items={offlineEntries}
+              onRetry={retryEntry}
+              onDiscard={discardEntry}
+              className="mb-4"
+            />
             {rugs.length === 0 ? (
-              <div className="text-center py-12 text-muted-foreground">
+              offlineEntries.length === 0 && <div className="text-center py-12 text-muted-foreground">
                 <Sparkles className="h-12 w-12 mx-auto mb-4 opacity-50" />
                 <p>No rugs added yet</p>
                 <p className="text-sm mt-1">Click "Add Rug" to add rugs, then analyze them all at once</p>
@@ -1450,6 +1441,7 @@ const JobDetail = () => {
       {/* Edit Rug Dialog */}
       <EditRugDialog
         rug={editingRug}
+        jobId={job.id}
         open={!!editingRug}
         onOpenChange={(open) => !open && setEditingRug(null)}
         onSave={handleEditRug}
@@ -1471,6 +1463,8 @@ const JobDetail = () => {
             dimensions: rug.length && rug.width ? `${rug.length}' × ${rug.width}'` : '—',
           }))}
           businessName={branding?.business_name || undefined}
+          businessPhone={branding?.business_phone || undefined}
+          businessEmail={branding?.business_email || undefined}
           isSending={sendingEmail}
         />
       )}
@@ -1483,13 +1477,14 @@ const JobDetail = () => {
           rug={compareRug}
           clientName={job.client_name}
           userId={user?.id}
-          onSelectModel={async (model, report, annotations) => {
+          onSelectModel={async (model, report, annotations, structuredReport) => {
             try {
               // Save the selected analysis to the database
               const { error } = await supabase
                 .from('inspections')
                 .update({ 
                   analysis_report: report,
+                  structured_report: (structuredReport ?? null) as Json,
                   image_annotations: annotations
                 })
                 .eq('id', compareRug.id);
@@ -4,6 +4,7 @@ import { ArrowLeft, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { isNetworkError, queueJobInsert } from '@/lib/offlineSync';
 import { Button } from '@/components/ui/button';
 import JobForm from '@/components/JobForm';
 import rugboostLogo from '@/assets/rugboost-logo.svg';
@@ -31,20 +32,36 @@ const NewJob = () => {
       return;
     }
 
+    const values = {
+      user_id: user.id,
+      job_number: formData.jobNumber,
+      client_name: formData.clientName,
+      client_email: formData.clientEmail || null,
+      client_phone: formData.clientPhone || null,
+      notes: formData.notes || null,
+      // status is left to the database, which starts the job at the pipeline's first step
+    };
+
+    // Without a connection the job is kept on the device and created once it's back;
+    // rugs can be added to it in the meantime
+    const saveOffline = async () => {
+      const id = crypto.randomUUID();
+      await queueJobInsert(id, `Job ${values.job_number}`, values);
+      toast.success('Job saved on this device. It will sync when you\'re back online.');
+      navigate(`/jobs/${id}`);
+    };
+
     setIsCreating(true);
 
     try {
+      if (!navigator.onLine) {
+        await saveOffline();
+        return;
+      }
+
       const { data, error } = await supabase
         .from('jobs')
-        .insert({
-          user_id: user.id,
-          job_number: formData.jobNumber,
-          client_name: formData.clientName,
-          client_email: formData.clientEmail || null,
-          client_phone: formData.clientPhone || null,
-          notes: formData.notes || null,
-          status: 'active',
-        })
+        .insert(values)
         .select()
         .single();
 
@@ -54,6 +71,10 @@ const NewJob = () => {
       navigate(`/jobs/${data.id}`);
     } catch (error) {
       console.error('Failed to create job:', error);
+      if (isNetworkError(error)) {
+        await saveOffline();
+        return;
+      }
       toast.error(error instanceof Error ? error.message : 'Failed to create job');
     } finally {
       setIsCreating(false);
@@ -0,0 +1,176 @@
+import { useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useReviews } from "@/hooks/useReviews";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, Star, MessageSquare, ThumbsUp, Globe, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import rugboostLogo from "@/assets/rugboost-logo.svg";
+
+import { MetricCard } from "@/components/analytics/MetricCard";
+import { RatingTrendChart } from "@/components/analytics/RatingTrendChart";
+import StarRating from "@/components/StarRating";
+import { averageRating, averageRatingByMonth, calculateNps } from "@/lib/reviews";
+
+const Reviews = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { data: reviews = [], isLoading } = useReviews();
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  const summary = useMemo(() => {
+    const ratings = reviews.map(r => r.rating);
+    return {
+      average: averageRating(ratings),
+      nps: calculateNps(ratings),
+      publicCount: reviews.filter(r => r.allow_public).length,
+      trend: averageRatingByMonth(reviews),
+    };
+  }, [reviews]);
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b border-border bg-card/80 backdrop-blur-md">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <div className="flex items-center gap-3">
+            <img src={rugboostLogo} alt="RugBoost" className="h-10 w-10" />
+            <div>
+              <h1 className="font-display text-xl font-bold text-foreground">RugBoost</h1>
+              <p className="text-xs text-muted-foreground">Client Reviews</p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={() => navigate("/dashboard")} className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {isLoading ? (
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {[1, 2, 3, 4].map(i => (
+                <Skeleton key={i} className="h-32" />
+              ))}
+            </div>
+            <Skeleton className="h-[360px]" />
+          </div>
+        ) : (
+          <>
+            {/* Metric Cards */}
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4 mb-8">
+              <MetricCard
+                title="Average Rating"
+                value={Number(summary.average.toFixed(1))}
+                icon={Star}
+                description="Out of 5 stars"
+              />
+              <MetricCard
+                title="Reviews"
+                value={reviews.length}
+                icon={MessageSquare}
+                description="Total reviews received"
+              />
+              <MetricCard
+                title="Client NPS"
+                value={summary.nps.score}
+                icon={ThumbsUp}
+                description={`${summary.nps.promoters} promoters · ${summary.nps.detractors} detractors`}
+              />
+              <MetricCard
+                title="Public Consent"
+                value={summary.publicCount}
+                icon={Globe}
+                description="Reviews you may share publicly"
+              />
+            </div>
+
+            <Card className="shadow-card mb-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Star className="h-5 w-5 text-primary" />
+                  Rating Over Time
+                </CardTitle>
+                <CardDescription>Average star rating by month</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RatingTrendChart data={summary.trend} />
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessageSquare className="h-5 w-5 text-primary" />
+                  All Reviews
+                </CardTitle>
+                <CardDescription>Left by clients through the portal after their job was completed</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {reviews.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">
+                    No reviews yet. Clients are asked for one when a job is marked completed.
+                  </p>
+                ) : (
+                  <div className="divide-y divide-border">
+                    {reviews.map(review => (
+                      <div key={review.id} className="py-4 first:pt-0 last:pb-0 space-y-2">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <div className="flex items-center gap-3">
+                            <StarRating value={review.rating} />
+                            <button
+                              type="button"
+                              onClick={() => navigate(`/jobs/${review.job_id}`)}
+                              className="text-sm font-medium text-foreground hover:underline"
+                            >
+                              {review.jobs?.client_name || "Client"}
+                              {review.jobs?.job_number && ` · Job #${review.jobs.job_number}`}
+                            </button>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {review.allow_public && (
+                              <Badge variant="outline" className="gap-1">
+                                <Globe className="h-3 w-3" />
+                                OK to share
+                              </Badge>
+                            )}
+                            <span className="text-xs text-muted-foreground">
+                              {format(new Date(review.created_at), "MMM d, yyyy")}
+                            </span>
+                          </div>
+                        </div>
+                        {review.comment && (
+                          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{review.comment}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Reviews;
@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/queryKeys";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Users, AlertTriangle } from "lucide-react";
+import rugboostLogo from "@/assets/rugboost-logo.svg";
+
+const TeamJoin = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      navigate(`/auth?redirect=${encodeURIComponent(`/team/join/${token}`)}`);
+      return;
+    }
+
+    if (!token || attempted.current) return;
+    attempted.current = true;
+
+    const acceptInvitation = async () => {
+      try {
+        const { error: acceptError } = await supabase.rpc("accept_organization_invitation", { _token: token });
+        if (acceptError) throw acceptError;
+
+        // Everything cached so far belonged to the user's previous (personal) business
+        await queryClient.invalidateQueries();
+        queryClient.removeQueries({ queryKey: queryKeys.organization.all });
+        navigate("/dashboard");
+      } catch (err) {
+        console.error("Error accepting team invitation:", err);
+        setError(err instanceof Error ? err.message : "This invitation could not be accepted");
+      }
+    };
+
+    acceptInvitation();
+  }, [user, authLoading, token, navigate, queryClient]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md shadow-card">
+        <CardHeader className="text-center">
+          <img src={rugboostLogo} alt="RugBoost" className="mx-auto h-12 w-12 mb-2" />
+          <CardTitle className="flex items-center justify-center gap-2">
+            {error ? <AlertTriangle className="h-5 w-5 text-destructive" /> : <Users className="h-5 w-5 text-primary" />}
+            {error ? "Invitation problem" : "Joining your team"}
+          </CardTitle>
+          <CardDescription>
+            {error || "Hang tight while we add you to the business."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-center">
+          {error ? (
+            <Button variant="outline" onClick={() => navigate("/dashboard")}>
+              Go to dashboard
+            </Button>
+          ) : (
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TeamJoin;
@@ -87,11 +87,11 @@ const AdminDashboard = () => {
         .select('id, user_id');
       if (jobsError) throw jobsError;
 
-      // Fetch all completed payments
+      // Fetch all completed payments (partially refunded ones still count, net of the refund)
       const { data: payments, error: paymentsError } = await supabase
         .from('payments')
-        .select('id, amount, status, created_at, job_id')
-        .eq('status', 'completed');
+        .select('id, amount, amount_refunded, status, created_at, job_id')
+        .in('status', ['completed', 'partially_refunded']);
       if (paymentsError) throw paymentsError;
 
       // Fetch all payouts
@@ -110,7 +110,7 @@ const AdminDashboard = () => {
       const feePercentage = feeSettings ? parseFloat(feeSettings.setting_value) : 10;
 
       // Calculate metrics
-      const totalRevenue = payments?.reduce((sum, p) => sum + Number(p.amount), 0) || 0;
+      const totalRevenue = payments?.reduce((sum, p) => sum + Number(p.amount) - Number(p.amount_refunded), 0) || 0;
       const platformFees = totalRevenue * (feePercentage / 100);
       const pendingPayouts = payouts?.filter(p => p.status === 'pending').reduce((sum, p) => sum + Number(p.amount), 0) || 0;
       const completedPayouts = payouts?.filter(p => p.status === 'completed').reduce((sum, p) => sum + Number(p.amount), 0) || 0;
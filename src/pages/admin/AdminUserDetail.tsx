@@ -51,6 +51,7 @@ interface Job {
 interface Payment {
   id: string;
   amount: number;
+  amount_refunded: number;
   status: string;
   created_at: string;
   job_id: string;
@@ -220,9 +221,10 @@ const AdminUserDetail = () => {
     );
   }
 
+  // Refunded money never reached the business, so it isn't owed in a payout
   const totalRevenue = payments
-    .filter(p => p.status === 'completed')
-    .reduce((sum, p) => sum + Number(p.amount), 0);
+    .filter(p => p.status === 'completed' || p.status === 'partially_refunded')
+    .reduce((sum, p) => sum + Number(p.amount) - Number(p.amount_refunded || 0), 0);
   
   const totalPaidOut = payouts
     .filter(p => p.status === 'completed')
@@ -0,0 +1,177 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// An in-memory stand-in for the parts of supabase-js the shared edge modules and the
+// offline outbox use: table reads and writes (upserts by id) with eq/neq/in filters,
+// rpc and functions.invoke. Columns named in select() aren't projected and joins
+// aren't followed, so seed rows with whatever nested data the code under test reads.
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+
+interface QueryResult {
+  data: unknown;
+  error: { code?: string; message: string } | null;
+}
+
+export interface FakeCall {
+  name: string;
+  args: unknown;
+}
+
+export interface FakeSupabase {
+  client: SupabaseClient;
+  tables: Record<string, Row[]>;
+  rpcCalls: FakeCall[];
+  invocations: FakeCall[];
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private values: Row | Row[] = {};
+  private filters: Filter[] = [];
+  private returning = false;
+  private expect: 'one' | 'maybe' | null = null;
+
+  constructor(private rows: Row[]) {}
+
+  select() {
+    if (this.action !== 'select') this.returning = true;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  upsert(values: Row | Row[]) {
+    this.action = 'upsert';
+    this.values = values;
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push(row => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  order() {
+    return this;
+  }
+
+  single() {
+    this.expect = 'one';
+    return this;
+  }
+
+  maybeSingle() {
+    this.expect = 'maybe';
+    return this;
+  }
+
+  then<T1 = QueryResult, T2 = never>(
+    onfulfilled?: ((value: QueryResult) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve().then(() => this.run()).then(onfulfilled, onrejected);
+  }
+
+  private matching() {
+    return this.rows.filter(row => this.filters.every(filter => filter(row)));
+  }
+
+  private run(): QueryResult {
+    let result: Row[];
+
+    switch (this.action) {
+      case 'insert': {
+        const inserted = (Array.isArray(this.values) ? this.values : [this.values]).map(values => ({
+          id: crypto.randomUUID(),
+          ...values,
+        }));
+        if (inserted.some(row => this.rows.some(existing => existing.id === row.id))) {
+          return { data: null, error: { code: '23505', message: 'duplicate key value violates unique constraint' } };
+        }
+        this.rows.push(...inserted);
+        result = inserted;
+        break;
+      }
+      case 'upsert':
+        result = (Array.isArray(this.values) ? this.values : [this.values]).map(values => {
+          const existing = this.rows.find(row => values.id !== undefined && row.id === values.id);
+          if (existing) return Object.assign(existing, values);
+          const row = { id: crypto.randomUUID(), ...values };
+          this.rows.push(row);
+          return row;
+        });
+        break;
+      case 'update':
+        result = this.matching();
+        result.forEach(row => Object.assign(row, this.values));
+        break;
+      case 'delete':
+        result = this.matching();
+        result.forEach(row => this.rows.splice(this.rows.indexOf(row), 1));
+        break;
+      default:
+        result = this.matching();
+        this.returning = true;
+    }
+
+    const data = result.map(row => ({ ...row }));
+    if (!this.returning) return { data: null, error: null };
+    if (!this.expect) return { data, error: null };
+    if (data.length > 1 || (this.expect === 'one' && data.length === 0)) {
+      return { data: null, error: { code: 'PGRST116', message: `Expected one row, got ${data.length}` } };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+}
+
+export const fakeSupabase = (seed: Record<string, Row[]> = {}): FakeSupabase => {
+  const tables: Record<string, Row[]> = {};
+  for (const [table, rows] of Object.entries(seed)) {
+    tables[table] = rows.map(row => ({ ...row }));
+  }
+
+  const rpcCalls: FakeCall[] = [];
+  const invocations: FakeCall[] = [];
+
+  const client = {
+    from: (table: string) => new FakeQuery((tables[table] ??= [])),
+    rpc: async (name: string, args: unknown) => {
+      rpcCalls.push({ name, args });
+      return { data: null, error: null };
+    },
+    functions: {
+      invoke: async (name: string, options: { body?: unknown } = {}) => {
+        invocations.push({ name, args: options.body });
+        return { data: null, error: null };
+      },
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, tables, rpcCalls, invocations };
+};
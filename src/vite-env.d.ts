@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+// Edge-function modules shared with the app and its tests (@shared/*) import
+// supabase-js by URL, the way Deno does; give them the npm package's types.
+declare module "https://esm.sh/@supabase/supabase-js@2.57.2" {
+  export * from "@supabase/supabase-js";
+}
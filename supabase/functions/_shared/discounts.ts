@@ -0,0 +1,139 @@
+// Discounts, shared by create-checkout-session and the web app (as '@shared/discounts'),
+// so the portal total is the amount checkout charges.
+//
+// Rug discounts are set by staff on a rug's estimate and come off that rug's selected
+// services. Job discounts (set by staff, the best automatic rule the job qualifies
+// for, and the client's coupon) then come off what is left, in that order. Tax is
+// charged on the discounted amounts.
+//
+// Keep this file free of imports so it runs unchanged under Deno and Vite.
+
+export type DiscountType = "percentage" | "fixed";
+
+export type DiscountSource = "manual" | "rule" | "coupon";
+
+// A discount as staff enter it: 10% or $25, with the wording shown to the client
+export interface DiscountTerms {
+  type: DiscountType;
+  value: number;
+  label: string;
+}
+
+// Automatic job discount for bringing in at least minRugs rugs
+export interface DiscountRule extends DiscountTerms {
+  minRugs: number;
+}
+
+export interface CouponTerms extends DiscountTerms {
+  id: string;
+  code: string;
+}
+
+// What job_discount_settings returns for a job (and optional coupon code)
+export interface JobDiscountSettings {
+  jobDiscount: DiscountTerms | null;
+  rules: DiscountRule[];
+  coupon: CouponTerms | null;
+  couponError: string | null;
+}
+
+export interface DiscountInput extends DiscountTerms {
+  source: DiscountSource;
+  // Only that rug's lines are discounted; job-wide when missing
+  rugNumber?: string;
+}
+
+export interface DiscountableLine {
+  amount: number;
+  rugNumber?: string;
+  taxExempt?: boolean;
+}
+
+export interface AppliedDiscount {
+  description: string;
+  source: DiscountSource;
+  rugNumber?: string;
+  // Positive; invoices store it negated
+  amount: number;
+}
+
+export interface DiscountResult {
+  discounts: AppliedDiscount[];
+  total: number;
+  // The lines with their share of every discount taken off, for computing tax
+  netLines: DiscountableLine[];
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const NO_DISCOUNTS: JobDiscountSettings = { jobDiscount: null, rules: [], coupon: null, couponError: null };
+
+export const DISCOUNT_SOURCE_LABELS: Record<DiscountSource, string> = {
+  manual: "Staff discount",
+  rule: "Automatic",
+  coupon: "Coupon",
+};
+
+export const describeDiscount = (terms: DiscountTerms) =>
+  terms.type === "percentage" ? `${terms.label} (${terms.value}%)` : terms.label;
+
+export const isValidDiscount = (terms: DiscountTerms) =>
+  !!terms.label.trim() && terms.value > 0 && (terms.type === "fixed" || terms.value <= 100);
+
+/**
+ * The job-wide discounts that apply to a selection covering rugCount rugs. Only
+ * the richest rule the job qualifies for applies, so tiers don't stack.
+ */
+export function jobDiscounts(settings: JobDiscountSettings, rugCount: number): DiscountInput[] {
+  const inputs: DiscountInput[] = [];
+  if (settings.jobDiscount) inputs.push({ ...settings.jobDiscount, source: "manual" });
+
+  const rule = settings.rules
+    .filter((r) => rugCount >= r.minRugs)
+    .sort((a, b) => b.minRugs - a.minRugs)[0];
+  if (rule) inputs.push({ type: rule.type, value: rule.value, label: rule.label, source: "rule" });
+
+  if (settings.coupon) {
+    const { type, value, label, code } = settings.coupon;
+    inputs.push({ type, value, label: label || `Coupon ${code}`, source: "coupon" });
+  }
+  return inputs;
+}
+
+/**
+ * Apply rug discounts, then job discounts, to a set of lines. A discount never
+ * exceeds what is left to discount, and each one is shared across the lines it
+ * covers in proportion to their amounts.
+ */
+export function applyDiscounts(lines: DiscountableLine[], inputs: DiscountInput[]): DiscountResult {
+  const net = lines.map((l) => l.amount);
+  const discounts: AppliedDiscount[] = [];
+
+  const ordered = [...inputs.filter((d) => d.rugNumber), ...inputs.filter((d) => !d.rugNumber)];
+  for (const input of ordered) {
+    const covered = lines
+      .map((_, index) => index)
+      .filter((index) => !input.rugNumber || lines[index].rugNumber === input.rugNumber);
+    const base = covered.reduce((sum, index) => sum + net[index], 0);
+    if (base <= 0 || input.value <= 0) continue;
+
+    const amount = roundCents(Math.min(base, input.type === "percentage" ? base * input.value / 100 : input.value));
+    if (amount <= 0) continue;
+
+    for (const index of covered) {
+      net[index] -= amount * net[index] / base;
+    }
+    discounts.push({
+      description: input.rugNumber ? `${input.rugNumber}: ${describeDiscount(input)}` : describeDiscount(input),
+      source: input.source,
+      ...(input.rugNumber ? { rugNumber: input.rugNumber } : {}),
+      amount,
+    });
+  }
+
+  return {
+    discounts,
+    total: roundCents(discounts.reduce((sum, d) => sum + d.amount, 0)),
+    netLines: lines.map((line, index) => ({ ...line, amount: net[index] })),
+  };
+}
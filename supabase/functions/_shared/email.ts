@@ -0,0 +1,190 @@
+// Email helpers for the edge functions. The templates themselves live in
+// emailTemplates.ts so the web app can render them too.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import type { Resend } from "https://esm.sh/resend@2.0.0";
+import { decode as decodeBase64, encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import {
+  defaultEmailTemplate,
+  validateTemplate,
+  type EmailTemplateContent,
+  type EmailTemplateType,
+} from "./emailTemplates.ts";
+
+// The business's saved template, or the default when it never customised this email.
+// A saved template that no longer validates also falls back, rather than sending
+// the client stray braces or an invite without its link.
+export async function loadEmailTemplate(
+  supabase: SupabaseClient,
+  businessUserId: string | null | undefined,
+  type: EmailTemplateType,
+): Promise<EmailTemplateContent> {
+  if (!businessUserId) return defaultEmailTemplate(type);
+
+  const { data, error } = await supabase
+    .from("email_templates")
+    .select("subject, body")
+    .eq("user_id", businessUserId)
+    .eq("template_type", type)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to load ${type} template, using the default:`, error.message);
+    return defaultEmailTemplate(type);
+  }
+  if (!data) return defaultEmailTemplate(type);
+
+  const problems = validateTemplate(type, data);
+  if (problems.length > 0) {
+    console.warn(`Saved ${type} template is invalid, using the default:`, problems.join("; "));
+    return defaultEmailTemplate(type);
+  }
+
+  return data;
+}
+
+export const EMAIL_ATTACHMENTS_BUCKET = "email-attachments";
+
+export interface EmailAttachment {
+  filename: string;
+  // Base64
+  content: string;
+}
+
+// An attachment copied to storage, as kept on email_events.attachments
+export interface StoredEmailAttachment {
+  filename: string;
+  path: string;
+}
+
+export interface SendEmailOptions {
+  // An email_templates type, or the kind of system email, e.g. "new_message"
+  templateType: string;
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  attachments?: EmailAttachment[];
+  jobId?: string | null;
+  // Looked up from the job when missing
+  organizationId?: string | null;
+  resentFrom?: string;
+}
+
+export interface SendEmailResult {
+  eventId: string | null;
+  messageId: string | null;
+  error: string | null;
+}
+
+const contentType = (filename: string) =>
+  filename.toLowerCase().endsWith(".pdf") ? "application/pdf" : "application/octet-stream";
+
+async function recordEmailEvent(
+  supabaseAdmin: SupabaseClient,
+  options: SendEmailOptions,
+  messageId: string | null,
+  error: string | null,
+): Promise<string | null> {
+  try {
+    let organizationId = options.organizationId ?? null;
+    if (!organizationId && options.jobId) {
+      const { data: job } = await supabaseAdmin
+        .from("jobs")
+        .select("organization_id")
+        .eq("id", options.jobId)
+        .maybeSingle();
+      organizationId = job?.organization_id ?? null;
+    }
+
+    const id = crypto.randomUUID();
+    const attachments: StoredEmailAttachment[] = [];
+    for (const attachment of options.attachments || []) {
+      const path = `${id}/${attachment.filename}`;
+      const { error: uploadError } = await supabaseAdmin.storage
+        .from(EMAIL_ATTACHMENTS_BUCKET)
+        .upload(path, decodeBase64(attachment.content), { contentType: contentType(attachment.filename) });
+
+      if (uploadError) {
+        console.error(`Failed to keep attachment ${attachment.filename}:`, uploadError.message);
+      } else {
+        attachments.push({ filename: attachment.filename, path });
+      }
+    }
+
+    const { error: insertError } = await supabaseAdmin.from("email_events").insert({
+      id,
+      organization_id: organizationId,
+      job_id: options.jobId ?? null,
+      template_type: options.templateType,
+      recipient: options.to,
+      from_address: options.from,
+      subject: options.subject,
+      html: options.html,
+      text: options.text ?? null,
+      attachments,
+      resend_message_id: messageId,
+      status: error ? "failed" : "sent",
+      error,
+      resent_from: options.resentFrom ?? null,
+    });
+
+    if (insertError) throw insertError;
+    return id;
+  } catch (logError) {
+    console.error("Failed to record email event:", logError instanceof Error ? logError.message : logError);
+    return null;
+  }
+}
+
+// Sends through Resend and records the attempt in email_events, which the Resend
+// webhook then keeps up to date. A failed send is returned rather than thrown so
+// callers keep their own error handling, and logging never stops an email going out.
+export async function sendEmail(
+  supabaseAdmin: SupabaseClient,
+  resend: Resend,
+  options: SendEmailOptions,
+): Promise<SendEmailResult> {
+  let messageId: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const { data, error: sendError } = await resend.emails.send({
+      from: options.from,
+      to: [options.to],
+      subject: options.subject,
+      html: options.html,
+      ...(options.text ? { text: options.text } : {}),
+      attachments: options.attachments || [],
+    });
+
+    if (sendError) {
+      error = sendError.message || JSON.stringify(sendError);
+    } else {
+      messageId = data?.id ?? null;
+    }
+  } catch (sendError) {
+    error = sendError instanceof Error ? sendError.message : String(sendError);
+  }
+
+  const eventId = await recordEmailEvent(supabaseAdmin, options, messageId, error);
+  return { eventId, messageId, error };
+}
+
+// Reads kept attachments back for a resend
+export async function loadEmailAttachments(
+  supabaseAdmin: SupabaseClient,
+  stored: StoredEmailAttachment[],
+): Promise<EmailAttachment[]> {
+  const attachments: EmailAttachment[] = [];
+  for (const attachment of stored) {
+    const { data, error } = await supabaseAdmin.storage.from(EMAIL_ATTACHMENTS_BUCKET).download(attachment.path);
+    if (error || !data) throw new Error(`Attachment ${attachment.filename} is no longer available`);
+    attachments.push({
+      filename: attachment.filename,
+      content: encodeBase64(new Uint8Array(await data.arrayBuffer())),
+    });
+  }
+  return attachments;
+}
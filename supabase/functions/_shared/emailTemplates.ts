@@ -0,0 +1,514 @@
+// Email templates, shared by every edge function that sends email and the web app
+// (as '@shared/emailTemplates'), so the settings page and the preview dialog show
+// exactly what the client receives.
+//
+// Businesses may override a template's subject and body in email_templates; anything
+// they haven't customised falls back to the defaults below. Bodies are plain text with
+// {{variable}} placeholders: a line holding only a URL becomes a button and "- " lines
+// become a list.
+//
+// Keep this file free of imports so it runs unchanged under Deno and Vite.
+
+export type EmailTemplateType =
+  | "client_invite"
+  | "payment_confirmation"
+  | "report_email"
+  | "payment_received"
+  | "invite_reminder"
+  | "estimate_reminder"
+  | "balance_reminder"
+  | "credit_note"
+  | "team_invite"
+  | "new_message"
+  | "payout_created"
+  | "payout_completed";
+
+export interface EmailTemplateContent {
+  subject: string;
+  body: string;
+}
+
+export interface EmailTemplateDefinition extends EmailTemplateContent {
+  label: string;
+  description: string;
+  // Shown under the business name at the top of the email
+  heading: string;
+  // Label for a button made from a link on its own line
+  buttonLabel: string;
+  // Variables this template can use on top of COMMON_VARIABLES
+  variables: string[];
+  // Variables the body must keep, e.g. the link an invite exists to send
+  required: string[];
+}
+
+// Values keyed by variable name; missing ones render as empty text
+export type EmailVariables = Partial<Record<string, string>>;
+
+// Extra content a function adds after the body, e.g. a table of the rugs
+export interface EmailSection {
+  html: string;
+  text: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export const EMAIL_VARIABLE_DESCRIPTIONS: Record<string, string> = {
+  client_name: "Client's full name",
+  business_name: "Your business name",
+  business_phone: "Your business phone",
+  business_email: "Your business email",
+  job_number: "Job reference number",
+  portal_link: "Client portal URL",
+  amount: "Payment amount",
+  rug_count: "Number of rugs, e.g. \"3 rugs\"",
+  credit_note_number: "Credit note number, e.g. CN-00012",
+  inviter_name: "Name of the teammate sending the invite",
+  team_role: "Role the invitee is joining as",
+  invite_email: "Address the invitation was sent to",
+  join_link: "Link to accept a team invitation",
+  message_link: "Link to the job's message thread",
+};
+
+export const COMMON_VARIABLES = ["client_name", "business_name", "business_phone", "business_email", "job_number"];
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateType, EmailTemplateDefinition> = {
+  client_invite: {
+    label: "Portal Invite",
+    description: "Sent when a client portal link is generated",
+    heading: "Your Estimate is Ready",
+    buttonLabel: "View Your Estimate",
+    variables: ["portal_link"],
+    required: ["portal_link"],
+    subject: "Your Rug Inspection Estimate is Ready - {{business_name}}",
+    body: `Dear {{client_name}},
+
+Thank you for choosing {{business_name}} for your rug care needs.
+
+We have completed the inspection of your rugs and prepared a detailed estimate for the recommended services. Please click the link below to review your estimate and approve the services you'd like us to proceed with:
+
+{{portal_link}}
+
+Your Job Number: #{{job_number}}
+
+If you have any questions, please don't hesitate to contact us.
+
+Best regards,
+{{business_name}}
+{{business_phone}}`,
+  },
+  payment_confirmation: {
+    label: "Payment Confirmation",
+    description: "Sent to client after successful payment",
+    heading: "Payment Confirmed",
+    buttonLabel: "Open Link",
+    variables: ["amount"],
+    required: [],
+    subject: "✓ Payment Confirmed - Job #{{job_number}}",
+    body: `Dear {{client_name}},
+
+Thank you for your payment! We've received your payment of {{amount}} and are excited to begin work on your rugs.
+
+Job Number: #{{job_number}}
+Status: In Progress
+
+What happens next:
+- Our team will begin working on your rugs immediately
+- You'll receive updates as we make progress
+- We'll contact you when your rugs are ready
+
+If you have any questions, please don't hesitate to reach out.
+
+Best regards,
+{{business_name}}
+{{business_phone}}`,
+  },
+  report_email: {
+    label: "Report Email",
+    description: "Sent when sharing inspection report via email",
+    heading: "Rug Inspection Report",
+    buttonLabel: "Open Link",
+    variables: ["rug_count"],
+    required: [],
+    subject: "Rug Inspection Report - Job #{{job_number}}",
+    body: `Dear {{client_name}},
+
+Please find attached the detailed inspection report for Job #{{job_number}}, covering {{rug_count}}.
+
+If you have any questions about the report or would like to discuss the recommended services, please don't hesitate to contact us.
+
+Best regards,
+{{business_name}}
+{{business_phone}}`,
+  },
+  payment_received: {
+    label: "Payment Received",
+    description: "Sent to your business email when a client pays",
+    heading: "Payment Received",
+    buttonLabel: "Open Link",
+    variables: ["amount"],
+    required: [],
+    subject: "🎉 Payment Received - Job #{{job_number}}",
+    body: `{{client_name}} has paid {{amount}} for Job #{{job_number}}.
+
+The client has approved services and completed payment. You can now begin work on this job.
+
+Next steps:
+- Review the approved services in your dashboard
+- Begin work on the rugs
+- Update the job status as you progress`,
+  },
+  invite_reminder: {
+    label: "Invite Reminder",
+    description: "Sent on your reminder schedule while a client hasn't opened their portal invite",
+    heading: "Your Estimate is Waiting",
+    buttonLabel: "View Your Estimate",
+    variables: ["portal_link"],
+    required: ["portal_link"],
+    subject: "Reminder: Your Rug Estimate is Ready - {{business_name}}",
+    body: `Dear {{client_name}},
+
+Just a friendly reminder that the estimate for your rugs is ready to review. You can see our findings and choose the services you'd like here:
+
+{{portal_link}}
+
+Your Job Number: #{{job_number}}
+
+If you have any questions, please don't hesitate to contact us.
+
+Best regards,
+{{business_name}}
+{{business_phone}}`,
+  },
+  estimate_reminder: {
+    label: "Estimate Reminder",
+    description: "Sent on your reminder schedule while a client has viewed but not approved their estimate",
+    heading: "Ready When You Are",
+    buttonLabel: "Review & Approve",
+    variables: ["portal_link"],
+    required: ["portal_link"],
+    subject: "Your Estimate for Job #{{job_number}} is Awaiting Approval",
+    body: `Dear {{client_name}},
+
+Thank you for reviewing the estimate for your rugs. Whenever you're ready, you can approve the services you'd like us to go ahead with here:
+
+{{portal_link}}
+
+If you'd like to talk through any of the recommendations first, just reply to this email or give us a call.
+
+Best regards,
+{{business_name}}
+{{business_phone}}`,
+  },
+  balance_reminder: {
+    label: "Balance Reminder",
+    description: "Sent on your reminder schedule while a balance invoice is unpaid",
+    heading: "Balance Due",
+    buttonLabel: "Pay Your Balance",
+    variables: ["portal_link", "amount"],
+    required: ["portal_link"],
+    subject: "Balance Due for Job #{{job_number}} - {{business_name}}",
+    body: `Dear {{client_name}},
+
+This is a reminder that the remaining balance of {{amount}} for Job #{{job_number}} is still due. You can pay securely through your portal:
+
+{{portal_link}}
+
+If you've already paid, please disregard this email.
+
+Best regards,
+{{business_name}}
+{{business_phone}}`,
+  },
+  credit_note: {
+    label: "Credit Note",
+    description: "Sent to the client when you refund a payment, with the refunded lines",
+    heading: "Credit Note",
+    buttonLabel: "Open Link",
+    variables: ["credit_note_number", "amount"],
+    required: [],
+    subject: "Credit Note {{credit_note_number}} - Job #{{job_number}}",
+    body: `Dear {{client_name}},
+
+{{business_name}} has issued a refund of {{amount}} for Job #{{job_number}}. Your credit note number is {{credit_note_number}}.
+
+The refund goes back to your original payment method and usually appears within 5–10 business days.
+
+Best regards,
+{{business_name}}
+{{business_phone}}`,
+  },
+  team_invite: {
+    label: "Team Invite",
+    description: "Sent when you invite someone to join your team",
+    heading: "You're Invited to the Team",
+    buttonLabel: "Accept Invitation",
+    variables: ["inviter_name", "team_role", "invite_email", "join_link"],
+    required: ["join_link"],
+    subject: "{{inviter_name}} invited you to join {{business_name}}",
+    body: `Hello,
+
+{{inviter_name}} has invited you to join {{business_name}} on RugBoost as {{team_role}}.
+
+Sign in or create an account with {{invite_email}}, then accept the invitation:
+
+{{join_link}}
+
+This invitation expires in 14 days. If you weren't expecting it, you can ignore this email.`,
+  },
+  new_message: {
+    label: "New Message",
+    description: "Sent to your business email when a client messages you through their portal",
+    heading: "New Client Message",
+    buttonLabel: "Reply in RugBoost",
+    variables: ["message_link"],
+    required: [],
+    subject: "New message from {{client_name}} - Job #{{job_number}}",
+    body: `{{client_name}} sent you a message about Job #{{job_number}} through the client portal. It's copied below, and you can reply here:
+
+{{message_link}}`,
+  },
+  payout_created: {
+    label: "Payout Initiated",
+    description: "Sent to your business email when a payout to you is started",
+    heading: "Payout Initiated",
+    buttonLabel: "Open Link",
+    variables: ["amount"],
+    required: [],
+    subject: "Payout Initiated - {{amount}}",
+    body: `Hello {{business_name}},
+
+Great news! A payout of {{amount}} has been initiated for your account.
+
+You will receive another notification once the payout has been completed and the funds have been transferred.`,
+  },
+  payout_completed: {
+    label: "Payout Completed",
+    description: "Sent to your business email when a payout to you has been paid",
+    heading: "Payout Completed",
+    buttonLabel: "Open Link",
+    variables: ["amount"],
+    required: [],
+    subject: "Payout Completed - {{amount}}",
+    body: `Hello {{business_name}},
+
+Your payout of {{amount}} has been successfully completed!
+
+The funds should appear in your account according to your payment method's typical processing time.
+
+Thank you for being a valued partner!`,
+  },
+};
+
+export const EMAIL_TEMPLATE_TYPES = Object.keys(DEFAULT_EMAIL_TEMPLATES) as EmailTemplateType[];
+
+const VARIABLE_PATTERN = /{{\s*([a-z_]+)\s*}}/g;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+export const templateVariables = (type: EmailTemplateType) => [
+  ...COMMON_VARIABLES,
+  ...DEFAULT_EMAIL_TEMPLATES[type].variables,
+];
+
+export const defaultEmailTemplate = (type: EmailTemplateType): EmailTemplateContent => ({
+  subject: DEFAULT_EMAIL_TEMPLATES[type].subject,
+  body: DEFAULT_EMAIL_TEMPLATES[type].body,
+});
+
+// Problems that would make the email go out wrong, worded for the settings page.
+// An empty list means the template is safe to save and send.
+export function validateTemplate(type: EmailTemplateType, template: EmailTemplateContent): string[] {
+  const problems: string[] = [];
+  const allowed = templateVariables(type);
+
+  if (!template.subject.trim()) problems.push("The subject can't be empty");
+  if (!template.body.trim()) problems.push("The body can't be empty");
+
+  for (const [field, text] of [["subject", template.subject], ["body", template.body]]) {
+    const unknown = new Set<string>();
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      if (!allowed.includes(match[1])) unknown.add(match[1]);
+    }
+    for (const name of unknown) {
+      problems.push(`{{${name}}} in the ${field} isn't available in this email`);
+    }
+    // Whatever is left after removing valid placeholders must not contain braces
+    if (/{{|}}/.test(text.replace(VARIABLE_PATTERN, ""))) {
+      problems.push(`The ${field} has a variable with unmatched braces`);
+    }
+  }
+
+  for (const name of DEFAULT_EMAIL_TEMPLATES[type].required) {
+    if (!template.body.match(new RegExp(`{{\\s*${name}\\s*}}`))) {
+      problems.push(`The body must include {{${name}}}`);
+    }
+  }
+
+  return problems;
+}
+
+export const fillTemplate = (text: string, variables: EmailVariables) =>
+  text.replace(VARIABLE_PATTERN, (_, name: string) => variables[name] ?? "");
+
+const isUrl = (line: string) => /^https?:\/\/\S+$/.test(line.trim());
+
+function bodyHtml(body: string, buttonLabel: string): string {
+  const html: string[] = [];
+  let listItems: string[] = [];
+
+  const flushList = () => {
+    if (listItems.length === 0) return;
+    html.push(`<ul style="margin: 0 0 15px; padding-left: 20px;">${listItems.join("")}</ul>`);
+    listItems = [];
+  };
+
+  for (const line of body.split("\n")) {
+    if (line.startsWith("- ")) {
+      listItems.push(`<li>${escapeHtml(line.slice(2))}</li>`);
+      continue;
+    }
+    flushList();
+    if (isUrl(line)) {
+      html.push(
+        `<p style="text-align: center;"><a href="${escapeHtml(line.trim())}" style="display: inline-block; background: #3b82f6; color: white; padding: 15px 30px; border-radius: 8px; text-decoration: none; font-weight: bold; margin: 10px 0;">${escapeHtml(buttonLabel)}</a></p>`,
+      );
+    } else {
+      html.push(`<p style="margin: 0 0 15px;">${escapeHtml(line) || "&nbsp;"}</p>`);
+    }
+  }
+  flushList();
+
+  return html.join("");
+}
+
+// Fills the template and wraps it in the branded layout. Variable values are escaped,
+// section HTML is trusted as is.
+export function renderEmail(
+  type: EmailTemplateType,
+  template: EmailTemplateContent,
+  variables: EmailVariables,
+  sections: EmailSection[] = [],
+): RenderedEmail {
+  const definition = DEFAULT_EMAIL_TEMPLATES[type];
+  const subject = fillTemplate(template.subject, variables).replace(/\s+/g, " ").trim();
+  const body = fillTemplate(template.body, variables).trim();
+  const businessName = variables.business_name || "";
+  const phone = variables.business_phone || "";
+  const email = variables.business_email || "";
+
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="margin: 0; padding: 0; font-family: 'Segoe UI', Arial, sans-serif; line-height: 1.6; color: #374151; background: #f3f4f6;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="background: linear-gradient(135deg, #1e40af, #3b82f6); color: white; padding: 40px 30px; text-align: center; border-radius: 16px 16px 0 0;">
+      <h1 style="margin: 0; font-size: 28px;">${escapeHtml(businessName)}</h1>
+      <p style="margin: 10px 0 0; opacity: 0.9;">${escapeHtml(definition.heading)}</p>
+    </div>
+    <div style="background: white; padding: 40px 30px; border-radius: 0 0 16px 16px; font-size: 16px;">
+      ${bodyHtml(body, definition.buttonLabel)}
+      ${sections.map((section) => section.html).join("")}
+    </div>
+    <div style="text-align: center; padding: 30px 20px; color: #6b7280; font-size: 14px;">
+      ${phone ? `<p style="margin: 0;">📞 ${escapeHtml(phone)}</p>` : ""}
+      ${email ? `<p style="margin: 5px 0 0;">✉️ ${escapeHtml(email)}</p>` : ""}
+    </div>
+  </div>
+</body>
+</html>`;
+
+  const text = [body, ...sections.map((section) => section.text.trim())].filter(Boolean).join("\n\n");
+
+  return { subject, html, text };
+}
+
+export interface ReportRugSummary {
+  rugNumber: string;
+  rugType: string;
+  dimensions: string;
+}
+
+// The rug table under a report email; send-report-email and its preview both use it
+export function reportRugsSection(rugs: ReportRugSummary[], hasAttachment: boolean): EmailSection {
+  const cell = "padding: 12px; border-bottom: 1px solid #e5e7eb;";
+  const head = "padding: 12px; text-align: left; border-bottom: 2px solid #e5e7eb;";
+  const rows = rugs.map((r) =>
+    `<tr><td style="${cell}">${escapeHtml(r.rugNumber)}</td><td style="${cell}">${escapeHtml(r.rugType)}</td><td style="${cell}">${escapeHtml(r.dimensions)}</td></tr>`
+  ).join("");
+
+  const html = `<div style="margin: 30px 0;">
+  <h2 style="color: #1f2937; font-size: 18px; margin: 0 0 15px; border-bottom: 2px solid #3b82f6; padding-bottom: 10px;">Rug Summary</h2>
+  <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+    <thead><tr style="background: #f9fafb;"><th style="${head}">Rug #</th><th style="${head}">Type</th><th style="${head}">Dimensions</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</div>${hasAttachment ? `<div style="background: #eff6ff; border-radius: 12px; padding: 20px; margin: 30px 0; text-align: center;"><p style="color: #1e40af; margin: 0;">📎 <strong>Detailed PDF report attached</strong></p></div>` : ""}`;
+
+  const text = [
+    "Rug Summary",
+    ...rugs.map((r) => `- ${r.rugNumber}: ${r.rugType}, ${r.dimensions}`),
+    ...(hasAttachment ? ["", "The detailed PDF report is attached."] : []),
+  ].join("\n");
+
+  return { html, text };
+}
+
+export interface CreditNoteLine {
+  description: string;
+  // Dollars
+  amount: number;
+}
+
+// The refunded lines under a credit note; refund-payment and its preview both use it
+export function creditNoteSection(lines: CreditNoteLine[], total: number, reason?: string | null): EmailSection {
+  const cell = "padding: 8px 0; border-bottom: 1px solid #e5e7eb;";
+  const rows = lines.map((l) =>
+    `<tr><td style="${cell}">${escapeHtml(l.description)}</td><td style="${cell} text-align: right;">${formatEmailAmount(Math.round(l.amount * 100))}</td></tr>`
+  ).join("");
+
+  const html = `<table style="width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 14px;">
+  ${rows}
+  <tr><td style="padding: 12px 0;"><strong>Total refunded</strong></td><td style="padding: 12px 0; text-align: right;"><strong>${formatEmailAmount(Math.round(total * 100))}</strong></td></tr>
+</table>${reason?.trim() ? `<p style="margin: 0 0 15px;"><strong>Reason:</strong> ${escapeHtml(reason.trim())}</p>` : ""}`;
+
+  const text = [
+    ...lines.map((l) => `- ${l.description}: ${formatEmailAmount(Math.round(l.amount * 100))}`),
+    `Total refunded: ${formatEmailAmount(Math.round(total * 100))}`,
+    ...(reason?.trim() ? ["", `Reason: ${reason.trim()}`] : []),
+  ].join("\n");
+
+  return { html, text };
+}
+
+// The client's message, quoted under a new message notification
+export function messageSection(message: string): EmailSection {
+  return {
+    html: `<div style="background: #f9fafb; border-left: 4px solid #3b82f6; padding: 15px 20px; margin: 20px 0; border-radius: 8px; white-space: pre-wrap;">${escapeHtml(message)}</div>`,
+    text: message.split("\n").map((line) => `> ${line}`).join("\n"),
+  };
+}
+
+// Label/value rows, e.g. a payout's status and reference
+export function detailsSection(rows: [string, string][]): EmailSection {
+  const cell = "padding: 10px 0; border-bottom: 1px solid #e5e7eb;";
+  const html = `<table style="width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 14px;">${rows.map(([label, value]) =>
+    `<tr><td style="${cell} color: #6b7280;">${escapeHtml(label)}</td><td style="${cell} text-align: right;">${escapeHtml(value)}</td></tr>`
+  ).join("")}</table>`;
+
+  return { html, text: rows.map(([label, value]) => `${label}: ${value}`).join("\n") };
+}
+
+export const formatRugCount = (count: number) => `${count} rug${count === 1 ? "" : "s"}`;
+
+export const formatEmailAmount = (cents: number) => `$${(cents / 100).toFixed(2)}`;
@@ -0,0 +1,92 @@
+// Follow-up reminder rules, shared by the send-follow-up-reminders function and the
+// settings page (as '@shared/followUps').
+//
+// A job waits on at most one reminder at a time: the invite until the client opens
+// the portal, then the estimate until they approve, then an unpaid balance invoice.
+// Each kind's clock starts when the invite or invoice went out, and only the
+// reminders sent since then count towards the business's cadence.
+//
+// Keep this file free of imports so it runs unchanged under Deno and Vite.
+
+// Also the email template each reminder is written with
+export type ReminderKind = "invite_reminder" | "estimate_reminder" | "balance_reminder";
+
+export interface ReminderCadence {
+  kind: ReminderKind;
+  isActive: boolean;
+  firstAfterDays: number;
+  repeatEveryDays: number;
+  maxReminders: number;
+}
+
+export const REMINDER_KINDS: Record<ReminderKind, { label: string; description: string }> = {
+  invite_reminder: {
+    label: "Unopened portal invite",
+    description: "The client hasn't opened the portal link we sent them",
+  },
+  estimate_reminder: {
+    label: "Unapproved estimate",
+    description: "The client has seen their estimate but not approved it",
+  },
+  balance_reminder: {
+    label: "Unpaid balance",
+    description: "A balance invoice has been sent and not paid",
+  },
+};
+
+export const REMINDER_KIND_ORDER = Object.keys(REMINDER_KINDS) as ReminderKind[];
+
+// Used until the business saves its own; reminders stay off until they switch them on
+export const DEFAULT_REMINDER_CADENCES: Record<ReminderKind, ReminderCadence> = {
+  invite_reminder: { kind: "invite_reminder", isActive: false, firstAfterDays: 3, repeatEveryDays: 3, maxReminders: 2 },
+  estimate_reminder: { kind: "estimate_reminder", isActive: false, firstAfterDays: 5, repeatEveryDays: 5, maxReminders: 2 },
+  balance_reminder: { kind: "balance_reminder", isActive: false, firstAfterDays: 7, repeatEveryDays: 7, maxReminders: 3 },
+};
+
+// Where a job stands with its client
+export interface FollowUpState {
+  // Latest portal invite email, while its link is still valid
+  inviteSentAt: string | null;
+  portalOpenedAt: string | null;
+  approvedAt: string | null;
+  // Unpaid balance invoice
+  balanceSentAt: string | null;
+}
+
+// The reminder a job is waiting on and when its clock started, or null when the
+// client has nothing outstanding
+export function pendingReminder(state: FollowUpState): { kind: ReminderKind; since: string } | null {
+  if (state.balanceSentAt) return { kind: "balance_reminder", since: state.balanceSentAt };
+  if (state.approvedAt || !state.inviteSentAt) return null;
+  if (state.portalOpenedAt) return { kind: "estimate_reminder", since: state.inviteSentAt };
+  return { kind: "invite_reminder", since: state.inviteSentAt };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (from: string, days: number) => new Date(Date.parse(from) + days * DAY_MS);
+
+// When the next reminder is due, given those already sent since the clock started
+// (oldest first), or null once the cadence has run out or is switched off
+export function nextReminderAt(cadence: ReminderCadence, since: string, sentAt: string[]): Date | null {
+  if (!cadence.isActive || sentAt.length >= cadence.maxReminders) return null;
+  if (sentAt.length === 0) return addDays(since, cadence.firstAfterDays);
+  return addDays(sentAt[sentAt.length - 1], cadence.repeatEveryDays);
+}
+
+// Staff check in one repeat after each reminder; after the last one that's their
+// cue to call the client themselves
+export const followUpAfter = (cadence: ReminderCadence, sentAt: string) =>
+  addDays(sentAt, cadence.repeatEveryDays);
+
+// The note left on the job after a reminder goes out
+export function reminderNote(kind: ReminderKind, count: number, maxReminders: number): string {
+  const label = REMINDER_KINDS[kind].label;
+  return count >= maxReminders
+    ? `${label}: no reply after ${count} reminder${count === 1 ? "" : "s"}, contact the client`
+    : `${label}: reminder ${count} of ${maxReminders} sent`;
+}
+
+// Whether a follow-up note was left by a reminder rather than written by staff
+export const isReminderNote = (note: string | null) =>
+  !!note && REMINDER_KIND_ORDER.some((kind) => note.startsWith(`${REMINDER_KINDS[kind].label}: `));
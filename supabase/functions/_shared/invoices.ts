@@ -0,0 +1,126 @@
+// Invoice line items as stored on invoices.line_items and jobs.agreed_line_items.
+// Service lines are copied from approved_estimates when the client checks out, so an
+// invoice keeps the prices it was issued with even if the estimate changes later.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { roundCents } from "./payments.ts";
+import type { TaxLine } from "./tax.ts";
+import type { AppliedDiscount, DiscountInput, DiscountSource, DiscountTerms } from "./discounts.ts";
+
+export type { TaxLine };
+
+export type InvoiceLineKind = "service" | "deposit" | "discount" | "credit";
+
+export interface InvoiceLine {
+  kind: InvoiceLineKind;
+  description: string;
+  rugNumber?: string;
+  serviceId?: string;
+  quantity: number;
+  unitPrice: number;
+  // Negative for discounts and credits
+  amount: number;
+  taxExempt?: boolean;
+  // Discount lines: who gave it, for reporting
+  discountSource?: DiscountSource;
+}
+
+// What the portal sends: the services the client kept on each rug's estimate
+export interface ServiceSelection {
+  rugNumber: string;
+  estimateId?: string;
+  services: { id: string }[];
+}
+
+interface EstimateRow {
+  id: string;
+  services: unknown;
+  discount: unknown;
+  inspections: { rug_number: string } | null;
+}
+
+interface EstimateService {
+  id: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  taxExempt?: boolean;
+}
+
+export const sumLines = (lines: InvoiceLine[], kinds: InvoiceLineKind[]) =>
+  roundCents(lines.filter((l) => kinds.includes(l.kind)).reduce((sum, l) => sum + l.amount, 0));
+
+// Prices and rug discounts come from the approved estimates, never from the browser.
+// Throws when the selection names a service that isn't on the job's estimates.
+export async function approvedSelection(
+  supabaseAdmin: SupabaseClient,
+  jobId: string,
+  selection: ServiceSelection[],
+): Promise<{ lines: InvoiceLine[]; rugDiscounts: DiscountInput[] }> {
+  const { data: estimates, error } = await supabaseAdmin
+    .from("approved_estimates")
+    .select("id, services, discount, inspections ( rug_number )")
+    .eq("job_id", jobId);
+
+  if (error) throw error;
+
+  const lines: InvoiceLine[] = [];
+  const rugDiscounts: DiscountInput[] = [];
+  for (const rug of selection) {
+    const estimate = ((estimates || []) as unknown as EstimateRow[]).find((e) =>
+      rug.estimateId ? e.id === rug.estimateId : e.inspections?.rug_number === rug.rugNumber
+    );
+    if (!estimate) throw new Error(`No approved estimate for ${rug.rugNumber}`);
+
+    const services = (Array.isArray(estimate.services) ? estimate.services : []) as EstimateService[];
+    const discount = estimate.discount as DiscountTerms | null;
+    if (discount && rug.services.length > 0) {
+      rugDiscounts.push({ ...discount, source: "manual", rugNumber: rug.rugNumber });
+    }
+    for (const selected of rug.services) {
+      const service = services.find((s) => s.id === selected.id);
+      if (!service) throw new Error(`A selected service is no longer on the estimate for ${rug.rugNumber}`);
+
+      lines.push({
+        kind: "service",
+        description: service.name,
+        rugNumber: rug.rugNumber,
+        serviceId: service.id,
+        quantity: Number(service.quantity),
+        unitPrice: Number(service.unitPrice),
+        amount: roundCents(Number(service.quantity) * Number(service.unitPrice)),
+        ...(service.taxExempt ? { taxExempt: true } : {}),
+      });
+    }
+  }
+
+  return { lines, rugDiscounts };
+}
+
+export const discountLines = (discounts: AppliedDiscount[]): InvoiceLine[] =>
+  discounts.map((d) => ({
+    kind: "discount",
+    description: d.description,
+    ...(d.rugNumber ? { rugNumber: d.rugNumber } : {}),
+    quantity: 1,
+    unitPrice: -d.amount,
+    amount: -d.amount,
+    discountSource: d.source,
+  }));
+
+// The shape refund-payment reads back from payments.metadata.selectedServices
+export const linesToSelectedServices = (lines: InvoiceLine[]) => {
+  const rugs = new Map<string, { rugNumber: string; services: EstimateService[] }>();
+  for (const line of lines.filter((l) => l.kind === "service")) {
+    const rugNumber = line.rugNumber || "";
+    if (!rugs.has(rugNumber)) rugs.set(rugNumber, { rugNumber, services: [] });
+    rugs.get(rugNumber)!.services.push({
+      id: line.serviceId || line.description,
+      name: line.description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      taxExempt: !!line.taxExempt,
+    });
+  }
+  return [...rugs.values()];
+};
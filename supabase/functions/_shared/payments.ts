@@ -0,0 +1,523 @@
+// Payment state changes shared by verify-payment (the client's browser returning
+// from Checkout) and stripe-webhook (Stripe telling us directly). Either may run
+// first, or both at once, so every update here is conditional on the current
+// payment status and the side effects only run for the call that wins.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+// The parts of a Stripe Checkout Session / PaymentIntent / Charge we rely on.
+// Kept structural so recorded fixture events can be fed straight in.
+export interface CheckoutSessionLike {
+  id: string;
+  amount_total: number | null;
+  payment_status: string;
+  payment_intent: string | { id: string } | null;
+  metadata?: Record<string, string> | null;
+}
+
+export interface PaymentIntentLike {
+  id: string;
+  metadata?: Record<string, string> | null;
+  last_payment_error?: { message?: string | null } | null;
+}
+
+export interface ChargeLike {
+  id: string;
+  payment_intent: string | { id: string } | null;
+  amount_refunded: number;
+}
+
+export interface CheckoutCompletion {
+  // false when an earlier call had already recorded this payment
+  processed: boolean;
+  jobId: string;
+  jobNumber: string;
+  clientName: string;
+}
+
+const stripeId = (value: string | { id: string } | null): string | null =>
+  typeof value === "string" ? value : value?.id ?? null;
+
+export const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Admin-configured share of each payment the platform keeps
+export async function getPlatformFeePercentage(supabaseAdmin: SupabaseClient): Promise<number> {
+  const { data } = await supabaseAdmin
+    .from("platform_settings")
+    .select("setting_value")
+    .eq("setting_key", "platform_fee_percentage")
+    .maybeSingle();
+
+  const percentage = parseFloat(data?.setting_value ?? "");
+  return isNaN(percentage) ? 10 : percentage;
+}
+
+// Marks the Checkout Session's payment as completed and moves the job along.
+// Returns null when the session isn't one of ours.
+export async function completeCheckoutPayment(
+  supabaseAdmin: SupabaseClient,
+  session: CheckoutSessionLike,
+): Promise<CheckoutCompletion | null> {
+  const paidAt = new Date().toISOString();
+
+  // Claim the payment: only one caller gets the row back
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from("payments")
+    .update({
+      status: "completed",
+      stripe_payment_intent_id: stripeId(session.payment_intent),
+      paid_at: paidAt,
+      failure_reason: null,
+    })
+    .eq("stripe_checkout_session_id", session.id)
+    .in("status", ["pending", "failed"])
+    .select("job_id, invoice_id");
+
+  if (claimError) throw claimError;
+
+  let jobId = claimed?.[0]?.job_id as string | undefined;
+  const invoiceId = (claimed?.[0]?.invoice_id as string | null) ?? null;
+  const processed = !!jobId;
+
+  if (!jobId) {
+    const { data: existing } = await supabaseAdmin
+      .from("payments")
+      .select("job_id")
+      .eq("stripe_checkout_session_id", session.id)
+      .maybeSingle();
+
+    if (!existing) return null;
+    jobId = existing.job_id as string;
+  }
+
+  const { data: job } = await supabaseAdmin
+    .from("jobs")
+    .select("job_number, client_name, client_email, user_id, agreed_total, client_approved_at")
+    .eq("id", jobId)
+    .single();
+
+  if (processed) {
+    const amount = (session.amount_total || 0) / 100;
+    const feePercentage = await getPlatformFeePercentage(supabaseAdmin);
+    await supabaseAdmin
+      .from("payments")
+      .update({ platform_fee: roundCents(amount * feePercentage / 100) })
+      .eq("stripe_checkout_session_id", session.id);
+
+    await runPaymentSideEffects(supabaseAdmin, jobId, job, invoiceId, session.amount_total || 0, paidAt);
+  }
+
+  return {
+    processed,
+    jobId,
+    jobNumber: job?.job_number || "",
+    clientName: job?.client_name || "",
+  };
+}
+
+// An approved_estimates row with its rug, as selected for the confirmation email
+interface ApprovedEstimateSummary {
+  id: string;
+  services: unknown;
+  total_amount: number | null;
+  inspection_id: string;
+  inspections: {
+    rug_number: string;
+    rug_type: string;
+    length: number | null;
+    width: number | null;
+  } | null;
+}
+
+interface JobSummary {
+  job_number: string;
+  client_name: string;
+  client_email: string | null;
+  user_id: string;
+  agreed_total: number | null;
+  client_approved_at: string | null;
+}
+
+// 'paid' once the payments cover the total the client agreed to at checkout,
+// 'deposit_paid' while a balance is still to come
+export async function jobPaymentStatus(
+  supabaseAdmin: SupabaseClient,
+  jobId: string,
+  agreedTotal: number | null,
+): Promise<string> {
+  if (agreedTotal == null) return "paid";
+
+  const { data: payments } = await supabaseAdmin
+    .from("payments")
+    .select("amount")
+    .eq("job_id", jobId)
+    .in("status", ["completed", "partially_refunded", "refunded"]);
+
+  const charged = (payments || []).reduce((sum, p) => sum + Number(p.amount), 0);
+  return charged >= Number(agreedTotal) - 0.005 ? "paid" : "deposit_paid";
+}
+
+async function runPaymentSideEffects(
+  supabaseAdmin: SupabaseClient,
+  jobId: string,
+  job: JobSummary | null,
+  invoiceId: string | null,
+  amountCents: number,
+  paidAt: string,
+) {
+  // Update job status. The first payment (deposit or full) is the client's approval.
+  const paymentStatus = await jobPaymentStatus(supabaseAdmin, jobId, job?.agreed_total ?? null);
+  const { error: jobError } = await supabaseAdmin
+    .from("jobs")
+    .update({
+      payment_status: paymentStatus,
+      client_approved_at: job?.client_approved_at || paidAt,
+    })
+    .eq("id", jobId);
+
+  if (jobError) {
+    console.error("Error updating job:", jobError);
+  }
+
+  // Move the job along the business's status pipeline (its payment step, if it has one)
+  const { error: statusError } = await supabaseAdmin.rpc("advance_job_on_payment", { _job_id: jobId });
+
+  if (statusError) {
+    console.error("Error advancing job status:", statusError);
+  }
+
+  // Get business profile
+  let profile = null;
+  if (job?.user_id) {
+    const { data: profileData } = await supabaseAdmin
+      .from("profiles")
+      .select("business_email, business_name, business_phone")
+      .eq("user_id", job.user_id)
+      .single();
+    profile = profileData;
+  }
+
+  // Get approved estimates with services for this job
+  const { data: estimates } = await supabaseAdmin
+    .from("approved_estimates")
+    .select(`
+      id,
+      services,
+      total_amount,
+      inspection_id,
+      inspections (
+        rug_number,
+        rug_type,
+        length,
+        width
+      )
+    `)
+    .eq("job_id", jobId);
+
+  // Format rug details for the email
+  const rugs = ((estimates || []) as unknown as ApprovedEstimateSummary[]).map((est) => ({
+    rugNumber: est.inspections?.rug_number || "Unknown",
+    rugType: est.inspections?.rug_type || "Unknown",
+    dimensions: est.inspections?.length && est.inspections?.width
+      ? `${est.inspections.length}' × ${est.inspections.width}'`
+      : "N/A",
+    services: Array.isArray(est.services) ? est.services : [],
+    total: est.total_amount || 0,
+  }));
+
+  // Create in-app notification for staff
+  if (job?.user_id) {
+    try {
+      const formattedAmount = (amountCents / 100).toFixed(2);
+      await supabaseAdmin
+        .from("notifications")
+        .insert({
+          user_id: job.user_id,
+          type: "payment_received",
+          title: `Payment Received - $${formattedAmount}`,
+          message: `${job.client_name} has paid for Job #${job.job_number}. The job is now in progress.`,
+          metadata: {
+            jobId: jobId,
+            jobNumber: job.job_number,
+            clientName: job.client_name,
+            amount: amountCents,
+          },
+        });
+      console.log("In-app notification created");
+    } catch (notifError) {
+      console.log("In-app notification error:", notifError);
+    }
+  }
+
+  // Send email notification to business owner
+  if (job && profile?.business_email) {
+    try {
+      await supabaseAdmin.functions.invoke("notify-payment-received", {
+        body: {
+          to: profile.business_email,
+          jobId,
+          businessName: profile.business_name,
+          businessPhone: profile.business_phone,
+          jobNumber: job.job_number,
+          clientName: job.client_name,
+          amount: amountCents,
+        },
+      });
+      console.log("Staff email notification sent");
+    } catch (notifyError) {
+      console.log("Staff email notification error:", notifyError);
+    }
+  }
+
+  // Generate invoice PDF and send confirmation email to client
+  if (job?.client_email) {
+    try {
+      // Render the invoice this payment settled (numbered by now)
+      let pdfBase64: string | undefined;
+      try {
+        const { data: pdfData, error: pdfError } = invoiceId
+          ? await supabaseAdmin.functions.invoke("generate-invoice-pdf", { body: { invoiceId } })
+          : { data: null, error: "Payment has no invoice" };
+
+        if (pdfError) {
+          console.log("Invoice PDF generation error:", pdfError);
+        } else if (pdfData?.pdfBase64) {
+          pdfBase64 = pdfData.pdfBase64;
+          console.log("Invoice PDF generated successfully");
+        }
+      } catch (pdfGenError) {
+        console.log("Invoice PDF generation failed:", pdfGenError);
+      }
+
+      // Send confirmation email with PDF attachment
+      await supabaseAdmin.functions.invoke("send-client-confirmation", {
+        body: {
+          clientEmail: job.client_email,
+          clientName: job.client_name,
+          jobId: jobId,
+          jobNumber: job.job_number,
+          amount: amountCents,
+          rugs: rugs,
+          businessName: profile?.business_name,
+          businessEmail: profile?.business_email,
+          businessPhone: profile?.business_phone,
+          pdfBase64: pdfBase64,
+        },
+      });
+      console.log("Client confirmation sent");
+    } catch (clientError) {
+      console.log("Client confirmation error:", clientError);
+    }
+  }
+}
+
+// A checkout's draft invoice holds one use of its coupon. Once the checkout can no
+// longer be paid the draft is voided, which gives that use back.
+async function releaseDraftInvoices(
+  supabaseAdmin: SupabaseClient,
+  payments: { invoice_id: string | null }[],
+): Promise<void> {
+  const invoiceIds = payments.map((payment) => payment.invoice_id).filter((id): id is string => !!id);
+  if (invoiceIds.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from("invoices")
+    .update({ status: "void" })
+    .in("id", invoiceIds)
+    .eq("status", "draft");
+
+  if (error) throw error;
+}
+
+// The client abandoned Checkout. Returns whether a pending payment was closed.
+export async function expireCheckoutPayment(
+  supabaseAdmin: SupabaseClient,
+  session: Pick<CheckoutSessionLike, "id">,
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("payments")
+    .update({ status: "expired" })
+    .eq("stripe_checkout_session_id", session.id)
+    .eq("status", "pending")
+    .select("id, invoice_id");
+
+  if (error) throw error;
+  await releaseDraftInvoices(supabaseAdmin, data ?? []);
+  return (data?.length ?? 0) > 0;
+}
+
+// A delayed payment method (ACH debit, bank transfer) came back unpaid after the
+// session completed. That session is finished, so the client starts a new checkout.
+export async function failCheckoutPayment(
+  supabaseAdmin: SupabaseClient,
+  session: CheckoutSessionLike,
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("payments")
+    .update({
+      status: "failed",
+      stripe_payment_intent_id: stripeId(session.payment_intent),
+      failure_reason: "The bank payment did not go through",
+    })
+    .eq("stripe_checkout_session_id", session.id)
+    .in("status", ["pending", "failed"])
+    .select("id, invoice_id");
+
+  if (error) throw error;
+  await releaseDraftInvoices(supabaseAdmin, data ?? []);
+  return (data?.length ?? 0) > 0;
+}
+
+// A card attempt was declined. The Checkout Session stays open, so the client can
+// still retry and a later completion flips the payment back to completed.
+export async function failPaymentIntent(
+  supabaseAdmin: SupabaseClient,
+  paymentIntent: PaymentIntentLike,
+): Promise<boolean> {
+  const failure = {
+    status: "failed",
+    stripe_payment_intent_id: paymentIntent.id,
+    failure_reason: paymentIntent.last_payment_error?.message || null,
+  };
+
+  const { data: byIntent, error } = await supabaseAdmin
+    .from("payments")
+    .update(failure)
+    .eq("stripe_payment_intent_id", paymentIntent.id)
+    .in("status", ["pending", "failed"])
+    .select("id");
+
+  if (error) throw error;
+  if (byIntent && byIntent.length > 0) return true;
+
+  // First failure for this intent: find the job's open payment from the metadata
+  // create-checkout-session puts on the PaymentIntent
+  const jobId = paymentIntent.metadata?.jobId;
+  if (!jobId) return false;
+
+  const { data: byJob, error: jobError } = await supabaseAdmin
+    .from("payments")
+    .update(failure)
+    .eq("job_id", jobId)
+    .eq("status", "pending")
+    .select("id");
+
+  if (jobError) throw jobError;
+  return (byJob?.length ?? 0) > 0;
+}
+
+export interface RefundablePayment {
+  id: string;
+  job_id: string;
+  amount: number;
+  amount_refunded: number;
+}
+
+// A job's payment status once refunds are counted, worked out over all of its
+// payments: fully refunding the deposit leaves the job partially refunded while the
+// balance payment stands. null when nothing has been refunded.
+export async function jobRefundStatus(
+  supabaseAdmin: SupabaseClient,
+  jobId: string,
+): Promise<string | null> {
+  const { data: payments, error } = await supabaseAdmin
+    .from("payments")
+    .select("amount, amount_refunded")
+    .eq("job_id", jobId)
+    .in("status", ["completed", "partially_refunded", "refunded"]);
+
+  if (error) throw error;
+
+  const charged = (payments || []).reduce((sum, p) => sum + Number(p.amount), 0);
+  const refunded = (payments || []).reduce((sum, p) => sum + Number(p.amount_refunded || 0), 0);
+  if (refunded < 0.005) return null;
+  return charged - refunded < 0.005 ? "refunded" : "partially_refunded";
+}
+
+// Brings a payment, its platform fee and its job in line with the total refunded
+// so far. The fee is recomputed on what the business kept, which hands back the
+// platform's share of every refund. The payment's invoice follows by trigger
+// (sync_invoice_amount_paid), which marks it partially refunded or refunded.
+export async function applyRefundTotal(
+  supabaseAdmin: SupabaseClient,
+  payment: RefundablePayment,
+  totalRefunded: number,
+  feePercentage: number,
+): Promise<string> {
+  const kept = Math.max(0, Number(payment.amount) - totalRefunded);
+  const status = kept < 0.005 ? "refunded" : "partially_refunded";
+
+  const { error } = await supabaseAdmin
+    .from("payments")
+    .update({
+      status,
+      amount_refunded: roundCents(totalRefunded),
+      platform_fee: roundCents(kept * feePercentage / 100),
+    })
+    .eq("id", payment.id);
+
+  if (error) throw error;
+
+  const jobStatus = await jobRefundStatus(supabaseAdmin, payment.job_id);
+  if (jobStatus) {
+    const { error: jobError } = await supabaseAdmin
+      .from("jobs")
+      .update({ payment_status: jobStatus })
+      .eq("id", payment.job_id);
+
+    if (jobError) throw jobError;
+  }
+
+  return status;
+}
+
+// Syncs a refund onto the payment and its job. Refunds made from the staff UI are
+// already recorded by refund-payment; anything beyond those was made in the Stripe
+// dashboard and gets its own refund row. Stripe sends the charge's running refund
+// total, so replays are harmless.
+export async function refundCharge(
+  supabaseAdmin: SupabaseClient,
+  charge: ChargeLike,
+): Promise<boolean> {
+  const paymentIntentId = stripeId(charge.payment_intent);
+  if (!paymentIntentId) return false;
+
+  const { data: payment, error } = await supabaseAdmin
+    .from("payments")
+    .select("id, job_id, amount, amount_refunded")
+    .eq("stripe_payment_intent_id", paymentIntentId)
+    .in("status", ["completed", "partially_refunded", "refunded"])
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!payment) return false;
+
+  const { data: recorded, error: recordedError } = await supabaseAdmin
+    .from("payment_refunds")
+    .select("amount")
+    .eq("payment_id", payment.id)
+    .neq("status", "failed");
+
+  if (recordedError) throw recordedError;
+
+  const totalRefunded = charge.amount_refunded / 100;
+  const recordedTotal = (recorded || []).reduce((sum, r) => sum + Number(r.amount), 0);
+  const untracked = roundCents(totalRefunded - recordedTotal);
+  const feePercentage = await getPlatformFeePercentage(supabaseAdmin);
+
+  if (untracked > 0) {
+    const { error: insertError } = await supabaseAdmin.from("payment_refunds").insert({
+      payment_id: payment.id,
+      job_id: payment.job_id,
+      amount: untracked,
+      platform_fee_reversed: roundCents(untracked * feePercentage / 100),
+      reason: "Refunded in Stripe",
+      status: "succeeded",
+    });
+
+    if (insertError) throw insertError;
+  }
+
+  await applyRefundTotal(supabaseAdmin, payment as RefundablePayment, Math.max(totalRefunded, recordedTotal), feePercentage);
+  return true;
+}
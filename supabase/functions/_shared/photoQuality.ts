@@ -0,0 +1,123 @@
+// Photo quality rules, shared by guided capture and analyze-rug. The app imports them
+// as '@shared/photoQuality'; the on-device measurements are in src/lib/photoQuality.ts.
+//
+// Capture measures each photo and keeps the result on its rug_photos row.
+// Analysis is then told which photos are weak so it leans on the others
+// instead of reading detail into a blurry or dark shot.
+//
+// Keep this file free of imports so it runs unchanged under Deno and Vite.
+
+export type PhotoQualityIssue =
+  | "blurry"
+  | "underexposed"
+  | "overexposed"
+  | "low_resolution"
+  | "rug_not_filling_frame";
+
+export interface PhotoQualityMetrics {
+  // Variance of the Laplacian on the downscaled greyscale image; higher is sharper
+  sharpness: number;
+  // Mean luminance, 0-255
+  brightness: number;
+  // Share of pixels crushed to black / blown to white, 0-1
+  shadowClipping: number;
+  highlightClipping: number;
+  width: number;
+  height: number;
+  // Share of the frame that looks like rug, 0-1; null when the step doesn't need the whole rug
+  coverage: number | null;
+}
+
+export interface PhotoQuality extends PhotoQualityMetrics {
+  // 0-100
+  score: number;
+  issues: PhotoQualityIssue[];
+}
+
+export const PHOTO_QUALITY_THRESHOLDS = {
+  minSharpness: 60,
+  minBrightness: 55,
+  maxBrightness: 215,
+  maxShadowClipping: 0.35,
+  maxHighlightClipping: 0.2,
+  minShortEdge: 1000,
+  minCoverage: 0.55,
+};
+
+export const PHOTO_QUALITY_ISSUES: Record<PhotoQualityIssue, { label: string; hint: string }> = {
+  blurry: {
+    label: "Blurry",
+    hint: "Hold the phone still and tap the screen to focus before taking the photo",
+  },
+  underexposed: {
+    label: "Too dark",
+    hint: "Turn on more lights or move the rug nearer a window",
+  },
+  overexposed: {
+    label: "Too bright",
+    hint: "Avoid direct sunlight and turn off the flash",
+  },
+  low_resolution: {
+    label: "Low resolution",
+    hint: "Use the camera rather than a screenshot or a resized image",
+  },
+  rug_not_filling_frame: {
+    label: "Rug doesn't fill the frame",
+    hint: "Step closer so the rug fills most of the photo",
+  },
+};
+
+export function photoQualityIssues(metrics: PhotoQualityMetrics): PhotoQualityIssue[] {
+  const t = PHOTO_QUALITY_THRESHOLDS;
+  const issues: PhotoQualityIssue[] = [];
+
+  if (metrics.sharpness < t.minSharpness) issues.push("blurry");
+  if (metrics.brightness < t.minBrightness || metrics.shadowClipping > t.maxShadowClipping) {
+    issues.push("underexposed");
+  } else if (metrics.brightness > t.maxBrightness || metrics.highlightClipping > t.maxHighlightClipping) {
+    issues.push("overexposed");
+  }
+  if (Math.min(metrics.width, metrics.height) < t.minShortEdge) issues.push("low_resolution");
+  if (metrics.coverage !== null && metrics.coverage < t.minCoverage) issues.push("rug_not_filling_frame");
+
+  return issues;
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Sharpness counts most, since blur is what hides damage; a photo with no issues
+// scores at least 70
+export function photoQualityScore(metrics: PhotoQualityMetrics): number {
+  const t = PHOTO_QUALITY_THRESHOLDS;
+  const sharpness = clamp01(metrics.sharpness / (t.minSharpness * 3));
+  const exposure = clamp01(1 - Math.abs(metrics.brightness - 128) / 128)
+    * clamp01(1 - metrics.shadowClipping - metrics.highlightClipping);
+  const resolution = clamp01(Math.min(metrics.width, metrics.height) / (t.minShortEdge * 1.5));
+  const coverage = metrics.coverage === null ? 1 : clamp01(metrics.coverage / t.minCoverage);
+
+  const raw = sharpness * 45 + exposure * 25 + resolution * 15 + coverage * 15;
+  const score = photoQualityIssues(metrics).length === 0 ? Math.max(raw, 70) : Math.min(raw, 69);
+  return Math.round(score);
+}
+
+export function gradePhotoQuality(metrics: PhotoQualityMetrics): PhotoQuality {
+  return { ...metrics, score: photoQualityScore(metrics), issues: photoQualityIssues(metrics) };
+}
+
+// For the analysis prompt: which photos to trust less, or "" when they're all fine.
+// Photos taken before quality checks existed have no entry and aren't mentioned.
+export function photoQualityNote(qualities: (Pick<PhotoQuality, "score" | "issues"> | null | undefined)[]): string {
+  const weak = qualities
+    .map((quality, index) => ({ quality, index }))
+    .filter(({ quality }) => quality && quality.issues.length > 0);
+  if (weak.length === 0) return "";
+
+  const lines = weak.map(({ quality, index }) =>
+    `- Photo ${index + 1}: ${quality!.issues.map((issue) => PHOTO_QUALITY_ISSUES[issue]?.label.toLowerCase() ?? issue).join(", ")} (quality ${quality!.score}/100)`
+  );
+  return [
+    "PHOTO QUALITY:",
+    ...lines,
+    "Give these photos less weight. Don't report fine detail such as fibre damage or small stains from them alone; say when a finding needs confirming in person.",
+  ].join("\n");
+}
@@ -0,0 +1,219 @@
+// Deterministic pricing engine shared by the analyze-rug edge function and the
+// web app (as '@shared/pricing'). The AI only chooses which
+// services a rug needs; every dollar amount is recomputed here from the
+// business's service_prices so estimates always match the price list.
+//
+// Keep this file free of imports so it runs unchanged under Deno and Vite.
+
+export type PricingUnit = "sq_ft" | "linear_ft" | "each" | "flat";
+
+export interface PriceListEntry {
+  name: string;
+  unitPrice: number;
+  unit: PricingUnit;
+  minimumCharge?: number | null;
+}
+
+export interface RugDimensions {
+  length: number | null | undefined;
+  width: number | null | undefined;
+}
+
+export interface ServicePriceQuote {
+  // Price of one unit of the estimate line (quantity is applied on top)
+  unitPrice: number;
+  rate: number;
+  unit: PricingUnit;
+  // Square feet, perimeter feet, or 1 for each/flat services
+  measure: number;
+  minimumApplied: boolean;
+}
+
+export interface PricedLine {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export type RepricedLine<T extends PricedLine> = T & {
+  pricing: ServicePriceQuote | null;
+};
+
+export const PRICING_UNIT_LABELS: Record<PricingUnit, string> = {
+  sq_ft: "per sq ft",
+  linear_ft: "per linear ft",
+  each: "each",
+  flat: "flat fee",
+};
+
+export const PRICING_UNIT_SHORT_LABELS: Record<PricingUnit, string> = {
+  sq_ft: "sq ft",
+  linear_ft: "linear ft",
+  each: "ea",
+  flat: "flat",
+};
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const positive = (value: number | null | undefined): number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+
+export function squareFeet(dimensions: RugDimensions): number {
+  return roundCurrency(positive(dimensions.length) * positive(dimensions.width));
+}
+
+export function perimeterFeet(dimensions: RugDimensions): number {
+  const length = positive(dimensions.length);
+  const width = positive(dimensions.width);
+  if (!length || !width) return 0;
+  return roundCurrency(2 * (length + width));
+}
+
+// How many billable units a rug of these dimensions represents
+export function measureForUnit(unit: PricingUnit, dimensions: RugDimensions): number {
+  switch (unit) {
+    case "sq_ft":
+      return squareFeet(dimensions);
+    case "linear_ft":
+      return perimeterFeet(dimensions);
+    default:
+      return 1;
+  }
+}
+
+export function priceService(entry: PriceListEntry, dimensions: RugDimensions): ServicePriceQuote {
+  const rate = positive(entry.unitPrice);
+  const measure = measureForUnit(entry.unit, dimensions);
+  const base = roundCurrency(rate * measure);
+  const minimum = positive(entry.minimumCharge);
+  const minimumApplied = minimum > base;
+
+  return {
+    unitPrice: minimumApplied ? minimum : base,
+    rate,
+    unit: entry.unit,
+    measure,
+    minimumApplied,
+  };
+}
+
+const normalizeName = (name: string): string =>
+  name.toLowerCase().replace(/&/g, "and").replace(/[^a-z0-9]+/g, " ").trim();
+
+/**
+ * Match a service name (as chosen by the AI or typed by staff) to a catalog
+ * entry. Exact matches win; otherwise the longest entry whose name contains,
+ * or is contained in, the line name.
+ */
+export function matchServiceName<E extends { name: string }>(entries: E[], serviceName: string): E | undefined {
+  const target = normalizeName(serviceName);
+  if (!target) return undefined;
+
+  const exact = entries.find((entry) => normalizeName(entry.name) === target);
+  if (exact) return exact;
+
+  let best: E | undefined;
+  let bestLength = 0;
+  for (const entry of entries) {
+    const candidate = normalizeName(entry.name);
+    if (!candidate) continue;
+    if ((target.includes(candidate) || candidate.includes(target)) && candidate.length > bestLength) {
+      best = entry;
+      bestLength = candidate.length;
+    }
+  }
+  return best;
+}
+
+// Same as matchServiceName, skipping services that have no price set
+export function findPriceEntry<E extends PriceListEntry>(priceList: E[], serviceName: string): E | undefined {
+  return matchServiceName(
+    priceList.filter((entry) => positive(entry.unitPrice) > 0 || positive(entry.minimumCharge) > 0),
+    serviceName,
+  );
+}
+
+/**
+ * Recompute every line that matches the price list. Lines with no matching
+ * entry (or that are measured by size on a rug with no dimensions) keep
+ * their existing price and come back with `pricing: null` so the caller can
+ * flag them for review.
+ */
+export function repriceLines<T extends PricedLine>(
+  lines: T[],
+  priceList: PriceListEntry[],
+  dimensions: RugDimensions,
+): RepricedLine<T>[] {
+  return lines.map((line) => {
+    const entry = findPriceEntry(priceList, line.name);
+    if (!entry) return { ...line, pricing: null };
+
+    const pricing = priceService(entry, dimensions);
+    if (pricing.measure === 0 && !pricing.minimumApplied) return { ...line, pricing: null };
+    return { ...line, unitPrice: pricing.unitPrice, pricing };
+  });
+}
+
+export function totalLines(lines: PricedLine[]): number {
+  return roundCurrency(lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0));
+}
+
+// One-line explanation of a quote, e.g. "96 sq ft × $4.00 (minimum $150.00 applied)"
+export function describeQuote(quote: ServicePriceQuote): string {
+  const rate = `$${quote.rate.toFixed(2)}`;
+  let text: string;
+  if (quote.unit === "sq_ft" || quote.unit === "linear_ft") {
+    text = `${quote.measure} ${PRICING_UNIT_SHORT_LABELS[quote.unit]} × ${rate}`;
+  } else {
+    text = `${rate} ${PRICING_UNIT_LABELS[quote.unit]}`;
+  }
+  if (quote.minimumApplied) {
+    text += ` (minimum $${quote.unitPrice.toFixed(2)} applied)`;
+  }
+  return text;
+}
+
+const formatAmount = (value: number): string =>
+  `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Where the estimate letter's itemized prices go. The model writes this line
+// instead of figures of its own, and analyze-rug fills it from the repriced lines.
+export const PRICE_BREAKDOWN_PLACEHOLDER = "[PRICE BREAKDOWN]";
+
+// The letter's breakdown in the layout parseLegacyReportServices reads, e.g.
+// "Rug #1: Persian (8' x 10')" followed by one "Service: $amount" line per service
+export function formatPriceBreakdown(rugHeading: string, lines: PricedLine[]): string {
+  const total = totalLines(lines);
+  return [
+    "RUG BREAKDOWN AND SERVICES",
+    rugHeading,
+    ...lines.map((line) => {
+      const name = line.quantity === 1 ? line.name : `${line.name} (x${line.quantity})`;
+      return `${name}: ${formatAmount(roundCurrency(line.quantity * line.unitPrice))}`;
+    }),
+    `Subtotal: ${formatAmount(total)}`,
+    "",
+    `TOTAL ESTIMATE: ${formatAmount(total)}`,
+  ].join("\n");
+}
+
+const DOLLAR_AMOUNT = /\$\s?\d/;
+
+/**
+ * Put the breakdown into the letter so its prices are the ones on the estimate.
+ * Any line that still quotes a dollar amount is the model's own figure and is
+ * dropped. A letter without the placeholder gets the breakdown before its sign-off.
+ */
+export function letterWithPrices(letter: string, breakdown: string): string {
+  const lines = letter.split("\n").filter((line) => !DOLLAR_AMOUNT.test(line));
+
+  const placeholder = lines.findIndex((line) => line.includes(PRICE_BREAKDOWN_PLACEHOLDER));
+  if (placeholder >= 0) {
+    lines.splice(placeholder, 1, breakdown);
+    return lines.filter((line) => !line.includes(PRICE_BREAKDOWN_PLACEHOLDER)).join("\n");
+  }
+
+  const signOff = lines.findIndex((line) => /^\s*sincerely/i.test(line));
+  lines.splice(signOff >= 0 ? signOff : lines.length, 0, breakdown, "");
+  return lines.join("\n");
+}
@@ -0,0 +1,184 @@
+// Push delivery through Firebase Cloud Messaging and APNs, for the push-dispatch
+// function. Android and web tokens go through FCM, iOS tokens straight to APNs. A
+// platform whose credentials aren't configured fails its sends without touching
+// the tokens.
+
+import { decode as decodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import { encode as encodeBase64Url } from "https://deno.land/std@0.190.0/encoding/base64url.ts";
+import { createStubPushProvider, type PushProvider } from "./pushDispatch.ts";
+
+const jsonBytes = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+
+const pemBytes = (pem: string) =>
+  decodeBase64(pem.replace(/-----[A-Z ]+-----/g, "").replace(/\\n/g, "").replace(/\s/g, ""));
+
+async function signJwt(
+  header: Record<string, string>,
+  claims: Record<string, unknown>,
+  key: CryptoKey,
+  algorithm: AlgorithmIdentifier | EcdsaParams,
+): Promise<string> {
+  const unsigned = `${encodeBase64Url(jsonBytes(header))}.${encodeBase64Url(jsonBytes(claims))}`;
+  const signature = await crypto.subtle.sign(algorithm, key, new TextEncoder().encode(unsigned));
+  return `${unsigned}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
+
+interface FcmServiceAccount {
+  project_id: string;
+  client_email: string;
+  private_key: string;
+}
+
+// FCM HTTP v1, authenticated with a service account's OAuth token
+export function createFcmProvider(serviceAccount: FcmServiceAccount): PushProvider {
+  let accessToken: { value: string; expiresAt: number } | null = null;
+
+  const getAccessToken = async () => {
+    if (accessToken && accessToken.expiresAt > Date.now() + 60_000) return accessToken.value;
+
+    const key = await crypto.subtle.importKey(
+      "pkcs8",
+      pemBytes(serviceAccount.private_key),
+      { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = await signJwt(
+      { alg: "RS256", typ: "JWT" },
+      {
+        iss: serviceAccount.client_email,
+        scope: "https://www.googleapis.com/auth/firebase.messaging",
+        aud: "https://oauth2.googleapis.com/token",
+        iat: now,
+        exp: now + 3600,
+      },
+      key,
+      { name: "RSASSA-PKCS1-v1_5" },
+    );
+
+    const response = await fetch("https://oauth2.googleapis.com/token", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer", assertion }),
+    });
+    const body = await response.json();
+    if (!response.ok) throw new Error(`FCM auth failed: ${body.error_description || body.error}`);
+
+    accessToken = { value: body.access_token, expiresAt: Date.now() + body.expires_in * 1000 };
+    return accessToken.value;
+  };
+
+  return {
+    send: async (token, _platform, message) => {
+      const response = await fetch(
+        `https://fcm.googleapis.com/v1/projects/${serviceAccount.project_id}/messages:send`,
+        {
+          method: "POST",
+          headers: { Authorization: `Bearer ${await getAccessToken()}`, "Content-Type": "application/json" },
+          body: JSON.stringify({
+            message: { token, notification: { title: message.title, body: message.body }, data: message.data },
+          }),
+        },
+      );
+      if (response.ok) return { ok: true };
+
+      const body = await response.json().catch(() => ({}));
+      const errorCode = body.error?.details?.find((d: { errorCode?: string }) => d.errorCode)?.errorCode;
+      return {
+        ok: false,
+        invalidToken: response.status === 404 || errorCode === "UNREGISTERED" || errorCode === "INVALID_ARGUMENT",
+        error: body.error?.message || `FCM responded ${response.status}`,
+      };
+    },
+  };
+}
+
+interface ApnsConfig {
+  keyId: string;
+  teamId: string;
+  // Contents of the .p8 signing key
+  privateKey: string;
+  bundleId: string;
+  production: boolean;
+}
+
+// APNs over HTTP/2 with a token-based (.p8) provider key
+export function createApnsProvider(config: ApnsConfig): PushProvider {
+  let providerToken: { value: string; issuedAt: number } | null = null;
+  const host = config.production ? "https://api.push.apple.com" : "https://api.sandbox.push.apple.com";
+
+  // Apple wants the token refreshed at most every 20 minutes and at least every hour
+  const getProviderToken = async () => {
+    if (providerToken && Date.now() - providerToken.issuedAt < 30 * 60_000) return providerToken.value;
+
+    const key = await crypto.subtle.importKey(
+      "pkcs8",
+      pemBytes(config.privateKey),
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["sign"],
+    );
+    const value = await signJwt(
+      { alg: "ES256", kid: config.keyId },
+      { iss: config.teamId, iat: Math.floor(Date.now() / 1000) },
+      key,
+      { name: "ECDSA", hash: "SHA-256" },
+    );
+    providerToken = { value, issuedAt: Date.now() };
+    return value;
+  };
+
+  return {
+    send: async (token, _platform, message) => {
+      const response = await fetch(`${host}/3/device/${token}`, {
+        method: "POST",
+        headers: {
+          authorization: `bearer ${await getProviderToken()}`,
+          "apns-topic": config.bundleId,
+          "apns-push-type": "alert",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          aps: { alert: { title: message.title, body: message.body }, sound: "default" },
+          ...message.data,
+        }),
+      });
+      if (response.ok) return { ok: true };
+
+      const body = await response.json().catch(() => ({}));
+      const reason: string = body.reason || `APNs responded ${response.status}`;
+      return {
+        ok: false,
+        invalidToken: response.status === 410 || reason === "BadDeviceToken" || reason === "DeviceTokenNotForTopic",
+        error: reason,
+      };
+    },
+  };
+}
+
+const notConfigured = (platform: string): PushProvider => ({
+  send: async () => ({ ok: false, invalidToken: false, error: `Push for ${platform} is not configured` }),
+});
+
+// Providers from the function's environment: FCM_SERVICE_ACCOUNT (the service account
+// JSON) for Android and web; APNS_KEY_ID, APNS_TEAM_ID, APNS_PRIVATE_KEY, APNS_BUNDLE_ID
+// and APNS_PRODUCTION for iOS
+export function createPushProvider(): PushProvider {
+  if (Deno.env.get("PUSH_PROVIDER") === "stub") return createStubPushProvider();
+
+  const serviceAccount = Deno.env.get("FCM_SERVICE_ACCOUNT");
+  const fcm = serviceAccount ? createFcmProvider(JSON.parse(serviceAccount)) : notConfigured("Android and web");
+
+  const keyId = Deno.env.get("APNS_KEY_ID");
+  const teamId = Deno.env.get("APNS_TEAM_ID");
+  const privateKey = Deno.env.get("APNS_PRIVATE_KEY");
+  const bundleId = Deno.env.get("APNS_BUNDLE_ID");
+  const apns = keyId && teamId && privateKey && bundleId
+    ? createApnsProvider({ keyId, teamId, privateKey, bundleId, production: Deno.env.get("APNS_PRODUCTION") === "true" })
+    : notConfigured("iOS");
+
+  return {
+    send: (token, platform, message) => (platform === "ios" ? apns : fcm).send(token, platform, message),
+  };
+}
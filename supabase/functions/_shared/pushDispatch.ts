@@ -0,0 +1,143 @@
+// Sending a notification to its recipient's devices, for the push-dispatch function.
+// Kept free of Deno APIs and given the Supabase client and a PushProvider by the
+// caller, so it can run against the stub provider in tests
+// (src/lib/pushDispatch.test.ts). The real providers are in push.ts; set
+// PUSH_PROVIDER=stub to use the stub in a deployed function too.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export type PushPlatform = "ios" | "android" | "web";
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  // Lets the app open the right screen, e.g. { jobId }
+  data: Record<string, string>;
+}
+
+export type PushResult =
+  | { ok: true }
+  // invalidToken: the device is gone for good and its token should be deleted
+  | { ok: false; invalidToken: boolean; error: string };
+
+export interface PushProvider {
+  send(token: string, platform: PushPlatform, message: PushMessage): Promise<PushResult>;
+}
+
+// Keep in step with the dispatch_notifications_push trigger
+export const PUSH_NOTIFICATION_TYPES = [
+  "payment_received",
+  "estimate_approved",
+  "client_message",
+  "staff_message",
+  "job_ready",
+];
+
+// profiles.notification_preferences; keys missing from older rows count as on
+interface NotificationPreferences {
+  jobUpdates?: boolean;
+  pushNotifications?: boolean;
+}
+
+// Every push type is a job update, so both switches have to be on
+export const wantsPush = (preferences: NotificationPreferences | null) =>
+  preferences?.pushNotifications !== false && preferences?.jobUpdates !== false;
+
+// Records what would have been sent. Tokens listed as invalid are rejected the way
+// a real provider rejects an uninstalled app.
+export function createStubPushProvider(invalidTokens: string[] = []) {
+  const sent: { token: string; platform: PushPlatform; message: PushMessage }[] = [];
+  return {
+    sent,
+    send: async (token: string, platform: PushPlatform, message: PushMessage): Promise<PushResult> => {
+      if (invalidTokens.includes(token)) return { ok: false, invalidToken: true, error: "Unregistered" };
+      sent.push({ token, platform, message });
+      return { ok: true };
+    },
+  };
+}
+
+export interface DispatchResult {
+  sent: number;
+  failed: number;
+  pruned: number;
+  // Why nothing was sent, when nothing was
+  skipped?: string;
+}
+
+// Sends one notification to every device its recipient has registered
+export async function dispatchNotification(
+  supabaseAdmin: SupabaseClient,
+  provider: PushProvider,
+  notificationId: string,
+): Promise<DispatchResult> {
+  const result: DispatchResult = { sent: 0, failed: 0, pruned: 0 };
+
+  const { data: notification, error } = await supabaseAdmin
+    .from("notifications")
+    .select("id, user_id, type, title, message, metadata")
+    .eq("id", notificationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!notification) return { ...result, skipped: "notification not found" };
+  if (!PUSH_NOTIFICATION_TYPES.includes(notification.type)) return { ...result, skipped: `${notification.type} isn't pushed` };
+
+  const { data: profile } = await supabaseAdmin
+    .from("profiles")
+    .select("notification_preferences")
+    .eq("user_id", notification.user_id)
+    .maybeSingle();
+
+  if (!wantsPush(profile?.notification_preferences ?? null)) {
+    return { ...result, skipped: "turned off in preferences" };
+  }
+
+  const { data: tokens, error: tokensError } = await supabaseAdmin
+    .from("push_tokens")
+    .select("id, token, platform")
+    .eq("user_id", notification.user_id);
+
+  if (tokensError) throw tokensError;
+  if (!tokens || tokens.length === 0) return { ...result, skipped: "no registered devices" };
+
+  const metadata = (notification.metadata || {}) as Record<string, unknown>;
+  const message: PushMessage = {
+    title: notification.title,
+    body: notification.message,
+    data: {
+      notificationId: notification.id,
+      type: notification.type,
+      ...(metadata.jobId ? { jobId: String(metadata.jobId) } : {}),
+    },
+  };
+
+  const invalidIds: string[] = [];
+  for (const device of tokens) {
+    let outcome: PushResult;
+    try {
+      outcome = await provider.send(device.token, device.platform as PushPlatform, message);
+    } catch (sendError) {
+      outcome = { ok: false, invalidToken: false, error: sendError instanceof Error ? sendError.message : String(sendError) };
+    }
+
+    if (outcome.ok === true) {
+      result.sent++;
+    } else {
+      result.failed++;
+      console.warn(`Push to ${device.platform} device ${device.id} failed:`, outcome.error);
+      if (outcome.invalidToken) invalidIds.push(device.id);
+    }
+  }
+
+  if (invalidIds.length > 0) {
+    const { error: pruneError } = await supabaseAdmin.from("push_tokens").delete().in("id", invalidIds);
+    if (pruneError) {
+      console.error("Failed to prune push tokens:", pruneError.message);
+    } else {
+      result.pruned = invalidIds.length;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,132 @@
+// Rug photos are rows in rug_photos, each tagged with the guided capture step it was
+// taken for. Shared by the app (as '@shared/rugPhotos') and analyze-rug, so both
+// describe a photo by its step rather than by where it sits in photo_urls.
+//
+// Annotations still carry photoIndex, the photo's position when they were saved, for
+// older readers. photoId is what ties them to a photo: after a photo is reordered or
+// deleted, alignAnnotations moves its markers with it or drops them.
+//
+// Keep this file free of imports so it runs unchanged under Deno and Vite.
+
+export interface RugPhotoStep {
+  id: string;
+  label: string;
+  // What the photo is for, as told to the analysis
+  purpose: string;
+}
+
+// In capture order; GuidedPhotoCapture adds the camera guidance for each
+export const RUG_PHOTO_STEPS: RugPhotoStep[] = [
+  {
+    id: "overall-front",
+    label: "Overall Front",
+    purpose: "the whole front of the rug: pattern, colours, design and general condition",
+  },
+  {
+    id: "overall-back",
+    label: "Overall Back",
+    purpose: "the whole back of the rug: knot density, construction, foundation and hidden damage",
+  },
+  {
+    id: "fringe-end-a",
+    label: "Fringe - End A",
+    purpose: "fringe on one end: condition, attachment, wear and missing sections",
+  },
+  {
+    id: "fringe-end-b",
+    label: "Fringe - End B",
+    purpose: "fringe on the opposite end, to compare with End A",
+  },
+  {
+    id: "edge-side-a",
+    label: "Edge/Binding - Side A",
+    purpose: "one side edge: binding or selvedge condition, fraying and damage",
+  },
+  {
+    id: "edge-side-b",
+    label: "Edge/Binding - Side B",
+    purpose: "the opposite side edge, to compare with Side A",
+  },
+];
+
+// Step id for close-ups of stains, damage and other problem areas
+export const ISSUE_STEP_ID = "issue";
+
+// Intake photos are what the rug came in as; after-service photos retake the
+// guided steps once the work is done, for before/after comparison
+export type RugPhotoPhase = "intake" | "after_service";
+
+export interface TaggedPhoto {
+  // null for photos known only by their path
+  id: string | null;
+  stepId: string | null;
+  caption: string | null;
+}
+
+export const rugPhotoStep = (stepId: string | null | undefined) =>
+  RUG_PHOTO_STEPS.find((step) => step.id === stepId);
+
+// "Overall Back", "Issue Close-up: moth damage near the fringe", or "Photo 7" when
+// nothing is known about the photo
+export function rugPhotoLabel(photo: Pick<TaggedPhoto, "stepId" | "caption">, index: number): string {
+  const step = rugPhotoStep(photo.stepId);
+  const caption = photo.caption?.trim();
+  if (step) return caption ? `${step.label}: ${caption}` : step.label;
+  if (photo.stepId === ISSUE_STEP_ID) return caption ? `Issue Close-up: ${caption}` : "Issue Close-up";
+  return caption || `Photo ${index + 1}`;
+}
+
+// For the analysis prompt: one line per photo saying what it shows
+export function rugPhotoGuide(photos: Pick<TaggedPhoto, "stepId" | "caption">[]): string {
+  return photos
+    .map((photo, index) => {
+      const step = rugPhotoStep(photo.stepId);
+      const caption = photo.caption?.trim();
+      let purpose: string;
+      if (step) {
+        purpose = `${step.label} - ${step.purpose}`;
+      } else if (photo.stepId === ISSUE_STEP_ID) {
+        purpose = "Issue close-up - a specific problem area such as a stain, tear, moth damage or repair";
+      } else {
+        purpose = "Untagged photo - work out what it shows from the image";
+      }
+      return `- Photo ${index + 1}: ${purpose}${caption ? ` (inspector's note: "${caption}")` : ""}`;
+    })
+    .join("\n");
+}
+
+export interface ImageAnnotation {
+  label: string;
+  location: string;
+  x: number;
+  y: number;
+}
+
+export interface PhotoAnnotations {
+  photoId?: string;
+  photoIndex: number;
+  annotations: ImageAnnotation[];
+}
+
+const isPhotoAnnotations = (value: unknown): value is PhotoAnnotations =>
+  !!value && typeof value === "object" && Array.isArray((value as PhotoAnnotations).annotations);
+
+// Puts saved annotations against the photos as they are now. Annotations saved
+// before photos had ids keep their index.
+export function alignAnnotations(saved: unknown, photoIds: (string | null)[]): PhotoAnnotations[] {
+  if (!Array.isArray(saved)) return [];
+
+  return saved.filter(isPhotoAnnotations).flatMap((entry) => {
+    if (!entry.photoId) return [entry];
+    const photoIndex = photoIds.indexOf(entry.photoId);
+    return photoIndex === -1 ? [] : [{ ...entry, photoIndex }];
+  });
+}
+
+// Stamps each annotation with the id of the photo at its index, ready to save
+export function withPhotoIds(annotations: PhotoAnnotations[], photoIds: (string | null)[]): PhotoAnnotations[] {
+  return annotations.map((entry) => {
+    const photoId = photoIds[entry.photoIndex];
+    return photoId ? { ...entry, photoId } : entry;
+  });
+}
@@ -0,0 +1,103 @@
+// What stripe-webhook does with an event once its signature has checked out. Kept
+// apart from the HTTP handler and the Stripe SDK, and given the Supabase client by
+// the caller, so the recorded events in stripe-webhook/fixtures can be run through
+// it in tests (src/lib/stripeEvents.test.ts) against an in-memory database.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import {
+  completeCheckoutPayment,
+  expireCheckoutPayment,
+  failCheckoutPayment,
+  failPaymentIntent,
+  refundCharge,
+  type ChargeLike,
+  type CheckoutSessionLike,
+  type PaymentIntentLike,
+} from "./payments.ts";
+
+// The parts of a Stripe.Event we rely on
+export interface StripeEventLike {
+  id: string;
+  type: string;
+  livemode: boolean;
+  data: { object: unknown };
+}
+
+export type StripeEventResult =
+  | { duplicate: true }
+  | { duplicate: false; outcome: string };
+
+// Returns a short description of what changed, for the logs
+export async function handleStripeEvent(supabaseAdmin: SupabaseClient, event: StripeEventLike): Promise<string> {
+  switch (event.type) {
+    case "checkout.session.completed":
+    case "checkout.session.async_payment_succeeded": {
+      const session = event.data.object as CheckoutSessionLike;
+
+      // Delayed payment methods complete the session before the money arrives;
+      // async_payment_succeeded follows once it does
+      if (session.payment_status !== "paid") {
+        return `session ${session.id} not paid yet (${session.payment_status})`;
+      }
+
+      const completion = await completeCheckoutPayment(supabaseAdmin, session);
+      if (!completion) return `no payment for session ${session.id}`;
+      return completion.processed
+        ? `job ${completion.jobNumber} marked paid`
+        : `job ${completion.jobNumber} already paid`;
+    }
+
+    case "checkout.session.async_payment_failed": {
+      const session = event.data.object as CheckoutSessionLike;
+      const failed = await failCheckoutPayment(supabaseAdmin, session);
+      return failed ? `delayed payment for session ${session.id} failed` : `no open payment for session ${session.id}`;
+    }
+
+    case "checkout.session.expired": {
+      const session = event.data.object as CheckoutSessionLike;
+      const expired = await expireCheckoutPayment(supabaseAdmin, session);
+      return expired ? `session ${session.id} expired` : `no pending payment for session ${session.id}`;
+    }
+
+    case "payment_intent.payment_failed": {
+      const paymentIntent = event.data.object as PaymentIntentLike;
+      const failed = await failPaymentIntent(supabaseAdmin, paymentIntent);
+      return failed ? `payment intent ${paymentIntent.id} failed` : `no open payment for ${paymentIntent.id}`;
+    }
+
+    case "charge.refunded": {
+      const charge = event.data.object as ChargeLike & { amount: number };
+      const refunded = await refundCharge(supabaseAdmin, charge);
+      return refunded
+        ? `charge ${charge.id} refunded ${charge.amount_refunded} of ${charge.amount}`
+        : `no payment for charge ${charge.id}`;
+    }
+
+    default:
+      return "ignored";
+  }
+}
+
+// IDEMPOTENCY: Stripe delivers at least once, so the event id is recorded first and
+// anything already seen is acknowledged without being handled again. If handling
+// fails the record is removed, so Stripe's retry gets processed instead of skipped.
+export async function processStripeEvent(
+  supabaseAdmin: SupabaseClient,
+  event: StripeEventLike,
+): Promise<StripeEventResult> {
+  const { error: recordError } = await supabaseAdmin
+    .from("stripe_webhook_events")
+    .insert({ id: event.id, type: event.type, livemode: event.livemode });
+
+  if (recordError) {
+    if (recordError.code === "23505") return { duplicate: true };
+    throw recordError;
+  }
+
+  try {
+    return { duplicate: false, outcome: await handleStripeEvent(supabaseAdmin, event) };
+  } catch (error) {
+    await supabaseAdmin.from("stripe_webhook_events").delete().eq("id", event.id);
+    throw error;
+  }
+}
@@ -0,0 +1,64 @@
+// Sales tax, shared by create-checkout-session and the web app (as '@shared/tax'),
+// so the portal, Stripe and the stored invoice agree to the cent.
+//
+// Keep this file free of imports so it runs unchanged under Deno and Vite.
+
+export interface TaxRate {
+  name: string;
+  // Percentage, e.g. 8.25
+  rate: number;
+}
+
+// What the business charges a given job: its active rates, unless the client is exempt
+export interface JobTaxSettings {
+  rates: TaxRate[];
+  clientExempt: boolean;
+}
+
+export interface TaxLine {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+export interface TaxableLine {
+  amount: number;
+  taxExempt?: boolean;
+}
+
+export interface TaxResult {
+  taxableAmount: number;
+  lines: TaxLine[];
+  total: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const NO_TAX: JobTaxSettings = { rates: [], clientExempt: false };
+
+/**
+ * Tax on a set of lines. Every rate applies to the same taxable amount and is
+ * rounded on its own, the way it is reported; exempt lines and exempt clients
+ * are left out. Rates that come to nothing produce no line.
+ */
+export function computeTax(lines: TaxableLine[], settings: JobTaxSettings): TaxResult {
+  const taxableAmount = settings.clientExempt
+    ? 0
+    : roundCents(lines.filter((l) => !l.taxExempt).reduce((sum, l) => sum + l.amount, 0));
+
+  const taxLines = settings.rates
+    .map((r) => ({ name: r.name, rate: Number(r.rate), amount: roundCents(taxableAmount * Number(r.rate) / 100) }))
+    .filter((l) => l.amount > 0);
+
+  return {
+    taxableAmount,
+    lines: taxLines,
+    total: roundCents(taxLines.reduce((sum, l) => sum + l.amount, 0)),
+  };
+}
+
+// All rates together, for spreading tax over individual lines (e.g. refunds)
+export const combinedRate = (settings: JobTaxSettings) =>
+  settings.clientExempt ? 0 : settings.rates.reduce((sum, r) => sum + Number(r.rate), 0);
+
+export const formatTaxLabel = (line: Pick<TaxLine, "name" | "rate">) => `${line.name} (${line.rate}%)`;
@@ -2,6 +2,22 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  describeQuote,
+  formatPriceBreakdown,
+  letterWithPrices,
+  matchServiceName,
+  priceService,
+  PRICE_BREAKDOWN_PLACEHOLDER,
+  PRICING_UNIT_LABELS,
+  repriceLines,
+  totalLines,
+  type PriceListEntry,
+  type PricingUnit,
+  type RepricedLine,
+} from "../_shared/pricing.ts";
+import { photoQualityNote, type PhotoQualityIssue } from "../_shared/photoQuality.ts";
+import { ISSUE_STEP_ID, RUG_PHOTO_STEPS, rugPhotoGuide } from "../_shared/rugPhotos.ts";
 
 const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
 
@@ -89,6 +105,25 @@ async function getSignedUrlForPath(supabase: any, path: string): Promise<string
   }
 }
 
+// The model numbers photos as attached; point its annotations at the photos
+// themselves, and at their position in the request for clients that read photoIndex
+function tagAnnotations(
+  raw: unknown,
+  resolvedPhotos: { photo: { id: string | null }; requestIndex: number }[],
+): { photoId?: string; photoIndex: number; annotations: unknown[] }[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((entry) => {
+    const resolved = resolvedPhotos[Number(entry?.photoIndex)];
+    if (!resolved || !Array.isArray(entry.annotations)) return [];
+    return [{
+      ...(resolved.photo.id ? { photoId: resolved.photo.id } : {}),
+      photoIndex: resolved.requestIndex,
+      annotations: entry.annotations,
+    }];
+  });
+}
+
 // CORS headers - allow all origins for mobile browser compatibility
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -100,10 +135,27 @@ const corsHeaders = {
 const SUPPORTED_MODELS = ["google/gemini-2.5-pro", "google/gemini-2.5-flash"] as const;
 type SupportedModel = typeof SUPPORTED_MODELS[number];
 
+const PhotoQualitySchema = z.object({
+  score: z.number().min(0).max(100),
+  issues: z.array(z.string().max(50)).max(10),
+}).passthrough();
+
+const PhotoPathSchema = z.string().min(1).max(500).refine(isValidPhotoInput, { message: "Invalid photo path or URL" });
+
+// A rug_photos row as the app sends it; id is null for photos known only by path
+const TaggedPhotoSchema = z.object({
+  id: z.string().uuid().nullable().optional(),
+  path: PhotoPathSchema,
+  stepId: z.string().max(50).nullable().optional(),
+  caption: z.string().max(500).nullable().optional().transform(val => val ? sanitizeString(val) : null),
+  quality: PhotoQualitySchema.nullable().optional(),
+});
+
 // Input validation schema with stricter constraints
 // Now accepts both storage paths and full URLs
 const RequestSchema = z.object({
-  photos: z.array(z.string().min(1).max(500).refine(isValidPhotoInput, { message: "Invalid photo path or URL" })).min(1).max(20),
+  // Tagged photos, or plain paths from app versions before rug_photos
+  photos: z.array(z.union([PhotoPathSchema, TaggedPhotoSchema])).min(1).max(20),
   rugInfo: z.object({
     clientName: z.string().min(1).max(200).transform(sanitizeString),
     rugNumber: z.string().min(1).max(100).transform(sanitizeString),
@@ -112,32 +164,76 @@ const RequestSchema = z.object({
     width: z.union([z.string().max(20), z.number().min(0).max(1000)]).optional(),
     notes: z.string().max(5000).optional().nullable().transform(val => val ? sanitizeString(val) : val)
   }),
+  // On-device capture scores aligned with plain-path photos; tagged photos carry their own
+  photoQuality: z.array(PhotoQualitySchema.nullable()).max(20).optional().nullable(),
   userId: z.string().uuid().optional(),
   model: z.enum(SUPPORTED_MODELS).optional().default("google/gemini-2.5-pro")
 });
 
-// Dynamic system prompt that includes business name
-const getSystemPrompt = (businessName: string, businessPhone: string, businessAddress: string) => `You are an expert rug restoration specialist at ${businessName} with decades of experience identifying rug origins, construction methods, and restoration needs. Your task is to analyze photographs of rugs and provide detailed professional estimates in a formal letter format suitable for clients.
+// Structured output schema - validated before it is returned to the client
+const RugProfileSchema = z.object({
+  origin: z.string().max(200).nullable().optional(),
+  construction: z.string().max(200).nullable().optional(),
+  fiber: z.string().max(200).nullable().optional(),
+  age: z.string().max(200).nullable().optional(),
+  condition: z.string().max(500).nullable().optional(),
+});
+
+const ServiceLineSchema = z.object({
+  name: z.string().min(1).max(200).transform(sanitizeString),
+  description: z.string().max(2000).nullable().optional(),
+  quantity: z.coerce.number().positive().max(1000).default(1),
+  unitPrice: z.coerce.number().min(0).max(1000000),
+  priority: z.enum(["high", "medium", "low"]).default("medium"),
+});
+
+const StructuredReportSchema = z.object({
+  rugProfile: RugProfileSchema.default({}),
+  services: z.array(ServiceLineSchema).min(1).max(50),
+});
+
+// Used when the business hasn't set up its own service catalog
+const DEFAULT_SERVICE_DESCRIPTIONS = `- Professional Cleaning (immersion method, removes soil/allergens, enhances color vibrancy)
+- Blocking & Stretching (corrects dimensional distortion, eliminates ripples/waves)
+- Custom Padding (non-slip support, extends lifespan, enhances comfort)
+- Overnight Soaking (intensive deep cleaning for embedded contaminants)
+- Overcast Ends (secures exposed warp ends, prevents unraveling)
+- Persian Binding (traditional edge treatment, maintains authentic appearance)
+- Zenjireh (specialized edge technique)
+- Hand Fringe / Machine Fringe (fringe restoration)
+- Stain Removal (targeted discoloration treatment)
+- Moth Proofing Treatment (protection against moth larvae)
+- Fiber Protection Treatment (repels liquid spills and soil)
+- Limewash / Special Wash (for delicate fibers)
+- Shearing (evening pile height)
+- Leather/Cotton/Glue Binding (alternative edge treatments)`;
+
+interface CatalogEntry extends PriceListEntry {
+  description: string | null;
+  priority: "high" | "medium" | "low";
+  mandatory: boolean;
+}
+
+// Dynamic system prompt that includes business name and service catalog
+const getSystemPrompt = (
+  businessName: string,
+  businessPhone: string,
+  businessAddress: string,
+  availableServicesText: string,
+) => `You are an expert rug restoration specialist at ${businessName} with decades of experience identifying rug origins, construction methods, and restoration needs. Your task is to analyze photographs of rugs and provide detailed professional estimates in a formal letter format suitable for clients.
 
 CRITICAL RULES:
 1. INCLUDE ALL SERVICES you identify as needed - never skip or omit services you're uncertain about.
-2. ALWAYS provide your best cost estimate with actual dollar amounts for EVERY service - NEVER say "pending review", "to be determined", "TBD", "price upon inspection", or similar phrases. Even if you're uncertain, provide your best professional estimate based on the information available.
-3. If exact pricing isn't provided, use industry standard rates and your professional judgment to calculate reasonable costs.
+2. ALWAYS provide your best cost estimate as a unitPrice for EVERY service in the "services" field - NEVER say "pending review", "to be determined", "TBD", "price upon inspection", or similar phrases. Even if you're uncertain, provide your best professional estimate based on the information available.
+3. If exact pricing isn't provided, use industry standard rates and your professional judgment to calculate reasonable costs. Never write dollar amounts in the letter itself: its prices are filled in from the "services" field.
 4. Do NOT use markdown formatting (no #, ##, **, -, etc.)
 5. Write in plain text with professional letter formatting
 6. Use paragraph breaks for readability
 7. Use ALL CAPS or spacing for emphasis when needed
 
-PHOTO SEQUENCE - Photos are captured in a structured order for complete rug coverage:
-- Photo 1: OVERALL FRONT - Full rug from above showing the front/top surface
-- Photo 2: OVERALL BACK - Full back side of the rug (construction and hidden damage)
-- Photo 3: FRINGE END A - Close-up of fringe on one end
-- Photo 4: FRINGE END B - Close-up of fringe on the opposite end
-- Photo 5: EDGE/BINDING SIDE A - Close-up of one side edge/binding
-- Photo 6: EDGE/BINDING SIDE B - Close-up of the opposite side edge/binding
-- Photos 7+ (if provided): ISSUE CLOSE-UPS - Client-identified problem areas (stains, damage, wear)
+PHOTOS - Each photo is tagged with what it shows. The request lists the photos in order with their purpose (overall front, overall back, fringe ends, edges/binding, issue close-ups) and any note the inspector added. Photos may be missing, reordered or repeated, so go by the listed purpose rather than by position.
 
-Use this photo sequence knowledge when referencing photos in your analysis and annotations.
+Use these purposes when referencing photos in your analysis and annotations.
 
 RUG IDENTIFICATION EXPERTISE - Analyze carefully for:
 1. ORIGIN: Persian (Iranian), Turkish (Anatolian), Afghan, Indian, Pakistani, Chinese, Tibetan, Moroccan, Caucasian, Central Asian, European (Aubusson, Savonnerie), Native American (Navajo)
@@ -190,21 +286,38 @@ IMAGE ANNOTATION INSTRUCTIONS - CRITICAL:
 - ONLY place markers ON THE RUG ITSELF - never on the floor, wall, background, or any surrounding surfaces
 - If the rug only occupies part of the photo, your x/y coordinates MUST be within the rug's boundaries
 - Before placing a marker, confirm the location is actually on the rug surface
-- Reference photos by their purpose AND number (e.g., "Photo 1 (Overall Front): visible pet stain in center")
-- Be specific about what you're seeing (e.g., "Photo 3 (Fringe End A): fringe loss approximately 2 inches, discoloration")
+- Reference photos by their purpose AND number as listed in the request (e.g., "Photo 1 (Overall Front): visible pet stain in center")
+- Be specific about what you're seeing (e.g., "Photo 3 (Fringe - End A): fringe loss approximately 2 inches, discoloration")
 - If a photo shows no rug issues (only general condition), you may have zero annotations for that photo - that's acceptable
-- Pay special attention to Photos 7+ as the client specifically captured these to highlight concerns
+- Pay special attention to issue close-ups as the client specifically captured these to highlight concerns
 - Mark ALL issues found, not just the obvious ones
 
 ANALYSIS APPROACH:
-1. Photo 1-2 (Front/Back): Identify rug origin, construction, fiber, approximate age, overall condition
-2. Photos 3-4 (Fringes): Assess fringe condition at both ends, note any active unraveling
-3. Photos 5-6 (Edges): Check binding/selvedge integrity, edge wear
-4. Photos 7+ (Issues): Focus on client-identified problems, confirm issue type, assess severity
+1. Overall front and back: Identify rug origin, construction, fiber, approximate age, overall condition
+2. Fringe ends: Assess fringe condition at both ends, note any active unraveling
+3. Edges/binding: Check binding/selvedge integrity, edge wear
+4. Issue close-ups: Focus on client-identified problems, confirm issue type, assess severity
+5. Untagged photos: Work out what each shows before drawing conclusions from it
 
 RESPONSE FORMAT - Your response must be valid JSON with this structure:
 {
   "letter": "The full estimate letter text here...",
+  "rugProfile": {
+    "origin": "Persian (Heriz region)",
+    "construction": "Hand-knotted",
+    "fiber": "Wool pile on cotton foundation",
+    "age": "Approximately 40-60 years",
+    "condition": "Good overall; moderate wear at one end, fringe loss on End A"
+  },
+  "services": [
+    {
+      "name": "Professional Cleaning",
+      "description": "Immersion cleaning to remove embedded soil and the pet stain visible in Photo 1",
+      "quantity": 1,
+      "unitPrice": 480.00,
+      "priority": "high"
+    }
+  ],
   "imageAnnotations": [
     {
       "photoIndex": 0,
@@ -231,37 +344,25 @@ ESTIMATE LETTER FORMAT (for the "letter" field):
    - Reference specific photos/locations where you observed the need (e.g., "As visible in Photo 1, upper right corner...")
 
 Available services to describe (only include those relevant to this rug):
-- Professional Cleaning (immersion method, removes soil/allergens, enhances color vibrancy)
-- Blocking & Stretching (corrects dimensional distortion, eliminates ripples/waves)
-- Custom Padding (non-slip support, extends lifespan, enhances comfort)
-- Overnight Soaking (intensive deep cleaning for embedded contaminants)
-- Overcast Ends (secures exposed warp ends, prevents unraveling)
-- Persian Binding (traditional edge treatment, maintains authentic appearance)
-- Zenjireh (specialized edge technique)
-- Hand Fringe / Machine Fringe (fringe restoration)
-- Stain Removal (targeted discoloration treatment)
-- Moth Proofing Treatment (protection against moth larvae)
-- Fiber Protection Treatment (repels liquid spills and soil)
-- Limewash / Special Wash (for delicate fibers)
-- Shearing (evening pile height)
-- Leather/Cotton/Glue Binding (alternative edge treatments)
+${availableServicesText}
 
-3. RUG BREAKDOWN AND SERVICES: Create a clear itemized list for the rug showing:
-   - Rug Number and Type with Dimensions
-   - Each service with its calculated cost (ALWAYS include actual dollar amounts)
-   - Subtotal
+3. PRICES: Write ${PRICE_BREAKDOWN_PLACEHOLDER} on a line of its own where the itemized list and total estimate belong. It is replaced with the rug, each service with its cost, the subtotal and the total, all taken from the "services" field. Do not write any prices or totals yourself.
 
-Format like:
-Rug #[number]: [Type] ([dimensions])
-Professional Cleaning: $[amount]
-[Other services]: $[amount]
-Subtotal: $[total]
+4. NEXT STEPS: Explain the assessment basis, offer to discuss priorities or budget, and provide timeline estimate. Include contact information: ${businessPhone ? `Please contact us at ${businessPhone}` : 'Please contact us'} to discuss these recommendations.
 
-4. TOTAL ESTIMATE: State the total for all services clearly with an actual dollar amount.
+5. CLOSING: Sign off with "Sincerely," followed by "${businessName}"${businessAddress ? ` at ${businessAddress}` : ''}.
+RUG PROFILE (for the "rugProfile" field):
+- origin, construction, fiber, age, condition: short plain-text values matching your identification in the letter
+- Use null for any field you genuinely cannot determine
 
-5. NEXT STEPS: Explain the assessment basis, offer to discuss priorities or budget, and provide timeline estimate. Include contact information: ${businessPhone ? `Please contact us at ${businessPhone}` : 'Please contact us'} to discuss these recommendations.
+SERVICES (for the "services" field):
+- One entry for EVERY service the letter recommends
+- name: the service name as the letter refers to it (use the exact name from the service pricing list when the service is listed there)
+- description: one or two sentences on why this rug needs the service
+- quantity: 1 unless the same service is applied to separate areas
+- unitPrice: the dollar cost for one unit of the line as a plain number (no "$", no commas)
+- priority: "high" for cleaning and structural repairs, "medium" for edge/fringe/blocking work, "low" for protective or optional services
 
-6. CLOSING: Sign off with "Sincerely," followed by "${businessName}"${businessAddress ? ` at ${businessAddress}` : ''}.
 IMAGE ANNOTATIONS (for the "imageAnnotations" field):
 - photoIndex: 0-based index of the photo (0 for first photo, 1 for second, etc.)
 - CRITICAL: Only annotate issues that are PHYSICALLY ON THE RUG - never mark floors, walls, or background
@@ -272,7 +373,7 @@ IMAGE ANNOTATIONS (for the "imageAnnotations" field):
   - y: Percentage from top (0-100) - must be within the rug's visible area in the photo
 - If a photo is a general overview with no specific issues to mark, return an empty annotations array for that photo
 
-Use the provided service pricing to calculate costs. Calculate costs based on square footage where applicable (multiply price per sq ft by total square feet). For linear foot services (overcasting, binding), estimate based on rug perimeter. If prices are not provided, use reasonable industry standard estimates but ALWAYS provide actual numbers.`;
+When service pricing is provided it has already been calculated for this rug's size - use those exact service names and dollar amounts, do not do your own arithmetic. Amounts are recalculated from the price list after your response, so any service not on the list should still carry your best industry standard estimate.`;
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -354,7 +455,13 @@ serve(async (req) => {
       );
     }
 
-    const { photos, rugInfo, userId, model } = validationResult.data;
+    const { rugInfo, photoQuality, userId, model } = validationResult.data;
+    // Plain paths come from app versions that always sent the guided steps first, in order
+    const photos = validationResult.data.photos.map((photo, index) =>
+      typeof photo === "string"
+        ? { id: null, path: photo, stepId: RUG_PHOTO_STEPS[index]?.id ?? ISSUE_STEP_ID, caption: null, quality: photoQuality?.[index] ?? null }
+        : { id: photo.id ?? null, path: photo.path, stepId: photo.stepId ?? null, caption: photo.caption ?? null, quality: photo.quality ?? null }
+    );
 
     // Ensure the userId matches the authenticated user (if provided)
     const effectiveUserId = userId || authenticatedUserId;
@@ -368,7 +475,15 @@ serve(async (req) => {
 
 
 
-    // Fetch user's service prices and business info using service role key
+    // Calculate square footage
+    const length = typeof rugInfo.length === 'string' ? parseFloat(rugInfo.length) || 0 : rugInfo.length || 0;
+    const width = typeof rugInfo.width === 'string' ? parseFloat(rugInfo.width) || 0 : rugInfo.width || 0;
+    const squareFootage = length * width;
+    const dimensions = { length, width };
+
+    // Fetch the business's service catalog and info using service role key
+    let catalog: CatalogEntry[] = [];
+    let availableServicesText = DEFAULT_SERVICE_DESCRIPTIONS;
     let servicePricesText = "";
     let businessName = "Rug Restoration Services";
     let businessPhone = "";
@@ -381,27 +496,80 @@ serve(async (req) => {
       const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
       const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-      // Fetch service prices
-      const { data: prices, error } = await supabase
+      // Teammates analyze rugs for the business they work for, whose owner holds the
+      // price list and branding
+      let businessUserId = effectiveUserId;
+      const { data: membership } = await supabase
+        .from("organization_members")
+        .select("organization_id")
+        .eq("user_id", effectiveUserId)
+        .maybeSingle();
+
+      if (membership) {
+        const { data: owner } = await supabase
+          .from("organization_members")
+          .select("user_id")
+          .eq("organization_id", membership.organization_id)
+          .eq("role", "owner")
+          .maybeSingle();
+        businessUserId = owner?.user_id || effectiveUserId;
+      }
+
+      // Fetch the active service catalog
+      const { data: catalogRows, error } = await supabase
         .from("service_prices")
-        .select("service_name, unit_price")
-        .eq("user_id", effectiveUserId);
-
-      if (!error && prices && prices.length > 0) {
-        servicePricesText = "\n\nSERVICE PRICING (per square foot):\n";
-        prices.forEach((price: { service_name: string; unit_price: number }) => {
-          if (price.unit_price > 0) {
-            servicePricesText += `${price.service_name}: $${price.unit_price.toFixed(2)}/sq ft\n`;
-          }
+        .select("service_name, unit_price, pricing_unit, minimum_charge, description, default_priority, is_mandatory")
+        .eq("user_id", businessUserId)
+        .is("archived_at", null)
+        .order("sort_order");
+
+      if (!error && catalogRows && catalogRows.length > 0) {
+        type CatalogRow = {
+          service_name: string;
+          unit_price: number;
+          pricing_unit: PricingUnit;
+          minimum_charge: number | null;
+          description: string | null;
+          default_priority: "high" | "medium" | "low";
+          is_mandatory: boolean;
+        };
+        catalog = catalogRows.map((row: CatalogRow) => ({
+          name: row.service_name,
+          unitPrice: row.unit_price,
+          unit: row.pricing_unit,
+          minimumCharge: row.minimum_charge,
+          description: row.description,
+          priority: row.default_priority,
+          mandatory: row.is_mandatory,
+        }));
+
+        // The business's own wording is what the letter should describe
+        availableServicesText = catalog
+          .map((entry) => {
+            const description = sanitizeString(entry.description ?? "").substring(0, 500);
+            return description ? `- ${entry.name} (${description})` : `- ${entry.name}`;
+          })
+          .join("\n");
+      }
+
+      const priceList = catalog.filter((entry) => entry.unitPrice > 0 || (entry.minimumCharge ?? 0) > 0);
+      if (priceList.length > 0) {
+        // Prices are computed here so the model only has to copy them
+        servicePricesText = "\n\nSERVICE PRICING FOR THIS RUG (already calculated for its size):\n";
+        priceList.forEach((entry) => {
+          const quote = priceService(entry, dimensions);
+          servicePricesText += quote.measure > 0 || quote.minimumApplied
+            ? `${entry.name}: $${quote.unitPrice.toFixed(2)} (${describeQuote(quote)})\n`
+            : `${entry.name}: $${entry.unitPrice.toFixed(2)} ${PRICING_UNIT_LABELS[entry.unit]} (rug size unknown)\n`;
         });
-        servicePricesText += "\nUse these prices when calculating cost estimates. If a service is not listed or has a $0 price, use industry standard estimates.";
+        servicePricesText += "\nUse these exact service names and amounts. If a service is not listed, use industry standard estimates.";
       }
 
       // Fetch business info from profiles
       const { data: profile, error: profileError } = await supabase
         .from("profiles")
         .select("business_name, business_phone, business_address")
-        .eq("user_id", effectiveUserId)
+        .eq("user_id", businessUserId)
         .single();
 
       if (!profileError && profile) {
@@ -440,30 +608,28 @@ serve(async (req) => {
       console.error("Error fetching user data:", priceError);
     }
 
-    // Calculate square footage
-    const length = typeof rugInfo.length === 'string' ? parseFloat(rugInfo.length) || 0 : rugInfo.length || 0;
-    const width = typeof rugInfo.width === 'string' ? parseFloat(rugInfo.width) || 0 : rugInfo.width || 0;
-    const squareFootage = length * width;
-
     // Convert storage paths to signed URLs if needed
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabaseForStorage = createClient(supabaseUrl, supabaseServiceKey);
     
-    const resolvedPhotoUrls: string[] = [];
-    for (const photo of photos) {
-      if (!photo.includes('://')) {
+    // Photos that resolved, with their position in the request; the model numbers
+    // only these
+    const resolvedPhotos: { url: string; photo: typeof photos[number]; requestIndex: number }[] = [];
+    for (const [requestIndex, photo] of photos.entries()) {
+      if (!photo.path.includes('://')) {
         // It's a storage path - generate signed URL
-        const signedUrl = await getSignedUrlForPath(supabaseForStorage, photo);
+        const signedUrl = await getSignedUrlForPath(supabaseForStorage, photo.path);
         if (signedUrl) {
-          resolvedPhotoUrls.push(signedUrl);
+          resolvedPhotos.push({ url: signedUrl, photo, requestIndex });
         } else {
-          console.warn('Failed to generate signed URL for path:', photo);
+          console.warn('Failed to generate signed URL for path:', photo.path);
         }
       } else {
         // It's already a URL
-        resolvedPhotoUrls.push(photo);
+        resolvedPhotos.push({ url: photo.path, photo, requestIndex });
       }
     }
+    const resolvedPhotoUrls = resolvedPhotos.map(({ url }) => url);
     
     if (resolvedPhotoUrls.length === 0) {
       return new Response(
@@ -490,6 +656,15 @@ serve(async (req) => {
       ? rugInfo.notes.replace(/[<>{}]/g, '').substring(0, 2000)
       : "None provided";
 
+    // What each photo shows, in the order they're attached
+    const photoGuide = rugPhotoGuide(resolvedPhotos.map(({ photo }) => photo));
+
+    // Tell the model which photos capture flagged, so it weights the rest
+    const qualityNote = photoQualityNote(
+      resolvedPhotos.map(({ photo }) => photo.quality && { score: photo.quality.score, issues: photo.quality.issues as PhotoQualityIssue[] }),
+    );
+    const qualityText = qualityNote ? `\n${qualityNote}\n` : "";
+
     // Build the user message with rug details and images
     const userMessage = `RUG DETAILS:
 Client Name: ${rugInfo.clientName.substring(0, 200)}
@@ -500,7 +675,15 @@ Dimensions: ${length || "Unknown"}' x ${width || "Unknown"}' (${squareFootage >
 Inspector Notes: ${sanitizedNotes}
 ${servicePricesText}
 
-Please examine the attached ${resolvedPhotoUrls.length} photograph(s) and write a professional estimate letter following the format specified. Address it to the client by name. Calculate all costs based on the rug's square footage (${squareFootage} sq ft) and perimeter for linear services.`;
+PHOTOS (in the order attached):
+${photoGuide}
+${qualityText}
+
+Please examine the attached ${resolvedPhotoUrls.length} photograph(s) and write a professional estimate letter following the format specified. Address it to the client by name. Use the service pricing above for every listed service.`;
+
+    const rugHeading = `Rug #${rugInfo.rugNumber.substring(0, 100)}: ${rugInfo.rugType.substring(0, 100)}${
+      length && width ? ` (${length}' x ${width}')` : ""
+    }`;
 
     // Use Lovable AI Gateway with selected model
     // Reduce max_tokens for Flash model since it's more concise
@@ -519,7 +702,7 @@ Please examine the attached ${resolvedPhotoUrls.length} photograph(s) and write
         messages: [
           {
             role: "system",
-            content: getSystemPrompt(businessName, businessPhone, businessAddress) + feedbackContext,
+            content: getSystemPrompt(businessName, businessPhone, businessAddress, availableServicesText) + feedbackContext,
           },
           {
             role: "user",
@@ -570,8 +753,12 @@ Please examine the attached ${resolvedPhotoUrls.length} photograph(s) and write
     }
 
     // Try to parse as JSON (new structured format)
-    let analysisReport: string;
-    let imageAnnotations: any[] = [];
+    let analysisReport = "";
+    let imageAnnotations: { photoId?: string; photoIndex: number; annotations: unknown[] }[] = [];
+    let structuredReport: (z.infer<typeof StructuredReportSchema> & {
+      services: (RepricedLine<z.infer<typeof ServiceLineSchema>> & { mandatory: boolean })[];
+      totalEstimate: number;
+    }) | null = null;
 
     try {
       // Clean up any markdown code blocks that might wrap the JSON
@@ -583,38 +770,49 @@ Please examine the attached ${resolvedPhotoUrls.length} photograph(s) and write
       
       const parsed = JSON.parse(cleanedContent);
       analysisReport = parsed.letter || rawContent;
-      imageAnnotations = parsed.imageAnnotations || [];
-    } catch (parseError) {
-      // Check if response was truncated (ends with incomplete JSON)
-      const isTruncated = rawContent.includes('"letter"') && 
-        (!rawContent.includes('"imageAnnotations"') || !rawContent.trim().endsWith('}'));
-      
-      if (isTruncated) {
-        // Try to extract the letter content from truncated JSON
-        const letterMatch = rawContent.match(/"letter"\s*:\s*"([\s\S]*?)(?:"\s*,\s*"imageAnnotations"|"\s*}|$)/);
-        if (letterMatch && letterMatch[1]) {
-          // Unescape JSON string
-          analysisReport = letterMatch[1]
-            .replace(/\\n/g, '\n')
-            .replace(/\\"/g, '"')
-            .replace(/\\\\/g, '\\');
-        } else {
-          // Clean up any JSON formatting from raw content
-          analysisReport = rawContent
-            .replace(/^[\s\S]*?"letter"\s*:\s*"/i, '')
-            .replace(/"\s*,?\s*"imageAnnotations"[\s\S]*$/i, '')
-            .replace(/\\n/g, '\n')
-            .replace(/\\"/g, '"')
-            .replace(/\\\\/g, '\\');
-        }
+      imageAnnotations = tagAnnotations(parsed.imageAnnotations, resolvedPhotos);
+
+      const structuredResult = StructuredReportSchema.safeParse({
+        rugProfile: parsed.rugProfile ?? undefined,
+        services: parsed.services,
+      });
+      if (structuredResult.success) {
+        // The model picks the services; the catalog sets amounts, priority and portal requirement
+        const services = repriceLines(structuredResult.data.services, catalog, dimensions).map((service) => {
+          const entry = matchServiceName(catalog, service.name);
+          return {
+            ...service,
+            priority: entry?.priority ?? service.priority,
+            mandatory: entry?.mandatory ?? false,
+          };
+        });
+        structuredReport = {
+          ...structuredResult.data,
+          services,
+          totalEstimate: totalLines(services),
+        };
+        // The letter quotes the same repriced amounts as the estimate
+        analysisReport = letterWithPrices(analysisReport, formatPriceBreakdown(rugHeading, services));
       } else {
-        // If not truncated JSON, use the raw content as the report
-        analysisReport = rawContent;
+        console.warn("Structured report failed validation:", structuredResult.error.issues);
       }
+    } catch (parseError) {
+      // Usually a response cut off at max_tokens
+      console.error("AI response was not valid JSON:", parseError instanceof Error ? parseError.message : parseError);
+    }
+
+    // The letter's prices are filled from the service lines, so without them there is
+    // no estimate to send; a fresh attempt usually comes back complete
+    if (!structuredReport) {
+      return new Response(
+        JSON.stringify({ error: "The analysis came back incomplete. Please try again.", retryable: true }),
+        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
     return new Response(JSON.stringify({ 
       report: analysisReport,
+      structuredReport: structuredReport,
       imageAnnotations: imageAnnotations,
       modelUsed: model,
       processingTimeMs: processingTimeMs
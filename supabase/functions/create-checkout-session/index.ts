@@ -1,6 +1,18 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@18.5.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { roundCents } from "../_shared/payments.ts";
+import {
+  approvedSelection,
+  discountLines,
+  linesToSelectedServices,
+  sumLines,
+  type InvoiceLine,
+  type ServiceSelection,
+  type TaxLine,
+} from "../_shared/invoices.ts";
+import { combinedRate, computeTax, formatTaxLabel, NO_TAX, type JobTaxSettings } from "../_shared/tax.ts";
+import { applyDiscounts, jobDiscounts, NO_DISCOUNTS, type JobDiscountSettings } from "../_shared/discounts.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -45,24 +57,29 @@ function checkRateLimit(userId: string): { allowed: boolean; retryAfter?: number
   return { allowed: true };
 }
 
+type PaymentType = "full" | "deposit" | "balance";
+
 interface CheckoutRequest {
   jobId: string;
   clientJobAccessId: string;
-  selectedServices: {
-    rugNumber: string;
-    services: {
-      id: string;
-      name: string;
-      quantity: number;
-      unitPrice: number;
-    }[];
-  }[];
-  totalAmount: number;
+  // Not needed to pay a balance invoice. Only the ids count: prices are read from
+  // the job's approved estimates.
+  selectedServices?: ServiceSelection[];
+  paymentType?: PaymentType;
+  // Checked again here; the portal's preview is only a preview
+  couponCode?: string;
   customerEmail?: string;
   successUrl: string;
   cancelUrl: string;
 }
 
+function jsonError(message: string, status: number) {
+  return new Response(
+    JSON.stringify({ error: message }),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -118,7 +135,9 @@ serve(async (req) => {
     }
 
     const body: CheckoutRequest = await req.json();
-    const { jobId, clientJobAccessId, selectedServices, totalAmount, customerEmail, successUrl, cancelUrl } = body;
+    const { jobId, clientJobAccessId, customerEmail, successUrl, cancelUrl } = body;
+    const selectedServices = body.selectedServices || [];
+    const paymentType: PaymentType = body.paymentType || "full";
 
     // Generate request ID for logging
     const requestId = crypto.randomUUID().slice(0, 8);
@@ -127,12 +146,16 @@ serve(async (req) => {
                      'unknown';
     
     console.log(`[${requestId}] Checkout request from IP: ${clientIp.substring(0, 10)}*** User: ${userId.substring(0, 8)}***`);
-    console.log(`[${requestId}] Job: ${jobId?.substring(0, 8)}*** Amount: $${totalAmount} Services: ${selectedServices?.length || 0} rugs`);
+    console.log(`[${requestId}] Job: ${jobId?.substring(0, 8)}*** Type: ${paymentType} Services: ${selectedServices.length} rugs`);
 
     // Validate required fields
-    if (!jobId || !clientJobAccessId || !selectedServices || selectedServices.length === 0 || !totalAmount) {
+    if (!jobId || !clientJobAccessId || (paymentType !== "balance" && selectedServices.length === 0)) {
       console.warn(`[${requestId}] Missing required fields`);
-      throw new Error("Missing required fields: jobId, clientJobAccessId, selectedServices, totalAmount");
+      throw new Error("Missing required fields: jobId, clientJobAccessId, selectedServices");
+    }
+
+    if (!["full", "deposit", "balance"].includes(paymentType)) {
+      throw new Error("Invalid payment type");
     }
 
     // Use service role client for authorization checks (bypasses RLS for server-side validation)
@@ -191,30 +214,179 @@ serve(async (req) => {
       customerId = customers.data[0].id;
     }
 
-    // Build line items from selected services
+    const { data: job, error: jobError } = await supabaseAdmin
+      .from("jobs")
+      .select("job_number, organization_id")
+      .eq("id", jobId)
+      .single();
+
+    if (jobError || !job) {
+      return jsonError("Job not found", 404);
+    }
+
+    const { data: invoices } = await supabaseAdmin
+      .from("invoices")
+      .select("id, kind, amount_due, amount_paid, status")
+      .eq("job_id", jobId)
+      .neq("status", "void");
+
     const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [];
-    
-    for (const rug of selectedServices) {
-      for (const service of rug.services) {
+    let stripeDiscounts: Stripe.Checkout.SessionCreateParams.Discount[] | undefined;
+    let amount: number;
+    let serviceLines: InvoiceLine[] = [];
+    let agreedLines: InvoiceLine[] = [];
+    let discountTotal = 0;
+    let couponId: string | null = null;
+    let invoiceLines: InvoiceLine[] = [];
+    let invoiceTaxLines: TaxLine[] = [];
+    let agreedTaxLines: TaxLine[] = [];
+    let agreedTotal: number | null = null;
+    let taxRate = 0;
+    let balanceInvoiceId: string | null = null;
+
+    if (paymentType === "balance") {
+      const balanceInvoice = (invoices || []).find((i) => i.kind === "balance" && i.status === "sent");
+      if (!balanceInvoice) {
+        return jsonError("There is no balance due on this job", 409);
+      }
+
+      balanceInvoiceId = balanceInvoice.id;
+      amount = roundCents(Number(balanceInvoice.amount_due) - Number(balanceInvoice.amount_paid));
+      lineItems.push({
+        price_data: {
+          currency: "usd",
+          product_data: {
+            name: "Balance due",
+            description: `Remaining balance for Job #${job.job_number}`,
+          },
+          unit_amount: Math.round(amount * 100),
+        },
+        quantity: 1,
+      });
+    } else {
+      // The services were approved with an earlier payment; the rest is billed as a balance
+      if ((invoices || []).some((i) => i.kind !== "balance" && Number(i.amount_paid) > 0)) {
+        return jsonError("Services for this job have already been paid for", 409);
+      }
+
+      let rugDiscounts;
+      try {
+        ({ lines: serviceLines, rugDiscounts } = await approvedSelection(supabaseAdmin, jobId, selectedServices));
+      } catch (selectionError) {
+        return jsonError(selectionError instanceof Error ? selectionError.message : "Invalid selection", 400);
+      }
+
+      const { data: discountData, error: discountError } = await supabaseAdmin.rpc("job_discount_settings", {
+        _job_id: jobId,
+        _coupon_code: body.couponCode || null,
+      });
+      if (discountError) throw discountError;
+
+      const discountSettings = (discountData as JobDiscountSettings | null) ?? NO_DISCOUNTS;
+      if (discountSettings.couponError) {
+        return jsonError(discountSettings.couponError, 400);
+      }
+
+      const rugCount = new Set(serviceLines.map((l) => l.rugNumber)).size;
+      const discount = applyDiscounts(serviceLines, [...rugDiscounts, ...jobDiscounts(discountSettings, rugCount)]);
+      agreedLines = [...serviceLines, ...discountLines(discount.discounts)];
+      discountTotal = discount.total;
+      couponId = discountSettings.coupon?.id ?? null;
+
+      const { data: taxSettings, error: taxError } = await supabaseAdmin.rpc("job_tax_settings", { _job_id: jobId });
+      if (taxError) throw taxError;
+
+      const settings = (taxSettings as JobTaxSettings | null) ?? NO_TAX;
+      const tax = computeTax(discount.netLines, settings);
+      agreedTaxLines = tax.lines;
+      agreedTotal = roundCents(sumLines(serviceLines, ["service"]) - discountTotal + tax.total);
+      taxRate = combinedRate(settings);
+
+      if (paymentType === "deposit") {
+        const { data: organization } = await supabaseAdmin
+          .from("organizations")
+          .select("deposit_percentage")
+          .eq("id", job.organization_id)
+          .maybeSingle();
+
+        const depositPercentage = Number(organization?.deposit_percentage ?? 50);
+        if (depositPercentage <= 0) {
+          return jsonError("This business does not take deposits", 400);
+        }
+
+        // Taken on the taxed total; the tax itself is itemised on the balance invoice
+        amount = roundCents(agreedTotal * depositPercentage / 100);
+        const taxNote = agreedTaxLines.length > 0 ? " incl. tax" : "";
+        invoiceLines = [{
+          kind: "deposit",
+          description: `Deposit (${depositPercentage}%) on $${agreedTotal.toFixed(2)} of services${taxNote}`,
+          quantity: 1,
+          unitPrice: amount,
+          amount,
+        }];
         lineItems.push({
           price_data: {
             currency: "usd",
             product_data: {
-              name: `${service.name}`,
-              description: `${rug.rugNumber} - ${service.name}`,
+              name: `Deposit (${depositPercentage}%)`,
+              description: `Deposit on $${agreedTotal.toFixed(2)}${taxNote} for Job #${job.job_number}`,
             },
-            unit_amount: Math.round(service.unitPrice * 100), // Convert to cents
+            unit_amount: Math.round(amount * 100),
           },
-          quantity: service.quantity,
+          quantity: 1,
         });
+      } else {
+        amount = agreedTotal;
+        invoiceLines = agreedLines;
+        invoiceTaxLines = agreedTaxLines;
+        for (const line of serviceLines) {
+          lineItems.push({
+            price_data: {
+              currency: "usd",
+              product_data: {
+                name: `${line.description}`,
+                description: `${line.rugNumber} - ${line.description}`,
+              },
+              unit_amount: Math.round(line.unitPrice * 100), // Convert to cents
+            },
+            quantity: line.quantity,
+          });
+        }
+        for (const taxLine of agreedTaxLines) {
+          lineItems.push({
+            price_data: {
+              currency: "usd",
+              product_data: { name: formatTaxLabel(taxLine) },
+              unit_amount: Math.round(taxLine.amount * 100),
+            },
+            quantity: 1,
+          });
+        }
       }
     }
 
+    if (amount <= 0) {
+      return jsonError("Nothing to pay", 400);
+    }
+
+    // Stripe line items can't be negative, so the discount lines go in as a one-off coupon
+    if (paymentType === "full" && discountTotal > 0) {
+      const coupon = await stripe.coupons.create({
+        amount_off: Math.round(discountTotal * 100),
+        currency: "usd",
+        duration: "once",
+        max_redemptions: 1,
+        name: "Discount",
+      });
+      stripeDiscounts = [{ coupon: coupon.id }];
+    }
+
     // Create checkout session
     const session = await stripe.checkout.sessions.create({
       customer: customerId,
       customer_email: customerId ? undefined : email,
       line_items: lineItems,
+      discounts: stripeDiscounts,
       mode: "payment",
       success_url: successUrl,
       cancel_url: cancelUrl,
@@ -222,6 +394,7 @@ serve(async (req) => {
         jobId,
         clientJobAccessId,
         userId: userId || "",
+        paymentType,
       },
       payment_intent_data: {
         metadata: {
@@ -234,6 +407,53 @@ serve(async (req) => {
     // Get client account ID for payment record (already have clientAccount from auth check above)
     const clientId = clientAccount?.id || null;
 
+    let invoiceId = balanceInvoiceId;
+    if (!invoiceId) {
+      // A new selection replaces the draft from an earlier attempt. Drafts have no
+      // number yet, so nothing is lost from the sequence.
+      await supabaseAdmin
+        .from("invoices")
+        .update({ status: "void" })
+        .eq("job_id", jobId)
+        .in("kind", ["full", "deposit"])
+        .eq("status", "draft");
+
+      // Stays a draft until the payment completes, which numbers and issues it
+      const { data: invoice, error: invoiceError } = await supabaseAdmin
+        .from("invoices")
+        .insert({
+          job_id: jobId,
+          organization_id: job.organization_id,
+          kind: paymentType,
+          status: "draft",
+          line_items: invoiceLines,
+          subtotal: sumLines(invoiceLines, ["service", "deposit"]),
+          discount_total: -sumLines(invoiceLines, ["discount"]),
+          coupon_id: couponId,
+          tax_lines: invoiceTaxLines,
+          tax_total: roundCents(invoiceTaxLines.reduce((sum, t) => sum + t.amount, 0)),
+          amount_due: amount,
+        })
+        .select("id")
+        .single();
+
+      if (invoiceError) {
+        // The invoice trigger refuses a coupon whose last use another checkout
+        // took since job_discount_settings looked
+        if (invoiceError.code === "P0001") {
+          await stripe.checkout.sessions.expire(session.id);
+          return jsonError(invoiceError.message, 400);
+        }
+        throw invoiceError;
+      }
+      invoiceId = invoice.id;
+
+      await supabaseAdmin
+        .from("jobs")
+        .update({ agreed_total: agreedTotal, agreed_line_items: agreedLines, agreed_tax_lines: agreedTaxLines })
+        .eq("id", jobId);
+    }
+
     // Check for existing pending payment for this job and delete it
     await supabaseAdmin
       .from("payments")
@@ -245,12 +465,17 @@ serve(async (req) => {
     await supabaseAdmin.from("payments").insert({
       job_id: jobId,
       client_id: clientId,
+      invoice_id: invoiceId,
       stripe_checkout_session_id: session.id,
-      amount: totalAmount,
+      amount,
       status: "pending",
       metadata: {
-        selectedServices,
+        selectedServices: linesToSelectedServices(serviceLines),
+        couponCode: body.couponCode || null,
+        // Lets a line refund give back that line's tax too
+        taxRate,
         clientJobAccessId,
+        paymentType,
       },
     });
 
@@ -1,59 +1,86 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { jsPDF } from "https://esm.sh/jspdf@2.5.1";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import type { InvoiceLine, TaxLine } from "../_shared/invoices.ts";
+import { formatTaxLabel } from "../_shared/tax.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface SelectedService {
-  id: string;
-  name: string;
-  quantity: number;
-  unitPrice: number;
+interface InvoiceRequest {
+  invoiceId: string;
 }
 
-interface RugDetail {
-  rugNumber: string;
-  rugType: string;
-  dimensions: string;
-  services: SelectedService[];
-  total: number;
-}
+const KIND_TITLES: Record<string, string> = {
+  full: "INVOICE",
+  deposit: "DEPOSIT INVOICE",
+  balance: "BALANCE INVOICE",
+};
 
-interface InvoiceRequest {
-  jobNumber: string;
-  clientName: string;
-  clientEmail: string;
-  amount: number; // in cents
-  rugs: RugDetail[];
-  businessName?: string;
-  businessEmail?: string;
-  businessPhone?: string;
-  businessAddress?: string;
-  paidAt: string;
-}
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+
+const money = (amount: number) => `${amount < 0 ? "-" : ""}$${Math.abs(amount).toFixed(2)}`;
 
+// Renders a stored invoice. Whoever can see the invoice row (the business's staff,
+// the job's client, or another function using the service role) can download it.
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const {
-      jobNumber,
-      clientName,
-      clientEmail,
-      amount,
-      rugs,
-      businessName,
-      businessEmail,
-      businessPhone,
-      businessAddress,
-      paidAt,
-    }: InvoiceRequest = await req.json();
-
-    
+    const { invoiceId }: InvoiceRequest = await req.json();
+    if (!invoiceId) {
+      throw new Error("invoiceId is required");
+    }
+
+    // The caller's own client, so row level security decides who may read the invoice
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } } }
+    );
+
+    const { data: invoice, error: invoiceError } = await supabaseClient
+      .from("invoices")
+      .select("*")
+      .eq("id", invoiceId)
+      .maybeSingle();
+
+    if (invoiceError || !invoice) {
+      return new Response(
+        JSON.stringify({ error: "Invoice not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (invoice.status === "draft") {
+      throw new Error("Draft invoices have no PDF until they are issued");
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: job } = await supabaseAdmin
+      .from("jobs")
+      .select("job_number, client_name, client_email, user_id")
+      .eq("id", invoice.job_id)
+      .single();
+
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("business_name, business_email, business_phone, business_address")
+      .eq("user_id", job?.user_id)
+      .maybeSingle();
+
+    const lines = (invoice.line_items || []) as InvoiceLine[];
+    const taxLines = (invoice.tax_lines || []) as TaxLine[];
+    const invoiceNumber = invoice.invoice_number || invoice.id.slice(0, 8).toUpperCase();
 
     const doc = new jsPDF();
     const pageWidth = doc.internal.pageSize.getWidth();
@@ -64,54 +91,61 @@ serve(async (req) => {
     doc.setFontSize(24);
     doc.setFont("helvetica", "bold");
     doc.setTextColor(16, 185, 129); // Emerald green
-    doc.text(businessName || "Rug Cleaning Service", margin, y);
+    doc.text(profile?.business_name || "Rug Cleaning Service", margin, y);
     y += 10;
 
     doc.setFontSize(10);
     doc.setFont("helvetica", "normal");
     doc.setTextColor(107, 114, 128); // Gray
-    if (businessAddress) {
-      doc.text(businessAddress, margin, y);
+    if (profile?.business_address) {
+      doc.text(profile.business_address, margin, y);
       y += 5;
     }
-    if (businessPhone) {
-      doc.text(`Phone: ${businessPhone}`, margin, y);
+    if (profile?.business_phone) {
+      doc.text(`Phone: ${profile.business_phone}`, margin, y);
       y += 5;
     }
-    if (businessEmail) {
-      doc.text(`Email: ${businessEmail}`, margin, y);
+    if (profile?.business_email) {
+      doc.text(`Email: ${profile.business_email}`, margin, y);
       y += 5;
     }
 
     // Invoice title and number - right aligned
-    const invoiceDate = new Date(paidAt).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-    const invoiceNumber = `INV-${jobNumber}-${Date.now().toString().slice(-6)}`;
-
-    doc.setFontSize(28);
+    doc.setFontSize(invoice.kind === "full" ? 28 : 20);
     doc.setFont("helvetica", "bold");
     doc.setTextColor(31, 41, 55); // Dark gray
-    doc.text("INVOICE", pageWidth - margin, 25, { align: "right" });
+    doc.text(KIND_TITLES[invoice.kind] || "INVOICE", pageWidth - margin, 25, { align: "right" });
 
     doc.setFontSize(10);
     doc.setFont("helvetica", "normal");
     doc.setTextColor(107, 114, 128);
     doc.text(`Invoice #: ${invoiceNumber}`, pageWidth - margin, 35, { align: "right" });
-    doc.text(`Date: ${invoiceDate}`, pageWidth - margin, 42, { align: "right" });
-    doc.text(`Job #: ${jobNumber}`, pageWidth - margin, 49, { align: "right" });
-
-    y = Math.max(y, 55) + 10;
+    doc.text(`Date: ${formatDate(invoice.issued_at)}`, pageWidth - margin, 42, { align: "right" });
+    doc.text(`Job #: ${job?.job_number || ""}`, pageWidth - margin, 49, { align: "right" });
+    if (invoice.due_at && invoice.status === "sent") {
+      doc.text(`Due: ${formatDate(invoice.due_at)}`, pageWidth - margin, 56, { align: "right" });
+    }
 
-    // Paid badge
-    doc.setFillColor(209, 250, 229); // Light green
-    doc.roundedRect(pageWidth - margin - 50, y - 5, 50, 18, 3, 3, "F");
+    y = Math.max(y, 62) + 6;
+
+    // Status badge. Refunded invoices were paid; the refund went out as a credit note.
+    const settled = ["paid", "partially_refunded", "refunded"].includes(invoice.status);
+    const badge = invoice.status === "paid"
+      ? { text: "PAID", fill: [209, 250, 229], color: [5, 150, 105] }
+      : invoice.status === "partially_refunded"
+      ? { text: "PARTLY REFUNDED", fill: [243, 244, 246], color: [107, 114, 128] }
+      : invoice.status === "refunded"
+      ? { text: "REFUNDED", fill: [243, 244, 246], color: [107, 114, 128] }
+      : invoice.status === "void"
+      ? { text: "VOID", fill: [243, 244, 246], color: [107, 114, 128] }
+      : { text: "DUE", fill: [254, 243, 199], color: [180, 83, 9] };
     doc.setFontSize(12);
     doc.setFont("helvetica", "bold");
-    doc.setTextColor(5, 150, 105); // Green
-    doc.text("✓ PAID", pageWidth - margin - 25, y + 6, { align: "center" });
+    const badgeWidth = Math.max(50, doc.getTextWidth(badge.text) + 16);
+    doc.setFillColor(badge.fill[0], badge.fill[1], badge.fill[2]);
+    doc.roundedRect(pageWidth - margin - badgeWidth, y - 5, badgeWidth, 18, 3, 3, "F");
+    doc.setTextColor(badge.color[0], badge.color[1], badge.color[2]);
+    doc.text(badge.text, pageWidth - margin - badgeWidth / 2, y + 6, { align: "center" });
 
     y += 20;
 
@@ -131,14 +165,14 @@ serve(async (req) => {
     doc.setFont("helvetica", "normal");
     doc.setTextColor(31, 41, 55);
     doc.setFontSize(12);
-    doc.text(clientName, margin, y);
+    doc.text(job?.client_name || "", margin, y);
     y += 6;
     doc.setFontSize(10);
     doc.setTextColor(107, 114, 128);
-    doc.text(clientEmail, margin, y);
+    doc.text(job?.client_email || "", margin, y);
     y += 15;
 
-    // Services table header
+    // Items table header
     doc.setFillColor(249, 250, 251); // Light gray
     doc.rect(margin, y, pageWidth - (margin * 2), 10, "F");
 
@@ -152,80 +186,117 @@ serve(async (req) => {
 
     y += 15;
 
-    // Services for each rug
-    doc.setFont("helvetica", "normal");
-    let grandTotal = 0;
+    const drawLine = (line: InvoiceLine, indent: number) => {
+      if (y > 260) {
+        doc.addPage();
+        y = 20;
+      }
 
-    for (const rug of rugs) {
-      // Check if we need a new page
+      // Truncate long descriptions
+      let description = line.description;
+      if (description.length > 45) {
+        description = description.substring(0, 42) + "...";
+      }
+
+      doc.setFontSize(10);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(55, 65, 81);
+      doc.text(description, margin + indent, y);
+      doc.text(String(line.quantity), pageWidth - margin - 65, y, { align: "center" });
+      doc.text(money(line.unitPrice), pageWidth - margin - 35, y, { align: "right" });
+      doc.text(money(line.amount), pageWidth - margin - 5, y, { align: "right" });
+      y += 7;
+    };
+
+    // Services grouped by rug, then anything not tied to a rug (deposits)
+    const charges = lines.filter((l) => l.kind === "service" || l.kind === "deposit");
+    const rugNumbers = [...new Set(charges.map((l) => l.rugNumber).filter(Boolean))] as string[];
+
+    for (const rugNumber of rugNumbers) {
       if (y > 250) {
         doc.addPage();
         y = 20;
       }
-
-      // Rug header
       doc.setFontSize(11);
       doc.setFont("helvetica", "bold");
       doc.setTextColor(31, 41, 55);
-      doc.text(`${rug.rugNumber} - ${rug.rugType}`, margin + 5, y);
-      doc.setFontSize(9);
-      doc.setFont("helvetica", "normal");
-      doc.setTextColor(107, 114, 128);
-      doc.text(rug.dimensions, margin + 5, y + 5);
-      y += 12;
-
-      // Services
-      for (const service of rug.services) {
-        const lineTotal = service.quantity * service.unitPrice;
-        
-        doc.setFontSize(10);
-        doc.setTextColor(55, 65, 81);
-        
-        // Truncate long service names
-        let serviceName = service.name;
-        if (serviceName.length > 40) {
-          serviceName = serviceName.substring(0, 37) + "...";
-        }
-        
-        doc.text(serviceName, margin + 10, y);
-        doc.text(service.quantity.toString(), pageWidth - margin - 65, y, { align: "center" });
-        doc.text(`$${service.unitPrice.toFixed(2)}`, pageWidth - margin - 35, y, { align: "right" });
-        doc.text(`$${lineTotal.toFixed(2)}`, pageWidth - margin - 5, y, { align: "right" });
-        y += 7;
+      doc.text(rugNumber, margin + 5, y);
+      y += 7;
+
+      for (const line of charges.filter((l) => l.rugNumber === rugNumber)) {
+        drawLine(line, 10);
       }
+      y += 3;
+    }
+    for (const line of charges.filter((l) => !l.rugNumber)) {
+      drawLine(line, 5);
+    }
 
-      // Rug subtotal
-      doc.setDrawColor(229, 231, 235);
-      doc.line(pageWidth - margin - 80, y, pageWidth - margin, y);
-      y += 5;
-      doc.setFont("helvetica", "bold");
-      doc.setTextColor(31, 41, 55);
-      doc.text(`Subtotal: $${rug.total.toFixed(2)}`, pageWidth - margin - 5, y, { align: "right" });
-      y += 12;
+    // Totals
+    const totalRows: { label: string; amount: number; bold?: boolean }[] = [
+      { label: "Subtotal", amount: Number(invoice.subtotal) },
+    ];
+    for (const line of lines.filter((l) => l.kind === "discount")) {
+      const label = line.rugNumber ? `${line.rugNumber}: ${line.description}` : line.description;
+      totalRows.push({ label, amount: line.amount });
+    }
+    for (const tax of taxLines) {
+      totalRows.push({ label: formatTaxLabel(tax), amount: tax.amount });
+    }
+    for (const line of lines.filter((l) => l.kind === "credit")) {
+      totalRows.push({ label: line.description, amount: line.amount });
+    }
+
+    y += 5;
+    doc.setDrawColor(229, 231, 235);
+    doc.line(pageWidth - margin - 90, y, pageWidth - margin, y);
+    y += 7;
 
-      grandTotal += rug.total;
+    for (const row of totalRows) {
+      if (y > 250) {
+        doc.addPage();
+        y = 20;
+      }
+      doc.setFontSize(10);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(55, 65, 81);
+      doc.text(row.label, pageWidth - margin - 90, y);
+      doc.text(money(row.amount), pageWidth - margin - 5, y, { align: "right" });
+      y += 7;
     }
 
-    // Grand total
+    // Amount due / paid
     y += 5;
     doc.setFillColor(16, 185, 129); // Emerald
     doc.roundedRect(pageWidth - margin - 100, y - 5, 100, 25, 3, 3, "F");
-    
+
     doc.setFontSize(12);
     doc.setFont("helvetica", "bold");
     doc.setTextColor(255, 255, 255);
-    doc.text("TOTAL PAID", pageWidth - margin - 90, y + 5);
+    doc.text(settled ? "TOTAL PAID" : "AMOUNT DUE", pageWidth - margin - 90, y + 5);
     doc.setFontSize(16);
-    const formattedAmount = (amount / 100).toFixed(2);
-    doc.text(`$${formattedAmount}`, pageWidth - margin - 10, y + 12, { align: "right" });
+    doc.text(money(Number(invoice.amount_due)), pageWidth - margin - 10, y + 12, { align: "right" });
 
     y += 35;
 
-    // Payment confirmation
     doc.setFontSize(10);
-    doc.setTextColor(5, 150, 105);
     doc.setFont("helvetica", "normal");
-    doc.text(`Payment received on ${invoiceDate}`, margin, y);
+    if (settled && invoice.paid_at) {
+      doc.setTextColor(5, 150, 105);
+      doc.text(`Payment received on ${formatDate(invoice.paid_at)}`, margin, y);
+      const refunded = Number(invoice.amount_due) - Number(invoice.amount_paid);
+      if (invoice.status !== "paid" && refunded > 0) {
+        doc.setTextColor(107, 114, 128);
+        doc.text(`Refunded: ${money(refunded)}`, margin, y + 14);
+      }
+    } else if (invoice.status === "sent" && Number(invoice.amount_paid) > 0) {
+      doc.setTextColor(107, 114, 128);
+      doc.text(
+        `Paid so far: ${money(Number(invoice.amount_paid))}. Remaining: ${money(Number(invoice.amount_due) - Number(invoice.amount_paid))}`,
+        margin,
+        y
+      );
+    }
 
     // Footer
     const footerY = doc.internal.pageSize.getHeight() - 20;
@@ -236,13 +307,11 @@ serve(async (req) => {
     // Convert to base64
     const pdfBase64 = doc.output("datauristring").split(",")[1];
 
-    
-
     return new Response(
-      JSON.stringify({ 
-        success: true, 
+      JSON.stringify({
+        success: true,
         pdfBase64,
-        invoiceNumber 
+        invoiceNumber,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
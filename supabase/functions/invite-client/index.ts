@@ -1,5 +1,7 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { Resend } from 'https://esm.sh/resend@2.0.0';
+import { loadEmailTemplate, sendEmail } from '../_shared/email.ts';
+import { defaultEmailTemplate, renderEmail, type EmailTemplateContent } from '../_shared/emailTemplates.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,25 +17,6 @@ interface InviteRequest {
   portalUrl: string;
 }
 
-// Helper function to escape HTML
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;');
-}
-
-// Replace template variables
-function replaceTemplateVariables(template: string, variables: Record<string, string>): string {
-  let result = template;
-  for (const [key, value] of Object.entries(variables)) {
-    result = result.replace(new RegExp(`{{${key}}}`, 'g'), value);
-  }
-  return result;
-}
-
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -159,7 +142,7 @@ Deno.serve(async (req) => {
     let businessName = 'Rug Cleaning Service';
     let businessPhone = '';
     let businessEmail = '';
-    let customTemplate = null;
+    let template: EmailTemplateContent = defaultEmailTemplate('client_invite');
 
     if (job?.user_id) {
       // Get branding
@@ -175,17 +158,7 @@ Deno.serve(async (req) => {
         businessEmail = profile.business_email || '';
       }
 
-      // Check for custom email template
-      const { data: template } = await supabaseAdmin
-        .from('email_templates')
-        .select('subject, body')
-        .eq('user_id', job.user_id)
-        .eq('template_type', 'client_invite')
-        .single();
-
-      if (template) {
-        customTemplate = template;
-      }
+      template = await loadEmailTemplate(supabaseAdmin, job.user_id, 'client_invite');
     }
 
     // Send invite email
@@ -204,79 +177,21 @@ Deno.serve(async (req) => {
           portal_link: portalUrl,
         };
 
-        let emailSubject: string;
-        let emailBody: string;
-
-        if (customTemplate) {
-          // Use custom template
-          emailSubject = replaceTemplateVariables(customTemplate.subject, templateVariables);
-          emailBody = replaceTemplateVariables(customTemplate.body, templateVariables);
-        } else {
-          // Use default template
-          emailSubject = `Your Rug Inspection Estimate is Ready - ${businessName}`;
-          emailBody = `Dear ${fullName || 'Valued Customer'},
-
-Thank you for choosing ${businessName} for your rug care needs.
-
-We have completed the inspection of your rugs and prepared a detailed estimate for the recommended services. Please click the link below to review your estimate and approve the services you'd like us to proceed with:
-
-${portalUrl}
-
-Your Job Number: #${jobNumber || 'N/A'}
-
-If you have any questions, please don't hesitate to contact us${businessPhone ? ` at ${businessPhone}` : ''}.
-
-Best regards,
-${businessName}`;
-        }
-
-        // Convert plain text to HTML
-        const emailHtml = `
-          <!DOCTYPE html>
-          <html>
-          <head>
-            <meta charset="utf-8">
-            <style>
-              body { font-family: 'Segoe UI', Arial, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background: #f3f4f6; }
-              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-              .header { background: linear-gradient(135deg, #1e40af, #3b82f6); color: white; padding: 40px 30px; text-align: center; border-radius: 16px 16px 0 0; }
-              .content { background: white; padding: 40px 30px; border-radius: 0 0 16px 16px; }
-              .cta-button { display: inline-block; background: #3b82f6; color: white; padding: 15px 30px; border-radius: 8px; text-decoration: none; font-weight: bold; margin: 25px 0; }
-              .footer { text-align: center; padding: 30px 20px; color: #6b7280; font-size: 14px; }
-            </style>
-          </head>
-          <body>
-            <div class="container">
-              <div class="header">
-                <h1 style="margin: 0; font-size: 28px;">${escapeHtml(businessName)}</h1>
-                <p style="margin: 10px 0 0; opacity: 0.9;">Your Estimate is Ready</p>
-              </div>
-              <div class="content">
-                ${emailBody.split('\n').map(line => 
-                  line.startsWith('http') 
-                    ? `<p style="text-align: center;"><a href="${escapeHtml(line)}" class="cta-button">View Your Estimate</a></p>`
-                    : `<p style="margin: 15px 0;">${escapeHtml(line) || '&nbsp;'}</p>`
-                ).join('')}
-              </div>
-              <div class="footer">
-                ${businessPhone ? `<p style="margin: 0;">📞 ${escapeHtml(businessPhone)}</p>` : ''}
-                ${businessEmail ? `<p style="margin: 5px 0 0;">✉️ ${escapeHtml(businessEmail)}</p>` : ''}
-              </div>
-            </div>
-          </body>
-          </html>
-        `;
+        const email = renderEmail('client_invite', template, templateVariables);
 
-        const { error: emailError } = await resend.emails.send({
+        const { error: emailError } = await sendEmail(supabaseAdmin, resend, {
+          templateType: 'client_invite',
           from: `${businessName} <${fromEmail}>`,
-          to: [normalizedEmail],
-          subject: emailSubject,
-          html: emailHtml,
+          to: normalizedEmail,
+          subject: email.subject,
+          html: email.html,
+          text: email.text,
+          jobId,
         });
 
         if (emailError) {
           console.error(`[${requestId}] Error sending invite email:`, emailError);
-          emailErrorMessage = typeof emailError === 'object' ? JSON.stringify(emailError) : String(emailError);
+          emailErrorMessage = emailError;
         } else {
           console.log(`[${requestId}] Invite email sent successfully`);
           emailSentSuccessfully = true;
@@ -0,0 +1,151 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Resend } from 'https://esm.sh/resend@2.0.0';
+import { loadEmailTemplate, sendEmail } from '../_shared/email.ts';
+import { renderEmail } from '../_shared/emailTemplates.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface TeamInviteRequest {
+  invitationId: string;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  manager: 'Manager',
+  inspector: 'Inspector',
+  front_desk: 'Front desk',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Emails a pending team invitation. The invitation row itself is created by the
+// inviting owner/manager through RLS; this only sends the join link for it.
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+    const { data: { user } } = await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (!user) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const { invitationId } = await req.json() as TeamInviteRequest;
+    if (!invitationId) {
+      return jsonResponse({ error: 'Invitation ID is required' }, 400);
+    }
+
+    const requestId = crypto.randomUUID().slice(0, 8);
+    console.log(`[${requestId}] Team invitation email for ${invitationId.substring(0, 8)}***`);
+
+    const { data: invitation, error: invitationError } = await supabaseAdmin
+      .from('organization_invitations')
+      .select('id, organization_id, email, role, token, accepted_at, revoked_at, organizations(name)')
+      .eq('id', invitationId)
+      .maybeSingle();
+
+    if (invitationError) throw invitationError;
+
+    if (!invitation || invitation.accepted_at || invitation.revoked_at) {
+      return jsonResponse({ error: 'Invitation not found' }, 404);
+    }
+
+    // Only owners and managers of the inviting business may send its invitations
+    const { data: inviter } = await supabaseAdmin
+      .from('organization_members')
+      .select('role, full_name')
+      .eq('organization_id', invitation.organization_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!inviter || !['owner', 'manager'].includes(inviter.role)) {
+      return jsonResponse({ error: 'Not allowed to invite to this team' }, 403);
+    }
+
+    const resendApiKey = Deno.env.get('RESEND_API_KEY');
+    if (!resendApiKey) {
+      console.log(`[${requestId}] Skipping email - no RESEND_API_KEY`);
+      return jsonResponse({ success: true, emailSent: false });
+    }
+
+    // The link is built here from the configured app URL, never taken from the
+    // caller, so the token can only be sent to our own site
+    const siteUrl = Deno.env.get('SITE_URL')?.replace(/\/$/, '');
+    if (!siteUrl) {
+      console.error(`[${requestId}] SITE_URL not configured`);
+      return jsonResponse({ error: 'Team invitations are not configured' }, 500);
+    }
+    const joinUrl = `${siteUrl}/team/join/${invitation.token}`;
+
+    const organization = invitation.organizations as { name: string } | null;
+    const businessName = organization?.name || 'RugBoost';
+    const inviterName = inviter.full_name || user.email || 'Your team';
+    const roleLabel = ROLE_LABELS[invitation.role] || invitation.role;
+
+    const resend = new Resend(resendApiKey);
+    const fromEmail = Deno.env.get('FROM_EMAIL') || 'onboarding@resend.dev';
+
+    // Templates belong to the business, so the owner's set is used whoever invites
+    const { data: owner } = await supabaseAdmin
+      .from('organization_members')
+      .select('user_id')
+      .eq('organization_id', invitation.organization_id)
+      .eq('role', 'owner')
+      .limit(1)
+      .maybeSingle();
+
+    const template = await loadEmailTemplate(supabaseAdmin, owner?.user_id, 'team_invite');
+    const email = renderEmail('team_invite', template, {
+      business_name: businessName,
+      inviter_name: inviterName,
+      team_role: roleLabel,
+      invite_email: invitation.email,
+      join_link: joinUrl,
+    });
+
+    const { error: emailError } = await sendEmail(supabaseAdmin, resend, {
+      templateType: 'team_invite',
+      from: `${businessName} <${fromEmail}>`,
+      to: invitation.email,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      organizationId: invitation.organization_id,
+    });
+
+    if (emailError) {
+      console.error(`[${requestId}] Error sending team invitation:`, emailError);
+      return jsonResponse({ error: 'Failed to send invitation email' }, 502);
+    }
+
+    console.log(`[${requestId}] Team invitation sent`);
+    return jsonResponse({ success: true, emailSent: true });
+  } catch (error: unknown) {
+    console.error('Invite team member error:', error instanceof Error ? error.message : 'Unknown error');
+    const errorMessage = error instanceof Error ? error.message : 'Failed to send team invitation';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,163 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Resend } from 'https://esm.sh/resend@2.0.0';
+import { loadEmailTemplate, sendEmail } from '../_shared/email.ts';
+import { messageSection, renderEmail } from '../_shared/emailTemplates.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface NewMessageRequest {
+  messageId: string;
+  jobUrl?: string;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Emails the job owner when a client posts in the job thread.
+// Staff also get an in-app notification from the job_messages trigger; the email is the
+// fallback for when they aren't in the app, so it is only sent for the first unread
+// client message in a thread rather than for every message.
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    // Only the sender may trigger the email for their message
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+    const { data: { user } } = await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (!user) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const { messageId, jobUrl } = await req.json() as NewMessageRequest;
+    if (!messageId) {
+      return jsonResponse({ error: 'Message ID is required' }, 400);
+    }
+
+    const requestId = crypto.randomUUID().slice(0, 8);
+    console.log(`[${requestId}] New message notification for ${messageId.substring(0, 8)}***`);
+
+    const { data: message, error: messageError } = await supabaseAdmin
+      .from('job_messages')
+      .select('id, job_id, sender_id, sender_role, body, created_at')
+      .eq('id', messageId)
+      .maybeSingle();
+
+    if (messageError) throw messageError;
+
+    if (!message || message.sender_id !== user.id || message.sender_role !== 'client') {
+      return jsonResponse({ error: 'Message not found' }, 404);
+    }
+
+    // Staff already have an unread message waiting in this thread - don't email again
+    const { count: earlierUnread, error: countError } = await supabaseAdmin
+      .from('job_messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', message.job_id)
+      .eq('sender_role', 'client')
+      .is('read_at', null)
+      .lt('created_at', message.created_at);
+
+    if (countError) throw countError;
+
+    if ((earlierUnread ?? 0) > 0) {
+      console.log(`[${requestId}] Skipping email - ${earlierUnread} earlier unread message(s)`);
+      return jsonResponse({ success: true, emailSent: false });
+    }
+
+    const { data: job, error: jobError } = await supabaseAdmin
+      .from('jobs')
+      .select('user_id, job_number, client_name')
+      .eq('id', message.job_id)
+      .single();
+
+    if (jobError) throw jobError;
+
+    let businessName = 'RugBoost';
+    let staffEmail = '';
+
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('business_name, business_email, business_phone')
+      .eq('user_id', job.user_id)
+      .maybeSingle();
+
+    if (profile) {
+      businessName = profile.business_name || businessName;
+      staffEmail = profile.business_email || '';
+    }
+
+    if (!staffEmail) {
+      const { data: staffUser } = await supabaseAdmin.auth.admin.getUserById(job.user_id);
+      staffEmail = staffUser?.user?.email || '';
+    }
+
+    const resendApiKey = Deno.env.get('RESEND_API_KEY');
+    if (!resendApiKey || !staffEmail) {
+      console.log(`[${requestId}] Skipping email - no RESEND_API_KEY or staff email`);
+      return jsonResponse({ success: true, emailSent: false });
+    }
+
+    const resend = new Resend(resendApiKey);
+    const fromEmail = Deno.env.get('FROM_EMAIL') || 'onboarding@resend.dev';
+
+    const template = await loadEmailTemplate(supabaseAdmin, job.user_id, 'new_message');
+    const email = renderEmail(
+      'new_message',
+      template,
+      {
+        client_name: job.client_name,
+        business_name: businessName,
+        business_phone: profile?.business_phone || '',
+        business_email: profile?.business_email || '',
+        job_number: job.job_number,
+        message_link: jobUrl || '',
+      },
+      [messageSection(message.body)]
+    );
+
+    const { error: emailError } = await sendEmail(supabaseAdmin, resend, {
+      templateType: 'new_message',
+      from: `${businessName} <${fromEmail}>`,
+      to: staffEmail,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      jobId: message.job_id,
+    });
+
+    if (emailError) {
+      console.error(`[${requestId}] Error sending message email:`, emailError);
+      return jsonResponse({ success: true, emailSent: false });
+    }
+
+    console.log(`[${requestId}] Message email sent`);
+    return jsonResponse({ success: true, emailSent: true });
+  } catch (error: unknown) {
+    console.error('Notify new message error:', error instanceof Error ? error.message : 'Unknown error');
+    const errorMessage = error instanceof Error ? error.message : 'Failed to send message notification';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
 import { Resend } from "https://esm.sh/resend@2.0.0";
+import { loadEmailTemplate, sendEmail } from "../_shared/email.ts";
+import { formatEmailAmount, renderEmail } from "../_shared/emailTemplates.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,7 +11,10 @@ const corsHeaders = {
 
 interface NotificationRequest {
   to: string;
+  // Used to find the business's saved template
+  jobId?: string;
   businessName: string;
+  businessPhone?: string;
   jobNumber: string;
   clientName: string;
   amount: number;
@@ -23,83 +29,50 @@ serve(async (req) => {
   try {
     const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 
-    const { to, businessName, jobNumber, clientName, amount }: NotificationRequest = await req.json();
+    const { to, jobId, businessName, businessPhone, jobNumber, clientName, amount }: NotificationRequest = await req.json();
 
     if (!to || !jobNumber || !clientName) {
       throw new Error("Missing required fields");
     }
 
-    const formattedAmount = (amount / 100).toFixed(2);
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const { data: job } = jobId
+      ? await supabaseAdmin.from("jobs").select("user_id").eq("id", jobId).maybeSingle()
+      : { data: null };
+    const template = await loadEmailTemplate(supabaseAdmin, job?.user_id, "payment_received");
+
+    const email = renderEmail("payment_received", template, {
+      client_name: clientName,
+      business_name: businessName || "RugBoost",
+      business_phone: businessPhone || "",
+      business_email: to,
+      job_number: jobNumber,
+      amount: formatEmailAmount(amount),
+    });
 
-    const emailResponse = await resend.emails.send({
+    const { messageId, error: emailError } = await sendEmail(supabaseAdmin, resend, {
+      templateType: "payment_received",
       from: `${businessName || "RugBoost"} <onboarding@resend.dev>`,
-      to: [to],
-      subject: `🎉 Payment Received - Job #${jobNumber}`,
-      html: `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <style>
-            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-            .header { background: linear-gradient(135deg, #1a3d5c, #2c5f7c); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
-            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
-            .highlight { background: #e8f5e9; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #4caf50; }
-            .amount { font-size: 28px; color: #2e7d32; font-weight: bold; }
-            .details { margin: 20px 0; }
-            .details-row { display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid #eee; }
-            .footer { text-align: center; margin-top: 20px; color: #666; font-size: 14px; }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <div class="header">
-              <h1>💰 Payment Received!</h1>
-            </div>
-            <div class="content">
-              <div class="highlight">
-                <p style="margin: 0;">Amount Received</p>
-                <p class="amount">$${formattedAmount}</p>
-              </div>
-              
-              <div class="details">
-                <div class="details-row">
-                  <span><strong>Job Number:</strong></span>
-                  <span>#${jobNumber}</span>
-                </div>
-                <div class="details-row">
-                  <span><strong>Client:</strong></span>
-                  <span>${clientName}</span>
-                </div>
-                <div class="details-row">
-                  <span><strong>Status:</strong></span>
-                  <span style="color: #4caf50;">✓ Paid - Ready to Begin</span>
-                </div>
-              </div>
-              
-              <p>The client has approved services and completed payment. You can now begin work on this job.</p>
-              
-              <p><strong>Next Steps:</strong></p>
-              <ul>
-                <li>Review the approved services in your dashboard</li>
-                <li>Begin work on the rugs</li>
-                <li>Update job status as you progress</li>
-              </ul>
-              
-              <div class="footer">
-                <p>This notification was sent automatically by RugBoost.</p>
-              </div>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
+      to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      jobId: job ? jobId : null,
     });
 
-    console.log("Payment notification sent:", emailResponse);
+    if (emailError) {
+      throw new Error(`Failed to send email: ${emailError}`);
+    }
+
+    console.log("Payment notification sent:", messageId);
 
     return new Response(
-      JSON.stringify({ success: true, emailId: emailResponse.data?.id || null }),
+      JSON.stringify({ success: true, emailId: messageId }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
         status: 200,
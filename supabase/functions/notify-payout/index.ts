@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { Resend } from "https://esm.sh/resend@2.0.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadEmailTemplate, sendEmail } from "../_shared/email.ts";
+import { detailsSection, renderEmail, type EmailTemplateType } from "../_shared/emailTemplates.ts";
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 const fromEmail = Deno.env.get("FROM_EMAIL") || "noreply@rugboost.app";
@@ -75,151 +77,67 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    let subject: string;
-    let htmlContent: string;
-
-    if (notification_type === "created") {
-      subject = `Payout Initiated - ${formatCurrency(payout.amount)}`;
-      htmlContent = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <meta charset="utf-8">
-          <style>
-            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
-            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-            .header { background: linear-gradient(135deg, #4f46e5 0%, #7c3aed 100%); color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center; }
-            .content { background: #f9fafb; padding: 30px; border-radius: 0 0 12px 12px; }
-            .amount { font-size: 32px; font-weight: bold; color: #4f46e5; margin: 20px 0; }
-            .details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
-            .detail-row { display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid #e5e7eb; }
-            .detail-row:last-child { border-bottom: none; }
-            .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
-            .badge { display: inline-block; background: #fef3c7; color: #92400e; padding: 4px 12px; border-radius: 20px; font-size: 14px; font-weight: 500; }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <div class="header">
-              <h1 style="margin: 0;">💰 Payout Initiated</h1>
-            </div>
-            <div class="content">
-              <p>Hello ${businessName},</p>
-              <p>Great news! A payout has been initiated for your account:</p>
-              
-              <div class="amount">${formatCurrency(payout.amount)}</div>
-              
-              <div class="details">
-                <div class="detail-row">
-                  <span>Status</span>
-                  <span class="badge">Pending</span>
-                </div>
-                <div class="detail-row">
-                  <span>Payment Method</span>
-                  <span>${payout.payment_method || "To be determined"}</span>
-                </div>
-                ${payout.period_start && payout.period_end ? `
-                <div class="detail-row">
-                  <span>Period</span>
-                  <span>${payout.period_start} to ${payout.period_end}</span>
-                </div>
-                ` : ""}
-                ${payout.notes ? `
-                <div class="detail-row">
-                  <span>Notes</span>
-                  <span>${payout.notes}</span>
-                </div>
-                ` : ""}
-              </div>
-              
-              <p>You will receive another notification once the payout has been completed and the funds have been transferred.</p>
-            </div>
-            <div class="footer">
-              <p>This is an automated message from RugBoost Platform</p>
-            </div>
-          </div>
-        </body>
-        </html>
-      `;
-    } else {
-      subject = `Payout Completed - ${formatCurrency(payout.amount)}`;
-      htmlContent = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <meta charset="utf-8">
-          <style>
-            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
-            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-            .header { background: linear-gradient(135deg, #059669 0%, #10b981 100%); color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center; }
-            .content { background: #f9fafb; padding: 30px; border-radius: 0 0 12px 12px; }
-            .amount { font-size: 32px; font-weight: bold; color: #059669; margin: 20px 0; }
-            .details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
-            .detail-row { display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid #e5e7eb; }
-            .detail-row:last-child { border-bottom: none; }
-            .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
-            .badge { display: inline-block; background: #d1fae5; color: #065f46; padding: 4px 12px; border-radius: 20px; font-size: 14px; font-weight: 500; }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <div class="header">
-              <h1 style="margin: 0;">✅ Payout Completed</h1>
-            </div>
-            <div class="content">
-              <p>Hello ${businessName},</p>
-              <p>Your payout has been successfully completed!</p>
-              
-              <div class="amount">${formatCurrency(payout.amount)}</div>
-              
-              <div class="details">
-                <div class="detail-row">
-                  <span>Status</span>
-                  <span class="badge">Completed</span>
-                </div>
-                <div class="detail-row">
-                  <span>Payment Method</span>
-                  <span>${payout.payment_method || "N/A"}</span>
-                </div>
-                ${payout.reference_number ? `
-                <div class="detail-row">
-                  <span>Reference Number</span>
-                  <span style="font-family: monospace;">${payout.reference_number}</span>
-                </div>
-                ` : ""}
-                ${payout.paid_at ? `
-                <div class="detail-row">
-                  <span>Paid On</span>
-                  <span>${new Date(payout.paid_at).toLocaleDateString("en-US", { 
-                    year: "numeric", 
-                    month: "long", 
-                    day: "numeric" 
-                  })}</span>
-                </div>
-                ` : ""}
-              </div>
-              
-              <p>The funds should appear in your account according to your payment method's typical processing time.</p>
-              <p>Thank you for being a valued partner!</p>
-            </div>
-            <div class="footer">
-              <p>This is an automated message from RugBoost Platform</p>
-            </div>
-          </div>
-        </body>
-        </html>
-      `;
-    }
+    const details: [string, string][] = notification_type === "created"
+      ? [
+          ["Status", "Pending"],
+          ["Payment Method", payout.payment_method || "To be determined"],
+          ...(payout.period_start && payout.period_end
+            ? [["Period", `${payout.period_start} to ${payout.period_end}`] as [string, string]]
+            : []),
+          ...(payout.notes ? [["Notes", payout.notes] as [string, string]] : []),
+        ]
+      : [
+          ["Status", "Completed"],
+          ["Payment Method", payout.payment_method || "N/A"],
+          ...(payout.reference_number ? [["Reference Number", payout.reference_number] as [string, string]] : []),
+          ...(payout.paid_at
+            ? [["Paid On", new Date(payout.paid_at).toLocaleDateString("en-US", {
+                year: "numeric",
+                month: "long",
+                day: "numeric",
+              })] as [string, string]]
+            : []),
+        ];
+
+    const templateType: EmailTemplateType = notification_type === "created" ? "payout_created" : "payout_completed";
+    const template = await loadEmailTemplate(supabase, payout.user_id, templateType);
+    const email = renderEmail(
+      templateType,
+      template,
+      {
+        business_name: businessName,
+        business_phone: profile.business_phone || "",
+        business_email: recipientEmail,
+        amount: formatCurrency(payout.amount),
+      },
+      [detailsSection(details)]
+    );
 
     console.log(`Sending ${notification_type} notification to: ${recipientEmail}`);
 
-    const emailResponse = await resend.emails.send({
+    // Payouts belong to the business owner; log the email against their organization
+    const { data: membership } = await supabase
+      .from("organization_members")
+      .select("organization_id")
+      .eq("user_id", payout.user_id)
+      .eq("role", "owner")
+      .limit(1)
+      .maybeSingle();
+
+    const emailResponse = await sendEmail(supabase, resend, {
+      templateType,
       from: `RugBoost <${fromEmail}>`,
-      to: [recipientEmail],
-      subject,
-      html: htmlContent,
+      to: recipientEmail,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      organizationId: membership?.organization_id ?? null,
     });
 
+    if (emailResponse.error) {
+      throw new Error(`Failed to send email: ${emailResponse.error}`);
+    }
+
     console.log("Email sent successfully:", emailResponse);
 
     return new Response(
@@ -0,0 +1,52 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { createPushProvider } from "../_shared/push.ts";
+import { dispatchNotification } from "../_shared/pushDispatch.ts";
+
+// Called by the dispatch_notifications_push trigger for each new notification of a
+// pushed kind; sends it to the recipient's devices.
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const dispatchSecret = Deno.env.get("PUSH_DISPATCH_SECRET");
+  if (!dispatchSecret) {
+    console.error("PUSH_DISPATCH_SECRET is not configured");
+    return jsonResponse({ error: "Push not configured" }, 500);
+  }
+  if (req.headers.get("Authorization") !== `Bearer ${dispatchSecret}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const { notificationId }: { notificationId?: string } = await req.json();
+    if (!notificationId) {
+      return jsonResponse({ error: "notificationId is required" }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const result = await dispatchNotification(supabaseAdmin, createPushProvider(), notificationId);
+    console.log(
+      `Notification ${notificationId}: ` +
+        (result.skipped ?? `${result.sent} sent, ${result.failed} failed, ${result.pruned} tokens pruned`)
+    );
+    return jsonResponse({ ...result });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in push-dispatch:", errorMessage);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,322 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { loadEmailTemplate, sendEmail } from "../_shared/email.ts";
+import { creditNoteSection, formatEmailAmount, renderEmail } from "../_shared/emailTemplates.ts";
+import {
+  applyRefundTotal,
+  getPlatformFeePercentage,
+  roundCents,
+  type RefundablePayment,
+} from "../_shared/payments.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface RefundRequest {
+  paymentId: string;
+  // Estimate lines to refund; omit to refund everything not yet refunded
+  lineItems?: { rugNumber: string; serviceId: string }[];
+  reason?: string;
+}
+
+interface CheckoutService {
+  id: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  taxExempt?: boolean;
+}
+
+interface RefundLineItem {
+  rugNumber: string;
+  serviceId: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+const lineKey = (rugNumber: string, serviceId: string) => `${rugNumber}::${serviceId}`;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // Get authenticated user - REQUIRED for authorization
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Authentication required" }, 401);
+    }
+
+    const { data: { user } } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (!user) {
+      return jsonResponse({ error: "Authentication required" }, 401);
+    }
+
+    const { paymentId, lineItems, reason }: RefundRequest = await req.json();
+    if (!paymentId) {
+      return jsonResponse({ error: "paymentId is required" }, 400);
+    }
+
+    const { data: payment, error: paymentError } = await supabaseAdmin
+      .from("payments")
+      .select("id, job_id, amount, amount_refunded, status, stripe_payment_intent_id, paid_at, metadata")
+      .eq("id", paymentId)
+      .maybeSingle();
+
+    if (paymentError || !payment) {
+      return jsonResponse({ error: "Payment not found" }, 404);
+    }
+
+    const { data: job } = await supabaseAdmin
+      .from("jobs")
+      .select("id, job_number, client_name, client_email, user_id, organization_id")
+      .eq("id", payment.job_id)
+      .single();
+
+    if (!job) {
+      return jsonResponse({ error: "Job not found" }, 404);
+    }
+
+    // SECURITY: Only the business account or its owners/managers may refund
+    let authorized = job.user_id === user.id;
+    if (!authorized && job.organization_id) {
+      const { data: membership } = await supabaseAdmin
+        .from("organization_members")
+        .select("role")
+        .eq("organization_id", job.organization_id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+      authorized = membership?.role === "owner" || membership?.role === "manager";
+    }
+
+    if (!authorized) {
+      console.warn("Unauthorized refund attempt:", { userId: user.id, paymentId });
+      return jsonResponse({ error: "You don't have permission to refund this payment" }, 403);
+    }
+
+    if (!["completed", "partially_refunded"].includes(payment.status) || !payment.stripe_payment_intent_id) {
+      return jsonResponse({ error: "Only paid payments can be refunded" }, 400);
+    }
+
+    const { data: previousRefunds, error: previousError } = await supabaseAdmin
+      .from("payment_refunds")
+      .select("amount, line_items")
+      .eq("payment_id", payment.id)
+      .neq("status", "failed");
+
+    if (previousError) throw previousError;
+
+    const alreadyRefunded = (previousRefunds || []).reduce((sum, r) => sum + Number(r.amount), 0);
+    const refundable = roundCents(Number(payment.amount) - Math.max(alreadyRefunded, Number(payment.amount_refunded)));
+
+    if (refundable <= 0) {
+      return jsonResponse({ error: "This payment has already been fully refunded" }, 400);
+    }
+
+    // Work out the refund from the estimate lines the client paid for
+    let refundAmount = refundable;
+    const refundedLines: RefundLineItem[] = [];
+
+    if (lineItems && lineItems.length > 0) {
+      const metadata = payment.metadata as {
+        selectedServices?: { rugNumber: string; services: CheckoutService[] }[];
+        taxRate?: number;
+      } | null;
+      const rugs = metadata?.selectedServices || [];
+      const taxRate = Number(metadata?.taxRate ?? 0);
+
+      const paidLines = rugs.flatMap((rug) =>
+        rug.services.map((service) => ({ rugNumber: rug.rugNumber, service }))
+      );
+      // What the client paid for a line, its sales tax included
+      const lineCharge = (service: CheckoutService) =>
+        service.quantity * service.unitPrice * (service.taxExempt ? 1 : 1 + taxRate / 100);
+      const linesTotal = paidLines.reduce((sum, l) => sum + lineCharge(l.service), 0);
+
+      // A deposit covers the same share of every line, so each line refunds that share
+      const paidShare = linesTotal > 0 ? Math.min(1, Number(payment.amount) / linesTotal) : 1;
+
+      const refundedKeys = new Set(
+        (previousRefunds || []).flatMap((r) =>
+          ((r.line_items as unknown as RefundLineItem[]) || []).map((l) => lineKey(l.rugNumber, l.serviceId))
+        )
+      );
+
+      for (const requested of lineItems) {
+        const key = lineKey(requested.rugNumber, requested.serviceId);
+        const line = paidLines.find((l) => lineKey(l.rugNumber, l.service.id) === key);
+
+        if (!line) {
+          return jsonResponse({ error: `${requested.rugNumber}: service not found on this payment` }, 400);
+        }
+        if (refundedKeys.has(key)) {
+          return jsonResponse({ error: `${line.service.name} on ${line.rugNumber} has already been refunded` }, 400);
+        }
+
+        refundedLines.push({
+          rugNumber: line.rugNumber,
+          serviceId: line.service.id,
+          name: line.service.name,
+          quantity: line.service.quantity,
+          unitPrice: line.service.unitPrice,
+          amount: roundCents(lineCharge(line.service) * paidShare),
+        });
+      }
+
+      refundAmount = Math.min(refundable, roundCents(refundedLines.reduce((sum, l) => sum + l.amount, 0)));
+    }
+
+    if (refundAmount <= 0) {
+      return jsonResponse({ error: "Nothing to refund" }, 400);
+    }
+
+    const feePercentage = await getPlatformFeePercentage(supabaseAdmin);
+
+    // Recorded before Stripe is called so the charge.refunded webhook doesn't mistake
+    // this refund for one made in the Stripe dashboard. The checks above are repeated
+    // under a lock on the payment, in case another refund got in first.
+    const { data: refund, error: refundInsertError } = await supabaseAdmin.rpc("record_payment_refund", {
+      _payment_id: payment.id,
+      _amount: refundAmount,
+      _platform_fee_reversed: roundCents(refundAmount * feePercentage / 100),
+      _reason: reason?.trim() || null,
+      _line_items: refundedLines,
+      _created_by: user.id,
+    });
+
+    if (refundInsertError?.code === "P0001") {
+      return jsonResponse({ error: refundInsertError.message }, 409);
+    }
+    if (refundInsertError || !refund) throw refundInsertError || new Error("Could not record refund");
+
+    const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+      apiVersion: "2025-08-27.basil",
+    });
+
+    let stripeRefund: Stripe.Refund;
+    try {
+      stripeRefund = await stripe.refunds.create(
+        {
+          payment_intent: payment.stripe_payment_intent_id,
+          amount: Math.round(refundAmount * 100),
+          reason: "requested_by_customer",
+          metadata: { paymentId: payment.id, jobId: job.id, refundId: refund.id },
+        },
+        { idempotencyKey: refund.id }
+      );
+    } catch (stripeError: unknown) {
+      const message = stripeError instanceof Error ? stripeError.message : "Stripe refund failed";
+      console.error("Stripe refund failed:", message);
+      await supabaseAdmin.from("payment_refunds").update({ status: "failed" }).eq("id", refund.id);
+      return jsonResponse({ error: message }, 400);
+    }
+
+    await supabaseAdmin
+      .from("payment_refunds")
+      .update({
+        stripe_refund_id: stripeRefund.id,
+        status: stripeRefund.status === "failed" ? "failed" : stripeRefund.status === "succeeded" ? "succeeded" : "pending",
+      })
+      .eq("id", refund.id);
+
+    const paymentStatus = await applyRefundTotal(
+      supabaseAdmin,
+      payment as RefundablePayment,
+      roundCents(Number(payment.amount) - refundable + refundAmount),
+      feePercentage,
+    );
+
+    console.log(`Refunded $${refundAmount.toFixed(2)} of payment ${payment.id} (${paymentStatus})`);
+
+    // Credit note to the client
+    if (job.client_email) {
+      try {
+        const { data: profile } = await supabaseAdmin
+          .from("profiles")
+          .select("business_name, business_email, business_phone")
+          .eq("user_id", job.user_id)
+          .maybeSingle();
+
+        const businessName = profile?.business_name || "RugBoost";
+        const fromEmail = Deno.env.get("FROM_EMAIL") || "onboarding@resend.dev";
+
+        const template = await loadEmailTemplate(supabaseAdmin, job.user_id, "credit_note");
+        const email = renderEmail(
+          "credit_note",
+          template,
+          {
+            client_name: job.client_name,
+            business_name: businessName,
+            business_phone: profile?.business_phone || "",
+            business_email: profile?.business_email || "",
+            job_number: job.job_number,
+            credit_note_number: refund.credit_note_number,
+            amount: formatEmailAmount(Math.round(refundAmount * 100)),
+          },
+          [
+            creditNoteSection(
+              refundedLines.length > 0
+                ? refundedLines.map((l) => ({ description: `${l.rugNumber} – ${l.name}`, amount: l.amount }))
+                : [{ description: `Refund of payment for Job #${job.job_number}`, amount: refundAmount }],
+              refundAmount,
+              reason,
+            ),
+          ],
+        );
+
+        const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+        const { error: emailError } = await sendEmail(supabaseAdmin, resend, {
+          templateType: "credit_note",
+          jobId: payment.job_id,
+          from: `${businessName} <${fromEmail}>`,
+          to: job.client_email,
+          subject: email.subject,
+          html: email.html,
+          text: email.text,
+        });
+
+        if (emailError) {
+          console.error("Credit note email error:", emailError);
+        } else {
+          await supabaseAdmin
+            .from("payment_refunds")
+            .update({ credit_note_sent_at: new Date().toISOString() })
+            .eq("id", refund.id);
+        }
+      } catch (emailError) {
+        console.error("Credit note email failed:", emailError);
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      refundId: refund.id,
+      amount: refundAmount,
+      paymentStatus,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error refunding payment:", errorMessage);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
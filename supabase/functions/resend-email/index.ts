@@ -0,0 +1,103 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { loadEmailAttachments, sendEmail, type StoredEmailAttachment } from "../_shared/email.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Sends a logged email again, exactly as it first went out, attachments included.
+// The copy is logged as its own email_events row pointing back at the original.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return jsonResponse({ error: "Authentication required" }, 401);
+    }
+
+    const { emailEventId }: { emailEventId?: string } = await req.json();
+    if (!emailEventId) {
+      return jsonResponse({ error: "emailEventId is required" }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const supabaseAuth = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseAdmin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "");
+
+    // SECURITY: email_events RLS decides who may see, and so resend, an email
+    const { data: visible } = await supabaseAuth
+      .from("email_events")
+      .select("id")
+      .eq("id", emailEventId)
+      .maybeSingle();
+
+    if (!visible) {
+      return jsonResponse({ error: "Email not found" }, 404);
+    }
+
+    const { data: email, error: emailError } = await supabaseAdmin
+      .from("email_events")
+      .select("id, job_id, organization_id, template_type, recipient, from_address, subject, html, text, attachments")
+      .eq("id", emailEventId)
+      .single();
+
+    if (emailError || !email) {
+      return jsonResponse({ error: "Email not found" }, 404);
+    }
+
+    const resendApiKey = Deno.env.get("RESEND_API_KEY");
+    if (!resendApiKey) {
+      console.error("RESEND_API_KEY not configured");
+      return jsonResponse({ error: "Email service not configured" }, 500);
+    }
+
+    let attachments;
+    try {
+      attachments = await loadEmailAttachments(supabaseAdmin, (email.attachments || []) as StoredEmailAttachment[]);
+    } catch (attachmentError) {
+      const message = attachmentError instanceof Error ? attachmentError.message : "Attachment unavailable";
+      return jsonResponse({ error: message }, 409);
+    }
+
+    const result = await sendEmail(supabaseAdmin, new Resend(resendApiKey), {
+      templateType: email.template_type,
+      from: email.from_address,
+      to: email.recipient,
+      subject: email.subject,
+      html: email.html,
+      text: email.text ?? undefined,
+      attachments,
+      jobId: email.job_id,
+      organizationId: email.organization_id,
+      resentFrom: email.id,
+    });
+
+    if (result.error) {
+      console.error("Resend failed:", result.error);
+      return jsonResponse({ error: `Failed to send email: ${result.error}` }, 502);
+    }
+
+    console.log(`Email ${email.id} resent to ${email.recipient} as ${result.eventId}`);
+    return jsonResponse({ success: true, emailEventId: result.eventId, messageId: result.messageId });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in resend-email:", errorMessage);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
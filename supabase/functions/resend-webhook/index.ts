@@ -0,0 +1,150 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { decode as decodeBase64, encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+
+// Resend calls this as emails are delivered, opened, clicked or bounced, and it moves
+// the matching email_events row along.
+//
+// Register the endpoint in Resend for email.delivered, email.delivery_delayed,
+// email.bounced, email.complained, email.opened and email.clicked, and set
+// RESEND_WEBHOOK_SECRET to its signing secret (whsec_...).
+
+// Resend signs with Svix; deliveries older than this are rejected as replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+interface ResendEvent {
+  type: string;
+  created_at: string;
+  data: {
+    email_id: string;
+    bounce?: { message?: string; type?: string };
+  };
+}
+
+type EmailStatus = "sent" | "delivery_delayed" | "delivered" | "opened" | "clicked" | "bounced" | "complained";
+
+const EVENT_STATUS: Record<string, { status: EmailStatus; timestamp?: string }> = {
+  "email.delivery_delayed": { status: "delivery_delayed" },
+  "email.delivered": { status: "delivered", timestamp: "delivered_at" },
+  "email.opened": { status: "opened", timestamp: "opened_at" },
+  "email.clicked": { status: "clicked", timestamp: "clicked_at" },
+  "email.bounced": { status: "bounced", timestamp: "bounced_at" },
+  "email.complained": { status: "complained" },
+};
+
+// Events can arrive out of order and more than once, so a status only ever moves
+// forward: an opened email stays opened when a late "delivered" turns up. Bounces
+// and complaints are final.
+const STATUS_RANK: Record<string, number> = {
+  failed: 0,
+  sent: 1,
+  delivery_delayed: 2,
+  delivered: 3,
+  opened: 4,
+  clicked: 5,
+  bounced: 6,
+  complained: 6,
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function verifySignature(secret: string, headers: Headers, body: string): Promise<boolean> {
+  const id = headers.get("svix-id");
+  const timestamp = headers.get("svix-timestamp");
+  const signatures = headers.get("svix-signature");
+  if (!id || !timestamp || !signatures) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    decodeBase64(secret.replace(/^whsec_/, "")),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signed = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${id}.${timestamp}.${body}`));
+  const expected = encodeBase64(new Uint8Array(signed));
+
+  // The header lists "v1,<signature>" pairs, one per active secret
+  return signatures.split(" ").some((entry) => entry.split(",")[1] === expected);
+}
+
+// Returns a short description of what changed, for the logs
+async function handleEvent(supabaseAdmin: SupabaseClient, event: ResendEvent): Promise<string> {
+  const change = EVENT_STATUS[event.type];
+  if (!change) return "ignored";
+
+  const { data: email, error } = await supabaseAdmin
+    .from("email_events")
+    .select("id, status")
+    .eq("resend_message_id", event.data.email_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!email) return `no email_events row for ${event.data.email_id}`;
+
+  const update: Record<string, string> = {};
+  if (change.timestamp) update[change.timestamp] = event.created_at;
+  if (STATUS_RANK[change.status] > STATUS_RANK[email.status]) update.status = change.status;
+  if (change.status === "bounced" && event.data.bounce?.message) update.error = event.data.bounce.message;
+
+  if (Object.keys(update).length === 0) return `email ${email.id} already ${email.status}`;
+
+  // Timestamps keep the first occurrence, e.g. the first open
+  const { error: updateError } = await supabaseAdmin
+    .from("email_events")
+    .update(update)
+    .eq("id", email.id);
+
+  if (updateError) throw updateError;
+  return `email ${email.id} ${update.status ?? email.status}`;
+}
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const webhookSecret = Deno.env.get("RESEND_WEBHOOK_SECRET");
+  if (!webhookSecret) {
+    console.error("RESEND_WEBHOOK_SECRET is not configured");
+    return jsonResponse({ error: "Webhook not configured" }, 500);
+  }
+
+  // The signature covers the raw body, so it must be read as text before parsing
+  const body = await req.text();
+  if (!(await verifySignature(webhookSecret, req.headers, body))) {
+    console.warn("Rejected Resend webhook: invalid signature");
+    return jsonResponse({ error: "Invalid signature" }, 400);
+  }
+
+  let event: ResendEvent;
+  try {
+    event = JSON.parse(body);
+  } catch {
+    return jsonResponse({ error: "Invalid JSON" }, 400);
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  const deliveryId = req.headers.get("svix-id");
+  try {
+    const outcome = await handleEvent(supabaseAdmin, event);
+    console.log(`[${deliveryId}] ${event.type}: ${outcome}`);
+    return jsonResponse({ received: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error(`[${deliveryId}] Error handling ${event.type}:`, errorMessage);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,371 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { loadEmailTemplate, sendEmail } from "../_shared/email.ts";
+import { renderEmail } from "../_shared/emailTemplates.ts";
+import {
+  followUpAfter,
+  nextReminderAt,
+  isReminderNote,
+  pendingReminder,
+  reminderNote,
+  REMINDER_KINDS,
+  REMINDER_KIND_ORDER,
+  type ReminderCadence,
+  type ReminderKind,
+} from "../_shared/followUps.ts";
+
+// Run hourly by pg_cron (see the reminder_cadences migration). Emails clients who
+// have an unopened invite, an unapproved estimate or an unpaid balance once their
+// business's cadence says a reminder is due, tells staff, and moves the job's
+// next_follow_up_at on. auto_follow_up_at remembers the date it set, so a follow-up
+// staff have changed themselves is never cleared.
+
+interface AccessRow {
+  access_token: string;
+  invited_email: string | null;
+  email_sent_at: string | null;
+  first_accessed_at: string | null;
+  expires_at: string | null;
+}
+
+interface InvoiceRow {
+  kind: string;
+  status: string;
+  amount_due: number;
+  amount_paid: number;
+  sent_at: string | null;
+  issued_at: string;
+}
+
+interface JobRow {
+  id: string;
+  user_id: string;
+  assigned_to: string | null;
+  job_number: string;
+  client_name: string;
+  client_email: string | null;
+  client_approved_at: string | null;
+  next_follow_up_at: string | null;
+  follow_up_notes: string | null;
+  auto_follow_up_at: string | null;
+  client_job_access: AccessRow[];
+  invoices: InvoiceRow[];
+}
+
+type FollowUpRow = Pick<JobRow, "id" | "job_number" | "next_follow_up_at" | "follow_up_notes" | "auto_follow_up_at">;
+
+interface EmailEventRow {
+  job_id: string;
+  template_type: string;
+  created_at: string;
+}
+
+interface BusinessProfile {
+  business_name: string | null;
+  business_phone: string | null;
+  business_email: string | null;
+}
+
+interface RunSummary {
+  sent: number;
+  failed: number;
+  cleared: number;
+}
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 500;
+// Job ids per email_events request, to keep the URL short
+const JOB_ID_BATCH_SIZE = 100;
+
+async function fetchAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// The invite whose link the client can still use, newest first
+function currentInvite(access: AccessRow[], now: Date): AccessRow | null {
+  return access
+    .filter((a) => a.email_sent_at && (!a.expires_at || new Date(a.expires_at) > now))
+    .sort((a, b) => Date.parse(b.email_sent_at!) - Date.parse(a.email_sent_at!))[0] ?? null;
+}
+
+async function notifyStaff(supabaseAdmin: SupabaseClient, job: JobRow, title: string, message: string) {
+  const staff = [...new Set([job.user_id, job.assigned_to].filter(Boolean))] as string[];
+  const { error } = await supabaseAdmin.from("notifications").insert(
+    staff.map((userId) => ({
+      user_id: userId,
+      type: "follow_up_reminder",
+      title,
+      message,
+      metadata: { jobId: job.id, jobNumber: job.job_number },
+    })),
+  );
+  if (error) console.error(`Failed to notify staff about job ${job.job_number}:`, error.message);
+}
+
+// The client has caught up, so the follow-up the reminders set is no longer needed.
+// A date or note staff have since changed is theirs and stays.
+async function clearReminderFollowUp(supabaseAdmin: SupabaseClient, job: FollowUpRow, summary: RunSummary) {
+  const update: Record<string, string | null> = { auto_follow_up_at: null };
+  if (job.next_follow_up_at && Date.parse(job.next_follow_up_at) === Date.parse(job.auto_follow_up_at!)) {
+    update.next_follow_up_at = null;
+  }
+  if (isReminderNote(job.follow_up_notes)) update.follow_up_notes = null;
+
+  const { error } = await supabaseAdmin.from("jobs").update(update).eq("id", job.id);
+  if (error) {
+    console.error(`Job ${job.job_number}: failed to clear follow-up:`, error.message);
+    return;
+  }
+  if ("next_follow_up_at" in update) summary.cleared++;
+}
+
+async function processOrganization(
+  supabaseAdmin: SupabaseClient,
+  resend: Resend,
+  siteUrl: string,
+  organizationId: string,
+  cadences: Partial<Record<ReminderKind, ReminderCadence>>,
+  summary: RunSummary,
+) {
+  const now = new Date();
+  const fromEmail = Deno.env.get("FROM_EMAIL") || "onboarding@resend.dev";
+
+  // Only jobs still waiting on the client: not yet approved, or approved with the
+  // balance unpaid. Every reminder links to the portal, so they also need an
+  // invite that was sent and hasn't expired.
+  const jobs = await fetchAll<JobRow>((from, to) =>
+    supabaseAdmin
+      .from("jobs")
+      .select(`
+        id, user_id, assigned_to, job_number, client_name, client_email, client_approved_at,
+        next_follow_up_at, follow_up_notes, auto_follow_up_at,
+        client_job_access!inner(access_token, invited_email, email_sent_at, first_accessed_at, expires_at),
+        invoices(kind, status, amount_due, amount_paid, sent_at, issued_at)
+      `)
+      .eq("organization_id", organizationId)
+      .or("client_approved_at.is.null,payment_status.eq.balance_due")
+      .not("client_job_access.email_sent_at", "is", null)
+      .or(`expires_at.is.null,expires_at.gt.${now.toISOString()}`, { referencedTable: "client_job_access" })
+      .order("id")
+      .range(from, to)
+  );
+
+  // Follow-ups the reminders set earlier, on any job; those whose client has since
+  // caught up are cleared below
+  const followUps = await fetchAll<FollowUpRow>((from, to) =>
+    supabaseAdmin
+      .from("jobs")
+      .select("id, job_number, next_follow_up_at, follow_up_notes, auto_follow_up_at")
+      .eq("organization_id", organizationId)
+      .not("auto_follow_up_at", "is", null)
+      .order("id")
+      .range(from, to)
+  );
+
+  const waiting = new Set<string>();
+  const pending: { job: JobRow; invite: AccessRow | null; balance: InvoiceRow | undefined; kind: ReminderKind; since: string }[] = [];
+
+  for (const job of jobs) {
+    const invite = currentInvite(job.client_job_access, now);
+    const balance = job.invoices.find((i) => i.kind === "balance" && i.status === "sent");
+    const reminder = pendingReminder({
+      inviteSentAt: invite?.email_sent_at ?? null,
+      portalOpenedAt: job.client_job_access.find((a) => a.first_accessed_at)?.first_accessed_at ?? null,
+      approvedAt: job.client_approved_at,
+      balanceSentAt: balance ? balance.sent_at ?? balance.issued_at : null,
+    });
+
+    if (!reminder) continue;
+
+    waiting.add(job.id);
+    if (cadences[reminder.kind]) pending.push({ job, invite, balance, ...reminder });
+  }
+
+  for (const followUp of followUps) {
+    if (!waiting.has(followUp.id)) await clearReminderFollowUp(supabaseAdmin, followUp, summary);
+  }
+
+  if (pending.length === 0) return;
+
+  // Failed sends don't count, so they're retried on the next run
+  const sentEmails: EmailEventRow[] = [];
+  for (let i = 0; i < pending.length; i += JOB_ID_BATCH_SIZE) {
+    const jobIds = pending.slice(i, i + JOB_ID_BATCH_SIZE).map((p) => p.job.id);
+    sentEmails.push(...await fetchAll<EmailEventRow>((from, to) =>
+      supabaseAdmin
+        .from("email_events")
+        .select("job_id, template_type, created_at")
+        .in("job_id", jobIds)
+        .in("template_type", REMINDER_KIND_ORDER)
+        .neq("status", "failed")
+        .order("created_at", { ascending: true })
+        .order("id")
+        .range(from, to)
+    ));
+  }
+
+  const profiles = new Map<string, BusinessProfile | null>();
+
+  for (const { job, invite, balance, kind, since } of pending) {
+    const cadence = cadences[kind]!;
+    const sentAt = sentEmails
+      .filter((e) => e.job_id === job.id && e.template_type === kind && Date.parse(e.created_at) >= Date.parse(since))
+      .map((e) => e.created_at);
+
+    const dueAt = nextReminderAt(cadence, since, sentAt);
+    if (!dueAt || dueAt > now) continue;
+
+    const recipient = invite?.invited_email || job.client_email;
+    if (!invite || !recipient) {
+      console.log(`Job ${job.job_number}: ${kind} due but the client has no valid portal invite`);
+      continue;
+    }
+
+    if (!profiles.has(job.user_id)) {
+      const { data: profile } = await supabaseAdmin
+        .from("profiles")
+        .select("business_name, business_phone, business_email")
+        .eq("user_id", job.user_id)
+        .maybeSingle();
+      profiles.set(job.user_id, profile);
+    }
+    const profile = profiles.get(job.user_id);
+    const businessName = profile?.business_name || "Rug Cleaning Service";
+
+    const template = await loadEmailTemplate(supabaseAdmin, job.user_id, kind);
+    const email = renderEmail(kind, template, {
+      client_name: job.client_name || "Valued Customer",
+      business_name: businessName,
+      business_phone: profile?.business_phone || "",
+      business_email: profile?.business_email || "",
+      job_number: job.job_number,
+      portal_link: `${siteUrl}/client/${invite.access_token}`,
+      amount: balance ? `$${(Number(balance.amount_due) - Number(balance.amount_paid)).toFixed(2)}` : "",
+    });
+
+    const result = await sendEmail(supabaseAdmin, resend, {
+      templateType: kind,
+      from: `${businessName} <${fromEmail}>`,
+      to: recipient,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      jobId: job.id,
+      organizationId,
+    });
+
+    if (result.error) {
+      console.error(`Job ${job.job_number}: ${kind} failed:`, result.error);
+      summary.failed++;
+      continue;
+    }
+
+    summary.sent++;
+    const count = sentAt.length + 1;
+    const label = REMINDER_KINDS[kind].label;
+    const isLast = count >= cadence.maxReminders;
+    const followUpAt = followUpAfter(cadence, now.toISOString()).toISOString();
+
+    const { error: updateError } = await supabaseAdmin
+      .from("jobs")
+      .update({
+        next_follow_up_at: followUpAt,
+        auto_follow_up_at: followUpAt,
+        follow_up_notes: reminderNote(kind, count, cadence.maxReminders),
+      })
+      .eq("id", job.id);
+    if (updateError) console.error(`Job ${job.job_number}: failed to set follow-up:`, updateError.message);
+
+    await notifyStaff(
+      supabaseAdmin,
+      job,
+      `Reminder sent - Job #${job.job_number}`,
+      isLast
+        ? `${job.client_name} got their last automatic reminder (${label.toLowerCase()}). Follow up with them directly.`
+        : `${job.client_name} was reminded about their ${label.toLowerCase()} (${count} of ${cadence.maxReminders}).`,
+    );
+  }
+}
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  if (!cronSecret) {
+    console.error("CRON_SECRET is not configured");
+    return jsonResponse({ error: "Reminders not configured" }, 500);
+  }
+  if (req.headers.get("Authorization") !== `Bearer ${cronSecret}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const resendApiKey = Deno.env.get("RESEND_API_KEY");
+  const siteUrl = Deno.env.get("SITE_URL")?.replace(/\/$/, "");
+  if (!resendApiKey || !siteUrl) {
+    console.error("RESEND_API_KEY or SITE_URL not configured");
+    return jsonResponse({ error: "Reminders not configured" }, 500);
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+    const resend = new Resend(resendApiKey);
+
+    const { data: rows, error } = await supabaseAdmin
+      .from("reminder_cadences")
+      .select("organization_id, kind, is_active, first_after_days, repeat_every_days, max_reminders")
+      .eq("is_active", true);
+
+    if (error) throw error;
+
+    const byOrganization = new Map<string, Partial<Record<ReminderKind, ReminderCadence>>>();
+    for (const row of rows || []) {
+      const cadences = byOrganization.get(row.organization_id) || {};
+      cadences[row.kind as ReminderKind] = {
+        kind: row.kind,
+        isActive: row.is_active,
+        firstAfterDays: row.first_after_days,
+        repeatEveryDays: row.repeat_every_days,
+        maxReminders: row.max_reminders,
+      };
+      byOrganization.set(row.organization_id, cadences);
+    }
+
+    const summary: RunSummary = { sent: 0, failed: 0, cleared: 0 };
+    // One business's bad data shouldn't hold up everyone else's reminders
+    for (const [organizationId, cadences] of byOrganization) {
+      try {
+        await processOrganization(supabaseAdmin, resend, siteUrl, organizationId, cadences, summary);
+      } catch (orgError) {
+        console.error(`Reminders failed for organization ${organizationId}:`, orgError instanceof Error ? orgError.message : orgError);
+      }
+    }
+
+    console.log(`Follow-up reminders: ${summary.sent} sent, ${summary.failed} failed, ${summary.cleared} follow-ups cleared`);
+    return jsonResponse({ ...summary });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in send-follow-up-reminders:", errorMessage);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
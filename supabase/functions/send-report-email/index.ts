@@ -2,6 +2,8 @@ import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 import { Resend } from "https://esm.sh/resend@2.0.0";
+import { loadEmailTemplate, sendEmail } from "../_shared/email.ts";
+import { formatRugCount, renderEmail, reportRugsSection } from "../_shared/emailTemplates.ts";
 
 // Rate limiting configuration
 const RATE_LIMIT_WINDOW_MS = 60000; // 1 minute window
@@ -64,6 +66,8 @@ const corsHeaders = {
 // Input validation schema with stricter constraints and sanitization
 const EmailRequestSchema = z.object({
   to: z.string().email().max(255),
+  // Used to find the business's saved template when no message is given
+  jobId: z.string().uuid().optional(),
   clientName: z.string().min(1).max(200).transform(sanitizeString),
   jobNumber: z.string().min(1).max(100).transform(sanitizeString),
   rugDetails: z.array(z.object({
@@ -79,16 +83,6 @@ const EmailRequestSchema = z.object({
   businessPhone: z.string().max(50).transform(sanitizeString).optional(),
 });
 
-// Helper function to escape HTML to prevent XSS
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;');
-}
-
 const handler = async (req: Request): Promise<Response> => {
   
   
@@ -171,7 +165,7 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    const { to, clientName, jobNumber, rugDetails, pdfBase64, subject, customMessage, businessName, businessEmail, businessPhone } = validationResult.data;
+    const { to, jobId, clientName, jobNumber, rugDetails, pdfBase64, subject, customMessage, businessName, businessEmail, businessPhone } = validationResult.data;
 
     console.log("Sending email to:", to, "Job:", jobNumber, "Has attachment:", !!pdfBase64);
 
@@ -191,15 +185,33 @@ const handler = async (req: Request): Promise<Response> => {
     const fromEmail = Deno.env.get("FROM_EMAIL") || "onboarding@resend.dev";
 
     const fromName = businessName || "Rug Inspection Service";
-    const rugSummaryHtml = rugDetails.map(r => 
-      `<tr><td style="padding:12px;border-bottom:1px solid #e5e7eb">${escapeHtml(r.rugNumber)}</td><td style="padding:12px;border-bottom:1px solid #e5e7eb">${escapeHtml(r.rugType)}</td><td style="padding:12px;border-bottom:1px solid #e5e7eb">${escapeHtml(r.dimensions)}</td></tr>`
-    ).join("");
-    
-    const messageHtml = customMessage 
-      ? customMessage.split('\n').map(l => `<p style="color:#374151;font-size:16px;line-height:1.6;margin:0 0 15px">${escapeHtml(l) || '&nbsp;'}</p>`).join('')
-      : `<p style="color:#374151;font-size:16px;line-height:1.6;margin:0 0 20px">Dear <strong>${escapeHtml(clientName)}</strong>,</p><p style="color:#374151;font-size:16px;line-height:1.6;margin:0 0 30px">Thank you for choosing our services. Please find attached the detailed inspection report for Job #<strong>${escapeHtml(jobNumber)}</strong>.</p>`;
 
-    const emailHtml = `<!DOCTYPE html><html><head><meta charset="utf-8"></head><body style="margin:0;padding:0;font-family:'Segoe UI',sans-serif;background:#f3f4f6"><div style="max-width:600px;margin:0 auto;padding:40px 20px"><div style="background:linear-gradient(135deg,#1e40af,#3b82f6);border-radius:16px 16px 0 0;padding:40px 30px;text-align:center"><h1 style="color:white;margin:0;font-size:28px">${escapeHtml(fromName)}</h1><p style="color:rgba(255,255,255,0.9);margin:10px 0 0;font-size:16px">Rug Inspection Report</p></div><div style="background:white;padding:40px 30px;border-radius:0 0 16px 16px">${messageHtml}<div style="margin:30px 0"><h2 style="color:#1f2937;font-size:18px;margin:0 0 15px;border-bottom:2px solid #3b82f6;padding-bottom:10px">Rug Summary</h2><table style="width:100%;border-collapse:collapse;font-size:14px"><thead><tr style="background:#f9fafb"><th style="padding:12px;text-align:left;color:#374151;border-bottom:2px solid #e5e7eb">Rug #</th><th style="padding:12px;text-align:left;color:#374151;border-bottom:2px solid #e5e7eb">Type</th><th style="padding:12px;text-align:left;color:#374151;border-bottom:2px solid #e5e7eb">Dimensions</th></tr></thead><tbody>${rugSummaryHtml}</tbody></table></div>${pdfBase64 ? '<div style="background:#eff6ff;border-radius:12px;padding:20px;margin:30px 0;text-align:center"><p style="color:#1e40af;margin:0">📎 <strong>Detailed PDF report attached</strong></p></div>' : ''}<p style="color:#374151;font-size:16px;margin:30px 0 0">If you have questions, please contact us.</p><p style="color:#374151;font-size:16px;margin:20px 0 0">Best regards,<br><strong>${escapeHtml(fromName)}</strong></p></div><div style="text-align:center;padding:30px 20px"><p style="color:#6b7280;font-size:14px;margin:0">${escapeHtml(businessPhone || '')}${businessPhone && businessEmail ? ' • ' : ''}${escapeHtml(businessEmail || '')}</p></div></div></body></html>`;
+    // Read through the caller's RLS, so the email is only logged against a job they can see
+    const { data: job } = jobId
+      ? await supabaseAuth.from("jobs").select("id, user_id").eq("id", jobId).maybeSingle()
+      : { data: null };
+
+    // The preview dialog sends the message the user edited; otherwise use the
+    // business's template for the job
+    let template = subject && customMessage ? { subject, body: customMessage } : null;
+    if (!template) {
+      const saved = await loadEmailTemplate(supabaseAuth, job?.user_id, "report_email");
+      template = { subject: subject || saved.subject, body: customMessage || saved.body };
+    }
+
+    const email = renderEmail(
+      "report_email",
+      template,
+      {
+        client_name: clientName,
+        business_name: fromName,
+        business_phone: businessPhone || "",
+        business_email: businessEmail || "",
+        job_number: jobNumber,
+        rug_count: formatRugCount(rugDetails.length),
+      },
+      [reportRugsSection(rugDetails, !!pdfBase64)],
+    );
 
     // Prepare attachments for Resend
     const attachments = pdfBase64 ? [{
@@ -207,28 +219,35 @@ const handler = async (req: Request): Promise<Response> => {
       content: pdfBase64,
     }] : [];
 
-    // Send email using Resend
-    const { data: emailData, error: emailError } = await resend.emails.send({
+    // Logging to email_events needs the service role
+    const supabaseAdmin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+      auth: { persistSession: false }
+    });
+
+    const { messageId, error: emailError } = await sendEmail(supabaseAdmin, resend, {
+      templateType: "report_email",
       from: `${fromName} <${fromEmail}>`,
-      to: [to],
-      subject: subject || `Rug Inspection Report - Job #${jobNumber}`,
-      html: emailHtml,
+      to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
       attachments,
+      jobId: job?.id ?? null,
     });
 
     if (emailError) {
       console.error("Resend error:", emailError);
       return new Response(
-        JSON.stringify({ error: `Failed to send email: ${emailError.message}` }),
+        JSON.stringify({ error: `Failed to send email: ${emailError}` }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    console.log("Email sent successfully! ID:", emailData?.id);
+    console.log("Email sent successfully! ID:", messageId);
     return new Response(
       JSON.stringify({ 
         success: true, 
-        emailId: emailData?.id,
+        emailId: messageId,
         rateLimit: {
           remaining: rateLimit.remaining,
           resetIn: Math.ceil(rateLimit.resetIn / 1000)
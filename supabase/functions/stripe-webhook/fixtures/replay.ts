@@ -0,0 +1,61 @@
+// Replays a recorded Stripe event against a running stripe-webhook function, signed
+// the same way Stripe signs real deliveries.
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_... deno run --allow-read --allow-env --allow-net \
+//     supabase/functions/stripe-webhook/fixtures/replay.ts checkout.session.completed \
+//     --session cs_test_... --job <job uuid> --fresh
+//
+// --session / --payment-intent / --job point the fixture at rows in your local
+// database. Without --fresh the fixture's event id is kept, so a second replay
+// exercises the duplicate-delivery path.
+
+import { parse } from "https://deno.land/std@0.190.0/flags/mod.ts";
+import Stripe from "https://esm.sh/stripe@18.5.0";
+
+const args = parse(Deno.args, {
+  string: ["session", "payment-intent", "job", "url"],
+  boolean: ["fresh"],
+  default: { url: "http://localhost:54321/functions/v1/stripe-webhook" },
+});
+
+const fixtureName = args._[0];
+const secret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+
+if (!fixtureName || !secret) {
+  console.error("Usage: STRIPE_WEBHOOK_SECRET=whsec_... replay.ts <fixture> [--session id] [--payment-intent id] [--job id] [--fresh] [--url url]");
+  Deno.exit(1);
+}
+
+const fixturePath = new URL(`./${String(fixtureName).replace(/\.json$/, "")}.json`, import.meta.url);
+const event = JSON.parse(await Deno.readTextFile(fixturePath));
+const object = event.data.object;
+
+if (args.fresh) {
+  event.id = `evt_replay_${crypto.randomUUID().replaceAll("-", "")}`;
+  event.created = Math.floor(Date.now() / 1000);
+}
+
+if (args.session && object.object === "checkout.session") {
+  object.id = args.session;
+}
+
+if (args["payment-intent"]) {
+  if (object.object === "payment_intent") object.id = args["payment-intent"];
+  else object.payment_intent = args["payment-intent"];
+}
+
+if (args.job && object.metadata) {
+  object.metadata.jobId = args.job;
+}
+
+const payload = JSON.stringify(event);
+const signature = await Stripe.webhooks.generateTestHeaderStringAsync({ payload, secret });
+
+const response = await fetch(args.url, {
+  method: "POST",
+  headers: { "Content-Type": "application/json", "Stripe-Signature": signature },
+  body: payload,
+});
+
+console.log(`${event.type} (${event.id}) -> ${response.status}`);
+console.log(await response.text());
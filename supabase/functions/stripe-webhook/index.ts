@@ -0,0 +1,77 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { processStripeEvent } from "../_shared/stripeEvents.ts";
+
+// Stripe calls this directly, so payment state no longer depends on the client's
+// browser making it back to /client/payment-success.
+//
+// Register the endpoint in Stripe for checkout.session.completed,
+// checkout.session.async_payment_succeeded, checkout.session.async_payment_failed,
+// checkout.session.expired, payment_intent.payment_failed and charge.refunded, and
+// set STRIPE_WEBHOOK_SECRET to its signing secret. What each event does is in
+// _shared/stripeEvents.ts. The recorded events in ./fixtures are run through it by
+// the test suite, and fixtures/replay.ts sends them to a running function.
+
+const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+  apiVersion: "2025-08-27.basil",
+});
+
+// Deno has no sync HMAC, so signatures are checked with the async SubtleCrypto provider
+const cryptoProvider = Stripe.createSubtleCryptoProvider();
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+  if (!webhookSecret) {
+    console.error("STRIPE_WEBHOOK_SECRET is not configured");
+    return jsonResponse({ error: "Webhook not configured" }, 500);
+  }
+
+  const signature = req.headers.get("stripe-signature");
+  if (!signature) {
+    return jsonResponse({ error: "Missing Stripe signature" }, 400);
+  }
+
+  // The signature covers the raw body, so it must be read as text before parsing
+  const body = await req.text();
+
+  let event: Stripe.Event;
+  try {
+    event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret, undefined, cryptoProvider);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.warn("Rejected Stripe webhook:", errorMessage);
+    return jsonResponse({ error: "Invalid signature" }, 400);
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  try {
+    const result = await processStripeEvent(supabaseAdmin, event);
+    if (result.duplicate) {
+      console.log(`[${event.id}] Duplicate ${event.type} delivery, skipping`);
+      return jsonResponse({ received: true, duplicate: true });
+    }
+
+    console.log(`[${event.id}] ${event.type}: ${result.outcome}`);
+    return jsonResponse({ received: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error(`[${event.id}] Error handling ${event.type}:`, errorMessage);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
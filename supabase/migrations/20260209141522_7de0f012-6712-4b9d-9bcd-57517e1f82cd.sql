@@ -0,0 +1,23 @@
+-- Store the structured output of analyze-rug (rug identification + service line items)
+-- next to the free-text letter. Older inspections keep only analysis_report.
+ALTER TABLE public.inspections
+ADD COLUMN IF NOT EXISTS structured_report JSONB DEFAULT NULL;
+
+-- Expose the structured report through the client view (appended column)
+CREATE OR REPLACE VIEW public.inspections_client_view
+WITH (security_invoker=on) AS
+SELECT 
+  id,
+  job_id,
+  rug_number,
+  rug_type,
+  length,
+  width,
+  notes,
+  photo_urls,
+  analysis_report,
+  image_annotations,
+  estimate_approved,
+  created_at,
+  structured_report
+FROM public.inspections;
@@ -0,0 +1,11 @@
+-- How each service is charged: by area, around the perimeter, per item, or a flat fee
+CREATE TYPE public.pricing_unit AS ENUM ('sq_ft', 'linear_ft', 'each', 'flat');
+
+ALTER TABLE public.service_prices
+ADD COLUMN pricing_unit public.pricing_unit NOT NULL DEFAULT 'sq_ft',
+ADD COLUMN minimum_charge NUMERIC;
+
+-- Edge work has always been quoted per linear foot
+UPDATE public.service_prices
+SET pricing_unit = 'linear_ft'
+WHERE service_name ILIKE ANY (ARRAY['%overcast%', '%binding%', '%fringe%', '%zenjireh%', '%selvedge%']);
@@ -0,0 +1,47 @@
+-- Turn service_prices into each business's service catalog: ordering, archiving,
+-- a description reused in the estimate letter, a default priority, and whether
+-- the client portal treats the service as required.
+CREATE TYPE public.service_priority AS ENUM ('high', 'medium', 'low');
+
+ALTER TABLE public.service_prices
+ADD COLUMN description TEXT,
+ADD COLUMN default_priority public.service_priority NOT NULL DEFAULT 'medium',
+ADD COLUMN is_mandatory BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Carry over the keyword rules the app used before the catalog existed
+UPDATE public.service_prices
+SET default_priority = CASE
+  WHEN service_name ~* '(clean|wash|stain|repair|reweav|hole|tear|foundation|dry rot|soak)' THEN 'high'::public.service_priority
+  WHEN service_name ~* '(protect|moth proof|padding|scotchgard|storage)' THEN 'low'::public.service_priority
+  ELSE 'medium'::public.service_priority
+END,
+is_mandatory = service_name ~* '(clean|wash)';
+
+-- Keep the order of the old hardcoded list; anything else follows alphabetically
+UPDATE public.service_prices sp
+SET sort_order = ordered.position
+FROM (
+  SELECT id, row_number() OVER (
+    PARTITION BY user_id
+    ORDER BY array_position(ARRAY[
+      'Standard wash', 'Special fiber/antique wash', 'Limewash (moth wash)', 'Overnight soaking',
+      'Blocking', 'Sheering', 'Overcasting', 'Zenjireh', 'Persian Binding', 'Hand Fringe',
+      'Machine Fringe', 'Leather binding', 'Cotton Binding', 'Glue binding', 'Padding'
+    ], service_name) NULLS LAST, service_name
+  ) - 1 AS position
+  FROM public.service_prices
+) ordered
+WHERE sp.id = ordered.id;
+
+CREATE INDEX idx_service_prices_user_sort ON public.service_prices (user_id, sort_order);
+
+-- Approved estimates now record whether each line is required in the portal.
+-- Backfill existing ones with the rule the portal applied until now.
+UPDATE public.approved_estimates
+SET services = (
+  SELECT jsonb_agg(service || jsonb_build_object('mandatory', COALESCE(service->>'name', '') ~* '(clean|wash)'))
+  FROM jsonb_array_elements(services) AS service
+)
+WHERE jsonb_typeof(services) = 'array' AND jsonb_array_length(services) > 0;
@@ -0,0 +1,112 @@
+-- Pickup / delivery requests submitted from the client portal
+CREATE TYPE public.schedule_request_type AS ENUM ('pickup', 'delivery');
+CREATE TYPE public.schedule_request_status AS ENUM ('requested', 'confirmed', 'rescheduled', 'declined');
+
+CREATE TABLE public.schedule_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL,
+  request_type public.schedule_request_type NOT NULL DEFAULT 'pickup',
+  requested_date DATE NOT NULL,
+  requested_time TIME,
+  client_notes TEXT,
+  status public.schedule_request_status NOT NULL DEFAULT 'requested',
+  -- The slot staff committed to (same as requested when confirmed as-is)
+  scheduled_date DATE,
+  scheduled_time TIME,
+  staff_notes TEXT,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  responded_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.schedule_requests ENABLE ROW LEVEL SECURITY;
+
+-- Clients can see and submit requests for jobs they have portal access to
+CREATE POLICY "Clients can view schedule requests for their jobs"
+ON public.schedule_requests
+FOR SELECT
+USING (client_has_job_access(job_id));
+
+CREATE POLICY "Clients can create schedule requests for their jobs"
+ON public.schedule_requests
+FOR INSERT
+WITH CHECK (
+  client_has_job_access(job_id)
+  AND requested_by = auth.uid()
+  AND status = 'requested'
+  AND scheduled_date IS NULL
+  AND responded_at IS NULL
+);
+
+-- Staff can view and respond to requests for their own jobs
+CREATE POLICY "Staff can view schedule requests for their jobs"
+ON public.schedule_requests
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM jobs
+    WHERE jobs.id = schedule_requests.job_id
+    AND jobs.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Staff can update schedule requests for their jobs"
+ON public.schedule_requests
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM jobs
+    WHERE jobs.id = schedule_requests.job_id
+    AND jobs.user_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_schedule_requests_updated_at
+BEFORE UPDATE ON public.schedule_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_schedule_requests_job_created ON public.schedule_requests (job_id, created_at DESC);
+
+-- Notify the job owner when a client submits a request.
+-- Clients can't insert notifications directly, so this runs as definer.
+CREATE OR REPLACE FUNCTION public.notify_schedule_request()
+RETURNS TRIGGER AS $$
+DECLARE
+  job_record RECORD;
+BEGIN
+  SELECT id, user_id, job_number, client_name INTO job_record
+  FROM public.jobs
+  WHERE id = NEW.job_id;
+
+  IF job_record.user_id IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, type, title, message, metadata)
+    VALUES (
+      job_record.user_id,
+      'schedule_requested',
+      'New ' || NEW.request_type::text || ' request',
+      job_record.client_name || ' requested a ' || NEW.request_type::text || ' on '
+        || to_char(NEW.requested_date, 'Mon DD, YYYY')
+        || COALESCE(' at ' || to_char(NEW.requested_time, 'HH12:MI AM'), '')
+        || ' for Job #' || job_record.job_number || '.',
+      jsonb_build_object(
+        'jobId', job_record.id,
+        'jobNumber', job_record.job_number,
+        'scheduleRequestId', NEW.id
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_schedule_request_created
+AFTER INSERT ON public.schedule_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_schedule_request();
+
+-- Realtime: staff dashboards and the client portal both listen for changes
+ALTER PUBLICATION supabase_realtime ADD TABLE public.schedule_requests;
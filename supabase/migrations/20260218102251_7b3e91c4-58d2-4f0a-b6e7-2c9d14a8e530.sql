@@ -0,0 +1,143 @@
+-- Per-job message thread between the client (portal) and staff (job detail)
+CREATE TYPE public.message_sender_role AS ENUM ('client', 'staff');
+
+CREATE TABLE public.job_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL,
+  sender_role public.message_sender_role NOT NULL,
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 4000),
+  -- Set when the other side has seen the message
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.job_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view messages for their jobs"
+ON public.job_messages
+FOR SELECT
+USING (client_has_job_access(job_id));
+
+CREATE POLICY "Clients can send messages for their jobs"
+ON public.job_messages
+FOR INSERT
+WITH CHECK (
+  client_has_job_access(job_id)
+  AND sender_id = auth.uid()
+  AND sender_role = 'client'
+  AND read_at IS NULL
+);
+
+CREATE POLICY "Staff can view messages for their jobs"
+ON public.job_messages
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM jobs
+    WHERE jobs.id = job_messages.job_id
+    AND jobs.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Staff can send messages for their jobs"
+ON public.job_messages
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM jobs
+    WHERE jobs.id = job_messages.job_id
+    AND jobs.user_id = auth.uid()
+  )
+  AND sender_id = auth.uid()
+  AND sender_role = 'staff'
+  AND read_at IS NULL
+);
+
+CREATE INDEX idx_job_messages_job_created ON public.job_messages (job_id, created_at);
+CREATE INDEX idx_job_messages_unread ON public.job_messages (job_id, sender_role) WHERE read_at IS NULL;
+
+-- Messages are immutable, so read receipts go through this function instead of an UPDATE policy.
+-- Marks everything the other side sent on the job as read for whoever is calling.
+CREATE OR REPLACE FUNCTION public.mark_job_messages_read(_job_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  reader_role public.message_sender_role;
+  updated_count INTEGER;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.jobs WHERE id = _job_id AND user_id = auth.uid()) THEN
+    reader_role := 'staff';
+  ELSIF client_has_job_access(_job_id) THEN
+    reader_role := 'client';
+  ELSE
+    RETURN 0;
+  END IF;
+
+  UPDATE public.job_messages
+  SET read_at = now()
+  WHERE job_id = _job_id
+    AND read_at IS NULL
+    AND sender_role <> reader_role;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Notify the other side of the thread.
+-- Client messages go to the job owner; staff replies go to every client linked to the job.
+CREATE OR REPLACE FUNCTION public.notify_job_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  job_record RECORD;
+  preview TEXT;
+BEGIN
+  SELECT id, user_id, job_number, client_name INTO job_record
+  FROM public.jobs
+  WHERE id = NEW.job_id;
+
+  preview := left(NEW.body, 140);
+
+  IF NEW.sender_role = 'client' THEN
+    IF job_record.user_id IS NOT NULL THEN
+      INSERT INTO public.notifications (user_id, type, title, message, metadata)
+      VALUES (
+        job_record.user_id,
+        'client_message',
+        'New message from ' || job_record.client_name,
+        preview,
+        jsonb_build_object(
+          'jobId', job_record.id,
+          'jobNumber', job_record.job_number,
+          'messageId', NEW.id
+        )
+      );
+    END IF;
+  ELSE
+    INSERT INTO public.notifications (user_id, type, title, message, metadata)
+    SELECT DISTINCT
+      ca.user_id,
+      'staff_message',
+      'New reply on Job #' || job_record.job_number,
+      preview,
+      jsonb_build_object(
+        'jobId', job_record.id,
+        'jobNumber', job_record.job_number,
+        'messageId', NEW.id
+      )
+    FROM public.client_job_access cja
+    JOIN public.client_accounts ca ON ca.id = cja.client_id
+    WHERE cja.job_id = NEW.job_id
+      AND ca.user_id IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_job_message_created
+AFTER INSERT ON public.job_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_job_message();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.job_messages;
@@ -0,0 +1,93 @@
+-- Client reviews left from the portal once a job is completed
+CREATE TABLE public.job_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  reviewer_id UUID NOT NULL,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT CHECK (comment IS NULL OR char_length(comment) <= 2000),
+  -- Client agreed that the business may quote this review publicly
+  allow_public BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (job_id, reviewer_id)
+);
+
+ALTER TABLE public.job_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own reviews"
+ON public.job_reviews
+FOR SELECT
+USING (reviewer_id = auth.uid());
+
+-- Reviews only open up once the job is completed
+CREATE POLICY "Clients can review completed jobs"
+ON public.job_reviews
+FOR INSERT
+WITH CHECK (
+  reviewer_id = auth.uid()
+  AND client_has_job_access(job_id)
+  AND EXISTS (
+    SELECT 1 FROM jobs
+    WHERE jobs.id = job_reviews.job_id
+    AND jobs.status = 'completed'
+  )
+);
+
+CREATE POLICY "Clients can update their own reviews"
+ON public.job_reviews
+FOR UPDATE
+USING (reviewer_id = auth.uid() AND client_has_job_access(job_id));
+
+CREATE POLICY "Staff can view reviews for their jobs"
+ON public.job_reviews
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM jobs
+    WHERE jobs.id = job_reviews.job_id
+    AND jobs.user_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_job_reviews_updated_at
+BEFORE UPDATE ON public.job_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_job_reviews_job_id ON public.job_reviews (job_id);
+CREATE INDEX idx_job_reviews_created_at ON public.job_reviews (created_at DESC);
+
+-- Let the job owner know a review came in
+CREATE OR REPLACE FUNCTION public.notify_job_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  job_record RECORD;
+BEGIN
+  SELECT id, user_id, job_number, client_name INTO job_record
+  FROM public.jobs
+  WHERE id = NEW.job_id;
+
+  IF job_record.user_id IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, type, title, message, metadata)
+    VALUES (
+      job_record.user_id,
+      'review_received',
+      NEW.rating || '-star review from ' || job_record.client_name,
+      COALESCE(left(NEW.comment, 140), 'Job #' || job_record.job_number || ' received a new review.'),
+      jsonb_build_object(
+        'jobId', job_record.id,
+        'jobNumber', job_record.job_number,
+        'reviewId', NEW.id,
+        'rating', NEW.rating
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_job_review_created
+AFTER INSERT ON public.job_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_job_review();
@@ -0,0 +1,83 @@
+-- Job ownership and the operations checklist, previously kept in each browser's localStorage
+
+-- Who is responsible for the job. assigned_to is set when the assignee has an account;
+-- assigned_to_name is what staff see and may be a plain name.
+ALTER TABLE public.jobs
+  ADD COLUMN assigned_to UUID,
+  ADD COLUMN assigned_to_name TEXT,
+  ADD COLUMN assigned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_jobs_assigned_to ON public.jobs (assigned_to) WHERE assigned_to IS NOT NULL;
+
+-- Business-defined checklists. Steps are copied onto a job when applied, so editing a
+-- template never rewrites the history of jobs already in progress.
+CREATE TABLE public.checklist_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  steps TEXT[] NOT NULL DEFAULT '{}',
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.checklist_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own checklist templates"
+ON public.checklist_templates
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_checklist_templates_updated_at
+BEFORE UPDATE ON public.checklist_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- At most one default template per business
+CREATE UNIQUE INDEX idx_checklist_templates_one_default
+ON public.checklist_templates (user_id)
+WHERE is_default;
+
+CREATE TABLE public.job_checklist_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  completed_by UUID,
+  completed_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (job_id, label)
+);
+
+ALTER TABLE public.job_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can manage checklist items for their jobs"
+ON public.job_checklist_items
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM jobs
+    WHERE jobs.id = job_checklist_items.job_id
+    AND jobs.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM jobs
+    WHERE jobs.id = job_checklist_items.job_id
+    AND jobs.user_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_job_checklist_items_updated_at
+BEFORE UPDATE ON public.job_checklist_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_job_checklist_items_job_sort ON public.job_checklist_items (job_id, sort_order);
+
+-- Other devices viewing the same job pick up ticks immediately
+ALTER PUBLICATION supabase_realtime ADD TABLE public.job_checklist_items;
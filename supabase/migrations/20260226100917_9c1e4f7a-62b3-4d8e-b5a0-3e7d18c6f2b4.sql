@@ -0,0 +1,603 @@
+-- Teams: several staff logins working for one rug business.
+--
+-- Business-owned rows (jobs, prices, templates) keep their user_id, which continues
+-- to mean "the business account" (the organization owner). That keeps every existing lookup by job.user_id
+-- (branding, notifications, payouts, edge functions) working unchanged, while the new
+-- organization_id column and the policies below give teammates access by role.
+
+CREATE TYPE public.org_role AS ENUM ('owner', 'manager', 'inspector', 'front_desk');
+
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A staff login belongs to one business at a time
+CREATE TABLE public.organization_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL UNIQUE,
+  role public.org_role NOT NULL,
+  email TEXT,
+  full_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_organization_members_one_owner
+ON public.organization_members (organization_id)
+WHERE role = 'owner';
+
+CREATE TABLE public.organization_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role public.org_role NOT NULL CHECK (role <> 'owner'),
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  invited_by UUID NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '14 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_organization_invitations_org ON public.organization_invitations (organization_id, created_at DESC);
+
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_organization_members_updated_at
+BEFORE UPDATE ON public.organization_members
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Membership helpers. SECURITY DEFINER so policies can call them without recursing
+-- through organization_members' own RLS.
+CREATE OR REPLACE FUNCTION public.current_org_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM organization_members WHERE user_id = auth.uid()
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_org_role(_org_id UUID, _roles public.org_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = _org_id
+    AND user_id = auth.uid()
+    AND role = ANY(_roles)
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_org_member(_org_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = _org_id
+    AND user_id = auth.uid()
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_job_role(_job_id UUID, _roles public.org_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM jobs j
+    JOIN organization_members m ON m.organization_id = j.organization_id
+    WHERE j.id = _job_id
+    AND m.user_id = auth.uid()
+    AND m.role = ANY(_roles)
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.org_owner_id(_org_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id FROM organization_members
+  WHERE organization_id = _org_id AND role = 'owner'
+$$;
+
+-- Organization RLS
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization"
+ON public.organizations
+FOR SELECT
+USING (is_org_member(id));
+
+CREATE POLICY "Owners can update their organization"
+ON public.organizations
+FOR UPDATE
+USING (has_org_role(id, ARRAY['owner']::org_role[]));
+
+CREATE POLICY "Members can view their teammates"
+ON public.organization_members
+FOR SELECT
+USING (is_org_member(organization_id));
+
+-- Owners and managers run the team; nobody can touch or create the owner row from the client
+CREATE POLICY "Owners and managers can change member roles"
+ON public.organization_members
+FOR UPDATE
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]) AND role <> 'owner')
+WITH CHECK (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]) AND role <> 'owner');
+
+-- A membership only ever changes role. Moving someone to another business goes
+-- through accept_organization_invitation, which deletes and re-inserts the row.
+CREATE OR REPLACE FUNCTION public.protect_membership_identity()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.organization_id <> OLD.organization_id OR NEW.user_id <> OLD.user_id THEN
+    RAISE EXCEPTION 'A membership''s organization and user cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_organization_member_identity
+BEFORE UPDATE ON public.organization_members
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_membership_identity();
+
+CREATE POLICY "Owners and managers can remove members"
+ON public.organization_members
+FOR DELETE
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]) AND role <> 'owner');
+
+CREATE POLICY "Members can leave their team"
+ON public.organization_members
+FOR DELETE
+USING (user_id = auth.uid() AND role <> 'owner');
+
+CREATE POLICY "Owners and managers can view invitations"
+ON public.organization_invitations
+FOR SELECT
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]));
+
+CREATE POLICY "Owners and managers can invite"
+ON public.organization_invitations
+FOR INSERT
+WITH CHECK (
+  has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[])
+  AND invited_by = auth.uid()
+  AND accepted_at IS NULL
+  AND revoked_at IS NULL
+);
+
+CREATE POLICY "Owners and managers can revoke invitations"
+ON public.organization_invitations
+FOR UPDATE
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]) AND accepted_at IS NULL);
+
+-- Business-owned tables get an organization
+ALTER TABLE public.jobs ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+ALTER TABLE public.jobs ADD COLUMN created_by UUID;
+ALTER TABLE public.service_prices ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+ALTER TABLE public.email_templates ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+ALTER TABLE public.checklist_templates ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_jobs_organization_id ON public.jobs (organization_id);
+CREATE INDEX idx_service_prices_organization_id ON public.service_prices (organization_id);
+
+-- Backfill: every existing business account becomes the owner of its own organization
+DO $$
+DECLARE
+  account RECORD;
+  new_org_id UUID;
+BEGIN
+  FOR account IN
+    SELECT p.user_id, p.business_name, p.full_name, u.email
+    FROM public.profiles p
+    JOIN auth.users u ON u.id = p.user_id
+    WHERE EXISTS (SELECT 1 FROM public.jobs j WHERE j.user_id = p.user_id)
+       OR EXISTS (SELECT 1 FROM public.service_prices sp WHERE sp.user_id = p.user_id)
+       OR p.business_name IS NOT NULL
+  LOOP
+    INSERT INTO public.organizations (name)
+    VALUES (COALESCE(NULLIF(account.business_name, ''), 'My Business'))
+    RETURNING id INTO new_org_id;
+
+    INSERT INTO public.organization_members (organization_id, user_id, role, email, full_name)
+    VALUES (new_org_id, account.user_id, 'owner', account.email, account.full_name);
+
+    UPDATE public.jobs SET organization_id = new_org_id, created_by = COALESCE(created_by, user_id) WHERE user_id = account.user_id;
+    UPDATE public.service_prices SET organization_id = new_org_id WHERE user_id = account.user_id;
+    UPDATE public.email_templates SET organization_id = new_org_id WHERE user_id = account.user_id;
+    UPDATE public.checklist_templates SET organization_id = new_org_id WHERE user_id = account.user_id;
+  END LOOP;
+END $$;
+
+-- Staff accounts created later get their organization on first use of the staff app
+CREATE OR REPLACE FUNCTION public.ensure_organization()
+RETURNS TABLE (organization_id UUID, role public.org_role)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_org_id UUID;
+  account RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM organization_members m WHERE m.user_id = auth.uid()) THEN
+    SELECT p.business_name, p.full_name, u.email INTO account
+    FROM auth.users u
+    LEFT JOIN profiles p ON p.user_id = u.id
+    WHERE u.id = auth.uid();
+
+    INSERT INTO organizations (name)
+    VALUES (COALESCE(NULLIF(account.business_name, ''), 'My Business'))
+    RETURNING id INTO new_org_id;
+
+    INSERT INTO organization_members (organization_id, user_id, role, email, full_name)
+    VALUES (new_org_id, auth.uid(), 'owner', account.email, account.full_name);
+  END IF;
+
+  RETURN QUERY
+  SELECT m.organization_id, m.role FROM organization_members m WHERE m.user_id = auth.uid();
+END;
+$$;
+
+-- New business rows join the creator's organization and are owned by the business account
+CREATE OR REPLACE FUNCTION public.assign_business_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    NEW.organization_id := current_org_id();
+  END IF;
+
+  IF NEW.organization_id IS NOT NULL THEN
+    NEW.user_id := COALESCE(org_owner_id(NEW.organization_id), NEW.user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.assign_job_creator()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER assign_jobs_creator
+BEFORE INSERT ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_job_creator();
+
+CREATE TRIGGER assign_jobs_business_owner
+BEFORE INSERT ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_business_owner();
+
+CREATE TRIGGER assign_service_prices_business_owner
+BEFORE INSERT ON public.service_prices
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_business_owner();
+
+CREATE TRIGGER assign_email_templates_business_owner
+BEFORE INSERT ON public.email_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_business_owner();
+
+CREATE TRIGGER assign_checklist_templates_business_owner
+BEFORE INSERT ON public.checklist_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_business_owner();
+
+-- Team access, alongside the existing owner (user_id = auth.uid()) policies.
+-- Everyone on the team works jobs; only owners and managers delete them.
+CREATE POLICY "Team members can view organization jobs"
+ON public.jobs
+FOR SELECT
+USING (is_org_member(organization_id));
+
+CREATE POLICY "Team members can create organization jobs"
+ON public.jobs
+FOR INSERT
+WITH CHECK (is_org_member(organization_id));
+
+CREATE POLICY "Team members can update organization jobs"
+ON public.jobs
+FOR UPDATE
+USING (is_org_member(organization_id));
+
+CREATE POLICY "Owners and managers can delete organization jobs"
+ON public.jobs
+FOR DELETE
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]));
+
+-- Front desk can see inspections but only inspectors and above record them
+CREATE POLICY "Team members can view organization inspections"
+ON public.inspections
+FOR SELECT
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[]));
+
+CREATE POLICY "Inspectors can record organization inspections"
+ON public.inspections
+FOR INSERT
+WITH CHECK (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector']::org_role[]));
+
+CREATE POLICY "Inspectors can update organization inspections"
+ON public.inspections
+FOR UPDATE
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector']::org_role[]));
+
+CREATE POLICY "Inspectors can delete organization inspections"
+ON public.inspections
+FOR DELETE
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector']::org_role[]));
+
+CREATE POLICY "Team members can view organization estimates"
+ON public.approved_estimates
+FOR SELECT
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[]));
+
+CREATE POLICY "Inspectors can manage organization estimates"
+ON public.approved_estimates
+FOR ALL
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector']::org_role[]))
+WITH CHECK (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector']::org_role[]));
+
+-- Money is visible to the people who handle it
+CREATE POLICY "Owners, managers and front desk can view organization payments"
+ON public.payments
+FOR SELECT
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'front_desk']::org_role[]));
+
+CREATE POLICY "Team members can manage organization service completions"
+ON public.service_completions
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM approved_estimates ae
+    WHERE ae.id = service_completions.approved_estimate_id
+    AND has_job_role(ae.job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[])
+  )
+);
+
+CREATE POLICY "Team members can manage organization client access"
+ON public.client_job_access
+FOR ALL
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[]))
+WITH CHECK (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[]));
+
+CREATE POLICY "Team members can view organization client accounts"
+ON public.client_accounts
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM client_job_access cja
+    WHERE cja.client_id = client_accounts.id
+    AND has_job_role(cja.job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[])
+  )
+);
+
+CREATE POLICY "Team members can view organization selections"
+ON public.client_service_selections
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM client_job_access cja
+    WHERE cja.id = client_service_selections.client_job_access_id
+    AND has_job_role(cja.job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[])
+  )
+);
+
+CREATE POLICY "Team members can view organization schedule requests"
+ON public.schedule_requests
+FOR SELECT
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[]));
+
+CREATE POLICY "Owners, managers and front desk can respond to schedule requests"
+ON public.schedule_requests
+FOR UPDATE
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'front_desk']::org_role[]));
+
+CREATE POLICY "Team members can view organization messages"
+ON public.job_messages
+FOR SELECT
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[]));
+
+CREATE POLICY "Team members can send organization messages"
+ON public.job_messages
+FOR INSERT
+WITH CHECK (
+  has_job_role(job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[])
+  AND sender_id = auth.uid()
+  AND sender_role = 'staff'
+  AND read_at IS NULL
+);
+
+CREATE POLICY "Team members can view organization reviews"
+ON public.job_reviews
+FOR SELECT
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[]));
+
+CREATE POLICY "Team members can manage organization checklists"
+ON public.job_checklist_items
+FOR ALL
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[]))
+WITH CHECK (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[]));
+
+-- Business settings: the whole team reads them, owners and managers change them
+CREATE POLICY "Team members can view organization service prices"
+ON public.service_prices
+FOR SELECT
+USING (is_org_member(organization_id));
+
+CREATE POLICY "Owners and managers can manage organization service prices"
+ON public.service_prices
+FOR ALL
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]))
+WITH CHECK (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]));
+
+CREATE POLICY "Team members can view organization email templates"
+ON public.email_templates
+FOR SELECT
+USING (is_org_member(organization_id));
+
+CREATE POLICY "Owners and managers can manage organization email templates"
+ON public.email_templates
+FOR ALL
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]))
+WITH CHECK (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]));
+
+CREATE POLICY "Team members can view organization checklist templates"
+ON public.checklist_templates
+FOR SELECT
+USING (is_org_member(organization_id));
+
+CREATE POLICY "Owners and managers can manage organization checklist templates"
+ON public.checklist_templates
+FOR ALL
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]))
+WITH CHECK (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]));
+
+-- Branding lives on the owner's profile, so teammates need to read it
+CREATE POLICY "Team members can view teammate profiles"
+ON public.profiles
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM organization_members m
+    WHERE m.user_id = profiles.user_id
+    AND m.organization_id = current_org_id()
+  )
+);
+
+-- Photos are stored under the uploader's folder; teammates need to see each other's
+CREATE POLICY "Team members can view teammate rug photos"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'rug-photos'
+  AND EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.user_id::text = (storage.foldername(name))[1]
+    AND m.organization_id = public.current_org_id()
+  )
+);
+
+-- Staff read receipts count for the whole team, not just the business account
+CREATE OR REPLACE FUNCTION public.mark_job_messages_read(_job_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  reader_role public.message_sender_role;
+  updated_count INTEGER;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.jobs WHERE id = _job_id AND user_id = auth.uid())
+     OR has_job_role(_job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[]) THEN
+    reader_role := 'staff';
+  ELSIF client_has_job_access(_job_id) THEN
+    reader_role := 'client';
+  ELSE
+    RETURN 0;
+  END IF;
+
+  UPDATE public.job_messages
+  SET read_at = now()
+  WHERE job_id = _job_id
+    AND read_at IS NULL
+    AND sender_role <> reader_role;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accepting an invitation moves the user into the inviting business. Their own
+-- auto-created organization is dropped as long as nothing was ever recorded in it.
+CREATE OR REPLACE FUNCTION public.accept_organization_invitation(_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation RECORD;
+  current_membership RECORD;
+  account RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO invitation
+  FROM organization_invitations
+  WHERE token = _token
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at > now();
+
+  IF invitation IS NULL THEN
+    RAISE EXCEPTION 'This invitation is invalid or has expired';
+  END IF;
+
+  SELECT u.email, p.full_name INTO account
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.user_id = u.id
+  WHERE u.id = auth.uid();
+
+  IF lower(account.email) <> lower(invitation.email) THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address';
+  END IF;
+
+  SELECT * INTO current_membership FROM organization_members WHERE user_id = auth.uid();
+
+  IF current_membership IS NOT NULL AND current_membership.organization_id <> invitation.organization_id THEN
+    IF current_membership.role = 'owner' AND (
+      EXISTS (SELECT 1 FROM organization_members WHERE organization_id = current_membership.organization_id AND user_id <> auth.uid())
+      OR EXISTS (SELECT 1 FROM jobs WHERE organization_id = current_membership.organization_id)
+    ) THEN
+      RAISE EXCEPTION 'You already own a business with jobs or teammates';
+    END IF;
+
+    DELETE FROM organization_members WHERE id = current_membership.id;
+    IF current_membership.role = 'owner' THEN
+      DELETE FROM organizations WHERE id = current_membership.organization_id;
+    END IF;
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id, role, email, full_name)
+  VALUES (invitation.organization_id, auth.uid(), invitation.role, account.email, account.full_name)
+  ON CONFLICT (user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  UPDATE organization_invitations SET accepted_at = now() WHERE id = invitation.id;
+
+  RETURN invitation.organization_id;
+END;
+$$;
@@ -0,0 +1,295 @@
+-- Configurable job status pipeline per business, with allowed transitions and a
+-- history of every status change.
+--
+-- The 'completed' key is reserved: reviews, the client portal and notifications treat
+-- it as "job done", so every pipeline keeps it as its final status (the label is free).
+
+CREATE TABLE public.job_statuses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  key TEXT NOT NULL CHECK (key ~ '^[a-z0-9_]+$'),
+  label TEXT NOT NULL,
+  -- Wording shown on the client portal timeline; NULL keeps the step internal
+  client_label TEXT,
+  color TEXT NOT NULL DEFAULT 'blue',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  next_statuses TEXT[] NOT NULL DEFAULT '{}',
+  is_initial BOOLEAN NOT NULL DEFAULT false,
+  -- Jobs move here automatically when the client pays online
+  advance_on_payment BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, key)
+);
+
+CREATE UNIQUE INDEX idx_job_statuses_one_initial
+ON public.job_statuses (organization_id)
+WHERE is_initial;
+
+CREATE UNIQUE INDEX idx_job_statuses_one_payment_target
+ON public.job_statuses (organization_id)
+WHERE advance_on_payment;
+
+ALTER TABLE public.job_statuses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view their status pipeline"
+ON public.job_statuses
+FOR SELECT
+USING (is_org_member(organization_id));
+
+CREATE POLICY "Owners and managers can manage the status pipeline"
+ON public.job_statuses
+FOR ALL
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]))
+WITH CHECK (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]));
+
+-- Clients need the labels to render their job timeline
+CREATE POLICY "Clients can view the status pipeline for their jobs"
+ON public.job_statuses
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM jobs j
+    WHERE j.organization_id = job_statuses.organization_id
+    AND client_has_job_access(j.id)
+  )
+);
+
+CREATE TRIGGER update_job_statuses_updated_at
+BEFORE UPDATE ON public.job_statuses
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.protect_completed_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.key = 'completed' AND (TG_OP = 'DELETE' OR NEW.key <> 'completed') THEN
+    RAISE EXCEPTION 'The completed status cannot be removed or renamed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_completed_job_status
+BEFORE UPDATE OR DELETE ON public.job_statuses
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_completed_status();
+
+-- The standard rug shop pipeline, given to every business until they change it
+CREATE OR REPLACE FUNCTION public.seed_job_statuses(_org_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.job_statuses
+    (organization_id, key, label, client_label, color, sort_order, next_statuses, is_initial, advance_on_payment)
+  VALUES
+    (_org_id, 'pickup_scheduled', 'Pickup scheduled', 'Pickup scheduled', 'gray', 0, ARRAY['inspection'], true, false),
+    (_org_id, 'inspection', 'Inspection', 'Inspection', 'blue', 1, ARRAY['estimate_sent'], false, false),
+    (_org_id, 'estimate_sent', 'Estimate sent', 'Estimate ready', 'purple', 2, ARRAY['awaiting_approval', 'in_wash'], false, false),
+    (_org_id, 'awaiting_approval', 'Awaiting approval', 'Awaiting your approval', 'amber', 3, ARRAY['estimate_sent', 'in_wash', 'repair'], false, false),
+    (_org_id, 'in_wash', 'In wash', 'Cleaning', 'cyan', 4, ARRAY['drying'], false, true),
+    (_org_id, 'drying', 'Drying', NULL, 'cyan', 5, ARRAY['repair', 'quality_check'], false, false),
+    (_org_id, 'repair', 'Repair', 'Repair', 'orange', 6, ARRAY['quality_check'], false, false),
+    (_org_id, 'quality_check', 'Quality check', NULL, 'indigo', 7, ARRAY['in_wash', 'repair', 'ready'], false, false),
+    (_org_id, 'ready', 'Ready', 'Ready for delivery', 'green', 8, ARRAY['completed'], false, false),
+    (_org_id, 'completed', 'Delivered', 'Delivered', 'emerald', 9, ARRAY[]::TEXT[], false, false)
+  ON CONFLICT (organization_id, key) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.seed_job_statuses(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.seed_organization_job_statuses()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM seed_job_statuses(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER seed_organization_job_statuses
+AFTER INSERT ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.seed_organization_job_statuses();
+
+SELECT public.seed_job_statuses(id) FROM public.organizations;
+
+-- Status history
+CREATE TABLE public.job_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  -- NULL when the change was made by the system, e.g. after an online payment
+  changed_by UUID,
+  changed_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_job_status_history_job ON public.job_status_history (job_id, created_at);
+
+ALTER TABLE public.job_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the jobs trigger below
+CREATE POLICY "Staff can view status history for their jobs"
+ON public.job_status_history
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM jobs
+    WHERE jobs.id = job_status_history.job_id
+    AND jobs.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Team members can view organization status history"
+ON public.job_status_history
+FOR SELECT
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[]));
+
+CREATE POLICY "Clients can view status history for their jobs"
+ON public.job_status_history
+FOR SELECT
+USING (client_has_job_access(job_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.job_status_history;
+
+-- Move legacy statuses onto the new pipeline. Open jobs waited on inspection or an
+-- estimate; "in-progress" was set once the client paid, i.e. the work had started.
+UPDATE public.jobs SET status = 'inspection' WHERE status = 'active';
+UPDATE public.jobs SET status = 'in_wash' WHERE status = 'in-progress';
+
+-- Existing jobs start their history with the status they are in now
+INSERT INTO public.job_status_history (job_id, from_status, to_status, created_at)
+SELECT id, NULL, status, CASE WHEN status = 'completed' THEN updated_at ELSE created_at END
+FROM public.jobs;
+
+-- New jobs start at the business's first status
+ALTER TABLE public.jobs ALTER COLUMN status DROP DEFAULT;
+
+CREATE OR REPLACE FUNCTION public.set_initial_job_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS NULL THEN
+    SELECT key INTO NEW.status
+    FROM job_statuses
+    WHERE organization_id = NEW.organization_id AND is_initial;
+
+    NEW.status := COALESCE(NEW.status, 'inspection');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Named to run after assign_jobs_business_owner has filled organization_id
+CREATE TRIGGER set_jobs_initial_status
+BEFORE INSERT ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.set_initial_job_status();
+
+-- Staff may only follow the pipeline's transitions. System updates (no signed-in
+-- user, e.g. payment webhooks) and jobs on statuses outside the pipeline are exempt.
+CREATE OR REPLACE FUNCTION public.enforce_job_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  allowed TEXT[];
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR auth.uid() IS NULL OR NEW.organization_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM job_statuses WHERE organization_id = NEW.organization_id AND key = NEW.status) THEN
+    RAISE EXCEPTION 'Unknown job status: %', NEW.status;
+  END IF;
+
+  SELECT next_statuses INTO allowed
+  FROM job_statuses
+  WHERE organization_id = NEW.organization_id AND key = OLD.status;
+
+  IF FOUND AND NOT (NEW.status = ANY(allowed)) THEN
+    RAISE EXCEPTION 'A job cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enforce_jobs_status_transition
+BEFORE UPDATE OF status ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_job_status_transition();
+
+CREATE OR REPLACE FUNCTION public.record_job_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor_name TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    SELECT COALESCE(m.full_name, p.full_name, m.email) INTO actor_name
+    FROM (SELECT auth.uid() AS user_id) me
+    LEFT JOIN organization_members m ON m.user_id = me.user_id
+    LEFT JOIN profiles p ON p.user_id = me.user_id;
+  END IF;
+
+  INSERT INTO job_status_history (job_id, from_status, to_status, changed_by, changed_by_name)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    actor_name
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_jobs_status_change
+AFTER INSERT OR UPDATE OF status ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.record_job_status_change();
+
+-- Called after an online payment: moves the job to the pipeline's payment status,
+-- unless it has already gone past it
+CREATE OR REPLACE FUNCTION public.advance_job_on_payment(_job_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  job RECORD;
+  target RECORD;
+  current_order INTEGER;
+BEGIN
+  SELECT id, status, organization_id INTO job FROM jobs WHERE id = _job_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT key, sort_order INTO target
+  FROM job_statuses
+  WHERE organization_id = job.organization_id AND advance_on_payment;
+
+  IF NOT FOUND THEN
+    RETURN job.status;
+  END IF;
+
+  SELECT sort_order INTO current_order
+  FROM job_statuses
+  WHERE organization_id = job.organization_id AND key = job.status;
+
+  IF current_order IS NULL OR current_order < target.sort_order THEN
+    UPDATE jobs SET status = target.key WHERE id = _job_id;
+    RETURN target.key;
+  END IF;
+
+  RETURN job.status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.advance_job_on_payment(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,21 @@
+-- Stripe webhooks become the source of truth for payment state.
+--
+-- Every delivered event id is recorded before it is handled, so Stripe's retries and
+-- duplicate deliveries are acknowledged without running the side effects twice.
+
+CREATE TABLE public.stripe_webhook_events (
+  id TEXT NOT NULL PRIMARY KEY,
+  type TEXT NOT NULL,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Written and read only by the stripe-webhook edge function (service role)
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Refunds made in the Stripe dashboard and failed card attempts are synced back
+ALTER TABLE public.payments
+ADD COLUMN amount_refunded NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN failure_reason TEXT;
+
+CREATE INDEX idx_payments_stripe_payment_intent_id ON public.payments(stripe_payment_intent_id);
@@ -0,0 +1,161 @@
+-- Refunds issued from the staff UI (through the refund-payment edge function) or
+-- straight from the Stripe dashboard (synced by stripe-webhook).
+--
+-- Each refund is a credit note, numbered per business (CN-00001, CN-00002, ...)
+-- when it is recorded. Numbers are never reused, even by a refund that fails.
+
+ALTER TABLE public.organizations
+ADD COLUMN credit_note_counter INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE public.payment_refunds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  -- Copied from the job by assign_credit_note_number
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  credit_note_number TEXT,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  -- Share of the platform fee handed back to the business for this refund
+  platform_fee_reversed NUMERIC NOT NULL DEFAULT 0,
+  reason TEXT,
+  -- The estimate lines being refunded, as {rugNumber, serviceId, name, quantity, unitPrice, amount};
+  -- empty for a refund of the whole remaining amount
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  stripe_refund_id TEXT UNIQUE,
+  credit_note_sent_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payment_refunds_payment_id ON public.payment_refunds(payment_id);
+CREATE INDEX idx_payment_refunds_job_id ON public.payment_refunds(job_id);
+CREATE UNIQUE INDEX idx_payment_refunds_credit_note_number
+ON public.payment_refunds(organization_id, credit_note_number);
+
+ALTER TABLE public.payment_refunds ENABLE ROW LEVEL SECURITY;
+
+-- Refund rows are written by edge functions (service role) only
+CREATE POLICY "Staff can view refunds for their jobs"
+ON public.payment_refunds
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = payment_refunds.job_id
+    AND jobs.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Owners, managers and front desk can view organization refunds"
+ON public.payment_refunds
+FOR SELECT
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'front_desk']::org_role[]));
+
+CREATE POLICY "Admins can view all refunds"
+ON public.payment_refunds
+FOR SELECT TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+-- Takes the business's next credit note number. The counter row lock serialises
+-- concurrent refunds, so two can never share a number.
+CREATE OR REPLACE FUNCTION public.assign_credit_note_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  counter INTEGER;
+BEGIN
+  SELECT organization_id INTO NEW.organization_id FROM jobs WHERE id = NEW.job_id;
+
+  UPDATE organizations
+  SET credit_note_counter = credit_note_counter + 1
+  WHERE id = NEW.organization_id
+  RETURNING credit_note_counter INTO counter;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund of payment % has no organization to number it', NEW.payment_id;
+  END IF;
+
+  NEW.credit_note_number := 'CN-' || lpad(counter::text, 5, '0');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER assign_credit_note_number
+BEFORE INSERT ON public.payment_refunds
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_credit_note_number();
+
+CREATE TRIGGER update_payment_refunds_updated_at
+BEFORE UPDATE ON public.payment_refunds
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Records a refund from the staff UI. The payment row lock makes the checks and the
+-- insert one step, so two refunds at once can't both take the same amount or line.
+-- A failed refund gives its amount and lines back.
+CREATE OR REPLACE FUNCTION public.record_payment_refund(
+  _payment_id UUID,
+  _amount NUMERIC,
+  _platform_fee_reversed NUMERIC,
+  _reason TEXT,
+  _line_items JSONB,
+  _created_by UUID
+)
+RETURNS public.payment_refunds AS $$
+DECLARE
+  payment RECORD;
+  refunded NUMERIC;
+  refund public.payment_refunds;
+BEGIN
+  SELECT id, job_id, amount, amount_refunded INTO payment
+  FROM payments
+  WHERE id = _payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO refunded
+  FROM payment_refunds
+  WHERE payment_id = _payment_id AND status <> 'failed';
+
+  IF GREATEST(refunded, payment.amount_refunded) + _amount > payment.amount THEN
+    RAISE EXCEPTION 'This payment has already been refunded';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM payment_refunds r
+    CROSS JOIN LATERAL jsonb_array_elements(r.line_items) done
+    JOIN jsonb_array_elements(_line_items) requested
+      ON requested ->> 'rugNumber' = done ->> 'rugNumber'
+      AND requested ->> 'serviceId' = done ->> 'serviceId'
+    WHERE r.payment_id = _payment_id AND r.status <> 'failed'
+  ) THEN
+    RAISE EXCEPTION 'Some of these services have already been refunded';
+  END IF;
+
+  INSERT INTO payment_refunds (payment_id, job_id, amount, platform_fee_reversed, reason, line_items, created_by)
+  VALUES (_payment_id, payment.job_id, _amount, _platform_fee_reversed, _reason, COALESCE(_line_items, '[]'::jsonb), _created_by)
+  RETURNING * INTO refund;
+
+  RETURN refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_refund(UUID, NUMERIC, NUMERIC, TEXT, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Completed payments never had their fee share recorded; fill it in so refunds
+-- have something to reverse
+UPDATE public.payments
+SET platform_fee = round(
+  (amount - amount_refunded) * COALESCE(
+    (SELECT setting_value::numeric FROM public.platform_settings WHERE setting_key = 'platform_fee_percentage'),
+    10
+  ) / 100,
+  2
+)
+WHERE status IN ('completed', 'partially_refunded', 'refunded')
+AND COALESCE(platform_fee, 0) = 0;
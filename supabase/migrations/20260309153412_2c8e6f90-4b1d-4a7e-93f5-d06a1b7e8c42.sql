@@ -0,0 +1,273 @@
+-- Deposit and balance invoicing.
+--
+-- When the client checks out, the job's agreed total is fixed and either a 'full' or a
+-- 'deposit' invoice is issued for it. Once the job reaches the pipeline step flagged
+-- issues_balance_invoice (Ready, by default) whatever is still owed is billed on a
+-- 'balance' invoice the client pays from the portal. Invoices track what has been paid
+-- against them across any number of payments.
+
+-- Share of the job total asked for up front; 0 turns deposits off
+ALTER TABLE public.organizations
+ADD COLUMN deposit_percentage NUMERIC NOT NULL DEFAULT 50
+  CHECK (deposit_percentage >= 0 AND deposit_percentage <= 100);
+
+-- The portal needs the business's deposit terms
+CREATE POLICY "Clients can view organizations of their jobs"
+ON public.organizations
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.organization_id = organizations.id
+    AND client_has_job_access(jobs.id)
+  )
+);
+
+-- Total of the services the client approved at checkout
+ALTER TABLE public.jobs ADD COLUMN agreed_total NUMERIC;
+
+CREATE TABLE public.invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('full', 'deposit', 'balance')),
+  amount_due NUMERIC NOT NULL CHECK (amount_due >= 0),
+  -- Net of refunds, kept in step with the linked payments by trigger
+  amount_paid NUMERIC NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'paid', 'void')),
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  due_at TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoices_job_id ON public.invoices(job_id);
+CREATE INDEX idx_invoices_open ON public.invoices(organization_id, issued_at) WHERE status = 'open';
+
+-- One open balance invoice per job at a time
+CREATE UNIQUE INDEX idx_invoices_one_open_balance
+ON public.invoices (job_id)
+WHERE kind = 'balance' AND status = 'open';
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+-- Invoices are written by edge functions and the functions below only
+CREATE POLICY "Staff can view invoices for their jobs"
+ON public.invoices
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = invoices.job_id
+    AND jobs.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Owners, managers and front desk can view organization invoices"
+ON public.invoices
+FOR SELECT
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'front_desk']::org_role[]));
+
+CREATE POLICY "Clients can view invoices for their jobs"
+ON public.invoices
+FOR SELECT
+USING (client_has_job_access(job_id));
+
+CREATE TRIGGER update_invoices_updated_at
+BEFORE UPDATE ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.payments
+ADD COLUMN invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_payments_invoice_id ON public.payments(invoice_id);
+
+-- Keep each invoice's paid amount in step with its payments. Refunds lower
+-- amount_paid but don't reopen the invoice: a refund gives up that part of the bill.
+CREATE OR REPLACE FUNCTION public.sync_invoice_amount_paid()
+RETURNS TRIGGER AS $$
+DECLARE
+  target UUID;
+  charged NUMERIC;
+  kept NUMERIC;
+BEGIN
+  FOREACH target IN ARRAY ARRAY[NEW.invoice_id, CASE WHEN TG_OP = 'UPDATE' THEN OLD.invoice_id END] LOOP
+    CONTINUE WHEN target IS NULL;
+
+    SELECT COALESCE(SUM(amount), 0), COALESCE(SUM(amount - amount_refunded), 0) INTO charged, kept
+    FROM payments
+    WHERE invoice_id = target
+    AND status IN ('completed', 'partially_refunded', 'refunded');
+
+    UPDATE invoices
+    SET amount_paid = kept,
+        status = CASE
+          WHEN status = 'void' THEN 'void'
+          WHEN charged >= amount_due - 0.005 THEN 'paid'
+          ELSE 'open'
+        END,
+        paid_at = CASE WHEN charged >= amount_due - 0.005 THEN COALESCE(paid_at, now()) ELSE NULL END
+    WHERE id = target;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_invoice_amount_paid
+AFTER INSERT OR UPDATE OF status, amount_refunded, invoice_id ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_invoice_amount_paid();
+
+-- Pipeline step that bills the remaining balance
+ALTER TABLE public.job_statuses
+ADD COLUMN issues_balance_invoice BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX idx_job_statuses_one_balance_step
+ON public.job_statuses (organization_id)
+WHERE issues_balance_invoice;
+
+UPDATE public.job_statuses SET issues_balance_invoice = true WHERE key = 'ready';
+
+CREATE OR REPLACE FUNCTION public.seed_job_statuses(_org_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.job_statuses
+    (organization_id, key, label, client_label, color, sort_order, next_statuses, is_initial, advance_on_payment, issues_balance_invoice)
+  VALUES
+    (_org_id, 'pickup_scheduled', 'Pickup scheduled', 'Pickup scheduled', 'gray', 0, ARRAY['inspection'], true, false, false),
+    (_org_id, 'inspection', 'Inspection', 'Inspection', 'blue', 1, ARRAY['estimate_sent'], false, false, false),
+    (_org_id, 'estimate_sent', 'Estimate sent', 'Estimate ready', 'purple', 2, ARRAY['awaiting_approval', 'in_wash'], false, false, false),
+    (_org_id, 'awaiting_approval', 'Awaiting approval', 'Awaiting your approval', 'amber', 3, ARRAY['estimate_sent', 'in_wash', 'repair'], false, false, false),
+    (_org_id, 'in_wash', 'In wash', 'Cleaning', 'cyan', 4, ARRAY['drying'], false, true, false),
+    (_org_id, 'drying', 'Drying', NULL, 'cyan', 5, ARRAY['repair', 'quality_check'], false, false, false),
+    (_org_id, 'repair', 'Repair', 'Repair', 'orange', 6, ARRAY['quality_check'], false, false, false),
+    (_org_id, 'quality_check', 'Quality check', NULL, 'indigo', 7, ARRAY['in_wash', 'repair', 'ready'], false, false, false),
+    (_org_id, 'ready', 'Ready', 'Ready for delivery', 'green', 8, ARRAY['completed'], false, false, true),
+    (_org_id, 'completed', 'Delivered', 'Delivered', 'emerald', 9, ARRAY[]::TEXT[], false, false, false)
+  ON CONFLICT (organization_id, key) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Bills whatever is still owed on a job. Returns the open balance invoice, or NULL
+-- when nothing is owed (or the client never checked out).
+CREATE OR REPLACE FUNCTION public.issue_balance_invoice(_job_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  job RECORD;
+  paid NUMERIC;
+  invoiced NUMERIC;
+  balance NUMERIC;
+  invoice_id UUID;
+BEGIN
+  SELECT id, user_id, organization_id, job_number, agreed_total INTO job FROM jobs WHERE id = _job_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Staff may issue it by hand; the status trigger runs it for everyone
+  IF auth.uid() IS NOT NULL
+    AND job.user_id <> auth.uid()
+    AND NOT has_job_role(_job_id, ARRAY['owner', 'manager', 'front_desk']::org_role[])
+    AND pg_trigger_depth() = 0 THEN
+    RAISE EXCEPTION 'Not allowed to invoice this job';
+  END IF;
+
+  SELECT id INTO invoice_id FROM invoices
+  WHERE job_id = _job_id AND kind = 'balance' AND status = 'open';
+  IF FOUND THEN
+    RETURN invoice_id;
+  END IF;
+
+  IF job.agreed_total IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Refunded services come off the agreed total, so count what was charged
+  SELECT COALESCE(SUM(amount), 0) INTO paid
+  FROM payments
+  WHERE job_id = _job_id AND status IN ('completed', 'partially_refunded', 'refunded');
+
+  -- Open invoices already ask for part of it
+  SELECT COALESCE(SUM(amount_due - amount_paid), 0) INTO invoiced
+  FROM invoices
+  WHERE job_id = _job_id AND status = 'open';
+
+  balance := round(job.agreed_total - paid - invoiced, 2);
+  IF balance <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO invoices (job_id, organization_id, kind, amount_due, due_at)
+  VALUES (_job_id, job.organization_id, 'balance', balance, now() + interval '14 days')
+  RETURNING id INTO invoice_id;
+
+  UPDATE jobs SET payment_status = 'balance_due' WHERE id = _job_id;
+
+  INSERT INTO notifications (user_id, type, title, message, metadata)
+  SELECT ca.user_id,
+         'balance_due',
+         'Balance due - Job #' || job.job_number,
+         'Your rugs are ready. The remaining $' || to_char(balance, 'FM999999990.00') || ' can be paid from your portal.',
+         jsonb_build_object('jobId', _job_id, 'invoiceId', invoice_id, 'amount', balance)
+  FROM client_job_access cja
+  JOIN client_accounts ca ON ca.id = cja.client_id
+  WHERE cja.job_id = _job_id;
+
+  RETURN invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.issue_balance_invoice(UUID) FROM PUBLIC, anon;
+
+CREATE OR REPLACE FUNCTION public.issue_balance_invoice_on_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM job_statuses
+    WHERE organization_id = NEW.organization_id
+    AND key = NEW.status
+    AND issues_balance_invoice
+  ) THEN
+    PERFORM issue_balance_invoice(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER issue_balance_invoice_on_status
+AFTER UPDATE OF status ON public.jobs
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.issue_balance_invoice_on_status();
+
+-- Existing payments predate deposits: treat each completed one as paying a full invoice
+WITH legacy AS (
+  INSERT INTO public.invoices (job_id, organization_id, kind, amount_due, issued_at, paid_at, status)
+  SELECT p.job_id, j.organization_id, 'full', p.amount, COALESCE(p.created_at, now()), p.paid_at, 'open'
+  FROM public.payments p
+  JOIN public.jobs j ON j.id = p.job_id
+  WHERE p.status IN ('completed', 'partially_refunded', 'refunded')
+  AND p.invoice_id IS NULL
+  RETURNING id, job_id, amount_due, issued_at
+)
+UPDATE public.payments p
+SET invoice_id = legacy.id
+FROM legacy
+WHERE p.job_id = legacy.job_id
+AND p.amount = legacy.amount_due
+AND COALESCE(p.created_at, legacy.issued_at) = legacy.issued_at
+AND p.invoice_id IS NULL;
+
+UPDATE public.jobs j
+SET agreed_total = totals.total
+FROM (
+  SELECT job_id, SUM(amount) AS total
+  FROM public.payments
+  WHERE status IN ('completed', 'partially_refunded', 'refunded')
+  GROUP BY job_id
+) totals
+WHERE j.id = totals.job_id
+AND j.agreed_total IS NULL;
@@ -0,0 +1,281 @@
+-- Invoices become bookkeeping documents: numbered per business, with frozen line
+-- items, tax lines, discounts and their own PDF.
+--
+-- Statuses are now draft -> sent -> paid (or void). A checkout invoice stays a draft
+-- until its payment goes through, so abandoned checkouts never use up a number.
+-- Numbers are assigned when an invoice leaves draft and are never reused.
+
+ALTER TABLE public.organizations
+ADD COLUMN invoice_prefix TEXT NOT NULL DEFAULT 'INV',
+ADD COLUMN invoice_counter INTEGER NOT NULL DEFAULT 0;
+
+-- The service lines the client agreed to at checkout, copied from approved_estimates
+ALTER TABLE public.jobs ADD COLUMN agreed_line_items JSONB;
+
+-- line_items: [{ kind: service|deposit|discount|credit, description, rugNumber?, serviceId?,
+--                quantity, unitPrice, amount }]
+-- tax_lines:  [{ name, rate, amount }]
+-- amount_due = subtotal - discount_total + tax_total + credit lines
+ALTER TABLE public.invoices
+ADD COLUMN invoice_number TEXT,
+ADD COLUMN line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN subtotal NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN discount_total NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN tax_lines JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN tax_total NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN sent_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.invoices DROP CONSTRAINT invoices_status_check;
+UPDATE public.invoices SET status = 'sent', sent_at = issued_at WHERE status = 'open';
+UPDATE public.invoices SET sent_at = issued_at WHERE status = 'paid';
+ALTER TABLE public.invoices ALTER COLUMN status SET DEFAULT 'draft';
+ALTER TABLE public.invoices
+ADD CONSTRAINT invoices_status_check CHECK (status IN ('draft', 'sent', 'paid', 'void'));
+
+DROP INDEX public.idx_invoices_one_open_balance;
+CREATE UNIQUE INDEX idx_invoices_one_open_balance
+ON public.invoices (job_id)
+WHERE kind = 'balance' AND status IN ('draft', 'sent');
+
+DROP INDEX public.idx_invoices_open;
+CREATE INDEX idx_invoices_outstanding ON public.invoices(organization_id, issued_at) WHERE status = 'sent';
+
+-- Drafts are the business's own until sent
+DROP POLICY "Clients can view invoices for their jobs" ON public.invoices;
+CREATE POLICY "Clients can view invoices for their jobs"
+ON public.invoices
+FOR SELECT
+USING (status <> 'draft' AND client_has_job_access(job_id));
+
+-- Legacy invoices: services from the payment that settled them, otherwise one line
+UPDATE public.invoices i
+SET line_items = lines.items,
+    subtotal = lines.total
+FROM (
+  SELECT p.invoice_id,
+         jsonb_agg(jsonb_build_object(
+           'kind', 'service',
+           'description', s->>'name',
+           'rugNumber', r->>'rugNumber',
+           'serviceId', s->>'id',
+           'quantity', (s->>'quantity')::numeric,
+           'unitPrice', (s->>'unitPrice')::numeric,
+           'amount', round((s->>'quantity')::numeric * (s->>'unitPrice')::numeric, 2)
+         )) AS items,
+         SUM(round((s->>'quantity')::numeric * (s->>'unitPrice')::numeric, 2)) AS total
+  FROM public.payments p,
+       jsonb_array_elements(COALESCE(p.metadata->'selectedServices', '[]'::jsonb)) r,
+       jsonb_array_elements(COALESCE(r->'services', '[]'::jsonb)) s
+  WHERE p.invoice_id IS NOT NULL
+  AND p.status IN ('completed', 'partially_refunded', 'refunded')
+  GROUP BY p.invoice_id
+) lines
+WHERE i.id = lines.invoice_id
+AND i.kind = 'full';
+
+UPDATE public.invoices
+SET line_items = jsonb_build_array(jsonb_build_object(
+      'kind', CASE WHEN kind = 'deposit' THEN 'deposit' ELSE 'service' END,
+      'description', CASE kind WHEN 'deposit' THEN 'Deposit' WHEN 'balance' THEN 'Balance due' ELSE 'Rug care services' END,
+      'quantity', 1,
+      'unitPrice', amount_due,
+      'amount', amount_due
+    )),
+    subtotal = amount_due
+WHERE line_items = '[]'::jsonb;
+
+UPDATE public.jobs j
+SET agreed_line_items = i.line_items
+FROM public.invoices i
+WHERE i.job_id = j.id
+AND i.kind = 'full'
+AND i.status = 'paid'
+AND j.agreed_line_items IS NULL;
+
+-- Number what already exists, oldest first
+WITH numbered AS (
+  SELECT id, organization_id,
+         row_number() OVER (PARTITION BY organization_id ORDER BY issued_at, created_at) AS n
+  FROM public.invoices
+  WHERE organization_id IS NOT NULL
+  AND status IN ('sent', 'paid')
+)
+UPDATE public.invoices i
+SET invoice_number = o.invoice_prefix || '-' || lpad(numbered.n::text, 5, '0')
+FROM numbered
+JOIN public.organizations o ON o.id = numbered.organization_id
+WHERE i.id = numbered.id;
+
+UPDATE public.organizations o
+SET invoice_counter = counts.n
+FROM (
+  SELECT organization_id, COUNT(*) AS n
+  FROM public.invoices
+  WHERE invoice_number IS NOT NULL
+  GROUP BY organization_id
+) counts
+WHERE o.id = counts.organization_id;
+
+CREATE UNIQUE INDEX idx_invoices_number ON public.invoices (organization_id, invoice_number);
+
+-- Takes the business's next number as an invoice leaves draft. The counter row lock
+-- serialises concurrent issues, so numbers have no gaps or duplicates.
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  org RECORD;
+BEGIN
+  -- Drafts voided before going out never get a number
+  IF NEW.status IN ('draft', 'void') OR NEW.invoice_number IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.organization_id IS NULL THEN
+    SELECT organization_id INTO NEW.organization_id FROM jobs WHERE id = NEW.job_id;
+  END IF;
+
+  UPDATE organizations
+  SET invoice_counter = invoice_counter + 1
+  WHERE id = NEW.organization_id
+  RETURNING invoice_prefix, invoice_counter INTO org;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % has no organization to number it', NEW.id;
+  END IF;
+
+  NEW.invoice_number := org.invoice_prefix || '-' || lpad(org.invoice_counter::text, 5, '0');
+  NEW.sent_at := COALESCE(NEW.sent_at, now());
+  -- A draft is dated the day it goes out
+  IF TG_OP = 'UPDATE' THEN
+    NEW.issued_at := now();
+    NEW.due_at := GREATEST(COALESCE(NEW.due_at, now()), now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER assign_invoice_number
+BEFORE INSERT OR UPDATE OF status ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_invoice_number();
+
+-- Same as before with the new statuses: payment completes a draft or sent invoice
+CREATE OR REPLACE FUNCTION public.sync_invoice_amount_paid()
+RETURNS TRIGGER AS $$
+DECLARE
+  target UUID;
+  charged NUMERIC;
+  kept NUMERIC;
+BEGIN
+  FOREACH target IN ARRAY ARRAY[NEW.invoice_id, CASE WHEN TG_OP = 'UPDATE' THEN OLD.invoice_id END] LOOP
+    CONTINUE WHEN target IS NULL;
+
+    SELECT COALESCE(SUM(amount), 0), COALESCE(SUM(amount - amount_refunded), 0) INTO charged, kept
+    FROM payments
+    WHERE invoice_id = target
+    AND status IN ('completed', 'partially_refunded', 'refunded');
+
+    UPDATE invoices
+    SET amount_paid = kept,
+        status = CASE
+          WHEN status = 'void' THEN 'void'
+          WHEN charged >= amount_due - 0.005 THEN 'paid'
+          WHEN status = 'paid' THEN 'sent'
+          ELSE status
+        END,
+        paid_at = CASE WHEN charged >= amount_due - 0.005 THEN COALESCE(paid_at, now()) ELSE NULL END
+    WHERE id = target;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Balance invoices now list the agreed services and credit what has been paid
+CREATE OR REPLACE FUNCTION public.issue_balance_invoice(_job_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  job RECORD;
+  paid NUMERIC;
+  balance NUMERIC;
+  lines JSONB;
+  credits JSONB;
+  invoice_id UUID;
+BEGIN
+  SELECT id, user_id, organization_id, job_number, agreed_total, agreed_line_items INTO job
+  FROM jobs WHERE id = _job_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Staff may issue it by hand; the status trigger runs it for everyone
+  IF auth.uid() IS NOT NULL
+    AND job.user_id <> auth.uid()
+    AND NOT has_job_role(_job_id, ARRAY['owner', 'manager', 'front_desk']::org_role[])
+    AND pg_trigger_depth() = 0 THEN
+    RAISE EXCEPTION 'Not allowed to invoice this job';
+  END IF;
+
+  SELECT id INTO invoice_id FROM invoices
+  WHERE job_id = _job_id AND kind = 'balance' AND status IN ('draft', 'sent');
+  IF FOUND THEN
+    RETURN invoice_id;
+  END IF;
+
+  IF job.agreed_total IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Refunded services come off the agreed total, so count what was charged
+  SELECT COALESCE(SUM(amount), 0) INTO paid
+  FROM payments
+  WHERE job_id = _job_id AND status IN ('completed', 'partially_refunded', 'refunded');
+
+  balance := round(job.agreed_total - paid, 2);
+  IF balance <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  lines := COALESCE(job.agreed_line_items, jsonb_build_array(jsonb_build_object(
+    'kind', 'service',
+    'description', 'Rug care services',
+    'quantity', 1,
+    'unitPrice', job.agreed_total,
+    'amount', job.agreed_total
+  )));
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+           'kind', 'credit',
+           'description', 'Less payment received' || COALESCE(' (' || i.invoice_number || ')', ''),
+           'quantity', 1,
+           'unitPrice', -p.charged,
+           'amount', -p.charged
+         ) ORDER BY p.first_paid), '[]'::jsonb) INTO credits
+  FROM (
+    SELECT invoice_id, SUM(amount) AS charged, MIN(COALESCE(paid_at, created_at)) AS first_paid
+    FROM payments
+    WHERE job_id = _job_id AND status IN ('completed', 'partially_refunded', 'refunded')
+    GROUP BY invoice_id
+  ) p
+  LEFT JOIN invoices i ON i.id = p.invoice_id;
+
+  INSERT INTO invoices (job_id, organization_id, kind, status, line_items, subtotal, amount_due, due_at)
+  VALUES (_job_id, job.organization_id, 'balance', 'sent', lines || credits, job.agreed_total, balance, now() + interval '14 days')
+  RETURNING id INTO invoice_id;
+
+  UPDATE jobs SET payment_status = 'balance_due' WHERE id = _job_id;
+
+  INSERT INTO notifications (user_id, type, title, message, metadata)
+  SELECT ca.user_id,
+         'balance_due',
+         'Balance due - Job #' || job.job_number,
+         'Your rugs are ready. The remaining $' || to_char(balance, 'FM999999990.00') || ' can be paid from your portal.',
+         jsonb_build_object('jobId', _job_id, 'invoiceId', invoice_id, 'amount', balance)
+  FROM client_job_access cja
+  JOIN client_accounts ca ON ca.id = cja.client_id
+  WHERE cja.job_id = _job_id;
+
+  RETURN invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,197 @@
+-- Sales tax per business. Several rates can apply at once (e.g. state and county);
+-- each is charged on the taxable part of the job and shown as its own line.
+-- Services on the price list and individual clients can be exempt.
+
+CREATE TABLE public.tax_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Percentage, e.g. 8.25
+  rate NUMERIC NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_tax_rates_organization ON public.tax_rates(organization_id, sort_order);
+
+ALTER TABLE public.tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view tax rates"
+ON public.tax_rates
+FOR SELECT
+USING (is_org_member(organization_id));
+
+CREATE POLICY "Owners and managers can manage tax rates"
+ON public.tax_rates
+FOR ALL
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]))
+WITH CHECK (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]));
+
+CREATE TRIGGER update_tax_rates_updated_at
+BEFORE UPDATE ON public.tax_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Clients are identified by email across jobs, as on the job form
+CREATE TABLE public.tax_exempt_clients (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  client_email TEXT NOT NULL,
+  -- Resale or exemption certificate number, nonprofit status, etc.
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_tax_exempt_clients_email
+ON public.tax_exempt_clients (organization_id, lower(client_email));
+
+ALTER TABLE public.tax_exempt_clients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view tax exempt clients"
+ON public.tax_exempt_clients
+FOR SELECT
+USING (is_org_member(organization_id));
+
+CREATE POLICY "Owners and managers can manage tax exempt clients"
+ON public.tax_exempt_clients
+FOR ALL
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]))
+WITH CHECK (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]));
+
+-- Estimate lines copy this from the price list; staff can still change it per line
+ALTER TABLE public.service_prices ADD COLUMN tax_exempt BOOLEAN NOT NULL DEFAULT false;
+
+-- The tax charged on agreed_total at checkout ([{ name, rate, amount }]), so the
+-- balance invoice repeats it. agreed_total includes this tax.
+ALTER TABLE public.jobs ADD COLUMN agreed_tax_lines JSONB;
+
+-- The rates a job is taxed at, for its staff, its client and the edge functions.
+-- Clients can't read tax_rates or the exempt list directly.
+CREATE OR REPLACE FUNCTION public.job_tax_settings(_job_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  job RECORD;
+  rates JSONB;
+BEGIN
+  SELECT id, user_id, organization_id, client_email INTO job FROM jobs WHERE id = _job_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+    AND job.user_id <> auth.uid()
+    AND NOT is_org_member(job.organization_id)
+    AND NOT client_has_job_access(_job_id) THEN
+    RAISE EXCEPTION 'Not allowed to view tax for this job';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('name', name, 'rate', rate) ORDER BY sort_order, created_at), '[]'::jsonb)
+  INTO rates
+  FROM tax_rates
+  WHERE organization_id = job.organization_id AND is_active;
+
+  RETURN jsonb_build_object(
+    'rates', rates,
+    'clientExempt', EXISTS (
+      SELECT 1 FROM tax_exempt_clients
+      WHERE organization_id = job.organization_id
+      AND lower(client_email) = lower(job.client_email)
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Balance invoices repeat the tax agreed at checkout; the subtotal is the services alone
+CREATE OR REPLACE FUNCTION public.issue_balance_invoice(_job_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  job RECORD;
+  paid NUMERIC;
+  balance NUMERIC;
+  lines JSONB;
+  credits JSONB;
+  taxes JSONB;
+  tax NUMERIC;
+  invoice_id UUID;
+BEGIN
+  SELECT id, user_id, organization_id, job_number, agreed_total, agreed_line_items, agreed_tax_lines INTO job
+  FROM jobs WHERE id = _job_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Staff may issue it by hand; the status trigger runs it for everyone
+  IF auth.uid() IS NOT NULL
+    AND job.user_id <> auth.uid()
+    AND NOT has_job_role(_job_id, ARRAY['owner', 'manager', 'front_desk']::org_role[])
+    AND pg_trigger_depth() = 0 THEN
+    RAISE EXCEPTION 'Not allowed to invoice this job';
+  END IF;
+
+  SELECT id INTO invoice_id FROM invoices
+  WHERE job_id = _job_id AND kind = 'balance' AND status IN ('draft', 'sent');
+  IF FOUND THEN
+    RETURN invoice_id;
+  END IF;
+
+  IF job.agreed_total IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Refunded services come off the agreed total, so count what was charged
+  SELECT COALESCE(SUM(amount), 0) INTO paid
+  FROM payments
+  WHERE job_id = _job_id AND status IN ('completed', 'partially_refunded', 'refunded');
+
+  balance := round(job.agreed_total - paid, 2);
+  IF balance <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  taxes := COALESCE(job.agreed_tax_lines, '[]'::jsonb);
+  SELECT COALESCE(SUM((t->>'amount')::numeric), 0) INTO tax FROM jsonb_array_elements(taxes) t;
+
+  lines := COALESCE(job.agreed_line_items, jsonb_build_array(jsonb_build_object(
+    'kind', 'service',
+    'description', 'Rug care services',
+    'quantity', 1,
+    'unitPrice', job.agreed_total - tax,
+    'amount', job.agreed_total - tax
+  )));
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+           'kind', 'credit',
+           'description', 'Less payment received' || COALESCE(' (' || i.invoice_number || ')', ''),
+           'quantity', 1,
+           'unitPrice', -p.charged,
+           'amount', -p.charged
+         ) ORDER BY p.first_paid), '[]'::jsonb) INTO credits
+  FROM (
+    SELECT invoice_id, SUM(amount) AS charged, MIN(COALESCE(paid_at, created_at)) AS first_paid
+    FROM payments
+    WHERE job_id = _job_id AND status IN ('completed', 'partially_refunded', 'refunded')
+    GROUP BY invoice_id
+  ) p
+  LEFT JOIN invoices i ON i.id = p.invoice_id;
+
+  INSERT INTO invoices (job_id, organization_id, kind, status, line_items, subtotal, tax_lines, tax_total, amount_due, due_at)
+  VALUES (_job_id, job.organization_id, 'balance', 'sent', lines || credits, job.agreed_total - tax, taxes, tax, balance, now() + interval '14 days')
+  RETURNING id INTO invoice_id;
+
+  UPDATE jobs SET payment_status = 'balance_due' WHERE id = _job_id;
+
+  INSERT INTO notifications (user_id, type, title, message, metadata)
+  SELECT ca.user_id,
+         'balance_due',
+         'Balance due - Job #' || job.job_number,
+         'Your rugs are ready. The remaining $' || to_char(balance, 'FM999999990.00') || ' can be paid from your portal.',
+         jsonb_build_object('jobId', _job_id, 'invoiceId', invoice_id, 'amount', balance)
+  FROM client_job_access cja
+  JOIN client_accounts ca ON ca.id = cja.client_id
+  WHERE cja.job_id = _job_id;
+
+  RETURN invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
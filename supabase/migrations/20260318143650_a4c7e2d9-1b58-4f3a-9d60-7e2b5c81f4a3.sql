@@ -0,0 +1,321 @@
+-- Discounts: staff discounts on a rug or a whole job, automatic rules such as
+-- "3 rugs or more, 10% off", and coupon codes clients enter in the portal.
+-- Every discount is { type: percentage|fixed, value, label }; checkout turns the
+-- ones that apply into 'discount' lines on the invoice.
+
+ALTER TABLE public.approved_estimates ADD COLUMN discount JSONB;
+ALTER TABLE public.jobs ADD COLUMN discount JSONB;
+
+CREATE TABLE public.discount_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  value NUMERIC NOT NULL CHECK (value > 0),
+  -- Applies when the client's selection covers at least this many rugs
+  min_rugs INTEGER NOT NULL CHECK (min_rugs >= 1),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (discount_type <> 'percentage' OR value <= 100)
+);
+
+CREATE INDEX idx_discount_rules_organization ON public.discount_rules(organization_id);
+
+ALTER TABLE public.discount_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view discount rules"
+ON public.discount_rules
+FOR SELECT
+USING (is_org_member(organization_id));
+
+CREATE POLICY "Owners and managers can manage discount rules"
+ON public.discount_rules
+FOR ALL
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]))
+WITH CHECK (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]));
+
+CREATE TRIGGER update_discount_rules_updated_at
+BEFORE UPDATE ON public.discount_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.coupon_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  code TEXT NOT NULL CHECK (code ~ '^[A-Za-z0-9_-]+$'),
+  label TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  value NUMERIC NOT NULL CHECK (value > 0),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  -- NULL for unlimited use
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  times_redeemed INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (discount_type <> 'percentage' OR value <= 100)
+);
+
+CREATE UNIQUE INDEX idx_coupon_codes_code ON public.coupon_codes (organization_id, upper(code));
+
+ALTER TABLE public.coupon_codes ENABLE ROW LEVEL SECURITY;
+
+-- Clients check codes through job_discount_settings, never by listing them
+CREATE POLICY "Team members can view coupon codes"
+ON public.coupon_codes
+FOR SELECT
+USING (is_org_member(organization_id));
+
+CREATE POLICY "Owners and managers can manage coupon codes"
+ON public.coupon_codes
+FOR ALL
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]))
+WITH CHECK (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]));
+
+CREATE TRIGGER update_coupon_codes_updated_at
+BEFORE UPDATE ON public.coupon_codes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.invoices
+ADD COLUMN coupon_id UUID REFERENCES public.coupon_codes(id) ON DELETE SET NULL;
+
+-- A checkout holds one use of its coupon from the moment its draft invoice is
+-- created, so several checkouts open at once can't all take a coupon's last use.
+-- The coupon row is locked while its uses are counted, which makes concurrent
+-- checkouts queue here. Drafts that are voided (replaced, expired or failed) give
+-- their use back.
+CREATE OR REPLACE FUNCTION public.coupon_uses(_coupon_id UUID, _except_job_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.times_redeemed + (
+    SELECT COUNT(*)::INTEGER FROM invoices i
+    WHERE i.coupon_id = c.id
+    AND i.status = 'draft'
+    AND i.job_id IS DISTINCT FROM _except_job_id
+  )
+  FROM coupon_codes c
+  WHERE c.id = _coupon_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.reserve_coupon_redemption()
+RETURNS TRIGGER AS $$
+DECLARE
+  coupon RECORD;
+BEGIN
+  IF NEW.coupon_id IS NULL OR NEW.status <> 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.coupon_id IS NOT DISTINCT FROM NEW.coupon_id AND OLD.status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO coupon FROM coupon_codes WHERE id = NEW.coupon_id FOR UPDATE;
+
+  IF coupon.max_redemptions IS NOT NULL AND coupon_uses(coupon.id, NEW.job_id) >= coupon.max_redemptions THEN
+    RAISE EXCEPTION 'That coupon code has been used up';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reserve_coupon_redemption
+BEFORE INSERT OR UPDATE OF coupon_id, status ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.reserve_coupon_redemption();
+
+-- The held use becomes a redemption when the invoice goes out
+CREATE OR REPLACE FUNCTION public.count_coupon_redemption()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.coupon_id IS NOT NULL
+    AND OLD.status = 'draft'
+    AND NEW.status IN ('sent', 'paid') THEN
+    UPDATE coupon_codes SET times_redeemed = times_redeemed + 1 WHERE id = NEW.coupon_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER count_coupon_redemption
+AFTER UPDATE OF status ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.count_coupon_redemption();
+
+-- The job-wide discounts a job can get, for its staff, its client and the edge
+-- functions. With a code, also checks the coupon and says why it can't be used.
+CREATE OR REPLACE FUNCTION public.job_discount_settings(_job_id UUID, _coupon_code TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  job RECORD;
+  rules JSONB;
+  coupon RECORD;
+  coupon_json JSONB;
+  coupon_error TEXT;
+BEGIN
+  SELECT id, user_id, organization_id, discount INTO job FROM jobs WHERE id = _job_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+    AND job.user_id <> auth.uid()
+    AND NOT is_org_member(job.organization_id)
+    AND NOT client_has_job_access(_job_id) THEN
+    RAISE EXCEPTION 'Not allowed to view discounts for this job';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+           'type', discount_type,
+           'value', value,
+           'label', label,
+           'minRugs', min_rugs
+         ) ORDER BY min_rugs), '[]'::jsonb)
+  INTO rules
+  FROM discount_rules
+  WHERE organization_id = job.organization_id AND is_active;
+
+  IF NULLIF(trim(_coupon_code), '') IS NOT NULL THEN
+    SELECT * INTO coupon FROM coupon_codes
+    WHERE organization_id = job.organization_id
+    AND upper(code) = upper(trim(_coupon_code));
+
+    IF NOT FOUND OR NOT coupon.is_active THEN
+      coupon_error := 'That coupon code is not valid';
+    ELSIF coupon.expires_at IS NOT NULL AND coupon.expires_at < now() THEN
+      coupon_error := 'That coupon code has expired';
+    ELSIF coupon.max_redemptions IS NOT NULL AND coupon_uses(coupon.id, _job_id) >= coupon.max_redemptions THEN
+      coupon_error := 'That coupon code has been used up';
+    ELSE
+      coupon_json := jsonb_build_object(
+        'id', coupon.id,
+        'code', coupon.code,
+        'type', coupon.discount_type,
+        'value', coupon.value,
+        'label', COALESCE(coupon.label, 'Coupon ' || coupon.code)
+      );
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'jobDiscount', job.discount,
+    'rules', rules,
+    'coupon', coupon_json,
+    'couponError', coupon_error
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Agreed lines now include the checkout's discount lines, which the balance invoice
+-- repeats; subtotal and discount_total are split back out of them
+CREATE OR REPLACE FUNCTION public.issue_balance_invoice(_job_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  job RECORD;
+  paid NUMERIC;
+  balance NUMERIC;
+  lines JSONB;
+  credits JSONB;
+  taxes JSONB;
+  tax NUMERIC;
+  services_total NUMERIC;
+  discounts_total NUMERIC;
+  invoice_id UUID;
+BEGIN
+  SELECT id, user_id, organization_id, job_number, agreed_total, agreed_line_items, agreed_tax_lines INTO job
+  FROM jobs WHERE id = _job_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Staff may issue it by hand; the status trigger runs it for everyone
+  IF auth.uid() IS NOT NULL
+    AND job.user_id <> auth.uid()
+    AND NOT has_job_role(_job_id, ARRAY['owner', 'manager', 'front_desk']::org_role[])
+    AND pg_trigger_depth() = 0 THEN
+    RAISE EXCEPTION 'Not allowed to invoice this job';
+  END IF;
+
+  SELECT id INTO invoice_id FROM invoices
+  WHERE job_id = _job_id AND kind = 'balance' AND status IN ('draft', 'sent');
+  IF FOUND THEN
+    RETURN invoice_id;
+  END IF;
+
+  IF job.agreed_total IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Refunded services come off the agreed total, so count what was charged
+  SELECT COALESCE(SUM(amount), 0) INTO paid
+  FROM payments
+  WHERE job_id = _job_id AND status IN ('completed', 'partially_refunded', 'refunded');
+
+  balance := round(job.agreed_total - paid, 2);
+  IF balance <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  taxes := COALESCE(job.agreed_tax_lines, '[]'::jsonb);
+  SELECT COALESCE(SUM((t->>'amount')::numeric), 0) INTO tax FROM jsonb_array_elements(taxes) t;
+
+  lines := COALESCE(job.agreed_line_items, jsonb_build_array(jsonb_build_object(
+    'kind', 'service',
+    'description', 'Rug care services',
+    'quantity', 1,
+    'unitPrice', job.agreed_total - tax,
+    'amount', job.agreed_total - tax
+  )));
+
+  SELECT COALESCE(SUM((l->>'amount')::numeric) FILTER (WHERE l->>'kind' = 'service'), 0),
+         COALESCE(-SUM((l->>'amount')::numeric) FILTER (WHERE l->>'kind' = 'discount'), 0)
+  INTO services_total, discounts_total
+  FROM jsonb_array_elements(lines) l;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+           'kind', 'credit',
+           'description', 'Less payment received' || COALESCE(' (' || i.invoice_number || ')', ''),
+           'quantity', 1,
+           'unitPrice', -p.charged,
+           'amount', -p.charged
+         ) ORDER BY p.first_paid), '[]'::jsonb) INTO credits
+  FROM (
+    SELECT invoice_id, SUM(amount) AS charged, MIN(COALESCE(paid_at, created_at)) AS first_paid
+    FROM payments
+    WHERE job_id = _job_id AND status IN ('completed', 'partially_refunded', 'refunded')
+    GROUP BY invoice_id
+  ) p
+  LEFT JOIN invoices i ON i.id = p.invoice_id;
+
+  INSERT INTO invoices (
+    job_id, organization_id, kind, status, line_items,
+    subtotal, discount_total, tax_lines, tax_total, amount_due, due_at
+  )
+  VALUES (
+    _job_id, job.organization_id, 'balance', 'sent', lines || credits,
+    services_total, discounts_total, taxes, tax, balance, now() + interval '14 days'
+  )
+  RETURNING id INTO invoice_id;
+
+  UPDATE jobs SET payment_status = 'balance_due' WHERE id = _job_id;
+
+  INSERT INTO notifications (user_id, type, title, message, metadata)
+  SELECT ca.user_id,
+         'balance_due',
+         'Balance due - Job #' || job.job_number,
+         'Your rugs are ready. The remaining $' || to_char(balance, 'FM999999990.00') || ' can be paid from your portal.',
+         jsonb_build_object('jobId', _job_id, 'invoiceId', invoice_id, 'amount', balance)
+  FROM client_job_access cja
+  JOIN client_accounts ca ON ca.id = cja.client_id
+  WHERE cja.job_id = _job_id;
+
+  RETURN invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,54 @@
+-- Email delivery log. Every email an edge function sends gets a row (see sendEmail in
+-- supabase/functions/_shared/email.ts), and the Resend webhook moves it on to
+-- delivered, opened and clicked, or bounced. Staff see a job's emails on the job page
+-- and can resend one exactly as it went out.
+
+CREATE TABLE public.email_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL,
+  -- An email_templates type, or the kind of system email, e.g. 'new_message'
+  template_type TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  from_address TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  text TEXT,
+  -- [{ filename, path }] in the email-attachments bucket
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  resend_message_id TEXT UNIQUE,
+  status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN (
+    'sent', 'failed', 'delivery_delayed', 'delivered', 'opened', 'clicked', 'bounced', 'complained'
+  )),
+  -- Why the send failed or the email bounced
+  error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  opened_at TIMESTAMP WITH TIME ZONE,
+  clicked_at TIMESTAMP WITH TIME ZONE,
+  bounced_at TIMESTAMP WITH TIME ZONE,
+  resent_from UUID REFERENCES public.email_events(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_email_events_job ON public.email_events(job_id, created_at DESC);
+CREATE INDEX idx_email_events_organization ON public.email_events(organization_id, created_at DESC);
+
+ALTER TABLE public.email_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by edge functions with the service role only
+CREATE POLICY "Staff can view their jobs' emails"
+ON public.email_events
+FOR SELECT
+USING (
+  (job_id IS NOT NULL AND has_job_role(job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[]))
+  OR (job_id IS NULL AND organization_id IS NOT NULL AND has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]))
+);
+
+CREATE TRIGGER update_email_events_updated_at
+BEFORE UPDATE ON public.email_events
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Copies of attachments for resends; only the service role reads or writes them
+INSERT INTO storage.buckets (id, name, public) VALUES ('email-attachments', 'email-attachments', false);
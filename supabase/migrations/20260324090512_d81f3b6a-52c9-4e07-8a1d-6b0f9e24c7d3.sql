@@ -0,0 +1,76 @@
+-- Follow-up reminders: the send-follow-up-reminders function runs hourly and emails
+-- clients whose portal invite is unopened, whose estimate is unapproved or whose
+-- balance is unpaid, on a cadence each business sets per kind of reminder.
+-- Reminders are counted from email_events, so no separate log is kept; the job's
+-- next_follow_up_at says when staff should next look at it.
+
+CREATE TABLE public.reminder_cadences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- Also the email_templates type the reminder is written with
+  kind TEXT NOT NULL CHECK (kind IN ('invite_reminder', 'estimate_reminder', 'balance_reminder')),
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  -- Days after the invite or invoice went out before the first reminder
+  first_after_days INTEGER NOT NULL CHECK (first_after_days >= 1),
+  repeat_every_days INTEGER NOT NULL CHECK (repeat_every_days >= 1),
+  max_reminders INTEGER NOT NULL CHECK (max_reminders BETWEEN 1 AND 10),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, kind)
+);
+
+ALTER TABLE public.reminder_cadences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view reminder cadences"
+ON public.reminder_cadences
+FOR SELECT
+USING (is_org_member(organization_id));
+
+CREATE POLICY "Owners and managers can manage reminder cadences"
+ON public.reminder_cadences
+FOR ALL
+USING (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]))
+WITH CHECK (has_org_role(organization_id, ARRAY['owner', 'manager']::org_role[]));
+
+CREATE TRIGGER update_reminder_cadences_updated_at
+BEFORE UPDATE ON public.reminder_cadences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The next_follow_up_at the reminders last set. Staff can change the date or the
+-- note themselves, so the reminders only clear a follow-up that is still theirs.
+ALTER TABLE public.jobs ADD COLUMN auto_follow_up_at TIMESTAMP WITH TIME ZONE;
+
+-- The Dashboard lists follow-ups due today
+CREATE INDEX idx_jobs_next_follow_up ON public.jobs(next_follow_up_at)
+WHERE next_follow_up_at IS NOT NULL;
+
+-- Follow-ups the reminders may need to clear
+CREATE INDEX idx_jobs_auto_follow_up ON public.jobs(organization_id)
+WHERE auto_follow_up_at IS NOT NULL;
+
+-- Counting a job's reminders
+CREATE INDEX idx_email_events_job_template ON public.email_events(job_id, template_type, created_at);
+
+-- Run the reminders every hour. The project URL and the CRON_SECRET the function
+-- checks are kept in Vault:
+--   SELECT vault.create_secret('https://<project>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<CRON_SECRET>', 'cron_secret');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-follow-up-reminders',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-follow-up-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
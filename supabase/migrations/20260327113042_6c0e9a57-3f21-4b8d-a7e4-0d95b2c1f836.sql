@@ -0,0 +1,91 @@
+-- Push notifications: notifications rows of the kinds below are handed to the
+-- push-dispatch function, which sends them to the recipient's push_tokens unless
+-- their notification_preferences turn push off, and prunes tokens the provider rejects.
+
+-- Staff hear when a client approves their estimate (the first payment approves it)
+CREATE OR REPLACE FUNCTION public.notify_estimate_approved()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, type, title, message, metadata)
+  VALUES (
+    NEW.user_id,
+    'estimate_approved',
+    'Estimate approved - Job #' || NEW.job_number,
+    NEW.client_name || ' approved their estimate.',
+    jsonb_build_object('jobId', NEW.id, 'jobNumber', NEW.job_number)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_jobs_estimate_approved
+AFTER UPDATE OF client_approved_at ON public.jobs
+FOR EACH ROW
+WHEN (OLD.client_approved_at IS NULL AND NEW.client_approved_at IS NOT NULL)
+EXECUTE FUNCTION public.notify_estimate_approved();
+
+-- Clients hear when their rugs reach the pipeline's 'ready' step
+CREATE OR REPLACE FUNCTION public.notify_job_ready()
+RETURNS TRIGGER AS $$
+DECLARE
+  ready_label TEXT;
+BEGIN
+  SELECT COALESCE(client_label, label) INTO ready_label
+  FROM public.job_statuses
+  WHERE organization_id = NEW.organization_id AND key = NEW.status;
+
+  INSERT INTO public.notifications (user_id, type, title, message, metadata)
+  SELECT DISTINCT
+    ca.user_id,
+    'job_ready',
+    'Your rugs are ready',
+    'Job #' || NEW.job_number || ': ' || COALESCE(ready_label, 'Ready'),
+    jsonb_build_object('jobId', NEW.id, 'jobNumber', NEW.job_number)
+  FROM public.client_job_access cja
+  JOIN public.client_accounts ca ON ca.id = cja.client_id
+  WHERE cja.job_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_jobs_ready
+AFTER UPDATE OF status ON public.jobs
+FOR EACH ROW
+WHEN (NEW.status = 'ready' AND OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.notify_job_ready();
+
+-- Hand new notifications to push-dispatch. The project URL and the
+-- PUSH_DISPATCH_SECRET the function checks are kept in Vault:
+--   SELECT vault.create_secret('<PUSH_DISPATCH_SECRET>', 'push_dispatch_secret');
+-- (project_url is shared with the follow-up reminders schedule.)
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.dispatch_push_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/push-dispatch',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'push_dispatch_secret')
+    ),
+    body := jsonb_build_object('notificationId', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keep in step with PUSH_NOTIFICATION_TYPES in supabase/functions/_shared/push.ts
+CREATE TRIGGER dispatch_notifications_push
+AFTER INSERT ON public.notifications
+FOR EACH ROW
+WHEN (NEW.type IN ('payment_received', 'estimate_approved', 'client_message', 'staff_message', 'job_ready'))
+EXECUTE FUNCTION public.dispatch_push_notification();
+
+-- New accounts start with push on; preferences saved before this have no
+-- pushNotifications key and are treated as on too
+ALTER TABLE public.profiles
+ALTER COLUMN notification_preferences
+SET DEFAULT '{"emailReports": true, "jobUpdates": true, "marketingEmails": false, "pushNotifications": true}'::jsonb;
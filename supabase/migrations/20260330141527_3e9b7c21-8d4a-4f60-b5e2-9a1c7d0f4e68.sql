@@ -0,0 +1,6 @@
+-- On-device quality scores for each rug photo, in the same order as photo_urls.
+-- Entries are null for photos taken before capture started checking them.
+ALTER TABLE public.inspections ADD COLUMN photo_quality JSONB;
+
+COMMENT ON COLUMN public.inspections.photo_quality IS
+  'Array aligned with photo_urls: { score, issues, sharpness, brightness, shadowClipping, highlightClipping, width, height, coverage } per photo';
@@ -0,0 +1,152 @@
+-- Rug photos as rows instead of positions in inspections.photo_urls. Each photo
+-- records which guided capture step it was taken for, so analysis, annotations and
+-- PDFs no longer depend on index 0 being the overall front.
+--
+-- inspections.photo_urls is kept in step with the rows by a trigger, for readers
+-- that only need the paths (the client view, history lists, older app versions).
+
+CREATE TABLE public.rug_photos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  inspection_id UUID NOT NULL REFERENCES public.inspections(id) ON DELETE CASCADE,
+  -- Copied from the inspection so policies can use the job helpers
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  -- GuidedPhotoCapture step, e.g. 'overall-front'; 'issue' for issue close-ups
+  step_id TEXT,
+  caption TEXT,
+  captured_at TIMESTAMP WITH TIME ZONE,
+  -- Of the stored image, after resizing
+  width INTEGER,
+  height INTEGER,
+  -- 0-100 from the on-device check; null for photos taken before checks existed
+  quality_score SMALLINT CHECK (quality_score BETWEEN 0 AND 100),
+  quality JSONB,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_rug_photos_inspection ON public.rug_photos(inspection_id, sort_order);
+CREATE INDEX idx_rug_photos_job ON public.rug_photos(job_id);
+
+ALTER TABLE public.rug_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view rug photos"
+ON public.rug_photos
+FOR SELECT
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector', 'front_desk']::org_role[]));
+
+CREATE POLICY "Clients can view rug photos for their jobs"
+ON public.rug_photos
+FOR SELECT
+USING (client_has_job_access(job_id));
+
+CREATE POLICY "Inspectors can manage rug photos"
+ON public.rug_photos
+FOR ALL
+USING (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector']::org_role[]))
+WITH CHECK (has_job_role(job_id, ARRAY['owner', 'manager', 'inspector']::org_role[]));
+
+-- The job's own staff member, for jobs outside an organization
+CREATE POLICY "Staff can manage rug photos for their jobs"
+ON public.rug_photos
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = rug_photos.job_id
+    AND jobs.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = rug_photos.job_id
+    AND jobs.user_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.set_rug_photo_job_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT job_id INTO NEW.job_id FROM public.inspections WHERE id = NEW.inspection_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_rug_photo_job_id
+BEFORE INSERT OR UPDATE OF inspection_id ON public.rug_photos
+FOR EACH ROW
+EXECUTE FUNCTION public.set_rug_photo_job_id();
+
+CREATE OR REPLACE FUNCTION public.sync_inspection_photo_urls()
+RETURNS TRIGGER AS $$
+DECLARE
+  target UUID := COALESCE(NEW.inspection_id, OLD.inspection_id);
+BEGIN
+  UPDATE public.inspections
+  SET photo_urls = (
+    SELECT COALESCE(array_agg(storage_path ORDER BY sort_order, created_at), '{}')
+    FROM public.rug_photos
+    WHERE inspection_id = target
+  )
+  WHERE id = target;
+
+  IF TG_OP = 'UPDATE' AND OLD.inspection_id <> NEW.inspection_id THEN
+    UPDATE public.inspections
+    SET photo_urls = (
+      SELECT COALESCE(array_agg(storage_path ORDER BY sort_order, created_at), '{}')
+      FROM public.rug_photos
+      WHERE inspection_id = OLD.inspection_id
+    )
+    WHERE id = OLD.inspection_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_inspection_photo_urls
+AFTER INSERT OR UPDATE OR DELETE ON public.rug_photos
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_inspection_photo_urls();
+
+-- Existing photos: positions 0-5 were the guided steps in order, the rest issue close-ups
+INSERT INTO public.rug_photos (inspection_id, job_id, storage_path, step_id, captured_at, quality_score, quality, sort_order, created_at)
+SELECT
+  i.id,
+  i.job_id,
+  p.path,
+  CASE p.position
+    WHEN 1 THEN 'overall-front'
+    WHEN 2 THEN 'overall-back'
+    WHEN 3 THEN 'fringe-end-a'
+    WHEN 4 THEN 'fringe-end-b'
+    WHEN 5 THEN 'edge-side-a'
+    WHEN 6 THEN 'edge-side-b'
+    ELSE 'issue'
+  END,
+  i.created_at,
+  (i.photo_quality -> (p.position::int - 1) ->> 'score')::smallint,
+  NULLIF(i.photo_quality -> (p.position::int - 1), 'null'::jsonb),
+  p.position - 1,
+  i.created_at
+FROM public.inspections i
+CROSS JOIN LATERAL unnest(i.photo_urls) WITH ORDINALITY AS p(path, position)
+WHERE i.job_id IS NOT NULL;
+
+-- Annotations pointed at photo positions; point them at the photos themselves
+UPDATE public.inspections i
+SET image_annotations = (
+  SELECT jsonb_agg(
+    CASE WHEN rp.id IS NULL THEN a ELSE a || jsonb_build_object('photoId', rp.id) END
+  )
+  FROM jsonb_array_elements(i.image_annotations) a
+  LEFT JOIN public.rug_photos rp
+    ON rp.inspection_id = i.id
+    AND rp.sort_order = (a ->> 'photoIndex')::int
+)
+WHERE jsonb_typeof(i.image_annotations) = 'array'
+  AND jsonb_array_length(i.image_annotations) > 0;
+
+-- Quality now lives on each photo
+ALTER TABLE public.inspections DROP COLUMN photo_quality;
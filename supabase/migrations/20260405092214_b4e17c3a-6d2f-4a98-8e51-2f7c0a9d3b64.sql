@@ -0,0 +1,42 @@
+-- After-service photos: staff retake the guided capture angles once a rug's work is
+-- done, so the portal and the job PDF can compare each angle before and after.
+--
+-- They live in rug_photos next to the intake photos, told apart by phase. Only
+-- intake photos feed photo_urls, analysis and markers.
+
+ALTER TABLE public.rug_photos
+  ADD COLUMN phase TEXT NOT NULL DEFAULT 'intake' CHECK (phase IN ('intake', 'after_service'));
+
+-- One after-service photo per angle; a retake replaces it
+CREATE UNIQUE INDEX idx_rug_photos_after_service_step
+  ON public.rug_photos(inspection_id, step_id)
+  WHERE phase = 'after_service';
+
+CREATE OR REPLACE FUNCTION public.sync_inspection_photo_urls()
+RETURNS TRIGGER AS $$
+DECLARE
+  target UUID := COALESCE(NEW.inspection_id, OLD.inspection_id);
+BEGIN
+  UPDATE public.inspections
+  SET photo_urls = (
+    SELECT COALESCE(array_agg(storage_path ORDER BY sort_order, created_at), '{}')
+    FROM public.rug_photos
+    WHERE inspection_id = target
+      AND phase = 'intake'
+  )
+  WHERE id = target;
+
+  IF TG_OP = 'UPDATE' AND OLD.inspection_id <> NEW.inspection_id THEN
+    UPDATE public.inspections
+    SET photo_urls = (
+      SELECT COALESCE(array_agg(storage_path ORDER BY sort_order, created_at), '{}')
+      FROM public.rug_photos
+      WHERE inspection_id = OLD.inspection_id
+        AND phase = 'intake'
+    )
+    WHERE id = OLD.inspection_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,51 @@
+-- Refunds show on the invoice they came off. A paid invoice whose payments have been
+-- partly or wholly refunded becomes partially_refunded or refunded, the same states
+-- its payments are in. Both still count as settled: nothing more is billed for them.
+
+ALTER TABLE public.invoices DROP CONSTRAINT invoices_status_check;
+ALTER TABLE public.invoices
+ADD CONSTRAINT invoices_status_check
+CHECK (status IN ('draft', 'sent', 'paid', 'partially_refunded', 'refunded', 'void'));
+
+CREATE OR REPLACE FUNCTION public.sync_invoice_amount_paid()
+RETURNS TRIGGER AS $$
+DECLARE
+  target UUID;
+  charged NUMERIC;
+  kept NUMERIC;
+BEGIN
+  FOREACH target IN ARRAY ARRAY[NEW.invoice_id, CASE WHEN TG_OP = 'UPDATE' THEN OLD.invoice_id END] LOOP
+    CONTINUE WHEN target IS NULL;
+
+    SELECT COALESCE(SUM(amount), 0), COALESCE(SUM(amount - amount_refunded), 0) INTO charged, kept
+    FROM payments
+    WHERE invoice_id = target
+    AND status IN ('completed', 'partially_refunded', 'refunded');
+
+    UPDATE invoices
+    SET amount_paid = kept,
+        status = CASE
+          WHEN status = 'void' THEN 'void'
+          WHEN charged >= amount_due - 0.005 AND charged > 0 AND kept < 0.005 THEN 'refunded'
+          WHEN charged >= amount_due - 0.005 AND kept < charged - 0.005 THEN 'partially_refunded'
+          WHEN charged >= amount_due - 0.005 THEN 'paid'
+          WHEN status IN ('paid', 'partially_refunded', 'refunded') THEN 'sent'
+          ELSE status
+        END,
+        paid_at = CASE WHEN charged >= amount_due - 0.005 THEN COALESCE(paid_at, now()) ELSE NULL END
+    WHERE id = target;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Invoices refunded before this migration
+UPDATE public.invoices i
+SET status = CASE WHEN i.amount_paid < 0.005 THEN 'refunded' ELSE 'partially_refunded' END
+WHERE i.status = 'paid'
+AND EXISTS (
+  SELECT 1 FROM public.payments p
+  WHERE p.invoice_id = i.id
+  AND p.amount_refunded > 0
+);